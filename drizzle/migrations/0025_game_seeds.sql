@@ -0,0 +1,11 @@
+-- Create game_seeds table (server-issued seeds for replay-verified completions)
+CREATE TABLE IF NOT EXISTS game_seeds (
+  seed TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  challenge_id TEXT NOT NULL,
+  issued_at INTEGER NOT NULL,
+  used_at INTEGER
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_game_seeds_user_challenge ON game_seeds(user_id, challenge_id);
@@ -0,0 +1,25 @@
+-- Create mcp_sessions table (challenge sessions played through /api/mcp/tool)
+CREATE TABLE IF NOT EXISTS mcp_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+  challenge_id TEXT NOT NULL,
+  difficulty TEXT NOT NULL,
+  seed TEXT NOT NULL,
+  options_json TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  state TEXT NOT NULL,
+  events_json TEXT NOT NULL,
+  move_count INTEGER NOT NULL DEFAULT 0,
+  event_seq INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  last_activity_at INTEGER NOT NULL,
+  -- Last write (sessions expire from here) and a version for conflicting writes
+  updated_at INTEGER NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_challenge ON mcp_sessions(challenge_id);
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_last_activity ON mcp_sessions(last_activity_at);
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_updated_at ON mcp_sessions(updated_at);
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_user ON mcp_sessions(user_id);
@@ -0,0 +1,37 @@
+-- Create pvp_ratings table (Glicko-2 rating per user and game type)
+CREATE TABLE IF NOT EXISTS pvp_ratings (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  game_type TEXT NOT NULL,
+  rating REAL NOT NULL DEFAULT 1000,
+  deviation REAL NOT NULL DEFAULT 350,
+  volatility REAL NOT NULL DEFAULT 0.06,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  last_played_at INTEGER,
+  updated_at INTEGER,
+  PRIMARY KEY (user_id, game_type)
+);
+
+-- Create pvp_rating_history table (one row per player per rated match)
+CREATE TABLE IF NOT EXISTS pvp_rating_history (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  game_type TEXT NOT NULL,
+  match_id TEXT NOT NULL REFERENCES pvp_matches(id) ON DELETE CASCADE,
+  opponent_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  result TEXT NOT NULL,
+  rating_before REAL NOT NULL,
+  rating_after REAL NOT NULL,
+  deviation_before REAL NOT NULL,
+  deviation_after REAL NOT NULL,
+  volatility_before REAL NOT NULL,
+  volatility_after REAL NOT NULL,
+  created_at INTEGER
+);
+
+-- Queue entries remember the deviation used to widen their match window
+ALTER TABLE matchmaking_queue ADD COLUMN deviation REAL NOT NULL DEFAULT 350;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_pvp_ratings_game_rating ON pvp_ratings(game_type, rating);
+CREATE INDEX IF NOT EXISTS idx_pvp_rating_history_user_game ON pvp_rating_history(user_id, game_type, created_at);
+CREATE INDEX IF NOT EXISTS idx_pvp_rating_history_match ON pvp_rating_history(match_id);
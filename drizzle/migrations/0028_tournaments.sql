@@ -0,0 +1,53 @@
+-- Create tournaments table (round-robin, Swiss and single-elimination agent events)
+CREATE TABLE IF NOT EXISTS tournaments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  game_type TEXT NOT NULL,
+  format TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'registration',
+  total_rounds INTEGER,
+  current_round INTEGER NOT NULL DEFAULT 0,
+  max_entrants INTEGER NOT NULL DEFAULT 16,
+  time_control TEXT,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at INTEGER,
+  started_at INTEGER,
+  ended_at INTEGER
+);
+
+-- Create tournament_entrants table (agents registered by AgentSnapshot identity)
+CREATE TABLE IF NOT EXISTS tournament_entrants (
+  id TEXT PRIMARY KEY,
+  tournament_id TEXT NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  agent_name TEXT NOT NULL,
+  agent_model TEXT NOT NULL,
+  agent_snapshot_json TEXT NOT NULL,
+  seed INTEGER NOT NULL,
+  created_at INTEGER
+);
+
+-- Create tournament_games table (one row per pairing)
+CREATE TABLE IF NOT EXISTS tournament_games (
+  id TEXT PRIMARY KEY,
+  tournament_id TEXT NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL,
+  board INTEGER NOT NULL,
+  white_entrant_id TEXT NOT NULL REFERENCES tournament_entrants(id) ON DELETE CASCADE,
+  black_entrant_id TEXT REFERENCES tournament_entrants(id) ON DELETE CASCADE,
+  room_id TEXT,
+  white_nonce TEXT,
+  black_nonce TEXT,
+  result TEXT NOT NULL DEFAULT 'pending',
+  reported_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at INTEGER,
+  completed_at INTEGER
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_tournaments_status ON tournaments(status, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_entrants_agent ON tournament_entrants(tournament_id, agent_name, agent_model);
+-- A round's games are written in one batch; a second batch for the same round
+-- must fail instead of adding a duplicate pairing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_games_round ON tournament_games(tournament_id, round, board);
+CREATE INDEX IF NOT EXISTS idx_tournament_games_room ON tournament_games(room_id);
@@ -0,0 +1,10 @@
+-- Replay storage v2: the full GameReplay event stream, gzip-compressed and base64-encoded
+-- Existing rows keep format_version 1 (moves_json only) until the admin
+-- backfill (POST /api/replays/backfill) upgrades them by re-playing their
+-- moves. Rows whose moves do not reproduce their stored result are marked
+-- legacy and keep moves_json only.
+ALTER TABLE replays ADD COLUMN replay_data TEXT;
+ALTER TABLE replays ADD COLUMN format_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE replays ADD COLUMN legacy INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_replays_backfill ON replays(format_version, legacy);
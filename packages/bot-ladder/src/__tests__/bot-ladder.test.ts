@@ -0,0 +1,201 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { getEngine } from '@mcpchallenge/game-engines';
+import {
+  bridgeEngine,
+  createReplayEngine,
+  createStateComparator,
+  VOLATILE_STATE_FIELDS,
+  type GameReplay,
+} from '@mcpchallenge/challenge-registry';
+import { LadderGame, type LadderGameOptions } from '../ladder-game';
+import { handleMessage, handleRaw, type JsonRpcResponse } from '../mcp';
+import { summarize, toCsv } from '../report';
+import type { GameRecord, LadderReport } from '../types';
+
+const engine = bridgeEngine(getEngine('tictactoe')!, { defaultDifficulty: 'easy' });
+
+function newGame(options: Partial<LadderGameOptions> = {}): LadderGame {
+  return new LadderGame(engine, {
+    engineId: 'tictactoe',
+    difficulty: 'easy',
+    gameIndex: 0,
+    seed: 'ladder',
+    moveTimeoutMs: 60_000,
+    maxMoves: 50,
+    ...options,
+  });
+}
+
+let nextId = 1;
+function call(game: LadderGame, name: string, args: Record<string, unknown> = {}) {
+  const response = handleMessage(game, {
+    jsonrpc: '2.0',
+    id: nextId++,
+    method: 'tools/call',
+    params: { name, arguments: args },
+  });
+  return response!.result as { content: { text: string }[]; isError?: boolean };
+}
+
+/**
+ * Validate a replay the way the runner does
+ */
+function validate(replay: GameReplay<unknown>) {
+  return createReplayEngine(engine, {
+    compareStates: createStateComparator(VOLATILE_STATE_FIELDS),
+  }).validate(replay);
+}
+
+function record(overrides: Partial<GameRecord>): GameRecord {
+  return {
+    engine: 'tictactoe',
+    difficulty: 'easy',
+    gameIndex: 0,
+    seed: 's',
+    outcome: 'won',
+    playerMoves: 5,
+    aiMoves: 4,
+    moveCalls: 5,
+    invalidMoves: 0,
+    latenciesMs: [],
+    durationMs: 0,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LadderGame over MCP', () => {
+  it('answers initialize, remembers the client and lists the tools', () => {
+    const game = newGame();
+    const [init, list] = handleRaw(game, JSON.stringify([
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '1999-01-01', clientInfo: { name: 'agent', version: '1.2' } },
+      },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+    ]));
+
+    expect(init.result).toMatchObject({ protocolVersion: '2025-03-26', serverInfo: { name: 'bot-ladder' } });
+    const tools = (list.result as { tools: { name: string }[] }).tools.map((tool) => tool.name);
+    expect(tools).toEqual(['get_state', 'get_legal_moves', 'make_move', 'resign']);
+    expect(game.toRecord().client).toEqual({ name: 'agent', version: '1.2' });
+  });
+
+  it('reports protocol errors', () => {
+    const game = newGame();
+    const [parse] = handleRaw(game, '{not json');
+    const [unknown] = handleRaw(game, JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'nope' }));
+    const invalid = handleMessage(game, { id: 4 }) as JsonRpcResponse;
+
+    expect(parse.error?.code).toBe(-32700);
+    expect(unknown).toMatchObject({ id: 3, error: { code: -32601 } });
+    expect(invalid.error?.code).toBe(-32600);
+  });
+
+  it('plays to the end with a replay that validates', () => {
+    const game = newGame();
+    game.start();
+
+    while (!game.isOver) {
+      const result = call(game, 'make_move', { move: game.legalMoves()[0] });
+      expect(result.isError).toBeUndefined();
+    }
+
+    const summary = game.toRecord();
+    expect(['won', 'lost', 'draw']).toContain(summary.outcome);
+    expect(summary.playerMoves).toBe(summary.moveCalls);
+    expect(summary.latenciesMs).toHaveLength(summary.playerMoves);
+    expect(call(game, 'make_move', { move: 'a1' })).toMatchObject({ isError: true });
+    expect(game.legalMoves()).toEqual([]);
+
+    const replay = game.buildReplay();
+    expect(replay.meta.custom).toMatchObject({ source: 'bot-ladder', outcome: summary.outcome });
+    expect(validate(replay).valid).toBe(true);
+  });
+
+  it('counts rejected and missing moves as invalid', () => {
+    const game = newGame();
+
+    const rejected = call(game, 'make_move', { move: 'not a move' });
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content[0].text).toContain('Legal moves:');
+    expect(call(game, 'make_move').isError).toBe(true);
+    call(game, 'make_move', { move: game.legalMoves()[0] });
+
+    expect(game.toRecord()).toMatchObject({ moveCalls: 3, invalidMoves: 2, playerMoves: 1 });
+    expect(game.buildReplay().events.filter((event) => event.type === 'error')).toHaveLength(2);
+  });
+
+  it('records a resignation as a loss with a resign event', () => {
+    const game = newGame();
+    call(game, 'make_move', { move: game.legalMoves()[0] });
+
+    expect(call(game, 'resign').content[0].text).toContain('Game over: you lose');
+    expect(game.toRecord().outcome).toBe('lost');
+
+    const replay = game.buildReplay();
+    expect(replay.events.at(-1)?.type).toBe('resign');
+    expect(replay.result?.status).toBe('lost');
+    expect(validate(replay).valid).toBe(true);
+  });
+
+  it('stops at the move limit', () => {
+    const game = newGame({ maxMoves: 1 });
+    call(game, 'make_move', { move: game.legalMoves()[0] });
+    expect(game.toRecord().outcome).toBe('move_limit');
+  });
+
+  it('times out an agent that does not move', async () => {
+    vi.useFakeTimers();
+    const game = newGame({ moveTimeoutMs: 1_000 });
+    game.start();
+
+    vi.advanceTimersByTime(1_000);
+    await game.finished;
+    expect(game.toRecord().outcome).toBe('timeout');
+    expect(game.buildReplay().events.at(-1)?.type).toBe('timeout');
+  });
+});
+
+describe('ladder report', () => {
+  it('aggregates each engine and difficulty, scoring move limits as draws', () => {
+    const rows = summarize([
+      record({ outcome: 'won', latenciesMs: [10, 30] }),
+      record({ outcome: 'move_limit', moveCalls: 4, invalidMoves: 1, latenciesMs: [20] }),
+      record({ outcome: 'timeout', playerMoves: 0, moveCalls: 1, invalidMoves: 1, replayValid: false }),
+      record({ difficulty: 'hard', outcome: 'disconnected' }),
+    ]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      games: 3,
+      wins: 1,
+      draws: 1,
+      losses: 1,
+      timeouts: 1,
+      winRate: 0.3333,
+      avgMoves: 3.33,
+      invalidMoveRate: 0.2,
+      avgLatencyMs: 20,
+      p50LatencyMs: 20,
+      p95LatencyMs: 30,
+      invalidReplays: 1,
+    });
+    expect(rows[1]).toMatchObject({ difficulty: 'hard', losses: 1, disconnects: 1, avgLatencyMs: 0 });
+  });
+
+  it('writes one CSV line per row under a header', () => {
+    const rows = summarize([record({ engine: 'tic,tac' })]);
+    const csv = toCsv({ rows } as unknown as LadderReport);
+    const [header, line] = csv.trimEnd().split('\n');
+
+    expect(header.split(',')[0]).toBe('engine');
+    expect(line.startsWith('"tic,tac",easy,1,1,0,0')).toBe(true);
+  });
+});
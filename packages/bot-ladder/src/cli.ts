@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+/**
+ * bot-ladder CLI
+ *
+ * Benchmarks an MCP agent against the built-in AIs without the website:
+ *
+ *   bot-ladder --agent "node my-agent.js" --engines chess,tictactoe --games 20 \
+ *     --difficulties easy,hard --replays ./replays --format csv --out report.csv
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { Difficulty } from '@mcpchallenge/challenge-registry';
+import { toCsv, toJson } from './report';
+import { defaultLadderEngines, runLadder } from './runner';
+import type { LadderTransport } from './types';
+
+const USAGE = `Usage: bot-ladder [options]
+
+Plays an MCP agent against the built-in game AIs and reports how it did.
+The ladder is the MCP server; the agent is the client.
+
+Options:
+  --agent <command>        Command that starts the agent (spawned once per game)
+  --transport <stdio|http> How the agent connects (default: stdio)
+  --port <port>            HTTP port; the endpoint is http://127.0.0.1:<port>/mcp (default: 8787)
+  --engines <ids>          Comma-separated engine IDs (default: all two-player engines)
+  --difficulties <list>    Comma-separated easy,medium,hard (default: easy,medium,hard)
+  --games <n>              Games per engine and difficulty (default: 10)
+  --seed <seed>            Base seed; game i uses <seed>-<i> (default: ladder)
+  --move-timeout <ms>      Time per agent move before it loses on time (default: 60000)
+  --max-moves <n>          Agent moves before a game is scored as a draw (default: 300)
+  --replays <dir>          Write a GameReplay JSON file per game
+  --no-validate            Skip ReplayEngine validation of the replays
+  --format <json|csv>      Report format (default: json)
+  --out <file>             Write the report to a file instead of stdout
+  -h, --help               Show this help
+
+Over HTTP without --agent, the ladder waits for a client to connect to the
+endpoint; each game is a new MCP session.`;
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+function fail(message: string): never {
+  console.error(`bot-ladder: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value?.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function parsePositiveInt(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) fail(`--${name} must be a positive integer`);
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        agent: { type: 'string' },
+        transport: { type: 'string', default: 'stdio' },
+        port: { type: 'string' },
+        engines: { type: 'string' },
+        difficulties: { type: 'string' },
+        games: { type: 'string' },
+        seed: { type: 'string', default: 'ladder' },
+        'move-timeout': { type: 'string' },
+        'max-moves': { type: 'string' },
+        replays: { type: 'string' },
+        'no-validate': { type: 'boolean', default: false },
+        format: { type: 'string', default: 'json' },
+        out: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const transport = values.transport as LadderTransport;
+  if (transport !== 'stdio' && transport !== 'http') fail('--transport must be stdio or http');
+  if (transport === 'stdio' && !values.agent) fail('--agent is required for the stdio transport');
+  if (values.format !== 'json' && values.format !== 'csv') fail('--format must be json or csv');
+
+  const difficulties = (parseList(values.difficulties) ?? DIFFICULTIES) as Difficulty[];
+  const unknown = difficulties.filter((difficulty) => !DIFFICULTIES.includes(difficulty));
+  if (unknown.length > 0) fail(`Unknown difficulty: ${unknown.join(', ')}`);
+
+  const port = parsePositiveInt('port', values.port, 8787);
+  if (transport === 'http' && !values.agent) {
+    console.error(`bot-ladder: waiting for an MCP client at http://127.0.0.1:${port}/mcp`);
+  }
+
+  const report = await runLadder({
+    engines: parseList(values.engines) ?? defaultLadderEngines(),
+    difficulties,
+    games: parsePositiveInt('games', values.games, 10),
+    seed: values.seed,
+    transport,
+    agentCommand: values.agent,
+    port,
+    moveTimeoutMs: parsePositiveInt('move-timeout', values['move-timeout'], 60000),
+    maxMoves: parsePositiveInt('max-moves', values['max-moves'], 300),
+    replayDir: values.replays,
+    validateReplays: !values['no-validate'],
+    onGameComplete: (record) => {
+      const invalid = record.replayValid === false ? ` (invalid replay: ${record.replayError})` : '';
+      console.error(
+        `${record.engine} ${record.difficulty} #${record.gameIndex + 1}: ${record.outcome} ` +
+        `in ${record.playerMoves} moves, ${record.invalidMoves} invalid${invalid}`
+      );
+    },
+  });
+
+  const output = values.format === 'csv' ? toCsv(report) : toJson(report);
+  if (values.out) {
+    await writeFile(values.out, output);
+    console.error(`bot-ladder: report written to ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch((err) => {
+  console.error(`bot-ladder: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+});
@@ -0,0 +1,15 @@
+/**
+ * Bot Ladder
+ *
+ * Headless benchmark runner: plays MCP agents against the built-in game AIs
+ * over stdio or HTTP and reports win rate, moves, invalid moves and latency,
+ * with a ReplayEngine-compatible GameReplay per game.
+ */
+
+export * from './types';
+export { LadderGame, type LadderGameOptions, type MoveAttempt } from './ladder-game';
+export { handleMessage, handleRaw, LADDER_SERVER_INFO, type JsonRpcRequest, type JsonRpcResponse } from './mcp';
+export { summarize, toCsv, toJson } from './report';
+export { runLadder, defaultLadderEngines } from './runner';
+export { LadderHttpServer } from './transports/http';
+export { playOverStdio } from './transports/stdio';
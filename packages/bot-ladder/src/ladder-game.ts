@@ -0,0 +1,348 @@
+/**
+ * Ladder Game
+ *
+ * One agent-vs-AI game: the agent moves through MCP tool calls, the built-in
+ * AI answers in-process, and every step is recorded into a GameReplay that
+ * ReplayEngine can validate.
+ */
+
+import {
+  createEngineExecutor,
+  ReplayRecorder,
+  type ClientInfo,
+  type Difficulty,
+  type EngineExecutor,
+  type GameEngine,
+  type GameReplay,
+  type GameResult,
+  type GameState,
+  type Seed,
+} from '@mcpchallenge/challenge-registry';
+import type { GameOutcome, GameRecord } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LadderGameOptions {
+  readonly engineId: string;
+  readonly difficulty: Difficulty;
+  readonly gameIndex: number;
+  readonly seed: string;
+  readonly moveTimeoutMs: number;
+  readonly maxMoves: number;
+}
+
+export type MoveAttempt =
+  | { readonly ok: true; readonly text: string }
+  | { readonly ok: false; readonly error: string };
+
+// =============================================================================
+// Ladder Game
+// =============================================================================
+
+export class LadderGame {
+  readonly id: string;
+  readonly finished: Promise<void>;
+
+  private readonly executor: EngineExecutor<GameState, unknown>;
+  private readonly recorder = new ReplayRecorder<unknown>();
+  private readonly options: LadderGameOptions;
+  private readonly gameOptions: Record<string, unknown>;
+  private state: GameState;
+
+  private outcome: GameOutcome | null = null;
+  private result: GameResult | null = null;
+  private client: ClientInfo | undefined;
+
+  private playerMoves = 0;
+  private aiMoves = 0;
+  private moveCalls = 0;
+  private invalidMoves = 0;
+  private readonly latenciesMs: number[] = [];
+
+  private readonly createdAt = Date.now();
+  private endedAt: number | null = null;
+  private turnStartedAt: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private resolveFinished: () => void = () => {};
+
+  constructor(engine: GameEngine<GameState, unknown>, options: LadderGameOptions) {
+    this.options = options;
+    this.id = `${options.engineId}-${options.difficulty}-${options.gameIndex}`;
+    this.executor = createEngineExecutor(engine);
+    this.gameOptions = { difficulty: options.difficulty };
+    this.finished = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+
+    const init = this.executor.initGame(this.gameOptions, options.seed as Seed);
+    this.state = init.state;
+    this.recorder.recordStart({
+      options: this.gameOptions,
+      seed: options.seed as Seed,
+      initialState: init.serialized,
+    });
+
+    // Engines where the AI opens
+    this.playAI();
+  }
+
+  get isOver(): boolean {
+    return this.outcome !== null;
+  }
+
+  /**
+   * Start the agent's clock. Called once the agent is running (or connected).
+   */
+  start(): void {
+    if (this.turnStartedAt !== null || this.isOver) return;
+    this.startTurn();
+  }
+
+  /**
+   * Remember the agent's clientInfo from its MCP initialize request
+   */
+  identify(client: ClientInfo): void {
+    this.client = client;
+  }
+
+  /**
+   * Text description of the position for get_state
+   */
+  describe(): string {
+    const info = this.executor.getStateInfo(this.state);
+    const lines = [info.rendered, ''];
+
+    if (this.isOver) {
+      lines.push(`Game over: ${this.describeOutcome()}`);
+    } else {
+      lines.push(`Moves played: ${this.playerMoves}`);
+      lines.push(`Legal moves: ${info.legalMoves.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  legalMoves(): readonly string[] {
+    return this.isOver ? [] : this.executor.getLegalMoves(this.state);
+  }
+
+  /**
+   * Play the agent's move, then let the AI answer until it is the agent's turn again
+   */
+  makeMove(input: string): MoveAttempt {
+    if (this.isOver) {
+      return { ok: false, error: `Game is over: ${this.describeOutcome()}` };
+    }
+
+    this.moveCalls++;
+    const moveResult = this.executor.executeMove(this.state, input);
+
+    if (!moveResult.ok) {
+      this.invalidMoves++;
+      this.recorder.recordError({
+        code: moveResult.error.code,
+        message: moveResult.error.message,
+        recoverable: true,
+        stateAtError: this.executor.serialize(this.state),
+      });
+      const legal = this.executor.getLegalMoves(this.state);
+      return { ok: false, error: `${moveResult.error.message}. Legal moves: ${legal.join(', ')}` };
+    }
+
+    if (this.turnStartedAt !== null) {
+      this.latenciesMs.push(Date.now() - this.turnStartedAt);
+    }
+    this.clearTimer();
+
+    this.state = moveResult.state;
+    this.playerMoves++;
+    this.recorder.recordPlayerMove({
+      move: moveResult.move,
+      moveString: moveResult.moveString,
+      stateBefore: moveResult.stateBefore,
+      stateAfter: moveResult.stateAfter,
+    });
+
+    const lines = [`Your move: ${moveResult.moveString}`];
+    lines.push(...this.playAI().map((move) => `AI plays: ${move}`));
+
+    if (!this.isOver && this.playerMoves >= this.options.maxMoves) {
+      this.finish('move_limit');
+    }
+
+    if (this.isOver) {
+      lines.push('', `Game over: ${this.describeOutcome()}`);
+    } else {
+      this.startTurn();
+      lines.push('', this.executor.renderText(this.state));
+    }
+    return { ok: true, text: lines.join('\n') };
+  }
+
+  /**
+   * Agent gives up
+   */
+  resign(): void {
+    if (this.isOver) return;
+    this.recorder.recordResign({
+      resignedBy: 'player',
+      stateAtResign: this.executor.serialize(this.state),
+    });
+    this.result = { status: 'lost', totalMoves: this.playerMoves };
+    this.finish('lost');
+  }
+
+  /**
+   * End the game from outside the protocol (agent exited or went silent)
+   */
+  abort(outcome: 'timeout' | 'disconnected'): void {
+    if (this.isOver) return;
+    const serialized = this.executor.serialize(this.state);
+
+    if (outcome === 'timeout') {
+      this.recorder.recordTimeout({ timedOutPlayer: 'player', stateAtTimeout: serialized });
+    } else {
+      this.recorder.recordError({
+        code: 'AGENT_DISCONNECTED',
+        message: 'Agent disconnected before the game ended',
+        recoverable: false,
+        stateAtError: serialized,
+      });
+    }
+    this.result = { status: 'lost', totalMoves: this.playerMoves };
+    this.finish(outcome);
+  }
+
+  /**
+   * Metrics for the report (replay fields are filled in by the runner)
+   */
+  toRecord(): GameRecord {
+    return {
+      engine: this.options.engineId,
+      difficulty: this.options.difficulty,
+      gameIndex: this.options.gameIndex,
+      seed: this.options.seed,
+      outcome: this.outcome ?? 'disconnected',
+      score: this.result?.score,
+      playerMoves: this.playerMoves,
+      aiMoves: this.aiMoves,
+      moveCalls: this.moveCalls,
+      invalidMoves: this.invalidMoves,
+      latenciesMs: [...this.latenciesMs],
+      durationMs: (this.endedAt ?? Date.now()) - this.createdAt,
+      client: this.client,
+    };
+  }
+
+  buildReplay(): GameReplay<unknown> {
+    const replay = this.recorder.build({
+      challengeId: this.options.engineId,
+      gameId: this.id,
+      seed: this.options.seed as Seed,
+      options: this.gameOptions,
+      result: this.result ?? undefined,
+    });
+
+    return {
+      ...replay,
+      meta: {
+        ...replay.meta,
+        client: this.client,
+        custom: {
+          source: 'bot-ladder',
+          difficulty: this.options.difficulty,
+          outcome: this.outcome,
+          invalidMoves: this.invalidMoves,
+        },
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  /**
+   * AI moves while it is the opponent's turn; returns the moves played
+   */
+  private playAI(): string[] {
+    const played: string[] = [];
+
+    while (!this.checkGameOver() && this.state.turn === 'opponent') {
+      const startedAt = Date.now();
+      const aiResult = this.executor.executeAI(this.state, this.options.difficulty, this.options.seed as Seed);
+      if (!aiResult.hasMove) break;
+
+      this.state = aiResult.state;
+      this.aiMoves++;
+      this.recorder.recordAIMove({
+        move: aiResult.move,
+        moveString: aiResult.moveString,
+        stateBefore: aiResult.stateBefore,
+        stateAfter: aiResult.stateAfter,
+        thinkTimeMs: Date.now() - startedAt,
+      });
+      played.push(aiResult.moveString);
+    }
+
+    return played;
+  }
+
+  /**
+   * Record the natural end of the game, if it has ended
+   */
+  private checkGameOver(): boolean {
+    if (this.isOver) return true;
+    if (!this.executor.isGameOver(this.state)) return false;
+
+    const result = this.executor.getResult(this.state) ??
+      { status: 'draw' as const, totalMoves: this.playerMoves };
+    this.result = result;
+    this.recorder.recordEnd({
+      result,
+      finalState: this.executor.serialize(this.state),
+      reason: 'completed',
+    });
+    this.finish(result.status);
+    return true;
+  }
+
+  private startTurn(): void {
+    this.turnStartedAt = Date.now();
+    this.clearTimer();
+    this.timer = setTimeout(() => this.abort('timeout'), this.options.moveTimeoutMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private finish(outcome: GameOutcome): void {
+    if (this.isOver) return;
+    this.outcome = outcome;
+    this.endedAt = Date.now();
+    this.clearTimer();
+    this.resolveFinished();
+  }
+
+  private describeOutcome(): string {
+    switch (this.outcome) {
+      case 'won':
+        return 'you win';
+      case 'lost':
+        return 'you lose';
+      case 'draw':
+        return 'draw';
+      case 'move_limit':
+        return `move limit of ${this.options.maxMoves} reached`;
+      case 'timeout':
+        return 'you ran out of time';
+      default:
+        return 'aborted';
+    }
+  }
+}
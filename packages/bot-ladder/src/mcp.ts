@@ -0,0 +1,199 @@
+/**
+ * Ladder MCP Protocol
+ *
+ * Minimal MCP (JSON-RPC 2.0) server surface the agent under test talks to:
+ * initialize, ping, tools/list and tools/call for the current ladder game.
+ * Transports only move messages; all protocol handling lives here.
+ */
+
+import type { LadderGame } from './ladder-game';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JsonRpcRequest {
+  readonly jsonrpc: '2.0';
+  readonly id?: string | number | null;
+  readonly method: string;
+  readonly params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  readonly jsonrpc: '2.0';
+  readonly id: string | number | null;
+  readonly result?: unknown;
+  readonly error?: { readonly code: number; readonly message: string };
+}
+
+interface ToolCallResult {
+  readonly content: { readonly type: 'text'; readonly text: string }[];
+  readonly isError?: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Newest first; the first entry is offered when the client asks for an unknown version
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+export const LADDER_SERVER_INFO = { name: 'bot-ladder', version: '0.1.0' };
+
+const LADDER_TOOLS = [
+  {
+    name: 'get_state',
+    description: 'Get the current position, whose turn it is and the legal moves',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_legal_moves',
+    description: 'Get all legal moves in the current position',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'make_move',
+    description: 'Make a move; the AI replies immediately',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        move: {
+          type: 'string',
+          description: 'The move to make (format depends on game type)',
+        },
+      },
+      required: ['move'],
+    },
+  },
+  {
+    name: 'resign',
+    description: 'Resign the current game',
+    inputSchema: { type: 'object', properties: {} },
+  },
+];
+
+// =============================================================================
+// Message Handling
+// =============================================================================
+
+/**
+ * Handle one parsed JSON-RPC message for a game. Returns null for notifications.
+ */
+export function handleMessage(game: LadderGame, message: unknown): JsonRpcResponse | null {
+  if (!isRequest(message)) {
+    return errorResponse(null, -32600, 'Invalid Request');
+  }
+
+  // Notifications (initialized, cancelled, ...) need no answer
+  if (message.id === undefined) {
+    return null;
+  }
+  const id = message.id;
+
+  switch (message.method) {
+    case 'initialize': {
+      const params = message.params ?? {};
+      const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+      const clientInfo = params.clientInfo as { name?: unknown; version?: unknown } | undefined;
+      if (clientInfo && typeof clientInfo.name === 'string') {
+        game.identify({
+          name: clientInfo.name,
+          version: typeof clientInfo.version === 'string' ? clientInfo.version : 'unknown',
+        });
+      }
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: LADDER_SERVER_INFO,
+          instructions: 'Benchmark game against the built-in AI. Call get_state, then make_move until the game is over.',
+        },
+      };
+    }
+
+    case 'ping':
+      return { jsonrpc: '2.0', id, result: {} };
+
+    case 'tools/list':
+      return { jsonrpc: '2.0', id, result: { tools: LADDER_TOOLS } };
+
+    case 'tools/call': {
+      const params = message.params ?? {};
+      const args = (params.arguments ?? {}) as Record<string, unknown>;
+      return { jsonrpc: '2.0', id, result: callTool(game, String(params.name), args) };
+    }
+
+    default:
+      return errorResponse(id, -32601, `Method not found: ${message.method}`);
+  }
+}
+
+/**
+ * Parse a raw message (single or batch) and collect the responses
+ */
+export function handleRaw(game: LadderGame, raw: string): JsonRpcResponse[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [errorResponse(null, -32700, 'Parse error')];
+  }
+
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  return messages
+    .map((message) => handleMessage(game, message))
+    .filter((response): response is JsonRpcResponse => response !== null);
+}
+
+export function errorResponse(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+function callTool(game: LadderGame, name: string, args: Record<string, unknown>): ToolCallResult {
+  switch (name) {
+    case 'get_state':
+      return text(game.describe());
+
+    case 'get_legal_moves': {
+      const moves = game.legalMoves();
+      return text(moves.length > 0 ? moves.join(', ') : 'No legal moves (game is over)');
+    }
+
+    case 'make_move': {
+      // Missing moves count as invalid, like any other rejected move
+      const attempt = game.makeMove(typeof args.move === 'string' ? args.move.trim() : '');
+      return attempt.ok ? text(attempt.text) : error(attempt.error);
+    }
+
+    case 'resign':
+      game.resign();
+      return text(game.describe());
+
+    default:
+      return error(`Unknown tool: ${name}`);
+  }
+}
+
+function text(value: string): ToolCallResult {
+  return { content: [{ type: 'text', text: value }] };
+}
+
+function error(message: string): ToolCallResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+function isRequest(message: unknown): message is JsonRpcRequest {
+  return typeof message === 'object' && message !== null &&
+    (message as { jsonrpc?: unknown }).jsonrpc === '2.0' &&
+    typeof (message as { method?: unknown }).method === 'string';
+}
@@ -0,0 +1,98 @@
+/**
+ * Ladder Report
+ *
+ * Aggregates game records per engine/difficulty and formats them as JSON or CSV.
+ */
+
+import type { GameRecord, LadderReport, LadderReportRow } from './types';
+
+const CSV_COLUMNS: (keyof LadderReportRow)[] = [
+  'engine',
+  'difficulty',
+  'games',
+  'wins',
+  'draws',
+  'losses',
+  'timeouts',
+  'disconnects',
+  'winRate',
+  'avgMoves',
+  'invalidMoveRate',
+  'avgLatencyMs',
+  'p50LatencyMs',
+  'p95LatencyMs',
+  'invalidReplays',
+];
+
+/**
+ * One row per engine/difficulty pair, in the order the pairs were played.
+ * Timeouts and disconnects count as losses; move-limit games count as draws.
+ */
+export function summarize(records: readonly GameRecord[]): LadderReportRow[] {
+  const groups = new Map<string, GameRecord[]>();
+  for (const record of records) {
+    const key = `${record.engine}|${record.difficulty}`;
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  return [...groups.values()].map((games) => {
+    const count = (predicate: (game: GameRecord) => boolean) => games.filter(predicate).length;
+    const wins = count((game) => game.outcome === 'won');
+    const draws = count((game) => game.outcome === 'draw' || game.outcome === 'move_limit');
+    const moveCalls = games.reduce((sum, game) => sum + game.moveCalls, 0);
+    const invalidMoves = games.reduce((sum, game) => sum + game.invalidMoves, 0);
+    const latencies = games.flatMap((game) => game.latenciesMs).sort((a, b) => a - b);
+
+    return {
+      engine: games[0].engine,
+      difficulty: games[0].difficulty,
+      games: games.length,
+      wins,
+      draws,
+      losses: games.length - wins - draws,
+      timeouts: count((game) => game.outcome === 'timeout'),
+      disconnects: count((game) => game.outcome === 'disconnected'),
+      winRate: round(wins / games.length, 4),
+      avgMoves: round(games.reduce((sum, game) => sum + game.playerMoves, 0) / games.length, 2),
+      invalidMoveRate: moveCalls > 0 ? round(invalidMoves / moveCalls, 4) : 0,
+      avgLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : 0,
+      p50LatencyMs: percentile(latencies, 0.5),
+      p95LatencyMs: percentile(latencies, 0.95),
+      invalidReplays: count((game) => game.replayValid === false),
+    };
+  });
+}
+
+/**
+ * CSV with a header row, one line per report row
+ */
+export function toCsv(report: LadderReport): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of report.rows) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function toJson(report: LadderReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Nearest-rank percentile of sorted values (0 when empty)
+ */
+function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
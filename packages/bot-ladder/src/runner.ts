@@ -0,0 +1,133 @@
+/**
+ * Ladder Runner
+ *
+ * Plays every engine/difficulty pair for the configured number of games,
+ * writes the replays and returns the report.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getEngine, listEngines } from '@mcpchallenge/game-engines';
+import {
+  bridgeEngine,
+  createReplayEngine,
+  createStateComparator,
+  VOLATILE_STATE_FIELDS,
+  type GameEngine,
+  type GameState,
+} from '@mcpchallenge/challenge-registry';
+import { LadderGame } from './ladder-game';
+import { summarize } from './report';
+import { LadderHttpServer } from './transports/http';
+import { playOverStdio } from './transports/stdio';
+import type { GameRecord, LadderConfig, LadderReport } from './types';
+
+/**
+ * Engines with a built-in opponent, the default ladder
+ */
+export function defaultLadderEngines(): string[] {
+  return listEngines().filter((id) => getEngine(id)?.metadata.maxPlayers === 2);
+}
+
+export async function runLadder(config: LadderConfig): Promise<LadderReport> {
+  if (config.games < 1) {
+    throw new Error('games must be at least 1');
+  }
+  if (config.transport === 'stdio' && !config.agentCommand) {
+    throw new Error('The stdio transport needs an agent command');
+  }
+
+  // Resolve every engine up front so a typo fails before any game is played
+  const engines = config.engines.map((id) => {
+    const engine = getEngine(id);
+    if (!engine) {
+      throw new Error(`Unknown engine: ${id}. Available: ${listEngines().join(', ')}`);
+    }
+    return { id, engine };
+  });
+
+  if (config.replayDir) {
+    await mkdir(config.replayDir, { recursive: true });
+  }
+
+  const http = config.transport === 'http' ? new LadderHttpServer(config.port) : null;
+  await http?.listen();
+
+  const records: GameRecord[] = [];
+  try {
+    for (const { id, engine } of engines) {
+      for (const difficulty of config.difficulties) {
+        // Replay validation re-runs the AI without a difficulty, so bake it in
+        const bridged = bridgeEngine(engine, { defaultDifficulty: difficulty });
+        for (let gameIndex = 0; gameIndex < config.games; gameIndex++) {
+          const game = new LadderGame(bridged, {
+            engineId: id,
+            difficulty,
+            gameIndex,
+            seed: `${config.seed}-${gameIndex}`,
+            moveTimeoutMs: config.moveTimeoutMs,
+            maxMoves: config.maxMoves,
+          });
+
+          if (http) {
+            await http.play(game, config.agentCommand);
+          } else {
+            await playOverStdio(game, config.agentCommand!);
+          }
+
+          const record = await finishGame(game, bridged, config);
+          records.push(record);
+          config.onGameComplete?.(record);
+        }
+      }
+    }
+  } finally {
+    await http?.close();
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    agent: records.find((record) => record.client)?.client,
+    config: {
+      engines: engines.map(({ id }) => id),
+      difficulties: config.difficulties,
+      games: config.games,
+      seed: config.seed,
+      transport: config.transport,
+      moveTimeoutMs: config.moveTimeoutMs,
+      maxMoves: config.maxMoves,
+    },
+    rows: summarize(records),
+    games: records,
+  };
+}
+
+/**
+ * Validate and store the game's replay, returning its full record
+ */
+async function finishGame(
+  game: LadderGame,
+  engine: GameEngine<GameState, unknown>,
+  config: LadderConfig
+): Promise<GameRecord> {
+  const record = game.toRecord();
+  const replay = game.buildReplay();
+
+  let replayValid: boolean | undefined;
+  let replayError: string | undefined;
+  if (config.validateReplays) {
+    const validation = createReplayEngine(engine, {
+      compareStates: createStateComparator(VOLATILE_STATE_FIELDS),
+    }).validate(replay);
+    replayValid = validation.valid;
+    if (!validation.valid) replayError = `${validation.error.code}: ${validation.error.message}`;
+  }
+
+  let replayFile: string | undefined;
+  if (config.replayDir) {
+    replayFile = join(config.replayDir, `${game.id}.json`);
+    await writeFile(replayFile, JSON.stringify(replay, null, 2));
+  }
+
+  return { ...record, replayFile, replayValid, replayError };
+}
@@ -0,0 +1,146 @@
+/**
+ * HTTP Transport
+ *
+ * Serves the current ladder game at POST /mcp (JSON responses, no SSE). Each
+ * game is its own MCP session: initialize is answered with an Mcp-Session-Id,
+ * and requests for a finished game's session get 404 so the client
+ * re-initializes into the next game. An agent command, if given, is spawned
+ * per game with the endpoint in MCP_SERVER_URL.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { LadderGame } from '../ladder-game';
+import { errorResponse, handleRaw } from '../mcp';
+
+const EXIT_GRACE_MS = 2000;
+
+export class LadderHttpServer {
+  private server: Server | null = null;
+  private game: LadderGame | null = null;
+  private sessionId: string | null = null;
+
+  constructor(private readonly port: number) {}
+
+  get url(): string {
+    return `http://127.0.0.1:${this.port}/mcp`;
+  }
+
+  async listen(): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(errorResponse(null, -32603, err instanceof Error ? err.message : String(err))));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Serve one game until it ends. Without an agent command the game clock
+   * starts when a client initializes.
+   */
+  async play(game: LadderGame, command?: string): Promise<void> {
+    this.game = game;
+    this.sessionId = null;
+
+    let child: ChildProcess | null = null;
+    let exited: Promise<void> = new Promise(() => {});
+    if (command) {
+      const agent = spawn(command, {
+        shell: true,
+        stdio: ['ignore', 'inherit', 'inherit'],
+        env: { ...process.env, MCP_SERVER_URL: this.url, BOT_LADDER_GAME: game.id },
+      });
+      child = agent;
+      exited = new Promise<void>((resolve) => {
+        agent.once('exit', () => resolve());
+        agent.once('error', () => resolve());
+      });
+      game.start();
+    }
+
+    await Promise.race([game.finished, exited.then(() => game.abort('disconnected'))]);
+
+    if (child && child.exitCode === null) {
+      const timer = setTimeout(() => child.kill(), EXIT_GRACE_MS);
+      await exited;
+      clearTimeout(timer);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+    if (path !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method === 'DELETE') {
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      // No server-initiated messages, so no SSE stream either
+      res.writeHead(405, { Allow: 'POST, DELETE' }).end();
+      return;
+    }
+
+    const body = await readBody(req);
+    const game = this.game;
+    const isInitialize = /"method"\s*:\s*"initialize"/.test(body);
+    const sessionHeader = req.headers['mcp-session-id'];
+
+    if (!game || (game.isOver && isInitialize)) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(errorResponse(null, -32000, 'No ladder game is waiting for an agent')));
+      return;
+    }
+
+    if (isInitialize) {
+      this.sessionId = game.id;
+      game.start();
+    } else if (sessionHeader && sessionHeader !== this.sessionId) {
+      // Session of a finished game
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(errorResponse(null, -32001, 'Session not found')));
+      return;
+    }
+
+    const responses = handleRaw(game, body);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+
+    if (responses.length === 0) {
+      res.writeHead(202, headers).end();
+      return;
+    }
+    const isBatch = body.trimStart().startsWith('[');
+    res.writeHead(200, headers);
+    res.end(JSON.stringify(isBatch ? responses : responses[0]));
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
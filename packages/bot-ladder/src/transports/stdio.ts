@@ -0,0 +1,53 @@
+/**
+ * Stdio Transport
+ *
+ * Spawns the agent once per game and speaks newline-delimited JSON-RPC over
+ * its stdin/stdout, the way desktop MCP hosts run local servers (here the
+ * roles are reversed: the agent is the client). The agent's stderr is passed
+ * through for debugging.
+ */
+
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import type { LadderGame } from '../ladder-game';
+import { handleRaw } from '../mcp';
+
+// Time the agent gets to exit on its own after the game ends or stdin closes
+const EXIT_GRACE_MS = 2000;
+
+/**
+ * Play one game against a freshly spawned agent process
+ */
+export async function playOverStdio(game: LadderGame, command: string): Promise<void> {
+  const child = spawn(command, {
+    shell: true,
+    stdio: ['pipe', 'pipe', 'inherit'],
+    env: { ...process.env, BOT_LADDER_GAME: game.id },
+  });
+
+  const exited = new Promise<void>((resolve) => {
+    child.once('exit', () => resolve());
+    child.once('error', () => resolve());
+  });
+
+  const lines = createInterface({ input: child.stdout });
+  lines.on('line', (line) => {
+    if (line.trim() === '' || !child.stdin.writable) return;
+    for (const response of handleRaw(game, line)) {
+      child.stdin.write(`${JSON.stringify(response)}\n`);
+    }
+  });
+  // Writes after the agent exits fail with EPIPE; the exit handler ends the game
+  child.stdin.on('error', () => {});
+
+  game.start();
+  await Promise.race([game.finished, exited]);
+  game.abort('disconnected');
+
+  // Closing stdin tells a well-behaved agent to shut down
+  child.stdin.end();
+  const timer = setTimeout(() => child.kill(), EXIT_GRACE_MS);
+  await exited;
+  clearTimeout(timer);
+  lines.close();
+}
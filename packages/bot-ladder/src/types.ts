@@ -0,0 +1,135 @@
+/**
+ * Bot Ladder Types
+ *
+ * Configuration, per-game records and report rows for benchmark runs.
+ */
+
+import type { ClientInfo, Difficulty } from '@mcpchallenge/challenge-registry';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** How the agent under test talks to the ladder */
+export type LadderTransport = 'stdio' | 'http';
+
+export interface LadderConfig {
+  /** Engine IDs to play (see listEngines) */
+  readonly engines: readonly string[];
+
+  /** AI difficulties to play each engine at */
+  readonly difficulties: readonly Difficulty[];
+
+  /** Games per engine/difficulty pair */
+  readonly games: number;
+
+  /** Base seed; game i uses `${seed}-${i}` so every difficulty sees the same positions */
+  readonly seed: string;
+
+  readonly transport: LadderTransport;
+
+  /**
+   * Shell command that starts the agent. Spawned once per game. Required for
+   * stdio; over HTTP the agent gets the endpoint in MCP_SERVER_URL, and
+   * without a command the ladder waits for an external client to connect.
+   */
+  readonly agentCommand?: string;
+
+  /** HTTP transport port */
+  readonly port: number;
+
+  /** Time the agent has for each move before it loses on time (ms) */
+  readonly moveTimeoutMs: number;
+
+  /** Agent moves after which a game is stopped and scored as a draw */
+  readonly maxMoves: number;
+
+  /** Directory to write GameReplay JSON files to */
+  readonly replayDir?: string;
+
+  /** Check every replay with ReplayEngine.validate() */
+  readonly validateReplays: boolean;
+
+  /** Progress callback, called after each game */
+  readonly onGameComplete?: (record: GameRecord) => void;
+}
+
+// =============================================================================
+// Results
+// =============================================================================
+
+/**
+ * How a ladder game ended for the agent
+ * - move_limit: stopped after maxMoves agent moves (scored as a draw)
+ * - timeout: the agent did not move within moveTimeoutMs (scored as a loss)
+ * - disconnected: the agent exited or closed the connection mid-game (scored as a loss)
+ */
+export type GameOutcome = 'won' | 'lost' | 'draw' | 'move_limit' | 'timeout' | 'disconnected';
+
+export interface GameRecord {
+  readonly engine: string;
+  readonly difficulty: Difficulty;
+  readonly gameIndex: number;
+  readonly seed: string;
+  readonly outcome: GameOutcome;
+  readonly score?: number;
+
+  /** Accepted agent moves */
+  readonly playerMoves: number;
+  readonly aiMoves: number;
+
+  /** make_move calls, accepted or not */
+  readonly moveCalls: number;
+
+  /** Rejected make_move calls (bad format, illegal, out of turn) */
+  readonly invalidMoves: number;
+
+  /** Per accepted move: time from the agent's turn starting to the move (ms), retries included */
+  readonly latenciesMs: readonly number[];
+
+  readonly durationMs: number;
+
+  /** Agent clientInfo from the MCP initialize request */
+  readonly client?: ClientInfo;
+
+  readonly replayFile?: string;
+  readonly replayValid?: boolean;
+  readonly replayError?: string;
+}
+
+/**
+ * Aggregated results for one engine/difficulty pair
+ */
+export interface LadderReportRow {
+  readonly engine: string;
+  readonly difficulty: Difficulty;
+  readonly games: number;
+  readonly wins: number;
+  readonly draws: number;
+  readonly losses: number;
+  readonly timeouts: number;
+  readonly disconnects: number;
+  readonly winRate: number;
+  readonly avgMoves: number;
+  readonly invalidMoveRate: number;
+  readonly avgLatencyMs: number;
+  readonly p50LatencyMs: number;
+  readonly p95LatencyMs: number;
+  readonly invalidReplays: number;
+}
+
+export interface LadderReport {
+  readonly generatedAt: string;
+  readonly agent?: ClientInfo;
+  readonly config: {
+    readonly engines: readonly string[];
+    readonly difficulties: readonly Difficulty[];
+    readonly games: number;
+    readonly seed: string;
+    readonly transport: LadderTransport;
+    readonly moveTimeoutMs: number;
+    readonly maxMoves: number;
+  };
+  readonly rows: readonly LadderReportRow[];
+  readonly games: readonly GameRecord[];
+}
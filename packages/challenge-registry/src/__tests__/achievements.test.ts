@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { moves, type AchievementContext, type GameOptimum, type GameResult, type GameStats } from "../index";
+
+function context(result: GameResult, playerMoves: number, optimum?: GameOptimum): AchievementContext {
+  return {
+    result,
+    replay: {} as AchievementContext["replay"],
+    stats: { playerMoves } as GameStats,
+    optimum,
+  };
+}
+
+describe("moves.optimal", () => {
+  const rule = moves.optimal();
+
+  it("compares moves when the result reports no cost", () => {
+    const optimum = { moves: 7, cost: 7 };
+    expect(rule.evaluate(context({ status: "won", totalMoves: 7 }, 7, optimum))).toBe(true);
+    expect(rule.evaluate(context({ status: "won", totalMoves: 8 }, 8, optimum))).toBe(false);
+  });
+
+  it("compares pushes to pushes when the result reports a cost", () => {
+    // Push-optimal line: 116 pushes over 716 moves
+    const optimum = { moves: 716, cost: 116 };
+    expect(rule.evaluate(context({ status: "won", totalMoves: 300, cost: 116 }, 300, optimum))).toBe(true);
+    expect(rule.evaluate(context({ status: "won", totalMoves: 300, cost: 117 }, 300, optimum))).toBe(false);
+  });
+
+  it("is never earned without an optimum or a win", () => {
+    expect(rule.evaluate(context({ status: "won", totalMoves: 1 }, 1))).toBe(false);
+    expect(rule.evaluate(context({ status: "lost", totalMoves: 1 }, 1, { moves: 5, cost: 5 }))).toBe(false);
+  });
+});
+
+describe("moves.withinOptimal", () => {
+  it("allows the extra cost in the result's own measure", () => {
+    const rule = moves.withinOptimal(2);
+    const optimum = { moves: 716, cost: 116 };
+    expect(rule.evaluate(context({ status: "won", totalMoves: 900, cost: 118 }, 900, optimum))).toBe(true);
+    expect(rule.evaluate(context({ status: "won", totalMoves: 900, cost: 119 }, 900, optimum))).toBe(false);
+  });
+});
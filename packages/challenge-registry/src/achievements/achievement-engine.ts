@@ -21,6 +21,7 @@ import type {
   AchievementDefinition,
   AchievementRarity,
   AchievementContext,
+  GameOptimum,
   GameStats,
 } from '../types/challenge';
 import {
@@ -167,6 +168,24 @@ export const moves = {
       describe: () => `Win in exactly ${optimalMoves} moves (perfect)`,
     };
   },
+
+  /** Won in no more moves than the solver's optimum (never earned without one) */
+  optimal(): AchievementRule {
+    return {
+      type: 'moves.optimal',
+      evaluate: (ctx) => ctx.result.status === 'won' && excessOverOptimum(ctx) <= 0,
+      describe: () => 'Win in the optimal number of moves',
+    };
+  },
+
+  /** Won within N moves of the solver's optimum */
+  withinOptimal(extraMoves: number): AchievementRule {
+    return {
+      type: 'moves.withinOptimal',
+      evaluate: (ctx) => ctx.result.status === 'won' && excessOverOptimum(ctx) <= extraMoves,
+      describe: () => `Win within ${extraMoves} moves of optimal`,
+    };
+  },
 };
 
 /**
@@ -538,9 +557,13 @@ export class AchievementEngine<TMove = unknown> {
   /**
    * Evaluate all achievements for a completed game
    */
-  evaluate(result: GameResult, replay: GameReplay<TMove>): AchievementEvaluation {
+  evaluate(
+    result: GameResult,
+    replay: GameReplay<TMove>,
+    optimum?: GameOptimum
+  ): AchievementEvaluation {
     const stats = computeGameStats(replay);
-    const context: AchievementContext<TMove> = { result, replay, stats };
+    const context: AchievementContext<TMove> = { result, replay, stats, optimum };
 
     const earned: EarnedAchievement[] = [];
     const failed: FailedAchievement[] = [];
@@ -597,13 +620,14 @@ export class AchievementEngine<TMove = unknown> {
   check(
     achievementId: AchievementId,
     result: GameResult,
-    replay: GameReplay<TMove>
+    replay: GameReplay<TMove>,
+    optimum?: GameOptimum
   ): boolean {
     const ach = this.achievements.get(achievementId as string);
     if (!ach) return false;
 
     const stats = computeGameStats(replay);
-    return ach.check({ result, replay, stats });
+    return ach.check({ result, replay, stats, optimum });
   }
 
   /**
@@ -729,6 +753,18 @@ function comparisonSymbol(op: Comparison): string {
   }
 }
 
+/**
+ * How far the player's game was above the solver's optimum, comparing the
+ * result's cost to the optimum's cost when the engine reports one (Sokoban
+ * pushes) and moves to moves otherwise. Infinity without an optimum.
+ */
+function excessOverOptimum(ctx: AchievementContext): number {
+  if (!ctx.optimum) return Infinity;
+  return ctx.result.cost !== undefined
+    ? ctx.result.cost - ctx.optimum.cost
+    : ctx.stats.playerMoves - ctx.optimum.moves;
+}
+
 function formatTime(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
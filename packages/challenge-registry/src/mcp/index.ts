@@ -35,6 +35,7 @@ export {
 export {
   MCPOrchestrator,
   createMCPOrchestrator,
+  type MCPOrchestratorOptions,
   type PipelineContext,
   type StageResult,
 } from './mcp-orchestrator';
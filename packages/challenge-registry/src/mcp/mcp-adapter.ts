@@ -183,6 +183,8 @@ export interface CompleteChallengeOutput {
   readonly result: GameResult;
   readonly evaluation: AchievementEvaluation;
   readonly replayId: string;
+  /** Full recording, e.g. for submitting the completion */
+  readonly replay?: GameReplay;
 }
 
 // =============================================================================
@@ -8,7 +8,8 @@
 import type { GameState, Seed, Difficulty } from '../types/engine';
 import type { ChallengeId, ChallengeDefinition } from '../types/challenge';
 import type { ChallengeRegistry } from '../registry';
-import type { SessionId as DomainSessionId } from '../types/domain-events';
+import type { SessionId as DomainSessionId, EventSeq } from '../types/domain-events';
+import { isGameStartEvent } from '../types/replay';
 
 // Services
 import {
@@ -35,7 +36,10 @@ import {
 } from '../services/achievement-evaluator';
 import {
   EventCollector,
+  getCurrentSeq,
+  restoreSeq,
 } from '../services/event-collector';
+import type { SessionStore } from '../services/session-store';
 
 // Types from old adapter (keep compatible)
 import type {
@@ -79,6 +83,21 @@ interface SessionData {
   readonly recorder: ReplayRecorder<unknown>;
   readonly executor: EngineExecutor<GameState, unknown>;
   readonly challenge: ChallengeDefinition<any>;
+  readonly options: Readonly<Record<string, unknown>>;
+  /** Store version this instance last loaded or saved */
+  version: number;
+}
+
+/**
+ * Orchestrator configuration
+ */
+export interface MCPOrchestratorOptions {
+  /**
+   * Persist sessions outside this process.
+   * When set, sessions are reloaded from the store on every call, so any
+   * instance sharing the store can continue a game.
+   */
+  readonly store?: SessionStore;
 }
 
 // =============================================================================
@@ -136,7 +155,14 @@ export class MCPOrchestrator {
   // Session-specific data (executors, recorders)
   private readonly sessionData: Map<SessionId, SessionData> = new Map();
 
-  constructor(private readonly registry: ChallengeRegistry) {
+  private readonly store: SessionStore | undefined;
+
+  constructor(
+    private readonly registry: ChallengeRegistry,
+    options: MCPOrchestratorOptions = {}
+  ) {
+    this.store = options.store;
+
     // Initialize services
     this.sessionManager = createSessionManager({ maxAgeMs: 3600000 });
     this.validator = createChallengeValidator(registry);
@@ -188,19 +214,19 @@ export class MCPOrchestrator {
           return this.handleGetChallenge(ctx);
 
         case REGISTRY_TOOLS.START_CHALLENGE:
-          return this.handleStartChallenge(ctx);
+          return await this.handleStartChallenge(ctx);
 
         case REGISTRY_TOOLS.MAKE_MOVE:
-          return this.handleMakeMove(ctx);
+          return await this.handleMakeMove(ctx);
 
         case REGISTRY_TOOLS.GET_STATE:
-          return this.handleGetState(ctx);
+          return await this.handleGetState(ctx);
 
         case REGISTRY_TOOLS.GET_ACHIEVEMENTS:
           return this.handleGetAchievements(ctx);
 
         case REGISTRY_TOOLS.COMPLETE_CHALLENGE:
-          return this.handleCompleteChallenge(ctx);
+          return await this.handleCompleteChallenge(ctx);
 
         default:
           return { success: false, error: `Unknown tool: ${name}` };
@@ -268,7 +294,7 @@ export class MCPOrchestrator {
     return { success: true, data: output };
   }
 
-  private handleStartChallenge(ctx: PipelineContext): ToolCallResult {
+  private async handleStartChallenge(ctx: PipelineContext): Promise<ToolCallResult> {
     // Stage 1: Validate input
     const validation = this.validator.validateStartChallenge(ctx.args);
     if (!validation.valid) {
@@ -277,17 +303,18 @@ export class MCPOrchestrator {
 
     const { challenge, difficulty, seed: inputSeed } = validation.value;
     const seed = (inputSeed ?? generateSeed()) as Seed;
+    const options = { ...challenge.defaultOptions, difficulty };
 
     // Stage 2: Create executor for this engine
     const executor = createEngineExecutor(challenge.engine);
 
     // Stage 3: Initialize game
-    const initResult = executor.initGame(challenge.defaultOptions, seed);
+    const initResult = executor.initGame(options, seed);
 
     // Stage 4: Create replay recorder
     const recorder = new ReplayRecorder<unknown>();
     recorder.recordStart({
-      options: challenge.defaultOptions ?? {},
+      options,
       seed,
       initialState: initResult.serialized,
     });
@@ -307,11 +334,8 @@ export class MCPOrchestrator {
     const session = sessionResult.value;
 
     // Stage 6: Store session data
-    this.sessionData.set(session.id, {
-      recorder,
-      executor,
-      challenge,
-    });
+    const data: SessionData = { recorder, executor, challenge, options, version: 0 };
+    this.sessionData.set(session.id, data);
 
     // Stage 7: Create event collector and emit session_created
     const events = new EventCollector(session.id as unknown as DomainSessionId);
@@ -321,7 +345,10 @@ export class MCPOrchestrator {
       seed: seed as string,
     });
 
-    // Stage 8: Build response
+    // Stage 8: Persist session
+    await this.persist(session, data);
+
+    // Stage 9: Build response
     const output: StartChallengeOutput = {
       sessionId: session.id,
       challengeId: challenge.id,
@@ -333,7 +360,7 @@ export class MCPOrchestrator {
     return { success: true, data: output, events: events.getEvents() };
   }
 
-  private handleMakeMove(ctx: PipelineContext): ToolCallResult {
+  private async handleMakeMove(ctx: PipelineContext): Promise<ToolCallResult> {
     // Stage 1: Validate input
     const validation = this.validator.validateMakeMove(ctx.args);
     if (!validation.valid) {
@@ -341,6 +368,7 @@ export class MCPOrchestrator {
     }
 
     const { sessionId, move } = validation.value;
+    await this.hydrate(sessionId);
 
     // Create event collector for this session
     const events = new EventCollector(sessionId as unknown as DomainSessionId);
@@ -466,6 +494,9 @@ export class MCPOrchestrator {
       legalMoveCount: stateInfo.legalMoves.length,
     });
 
+    // Stage 12: Persist session
+    await this.persist(session, data);
+
     const output: ChallengeMoveOutput = {
       valid: true,
       gameState: stateInfo.rendered,
@@ -479,7 +510,7 @@ export class MCPOrchestrator {
     return { success: true, data: output, events: events.getEvents() };
   }
 
-  private handleGetState(ctx: PipelineContext): ToolCallResult {
+  private async handleGetState(ctx: PipelineContext): Promise<ToolCallResult> {
     // Stage 1: Validate input
     const validation = this.validator.validateGetState(ctx.args);
     if (!validation.valid) {
@@ -487,6 +518,7 @@ export class MCPOrchestrator {
     }
 
     const { sessionId } = validation.value;
+    await this.hydrate(sessionId);
 
     // Stage 2: Get session
     const sessionResult = this.sessionManager.get(sessionId);
@@ -547,7 +579,7 @@ export class MCPOrchestrator {
     return { success: true, data: output };
   }
 
-  private handleCompleteChallenge(ctx: PipelineContext): ToolCallResult {
+  private async handleCompleteChallenge(ctx: PipelineContext): Promise<ToolCallResult> {
     // Stage 1: Validate input
     const validation = this.validator.validateCompleteChallenge(ctx.args);
     if (!validation.valid) {
@@ -555,6 +587,7 @@ export class MCPOrchestrator {
     }
 
     const { sessionId } = validation.value;
+    await this.hydrate(sessionId);
 
     // Create event collector
     const events = new EventCollector(sessionId as unknown as DomainSessionId);
@@ -583,7 +616,7 @@ export class MCPOrchestrator {
       return { success: false, error: 'Session data not found', events: events.getEvents() };
     }
 
-    const { executor, recorder, challenge } = data;
+    const { executor, recorder, challenge, options } = data;
 
     // Stage 4: Get result
     const result = executor.getResult(session.state);
@@ -608,15 +641,21 @@ export class MCPOrchestrator {
       challengeId: challenge.id as string,
       gameId: sessionId,
       seed: session.seed,
-      options: challenge.defaultOptions ?? {},
+      options,
       result,
     });
 
-    // Stage 7: Evaluate achievements
+    // Stage 7: Evaluate achievements (against the solver's optimum when
+    // available; only wins are rated against it)
+    const start = replay.events.find(isGameStartEvent);
+    const optimum = start && result.status === 'won'
+      ? executor.solve(executor.deserialize(start.payload.initialState))
+      : null;
     const evaluation = this.achievementEvaluator.evaluate({
       challengeId: challenge.id,
       result,
       replay,
+      optimum: optimum ?? undefined,
     });
 
     // Emit game_completed event
@@ -645,6 +684,7 @@ export class MCPOrchestrator {
 
     // Stage 8: Complete session
     this.sessionManager.complete(sessionId);
+    await this.persist(session, data);
 
     // Stage 9: Cleanup session data
     this.sessionData.delete(sessionId);
@@ -661,11 +701,87 @@ export class MCPOrchestrator {
         stats: evaluation.stats,
       },
       replayId: replay.replayId as string,
+      replay,
     };
 
     return { success: true, data: output, events: events.getEvents() };
   }
 
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * Load a session from the store into memory (no-op without a store)
+   *
+   * The store is the source of truth: another instance may have advanced
+   * the game since this one last saw it.
+   */
+  private async hydrate(sessionId: SessionId): Promise<void> {
+    if (!this.store) return;
+
+    const snapshot = await this.store.load(sessionId);
+    if (!snapshot) return;
+
+    const challenge = this.registry.getChallenge(snapshot.challengeId);
+    if (!challenge) return;
+
+    this.sessionManager.restore({
+      id: snapshot.id,
+      challengeId: snapshot.challengeId,
+      difficulty: snapshot.difficulty,
+      seed: snapshot.seed,
+      createdAt: snapshot.createdAt,
+      status: snapshot.status,
+      state: challenge.engine.deserialize(snapshot.state),
+      events: [...snapshot.events],
+      moveCount: snapshot.moveCount,
+      lastActivityAt: snapshot.lastActivityAt,
+    });
+    restoreSeq(sessionId as unknown as DomainSessionId, snapshot.eventSeq as EventSeq);
+
+    // Completed sessions are read-only; they need no executor or recorder
+    if (snapshot.status === 'completed') {
+      this.sessionData.delete(sessionId);
+      return;
+    }
+
+    this.sessionData.set(sessionId, {
+      recorder: new ReplayRecorder<unknown>({
+        startTime: snapshot.createdAt,
+        events: snapshot.events,
+      }),
+      executor: createEngineExecutor(challenge.engine),
+      challenge,
+      options: snapshot.options,
+      version: snapshot.version,
+    });
+  }
+
+  /**
+   * Save a session and its recording to the store (no-op without a store)
+   */
+  private async persist(session: Session, data: SessionData): Promise<void> {
+    if (!this.store) return;
+
+    await this.store.save({
+      id: session.id,
+      challengeId: session.challengeId,
+      difficulty: session.difficulty,
+      seed: session.seed,
+      options: data.options,
+      status: session.status,
+      state: data.executor.serialize(session.state),
+      events: data.recorder.getEvents(),
+      moveCount: session.moveCount,
+      eventSeq: getCurrentSeq(session.id as unknown as DomainSessionId) as number,
+      createdAt: session.createdAt,
+      lastActivityAt: session.lastActivityAt,
+      version: data.version + 1,
+    });
+    data.version++;
+  }
+
   // ===========================================================================
   // Service Access (for testing/extension)
   // ===========================================================================
@@ -815,8 +931,11 @@ function generateSchemas(): readonly MCPToolSchema[] {
 // Factory
 // =============================================================================
 
-export function createMCPOrchestrator(registry: ChallengeRegistry): MCPOrchestrator {
-  return new MCPOrchestrator(registry);
+export function createMCPOrchestrator(
+  registry: ChallengeRegistry,
+  options?: MCPOrchestratorOptions
+): MCPOrchestrator {
+  return new MCPOrchestrator(registry, options);
 }
 
 // =============================================================================
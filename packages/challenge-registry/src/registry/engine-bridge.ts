@@ -0,0 +1,77 @@
+/**
+ * Engine Bridge
+ *
+ * Adapts engines from @mcpchallenge/game-engines (optional peer dependency)
+ * to the GameEngine contract used by the registry, replays and orchestration.
+ */
+
+import type {
+  Difficulty,
+  GameEngine as CoreGameEngine,
+  GameState as CoreGameState,
+} from '@mcpchallenge/game-engines';
+import type {
+  GameEngine,
+  GameState,
+  RenderedState,
+  SerializedState,
+} from '../types/engine';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BridgeOptions {
+  /** Difficulty used when the caller does not pass one (e.g. replayed AI moves) */
+  readonly defaultDifficulty?: Difficulty;
+}
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+/**
+ * Wrap a game engine so it satisfies the registry GameEngine interface
+ */
+export function bridgeEngine(
+  engine: CoreGameEngine<CoreGameState, unknown>,
+  options: BridgeOptions = {}
+): GameEngine<GameState, unknown> {
+  // Engine states are plain JSON objects; only the branded types differ
+  const toState = (state: CoreGameState) => state as unknown as GameState;
+  const fromState = (state: GameState) => state as unknown as CoreGameState;
+
+  return {
+    id: engine.metadata.id,
+    name: engine.metadata.name,
+    version: '1.0.0',
+
+    newGame: (gameOptions, seed) => toState(engine.newGame(gameOptions, seed)),
+    isValidState: (value): value is GameState => engine.validateState(value),
+
+    getLegalMoves: (state) => engine.getLegalMoves(fromState(state)),
+    isLegalMove: (state, move) => engine.isLegalMove(fromState(state), move),
+    makeMove(state, move) {
+      const result = engine.makeMove(fromState(state), move);
+      if (!result.valid) {
+        return { valid: false, state, error: result.error ?? 'Invalid move' };
+      }
+      return { valid: true, state: toState(result.state), result: result.result };
+    },
+    getAIMove: (state, difficulty) =>
+      engine.getAIMove(fromState(state), difficulty ?? options.defaultDifficulty),
+    solve: engine.solve && ((state) => engine.solve!(fromState(state))),
+    isGameOver: (state) => engine.isGameOver(fromState(state)),
+    getResult: (state) => engine.getResult(fromState(state)),
+
+    serialize: (state) => engine.serialize(fromState(state)) as SerializedState,
+    deserialize: (data) => toState(engine.deserialize(data)),
+
+    formatMove: (move) => engine.formatMove(move),
+    parseMove: (input) => engine.parseMove(input),
+
+    renderText: (state) => engine.renderText(fromState(state)),
+    renderJSON: (state) =>
+      engine.renderJSON(fromState(state)) as unknown as RenderedState,
+  };
+}
@@ -18,3 +18,8 @@ export {
   type RegisterOptions,
   type RegistryStats,
 } from './challenge-registry';
+
+export {
+  bridgeEngine,
+  type BridgeOptions,
+} from './engine-bridge';
@@ -7,6 +7,8 @@
 export {
   ReplayEngine,
   createReplayEngine,
+  createStateComparator,
+  VOLATILE_STATE_FIELDS,
   type ReplayEngineConfig,
   type ReplayExecutionResult,
   type ReplayExecutionSuccess,
@@ -576,6 +576,57 @@ function defaultStateComparator(a: SerializedState, b: SerializedState): boolean
   return a === b;
 }
 
+/**
+ * State fields stamped from the wall clock, which a replay cannot reproduce
+ */
+export const VOLATILE_STATE_FIELDS: readonly string[] = ['lastMoveAt', 'startTime', 'elapsedSeconds'];
+
+/**
+ * Create a comparator that ignores the given top-level state fields
+ *
+ * Engines that stamp wall-clock time on their state (see
+ * VOLATILE_STATE_FIELDS) never reproduce it exactly, so those fields are
+ * excluded from comparison.
+ * Remaining fields are compared structurally (key order does not matter).
+ */
+export function createStateComparator(
+  ignoredFields: readonly string[]
+): (a: SerializedState, b: SerializedState) => boolean {
+  const parse = (data: SerializedState): unknown => {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const record = parsed as Record<string, unknown>;
+        for (const field of ignoredFields) delete record[field];
+      }
+      return parsed;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return (a, b) => {
+    if (a === b) return true;
+    const left = parse(a);
+    return left !== undefined && deepEqual(left, parse(b));
+  };
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) return false;
+
+  return keys.every(key => key in bRecord && deepEqual(aRecord[key], bRecord[key]));
+}
+
 /**
  * Create a replay engine for a specific game engine
  */
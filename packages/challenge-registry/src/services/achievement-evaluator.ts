@@ -8,7 +8,7 @@
 import type { GameResult } from '../types/engine';
 import type { ChallengeId, AchievementDefinition, AchievementId } from '../types/challenge';
 import type { GameReplay } from '../types/replay';
-import type { GameStats } from '../types/challenge';
+import type { GameOptimum, GameStats } from '../types/challenge';
 import {
   AchievementEngine,
   computeGameStats,
@@ -27,6 +27,8 @@ export interface EvaluationInput<TMove = unknown> {
   readonly challengeId: ChallengeId;
   readonly result: GameResult;
   readonly replay: GameReplay<TMove>;
+  /** Solver optimum from the initial position, if the engine has one */
+  readonly optimum?: GameOptimum;
 }
 
 /**
@@ -117,7 +119,11 @@ export class AchievementEvaluator {
       };
     }
 
-    const evaluation = engine.evaluate(input.result, input.replay as GameReplay<unknown>);
+    const evaluation = engine.evaluate(
+      input.result,
+      input.replay as GameReplay<unknown>,
+      input.optimum
+    );
 
     // Build summary
     const rarityBreakdown: Record<string, number> = {};
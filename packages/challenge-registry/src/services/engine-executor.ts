@@ -14,6 +14,7 @@ import type {
   Difficulty,
   Seed,
 } from '../types/engine';
+import type { GameOptimum } from '../types/challenge';
 
 // =============================================================================
 // Types
@@ -306,6 +307,25 @@ export class EngineExecutor<
     return this.engine.serialize(state);
   }
 
+  /**
+   * Deserialize state
+   */
+  deserialize(data: SerializedState): TState {
+    return this.engine.deserialize(data);
+  }
+
+  /**
+   * Proven optimal win from a position
+   * Null if the engine has no solver, the position cannot be won, or
+   * optimality was not proven.
+   */
+  solve(state: TState): GameOptimum | null {
+    const solution = this.engine.solve?.(state);
+    if (!solution || !solution.optimal || solution.outcome !== 'won') return null;
+
+    return { moves: solution.moves.length, cost: solution.cost };
+  }
+
   // ---------------------------------------------------------------------------
   // Private
   // ---------------------------------------------------------------------------
@@ -42,6 +42,15 @@ export function getCurrentSeq(sessionId: SessionId): EventSeq {
   return (sessionSequences.get(sessionId as string) ?? 0) as EventSeq;
 }
 
+/**
+ * Restore sequence for a session (after loading it from storage)
+ * Never moves the sequence backwards.
+ */
+export function restoreSeq(sessionId: SessionId, seq: EventSeq): void {
+  const current = sessionSequences.get(sessionId as string) ?? 0;
+  sessionSequences.set(sessionId as string, Math.max(current, seq as number));
+}
+
 /**
  * Reset sequence for a session (for testing)
  */
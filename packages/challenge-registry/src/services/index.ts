@@ -19,6 +19,15 @@ export {
   type SessionErrorCode,
 } from './session-manager';
 
+// Session Store
+export {
+  InMemorySessionStore,
+  createInMemorySessionStore,
+  sessionConflictError,
+  type SessionSnapshot,
+  type SessionStore,
+} from './session-store';
+
 // Replay Recorder
 export {
   ReplayRecorder,
@@ -27,12 +36,18 @@ export {
   createPlayerMoveEvent,
   createAIMoveEvent,
   createGameEndEvent,
+  createResignEvent,
+  createTimeoutEvent,
+  createErrorEvent,
   buildReplay,
   type RecordingContext,
   type GameStartInput,
   type PlayerMoveInput,
   type AIMoveInput,
   type GameEndInput,
+  type ResignInput,
+  type TimeoutInput,
+  type ErrorInput,
   type BuildReplayInput,
 } from './replay-recorder';
 
@@ -85,6 +100,7 @@ export {
   createEventCollector,
   createEventCollectorFromString,
   getCurrentSeq,
+  restoreSeq,
   resetSeq,
 } from './event-collector';
 
@@ -16,6 +16,9 @@ import type {
   AIMoveEvent,
   GameEndEvent,
   GameEndReason,
+  ResignEvent,
+  TimeoutEvent,
+  ErrorEvent,
   GameReplay,
   ReplayMeta,
 } from '../types/replay';
@@ -62,6 +65,23 @@ export interface GameEndInput {
   readonly reason: GameEndReason;
 }
 
+export interface ResignInput {
+  readonly resignedBy: 'player' | 'opponent';
+  readonly stateAtResign: SerializedState;
+}
+
+export interface TimeoutInput {
+  readonly timedOutPlayer: 'player' | 'opponent';
+  readonly stateAtTimeout: SerializedState;
+}
+
+export interface ErrorInput {
+  readonly code: string;
+  readonly message: string;
+  readonly recoverable: boolean;
+  readonly stateAtError?: SerializedState;
+}
+
 /**
  * Replay building input
  */
@@ -166,6 +186,68 @@ export function createGameEndEvent(
   };
 }
 
+/**
+ * Create resign event
+ */
+export function createResignEvent(
+  ctx: RecordingContext,
+  input: ResignInput
+): ResignEvent {
+  const timestamp = Date.now() - ctx.startTime;
+
+  return {
+    seq: ctx.eventCount as EventSeq,
+    timestamp: timestamp as RelativeTimestamp,
+    type: 'resign',
+    payload: {
+      resignedBy: input.resignedBy,
+      stateAtResign: input.stateAtResign,
+    },
+  };
+}
+
+/**
+ * Create timeout event (a clock ran out)
+ */
+export function createTimeoutEvent(
+  ctx: RecordingContext,
+  input: TimeoutInput
+): TimeoutEvent {
+  const timestamp = Date.now() - ctx.startTime;
+
+  return {
+    seq: ctx.eventCount as EventSeq,
+    timestamp: timestamp as RelativeTimestamp,
+    type: 'timeout',
+    payload: {
+      timedOutPlayer: input.timedOutPlayer,
+      stateAtTimeout: input.stateAtTimeout,
+    },
+  };
+}
+
+/**
+ * Create error event (e.g. a rejected move)
+ */
+export function createErrorEvent(
+  ctx: RecordingContext,
+  input: ErrorInput
+): ErrorEvent {
+  const timestamp = Date.now() - ctx.startTime;
+
+  return {
+    seq: ctx.eventCount as EventSeq,
+    timestamp: timestamp as RelativeTimestamp,
+    type: 'error',
+    payload: {
+      code: input.code,
+      message: input.message,
+      recoverable: input.recoverable,
+      stateAtError: input.stateAtError,
+    },
+  };
+}
+
 // =============================================================================
 // Replay Builder (Pure Function)
 // =============================================================================
@@ -222,10 +304,14 @@ export function buildReplay<TMove>(
  */
 export class ReplayRecorder<TMove = unknown> {
   private readonly startTime: number;
-  private readonly events: ReplayEvent<TMove>[] = [];
+  private readonly events: ReplayEvent<TMove>[];
 
-  constructor() {
-    this.startTime = Date.now();
+  /**
+   * @param resume - Continue a recording restored from storage
+   */
+  constructor(resume?: { startTime: number; events: readonly ReplayEvent<TMove>[] }) {
+    this.startTime = resume?.startTime ?? Date.now();
+    this.events = resume ? [...resume.events] : [];
   }
 
   /**
@@ -274,6 +360,33 @@ export class ReplayRecorder<TMove = unknown> {
     return event;
   }
 
+  /**
+   * Record resignation
+   */
+  recordResign(input: ResignInput): ResignEvent {
+    const event = createResignEvent(this.getContext(), input);
+    this.events.push(event);
+    return event;
+  }
+
+  /**
+   * Record timeout
+   */
+  recordTimeout(input: TimeoutInput): TimeoutEvent {
+    const event = createTimeoutEvent(this.getContext(), input);
+    this.events.push(event);
+    return event;
+  }
+
+  /**
+   * Record error
+   */
+  recordError(input: ErrorInput): ErrorEvent {
+    const event = createErrorEvent(this.getContext(), input);
+    this.events.push(event);
+    return event;
+  }
+
   /**
    * Get all recorded events
    */
@@ -138,6 +138,16 @@ export class SessionManager {
     return { ok: true, value: session };
   }
 
+  /**
+   * Restore a previously persisted session (keeps its ID and timestamps)
+   */
+  restore<TState extends GameState, TMove>(
+    session: Session<TState, TMove>
+  ): Session<TState, TMove> {
+    this.sessions.set(session.id, session as unknown as Session);
+    return session;
+  }
+
   /**
    * Get session by ID
    */
@@ -0,0 +1,94 @@
+/**
+ * Session Store
+ *
+ * Persistence port for game sessions.
+ * The orchestrator keeps live sessions in memory; a store lets them survive
+ * across processes (e.g. edge isolates backed by a database).
+ */
+
+import type { Difficulty, Seed, SerializedState } from '../types/engine';
+import type { ChallengeId } from '../types/challenge';
+import type { ReplayEvent } from '../types/replay';
+import type { SessionId, SessionStatus } from './session-manager';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Serializable snapshot of a session and its recording
+ */
+export interface SessionSnapshot {
+  readonly id: SessionId;
+  readonly challengeId: ChallengeId;
+  readonly difficulty: Difficulty;
+  readonly seed: Seed;
+  /** Options the game was started with */
+  readonly options: Readonly<Record<string, unknown>>;
+  readonly status: SessionStatus;
+  readonly state: SerializedState;
+  /** Replay events recorded so far */
+  readonly events: readonly ReplayEvent[];
+  readonly moveCount: number;
+  /** Last domain event sequence number (keeps SSE ids monotonic) */
+  readonly eventSeq: number;
+  readonly createdAt: number;
+  readonly lastActivityAt: number;
+  /**
+   * Write counter: 1 for a new session, then the stored version plus one.
+   * A save whose predecessor is no longer the stored version is rejected.
+   */
+  readonly version: number;
+}
+
+/**
+ * Session persistence contract
+ *
+ * Implementations must be safe to call from any process; the orchestrator
+ * treats the store as the source of truth when one is configured.
+ * `save` must throw (see sessionConflictError) when the snapshot's version
+ * does not follow the stored one, so concurrent calls cannot overwrite
+ * each other.
+ */
+export interface SessionStore {
+  load(id: SessionId): Promise<SessionSnapshot | null>;
+  save(snapshot: SessionSnapshot): Promise<void>;
+}
+
+/**
+ * Error for a save that lost a race with another write to the session
+ */
+export function sessionConflictError(id: SessionId): Error {
+  return new Error(`Session ${id} was changed by another request. Get the state and try again.`);
+}
+
+// =============================================================================
+// In-Memory Store
+// =============================================================================
+
+/**
+ * In-memory store (single process, for tests and local development)
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly snapshots: Map<SessionId, SessionSnapshot> = new Map();
+
+  async load(id: SessionId): Promise<SessionSnapshot | null> {
+    return this.snapshots.get(id) ?? null;
+  }
+
+  async save(snapshot: SessionSnapshot): Promise<void> {
+    const storedVersion = this.snapshots.get(snapshot.id)?.version ?? 0;
+    if (snapshot.version !== storedVersion + 1) {
+      throw sessionConflictError(snapshot.id);
+    }
+    this.snapshots.set(snapshot.id, snapshot);
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createInMemorySessionStore(): SessionStore {
+  return new InMemorySessionStore();
+}
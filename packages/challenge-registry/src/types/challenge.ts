@@ -113,6 +113,18 @@ export interface AchievementContext<TMove = unknown> {
   readonly result: GameResult;
   readonly replay: GameReplay<TMove>;
   readonly stats: GameStats;
+  /** Proven optimum from the initial position (engines with a solver) */
+  readonly optimum?: GameOptimum;
+}
+
+/**
+ * Optimal winning line for a game, computed by the engine's solver
+ */
+export interface GameOptimum {
+  /** Moves in the optimal line */
+  readonly moves: number;
+  /** Cost in the game's own measure (toggles, pushes, path cost) */
+  readonly cost: number;
 }
 
 /**
@@ -65,6 +65,8 @@ export interface GameResult<TMeta = Record<string, unknown>> {
   readonly status: 'won' | 'lost' | 'draw';
   readonly score?: number;
   readonly totalMoves: number;
+  /** Cost in the solver's measure, when it is not the move count (e.g. pushes) */
+  readonly cost?: number;
   readonly duration?: number;
   readonly metadata?: TMeta;
 }
@@ -89,6 +91,21 @@ export interface MoveFailure<TState extends GameState> {
   readonly error: string;
 }
 
+// =============================================================================
+// Solution (optional solvers)
+// =============================================================================
+
+export interface Solution<TMove> {
+  /** Optimal line from the position (both sides' moves in two-player games) */
+  readonly moves: readonly TMove[];
+  /** Cost in the game's own measure (moves, toggles, pushes, path cost) */
+  readonly cost: number;
+  /** Outcome for the player under best play */
+  readonly outcome: 'won' | 'lost' | 'draw';
+  /** False if optimality was not proven */
+  readonly optimal: boolean;
+}
+
 // =============================================================================
 // Rendered State (for UI/MCP)
 // =============================================================================
@@ -173,6 +190,12 @@ export interface GameEngine<
    */
   getAIMove(state: TState, difficulty?: Difficulty, seed?: Seed): TMove | null;
 
+  /**
+   * Solve the position (optional; puzzles and small games)
+   * Returns null if unsolvable or beyond the solver's budget
+   */
+  solve?(state: TState): Solution<TMove> | null;
+
   /**
    * Check if game is over
    */
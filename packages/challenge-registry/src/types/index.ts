@@ -19,6 +19,7 @@ export type {
   MoveResult,
   MoveSuccess,
   MoveFailure,
+  Solution,
   RenderedState,
   GameEngine,
   StateOf,
@@ -77,6 +78,7 @@ export type {
   AchievementDefinition,
   AchievementChecker,
   AchievementContext,
+  GameOptimum,
   GameStats,
   ScoringConfig,
   ScoreResult,
@@ -0,0 +1,93 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { chessEngine, evaluateFen, searchPosition, strengthForElo } from "../index";
+import { MAX_ELO, MIN_ELO } from "../chess";
+
+const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const LIMITS = { maxDepth: 4, maxNodes: 200_000, maxTimeMs: 5_000 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("searchPosition", () => {
+  it("finds a back-rank mate for either side", () => {
+    expect(searchPosition("6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1", LIMITS).move).toBe("a1a8");
+    expect(searchPosition("r5k1/5ppp/8/8/8/8/5PPP/6K1 b - - 0 1", LIMITS).move).toBe("a8a1");
+  });
+
+  it("scores a forced mate above any material balance", () => {
+    const mate = searchPosition("6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1", LIMITS);
+    const queenUp = searchPosition("4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1", LIMITS);
+    expect(mate.score).toBeGreaterThan(10 * queenUp.score);
+  });
+
+  it("takes a hanging queen", () => {
+    const result = searchPosition("4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1", LIMITS);
+    expect(result.move).toBe("d1d5");
+    expect(result.pv[0]).toBe("d1d5");
+    expect(result.score).toBeGreaterThan(0);
+  });
+
+  it("promotes to a queen", () => {
+    expect(searchPosition("8/P7/8/8/8/8/k7/4K3 w - - 0 1", LIMITS).move).toBe("a7a8q");
+  });
+
+  it("returns no move when checkmated or stalemated", () => {
+    expect(searchPosition("rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3", LIMITS).move).toBeNull();
+    expect(searchPosition("7k/5Q2/6K1/8/8/8/8/8 b - - 0 1", LIMITS)).toMatchObject({ move: null, score: 0 });
+  });
+
+  it("repeats the same noisy move for the same seed", () => {
+    const fen = "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3";
+    const options = { ...strengthForElo(800), seed: 7 };
+    expect(searchPosition(fen, options)).toEqual(searchPosition(fen, options));
+  });
+
+  it("stops at the node budget when the clock does not advance", () => {
+    // A Worker's clock stands still during synchronous work
+    vi.spyOn(Date, "now").mockReturnValue(0);
+    const result = searchPosition(START, { maxDepth: 30, maxNodes: 5_000, maxTimeMs: 1 });
+
+    expect(result.nodes).toBe(5_000);
+    expect(result.move).not.toBeNull();
+    expect(result.depth).toBeLessThan(30);
+  });
+});
+
+describe("evaluateFen", () => {
+  it("scores from white's point of view whoever is to move", () => {
+    expect(evaluateFen(START)).toBe(0);
+    expect(evaluateFen(START.replace(" w ", " b "))).toBe(0);
+    expect(evaluateFen("4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1")).toBeLessThan(0);
+    expect(evaluateFen("4k3/8/8/3q4/8/8/8/3RK3 b - - 0 1")).toBeLessThan(0);
+  });
+});
+
+describe("strengthForElo", () => {
+  it("clamps the rating to the supported range", () => {
+    expect(strengthForElo(0).elo).toBe(MIN_ELO);
+    expect(strengthForElo(10_000).elo).toBe(MAX_ELO);
+  });
+
+  it("searches deeper with less noise as the rating rises", () => {
+    const weak = strengthForElo(800);
+    const strong = strengthForElo(2000);
+    expect(strong.maxDepth).toBeGreaterThan(weak.maxDepth);
+    expect(strong.maxNodes).toBeGreaterThan(weak.maxNodes);
+    expect(strong.noise).toBeLessThan(weak.noise);
+    expect(strengthForElo(MAX_ELO).noise).toBe(0);
+  });
+});
+
+describe("chess AI", () => {
+  it("plays a legal move out of the book", () => {
+    const state = chessEngine.newGame(
+      { fen: "4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1", elo: MAX_ELO },
+      "ai"
+    );
+    const move = chessEngine.getAIMove(state)!;
+
+    expect(move).toEqual({ san: "Rxd5" });
+    expect(chessEngine.makeMove(state, move).valid).toBe(true);
+  });
+});
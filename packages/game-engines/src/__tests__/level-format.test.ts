@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import {
+  LEVEL_FORMAT,
+  POLYBRIDGE_LEVELS,
+  customLevelOptions,
+  parseLevelFile,
+  pathfindingEngine,
+  polybridgeEngine,
+  serializeLevelFile,
+  sokobanEngine,
+  validateLevelFile,
+  type PathfindingLevelFile,
+  type PolyBridgeLevelFile,
+  type SokobanLevelFile,
+} from "../index";
+
+function levelFile<T>(game: string, level: T) {
+  return { format: LEVEL_FORMAT, version: 1, game, name: "Test level", level };
+}
+
+const sokoban = (map: string[]) => levelFile("sokoban", { map });
+const pathfinding = (map: string[], extra: Record<string, unknown> = {}) => levelFile("pathfinding", { map, ...extra });
+
+// A built-in bridge whose plain deck holds, as a level file
+const { terrain, anchors, vehicleStart, vehicleEnd, budget, vehicleWeight, width, height } = POLYBRIDGE_LEVELS[1];
+const BRIDGE = { terrain, anchors, vehicleStart, vehicleEnd, budget, vehicleWeight, width, height };
+const polybridge = (changes: Record<string, unknown> = {}) => levelFile("polybridge", { ...BRIDGE, ...changes });
+
+describe("level file header", () => {
+  it("reports every header problem at once", () => {
+    const { valid, errors } = validateLevelFile({ format: "xsb", version: 2, game: "chess", name: " " });
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      `format must be "${LEVEL_FORMAT}"`,
+      "Unsupported format version 2 (latest is 1)",
+      "game must be one of: sokoban, pathfinding, polybridge",
+      "name is required",
+      "level must be an object",
+    ]);
+  });
+
+  it("rejects anything but an object", () => {
+    expect(validateLevelFile([]).errors).toEqual(["Level file must be a JSON object"]);
+    expect(() => parseLevelFile("{")).toThrow("Level file is not valid JSON");
+  });
+
+  it("round-trips through serializeLevelFile", () => {
+    const file = sokoban(["#####", "#@$.#", "#####"]) as SokobanLevelFile;
+    expect(parseLevelFile(serializeLevelFile(file))).toEqual(file);
+  });
+});
+
+describe("Sokoban levels", () => {
+  it("accepts an enclosed, solvable level and starts it", () => {
+    const file = sokoban(["#####", "#@$.#", "#####"]) as SokobanLevelFile;
+    expect(validateLevelFile(file)).toEqual({ valid: true, errors: [], warnings: [] });
+
+    const state = sokobanEngine.newGame(customLevelOptions(file));
+    expect(state.boxes).toEqual([{ row: 1, col: 2 }]);
+    expect(state.goals).toEqual([{ row: 1, col: 3 }]);
+  });
+
+  it("counts players, boxes and goals", () => {
+    expect(validateLevelFile(sokoban(["######", "#@$$.#", "######"])).errors).toEqual([
+      "Box count (2) must match goal count (1)",
+    ]);
+    expect(validateLevelFile(sokoban(["#####", "# $.#", "#####"])).errors).toEqual([
+      "Level needs exactly one player (@ or +), found 0",
+    ]);
+  });
+
+  it("requires walls all around the player", () => {
+    expect(validateLevelFile(sokoban(["#####", "#@$. ", "#####"])).errors).toEqual([
+      "The player can walk off the map: surround the level with walls",
+    ]);
+  });
+
+  it("rejects levels the solver proves unsolvable or already solved", () => {
+    // The box is stuck in a corner
+    expect(validateLevelFile(sokoban(["#####", "#@ .#", "#$  #", "#####"])).errors).toEqual([
+      "Level cannot be solved",
+    ]);
+    expect(validateLevelFile(sokoban(["####", "#@*#", "####"])).errors).toEqual([
+      "Every box already sits on a goal",
+    ]);
+  });
+
+  it("names unknown map symbols", () => {
+    expect(validateLevelFile(sokoban(["#####", "#@$x#", "#####"])).errors).toEqual([
+      'map contains unknown symbols: "x"',
+    ]);
+  });
+});
+
+describe("pathfinding levels", () => {
+  it("accepts a level whose goal can be reached and starts it", () => {
+    const file = pathfinding(["S.~", "##.", "G.."], { difficulty: "easy", parNodes: 6 }) as PathfindingLevelFile;
+    expect(validateLevelFile(file).valid).toBe(true);
+
+    const state = pathfindingEngine.newGame(customLevelOptions(file));
+    expect(state.status).toBe("playing");
+  });
+
+  it("rejects a goal walled off from the start", () => {
+    expect(validateLevelFile(pathfinding(["S..", "###", "..G"])).errors).toEqual([
+      "The goal cannot be reached from the start",
+    ]);
+  });
+
+  it("needs one start and one goal", () => {
+    expect(validateLevelFile(pathfinding(["S.S", "..."])).errors).toEqual([
+      "Level needs exactly one start (S), found 2",
+      "Level needs exactly one goal (G), found 0",
+    ]);
+  });
+
+  it("checks the optional fields and warns about ragged rows", () => {
+    expect(validateLevelFile(pathfinding(["S.G"], { difficulty: "extreme", parNodes: -1 })).errors).toEqual([
+      "difficulty must be one of: easy, medium, hard",
+      "parNodes must be a non-negative integer",
+    ]);
+    expect(validateLevelFile(pathfinding(["S..", "G"])).warnings).toEqual([
+      "Rows have different lengths; short rows are padded with empty cells",
+    ]);
+  });
+});
+
+describe("Poly Bridge levels", () => {
+  it("accepts a built-in bridge and starts it as a custom level", () => {
+    const file = polybridge() as PolyBridgeLevelFile;
+    expect(validateLevelFile(file)).toEqual({ valid: true, errors: [], warnings: [] });
+
+    const state = polybridgeEngine.newGame(customLevelOptions(file));
+    expect(state.levelIndex).toBe(-1);
+    expect(state.level).toMatchObject({ id: "custom", name: "Test level", anchors: BRIDGE.anchors });
+  });
+
+  it("keeps anchors on the build grid and apart", () => {
+    const [first, ...rest] = BRIDGE.anchors;
+    expect(validateLevelFile(polybridge({ anchors: [{ x: first.x + 5, y: first.y }, ...rest] })).errors).toEqual([
+      "Anchors must lie on the 10px build grid",
+    ]);
+    expect(validateLevelFile(polybridge({ anchors: [first, first, ...rest] })).errors).toEqual([
+      "Anchors must not overlap",
+    ]);
+  });
+
+  it("puts the vehicle on either side of the gap", () => {
+    const gapEnd = Math.max(...BRIDGE.anchors.map((a) => a.x));
+    expect(
+      validateLevelFile(polybridge({ vehicleStart: { x: gapEnd + 10, y: BRIDGE.vehicleStart.y } })).errors
+    ).toEqual(["vehicleStart must be left of the first anchor"]);
+  });
+
+  it("warns when a plain deck does not hold within the budget", () => {
+    const { valid, warnings } = validateLevelFile(polybridge({ budget: 1 }));
+    expect(valid).toBe(true);
+    expect(warnings).toEqual([
+      "A plain deck between the anchors does not hold within budget; check that a truss design does",
+    ]);
+  });
+
+  it("keeps the level inside the canvas", () => {
+    expect(validateLevelFile(polybridge({ vehicleEnd: { x: BRIDGE.width + 1, y: 0 } })).errors).toEqual([
+      "vehicleEnd must lie inside the canvas",
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatMinesweeperBoard,
+  formatSok,
+  minesweeperEngine,
+  parseLurd,
+  parseMinesweeperBoard,
+  parseSok,
+  replayLurd,
+  sokobanEngine,
+  toLurd,
+  toXsb,
+  toXsbLevel,
+} from "../index";
+
+const COLLECTION = `; Tiny collection
+
+#####
+#@$.#
+#####
+Title: One push
+Author: Test
+Solution: R
+
+; Second
+4#|#.$@#|4#
+rL
+`;
+
+describe("SOK collections", () => {
+  it("reads maps, fields, comments and run-length rows", () => {
+    const levels = parseSok(COLLECTION);
+
+    expect(levels).toHaveLength(2);
+    expect(levels[0]).toEqual({ title: "One push", author: "Test", map: ["#####", "#@$.#", "#####"], solution: "R" });
+    expect(levels[1]).toEqual({ title: "Second", map: ["####", "#.$@#", "####"], solution: "rL" });
+  });
+
+  it("expands run-length solutions", () => {
+    expect(parseSok("#####\n#@ $.#\n######\nSolution: 2rR")[0].solution).toBe("rrR");
+  });
+
+  it("skips Comment: blocks", () => {
+    const text = "Comment:\n#### not a map\nComment-End:\n#####\n#@$.#\n#####\n";
+    expect(parseSok(text).map((level) => level.map)).toEqual([["#####", "#@$.#", "#####"]]);
+  });
+
+  it("reads back what it writes", () => {
+    const levels = parseSok(COLLECTION);
+    expect(parseSok(formatSok(levels, "Tiny collection"))).toEqual(levels);
+  });
+});
+
+describe("XSB positions", () => {
+  it("writes the current position with goals under the player and boxes", () => {
+    const state = sokobanEngine.newGame({ customLevel: { name: "t", map: ["######", "#@$. #", "######"] } });
+    const pushed = sokobanEngine.makeMove(state, { direction: "right" }).state;
+
+    expect(toXsb(state)).toEqual(["######", "#@$. #", "######"]);
+    expect(toXsb(pushed)).toEqual(["######", "# @* #", "######"]);
+  });
+
+  it("exports the starting position with the moves so far", () => {
+    const start = sokobanEngine.newGame({ customLevel: { name: "t", map: ["#######", "#@ $ .#", "#######"] } });
+    const state = ["right", "right", "right"].reduce(
+      (current, direction) => sokobanEngine.makeMove(current, { direction: direction as "right" }).state,
+      start
+    );
+
+    expect(toXsbLevel(state)).toEqual({ title: "t", map: ["#######", "#@ $ .#", "#######"], solution: "rRR" });
+  });
+});
+
+describe("LURD solutions", () => {
+  const start = () => sokobanEngine.newGame({ customLevel: { name: "t", map: ["#######", "#@ $ .#", "#######"] } });
+
+  it("marks pushes in uppercase", () => {
+    expect(toLurd(start(), parseLurd("rrr")!)).toBe("rRR");
+    expect(parseLurd("x")).toBeNull();
+  });
+
+  it("replays a solution to a win", () => {
+    const result = replayLurd(start(), "r2R");
+    expect(result.valid).toBe(true);
+    expect(result.state.status).toBe("won");
+    expect(result.result?.status).toBe("won");
+  });
+
+  it("rejects steps whose case does not match the push", () => {
+    expect(replayLurd(start(), "rrR")).toMatchObject({ valid: false, error: expect.stringContaining("pushes a box") });
+    expect(replayLurd(start(), "R")).toMatchObject({ valid: false, error: expect.stringContaining("pushes nothing") });
+  });
+});
+
+describe("minesweeper text boards", () => {
+  const BOARD = "; Corner\n*1.\n11.\n...\n";
+
+  it("derives numbers and keeps covered, revealed and flagged cells", () => {
+    const parsed = parseMinesweeperBoard("; Corner\nF1.\n11.\n..f\n");
+
+    expect(parsed).toMatchObject({ title: "Corner", rows: 3, cols: 3, mineCount: 1 });
+    expect(parsed.board).toEqual([[-1, 1, 0], [1, 1, 0], [0, 0, 0]]);
+    expect(parsed.revealed[0]).toEqual([false, true, false]);
+    expect(parsed.flagged[0][0]).toBe(true);
+    expect(parsed.flagged[2][2]).toBe(true);
+  });
+
+  it("rejects boards that do not add up", () => {
+    expect(() => parseMinesweeperBoard("*2.\n...\n")).toThrow(/shows 2 but has 1/);
+    expect(() => parseMinesweeperBoard("*..\n..\n")).toThrow(/same length/);
+    expect(() => parseMinesweeperBoard("...\n...\n")).toThrow(/no mines/);
+    expect(() => parseMinesweeperBoard("*?.\n")).toThrow(/Unknown symbol/);
+  });
+
+  it("plays a loaded board and writes it back", () => {
+    const state = minesweeperEngine.newGame({ board: BOARD }, "board");
+    const revealed = minesweeperEngine.makeMove(state, { action: "reveal", row: 2, col: 2 }).state;
+
+    expect(revealed.status).toBe("won");
+    expect(formatMinesweeperBoard(state, "Corner")).toBe(BOARD);
+    expect(parseMinesweeperBoard(formatMinesweeperBoard(revealed)).revealed.flat().filter(Boolean)).toHaveLength(8);
+  });
+
+  it("has no board to export before the first reveal", () => {
+    expect(() => formatMinesweeperBoard(minesweeperEngine.newGame({}, "fresh"))).toThrow(/first reveal/);
+  });
+});
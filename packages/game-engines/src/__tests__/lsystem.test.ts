@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { expandLSystem, parseAxiom, parseRuleText, ruleText } from "../fractals/lsystem";
+import { rngFromSeed } from "../random";
+
+const BRANCHING = "F(l) : l>2 → F(l*0.5)[+F(l*0.7)]";
+
+// Expand an axiom with rules written as text
+function expand(axiom: string, rules: string[], iterations = 1): string {
+  return expandLSystem(axiom, rules.map((rule) => parseRuleText(rule)), iterations, rngFromSeed("lsystem"), 10_000);
+}
+
+// The first line of the error a rule throws, with the column
+function syntaxError(rule: string): string {
+  try {
+    expand("F", [rule]);
+  } catch (error) {
+    return (error as Error).message.split("\n")[0];
+  }
+  throw new Error(`"${rule}" parsed`);
+}
+
+describe("parseRuleText", () => {
+  it("splits a rule into predecessor, condition and successor", () => {
+    const rule = parseRuleText(BRANCHING, 0.5);
+
+    expect(rule).toEqual({ symbol: "F(l)", condition: "l>2", replacement: "F(l*0.5)[+F(l*0.7)]", probability: 0.5 });
+    expect(ruleText(rule)).toBe(BRANCHING);
+  });
+
+  it("accepts -> as well as →", () => {
+    expect(parseRuleText("A<B>C -> X")).toEqual(parseRuleText("A<B>C → X"));
+    expect(parseRuleText("F(x) : x>-1->F(x-1)")).toMatchObject({ condition: "x>-1", replacement: "F(x-1)" });
+  });
+});
+
+describe("expandLSystem", () => {
+  it("rewrites parametric modules while the condition holds", () => {
+    expect(expand("F(4)", [BRANCHING])).toBe("F(2)[+F(2.8)]");
+    expect(expand("F(4)", [BRANCHING], 2)).toBe("F(2)[+F(1.4)[+F(1.96)]]");
+    expect(expand("F(4)", [BRANCHING], 5)).toBe(expand("F(4)", [BRANCHING], 3));
+  });
+
+  it("matches parameters by count, while a plain symbol matches any module", () => {
+    expect(expand("F(1,2)F(3)F", ["F(x) → G(x)"])).toBe("F(1,2)G(3)F");
+    expect(expand("F(1,2)F", ["F → G"])).toBe("GG");
+  });
+
+  it("matches context across turtle turns and side branches", () => {
+    const rules = ["A<B>C → X"];
+
+    expect(expand("ABC", rules)).toBe("AXC");
+    expect(expand("A+B-C", rules)).toBe("A+X-C");
+    expect(expand("A[D]B[E]C", rules)).toBe("A[D]X[E]C");
+    expect(expand("AB", rules)).toBe("AB");
+    expect(expand("[A]BC", rules)).toBe("[A]BC");
+    // A branch continues from the module before it, but ends at its ']'
+    expect(expand("A[BC]", rules)).toBe("A[XC]");
+    expect(expand("A[B]C", rules)).toBe("A[B]C");
+  });
+
+  it("binds context parameters", () => {
+    const rules = ["A(x)<B>C(y) : x<y → B(x+y)"];
+
+    expect(expand("A(1)BC(2)", rules)).toBe("A(1)B(3)C(2)");
+    expect(expand("A(2)BC(1)", rules)).toBe("A(2)BC(1)");
+  });
+
+  it("follows the operator precedence", () => {
+    expect(expand("F(3)", ["F(x) → G(2+3*x^2, -x^2, 2^x^2, 7%x, (2+3)*x)"])).toBe("G(29,-9,512,1,15)");
+    // && binds tighter than ||
+    expect(expand("F(1)", ["F(x) : x==1 || x==2 && x==3 → G"])).toBe("G");
+    expect(expand("F(2)", ["F(x) : !(x>1) || x>=3 → G"])).toBe("F(2)");
+    expect(expand("F(4)", ["F(x) : sqrt(x)==min(2,3) && x!=5 → G(pow(x,0.5))"])).toBe("G(2)");
+  });
+
+  it("throws when a parameter stops being a finite number", () => {
+    expect(() => expand("F(0)", ["F(x) → F(1/x)"])).toThrow("Parameter of F is not a finite number");
+  });
+
+  it("stops at the length limit", () => {
+    const expanded = expandLSystem("F", [parseRuleText("F → FF")], 20, rngFromSeed("lsystem"), 100);
+    expect(expanded).toBe("F".repeat(100));
+  });
+});
+
+describe("rule syntax errors", () => {
+  it("name the column of the problem", () => {
+    expect(syntaxError("F(l) : q>2 → F")).toBe("Unknown parameter 'q' (parameters: l) at column 8");
+    expect(syntaxError("AB → C")).toBe("Expected a single predecessor symbol (use < and > for context) at column 2");
+    expect(syntaxError("F(x,x) → F")).toBe("Parameter 'x' is declared twice at column 5");
+    expect(syntaxError("F(x) → F(foo(x))")).toContain("Unknown function 'foo' (available: sin,");
+    expect(syntaxError("F(x) → F(foo(x))")).toMatch(/at column 10$/);
+    expect(syntaxError("F(x) → F(min(x))")).toBe("min takes 2 arguments at column 10");
+    expect(syntaxError("F → F(")).toBe("Expected an expression at column 7");
+    expect(syntaxError("F(x) : 1<x<3 → F")).toBe("Expected '->' at column 11");
+    expect(syntaxError("F")).toBe("Expected '->' and a successor at column 2");
+    expect(syntaxError("<B → C")).toBe("Expected a left context before '<' at column 1");
+  });
+
+  it("point a caret at the column", () => {
+    expect(() => expand("F", ["F(l) : q>2 → F"])).toThrow("\n  F(l) : q>2 → F\n         ^");
+  });
+
+  it("cover the axiom too", () => {
+    expect(parseAxiom("F(1+1)[+F]")).toEqual([
+      { symbol: "F", params: [2] },
+      { symbol: "[", params: [] },
+      { symbol: "+", params: [] },
+      { symbol: "F", params: [] },
+      { symbol: "]", params: [] },
+    ]);
+    expect(() => parseAxiom("F(x)")).toThrow("Unknown parameter 'x' (no parameters are declared here) at column 3");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeMines,
+  formatMineProbabilities,
+  getMineProbabilities,
+  isNoGuessBoard,
+  minesweeperEngine,
+  parseMinesweeperBoard,
+  type CellValue,
+  type MineView,
+} from "../index";
+
+// A board view from rows of digits (revealed numbers) and dots (covered
+// cells); the numbers are taken as given, so they may contradict each other
+function view(lines: string[], mineCount: number): MineView {
+  const board = lines.map((line) => [...line].map((char) => (char === "." ? 0 : Number(char)) as CellValue));
+  const revealed = lines.map((line) => [...line].map((char) => char !== "."));
+  return { board, revealed, rows: lines.length, cols: lines[0].length, mineCount };
+}
+
+describe("analyzeMines", () => {
+  it("finds the certain mines and safe cells", () => {
+    const result = analyzeMines(view(["1.."], 1));
+
+    expect(result.probabilities).toEqual([[null, 1, 0]]);
+    expect(result.mines).toEqual([[0, 1]]);
+    expect(result.safe).toEqual([[0, 2]]);
+    expect(result.exact).toBe(true);
+  });
+
+  it("splits a shared number evenly when nothing tells the cells apart", () => {
+    const result = analyzeMines(view(["1.", "1."], 1));
+
+    expect(result.probabilities).toEqual([[null, 0.5], [null, 0.5]]);
+    expect(result.safe).toEqual([]);
+    expect(result.mines).toEqual([]);
+  });
+
+  it("weights each layout by the ways to place the remaining mines", () => {
+    // Either the middle cell is the only mine next to the numbers (two ways
+    // to place the other mine in the last two cells), or both outer cells are
+    const result = analyzeMines(view([".1.1..."], 2));
+    const [[a, , b, , c, d, e]] = result.probabilities;
+
+    expect(a).toBeCloseTo(1 / 3);
+    expect(b).toBeCloseTo(2 / 3);
+    expect(c).toBeCloseTo(1 / 3);
+    expect(d).toBeCloseTo(1 / 3);
+    expect(e).toBeCloseTo(1 / 3);
+  });
+
+  it("takes the total mine count into account", () => {
+    expect(analyzeMines(view([".1.1."], 1)).probabilities).toEqual([[0, null, 1, null, 0]]);
+    expect(analyzeMines(view([".1.1."], 2)).probabilities).toEqual([[1, null, 0, null, 1]]);
+  });
+
+  it("counts known mines towards the numbers", () => {
+    const known = view(["1.", ".."], 1);
+    known.knownMines = [[false, true], [false, false]];
+
+    expect(analyzeMines(known).safe).toEqual([[1, 0], [1, 1]]);
+  });
+
+  it("throws when the numbers contradict each other", () => {
+    expect(() => analyzeMines(view(["1.2"], 1))).toThrow(/contradict/);
+    expect(() => analyzeMines(view(["1."], 0))).toThrow(/contradict/);
+  });
+
+  it("names the lowest-risk cell when there is no safe one", () => {
+    const text = formatMineProbabilities(analyzeMines(view([".1.1..."], 2)));
+
+    expect(text).toContain("Safe: none");
+    expect(text).toContain("No safe cell; lowest risk: 0,0 (33%)");
+  });
+});
+
+describe("getMineProbabilities", () => {
+  it("calls every cell safe before the first reveal", () => {
+    const state = minesweeperEngine.newGame({ difficulty: "easy" }, "first");
+    const result = getMineProbabilities(state);
+
+    expect(result.mines).toEqual([]);
+    expect(result.safe).toHaveLength(81);
+  });
+
+  it("solves a game in progress", () => {
+    const state = minesweeperEngine.newGame({ board: "*1.\n11.\n..." }, "fixed");
+
+    expect(getMineProbabilities(state).probabilities).toEqual([
+      [1, null, 0],
+      [null, null, 0],
+      [0, 0, 0],
+    ]);
+  });
+});
+
+describe("isNoGuessBoard", () => {
+  it("clears a board that logic alone can finish", () => {
+    expect(isNoGuessBoard(parseMinesweeperBoard("*..").board, 0, 2)).toBe(true);
+    expect(isNoGuessBoard(parseMinesweeperBoard("*1.\n11.\n...").board, 2, 2)).toBe(true);
+  });
+
+  it("rejects a board that needs a guess", () => {
+    expect(isNoGuessBoard(parseMinesweeperBoard("*.\n..").board, 1, 1)).toBe(false);
+    expect(isNoGuessBoard(parseMinesweeperBoard("*..*").board, 0, 1)).toBe(false);
+  });
+
+  it("deals seeded no-guess boards that can be solved from the first click", () => {
+    for (const seed of ["a", "b", "c", "d", "e"]) {
+      const game = minesweeperEngine.newGame({ difficulty: "easy", noGuess: true }, seed);
+      const first = minesweeperEngine.makeMove(game, { action: "reveal", row: 4, col: 4 });
+
+      expect(first.valid).toBe(true);
+      expect(first.state.board[4][4]).toBe(0);
+      expect(isNoGuessBoard(first.state.board, 4, 4)).toBe(true);
+
+      const again = minesweeperEngine.makeMove(game, { action: "reveal", row: 4, col: 4 });
+      expect(again.state.board).toEqual(first.state.board);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  chessEngine,
+  classifyOpening,
+  exportPgn,
+  findOpening,
+  importPgn,
+  movesToPgn,
+  pgnDateTime,
+  pgnResult,
+} from "../index";
+
+const MORPHY = ["e4", "e5", "Nf3", "Nc6", "Bb5", "a6"];
+const FOOLS_MATE = ["f3", "e5", "g4", "Qh4#"];
+
+// Movetext on one line, undoing the export's line wrapping
+const movetext = (pgn: string) => pgn.split("\n\n")[1].replace(/\s+/g, " ");
+
+describe("movesToPgn", () => {
+  it("writes the Seven Tag Roster with placeholders and the opening", () => {
+    const pgn = movesToPgn(MORPHY, { White: "A", Black: "B" });
+
+    expect(pgn).toContain('[Event "MCP Challenge"]');
+    expect(pgn).toContain('[Date "????.??.??"]');
+    expect(pgn).toContain('[White "A"]');
+    expect(pgn).toContain('[Result "*"]');
+    expect(pgn).toContain('[ECO "C70"]');
+    expect(movetext(pgn)).toBe("1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 {C70 Ruy Lopez: Morphy Defense} *");
+  });
+
+  it("ends with the result and how the game ended", () => {
+    expect(movetext(movesToPgn(FOOLS_MATE))).toBe("1. f3 e5 2. g4 Qh4# {Checkmate, Black wins} 0-1");
+    expect(movetext(movesToPgn(MORPHY, { Result: "1-0" }))).toMatch(/Morphy Defense\. Black resigns\} 1-0$/);
+  });
+
+  it("wraps long movetext at the export line length", () => {
+    const shuffle = Array.from({ length: 12 }, () => ["Nf3", "Nf6", "Ng1", "Ng8"]).flat();
+    const pgn = movesToPgn(shuffle);
+
+    expect(pgn).toContain('[Result "1/2-1/2"]');
+    expect(movetext(pgn)).toMatch(/\{Draw by threefold repetition\} 1\/2-1\/2$/);
+    const lines = pgn.split("\n\n")[1].split("\n");
+    expect(lines.length).toBeGreaterThan(1);
+    expect(Math.max(...lines.map((line) => line.length))).toBeLessThanOrEqual(79);
+  });
+
+  it("records a custom starting position", () => {
+    const fen = "4k3/8/8/8/8/8/4P3/4K3 w - - 0 1";
+    const pgn = movesToPgn(["e4"], {}, fen);
+
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain(`[FEN "${fen}"]`);
+    expect(importPgn(pgn)).toMatchObject({ startFen: fen, moves: ["e4"] });
+  });
+});
+
+describe("importPgn", () => {
+  it("reads headers, moves, the final position and the result", () => {
+    const imported = importPgn(movesToPgn(FOOLS_MATE, { White: "A" }));
+
+    expect(imported.headers.White).toBe("A");
+    expect(imported.moves).toEqual(FOOLS_MATE);
+    expect(imported.fen).toBe("rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3");
+    expect(imported.result).toBe("0-1");
+  });
+
+  it("rejects illegal moves and empty games", () => {
+    expect(() => importPgn("1. e4 e5 2. Ke3 Ke6")).toThrow(/Invalid PGN/);
+    expect(() => importPgn('[Event "x"]\n\n*')).toThrow(/no moves/);
+  });
+});
+
+describe("chess games and PGN", () => {
+  it("continues a game from PGN and exports it with the caller's tags", () => {
+    const state = chessEngine.newGame({ pgn: movesToPgn(MORPHY, { Event: "Club night" }) }, "pgn");
+    expect(state.moveCount).toBe(6);
+
+    const pgn = exportPgn(state, { White: "W" });
+    expect(pgn).toContain('[Event "Club night"]');
+    expect(pgn).toContain('[White "W"]');
+    expect(movetext(pgn)).toBe("1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 {C70 Ruy Lopez: Morphy Defense} *");
+  });
+
+  it("starts from a named opening", () => {
+    const state = chessEngine.newGame({ opening: "C60" }, "opening");
+    expect(state.opening).toEqual({ eco: "C60", name: "Ruy Lopez" });
+    expect(importPgn(state.pgn).moves).toEqual(findOpening("Ruy Lopez")!.moves);
+  });
+
+  it("labels the most specific opening reached", () => {
+    expect(classifyOpening(MORPHY)).toEqual({ eco: "C70", name: "Ruy Lopez: Morphy Defense", ply: 6 });
+    expect(classifyOpening(["a3"])).toBeNull();
+  });
+
+  it("maps game status to the PGN result from the player's color", () => {
+    expect(pgnResult({ status: "won", playerColor: "black" })).toBe("0-1");
+    expect(pgnResult({ status: "lost", playerColor: "black" })).toBe("1-0");
+    expect(pgnResult({ status: "draw", playerColor: "white" })).toBe("1/2-1/2");
+    expect(pgnResult({ status: "playing", playerColor: "white" })).toBe("*");
+  });
+
+  it("formats PGN dates in UTC", () => {
+    expect(pgnDateTime(Date.UTC(2026, 0, 2, 3, 4, 5))).toEqual({ date: "2026.01.02", time: "03:04:05" });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { LEVELS, simulateBridge, type Structure } from "../polybridge";
+
+const [level1, level2] = LEVELS;
+
+function member(
+  id: string,
+  type: Structure["type"],
+  material: Structure["material"],
+  x1: number,
+  x2: number,
+  y: number
+): Structure {
+  return { id, type, material, start: { x: x1, y }, end: { x: x2, y }, cost: 0 };
+}
+
+describe("simulateBridge", () => {
+  it("carries the vehicle across a road between anchors", () => {
+    const report = simulateBridge(level1, [member("r", "road", "road", 250, 550, 300)]);
+    expect(report).toMatchObject({ passed: true, progress: 100, failure: null, breakPoint: null });
+  });
+
+  it("does not let the vehicle drive on beams or cables", () => {
+    for (const type of ["beam", "cable"] as const) {
+      const report = simulateBridge(level1, [member("m", type, "steel", 250, 550, 300)]);
+      expect(report.passed).toBe(false);
+      expect(report.failure).toBe("no_deck");
+    }
+  });
+
+  it("reports a road breaking under the vehicle as a collapse where the vehicle was", () => {
+    // The middle joint hangs free, so the road folds once the vehicle is on it
+    const report = simulateBridge(level2, [
+      member("a", "road", "road", 200, 400, 280),
+      member("b", "road", "road", 400, 600, 280),
+    ]);
+
+    expect(report.failure).toBe("collapsed");
+    expect(report.progress).toBeGreaterThan(0);
+    expect(report.breakPoint?.progress).toBe(report.progress);
+  });
+
+  it("collapses before the vehicle starts when the bridge breaks under its own weight", () => {
+    const report = simulateBridge(level1, [
+      member("a", "road", "road", 250, 350, 300),
+      member("b", "road", "road", 350, 450, 300),
+      member("c", "road", "road", 450, 550, 300),
+    ]);
+
+    expect(report).toMatchObject({ passed: false, failure: "collapsed", progress: 0 });
+    expect(report.breakPoint).toMatchObject({ structureId: "a", progress: 0 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRng,
+  deriveSeed,
+  getEngine,
+  hashSeed,
+  listEngines,
+  positionRng,
+  rngFromSeed,
+  stateRng,
+} from "../index";
+
+/** State fields stamped from the wall clock */
+const VOLATILE_FIELDS = ["lastMoveAt", "startTime", "elapsedSeconds"];
+
+function stable(serialized: string): unknown {
+  const state = JSON.parse(serialized) as Record<string, unknown>;
+  for (const field of VOLATILE_FIELDS) delete state[field];
+  return state;
+}
+
+describe("seeded PRNG", () => {
+  it("produces the same sequence for the same seed", () => {
+    const a = rngFromSeed("seed-1");
+    const b = rngFromSeed("seed-1");
+    const drawsA = Array.from({ length: 20 }, () => a.next());
+    const drawsB = Array.from({ length: 20 }, () => b.next());
+    expect(drawsA).toEqual(drawsB);
+  });
+
+  it("produces different sequences for different seeds", () => {
+    const a = rngFromSeed("seed-1");
+    const b = rngFromSeed("seed-2");
+    expect(Array.from({ length: 5 }, () => a.next())).not.toEqual(
+      Array.from({ length: 5 }, () => b.next())
+    );
+  });
+
+  it("resumes from its stored state", () => {
+    const rng = rngFromSeed("resume");
+    rng.next();
+    rng.next();
+    const resumed = createRng(rng.state);
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  it("keeps draws within range", () => {
+    const rng = createRng(hashSeed("range"));
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const int = rng.intBetween(3, 7);
+      expect(int).toBeGreaterThanOrEqual(3);
+      expect(int).toBeLessThanOrEqual(7);
+      expect(Number.isInteger(int)).toBe(true);
+    }
+  });
+
+  it("shuffles into a permutation", () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    const shuffled = createRng(hashSeed("shuffle")).shuffle([...items]);
+    expect([...shuffled].sort((x, y) => x - y)).toEqual(items);
+    expect(shuffled).not.toEqual(items);
+  });
+
+  it("derives stable child seeds", () => {
+    expect(deriveSeed(rngFromSeed("parent"))).toBe(deriveSeed(rngFromSeed("parent")));
+    expect(deriveSeed(rngFromSeed("parent"))).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it("falls back to the game ID for states without rngState", () => {
+    expect(stateRng({ gameId: "g1" }).state).toBe(hashSeed("g1"));
+  });
+
+  it("varies position decisions by key without advancing the state", () => {
+    const state = { gameId: "g1", rngState: 42 };
+    expect(positionRng(state, 1).next()).toBe(positionRng(state, 1).next());
+    expect(positionRng(state, 1).next()).not.toBe(positionRng(state, 2).next());
+  });
+});
+
+describe("engine determinism", () => {
+  it.each(listEngines())("%s starts the same game from the same seed", (id) => {
+    const engine = getEngine(id)!;
+    const a = engine.serialize(engine.newGame({}, "fixed-seed"));
+    const b = engine.serialize(engine.newGame({}, "fixed-seed"));
+    expect(stable(a)).toEqual(stable(b));
+  });
+
+  it.each(listEngines())("%s replays the same moves to the same state", (id) => {
+    const engine = getEngine(id)!;
+    const play = () => {
+      let state = engine.newGame({}, "fixed-seed");
+      for (let i = 0; i < 6 && !engine.isGameOver(state); i++) {
+        const move =
+          state.turn === "opponent"
+            ? engine.getAIMove(state)
+            : engine.getLegalMoves(state)[0];
+        if (move === null || move === undefined) break;
+        const result = engine.makeMove(state, move);
+        if (!result.valid) break;
+        state = result.state;
+      }
+      return stable(engine.serialize(state));
+    };
+    expect(play()).toEqual(play());
+  });
+
+  it("generates different boards from different seeds", () => {
+    const engine = getEngine("lightsout")!;
+    const a = engine.newGame({}, "board-a") as unknown as { grid: boolean[][] };
+    const b = engine.newGame({}, "board-b") as unknown as { grid: boolean[][] };
+    expect(a.grid).not.toEqual(b.grid);
+  });
+});
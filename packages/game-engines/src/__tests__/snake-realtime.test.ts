@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { queueDirection, snakeEngine, tickSnake, type SnakeState } from "../index";
+
+// A head-to-head game on the default 15x15 grid: snake one heads right along
+// row 3, snake two heads left along row 11
+function versusGame(overrides: Partial<SnakeState> = {}): SnakeState {
+  return { ...snakeEngine.newGame({ mode: "pvp" }, "realtime"), food: { x: 0, y: 14 }, ...overrides };
+}
+
+function tick(state: SnakeState, aiDifficulty?: "medium"): SnakeState {
+  const result = tickSnake(state, aiDifficulty);
+  expect(result.valid).toBe(true);
+  return result.state;
+}
+
+describe("Snake real-time ticks", () => {
+  it("moves both snakes at once in the directions they queued", () => {
+    let state = versusGame();
+    state = queueDirection(state, "player", "up").state;
+    state = queueDirection(state, "opponent", "down").state;
+    state = queueDirection(state, "player", "down").state;
+
+    const next = tick(state);
+    expect(next.snake[0]).toEqual({ x: 3, y: 4 });
+    expect(next.opponent!.snake[0]).toEqual({ x: 11, y: 12 });
+    expect(next.queued).toBeUndefined();
+    expect(next.moveCount).toBe(2);
+  });
+
+  it("keeps a snake that queued nothing going straight", () => {
+    const next = tick(queueDirection(versusGame(), "player", "up").state);
+
+    expect(next.snake[0]).toEqual({ x: 3, y: 2 });
+    expect(next.opponent!.snake[0]).toEqual({ x: 10, y: 11 });
+    expect(next.opponent!.direction).toBe("left");
+  });
+
+  it("rejects turning back and queueing once the game is over", () => {
+    const state = versusGame();
+    expect(queueDirection(state, "opponent", "right")).toMatchObject({ valid: false, error: "Cannot turn 180 degrees" });
+    expect(queueDirection({ ...state, gameOver: true }, "player", "up").valid).toBe(false);
+    expect(tickSnake({ ...state, gameOver: true }).valid).toBe(false);
+  });
+
+  it("ends a head-on collision as a draw", () => {
+    const state = versusGame({
+      snake: [{ x: 5, y: 3 }, { x: 4, y: 3 }, { x: 3, y: 3 }],
+      opponent: { snake: [{ x: 7, y: 3 }, { x: 8, y: 3 }, { x: 9, y: 3 }], direction: "left", score: 0 },
+    });
+    const result = tickSnake(state);
+
+    expect(result.state).toMatchObject({ gameOver: true, status: "draw", winner: "draw" });
+    expect(result.result?.metadata).toMatchObject({ reason: "head_on_collision", winner: "draw" });
+  });
+
+  it("gives the game to the snake that did not crash", () => {
+    const state = versusGame({
+      snake: [{ x: 14, y: 3 }, { x: 13, y: 3 }, { x: 12, y: 3 }],
+    });
+    const result = tickSnake(state);
+
+    expect(result.state).toMatchObject({ gameOver: true, status: "lost", winner: "opponent" });
+    expect(result.result?.metadata?.reason).toBe("collision");
+  });
+
+  it("grows the snake that eats and respawns the food off both snakes", () => {
+    const state = versusGame({ food: { x: 4, y: 3 } });
+    const next = tick(state);
+
+    expect(next.score).toBe(1);
+    expect(next.snake).toHaveLength(4);
+    expect(next.opponent!.snake).toHaveLength(3);
+    expect(next.food).not.toEqual({ x: 4, y: 3 });
+    expect([...next.snake, ...next.opponent!.snake]).not.toContainEqual(next.food);
+    expect(next.rngState).not.toBe(state.rngState);
+
+    // The new food comes from the game's seeded generator
+    expect(tick(state).food).toEqual(next.food);
+  });
+
+  it("lets the AI steer a second snake with nothing queued", () => {
+    const state = versusGame({
+      opponent: { snake: [{ x: 0, y: 11 }, { x: 1, y: 11 }, { x: 2, y: 11 }], direction: "left", score: 0 },
+    });
+
+    expect(tickSnake(state).state.status).toBe("won");
+    expect(tick(state, "medium").status).toBe("playing");
+  });
+
+  it("ticks a solo game with the player's queued direction", () => {
+    const solo = snakeEngine.newGame({}, "solo");
+    const next = tick(queueDirection(solo, "player", "down").state);
+
+    expect(next.direction).toBe("down");
+    expect(next.snake[0]).toEqual({ x: solo.snake[0].x, y: solo.snake[0].y + 1 });
+    expect(queueDirection(solo, "opponent", "up").valid).toBe(false);
+  });
+});
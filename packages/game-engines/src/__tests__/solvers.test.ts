@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import {
+  lightsOutEngine,
+  pathfindingEngine,
+  sokobanEngine,
+  SOKOBAN_LEVELS,
+  tictactoeEngine,
+  type SokobanDirection,
+  type SokobanState,
+  type TicTacToeState,
+} from "../index";
+import { solveSokoban } from "../sokoban/solver";
+
+function playSokoban(state: SokobanState, directions: SokobanDirection[]): SokobanState {
+  let current = state;
+  for (const direction of directions) {
+    const result = sokobanEngine.makeMove(current, { direction });
+    expect(result.valid).toBe(true);
+    current = result.state;
+  }
+  return current;
+}
+
+function customSokoban(map: string[]): SokobanState {
+  return sokobanEngine.newGame({ customLevel: { name: "test", map } });
+}
+
+describe("Sokoban solver", () => {
+  it("finds a push-optimal solution that wins the level", () => {
+    const state = customSokoban([
+      "#######",
+      "#.    #",
+      "# $ @ #",
+      "#   $ #",
+      "#    .#",
+      "#######",
+    ]);
+    const result = solveSokoban(state);
+
+    expect(result.status).toBe("solved");
+    if (result.status !== "solved") return;
+    expect(result.pushes).toBe(4);
+
+    const end = playSokoban(state, result.directions);
+    expect(end.status).toBe("won");
+    expect(end.pushCount).toBe(4);
+  });
+
+  it("reports a box on a dead square as unsolvable", () => {
+    const state = customSokoban([
+      "#####",
+      "#$ .#",
+      "#@  #",
+      "#####",
+    ]);
+    expect(solveSokoban(state).status).toBe("unsolvable");
+  });
+
+  it("accepts boxes that freeze on goals", () => {
+    // The second push leaves both boxes frozen against the wall, on goals
+    const state = customSokoban([
+      "######",
+      "# .. #",
+      "# $$ #",
+      "#    #",
+      "# @  #",
+      "######",
+    ]);
+    const result = solveSokoban(state);
+    expect(result).toMatchObject({ status: "solved", pushes: 2 });
+  });
+
+  it("stops at the node budget", () => {
+    const result = solveSokoban(SOKOBAN_LEVELS[1], { maxNodes: 100 });
+    expect(result).toEqual({ status: "budget_exceeded", expanded: 101 });
+  });
+});
+
+describe("Sokoban engine solutions", () => {
+  it("has as many boxes as goals on every built-in level", () => {
+    for (const level of SOKOBAN_LEVELS) {
+      expect(level.boxes.length).toBe(level.goals.length);
+    }
+  });
+
+  it("solves level 1 from its stored push-optimal line", () => {
+    const state = sokobanEngine.newGame({ levelIndex: 0 });
+    const solution = sokobanEngine.solve!(state)!;
+
+    expect(solution).toMatchObject({ cost: 116, outcome: "won", optimal: true });
+    const end = playSokoban(state, solution.moves.map((m) => m.direction));
+    expect(end.status).toBe("won");
+    expect(sokobanEngine.getResult(end)).toMatchObject({ cost: 116 });
+  });
+
+  it("continues the stored line while the player follows it", () => {
+    const start = sokobanEngine.newGame({ levelIndex: 0 });
+    const line = sokobanEngine.solve!(start)!.moves.map((m) => m.direction);
+    const state = playSokoban(start, line.slice(0, 40));
+
+    const solution = sokobanEngine.solve!(state)!;
+    expect(solution.moves.map((m) => m.direction)).toEqual(line.slice(40));
+    expect(solution.cost).toBe(116 - state.pushCount);
+    expect(sokobanEngine.hint!(state)?.move.direction).toBe(line[40]);
+  });
+
+  it("does not search built-in levels from their start", () => {
+    expect(sokobanEngine.solve!(sokobanEngine.newGame({ levelIndex: 1 }))).toBeNull();
+  });
+
+  it("searches custom levels", () => {
+    const state = customSokoban(["######", "#@$ .#", "######"]);
+    expect(sokobanEngine.solve!(state)).toMatchObject({ cost: 2, optimal: true });
+  });
+});
+
+describe("Lights Out solver", () => {
+  it("returns a winning set of toggles no longer than the generated one", () => {
+    for (const seed of ["a", "b", "c"]) {
+      const state = lightsOutEngine.newGame({ difficulty: "medium" }, seed);
+      const solution = lightsOutEngine.solve!(state)!;
+
+      expect(solution.optimal).toBe(true);
+      expect(solution.cost).toBeLessThanOrEqual(state.minSolution);
+
+      let current = state;
+      for (const move of solution.moves) {
+        current = lightsOutEngine.makeMove(current, move).state;
+      }
+      expect(current.status).toBe("won");
+    }
+  });
+
+  it("hints a toggle from the solution", () => {
+    const state = lightsOutEngine.newGame({ difficulty: "easy" }, "hint");
+    const solution = lightsOutEngine.solve!(state)!;
+    const hint = lightsOutEngine.hint!(state)!;
+
+    expect(solution.moves).toContainEqual(hint.move);
+    expect(hint.remaining).toBe(solution.cost - 1);
+  });
+});
+
+describe("Tic-tac-toe solver", () => {
+  const withBoard = (board: string, turn: "X" | "O"): TicTacToeState => ({
+    ...tictactoeEngine.newGame({ symbol: "X" }, "board"),
+    board: [...board].map((c) => (c === "." ? null : c)) as TicTacToeState["board"],
+    currentTurn: turn,
+  });
+
+  it("draws from the empty board", () => {
+    const solution = tictactoeEngine.solve!(tictactoeEngine.newGame({ symbol: "X" }, "empty"))!;
+    expect(solution.outcome).toBe("draw");
+    expect(solution.moves).toHaveLength(9);
+  });
+
+  it("takes an immediate win", () => {
+    const solution = tictactoeEngine.solve!(withBoard("XX.OO....", "X"))!;
+    expect(solution.outcome).toBe("won");
+    expect(solution.moves[0]).toEqual({ position: 2 });
+  });
+
+  it("blocks the opponent's threat", () => {
+    const hint = tictactoeEngine.hint!(withBoard("OO..X...X", "X"))!;
+    expect(hint.move).toEqual({ position: 2 });
+  });
+
+  it("sees a lost position", () => {
+    // O holds a fork: two threats cannot both be blocked
+    expect(tictactoeEngine.solve!(withBoard("O.O.X.O.X", "X"))!.outcome).toBe("lost");
+  });
+});
+
+describe("Pathfinding solver", () => {
+  it("costs terrain: goes around water instead of through it", () => {
+    const state = pathfindingEngine.newGame({
+      customLevel: { name: "water", map: ["S≈G", "..."] },
+    });
+    expect(pathfindingEngine.solve!(state)?.cost).toBe(4);
+
+    const astar = pathfindingEngine.makeMove(state, { action: "find_path", algorithm: "astar" }).state;
+    const bfs = pathfindingEngine.makeMove(state, { action: "find_path", algorithm: "bfs" }).state;
+    expect(astar.pathCost).toBe(4);
+    expect(bfs.pathCost).toBeGreaterThan(4);
+  });
+});
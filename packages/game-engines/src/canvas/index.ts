@@ -13,6 +13,7 @@ import {
   type MoveResult,
   type GameStateJSON,
 } from '../types';
+import { rngFromSeed } from '../random';
 
 // =============================================================================
 // Types
@@ -289,12 +290,12 @@ function createCanvasEngine(): GameEngine<CanvasState, CanvasMove, CanvasOptions
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): CanvasState {
+    newGame(options = {}, seed?: string): CanvasState {
       const width = options.width ?? DEFAULT_WIDTH;
       const height = options.height ?? DEFAULT_HEIGHT;
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rngFromSeed(seed)),
         status: 'playing',
         turn: 'player',
         moveCount: 0,
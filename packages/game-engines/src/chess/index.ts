@@ -2,10 +2,10 @@
  * Chess Game Engine
  *
  * Pure game logic implementation using chess.js
- * No I/O, no side effects - just chess rules and AI
+ * No I/O, no side effects - just chess rules and AI (see ./search)
  */
 
-import { Chess, type Move as ChessJsMove } from 'chess.js';
+import { Chess } from 'chess.js';
 import {
   generateGameId,
   type GameEngine,
@@ -15,6 +15,24 @@ import {
   type GameStateJSON,
   type Difficulty,
 } from '../types';
+import { positionRng, rngFromSeed } from '../random';
+import { DIFFICULTY_ELO, searchPosition, strengthForElo } from './search';
+import { MAX_BOOK_PLY, classifyOpening, findOpening, getBookMoves } from './openings';
+import { loadChess } from './pgn';
+
+export {
+  DIFFICULTY_ELO,
+  MAX_ELO,
+  MIN_ELO,
+  evaluateFen,
+  searchPosition,
+  strengthForElo,
+} from './search';
+export type { ChessStrength, SearchLimits, SearchOptions, SearchResult } from './search';
+export { CHESS_OPENINGS, classifyOpening, findOpening, getBookMoves } from './openings';
+export type { ChessOpening, OpeningMatch } from './openings';
+export { exportPgn, importPgn, movesToPgn, pgnDateTime, pgnResult } from './pgn';
+export type { ImportedPgn, PgnHeaders, PgnResult } from './pgn';
 
 // =============================================================================
 // Types
@@ -31,10 +49,14 @@ export interface ChessState extends GameState {
   playerColor: PlayerColor;
   /** AI difficulty */
   difficulty: Difficulty;
+  /** AI strength rating (overrides the difficulty's default rating) */
+  elo?: number;
   /** Last move in SAN */
   lastMove?: string;
   /** Is the current player in check */
   inCheck: boolean;
+  /** Named opening the game has reached (ECO classification) */
+  opening?: { eco: string; name: string };
 }
 
 export interface ChessMove {
@@ -47,8 +69,14 @@ export interface ChessOptions {
   color?: PlayerColor | 'random';
   /** AI difficulty (default: medium) */
   difficulty?: Difficulty;
+  /** AI strength as an ELO-like rating, 400-2400 (default: from difficulty) */
+  elo?: number;
   /** Starting FEN (default: standard position) */
   fen?: string;
+  /** Start after the moves of a named opening (ECO code or name) */
+  opening?: string;
+  /** Continue a game from PGN */
+  pgn?: string;
 }
 
 // =============================================================================
@@ -63,41 +91,68 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
     metadata: {
       id: 'chess',
       name: 'Chess',
-      description: 'Classic chess against Stockfish engine',
+      description: 'Classic chess against a built-in search engine',
       difficulty: 'hard',
       points: 100,
       transport: 'sse',
       minPlayers: 1,
-      maxPlayers: 1,
+      maxPlayers: 2,
+      seats: ['white', 'black'],
     },
 
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): ChessState {
+    newGame(options = {}, seed?: string): ChessState {
+      const rng = rngFromSeed(seed);
       const {
         color = 'white',
         difficulty = 'medium',
+        elo,
         fen,
+        opening,
+        pgn,
       } = options;
 
+      if ([fen, opening, pgn].filter(Boolean).length > 1) {
+        throw new Error('Use only one of fen, opening and pgn');
+      }
+
       const playerColor: PlayerColor =
         color === 'random'
-          ? Math.random() < 0.5 ? 'white' : 'black'
+          ? rng.chance(0.5) ? 'white' : 'black'
           : color;
 
       const chess = fen ? new Chess(fen) : new Chess();
+      if (pgn) {
+        try {
+          chess.loadPgn(pgn.trim());
+        } catch (error) {
+          throw new Error(`Invalid PGN: ${error instanceof Error ? error.message : 'could not parse'}`);
+        }
+      } else if (opening) {
+        const book = findOpening(opening);
+        if (!book) throw new Error(`Unknown opening: ${opening}`);
+        for (const san of book.moves) chess.move(san);
+      }
+
+      const history = chess.history();
+      const classified = classifyOpening(history, chess.getHeaders().FEN);
 
       return {
-        gameId: generateGameId(),
-        status: 'playing',
-        turn: chess.turn() === 'w' ? 'player' : 'opponent',
-        moveCount: 0,
+        gameId: generateGameId(rng),
+        rngState: rng.state,
+        status: this.computeStatus(chess, playerColor),
+        turn: (chess.turn() === 'w') === (playerColor === 'white') ? 'player' : 'opponent',
+        moveCount: history.length,
         fen: chess.fen(),
         pgn: chess.pgn(),
         playerColor,
         difficulty,
+        ...(typeof elo === 'number' && { elo: strengthForElo(elo).elo }),
+        ...(history.length > 0 && { lastMove: history[history.length - 1] }),
         inCheck: chess.isCheck(),
+        ...(classified && { opening: { eco: classified.eco, name: classified.name } }),
       };
     },
 
@@ -132,7 +187,7 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
     },
 
     makeMove(state: ChessState, move: ChessMove): MoveResult<ChessState> {
-      const chess = new Chess(state.fen);
+      const chess = loadChess(state);
 
       // Check turn
       const isPlayerTurn = (chess.turn() === 'w') === (state.playerColor === 'white');
@@ -156,6 +211,12 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
           };
         }
 
+        // Classification only changes while the game can still be in book
+        const history = chess.history();
+        const classified = history.length <= MAX_BOOK_PLY
+          ? classifyOpening(history, chess.getHeaders().FEN)
+          : null;
+
         const newState: ChessState = {
           ...state,
           fen: chess.fen(),
@@ -168,6 +229,7 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
             ? (state.playerColor === 'white' ? 'player' : 'opponent')
             : (state.playerColor === 'black' ? 'player' : 'opponent'),
           status: this.computeStatus(chess, state.playerColor),
+          ...(classified && { opening: { eco: classified.eco, name: classified.name } }),
         };
 
         const gameResult = this.isGameOver(newState) ? this.getResult(newState) : undefined;
@@ -188,49 +250,43 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
 
     getAIMove(state: ChessState, difficulty?: Difficulty): ChessMove | null {
       const chess = new Chess(state.fen);
-      const moves = chess.moves({ verbose: true });
-
-      if (moves.length === 0) return null;
-
-      const diff = difficulty ?? state.difficulty;
-
-      // AI strategy based on difficulty
-      switch (diff) {
-        case 'easy':
-          // Random moves
-          return { san: moves[Math.floor(Math.random() * moves.length)].san };
-
-        case 'medium':
-          // Prefer captures and checks
-          const goodMoves = moves.filter(
-            m => m.captured || m.san.includes('+')
-          );
-          const pool = goodMoves.length > 0 ? goodMoves : moves;
-          return { san: pool[Math.floor(Math.random() * pool.length)].san };
-
-        case 'hard':
-          // TODO: Integrate Stockfish WASM for real analysis
-          // For now, use medium strategy with some positional awareness
-          const scoredMoves = moves.map(m => ({
-            move: m,
-            score: this.evaluateMove(chess, m),
-          }));
-          scoredMoves.sort((a, b) => b.score - a.score);
-
-          // Add some randomness to top moves
-          const topMoves = scoredMoves.slice(0, Math.min(3, scoredMoves.length));
-          const selected = topMoves[Math.floor(Math.random() * topMoves.length)];
-          return { san: selected.move.san };
+      if (chess.moves().length === 0) return null;
+
+      // Derived from the state without advancing it (AI is pure)
+      const rng = positionRng(state, state.fen);
+
+      // Opening book first
+      const book = getBookMoves(state.fen);
+      if (book.length > 0) {
+        return { san: book[rng.int(book.length)] };
       }
+
+      // An explicit difficulty overrides the game's configured strength
+      const elo = difficulty
+        ? DIFFICULTY_ELO[difficulty]
+        : state.elo ?? DIFFICULTY_ELO[state.difficulty];
+
+      const { move } = searchPosition(state.fen, {
+        ...strengthForElo(elo),
+        seed: rng.int(0x7fffffff),
+      });
+      if (!move) return null;
+
+      const result = chess.move({
+        from: move.slice(0, 2),
+        to: move.slice(2, 4),
+        promotion: move[4],
+      });
+      return { san: result.san };
     },
 
     isGameOver(state: ChessState): boolean {
-      const chess = new Chess(state.fen);
+      const chess = loadChess(state);
       return chess.isGameOver();
     },
 
     getResult(state: ChessState): GameResult | null {
-      const chess = new Chess(state.fen);
+      const chess = loadChess(state);
 
       if (!chess.isGameOver()) return null;
 
@@ -287,7 +343,11 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
 
       text += `Turn: ${chess.turn() === 'w' ? 'White' : 'Black'}\n`;
       text += `Your color: ${state.playerColor}\n`;
-      text += `Moves: ${state.moveCount}\n\n`;
+      text += `Moves: ${state.moveCount}\n`;
+      if (state.opening) {
+        text += `Opening: ${state.opening.eco} ${state.opening.name}\n`;
+      }
+      text += '\n';
       text += chess.ascii();
 
       if (state.inCheck && !chess.isGameOver()) {
@@ -327,8 +387,10 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
         extra: {
           playerColor: state.playerColor,
           difficulty: state.difficulty,
+          elo: state.elo ?? DIFFICULTY_ELO[state.difficulty],
           inCheck: state.inCheck,
           pgn: state.pgn,
+          opening: state.opening ?? null,
         },
       };
     },
@@ -358,34 +420,6 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
       return 'draw';
     },
 
-    evaluateMove(chess: Chess, move: ChessJsMove): number {
-      let score = 0;
-
-      // Captures
-      if (move.captured) {
-        const pieceValues: Record<string, number> = {
-          p: 1, n: 3, b: 3, r: 5, q: 9, k: 0,
-        };
-        score += pieceValues[move.captured] * 10;
-      }
-
-      // Checks
-      if (move.san.includes('+')) score += 5;
-      if (move.san.includes('#')) score += 1000;
-
-      // Center control
-      const centerSquares = ['d4', 'd5', 'e4', 'e5'];
-      if (centerSquares.includes(move.to)) score += 2;
-
-      // Development (early game)
-      if (chess.history().length < 10) {
-        if (['n', 'b'].includes(move.piece)) score += 1;
-        if (move.flags.includes('k') || move.flags.includes('q')) score += 3; // Castling
-      }
-
-      return score;
-    },
-
     getBoardArray(chess: Chess): (string | null)[][] {
       const board = chess.board();
       return board.map(row =>
@@ -396,7 +430,6 @@ function createChessEngine(): GameEngine<ChessState, ChessMove, ChessOptions> {
     },
   } as GameEngine<ChessState, ChessMove, ChessOptions> & {
     computeStatus: (chess: Chess, playerColor: PlayerColor) => ChessState['status'];
-    evaluateMove: (chess: Chess, move: ChessJsMove) => number;
     getBoardArray: (chess: Chess) => (string | null)[][];
   };
 }
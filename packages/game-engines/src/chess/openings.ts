@@ -0,0 +1,286 @@
+/**
+ * Chess Opening Book
+ *
+ * Embedded ECO classification of common openings. Lines are indexed by
+ * position, so transpositions are recognised:
+ * - classifyOpening: the most specific named opening a game passed through
+ * - getBookMoves: moves that stay on a book line (used by the AI)
+ * - findOpening: look up an opening by ECO code or name to start from it
+ */
+
+import { Chess } from 'chess.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChessOpening {
+  /** ECO code (e.g. "C60") */
+  eco: string;
+  name: string;
+  /** Moves from the standard start, in SAN */
+  moves: string[];
+}
+
+export interface OpeningMatch {
+  eco: string;
+  name: string;
+  /** Half-move after which the opening was identified (1-based) */
+  ply: number;
+}
+
+// =============================================================================
+// Book
+// =============================================================================
+
+const BOOK: [eco: string, name: string, moves: string][] = [
+  // Flank openings
+  ['A00', 'Polish Opening', 'b4'],
+  ['A00', 'Grob Opening', 'g4'],
+  ['A01', 'Nimzo-Larsen Attack', 'b3'],
+  ['A02', "Bird's Opening", 'f4'],
+  ['A04', 'Zukertort Opening', 'Nf3'],
+  ['A06', 'Zukertort Opening: Queen Pawn Defense', 'Nf3 d5'],
+  ['A07', "King's Indian Attack", 'Nf3 d5 g3'],
+  ['A10', 'English Opening', 'c4'],
+  ['A13', 'English Opening: Agincourt Defense', 'c4 e6'],
+  ['A15', 'English Opening: Anglo-Indian Defense', 'c4 Nf6'],
+  ['A20', "English Opening: King's English Variation", 'c4 e5'],
+  ['A30', 'English Opening: Symmetrical Variation', 'c4 c5'],
+
+  // Queen's pawn: Indian and other defenses
+  ['A40', "Queen's Pawn Game", 'd4'],
+  ['A43', 'Old Benoni Defense', 'd4 c5'],
+  ['A45', 'Indian Defense', 'd4 Nf6'],
+  ['A51', 'Budapest Defense', 'd4 Nf6 c4 e5'],
+  ['A52', 'Budapest Gambit', 'd4 Nf6 c4 e5 dxe5 Ng4'],
+  ['A56', 'Benoni Defense', 'd4 Nf6 c4 c5'],
+  ['A57', 'Benko Gambit', 'd4 Nf6 c4 c5 d5 b5'],
+  ['A60', 'Modern Benoni', 'd4 Nf6 c4 c5 d5 e6'],
+  ['A80', 'Dutch Defense', 'd4 f5'],
+  ['A86', 'Dutch Defense: Leningrad Variation', 'd4 f5 c4 Nf6 g3 g6'],
+  ['A90', 'Dutch Defense: Stonewall Variation', 'd4 f5 c4 Nf6 g3 e6 Bg2 d5'],
+
+  // Semi-open games
+  ['B00', 'Nimzowitsch Defense', 'e4 Nc6'],
+  ['B00', "Owen's Defense", 'e4 b6'],
+  ['B01', 'Scandinavian Defense', 'e4 d5'],
+  ['B01', 'Scandinavian Defense: Main Line', 'e4 d5 exd5 Qxd5 Nc3 Qa5'],
+  ['B01', 'Scandinavian Defense: Modern Variation', 'e4 d5 exd5 Nf6'],
+  ['B02', "Alekhine's Defense", 'e4 Nf6'],
+  ['B03', "Alekhine's Defense: Four Pawns Attack", 'e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4'],
+  ['B06', 'Modern Defense', 'e4 g6'],
+  ['B07', 'Pirc Defense', 'e4 d6 d4 Nf6'],
+  ['B09', 'Pirc Defense: Austrian Attack', 'e4 d6 d4 Nf6 Nc3 g6 f4'],
+  ['B10', 'Caro-Kann Defense', 'e4 c6'],
+  ['B12', 'Caro-Kann Defense: Advance Variation', 'e4 c6 d4 d5 e5'],
+  ['B13', 'Caro-Kann Defense: Exchange Variation', 'e4 c6 d4 d5 exd5 cxd5'],
+  ['B13', 'Caro-Kann Defense: Panov Attack', 'e4 c6 d4 d5 exd5 cxd5 c4'],
+  ['B15', 'Caro-Kann Defense', 'e4 c6 d4 d5 Nc3'],
+  ['B18', 'Caro-Kann Defense: Classical Variation', 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5'],
+
+  // Sicilian
+  ['B20', 'Sicilian Defense', 'e4 c5'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit', 'e4 c5 d4 cxd4 c3'],
+  ['B22', 'Sicilian Defense: Alapin Variation', 'e4 c5 c3'],
+  ['B23', 'Sicilian Defense: Closed', 'e4 c5 Nc3'],
+  ['B30', 'Sicilian Defense: Old Sicilian', 'e4 c5 Nf3 Nc6'],
+  ['B30', 'Sicilian Defense: Rossolimo Attack', 'e4 c5 Nf3 Nc6 Bb5'],
+  ['B33', 'Sicilian Defense: Sveshnikov Variation', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5'],
+  ['B34', 'Sicilian Defense: Accelerated Dragon', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6'],
+  ['B40', 'Sicilian Defense: French Variation', 'e4 c5 Nf3 e6'],
+  ['B41', 'Sicilian Defense: Kan Variation', 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6'],
+  ['B44', 'Sicilian Defense: Taimanov Variation', 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6'],
+  ['B50', 'Sicilian Defense: Modern Variations', 'e4 c5 Nf3 d6'],
+  ['B51', 'Sicilian Defense: Moscow Variation', 'e4 c5 Nf3 d6 Bb5+'],
+  ['B70', 'Sicilian Defense: Dragon Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6'],
+  ['B76', 'Sicilian Defense: Dragon Variation, Yugoslav Attack', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3'],
+  ['B80', 'Sicilian Defense: Scheveningen Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6'],
+  ['B90', 'Sicilian Defense: Najdorf Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'],
+  ['B90', 'Sicilian Defense: Najdorf Variation, English Attack', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3'],
+
+  // French
+  ['C00', 'French Defense', 'e4 e6'],
+  ['C01', 'French Defense: Exchange Variation', 'e4 e6 d4 d5 exd5'],
+  ['C02', 'French Defense: Advance Variation', 'e4 e6 d4 d5 e5'],
+  ['C03', 'French Defense: Tarrasch Variation', 'e4 e6 d4 d5 Nd2'],
+  ['C10', 'French Defense: Paulsen Variation', 'e4 e6 d4 d5 Nc3'],
+  ['C10', 'French Defense: Rubinstein Variation', 'e4 e6 d4 d5 Nc3 dxe4'],
+  ['C11', 'French Defense: Classical Variation', 'e4 e6 d4 d5 Nc3 Nf6'],
+  ['C15', 'French Defense: Winawer Variation', 'e4 e6 d4 d5 Nc3 Bb4'],
+
+  // Open games
+  ['C20', "King's Pawn Game", 'e4 e5'],
+  ['C21', 'Center Game', 'e4 e5 d4 exd4'],
+  ['C21', 'Danish Gambit', 'e4 e5 d4 exd4 c3'],
+  ['C23', "Bishop's Opening", 'e4 e5 Bc4'],
+  ['C25', 'Vienna Game', 'e4 e5 Nc3'],
+  ['C29', 'Vienna Gambit', 'e4 e5 Nc3 Nf6 f4'],
+  ['C30', "King's Gambit", 'e4 e5 f4'],
+  ['C31', "King's Gambit Declined: Falkbeer Countergambit", 'e4 e5 f4 d5'],
+  ['C33', "King's Gambit Accepted", 'e4 e5 f4 exf4'],
+  ['C40', "King's Knight Opening", 'e4 e5 Nf3'],
+  ['C40', 'Latvian Gambit', 'e4 e5 Nf3 f5'],
+  ['C41', 'Philidor Defense', 'e4 e5 Nf3 d6'],
+  ['C42', "Petrov's Defense", 'e4 e5 Nf3 Nf6'],
+  ['C44', "King's Knight Opening: Normal Variation", 'e4 e5 Nf3 Nc6'],
+  ['C44', 'Ponziani Opening', 'e4 e5 Nf3 Nc6 c3'],
+  ['C44', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4'],
+  ['C45', 'Scotch Game: Main Line', 'e4 e5 Nf3 Nc6 d4 exd4 Nxd4'],
+  ['C46', 'Three Knights Opening', 'e4 e5 Nf3 Nc6 Nc3'],
+  ['C47', 'Four Knights Game', 'e4 e5 Nf3 Nc6 Nc3 Nf6'],
+  ['C48', 'Four Knights Game: Spanish Variation', 'e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5'],
+  ['C50', 'Italian Game', 'e4 e5 Nf3 Nc6 Bc4'],
+  ['C50', 'Italian Game: Giuoco Piano', 'e4 e5 Nf3 Nc6 Bc4 Bc5'],
+  ['C51', 'Evans Gambit', 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4'],
+  ['C53', 'Italian Game: Classical Variation', 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3'],
+  ['C55', 'Italian Game: Two Knights Defense', 'e4 e5 Nf3 Nc6 Bc4 Nf6'],
+  ['C57', 'Italian Game: Two Knights Defense, Knight Attack', 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5'],
+  ['C57', 'Italian Game: Two Knights Defense, Fried Liver Attack', 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7'],
+
+  // Ruy Lopez
+  ['C60', 'Ruy Lopez', 'e4 e5 Nf3 Nc6 Bb5'],
+  ['C65', 'Ruy Lopez: Berlin Defense', 'e4 e5 Nf3 Nc6 Bb5 Nf6'],
+  ['C68', 'Ruy Lopez: Exchange Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6'],
+  ['C70', 'Ruy Lopez: Morphy Defense', 'e4 e5 Nf3 Nc6 Bb5 a6'],
+  ['C78', 'Ruy Lopez: Morphy Defense, Main Line', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O'],
+  ['C80', 'Ruy Lopez: Open Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4'],
+  ['C84', 'Ruy Lopez: Closed Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7'],
+  ['C89', 'Ruy Lopez: Marshall Attack', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5'],
+
+  // Closed games
+  ['D00', "Queen's Pawn Game", 'd4 d5'],
+  ['D00', "Queen's Pawn Game: Accelerated London System", 'd4 d5 Bf4'],
+  ['D00', 'Blackmar-Diemer Gambit', 'd4 d5 e4'],
+  ['D02', 'London System', 'd4 d5 Nf3 Nf6 Bf4'],
+  ['D04', 'Colle System', 'd4 d5 Nf3 Nf6 e3'],
+  ['D06', "Queen's Gambit", 'd4 d5 c4'],
+  ['D07', "Queen's Gambit Declined: Chigorin Defense", 'd4 d5 c4 Nc6'],
+  ['D08', "Queen's Gambit Declined: Albin Countergambit", 'd4 d5 c4 e5'],
+  ['D10', 'Slav Defense', 'd4 d5 c4 c6'],
+  ['D20', "Queen's Gambit Accepted", 'd4 d5 c4 dxc4'],
+  ['D30', "Queen's Gambit Declined", 'd4 d5 c4 e6'],
+  ['D31', "Queen's Gambit Declined: Queen's Knight Variation", 'd4 d5 c4 e6 Nc3'],
+  ['D32', 'Tarrasch Defense', 'd4 d5 c4 e6 Nc3 c5'],
+  ['D35', "Queen's Gambit Declined: Exchange Variation", 'd4 d5 c4 e6 Nc3 Nf6 cxd5'],
+  ['D43', 'Semi-Slav Defense', 'd4 d5 c4 c6 Nf3 Nf6 Nc3 e6'],
+  ['D80', 'Grünfeld Defense', 'd4 Nf6 c4 g6 Nc3 d5'],
+  ['D85', 'Grünfeld Defense: Exchange Variation', 'd4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5'],
+
+  // Indian systems
+  ['E01', 'Catalan Opening', 'd4 Nf6 c4 e6 g3'],
+  ['E11', 'Bogo-Indian Defense', 'd4 Nf6 c4 e6 Nf3 Bb4+'],
+  ['E12', "Queen's Indian Defense", 'd4 Nf6 c4 e6 Nf3 b6'],
+  ['E20', 'Nimzo-Indian Defense', 'd4 Nf6 c4 e6 Nc3 Bb4'],
+  ['E32', 'Nimzo-Indian Defense: Classical Variation', 'd4 Nf6 c4 e6 Nc3 Bb4 Qc2'],
+  ['E40', 'Nimzo-Indian Defense: Rubinstein Variation', 'd4 Nf6 c4 e6 Nc3 Bb4 e3'],
+  ['E60', "King's Indian Defense", 'd4 Nf6 c4 g6'],
+  ['E70', "King's Indian Defense: Normal Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6'],
+  ['E76', "King's Indian Defense: Four Pawns Attack", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f4'],
+  ['E80', "King's Indian Defense: Sämisch Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3'],
+  ['E90', "King's Indian Defense: Main Line", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3'],
+  ['E92', "King's Indian Defense: Classical Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5'],
+  ['E97', "King's Indian Defense: Mar del Plata Variation", 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7'],
+];
+
+export const CHESS_OPENINGS: ChessOpening[] = BOOK.map(([eco, name, moves]) => ({
+  eco,
+  name,
+  moves: moves.split(' '),
+}));
+
+/** Longest book line, in half-moves; classification stops after it */
+export const MAX_BOOK_PLY = Math.max(...CHESS_OPENINGS.map(o => o.moves.length));
+
+// =============================================================================
+// Position Index
+// =============================================================================
+
+interface BookIndex {
+  /** Named opening reached at a position */
+  named: Map<string, ChessOpening>;
+  /** Book moves from a position */
+  continuations: Map<string, Set<string>>;
+}
+
+let index: BookIndex | null = null;
+
+/** Built on first use: every book line is played out once */
+function getIndex(): BookIndex {
+  if (index) return index;
+
+  const named = new Map<string, ChessOpening>();
+  const continuations = new Map<string, Set<string>>();
+
+  for (const opening of CHESS_OPENINGS) {
+    const chess = new Chess();
+    for (const san of opening.moves) {
+      const key = positionKey(chess.fen());
+      const move = chess.move(san);
+      const moves = continuations.get(key) ?? new Set<string>();
+      moves.add(move.san);
+      continuations.set(key, moves);
+    }
+    named.set(positionKey(chess.fen()), opening);
+  }
+
+  index = { named, continuations };
+  return index;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * The most specific named opening reached by a sequence of SAN moves
+ */
+export function classifyOpening(moves: string[], startFen?: string): OpeningMatch | null {
+  const { named } = getIndex();
+  const chess = startFen ? new Chess(startFen) : new Chess();
+  let match: OpeningMatch | null = null;
+
+  for (let i = 0; i < Math.min(moves.length, MAX_BOOK_PLY); i++) {
+    try {
+      chess.move(moves[i]);
+    } catch {
+      break;
+    }
+    const opening = named.get(positionKey(chess.fen()));
+    if (opening) match = { eco: opening.eco, name: opening.name, ply: i + 1 };
+  }
+
+  return match;
+}
+
+/**
+ * Book moves (SAN) from a position; empty when out of book
+ */
+export function getBookMoves(fen: string): string[] {
+  return [...(getIndex().continuations.get(positionKey(fen)) ?? [])];
+}
+
+/**
+ * Find an opening by ECO code ("C60") or name ("Ruy Lopez", case-insensitive)
+ *
+ * An ECO code matches its first (most general) line.
+ */
+export function findOpening(query: string): ChessOpening | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return null;
+  return (
+    CHESS_OPENINGS.find(o => o.eco.toLowerCase() === q) ??
+    CHESS_OPENINGS.find(o => o.name.toLowerCase() === q) ??
+    CHESS_OPENINGS.find(o => o.name.toLowerCase().startsWith(q)) ??
+    null
+  );
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** FEN without the move clocks */
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
@@ -0,0 +1,232 @@
+/**
+ * Chess PGN Import / Export
+ *
+ * - exportPgn: a game as annotated PGN (Seven Tag Roster, ECO/Opening tags,
+ *   the opening named after its last book move, the termination at the end)
+ * - movesToPgn: the same for a bare SAN move list (e.g. a stored replay)
+ * - importPgn: headers, moves and final position of a PGN game
+ */
+
+import { Chess } from 'chess.js';
+import { classifyOpening } from './openings';
+import type { ChessState } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+/** PGN tag pairs; missing Seven Tag Roster tags get placeholders */
+export type PgnHeaders = Record<string, string | undefined>;
+
+export interface ImportedPgn {
+  headers: Record<string, string>;
+  /** Moves in SAN */
+  moves: string[];
+  /** Custom starting position (SetUp/FEN tags), if any */
+  startFen?: string;
+  /** Final position */
+  fen: string;
+  result: PgnResult;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  Event: 'MCP Challenge',
+  Site: 'https://mcpchallenge.org',
+  Date: '????.??.??',
+  Round: '-',
+  White: '?',
+  Black: '?',
+};
+
+const PGN_RESULTS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+/** PGN export format line limit */
+const MAX_LINE_LENGTH = 79;
+
+/** Tags rebuilt on every export */
+const COMPUTED_TAGS = ['SetUp', 'FEN', 'Result', 'ECO', 'Opening'];
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Rebuild a game with its full move history
+ *
+ * Falls back to the bare position when the stored PGN does not lead to it.
+ */
+export function loadChess(state: Pick<ChessState, 'fen' | 'pgn'>): Chess {
+  if (state.pgn) {
+    const chess = new Chess();
+    try {
+      chess.loadPgn(state.pgn);
+      if (chess.fen() === state.fen) return chess;
+    } catch {
+      // Fall through to the position
+    }
+  }
+  return new Chess(state.fen);
+}
+
+/**
+ * PGN result of a game; resignations count for the side still playing
+ */
+export function pgnResult(state: Pick<ChessState, 'status' | 'playerColor'>): PgnResult {
+  switch (state.status) {
+    case 'draw':
+      return '1/2-1/2';
+    case 'won':
+      return state.playerColor === 'white' ? '1-0' : '0-1';
+    case 'lost':
+      return state.playerColor === 'white' ? '0-1' : '1-0';
+    default:
+      return '*';
+  }
+}
+
+/**
+ * Export a game as annotated PGN; a Result header overrides the state's result
+ */
+export function exportPgn(
+  state: Pick<ChessState, 'fen' | 'pgn' | 'status' | 'playerColor'>,
+  headers: PgnHeaders = {}
+): string {
+  const chess = loadChess(state);
+  const setup = chess.getHeaders();
+  const result = (headers.Result as PgnResult | undefined) ?? pgnResult(state);
+
+  // Keep tags carried over from an imported game, minus the placeholders
+  const stored = Object.fromEntries(
+    Object.entries(setup).filter(([key, value]) => !COMPUTED_TAGS.includes(key) && !/^[?.\s]*$/.test(value))
+  );
+
+  return buildPgn(
+    chess.history(),
+    { ...stored, Result: result, ...headers },
+    setup.SetUp === '1' ? setup.FEN : undefined,
+    terminationComment(chess, result)
+  );
+}
+
+/**
+ * Export a SAN move list as annotated PGN
+ */
+export function movesToPgn(moves: string[], headers: PgnHeaders = {}, startFen?: string): string {
+  const chess = startFen ? new Chess(startFen) : new Chess();
+  for (const san of moves) chess.move(san);
+
+  const result = (headers.Result as PgnResult | undefined) ?? gameResult(chess);
+  return buildPgn(moves, { ...headers, Result: result }, startFen, terminationComment(chess, result));
+}
+
+/**
+ * Parse a single PGN game; throws on illegal moves or malformed text
+ */
+export function importPgn(pgn: string): ImportedPgn {
+  const chess = new Chess();
+  try {
+    chess.loadPgn(pgn.trim());
+  } catch (error) {
+    throw new Error(`Invalid PGN: ${error instanceof Error ? error.message : 'could not parse'}`);
+  }
+
+  const headers = chess.getHeaders();
+  const moves = chess.history();
+  if (moves.length === 0 && headers.SetUp !== '1') {
+    throw new Error('Invalid PGN: no moves');
+  }
+
+  const result = PGN_RESULTS.includes(headers.Result as PgnResult)
+    ? (headers.Result as PgnResult)
+    : gameResult(chess);
+
+  return {
+    headers,
+    moves,
+    ...(headers.SetUp === '1' && headers.FEN && { startFen: headers.FEN }),
+    fen: chess.fen(),
+    result,
+  };
+}
+
+/**
+ * PGN Date / UTCTime tag values for a timestamp
+ */
+export function pgnDateTime(timestamp: number): { date: string; time: string } {
+  const iso = new Date(timestamp).toISOString();
+  return {
+    date: iso.slice(0, 10).replace(/-/g, '.'),
+    time: iso.slice(11, 19),
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function buildPgn(moves: string[], headers: PgnHeaders, startFen: string | undefined, finalComment: string | null): string {
+  const chess = startFen ? new Chess(startFen) : new Chess();
+  const opening = classifyOpening(moves, startFen);
+
+  moves.forEach((san, i) => {
+    chess.move(san);
+    const comments = [
+      opening?.ply === i + 1 ? `${opening.eco} ${opening.name}` : null,
+      i === moves.length - 1 ? finalComment : null,
+    ].filter(Boolean);
+    if (comments.length > 0) chess.setComment(comments.join('. '));
+  });
+
+  const tags: PgnHeaders = {
+    ...DEFAULT_HEADERS,
+    ...(opening && { ECO: opening.eco, Opening: opening.name }),
+    ...headers,
+  };
+  for (const [key, value] of Object.entries(tags)) {
+    if (value !== undefined) chess.setHeader(key, value);
+  }
+
+  // chess.js drops spaces when its own maxWidth wraps inside a comment
+  const [tagSection, movetext] = chess.pgn().split('\n\n');
+  return `${tagSection}\n\n${wrapMovetext(movetext ?? '')}`;
+}
+
+/** Wrap movetext at whitespace to the PGN export line length */
+function wrapMovetext(movetext: string): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of movetext.split(' ')) {
+    if (line && line.length + 1 + word.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+function gameResult(chess: Chess): PgnResult {
+  if (chess.isCheckmate()) return chess.turn() === 'w' ? '0-1' : '1-0';
+  if (chess.isDraw() || chess.isStalemate()) return '1/2-1/2';
+  return '*';
+}
+
+function terminationComment(chess: Chess, result: PgnResult): string | null {
+  if (chess.isCheckmate()) return `Checkmate, ${chess.turn() === 'w' ? 'Black' : 'White'} wins`;
+  if (chess.isStalemate()) return 'Draw by stalemate';
+  if (chess.isThreefoldRepetition()) return 'Draw by threefold repetition';
+  if (chess.isInsufficientMaterial()) return 'Draw by insufficient material';
+  if (chess.isDrawByFiftyMoves()) return 'Draw by the fifty-move rule';
+  if (result === '1-0') return 'Black resigns';
+  if (result === '0-1') return 'White resigns';
+  if (result === '1/2-1/2') return 'Draw agreed';
+  return null;
+}
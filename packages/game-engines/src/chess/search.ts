@@ -0,0 +1,964 @@
+/**
+ * Chess Search
+ *
+ * Pure TypeScript alpha-beta search used for the chess AI (no WASM, runs in
+ * Workers). Uses its own 0x88 board for speed; chess.js stays the source of
+ * truth for rules and notation in the engine itself.
+ *
+ * - Evaluation: material + piece-square tables, tapered king tables
+ * - Search: iterative deepening negamax with alpha-beta, quiescence,
+ *   transposition table, check extension, MVV-LVA and killer move ordering
+ * - Budget: node limit (deterministic) plus a wall-clock safety limit
+ * - Strength: an ELO-like rating maps to depth, budget and evaluation noise
+ */
+
+import { createRng, hashSeed } from '../random';
+import type { Difficulty } from '../types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SearchLimits {
+  /** Maximum iterative deepening depth (plies) */
+  maxDepth: number;
+  /**
+   * Node budget, the limit that sets playing strength: no iteration starts
+   * once it is spent, and the search stops when it runs out mid-iteration
+   */
+  maxNodes: number;
+  /** Extra wall-clock limit in milliseconds (see strengthForElo) */
+  maxTimeMs?: number;
+}
+
+export interface SearchOptions extends SearchLimits {
+  /** Evaluation noise in centipawns (0 = full strength) */
+  noise?: number;
+  /** Seed for the evaluation noise */
+  seed?: number;
+}
+
+export interface SearchResult {
+  /** Best move in UCI notation (e.g. "e2e4", "e7e8q"), null if no legal move */
+  move: string | null;
+  /** Score in centipawns from the side to move's point of view */
+  score: number;
+  /** Deepest completed iteration */
+  depth: number;
+  /** Nodes searched (including quiescence) */
+  nodes: number;
+  /** Principal variation in UCI notation */
+  pv: string[];
+}
+
+export interface ChessStrength extends SearchLimits {
+  /** ELO-like rating the limits were derived from */
+  elo: number;
+  /** Evaluation noise in centipawns */
+  noise: number;
+}
+
+// =============================================================================
+// Strength
+// =============================================================================
+
+export const MIN_ELO = 400;
+export const MAX_ELO = 2400;
+
+/** Default rating for each AI difficulty */
+export const DIFFICULTY_ELO: Record<Difficulty, number> = {
+  easy: 800,
+  medium: 1400,
+  hard: 2000,
+};
+
+/**
+ * Map an ELO-like rating to search limits
+ *
+ * Weaker settings search shallower and add noise to the evaluation, so they
+ * misjudge positions and miss tactics rather than playing random moves.
+ *
+ * The node budget is what bounds each rating: it costs the same work on every
+ * host, so a rating plays the same moves for the same seed. The time limit
+ * only caps slow hosts. It cannot be relied on in a Cloudflare Worker, where
+ * Date.now() does not advance during synchronous CPU work, so a search there
+ * runs until its node budget is spent.
+ */
+export function strengthForElo(elo: number): ChessStrength {
+  const rating = Math.max(MIN_ELO, Math.min(MAX_ELO, Math.round(elo)));
+  const t = (rating - MIN_ELO) / (MAX_ELO - MIN_ELO);
+
+  return {
+    elo: rating,
+    maxDepth: 1 + Math.round(t * 7),
+    maxNodes: Math.round(2000 * Math.pow(2, t * 8)),
+    maxTimeMs: Math.round(200 + t * 1800),
+    noise: Math.max(0, Math.round((2200 - rating) / 4)),
+  };
+}
+
+// =============================================================================
+// Board Representation (0x88)
+// =============================================================================
+
+const WHITE = 0;
+const BLACK = 8;
+
+const PAWN = 1;
+const KNIGHT = 2;
+const BISHOP = 3;
+const ROOK = 4;
+const QUEEN = 5;
+const KING = 6;
+
+const FLAG_EP = 1;
+const FLAG_CASTLE = 2;
+const FLAG_DOUBLE = 4;
+
+const KNIGHT_OFFSETS = [33, 31, 18, 14, -33, -31, -18, -14];
+const BISHOP_OFFSETS = [17, 15, -17, -15];
+const ROOK_OFFSETS = [16, 1, -16, -1];
+const KING_OFFSETS = [...BISHOP_OFFSETS, ...ROOK_OFFSETS];
+
+const PIECE_CHARS = ' pnbrqk';
+
+// Castling rights: 1 = white king side, 2 = white queen side, 4/8 = black
+const CASTLE_MASK = new Int8Array(128).fill(15);
+CASTLE_MASK[0x00] = 15 & ~2;
+CASTLE_MASK[0x04] = 15 & ~3;
+CASTLE_MASK[0x07] = 15 & ~1;
+CASTLE_MASK[0x70] = 15 & ~8;
+CASTLE_MASK[0x74] = 15 & ~12;
+CASTLE_MASK[0x77] = 15 & ~4;
+
+function onBoard(sq: number): boolean {
+  return (sq & 0x88) === 0;
+}
+
+function squareName(sq: number): string {
+  return 'abcdefgh'[sq & 7] + ((sq >> 4) + 1);
+}
+
+// Moves are packed into a number: from | to << 7 | promotion << 14 | flags << 17
+function encodeMove(from: number, to: number, promotion = 0, flags = 0): number {
+  return from | (to << 7) | (promotion << 14) | (flags << 17);
+}
+
+const moveFrom = (m: number) => m & 0x7f;
+const moveTo = (m: number) => (m >> 7) & 0x7f;
+const movePromotion = (m: number) => (m >> 14) & 7;
+const moveFlags = (m: number) => (m >> 17) & 7;
+
+function moveToUci(m: number): string {
+  const promotion = movePromotion(m);
+  return squareName(moveFrom(m)) + squareName(moveTo(m)) + (promotion ? PIECE_CHARS[promotion] : '');
+}
+
+// Zobrist keys (two 32-bit halves to keep collisions negligible)
+const ZOBRIST = (() => {
+  const rng = createRng(hashSeed('chess-zobrist'));
+  const key = () => [rng.int(0x100000000) | 0, rng.int(0x100000000) | 0];
+  return {
+    pieces: Array.from({ length: 16 }, () => Array.from({ length: 128 }, key)),
+    castling: Array.from({ length: 16 }, key),
+    ep: Array.from({ length: 128 }, key),
+    side: key(),
+  };
+})();
+
+interface Undo {
+  move: number;
+  captured: number;
+  castling: number;
+  ep: number;
+  halfmove: number;
+  hash0: number;
+  hash1: number;
+}
+
+class Position {
+  board = new Int8Array(128);
+  side = WHITE;
+  castling = 0;
+  ep = -1;
+  halfmove = 0;
+  kings = [0, 0];
+  hash0 = 0;
+  hash1 = 0;
+  private undos: Undo[] = [];
+  private hashHistory: number[] = [];
+
+  static fromFen(fen: string): Position {
+    const pos = new Position();
+    const [placement, side, castling, ep, halfmove] = fen.trim().split(/\s+/);
+
+    const ranks = placement.split('/');
+    for (let r = 0; r < 8; r++) {
+      let file = 0;
+      for (const ch of ranks[r] ?? '') {
+        if (ch >= '1' && ch <= '8') {
+          file += Number(ch);
+          continue;
+        }
+        const type = PIECE_CHARS.indexOf(ch.toLowerCase());
+        if (type <= 0) throw new Error(`Invalid FEN piece: ${ch}`);
+        const color = ch === ch.toUpperCase() ? WHITE : BLACK;
+        const sq = (7 - r) * 16 + file;
+        pos.board[sq] = type | color;
+        if (type === KING) pos.kings[color >> 3] = sq;
+        file++;
+      }
+    }
+
+    pos.side = side === 'b' ? BLACK : WHITE;
+    for (const ch of castling ?? '-') {
+      pos.castling |= ch === 'K' ? 1 : ch === 'Q' ? 2 : ch === 'k' ? 4 : ch === 'q' ? 8 : 0;
+    }
+    if (ep && ep !== '-') {
+      pos.ep = (Number(ep[1]) - 1) * 16 + 'abcdefgh'.indexOf(ep[0]);
+    }
+    pos.halfmove = Number(halfmove) || 0;
+    pos.computeHash();
+    return pos;
+  }
+
+  private computeHash(): void {
+    let h0 = 0;
+    let h1 = 0;
+    for (let sq = 0; sq < 128; sq++) {
+      const piece = this.board[sq];
+      if (!onBoard(sq) || !piece) continue;
+      h0 ^= ZOBRIST.pieces[piece][sq][0];
+      h1 ^= ZOBRIST.pieces[piece][sq][1];
+    }
+    h0 ^= ZOBRIST.castling[this.castling][0];
+    h1 ^= ZOBRIST.castling[this.castling][1];
+    if (this.ep >= 0) {
+      h0 ^= ZOBRIST.ep[this.ep][0];
+      h1 ^= ZOBRIST.ep[this.ep][1];
+    }
+    if (this.side === BLACK) {
+      h0 ^= ZOBRIST.side[0];
+      h1 ^= ZOBRIST.side[1];
+    }
+    this.hash0 = h0;
+    this.hash1 = h1;
+  }
+
+  private toggle(piece: number, sq: number): void {
+    this.hash0 ^= ZOBRIST.pieces[piece][sq][0];
+    this.hash1 ^= ZOBRIST.pieces[piece][sq][1];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Attacks
+  // ---------------------------------------------------------------------------
+
+  isAttacked(sq: number, by: number): boolean {
+    const board = this.board;
+
+    // Pawns
+    const pawn = PAWN | by;
+    const back = by === WHITE ? -16 : 16;
+    if (onBoard(sq + back - 1) && board[sq + back - 1] === pawn) return true;
+    if (onBoard(sq + back + 1) && board[sq + back + 1] === pawn) return true;
+
+    for (const offset of KNIGHT_OFFSETS) {
+      const target = sq + offset;
+      if (onBoard(target) && board[target] === (KNIGHT | by)) return true;
+    }
+
+    for (const offset of KING_OFFSETS) {
+      const target = sq + offset;
+      if (onBoard(target) && board[target] === (KING | by)) return true;
+    }
+
+    for (const offset of BISHOP_OFFSETS) {
+      for (let target = sq + offset; onBoard(target); target += offset) {
+        const piece = board[target];
+        if (!piece) continue;
+        if (piece === (BISHOP | by) || piece === (QUEEN | by)) return true;
+        break;
+      }
+    }
+
+    for (const offset of ROOK_OFFSETS) {
+      for (let target = sq + offset; onBoard(target); target += offset) {
+        const piece = board[target];
+        if (!piece) continue;
+        if (piece === (ROOK | by) || piece === (QUEEN | by)) return true;
+        break;
+      }
+    }
+
+    return false;
+  }
+
+  inCheck(): boolean {
+    return this.isAttacked(this.kings[this.side >> 3], this.side ^ BLACK);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Move Generation (pseudo-legal; legality is checked after makeMove)
+  // ---------------------------------------------------------------------------
+
+  generateMoves(capturesOnly: boolean): number[] {
+    const moves: number[] = [];
+    const board = this.board;
+    const us = this.side;
+    const them = us ^ BLACK;
+
+    for (let from = 0; from < 128; from++) {
+      if (!onBoard(from)) {
+        from += 7;
+        continue;
+      }
+      const piece = board[from];
+      if (!piece || (piece & 8) !== us) continue;
+      const type = piece & 7;
+
+      if (type === PAWN) {
+        this.generatePawnMoves(moves, from, capturesOnly);
+        continue;
+      }
+
+      const offsets =
+        type === KNIGHT ? KNIGHT_OFFSETS
+          : type === BISHOP ? BISHOP_OFFSETS
+            : type === ROOK ? ROOK_OFFSETS
+              : KING_OFFSETS;
+      const slides = type === BISHOP || type === ROOK || type === QUEEN;
+
+      for (const offset of offsets) {
+        for (let to = from + offset; onBoard(to); to += offset) {
+          const target = board[to];
+          if (target) {
+            if ((target & 8) === them) moves.push(encodeMove(from, to));
+            break;
+          }
+          if (!capturesOnly) moves.push(encodeMove(from, to));
+          if (!slides) break;
+        }
+      }
+
+      if (type === KING && !capturesOnly) {
+        this.generateCastling(moves, from);
+      }
+    }
+
+    return moves;
+  }
+
+  private generatePawnMoves(moves: number[], from: number, capturesOnly: boolean): void {
+    const board = this.board;
+    const us = this.side;
+    const forward = us === WHITE ? 16 : -16;
+    const startRank = us === WHITE ? 1 : 6;
+    const lastRank = us === WHITE ? 7 : 0;
+
+    const push = (to: number, flags = 0) => {
+      if (to >> 4 === lastRank) {
+        for (const promotion of [QUEEN, KNIGHT, ROOK, BISHOP]) {
+          moves.push(encodeMove(from, to, promotion, flags));
+        }
+      } else {
+        moves.push(encodeMove(from, to, 0, flags));
+      }
+    };
+
+    // Pushes (promotions count as "captures" for quiescence)
+    const one = from + forward;
+    if (onBoard(one) && !board[one] && (!capturesOnly || one >> 4 === lastRank)) {
+      push(one);
+      const two = one + forward;
+      if (!capturesOnly && from >> 4 === startRank && !board[two]) {
+        moves.push(encodeMove(from, two, 0, FLAG_DOUBLE));
+      }
+    }
+
+    for (const side of [-1, 1]) {
+      const to = from + forward + side;
+      if (!onBoard(to)) continue;
+      const target = board[to];
+      if (target && (target & 8) !== us) {
+        push(to);
+      } else if (to === this.ep) {
+        moves.push(encodeMove(from, to, 0, FLAG_EP));
+      }
+    }
+  }
+
+  private generateCastling(moves: number[], from: number): void {
+    const board = this.board;
+    const them = this.side ^ BLACK;
+    const [kingSide, queenSide] = this.side === WHITE ? [1, 2] : [4, 8];
+
+    if (this.castling & kingSide && !board[from + 1] && !board[from + 2] &&
+        !this.isAttacked(from, them) && !this.isAttacked(from + 1, them) &&
+        !this.isAttacked(from + 2, them)) {
+      moves.push(encodeMove(from, from + 2, 0, FLAG_CASTLE));
+    }
+
+    if (this.castling & queenSide && !board[from - 1] && !board[from - 2] && !board[from - 3] &&
+        !this.isAttacked(from, them) && !this.isAttacked(from - 1, them) &&
+        !this.isAttacked(from - 2, them)) {
+      moves.push(encodeMove(from, from - 2, 0, FLAG_CASTLE));
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Make / Unmake
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Play a pseudo-legal move; returns false (and undoes it) if it leaves the
+   * mover's king in check
+   */
+  makeMove(m: number): boolean {
+    const board = this.board;
+    const from = moveFrom(m);
+    const to = moveTo(m);
+    const flags = moveFlags(m);
+    const promotion = movePromotion(m);
+    const us = this.side;
+    const piece = board[from];
+
+    let captured = board[to];
+    let capturedSq = to;
+    if (flags & FLAG_EP) {
+      capturedSq = to + (us === WHITE ? -16 : 16);
+      captured = board[capturedSq];
+    }
+
+    this.undos.push({
+      move: m,
+      captured,
+      castling: this.castling,
+      ep: this.ep,
+      halfmove: this.halfmove,
+      hash0: this.hash0,
+      hash1: this.hash1,
+    });
+    this.hashHistory.push(this.hash0);
+
+    if (captured) {
+      board[capturedSq] = 0;
+      this.toggle(captured, capturedSq);
+    }
+
+    const placed = promotion ? promotion | us : piece;
+    board[from] = 0;
+    board[to] = placed;
+    this.toggle(piece, from);
+    this.toggle(placed, to);
+
+    if (flags & FLAG_CASTLE) {
+      const [rookFrom, rookTo] = to > from ? [from + 3, from + 1] : [from - 4, from - 1];
+      const rook = board[rookFrom];
+      board[rookFrom] = 0;
+      board[rookTo] = rook;
+      this.toggle(rook, rookFrom);
+      this.toggle(rook, rookTo);
+    }
+
+    if ((piece & 7) === KING) this.kings[us >> 3] = to;
+
+    this.hash0 ^= ZOBRIST.castling[this.castling][0];
+    this.hash1 ^= ZOBRIST.castling[this.castling][1];
+    this.castling &= CASTLE_MASK[from] & CASTLE_MASK[to];
+    this.hash0 ^= ZOBRIST.castling[this.castling][0];
+    this.hash1 ^= ZOBRIST.castling[this.castling][1];
+
+    if (this.ep >= 0) {
+      this.hash0 ^= ZOBRIST.ep[this.ep][0];
+      this.hash1 ^= ZOBRIST.ep[this.ep][1];
+    }
+    this.ep = flags & FLAG_DOUBLE ? (from + to) >> 1 : -1;
+    if (this.ep >= 0) {
+      this.hash0 ^= ZOBRIST.ep[this.ep][0];
+      this.hash1 ^= ZOBRIST.ep[this.ep][1];
+    }
+
+    this.halfmove = (piece & 7) === PAWN || captured ? 0 : this.halfmove + 1;
+    this.side ^= BLACK;
+    this.hash0 ^= ZOBRIST.side[0];
+    this.hash1 ^= ZOBRIST.side[1];
+
+    if (this.isAttacked(this.kings[us >> 3], this.side)) {
+      this.unmakeMove();
+      return false;
+    }
+    return true;
+  }
+
+  unmakeMove(): void {
+    const undo = this.undos.pop();
+    if (!undo) return;
+    this.hashHistory.pop();
+
+    const board = this.board;
+    const m = undo.move;
+    const from = moveFrom(m);
+    const to = moveTo(m);
+    const flags = moveFlags(m);
+
+    this.side ^= BLACK;
+    const us = this.side;
+    const placed = board[to];
+    const piece = movePromotion(m) ? PAWN | us : placed;
+
+    board[from] = piece;
+    board[to] = 0;
+    if (undo.captured) {
+      const capturedSq = flags & FLAG_EP ? to + (us === WHITE ? -16 : 16) : to;
+      board[capturedSq] = undo.captured;
+    }
+
+    if (flags & FLAG_CASTLE) {
+      const [rookFrom, rookTo] = to > from ? [from + 3, from + 1] : [from - 4, from - 1];
+      board[rookFrom] = board[rookTo];
+      board[rookTo] = 0;
+    }
+
+    if ((piece & 7) === KING) this.kings[us >> 3] = from;
+
+    this.castling = undo.castling;
+    this.ep = undo.ep;
+    this.halfmove = undo.halfmove;
+    this.hash0 = undo.hash0;
+    this.hash1 = undo.hash1;
+  }
+
+  /** Same position seen earlier (since the last irreversible move) */
+  isRepetition(): boolean {
+    const history = this.hashHistory;
+    const stop = Math.max(0, history.length - this.halfmove);
+    for (let i = history.length - 2; i >= stop; i -= 2) {
+      if (history[i] === this.hash0) return true;
+    }
+    return false;
+  }
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 0];
+
+/** Game phase weight per piece type (24 = all minor and major pieces on) */
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0];
+
+// Piece-square tables from white's point of view, rank 8 first
+// (Simplified Evaluation Function, Tomasz Michniewski)
+const PST: Record<number, number[]> = {
+  [PAWN]: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0,
+  ],
+  [KNIGHT]: [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50,
+  ],
+  [BISHOP]: [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20,
+  ],
+  [ROOK]: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0,
+  ],
+  [QUEEN]: [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20,
+  ],
+};
+
+const KING_MIDDLEGAME = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+  20, 20, 0, 0, 0, 0, 20, 20,
+  20, 30, 10, 0, 0, 10, 30, 20,
+];
+
+const KING_ENDGAME = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10, 0, 0, -10, -20, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 30, 40, 40, 30, -10, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30,
+  -30, -30, 0, 0, 0, 0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50,
+];
+
+/**
+ * Static evaluation in centipawns from the side to move's point of view
+ */
+function evaluate(pos: Position): number {
+  const board = pos.board;
+  let score = 0;
+  let phase = 0;
+  let whiteBishops = 0;
+  let blackBishops = 0;
+  const kingIndex = [0, 0];
+
+  for (let sq = 0; sq < 128; sq++) {
+    if (!onBoard(sq)) {
+      sq += 7;
+      continue;
+    }
+    const piece = board[sq];
+    if (!piece) continue;
+
+    const type = piece & 7;
+    const white = (piece & 8) === WHITE;
+    // Table index: white reads rank 8 first, black is mirrored
+    const index = white ? (7 - (sq >> 4)) * 8 + (sq & 7) : (sq >> 4) * 8 + (sq & 7);
+
+    phase += PHASE_WEIGHTS[type];
+    if (type === KING) {
+      kingIndex[white ? 0 : 1] = index;
+      continue;
+    }
+    if (type === BISHOP) {
+      if (white) whiteBishops++;
+      else blackBishops++;
+    }
+
+    const value = PIECE_VALUES[type] + PST[type][index];
+    score += white ? value : -value;
+  }
+
+  // Taper the king tables between middlegame and endgame
+  const mg = Math.min(phase, 24);
+  const king = (index: number) => (KING_MIDDLEGAME[index] * mg + KING_ENDGAME[index] * (24 - mg)) / 24;
+  score += king(kingIndex[0]) - king(kingIndex[1]);
+
+  if (whiteBishops >= 2) score += 30;
+  if (blackBishops >= 2) score -= 30;
+
+  score = Math.round(score);
+  return pos.side === WHITE ? score : -score;
+}
+
+/**
+ * Static evaluation of a FEN in centipawns from white's point of view
+ */
+export function evaluateFen(fen: string): number {
+  const pos = Position.fromFen(fen);
+  const score = evaluate(pos);
+  return pos.side === WHITE ? score : -score;
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+const INFINITY = 1_000_000;
+const MATE = 100_000;
+const MAX_PLY = 64;
+const TT_MAX_ENTRIES = 1 << 18;
+
+/** Nodes between wall-clock checks */
+const TIME_CHECK_INTERVAL = 1024;
+
+type Bound = 'exact' | 'lower' | 'upper';
+
+interface TTEntry {
+  check: number;
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: number;
+}
+
+class Searcher {
+  nodes = 0;
+  stopped = false;
+  private deadline: number;
+  private tt = new Map<number, TTEntry>();
+  private killers: number[][] = Array.from({ length: MAX_PLY + 1 }, () => [0, 0]);
+  private rootBest = 0;
+
+  constructor(
+    private pos: Position,
+    private options: SearchOptions
+  ) {
+    this.deadline = options.maxTimeMs === undefined ? Infinity : Date.now() + options.maxTimeMs;
+  }
+
+  run(): SearchResult {
+    const rootMoves = this.pos.generateMoves(false).filter((m) => {
+      if (!this.pos.makeMove(m)) return false;
+      this.pos.unmakeMove();
+      return true;
+    });
+
+    if (rootMoves.length === 0) {
+      return {
+        move: null,
+        score: this.pos.inCheck() ? -MATE : 0,
+        depth: 0,
+        nodes: 0,
+        pv: [],
+      };
+    }
+
+    let bestMove = rootMoves[0];
+    let bestScore = 0;
+    let completedDepth = 0;
+
+    for (let depth = 1; depth <= this.options.maxDepth; depth++) {
+      this.rootBest = 0;
+      const score = this.search(depth, -INFINITY, INFINITY, 0);
+      if (this.stopped) break;
+
+      bestMove = this.rootBest || bestMove;
+      bestScore = score;
+      completedDepth = depth;
+
+      // Forced mate found, or the budget will not allow another iteration
+      if (Math.abs(score) > MATE - MAX_PLY || this.nodes >= this.options.maxNodes) break;
+    }
+
+    return {
+      move: moveToUci(bestMove),
+      score: bestScore,
+      depth: completedDepth,
+      nodes: this.nodes,
+      pv: this.principalVariation(bestMove),
+    };
+  }
+
+  private search(depth: number, alpha: number, beta: number, ply: number): number {
+    const pos = this.pos;
+
+    if (ply > 0 && (pos.halfmove >= 100 || pos.isRepetition())) return 0;
+
+    const inCheck = pos.inCheck();
+    if (inCheck && ply < MAX_PLY) depth++;
+    if (depth <= 0 || ply >= MAX_PLY) return this.quiesce(alpha, beta, ply);
+
+    if (this.tick()) return 0;
+
+    const entry = this.probe();
+    let ttMove = 0;
+    if (entry) {
+      ttMove = entry.move;
+      if (ply > 0 && entry.depth >= depth) {
+        const score = fromTT(entry.score, ply);
+        if (entry.bound === 'exact') return score;
+        if (entry.bound === 'lower' && score >= beta) return score;
+        if (entry.bound === 'upper' && score <= alpha) return score;
+      }
+    }
+
+    const moves = this.orderMoves(pos.generateMoves(false), ttMove, ply);
+    const originalAlpha = alpha;
+    let bestScore = -INFINITY;
+    let bestMove = 0;
+    let legal = 0;
+
+    for (const m of moves) {
+      if (!pos.makeMove(m)) continue;
+      legal++;
+      const score = -this.search(depth - 1, -beta, -alpha, ply + 1);
+      pos.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = m;
+        if (score > alpha) {
+          alpha = score;
+          if (ply === 0) this.rootBest = m;
+          if (alpha >= beta) {
+            if (!this.isCapture(m)) this.storeKiller(m, ply);
+            break;
+          }
+        }
+      }
+    }
+
+    if (legal === 0) return inCheck ? -MATE + ply : 0;
+
+    const bound = bestScore >= beta ? 'lower' : bestScore > originalAlpha ? 'exact' : 'upper';
+    this.store(depth, toTT(bestScore, ply), bound, bestMove);
+    return bestScore;
+  }
+
+  private quiesce(alpha: number, beta: number, ply: number): number {
+    if (this.tick()) return 0;
+
+    const standPat = this.evaluate();
+    if (standPat >= beta || ply >= MAX_PLY) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const pos = this.pos;
+    for (const m of this.orderMoves(pos.generateMoves(true), 0, ply)) {
+      if (!pos.makeMove(m)) continue;
+      const score = -this.quiesce(-beta, -alpha, ply + 1);
+      pos.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    return alpha;
+  }
+
+  private evaluate(): number {
+    const score = evaluate(this.pos);
+    const noise = this.options.noise ?? 0;
+    if (noise <= 0) return score;
+
+    // Deterministic per position and seed, so a search is reproducible
+    let h = Math.imul(this.pos.hash0 ^ (this.options.seed ?? 0), 0x9e3779b1);
+    h ^= h >>> 15;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    return score + ((h >>> 0) % (2 * noise + 1)) - noise;
+  }
+
+  /** Count a node; returns true once the budget is exhausted */
+  private tick(): boolean {
+    this.nodes++;
+    // Node counts are the same on every host, so the node budget keeps the
+    // result deterministic; the time limit only stops early on slow hosts
+    if (this.nodes >= this.options.maxNodes) {
+      this.stopped = true;
+    } else if (this.nodes % TIME_CHECK_INTERVAL === 0 && Date.now() > this.deadline) {
+      this.stopped = true;
+    }
+    return this.stopped;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Move Ordering
+  // ---------------------------------------------------------------------------
+
+  private isCapture(m: number): boolean {
+    return this.pos.board[moveTo(m)] !== 0 || (moveFlags(m) & FLAG_EP) !== 0;
+  }
+
+  private orderMoves(moves: number[], ttMove: number, ply: number): number[] {
+    const board = this.pos.board;
+    const [killer1, killer2] = this.killers[ply];
+
+    const scored = moves.map((m) => {
+      let score = 0;
+      if (m === ttMove) {
+        score = 1_000_000;
+      } else if (this.isCapture(m)) {
+        // MVV-LVA: most valuable victim, least valuable attacker
+        const victim = moveFlags(m) & FLAG_EP ? PAWN : board[moveTo(m)] & 7;
+        score = 100_000 + PIECE_VALUES[victim] * 10 - PIECE_VALUES[board[moveFrom(m)] & 7] / 10;
+      } else if (m === killer1) {
+        score = 90_000;
+      } else if (m === killer2) {
+        score = 80_000;
+      }
+      if (movePromotion(m)) score += PIECE_VALUES[movePromotion(m)] * 10;
+      return { m, score };
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+    return scored.map((s) => s.m);
+  }
+
+  private storeKiller(m: number, ply: number): void {
+    const killers = this.killers[ply];
+    if (killers[0] !== m) {
+      killers[1] = killers[0];
+      killers[0] = m;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transposition Table
+  // ---------------------------------------------------------------------------
+
+  private probe(): TTEntry | null {
+    const entry = this.tt.get(this.pos.hash0);
+    return entry && entry.check === this.pos.hash1 ? entry : null;
+  }
+
+  private store(depth: number, score: number, bound: Bound, move: number): void {
+    const existing = this.tt.get(this.pos.hash0);
+    if (existing && existing.check === this.pos.hash1 && existing.depth > depth) return;
+    if (!existing && this.tt.size >= TT_MAX_ENTRIES) this.tt.clear();
+    this.tt.set(this.pos.hash0, { check: this.pos.hash1, depth, score, bound, move });
+  }
+
+  private principalVariation(first: number): string[] {
+    const pv: string[] = [];
+    let m = first;
+    let played = 0;
+
+    while (m && pv.length < MAX_PLY && this.pos.makeMove(m)) {
+      played++;
+      pv.push(moveToUci(m));
+      if (this.pos.isRepetition()) break;
+      m = this.probe()?.move ?? 0;
+    }
+
+    for (; played > 0; played--) this.pos.unmakeMove();
+    return pv;
+  }
+}
+
+// Mate scores are stored relative to the node so they stay valid at any ply
+function toTT(score: number, ply: number): number {
+  if (score > MATE - MAX_PLY * 2) return score + ply;
+  if (score < -MATE + MAX_PLY * 2) return score - ply;
+  return score;
+}
+
+function fromTT(score: number, ply: number): number {
+  if (score > MATE - MAX_PLY * 2) return score - ply;
+  if (score < -MATE + MAX_PLY * 2) return score + ply;
+  return score;
+}
+
+/**
+ * Search a position and return the best move
+ */
+export function searchPosition(fen: string, options: SearchOptions): SearchResult {
+  return new Searcher(Position.fromFen(fen), options).run();
+}
@@ -13,15 +13,21 @@ import {
   type MoveResult,
   type GameStateJSON,
 } from '../types';
+import { rngFromSeed, stateRng, type Rng } from '../random';
+import { expandLSystem, parseAxiom, parseRuleText, compileRule, ruleSymbol, ruleText, readModules } from './lsystem';
 
 // =============================================================================
 // Types
 // =============================================================================
 
 export interface FractalRule {
+  /** Predecessor, with optional parameters and context: F, F(l), A<B>C */
   symbol: string;
+  /** Successor modules; parameters are expressions: F(l*0.5)[+F(l*0.7)] */
   replacement: string;
   probability: number;
+  /** Condition on the parameters, e.g. l>2 */
+  condition?: string;
 }
 
 export interface FractalState extends GameState {
@@ -45,6 +51,8 @@ export interface FractalState extends GameState {
     height: number;
     pixels: number[];
   };
+  /** Vector output of the last render_svg */
+  svg?: string | null;
   /** Active preset name */
   preset: string | null;
   /** Rendering statistics */
@@ -66,6 +74,7 @@ export type FractalMoveAction =
   | 'set_parameters'
   | 'generate'
   | 'render'
+  | 'render_svg'
   | 'get_state';
 
 export interface FractalMove {
@@ -87,6 +96,8 @@ const CANVAS_HEIGHT = 512;
 const MAX_ITERATIONS = 12;
 const MAX_EXPANDED_LENGTH = 1_000_000;
 const MAX_RULES_PER_SYMBOL = 5;
+const DEFAULT_SVG_PRECISION = 2;
+const MAX_SVG_PRECISION = 6;
 
 // =============================================================================
 // Presets
@@ -176,6 +187,27 @@ const PRESETS: Record<string, Preset> = {
     length: 6,
     decay: 1,
   },
+  parametric: {
+    axiom: 'F(80)',
+    rules: [
+      { symbol: 'F(l)', condition: 'l>4', replacement: 'F(l*0.5)[+F(l*0.7)][-F(l*0.6)]', probability: 1 },
+    ],
+    angle: 30,
+    iterations: 8,
+    length: 10,
+    decay: 1,
+  },
+  tree3d: {
+    axiom: 'FA',
+    rules: [
+      { symbol: 'A', replacement: '[&FA]/////[&FA]///////[&FA]', probability: 1 },
+      { symbol: 'F', replacement: 'F/F', probability: 1 },
+    ],
+    angle: 22.5,
+    iterations: 6,
+    length: 6,
+    decay: 0.8,
+  },
   custom: {
     axiom: 'F',
     rules: [],
@@ -348,153 +380,121 @@ function drawLine(
 // =============================================================================
 
 /**
- * Expand the L-System string by applying production rules
+ * Expand the state's L-System (throws on grammar errors)
  */
-function expandLSystem(
-  axiom: string,
-  rules: FractalRule[],
-  iterations: number
-): string {
-  let current = axiom;
-
-  for (let i = 0; i < iterations; i++) {
-    let next = '';
-
-    for (const char of current) {
-      // Find matching rules for this symbol
-      const matchingRules = rules.filter(r => r.symbol === char);
-
-      if (matchingRules.length === 0) {
-        // No rule - keep symbol as is
-        next += char;
-      } else if (matchingRules.length === 1) {
-        // Single rule - apply it
-        next += matchingRules[0].replacement;
-      } else {
-        // Stochastic rules - pick based on probability
-        const totalProb = matchingRules.reduce((sum, r) => sum + r.probability, 0);
-        let rand = Math.random() * totalProb;
-
-        for (const rule of matchingRules) {
-          rand -= rule.probability;
-          if (rand <= 0) {
-            next += rule.replacement;
-            break;
-          }
-        }
-
-        // Fallback to first rule
-        if (rand > 0) {
-          next += matchingRules[0].replacement;
-        }
-      }
+function expandState(state: FractalState, rng: Rng): string {
+  return expandLSystem(state.axiom, state.rules, state.iterations, rng, MAX_EXPANDED_LENGTH);
+}
 
-      // Safety: prevent explosion
-      if (next.length > MAX_EXPANDED_LENGTH) {
-        return next.substring(0, MAX_EXPANDED_LENGTH);
-      }
-    }
+interface TurtleSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  /** Branch depth ([ nesting) */
+  depth: number;
+}
 
-    current = next;
-  }
+type Vector = [number, number, number];
 
-  return current;
+/** Rotate a and b (unit vectors at right angles) by degrees in their plane */
+function rotatePair(a: Vector, b: Vector, degrees: number): [Vector, Vector] {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    [a[0] * cos + b[0] * sin, a[1] * cos + b[1] * sin, a[2] * cos + b[2] * sin],
+    [b[0] * cos - a[0] * sin, b[1] * cos - a[1] * sin, b[2] * cos - a[2] * sin],
+  ];
 }
 
 /**
- * Render L-System string using turtle graphics
+ * Walk the turtle over an L-System string, calling draw for every drawn
+ * segment. Returns the deepest branch level reached.
+ *
+ * The turtle moves in 3D (heading, left and up vectors) and is seen from the
+ * front: + and - turn, & and ^ pitch, \ and / roll, | turns around. A module
+ * parameter overrides the step length or angle, e.g. F(12) or +(30).
  */
-function renderTurtleGraphics(
+function walkTurtle(
   lsystem: string,
-  state: FractalState
-): { pixels: number[]; stats: { segmentsDrawn: number; maxDepth: number } } {
-  const { angle, length, decay, canvas, colorScheme } = state;
-  const pixels = createPixelArray(canvas.width, canvas.height);
-
-  // Calculate bounding box first to center the fractal
-  const bounds = calculateBounds(lsystem, angle, length, decay);
-
-  // Calculate scale and offset to fit and center
-  const padding = 20;
-  const availWidth = canvas.width - 2 * padding;
-  const availHeight = canvas.height - 2 * padding;
-
-  const fractalWidth = bounds.maxX - bounds.minX;
-  const fractalHeight = bounds.maxY - bounds.minY;
-
-  const scale = Math.min(
-    availWidth / (fractalWidth || 1),
-    availHeight / (fractalHeight || 1),
-    1
-  );
-
-  const offsetX = padding + (availWidth - fractalWidth * scale) / 2 - bounds.minX * scale;
-  const offsetY = padding + (availHeight - fractalHeight * scale) / 2 - bounds.minY * scale;
-
+  angle: number,
+  length: number,
+  decay: number,
+  draw: (segment: TurtleSegment) => void
+): number {
   // Turtle state
-  let x = 0;
-  let y = 0;
-  let dir = -90; // Start pointing up
-  const stack: Array<{ x: number; y: number; dir: number; depth: number }> = [];
+  let position: Vector = [0, 0, 0];
+  let heading: Vector = [0, -1, 0]; // Start pointing up
+  let left: Vector = [1, 0, 0];
+  let up: Vector = [0, 0, 1];
+  const stack: Array<{ position: Vector; heading: Vector; left: Vector; up: Vector; depth: number }> = [];
   let depth = 0;
   let maxDepth = 0;
-  let segmentsDrawn = 0;
   let currentLength = length;
 
-  // Count total F segments for rainbow coloring
-  const totalSegments = (lsystem.match(/F/g) || []).length;
-  let segmentIndex = 0;
+  const move = (distance: number): Vector => [
+    position[0] + heading[0] * distance,
+    position[1] + heading[1] * distance,
+    position[2] + heading[2] * distance,
+  ];
+
+  readModules(lsystem, (symbol, params) => {
+    const turn = params[0] ?? angle;
 
-  for (const char of lsystem) {
-    switch (char) {
+    switch (symbol) {
       case 'F':
       case 'G': {
         // Move forward and draw
-        const rad = (dir * Math.PI) / 180;
-        const newX = x + Math.cos(rad) * currentLength;
-        const newY = y + Math.sin(rad) * currentLength;
-
-        const [r, g, b] = getColor(colorScheme, depth, maxDepth || 10, segmentIndex, totalSegments);
-
-        drawLine(
-          pixels,
-          canvas.width,
-          canvas.height,
-          x * scale + offsetX,
-          y * scale + offsetY,
-          newX * scale + offsetX,
-          newY * scale + offsetY,
-          r, g, b
-        );
-
-        x = newX;
-        y = newY;
-        segmentsDrawn++;
-        segmentIndex++;
+        const next = move(params[0] ?? currentLength);
+        draw({ x1: position[0], y1: position[1], x2: next[0], y2: next[1], depth });
+        position = next;
         break;
       }
 
-      case 'f': {
+      case 'f':
         // Move forward without drawing
-        const rad = (dir * Math.PI) / 180;
-        x += Math.cos(rad) * currentLength;
-        y += Math.sin(rad) * currentLength;
+        position = move(params[0] ?? currentLength);
         break;
-      }
 
       case '+':
         // Turn left
-        dir -= angle;
+        [heading, left] = rotatePair(heading, left, -turn);
         break;
 
       case '-':
         // Turn right
-        dir += angle;
+        [heading, left] = rotatePair(heading, left, turn);
+        break;
+
+      case '&':
+        // Pitch down
+        [heading, up] = rotatePair(heading, up, turn);
+        break;
+
+      case '^':
+        // Pitch up
+        [heading, up] = rotatePair(heading, up, -turn);
+        break;
+
+      case '\\':
+        // Roll left
+        [left, up] = rotatePair(left, up, turn);
+        break;
+
+      case '/':
+        // Roll right
+        [left, up] = rotatePair(left, up, -turn);
+        break;
+
+      case '|':
+        // Turn around
+        [heading, left] = rotatePair(heading, left, 180);
         break;
 
       case '[':
         // Push state
-        stack.push({ x, y, dir, depth });
+        stack.push({ position, heading, left, up, depth });
         depth++;
         maxDepth = Math.max(maxDepth, depth);
         currentLength *= decay;
@@ -503,18 +503,77 @@ function renderTurtleGraphics(
       case ']':
         // Pop state
         if (stack.length > 0) {
-          const popped = stack.pop()!;
-          x = popped.x;
-          y = popped.y;
-          dir = popped.dir;
-          depth = popped.depth;
+          ({ position, heading, left, up, depth } = stack.pop()!);
           currentLength = length * Math.pow(decay, depth);
         }
         break;
 
       // Ignore other symbols (X, Y, A, B, etc.)
     }
-  }
+  });
+
+  return maxDepth;
+}
+
+/**
+ * Scale and offset that fit and center the fractal in the canvas
+ */
+function fitToCanvas(
+  bounds: { minX: number; maxX: number; minY: number; maxY: number },
+  canvas: { width: number; height: number }
+): { scale: number; offsetX: number; offsetY: number } {
+  const padding = 20;
+  const availWidth = canvas.width - 2 * padding;
+  const availHeight = canvas.height - 2 * padding;
+
+  const fractalWidth = bounds.maxX - bounds.minX;
+  const fractalHeight = bounds.maxY - bounds.minY;
+
+  const scale = Math.min(
+    availWidth / (fractalWidth || 1),
+    availHeight / (fractalHeight || 1),
+    1
+  );
+
+  return {
+    scale,
+    offsetX: padding + (availWidth - fractalWidth * scale) / 2 - bounds.minX * scale,
+    offsetY: padding + (availHeight - fractalHeight * scale) / 2 - bounds.minY * scale,
+  };
+}
+
+/**
+ * Render L-System string using turtle graphics
+ */
+function renderTurtleGraphics(
+  lsystem: string,
+  state: FractalState
+): { pixels: number[]; stats: { segmentsDrawn: number; maxDepth: number } } {
+  const { angle, length, decay, canvas, colorScheme } = state;
+  const pixels = createPixelArray(canvas.width, canvas.height);
+
+  // Calculate bounding box first to center the fractal
+  const bounds = calculateBounds(lsystem, angle, length, decay);
+  const { scale, offsetX, offsetY } = fitToCanvas(bounds, canvas);
+
+  // Count total F segments for rainbow coloring
+  const totalSegments = (lsystem.match(/F/g) || []).length;
+  let segmentsDrawn = 0;
+
+  const maxDepth = walkTurtle(lsystem, angle, length, decay, ({ x1, y1, x2, y2, depth }) => {
+    const [r, g, b] = getColor(colorScheme, depth, bounds.maxDepth || 10, segmentsDrawn, totalSegments);
+    drawLine(
+      pixels,
+      canvas.width,
+      canvas.height,
+      x1 * scale + offsetX,
+      y1 * scale + offsetY,
+      x2 * scale + offsetX,
+      y2 * scale + offsetY,
+      r, g, b
+    );
+    segmentsDrawn++;
+  });
 
   return {
     pixels,
@@ -523,66 +582,81 @@ function renderTurtleGraphics(
 }
 
 /**
- * Calculate bounding box of the fractal without rendering
+ * Render L-System string as SVG: one path per colour, in L-System units
+ * (the viewBox does the fitting), so the image scales to any print size
+ */
+function renderTurtleSvg(
+  lsystem: string,
+  state: FractalState,
+  precision: number
+): { svg: string; stats: { segmentsDrawn: number; maxDepth: number } } {
+  const { angle, length, decay, canvas, colorScheme } = state;
+  const bounds = calculateBounds(lsystem, angle, length, decay);
+  const { scale } = fitToCanvas(bounds, canvas);
+
+  // Same margins as the raster canvas, expressed in L-System units
+  const viewWidth = canvas.width / scale;
+  const viewHeight = canvas.height / scale;
+  const viewX = (bounds.minX + bounds.maxX - viewWidth) / 2;
+  const viewY = (bounds.minY + bounds.maxY - viewHeight) / 2;
+
+  const round = (value: number) => String(Number(value.toFixed(precision)));
+  const totalSegments = (lsystem.match(/F/g) || []).length;
+  const paths = new Map<string, { data: string[]; endX: number; endY: number }>();
+  let segmentsDrawn = 0;
+
+  const maxDepth = walkTurtle(lsystem, angle, length, decay, ({ x1, y1, x2, y2, depth }) => {
+    const [r, g, b] = getColor(colorScheme, depth, bounds.maxDepth || 10, segmentsDrawn, totalSegments);
+    const color = `rgb(${r},${g},${b})`;
+    const path = paths.get(color) ?? { data: [], endX: NaN, endY: NaN };
+
+    // Continue the current subpath when the turtle did not jump
+    if (path.endX !== x1 || path.endY !== y1) {
+      path.data.push(`M${round(x1)} ${round(y1)}`);
+    }
+    path.data.push(`L${round(x2)} ${round(y2)}`);
+    path.endX = x2;
+    path.endY = y2;
+    paths.set(color, path);
+    segmentsDrawn++;
+  });
+
+  const strokeWidth = round(1 / scale);
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}" ` +
+      `viewBox="${round(viewX)} ${round(viewY)} ${round(viewWidth)} ${round(viewHeight)}">`,
+    `<rect x="${round(viewX)}" y="${round(viewY)}" width="${round(viewWidth)}" height="${round(viewHeight)}" fill="#fff"/>`,
+    `<g fill="none" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round">`,
+    ...[...paths].map(([color, path]) => `<path stroke="${color}" d="${path.data.join('')}"/>`),
+    '</g>',
+    '</svg>',
+  ];
+
+  return {
+    svg: lines.join('\n'),
+    stats: { segmentsDrawn, maxDepth },
+  };
+}
+
+/**
+ * Calculate bounding box (and deepest branch) of the fractal without rendering
  */
 function calculateBounds(
   lsystem: string,
   angle: number,
   length: number,
   decay: number
-): { minX: number; maxX: number; minY: number; maxY: number } {
-  let x = 0;
-  let y = 0;
-  let dir = -90;
+): { minX: number; maxX: number; minY: number; maxY: number; maxDepth: number } {
   let minX = 0, maxX = 0, minY = 0, maxY = 0;
-  const stack: Array<{ x: number; y: number; dir: number; depth: number }> = [];
-  let depth = 0;
-  let currentLength = length;
 
-  for (const char of lsystem) {
-    switch (char) {
-      case 'F':
-      case 'G': {
-        const rad = (dir * Math.PI) / 180;
-        x += Math.cos(rad) * currentLength;
-        y += Math.sin(rad) * currentLength;
-        minX = Math.min(minX, x);
-        maxX = Math.max(maxX, x);
-        minY = Math.min(minY, y);
-        maxY = Math.max(maxY, y);
-        break;
-      }
-      case 'f': {
-        const rad = (dir * Math.PI) / 180;
-        x += Math.cos(rad) * currentLength;
-        y += Math.sin(rad) * currentLength;
-        break;
-      }
-      case '+':
-        dir -= angle;
-        break;
-      case '-':
-        dir += angle;
-        break;
-      case '[':
-        stack.push({ x, y, dir, depth });
-        depth++;
-        currentLength *= decay;
-        break;
-      case ']':
-        if (stack.length > 0) {
-          const popped = stack.pop()!;
-          x = popped.x;
-          y = popped.y;
-          dir = popped.dir;
-          depth = popped.depth;
-          currentLength = length * Math.pow(decay, depth);
-        }
-        break;
-    }
-  }
+  const maxDepth = walkTurtle(lsystem, angle, length, decay, ({ x2, y2 }) => {
+    minX = Math.min(minX, x2);
+    maxX = Math.max(maxX, x2);
+    minY = Math.min(minY, y2);
+    maxY = Math.max(maxY, y2);
+  });
 
-  return { minX, maxX, minY, maxY };
+  return { minX, maxX, minY, maxY, maxDepth };
 }
 
 // =============================================================================
@@ -608,13 +682,14 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): FractalState {
+    newGame(options = {}, seed?: string): FractalState {
       const width = options.width ?? CANVAS_WIDTH;
       const height = options.height ?? CANVAS_HEIGHT;
       const preset = PRESETS.tree;
+      const rng = rngFromSeed(seed);
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rng),
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -636,6 +711,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
           maxDepth: 0,
         },
         colorScheme: 'depth',
+        rngState: rng.state,
       };
     },
 
@@ -659,6 +735,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
         { action: 'new_fractal', params: { preset: 'tree' } },
         { action: 'generate', params: {} },
         { action: 'render', params: {} },
+        { action: 'render_svg', params: {} },
       ];
     },
 
@@ -690,6 +767,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
                 ...state.canvas,
                 pixels: createPixelArray(state.canvas.width, state.canvas.height),
               },
+              svg: null,
               stats: { segmentsDrawn: 0, maxDepth: 0 },
               moveCount: state.moveCount + 1,
               lastMoveAt: Date.now(),
@@ -699,6 +777,12 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
 
         case 'set_axiom': {
           const axiom = (params.axiom as string) ?? 'F';
+          try {
+            parseAxiom(axiom);
+          } catch (error) {
+            return { valid: false, state, error: `Invalid axiom: ${(error as Error).message}` };
+          }
+
           return {
             valid: true,
             state: {
@@ -713,16 +797,28 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
         }
 
         case 'add_rule': {
-          const symbol = (params.symbol as string) ?? 'F';
-          const replacement = (params.replacement as string) ?? '';
           const probability = (params.probability as number) ?? 1;
-
-          if (symbol.length !== 1) {
-            return { valid: false, state, error: 'Symbol must be a single character' };
+          const condition = params.condition as string | undefined;
+
+          // Either a whole rule ("F(l) : l>2 -> F(l*0.5)") or its parts
+          let rule: FractalRule;
+          let symbol: string;
+          try {
+            rule = typeof params.rule === 'string'
+              ? parseRuleText(params.rule, probability)
+              : {
+                  symbol: (params.symbol as string) ?? 'F',
+                  replacement: (params.replacement as string) ?? '',
+                  probability,
+                  ...(condition ? { condition } : {}),
+                };
+            symbol = compileRule(rule).predecessor.symbol;
+          } catch (error) {
+            return { valid: false, state, error: `Invalid rule: ${(error as Error).message}` };
           }
 
           // Check max rules per symbol
-          const existingRulesCount = state.rules.filter(r => r.symbol === symbol).length;
+          const existingRulesCount = state.rules.filter(r => ruleSymbol(r) === symbol).length;
           if (existingRulesCount >= MAX_RULES_PER_SYMBOL) {
             return { valid: false, state, error: `Maximum ${MAX_RULES_PER_SYMBOL} rules per symbol` };
           }
@@ -731,7 +827,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
             valid: true,
             state: {
               ...state,
-              rules: [...state.rules, { symbol, replacement, probability }],
+              rules: [...state.rules, rule],
               expandedString: null,
               preset: 'custom',
               moveCount: state.moveCount + 1,
@@ -746,7 +842,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
             valid: true,
             state: {
               ...state,
-              rules: state.rules.filter(r => r.symbol !== symbol),
+              rules: state.rules.filter(r => r.symbol !== symbol && ruleSymbol(r) !== symbol),
               expandedString: null,
               preset: 'custom',
               moveCount: state.moveCount + 1,
@@ -777,7 +873,13 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
         }
 
         case 'generate': {
-          const expanded = expandLSystem(state.axiom, state.rules, state.iterations);
+          const rng = stateRng(state);
+          let expanded: string;
+          try {
+            expanded = expandState(state, rng);
+          } catch (error) {
+            return { valid: false, state, error: (error as Error).message };
+          }
           return {
             valid: true,
             state: {
@@ -785,6 +887,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
               expandedString: expanded,
               moveCount: state.moveCount + 1,
               lastMoveAt: Date.now(),
+              rngState: rng.state,
             },
           };
         }
@@ -793,7 +896,13 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
           const colorScheme = (params.colorScheme as ColorScheme) ?? state.colorScheme;
 
           // Generate if not already done
-          const expanded = state.expandedString ?? expandLSystem(state.axiom, state.rules, state.iterations);
+          const rng = stateRng(state);
+          let expanded: string;
+          try {
+            expanded = state.expandedString ?? expandState(state, rng);
+          } catch (error) {
+            return { valid: false, state, error: (error as Error).message };
+          }
 
           const stateWithScheme = { ...state, colorScheme, expandedString: expanded };
           const { pixels, stats } = renderTurtleGraphics(expanded, stateWithScheme);
@@ -809,6 +918,38 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
               stats,
               moveCount: state.moveCount + 1,
               lastMoveAt: Date.now(),
+              rngState: rng.state,
+            },
+          };
+        }
+
+        case 'render_svg': {
+          const colorScheme = (params.colorScheme as ColorScheme) ?? state.colorScheme;
+          const precision = Math.max(0, Math.min(MAX_SVG_PRECISION, Math.round(
+            (params.precision as number | undefined) ?? DEFAULT_SVG_PRECISION
+          )));
+
+          // Generate if not already done
+          const rng = stateRng(state);
+          let expanded: string;
+          try {
+            expanded = state.expandedString ?? expandState(state, rng);
+          } catch (error) {
+            return { valid: false, state, error: (error as Error).message };
+          }
+
+          const stateWithScheme = { ...state, colorScheme, expandedString: expanded };
+          const { svg, stats } = renderTurtleSvg(expanded, stateWithScheme, precision);
+
+          return {
+            valid: true,
+            state: {
+              ...stateWithScheme,
+              svg,
+              stats,
+              moveCount: state.moveCount + 1,
+              lastMoveAt: Date.now(),
+              rngState: rng.state,
             },
           };
         }
@@ -843,10 +984,11 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
     // Serialization
     // -------------------------------------------------------------------------
     serialize(state: FractalState): string {
-      // Don't serialize pixels - too large
+      // Don't serialize pixels or SVG - too large
       const { canvas, ...rest } = state;
       return JSON.stringify({
         ...rest,
+        svg: undefined,
         canvas: {
           width: canvas.width,
           height: canvas.height,
@@ -870,7 +1012,7 @@ function createFractalsEngine(): GameEngine<FractalState, FractalMove, FractalOp
     // Rendering
     // -------------------------------------------------------------------------
     renderText(state: FractalState): string {
-      const rulesStr = state.rules.map(r => `${r.symbol} → ${r.replacement}`).join('\n');
+      const rulesStr = state.rules.map(ruleText).join('\n');
       return [
         `Preset: ${state.preset ?? 'custom'}`,
         `Axiom: ${state.axiom}`,
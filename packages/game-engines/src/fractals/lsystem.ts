@@ -0,0 +1,659 @@
+/**
+ * L-System Grammar
+ *
+ * Rules in the notation of The Algorithmic Beauty of Plants:
+ *
+ *   F → FF                               plain
+ *   F(l) : l>2 → F(l*0.5)[+F(l*0.7)]     parametric, with an optional condition
+ *   A<B>C → D                            context-sensitive (left < predecessor > right)
+ *
+ * A string is a sequence of modules: one symbol with optional numeric
+ * parameters, written F or F(1.5,2). Context matching skips turtle turns and
+ * jumps over branches. Syntax errors name the column and point at it.
+ */
+
+import type { Rng } from '../random';
+import type { FractalRule } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Module {
+  symbol: string;
+  params: number[];
+}
+
+type Expr =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: '-' | '!'; operand: Expr }
+  | { type: 'binary'; operator: BinaryOperator; left: Expr; right: Expr }
+  | { type: 'call'; name: FunctionName; args: Expr[] };
+
+type BinaryOperator = '||' | '&&' | '<' | '<=' | '>' | '>=' | '==' | '!=' | '+' | '-' | '*' | '/' | '%' | '^';
+
+/** A module on the left-hand side: symbol plus parameter names */
+interface Pattern {
+  symbol: string;
+  params: string[];
+}
+
+/** A module on the right-hand side: symbol plus parameter expressions */
+interface Production {
+  symbol: string;
+  args: Expr[];
+  /** Prebuilt module when there are no parameters */
+  constant: Module | null;
+}
+
+export interface CompiledRule {
+  left: Pattern[];
+  predecessor: Pattern;
+  right: Pattern[];
+  condition: Expr | null;
+  successor: Production[];
+  probability: number;
+}
+
+/** A pattern with source positions, for error messages */
+interface ParsedPattern {
+  symbol: string;
+  position: number;
+  params: Array<{ name: string; position: number }>;
+}
+
+interface Cursor {
+  text: string;
+  pos: number;
+  /** Parameter names an expression may use */
+  scope: Set<string>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Characters with a meaning in rule syntax (never module symbols) */
+const RESERVED = new Set(['(', ')', ',', '<', '>', ':', '→']);
+
+/** Turtle turns, skipped when matching context */
+const CONTEXT_IGNORED = new Set(['+', '-', '&', '^', '\\', '/', '|']);
+
+const FUNCTIONS = {
+  sin: [1, Math.sin],
+  cos: [1, Math.cos],
+  tan: [1, Math.tan],
+  sqrt: [1, Math.sqrt],
+  abs: [1, Math.abs],
+  floor: [1, Math.floor],
+  ceil: [1, Math.ceil],
+  round: [1, Math.round],
+  min: [2, Math.min],
+  max: [2, Math.max],
+  pow: [2, Math.pow],
+} as const satisfies Record<string, readonly [number, (...args: number[]) => number]>;
+
+type FunctionName = keyof typeof FUNCTIONS;
+
+const COMPARISONS = ['<=', '>=', '==', '!=', '<', '>'] as const;
+
+const NO_PARAMS: number[] = [];
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * A rule as one line of text: `pred : condition → successor`
+ */
+export function ruleText(rule: FractalRule): string {
+  const condition = rule.condition ? ` : ${rule.condition}` : '';
+  return `${rule.symbol}${condition} → ${rule.replacement}`;
+}
+
+/**
+ * Split a full rule (`A<B(x)>C : x>1 -> ...`, `->` or `→`) into its parts
+ */
+export function parseRuleText(text: string, probability = 1): FractalRule {
+  const parts = parseRule(text);
+  const rule: FractalRule = {
+    symbol: text.slice(0, parts.predecessorEnd).trim(),
+    replacement: text.slice(parts.successorStart).trim(),
+    probability,
+  };
+  if (parts.conditionStart !== null) {
+    rule.condition = text.slice(parts.conditionStart, parts.conditionEnd!).trim();
+  }
+  return rule;
+}
+
+/**
+ * Parse and check a rule; throws on syntax errors
+ */
+export function compileRule(rule: FractalRule): CompiledRule {
+  const { left, predecessor, right, condition, successor } = parseRule(ruleText(rule));
+  return { left, predecessor, right, condition, successor, probability: rule.probability };
+}
+
+/**
+ * The symbol a rule rewrites (the raw symbol text if the rule does not parse)
+ */
+export function ruleSymbol(rule: FractalRule): string {
+  try {
+    return compileRule(rule).predecessor.symbol;
+  } catch {
+    return rule.symbol;
+  }
+}
+
+/**
+ * Parse an axiom; parameters must be constant expressions
+ */
+export function parseAxiom(text: string): Module[] {
+  const cursor: Cursor = { text, pos: 0, scope: new Set() };
+  const modules = parseProductions(cursor).map(production => instantiate(production, {}));
+  expectEnd(cursor);
+  return modules;
+}
+
+/**
+ * Expand an axiom by applying the rules, stopping once the string would pass
+ * maxLength characters. Throws on syntax errors and non-finite parameters.
+ */
+export function expandLSystem(
+  axiom: string,
+  rules: FractalRule[],
+  iterations: number,
+  rng: Rng,
+  maxLength: number
+): string {
+  const bySymbol = new Map<string, CompiledRule[]>();
+  for (const rule of rules) {
+    const compiled = compileRule(rule);
+    const symbol = compiled.predecessor.symbol;
+    bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), compiled]);
+  }
+
+  let current = parseAxiom(axiom);
+
+  for (let i = 0; i < iterations; i++) {
+    const next: Module[] = [];
+    let length = 0;
+
+    for (let index = 0; index < current.length; index++) {
+      const item = current[index];
+      const matching: Array<{ rule: CompiledRule; env: Record<string, number> }> = [];
+
+      for (const rule of bySymbol.get(item.symbol) ?? []) {
+        const env: Record<string, number> = {};
+        if (
+          bind(rule.predecessor, item, env) &&
+          matchLeft(current, index, rule.left, env) &&
+          matchRight(current, index, rule.right, env) &&
+          (!rule.condition || evaluate(rule.condition, env) !== 0)
+        ) {
+          matching.push({ rule, env });
+        }
+      }
+
+      let produced: Module[];
+      if (matching.length === 0) {
+        // No rule - keep module as is
+        produced = [item];
+      } else if (matching.length === 1) {
+        produced = apply(matching[0].rule, matching[0].env);
+      } else {
+        // Stochastic rules - pick based on probability
+        const totalProb = matching.reduce((sum, m) => sum + m.rule.probability, 0);
+        let rand = rng.next() * totalProb;
+        let chosen = matching[0];
+
+        for (const candidate of matching) {
+          rand -= candidate.rule.probability;
+          if (rand <= 0) {
+            chosen = candidate;
+            break;
+          }
+        }
+        produced = apply(chosen.rule, chosen.env);
+      }
+
+      for (const out of produced) {
+        next.push(out);
+        length += formatModule(out).length;
+      }
+
+      // Safety: prevent explosion
+      if (length > maxLength) {
+        while (length > maxLength) {
+          length -= formatModule(next.pop()!).length;
+        }
+        return next.map(formatModule).join('');
+      }
+    }
+
+    current = next;
+  }
+
+  return current.map(formatModule).join('');
+}
+
+/**
+ * Visit the modules of an expanded string
+ */
+export function readModules(text: string, visit: (symbol: string, params: number[]) => void): void {
+  for (let i = 0; i < text.length; i++) {
+    const symbol = text[i];
+    const end = text[i + 1] === '(' ? text.indexOf(')', i + 2) : -1;
+    if (end === -1) {
+      visit(symbol, NO_PARAMS);
+    } else {
+      visit(symbol, text.slice(i + 2, end).split(',').map(Number));
+      i = end;
+    }
+  }
+}
+
+// =============================================================================
+// Expansion Helpers
+// =============================================================================
+
+/** Bind a pattern's parameter names; a pattern without parameters matches any */
+function bind(pattern: Pattern, module: Module, env: Record<string, number>): boolean {
+  if (pattern.symbol !== module.symbol) return false;
+  if (pattern.params.length === 0) return true;
+  if (pattern.params.length !== module.params.length) return false;
+  pattern.params.forEach((name, i) => (env[name] = module.params[i]));
+  return true;
+}
+
+function matchLeft(modules: Module[], index: number, patterns: Pattern[], env: Record<string, number>): boolean {
+  let j = index - 1;
+  for (let p = patterns.length - 1; p >= 0; p--) {
+    j = previousInContext(modules, j);
+    if (j < 0 || !bind(patterns[p], modules[j], env)) return false;
+    j--;
+  }
+  return true;
+}
+
+function matchRight(modules: Module[], index: number, patterns: Pattern[], env: Record<string, number>): boolean {
+  let j = index + 1;
+  for (const pattern of patterns) {
+    j = nextInContext(modules, j);
+    if (j < 0 || !bind(pattern, modules[j], env)) return false;
+    j++;
+  }
+  return true;
+}
+
+/** Nearest module at or before j on the path to the root (skipping side branches) */
+function previousInContext(modules: Module[], j: number): number {
+  while (j >= 0) {
+    const { symbol } = modules[j];
+    if (symbol === ']') {
+      // Jump over a whole side branch
+      let depth = 1;
+      for (j--; j >= 0 && depth > 0; j--) {
+        if (modules[j].symbol === ']') depth++;
+        else if (modules[j].symbol === '[') depth--;
+      }
+    } else if (symbol === '[' || CONTEXT_IGNORED.has(symbol)) {
+      j--;
+    } else {
+      return j;
+    }
+  }
+  return -1;
+}
+
+/** Next module at or after j on the same branch (skipping side branches) */
+function nextInContext(modules: Module[], j: number): number {
+  while (j < modules.length) {
+    const { symbol } = modules[j];
+    if (symbol === '[') {
+      let depth = 1;
+      for (j++; j < modules.length && depth > 0; j++) {
+        if (modules[j].symbol === '[') depth++;
+        else if (modules[j].symbol === ']') depth--;
+      }
+    } else if (symbol === ']') {
+      return -1;
+    } else if (CONTEXT_IGNORED.has(symbol)) {
+      j++;
+    } else {
+      return j;
+    }
+  }
+  return -1;
+}
+
+function apply(rule: CompiledRule, env: Record<string, number>): Module[] {
+  return rule.successor.map(production => instantiate(production, env));
+}
+
+function instantiate(production: Production, env: Record<string, number>): Module {
+  if (production.constant) return production.constant;
+
+  const params = production.args.map(arg => evaluate(arg, env));
+  if (params.some(value => !Number.isFinite(value))) {
+    throw new Error(`Parameter of ${production.symbol} is not a finite number`);
+  }
+  return { symbol: production.symbol, params };
+}
+
+function formatModule(module: Module): string {
+  if (module.params.length === 0) return module.symbol;
+  return `${module.symbol}(${module.params.map(value => Number(value.toFixed(4))).join(',')})`;
+}
+
+function evaluate(expr: Expr, env: Record<string, number>): number {
+  switch (expr.type) {
+    case 'number':
+      return expr.value;
+    case 'variable':
+      return env[expr.name] ?? 0;
+    case 'unary': {
+      const value = evaluate(expr.operand, env);
+      return expr.operator === '-' ? -value : Number(value === 0);
+    }
+    case 'call': {
+      const [, fn] = FUNCTIONS[expr.name];
+      return (fn as (...args: number[]) => number)(...expr.args.map(arg => evaluate(arg, env)));
+    }
+    case 'binary': {
+      const a = evaluate(expr.left, env);
+      // Short-circuit the logical operators
+      if (expr.operator === '&&') return Number(a !== 0 && evaluate(expr.right, env) !== 0);
+      if (expr.operator === '||') return Number(a !== 0 || evaluate(expr.right, env) !== 0);
+
+      const b = evaluate(expr.right, env);
+      switch (expr.operator) {
+        case '<': return Number(a < b);
+        case '<=': return Number(a <= b);
+        case '>': return Number(a > b);
+        case '>=': return Number(a >= b);
+        case '==': return Number(a === b);
+        case '!=': return Number(a !== b);
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '^': return Math.pow(a, b);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse a full rule, keeping where each part starts and ends in the text */
+function parseRule(text: string) {
+  const cursor: Cursor = { text, pos: 0, scope: new Set() };
+
+  let modules = parsePatterns(cursor);
+  let left: ParsedPattern[] = [];
+  if (peek(cursor) === '<') {
+    left = modules;
+    if (left.length === 0) throw syntaxError(cursor, 'Expected a left context before \'<\'');
+    cursor.pos++;
+    modules = parsePatterns(cursor);
+  }
+
+  if (modules.length === 0) {
+    throw syntaxError(cursor, 'Expected a predecessor symbol');
+  }
+  if (modules.length > 1) {
+    throw syntaxError(cursor, 'Expected a single predecessor symbol (use < and > for context)', modules[1].position);
+  }
+  const predecessor = modules[0];
+
+  let right: ParsedPattern[] = [];
+  if (peek(cursor) === '>') {
+    cursor.pos++;
+    right = parsePatterns(cursor);
+    if (right.length === 0) throw syntaxError(cursor, 'Expected a right context after \'>\'');
+  }
+  const predecessorEnd = cursor.pos;
+
+  // Parameter names must be unique across the whole left-hand side
+  for (const pattern of [...left, predecessor, ...right]) {
+    for (const param of pattern.params) {
+      if (cursor.scope.has(param.name)) {
+        throw syntaxError(cursor, `Parameter '${param.name}' is declared twice`, param.position);
+      }
+      cursor.scope.add(param.name);
+    }
+  }
+
+  let condition: Expr | null = null;
+  let conditionStart: number | null = null;
+  let conditionEnd: number | null = null;
+  if (peek(cursor) === ':') {
+    cursor.pos++;
+    conditionStart = cursor.pos;
+    condition = parseExpression(cursor);
+    conditionEnd = cursor.pos;
+  }
+
+  skipSpaces(cursor);
+  if (text.startsWith('->', cursor.pos)) {
+    cursor.pos += 2;
+  } else if (text[cursor.pos] === '→') {
+    cursor.pos++;
+  } else {
+    throw syntaxError(cursor, cursor.pos >= text.length ? 'Expected \'->\' and a successor' : 'Expected \'->\'');
+  }
+
+  const successorStart = cursor.pos;
+  const successor = parseProductions(cursor);
+  expectEnd(cursor);
+
+  const toPattern = ({ symbol, params }: ParsedPattern): Pattern => ({ symbol, params: params.map(p => p.name) });
+
+  return {
+    left: left.map(toPattern),
+    predecessor: toPattern(predecessor),
+    right: right.map(toPattern),
+    condition,
+    successor,
+    predecessorEnd,
+    conditionStart,
+    conditionEnd,
+    successorStart,
+  };
+}
+
+/** Left-hand side modules, up to '<', '>', ':' or the arrow */
+function parsePatterns(cursor: Cursor): ParsedPattern[] {
+  const patterns: ParsedPattern[] = [];
+
+  for (;;) {
+    skipSpaces(cursor);
+    const char = cursor.text[cursor.pos];
+    if (char === undefined || char === '<' || char === '>' || char === ':' || char === '→') break;
+    if (cursor.text.startsWith('->', cursor.pos)) break;
+    if (RESERVED.has(char)) throw syntaxError(cursor, `Unexpected '${char}'`);
+
+    const position = cursor.pos++;
+    const params: Array<{ name: string; position: number }> = [];
+    if (cursor.text[cursor.pos] === '(') {
+      cursor.pos++;
+      do {
+        skipSpaces(cursor);
+        const start = cursor.pos;
+        params.push({ name: readIdentifier(cursor, 'Expected a parameter name'), position: start });
+        skipSpaces(cursor);
+      } while (consume(cursor, ','));
+      expect(cursor, ')');
+    }
+    patterns.push({ symbol: char, position, params });
+  }
+
+  return patterns;
+}
+
+/** Right-hand side modules, to the end of the text */
+function parseProductions(cursor: Cursor): Production[] {
+  const productions: Production[] = [];
+
+  for (;;) {
+    skipSpaces(cursor);
+    const char = cursor.text[cursor.pos];
+    if (char === undefined) break;
+    if (RESERVED.has(char)) throw syntaxError(cursor, `Unexpected '${char}'`);
+    cursor.pos++;
+
+    const args: Expr[] = [];
+    if (cursor.text[cursor.pos] === '(') {
+      cursor.pos++;
+      do {
+        args.push(parseExpression(cursor));
+      } while (consume(cursor, ','));
+      expect(cursor, ')');
+    }
+    productions.push({ symbol: char, args, constant: args.length === 0 ? { symbol: char, params: NO_PARAMS } : null });
+  }
+
+  return productions;
+}
+
+function parseExpression(cursor: Cursor): Expr {
+  return parseBinary(cursor, 0);
+}
+
+/** Binary operators by precedence, loosest first ('^' is handled separately) */
+const PRECEDENCE: ReadonlyArray<ReadonlyArray<BinaryOperator>> = [
+  ['||'],
+  ['&&'],
+  COMPARISONS,
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+function parseBinary(cursor: Cursor, level: number): Expr {
+  if (level === PRECEDENCE.length) return parseUnary(cursor);
+
+  let left = parseBinary(cursor, level + 1);
+  for (;;) {
+    skipSpaces(cursor);
+    const operator = PRECEDENCE[level].find(op => cursor.text.startsWith(op, cursor.pos));
+    // "->" ends a condition, it is not a subtraction
+    if (!operator || cursor.text.startsWith('->', cursor.pos)) return left;
+    cursor.pos += operator.length;
+    left = { type: 'binary', operator, left, right: parseBinary(cursor, level + 1) };
+    // Comparisons do not chain
+    if (level === PRECEDENCE.indexOf(COMPARISONS)) return left;
+  }
+}
+
+function parseUnary(cursor: Cursor): Expr {
+  skipSpaces(cursor);
+  const char = cursor.text[cursor.pos];
+  if ((char === '-' && cursor.text[cursor.pos + 1] !== '>') || (char === '!' && cursor.text[cursor.pos + 1] !== '=')) {
+    cursor.pos++;
+    return { type: 'unary', operator: char, operand: parseUnary(cursor) };
+  }
+
+  const base = parsePrimary(cursor);
+  skipSpaces(cursor);
+  if (consume(cursor, '^')) {
+    // Right-associative: 2^3^2 = 2^(3^2)
+    return { type: 'binary', operator: '^', left: base, right: parseUnary(cursor) };
+  }
+  return base;
+}
+
+function parsePrimary(cursor: Cursor): Expr {
+  skipSpaces(cursor);
+  const start = cursor.pos;
+  const char = cursor.text[cursor.pos];
+
+  if (char === '(') {
+    cursor.pos++;
+    const expr = parseExpression(cursor);
+    expect(cursor, ')');
+    return expr;
+  }
+
+  const number = cursor.text.slice(cursor.pos).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i);
+  if (number) {
+    cursor.pos += number[0].length;
+    return { type: 'number', value: Number(number[0]) };
+  }
+
+  if (char !== undefined && /[A-Za-z_]/.test(char)) {
+    const name = readIdentifier(cursor, 'Expected a name');
+    skipSpaces(cursor);
+
+    if (cursor.text[cursor.pos] === '(') {
+      if (!(name in FUNCTIONS)) {
+        throw syntaxError(cursor, `Unknown function '${name}' (available: ${Object.keys(FUNCTIONS).join(', ')})`, start);
+      }
+      const [arity] = FUNCTIONS[name as FunctionName];
+      cursor.pos++;
+      const args: Expr[] = [];
+      do {
+        args.push(parseExpression(cursor));
+      } while (consume(cursor, ','));
+      if (args.length !== arity) {
+        throw syntaxError(cursor, `${name} takes ${arity} argument${arity === 1 ? '' : 's'}`, start);
+      }
+      expect(cursor, ')');
+      return { type: 'call', name: name as FunctionName, args };
+    }
+
+    if (!cursor.scope.has(name)) {
+      const known = [...cursor.scope];
+      const hint = known.length > 0 ? ` (parameters: ${known.join(', ')})` : ' (no parameters are declared here)';
+      throw syntaxError(cursor, `Unknown parameter '${name}'${hint}`, start);
+    }
+    return { type: 'variable', name };
+  }
+
+  throw syntaxError(cursor, char === undefined ? 'Expected an expression' : `Unexpected '${char}' in expression`);
+}
+
+// =============================================================================
+// Cursor Helpers
+// =============================================================================
+
+function skipSpaces(cursor: Cursor): void {
+  while (/\s/.test(cursor.text[cursor.pos] ?? '')) cursor.pos++;
+}
+
+function peek(cursor: Cursor): string | undefined {
+  skipSpaces(cursor);
+  return cursor.text[cursor.pos];
+}
+
+function consume(cursor: Cursor, char: string): boolean {
+  if (peek(cursor) !== char) return false;
+  cursor.pos++;
+  return true;
+}
+
+function expect(cursor: Cursor, char: string): void {
+  if (!consume(cursor, char)) throw syntaxError(cursor, `Expected '${char}'`);
+}
+
+function expectEnd(cursor: Cursor): void {
+  skipSpaces(cursor);
+  if (cursor.pos < cursor.text.length) throw syntaxError(cursor, `Unexpected '${cursor.text[cursor.pos]}'`);
+}
+
+function readIdentifier(cursor: Cursor, message: string): string {
+  const match = cursor.text.slice(cursor.pos).match(/^[A-Za-z_]\w*/);
+  if (!match) throw syntaxError(cursor, message);
+  cursor.pos += match[0].length;
+  return match[0];
+}
+
+/** Error naming the column, with the text and a caret under the problem */
+function syntaxError(cursor: Cursor, message: string, at = cursor.pos): Error {
+  return new Error(`${message} at column ${at + 1}\n  ${cursor.text}\n  ${' '.repeat(at)}^`);
+}
@@ -17,6 +17,7 @@ import {
   type GameStateJSON,
   type Difficulty,
 } from '../types';
+import { positionRng, rngFromSeed, stateRng, type Rng } from '../random';
 
 // =============================================================================
 // Types
@@ -93,6 +94,8 @@ export interface GorillasMove {
 export interface GorillasOptions {
   levelIndex?: number;
   vsAI?: boolean;
+  /** 'pvp' for two agents throwing at each other (no AI unless vsAI is set) */
+  mode?: 'solo' | 'pvp';
   aiDifficulty?: Difficulty;
   player1Name?: string;
   player2Name?: string;
@@ -225,19 +228,11 @@ const TIME_STEP = 0.05; // Physics simulation time step
 // Helper Functions
 // =============================================================================
 
-function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function randomFloat(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
-}
-
 function degToRad(degrees: number): number {
   return (degrees * Math.PI) / 180;
 }
 
-function generateBuildings(level: LevelConfig): Building[] {
+function generateBuildings(level: LevelConfig, rng: Rng): Building[] {
   const buildings: Building[] = [];
   let x = 0;
   const gapBetween = 2;
@@ -252,8 +247,8 @@ function generateBuildings(level: LevelConfig): Building[] {
 
     if (minW < 20) break; // Don't create too narrow buildings
 
-    const width = randomInt(minW, maxW);
-    const height = randomInt(level.minHeight, level.maxHeight);
+    const width = rng.intBetween(minW, maxW);
+    const height = rng.intBetween(level.minHeight, level.maxHeight);
 
     buildings.push({
       x,
@@ -268,16 +263,16 @@ function generateBuildings(level: LevelConfig): Building[] {
   return buildings;
 }
 
-function generateWind(range: [number, number]): number {
-  return randomFloat(range[0], range[1]);
+function generateWind(range: [number, number], rng: Rng): number {
+  return rng.float(range[0], range[1]);
 }
 
-function placeGorilla(buildings: Building[], isLeft: boolean, canvasHeight: number): { position: Position; buildingIndex: number } {
+function placeGorilla(buildings: Building[], isLeft: boolean, canvasHeight: number, rng: Rng): { position: Position; buildingIndex: number } {
   // Pick a building on the left or right side
   const buildingCount = buildings.length;
   const buildingIndex = isLeft
-    ? randomInt(0, Math.floor(buildingCount / 3))
-    : randomInt(Math.floor(2 * buildingCount / 3), buildingCount - 1);
+    ? rng.intBetween(0, Math.floor(buildingCount / 3))
+    : rng.intBetween(Math.floor(2 * buildingCount / 3), buildingCount - 1);
 
   const building = buildings[buildingIndex];
 
@@ -435,6 +430,8 @@ function checkGorillaFall(state: GorillasState): GorillasState {
 }
 
 function generateAIMove(state: GorillasState, difficulty: Difficulty): GorillasMove {
+  // Derived from the state without advancing it (AI is pure)
+  const rng = positionRng(state, state.moveCount);
   const ai = state.player2;
   const target = state.player1;
 
@@ -468,16 +465,16 @@ function generateAIMove(state: GorillasState, difficulty: Difficulty): GorillasM
 
   switch (difficulty) {
     case 'easy':
-      angleError = randomFloat(-25, 25);
-      velocityError = randomFloat(-40, 40);
+      angleError = rng.float(-25, 25);
+      velocityError = rng.float(-40, 40);
       break;
     case 'medium':
-      angleError = randomFloat(-12, 12);
-      velocityError = randomFloat(-20, 20);
+      angleError = rng.float(-12, 12);
+      velocityError = rng.float(-20, 20);
       break;
     case 'hard':
-      angleError = randomFloat(-5, 5);
-      velocityError = randomFloat(-10, 10);
+      angleError = rng.float(-5, 5);
+      velocityError = rng.float(-10, 10);
       break;
   }
 
@@ -556,25 +553,28 @@ export const GorillasEngine: GameEngine<GorillasState, GorillasMove, GorillasOpt
     transport: 'sse',
     minPlayers: 1,
     maxPlayers: 2,
+    seats: ['player1', 'player2'],
   },
 
-  newGame(options?: GorillasOptions): GorillasState {
+  newGame(options?: GorillasOptions, seed?: string): GorillasState {
+    const rng = rngFromSeed(seed);
     const levelIndex = options?.levelIndex ?? 0;
     const level = LEVELS[Math.min(levelIndex, LEVELS.length - 1)];
 
-    const buildings = generateBuildings(level);
-    const wind = generateWind(level.windRange);
+    const buildings = generateBuildings(level, rng);
+    const wind = generateWind(level.windRange, rng);
 
     const sunPosition: Position = {
       x: CANVAS_WIDTH / 2,
       y: 40,
     };
 
-    const player1Pos = placeGorilla(buildings, true, CANVAS_HEIGHT);
-    const player2Pos = placeGorilla(buildings, false, CANVAS_HEIGHT);
+    const player1Pos = placeGorilla(buildings, true, CANVAS_HEIGHT, rng);
+    const player2Pos = placeGorilla(buildings, false, CANVAS_HEIGHT, rng);
 
     return {
-      gameId: generateGameId(),
+      gameId: generateGameId(rng),
+      rngState: rng.state,
       gameType: 'gorillas',
       status: 'playing',
       turn: 'player',
@@ -602,7 +602,7 @@ export const GorillasEngine: GameEngine<GorillasState, GorillasMove, GorillasOpt
       height: CANVAS_HEIGHT,
       sunPosition,
 
-      isVsAI: options?.vsAI ?? true,
+      isVsAI: options?.vsAI ?? options?.mode !== 'pvp',
       aiDifficulty: options?.aiDifficulty ?? 'medium',
     };
   },
@@ -697,7 +697,8 @@ export const GorillasEngine: GameEngine<GorillasState, GorillasMove, GorillasOpt
 
       // New round - regenerate wind
       const level = LEVELS[Math.min(state.levelIndex, LEVELS.length - 1)];
-      newState = { ...newState, wind: generateWind(level.windRange) };
+      const rng = stateRng(state);
+      newState = { ...newState, wind: generateWind(level.windRange, rng), rngState: rng.state };
     } else if (trajectory.hit === 'building' && trajectory.hitPosition) {
       // Apply explosion damage
       newState = applyExplosionDamage(newState, trajectory.hitPosition);
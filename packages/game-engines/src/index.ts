@@ -8,21 +8,40 @@
 // Core types
 export * from './types';
 
+// Seeded randomness
+export * from './random';
+
 // Chess engine
-export { chessEngine } from './chess';
-export type { ChessState, ChessMove, ChessOptions, PlayerColor } from './chess';
+export { chessEngine, DIFFICULTY_ELO as CHESS_DIFFICULTY_ELO, strengthForElo, searchPosition, evaluateFen } from './chess';
+export type { ChessState, ChessMove, ChessOptions, PlayerColor, ChessStrength, SearchResult as ChessSearchResult } from './chess';
+export {
+  CHESS_OPENINGS,
+  classifyOpening,
+  findOpening,
+  getBookMoves,
+  exportPgn,
+  importPgn,
+  movesToPgn,
+  pgnDateTime,
+  pgnResult,
+} from './chess';
+export type { ChessOpening, OpeningMatch, ImportedPgn, PgnHeaders, PgnResult } from './chess';
 
 // Tic-Tac-Toe engine
 export { tictactoeEngine } from './tictactoe';
 export type { TicTacToeState, TicTacToeMove, TicTacToeOptions, Symbol, Board } from './tictactoe';
 
 // Snake engine
-export { snakeEngine, getVision } from './snake';
-export type { SnakeState, SnakeMove, SnakeOptions, Direction, Position, Vision } from './snake';
+export { snakeEngine, getVision, queueDirection, tickSnake } from './snake';
+export type { SnakeState, SnakeMove, SnakeOptions, OpponentSnake, Direction, Position, Vision } from './snake';
 
 // Minesweeper engine
 export { minesweeperEngine } from './minesweeper';
 export type { MinesweeperState, MinesweeperMove, MinesweeperOptions, CellValue } from './minesweeper';
+export { parseMinesweeperBoard, formatMinesweeperBoard } from './minesweeper/board-format';
+export type { MinesweeperBoard } from './minesweeper/board-format';
+export { getMineProbabilities, analyzeMines, isNoGuessBoard, formatMineProbabilities } from './minesweeper/solver';
+export type { MineView, MineProbabilities } from './minesweeper/solver';
 
 // Canvas engine
 export { canvasEngine } from './canvas';
@@ -31,11 +50,14 @@ export type { CanvasState, CanvasMove, CanvasOptions, CanvasMoveAction } from '.
 // Poly Bridge engine
 export { polybridgeEngine } from './polybridge';
 export type { PolyBridgeState, PolyBridgeMove, PolyBridgeOptions, Structure, PolyBridgeMoveAction } from './polybridge';
-export { LEVELS as POLYBRIDGE_LEVELS, MATERIAL_COSTS } from './polybridge';
+export type { BridgeTestReport, BridgeFailure, MemberStress, BreakPoint } from './polybridge';
+export { LEVELS as POLYBRIDGE_LEVELS, MATERIAL_COSTS, MATERIAL_STRENGTHS, simulateBridge } from './polybridge';
 
 // Sokoban engine
 export { sokobanEngine, SOKOBAN_LEVELS, TOTAL_LEVELS as SOKOBAN_TOTAL_LEVELS } from './sokoban';
-export type { SokobanState, SokobanMove, SokobanOptions, Direction as SokobanDirection, Position as SokobanPosition } from './sokoban';
+export type { SokobanState, SokobanMove, SokobanOptions, SokobanCustomLevel, Direction as SokobanDirection, Position as SokobanPosition } from './sokoban';
+export { parseSok, formatSok, toXsb, toXsbLevel, parseLurd, toLurd, replayLurd } from './sokoban/xsb';
+export type { XsbLevel } from './sokoban/xsb';
 
 // Gorillas engine
 export { GorillasEngine, LEVELS as GORILLAS_LEVELS, simulateThrowPreview, getStrategicHints } from './gorillas';
@@ -51,12 +73,31 @@ export type { LightsOutState, LightsOutMove, LightsOutOptions } from './lightsou
 
 // Pathfinding engine
 export { pathfindingEngine, PATHFINDING_LEVELS, TOTAL_LEVELS as PATHFINDING_TOTAL_LEVELS } from './pathfinding';
-export type { PathfindingState, PathfindingMove, PathfindingOptions, CellType as PathfindingCellType, Algorithm as PathfindingAlgorithm, PathfindingLevel } from './pathfinding';
+export type { PathfindingState, PathfindingMove, PathfindingOptions, CellType as PathfindingCellType, Algorithm as PathfindingAlgorithm, PathfindingLevel, PathfindingCustomLevel } from './pathfinding';
 
 // Sorting engine
 export { sortingEngine, SORTING_LEVELS, TOTAL_LEVELS as SORTING_TOTAL_LEVELS } from './sorting';
 export type { SortingState, SortingMove, SortingOptions, SortingLevel } from './sorting';
 
+// Custom level files (Sokoban, Pathfinding, Poly Bridge)
+export {
+  LEVEL_FORMAT,
+  LEVEL_FORMAT_VERSION,
+  CUSTOM_LEVEL_GAMES,
+  validateLevelFile,
+  parseLevelFile,
+  serializeLevelFile,
+  customLevelOptions,
+} from './level-format';
+export type {
+  CustomLevelGame,
+  CustomLevelFile,
+  SokobanLevelFile,
+  PathfindingLevelFile,
+  PolyBridgeLevelFile,
+  LevelValidation,
+} from './level-format';
+
 // Engine registry for dynamic access
 import { chessEngine } from './chess';
 import { tictactoeEngine } from './tictactoe';
@@ -103,6 +144,13 @@ export function listEngines(): EngineId[] {
   return Object.keys(engines) as EngineId[];
 }
 
+/**
+ * Seat names of a two-player engine (the first seat moves on the 'player' turn)
+ */
+export function getSeats(engine: GameEngine<GameState, unknown>): [string, string] {
+  return engine.metadata.seats ?? ['player1', 'player2'];
+}
+
 /**
  * Get metadata for all engines
  */
@@ -0,0 +1,393 @@
+/**
+ * Custom Level Format
+ *
+ * A shared, versioned JSON file format for authoring levels outside the
+ * built-in sets (Sokoban, Pathfinding, Poly Bridge):
+ *
+ *   {
+ *     "format": "mcpchallenge-level",
+ *     "version": 1,
+ *     "game": "sokoban",
+ *     "name": "Training 1",
+ *     "level": { "map": ["#####", "#@$.#", "#####"] }
+ *   }
+ *
+ * validateLevelFile checks structure, bounds and anchors, and asks the engine
+ * whether the level can be solved; customLevelOptions turns a valid file into
+ * newGame options.
+ */
+
+import type { Difficulty } from './types';
+import { solveSokoban } from './sokoban/solver';
+import { parseXsbMap, type SokobanCustomLevel, type SokobanOptions } from './sokoban';
+import { pathfindingEngine, type PathfindingCustomLevel, type PathfindingOptions } from './pathfinding';
+import { MATERIAL_COSTS, type Level, type Point } from './polybridge/levels';
+import { simulateBridge } from './polybridge/physics';
+import type { PolyBridgeOptions, Structure } from './polybridge';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const LEVEL_FORMAT = 'mcpchallenge-level';
+export const LEVEL_FORMAT_VERSION = 1;
+
+export const CUSTOM_LEVEL_GAMES = ['sokoban', 'pathfinding', 'polybridge'] as const;
+export type CustomLevelGame = (typeof CUSTOM_LEVEL_GAMES)[number];
+
+interface LevelFileHeader<TGame extends CustomLevelGame> {
+  format: typeof LEVEL_FORMAT;
+  version: number;
+  game: TGame;
+  name: string;
+  description?: string;
+  author?: string;
+}
+
+export interface SokobanLevelFile extends LevelFileHeader<'sokoban'> {
+  level: Pick<SokobanCustomLevel, 'map'>;
+}
+
+export interface PathfindingLevelFile extends LevelFileHeader<'pathfinding'> {
+  level: Omit<PathfindingCustomLevel, 'name' | 'description'>;
+}
+
+export interface PolyBridgeLevelFile extends LevelFileHeader<'polybridge'> {
+  level: Omit<Level, 'id' | 'name' | 'description'>;
+}
+
+export type CustomLevelFile = SokobanLevelFile | PathfindingLevelFile | PolyBridgeLevelFile;
+
+export interface LevelValidation {
+  valid: boolean;
+  /** Problems that make the level unplayable */
+  errors: string[];
+  /** Problems the author should look at (e.g. solvability not proven) */
+  warnings: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_NAME_LENGTH = 60;
+const MAX_GRID_SIZE = 50;
+const MAX_CANVAS_SIZE = 2000;
+
+/** Node budget for the Sokoban solvability check */
+const SOKOBAN_CHECK_NODES = 20_000;
+
+const SOKOBAN_SYMBOLS = new Set(['#', '@', '+', '$', '*', '.', ' ', '-', '_']);
+const PATHFINDING_SYMBOLS = new Set(['.', '#', '~', '≈', 'S', 'G']);
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+/** Structures snap to this grid, so anchors must lie on it */
+const POLYBRIDGE_GRID = 10;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Check a parsed level file; solvability is decided by the game's engine
+ */
+export function validateLevelFile(data: unknown): LevelValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const done = () => ({ valid: errors.length === 0, errors, warnings });
+
+  if (!isObject(data)) {
+    errors.push('Level file must be a JSON object');
+    return done();
+  }
+
+  if (data.format !== LEVEL_FORMAT) {
+    errors.push(`format must be "${LEVEL_FORMAT}"`);
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    errors.push('version must be a positive integer');
+  } else if (data.version > LEVEL_FORMAT_VERSION) {
+    errors.push(`Unsupported format version ${data.version} (latest is ${LEVEL_FORMAT_VERSION})`);
+  }
+  if (!CUSTOM_LEVEL_GAMES.includes(data.game as CustomLevelGame)) {
+    errors.push(`game must be one of: ${CUSTOM_LEVEL_GAMES.join(', ')}`);
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.push('name is required');
+  } else if (data.name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  for (const key of ['description', 'author'] as const) {
+    if (data[key] !== undefined && typeof data[key] !== 'string') {
+      errors.push(`${key} must be a string`);
+    }
+  }
+  if (!isObject(data.level)) {
+    errors.push('level must be an object');
+  }
+  if (errors.length > 0) return done();
+
+  const level = data.level as Record<string, unknown>;
+  switch (data.game as CustomLevelGame) {
+    case 'sokoban':
+      validateSokoban(level, errors, warnings);
+      break;
+    case 'pathfinding':
+      validatePathfinding(level, errors, warnings);
+      break;
+    case 'polybridge':
+      validatePolyBridge(level, errors, warnings);
+      break;
+  }
+
+  return done();
+}
+
+/**
+ * Parse and validate a level file; throws with every error found
+ */
+export function parseLevelFile(json: string): CustomLevelFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Level file is not valid JSON');
+  }
+
+  const { valid, errors } = validateLevelFile(data);
+  if (!valid) {
+    throw new Error(`Invalid level file:\n- ${errors.join('\n- ')}`);
+  }
+  return data as CustomLevelFile;
+}
+
+export function serializeLevelFile(file: CustomLevelFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * newGame options that start the level in its engine
+ */
+export function customLevelOptions(file: SokobanLevelFile): SokobanOptions;
+export function customLevelOptions(file: PathfindingLevelFile): PathfindingOptions;
+export function customLevelOptions(file: PolyBridgeLevelFile): PolyBridgeOptions;
+export function customLevelOptions(file: CustomLevelFile): SokobanOptions | PathfindingOptions | PolyBridgeOptions;
+export function customLevelOptions(file: CustomLevelFile): SokobanOptions | PathfindingOptions | PolyBridgeOptions {
+  switch (file.game) {
+    case 'sokoban':
+      return { customLevel: { name: file.name, map: file.level.map } };
+    case 'pathfinding':
+      return { customLevel: { ...file.level, name: file.name, description: file.description } };
+    case 'polybridge':
+      return {
+        customLevel: {
+          ...file.level,
+          id: 'custom',
+          name: file.name,
+          description: file.description ?? '',
+        },
+      };
+  }
+}
+
+// =============================================================================
+// Sokoban
+// =============================================================================
+
+function validateSokoban(level: Record<string, unknown>, errors: string[], warnings: string[]): void {
+  const map = validateMap(level.map, SOKOBAN_SYMBOLS, errors);
+  if (!map) return;
+
+  const count = (symbols: string) =>
+    map.reduce((sum, row) => sum + [...row].filter(c => symbols.includes(c)).length, 0);
+  const players = count('@+');
+  const boxes = count('$*');
+  const goals = count('.+*');
+
+  if (players !== 1) errors.push(`Level needs exactly one player (@ or +), found ${players}`);
+  if (boxes === 0) errors.push('Level needs at least one box ($ or *)');
+  if (boxes !== goals) errors.push(`Box count (${boxes}) must match goal count (${goals})`);
+  if (errors.length > 0) return;
+
+  const parsed = parseXsbMap(map)!;
+  if (!isEnclosed(parsed.board.map(row => row.map(cell => cell === 'wall')), parsed.player)) {
+    errors.push('The player can walk off the map: surround the level with walls');
+    return;
+  }
+  if (count('$') === 0) {
+    errors.push('Every box already sits on a goal');
+    return;
+  }
+
+  const result = solveSokoban(parsed, { maxNodes: SOKOBAN_CHECK_NODES });
+  if (result.status === 'unsolvable') {
+    errors.push('Level cannot be solved');
+  } else if (result.status === 'budget_exceeded') {
+    warnings.push(`Solver gave up after ${result.expanded} positions; solvability is not proven`);
+  }
+}
+
+// =============================================================================
+// Pathfinding
+// =============================================================================
+
+function validatePathfinding(level: Record<string, unknown>, errors: string[], warnings: string[]): void {
+  const map = validateMap(level.map, PATHFINDING_SYMBOLS, errors);
+
+  if (level.difficulty !== undefined && !DIFFICULTIES.includes(level.difficulty as Difficulty)) {
+    errors.push(`difficulty must be one of: ${DIFFICULTIES.join(', ')}`);
+  }
+  if (level.parNodes !== undefined && !isNonNegativeInteger(level.parNodes)) {
+    errors.push('parNodes must be a non-negative integer');
+  }
+  if (level.hint !== undefined && typeof level.hint !== 'string') {
+    errors.push('hint must be a string');
+  }
+  if (!map) return;
+
+  const count = (symbol: string) => map.reduce((sum, row) => sum + [...row].filter(c => c === symbol).length, 0);
+  if (count('S') !== 1) errors.push(`Level needs exactly one start (S), found ${count('S')}`);
+  if (count('G') !== 1) errors.push(`Level needs exactly one goal (G), found ${count('G')}`);
+  if (new Set(map.map(row => [...row].length)).size > 1) {
+    warnings.push('Rows have different lengths; short rows are padded with empty cells');
+  }
+  if (errors.length > 0) return;
+
+  const state = pathfindingEngine.newGame({ customLevel: { name: 'check', map } });
+  if (!pathfindingEngine.solve?.(state)) {
+    errors.push('The goal cannot be reached from the start');
+  }
+}
+
+// =============================================================================
+// Poly Bridge
+// =============================================================================
+
+function validatePolyBridge(level: Record<string, unknown>, errors: string[], warnings: string[]): void {
+  const { width, height, budget, vehicleWeight } = level;
+  if (!isPositive(width) || width > MAX_CANVAS_SIZE) errors.push(`width must be between 1 and ${MAX_CANVAS_SIZE}`);
+  if (!isPositive(height) || height > MAX_CANVAS_SIZE) errors.push(`height must be between 1 and ${MAX_CANVAS_SIZE}`);
+  if (!isPositive(budget)) errors.push('budget must be a positive number');
+  if (!isPositive(vehicleWeight) || vehicleWeight > 5) errors.push('vehicleWeight must be between 0 and 5');
+  if (errors.length > 0) return;
+
+  const inBounds = (p: Point) => p.x >= 0 && p.x <= (width as number) && p.y >= 0 && p.y <= (height as number);
+  const points = (key: string, min: number): Point[] | null => {
+    const value = level[key];
+    if (!Array.isArray(value) || value.length < min || !value.every(isPoint)) {
+      errors.push(`${key} must be a list of at least ${min} {x, y} points`);
+      return null;
+    }
+    if (!value.every(inBounds)) errors.push(`${key} must lie inside the ${width}x${height} canvas`);
+    return value;
+  };
+
+  const terrain = points('terrain', 3);
+  const anchors = points('anchors', 2);
+  for (const key of ['vehicleStart', 'vehicleEnd'] as const) {
+    if (!isPoint(level[key])) errors.push(`${key} must be an {x, y} point`);
+    else if (!inBounds(level[key])) errors.push(`${key} must lie inside the canvas`);
+  }
+  if (!terrain || !anchors || errors.length > 0) return;
+
+  if (anchors.some(a => a.x % POLYBRIDGE_GRID !== 0 || a.y % POLYBRIDGE_GRID !== 0)) {
+    errors.push(`Anchors must lie on the ${POLYBRIDGE_GRID}px build grid`);
+  }
+  if (new Set(anchors.map(a => `${a.x},${a.y}`)).size !== anchors.length) {
+    errors.push('Anchors must not overlap');
+  }
+
+  const start = level.vehicleStart as Point;
+  const end = level.vehicleEnd as Point;
+  const gapStart = Math.min(...anchors.map(a => a.x));
+  const gapEnd = Math.max(...anchors.map(a => a.x));
+  if (gapStart === gapEnd) errors.push('Anchors must span a gap (different x positions)');
+  if (start.x >= gapStart) errors.push('vehicleStart must be left of the first anchor');
+  if (end.x <= gapEnd) errors.push('vehicleEnd must be right of the last anchor');
+  if (errors.length > 0) return;
+
+  // Solvability: try the simplest bridge, a road between consecutive road-level anchors
+  const custom: Level = { ...(level as Omit<Level, 'id' | 'name' | 'description'>), id: 'custom', name: 'check', description: '' };
+  const roadY = Math.max(...anchors.filter(a => a.x === gapStart).map(a => a.y));
+  const deck = anchors.filter(a => a.y === roadY).sort((a, b) => a.x - b.x);
+  if (deck[deck.length - 1].x !== gapEnd) {
+    warnings.push('No anchor on the far side at road level; make sure the road can reach it');
+    return;
+  }
+
+  const structures = deck.slice(1).map((to, i): Structure => ({
+    id: `check-${i}`,
+    type: 'road',
+    material: 'road',
+    start: deck[i],
+    end: to,
+    cost: Math.ceil(((to.x - deck[i].x) * MATERIAL_COSTS.road) / 10),
+  }));
+  const cost = structures.reduce((sum, s) => sum + s.cost, 0);
+  if (cost > custom.budget || !simulateBridge(custom, structures).passed) {
+    warnings.push('A plain deck between the anchors does not hold within budget; check that a truss design does');
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function validateMap(value: unknown, symbols: Set<string>, errors: string[]): string[] | null {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(row => typeof row === 'string')) {
+    errors.push('map must be a non-empty list of strings');
+    return null;
+  }
+
+  const rows = value as string[];
+  if (rows.length > MAX_GRID_SIZE || rows.some(row => [...row].length > MAX_GRID_SIZE)) {
+    errors.push(`map must be at most ${MAX_GRID_SIZE}x${MAX_GRID_SIZE}`);
+    return null;
+  }
+
+  const unknown = new Set(rows.flatMap(row => [...row].filter(c => !symbols.has(c))));
+  if (unknown.size > 0) {
+    errors.push(`map contains unknown symbols: ${[...unknown].map(c => JSON.stringify(c)).join(', ')}`);
+    return null;
+  }
+
+  return rows;
+}
+
+/**
+ * Flood fill from the player; reaching the map edge means there is a way out
+ */
+function isEnclosed(walls: boolean[][], from: { row: number; col: number }): boolean {
+  const seen = new Set<string>();
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const { row, col } = queue.pop()!;
+    const key = `${row},${col}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (row < 0 || row >= walls.length || col < 0 || col >= walls[row].length) return false;
+    if (walls[row][col]) continue;
+
+    queue.push({ row: row - 1, col }, { row: row + 1, col }, { row, col: col - 1 }, { row, col: col + 1 });
+  }
+
+  return true;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPoint(value: unknown): value is Point {
+  return isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
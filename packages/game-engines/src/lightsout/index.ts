@@ -13,7 +13,10 @@ import {
   type MoveResult,
   type GameStateJSON,
   type Difficulty,
+  type Hint,
+  type Solution,
 } from '../types';
+import { rngFromSeed, type Rng } from '../random';
 
 // =============================================================================
 // Types
@@ -26,7 +29,7 @@ export interface LightsOutState extends GameState {
   size: number;
   /** Number of toggles made */
   toggleCount: number;
-  /** Minimum solution length (for scoring) */
+  /** Minimum solution length from the start position (for scoring) */
   minSolution: number;
   /** Difficulty level */
   difficulty: Difficulty;
@@ -54,6 +57,9 @@ const DIFFICULTY_CONFIG: Record<Difficulty, { size: number; toggles: number }> =
   hard: { size: 5, toggles: 15 },     // 15 random toggles
 };
 
+/** Null spaces larger than this are not searched for the lightest solution */
+const MAX_FREE_TOGGLES = 16;
+
 // Cross pattern: the cell and its 4 neighbors
 const NEIGHBORS = [
   [0, 0],   // self
@@ -95,41 +101,109 @@ function isSolved(grid: boolean[][]): boolean {
   return grid.every(row => row.every(cell => !cell));
 }
 
+/**
+ * Find the fewest toggles that turn every light off
+ *
+ * Toggling is addition over GF(2), so the puzzle is the linear system A·x = b
+ * (A: which cells each toggle flips, b: lit cells). Gauss-Jordan elimination
+ * gives one solution; every solution differs from it by a null space vector,
+ * so the lightest one is found by trying each null space combination.
+ * Returns null if the pattern cannot be solved.
+ */
+function solveGrid(grid: boolean[][], size: number): { toggles: LightsOutMove[]; optimal: boolean } | null {
+  const n = size * size;
+
+  // Augmented matrix: row i says which toggles flip cell i, plus whether it is lit
+  const rows: Uint8Array[] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const row = new Uint8Array(n + 1);
+      for (const [dr, dc] of NEIGHBORS) {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr >= 0 && nr < size && nc >= 0 && nc < size) {
+          row[nr * size + nc] = 1;
+        }
+      }
+      row[n] = grid[r][c] ? 1 : 0;
+      rows.push(row);
+    }
+  }
+
+  // Reduce to reduced row echelon form
+  const pivotCols: number[] = [];
+  for (let col = 0; col < n && pivotCols.length < n; col++) {
+    const rank = pivotCols.length;
+    const pivot = rows.findIndex((row, i) => i >= rank && row[col] === 1);
+    if (pivot === -1) continue;
+
+    [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+    for (let i = 0; i < n; i++) {
+      if (i !== rank && rows[i][col]) {
+        for (let k = col; k <= n; k++) rows[i][k] ^= rows[rank][k];
+      }
+    }
+    pivotCols.push(col);
+  }
+
+  // A zero row with a lit target (0 = 1) means no solution
+  for (let i = pivotCols.length; i < n; i++) {
+    if (rows[i][n]) return null;
+  }
+
+  const pivotSet = new Set(pivotCols);
+  const freeCols = Array.from({ length: n }, (_, i) => i).filter(i => !pivotSet.has(i));
+  const searched = freeCols.slice(0, MAX_FREE_TOGGLES);
+
+  let best: Uint8Array | null = null;
+  let bestWeight = Infinity;
+
+  for (let mask = 0; mask < 1 << searched.length; mask++) {
+    const x = new Uint8Array(n);
+    searched.forEach((col, bit) => {
+      x[col] = (mask >> bit) & 1;
+    });
+    pivotCols.forEach((col, i) => {
+      let value = rows[i][n];
+      for (const free of freeCols) value ^= rows[i][free] & x[free];
+      x[col] = value;
+    });
+
+    const weight = x.reduce((sum, bit) => sum + bit, 0);
+    if (weight < bestWeight) {
+      best = x;
+      bestWeight = weight;
+    }
+  }
+
+  const toggles: LightsOutMove[] = [];
+  best?.forEach((bit, i) => {
+    if (bit) toggles.push({ row: Math.floor(i / size), col: i % size });
+  });
+
+  return { toggles, optimal: searched.length === freeCols.length };
+}
+
 /**
  * Generate a solvable puzzle by starting from solved state
  * and applying random toggles
  */
-function generatePuzzle(size: number, toggleCount: number): { grid: boolean[][]; minSolution: number } {
+function generatePuzzle(size: number, toggleCount: number, rng: Rng): { grid: boolean[][]; minSolution: number } {
   const grid = createEmptyGrid(size);
-  const toggledPositions: Set<string> = new Set();
 
-  // Apply random toggles - track unique positions for min solution estimate
   for (let i = 0; i < toggleCount; i++) {
-    const row = Math.floor(Math.random() * size);
-    const col = Math.floor(Math.random() * size);
-    const key = `${row},${col}`;
-
-    toggleCell(grid, row, col, size);
-
-    // XOR logic: toggling same cell twice cancels out
-    if (toggledPositions.has(key)) {
-      toggledPositions.delete(key);
-    } else {
-      toggledPositions.add(key);
-    }
+    toggleCell(grid, rng.int(size), rng.int(size), size);
   }
 
-  // If puzzle is already solved, toggle a few more times
+  // If puzzle is already solved, toggle once more
   if (isSolved(grid)) {
-    const row = Math.floor(Math.random() * size);
-    const col = Math.floor(Math.random() * size);
-    toggleCell(grid, row, col, size);
-    toggledPositions.add(`${row},${col}`);
+    toggleCell(grid, rng.int(size), rng.int(size), size);
   }
 
+  // Reachable from the solved state, so always solvable
   return {
     grid,
-    minSolution: toggledPositions.size,
+    minSolution: solveGrid(grid, size)?.toggles.length ?? toggleCount,
   };
 }
 
@@ -174,15 +248,17 @@ function createLightsOutEngine(): GameEngine<LightsOutState, LightsOutMove, Ligh
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): LightsOutState {
+    newGame(options = {}, seed?: string): LightsOutState {
       const difficulty = options.difficulty ?? 'medium';
       const config = DIFFICULTY_CONFIG[difficulty];
       const size = options.size ?? config.size;
 
-      const { grid, minSolution } = generatePuzzle(size, config.toggles);
+      const rng = rngFromSeed(seed);
+      const gameId = generateGameId(rng);
+      const { grid, minSolution } = generatePuzzle(size, config.toggles, rng);
 
       return {
-        gameId: generateGameId(),
+        gameId,
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -191,6 +267,7 @@ function createLightsOutEngine(): GameEngine<LightsOutState, LightsOutMove, Ligh
         toggleCount: 0,
         minSolution,
         difficulty,
+        rngState: rng.state,
       };
     },
 
@@ -273,6 +350,34 @@ function createLightsOutEngine(): GameEngine<LightsOutState, LightsOutMove, Ligh
       return null;
     },
 
+    solve(state: LightsOutState): Solution<LightsOutMove> | null {
+      const solution = solveGrid(state.grid, state.size);
+      if (!solution) return null;
+
+      return {
+        moves: solution.toggles,
+        cost: solution.toggles.length,
+        outcome: 'won',
+        optimal: solution.optimal,
+      };
+    },
+
+    hint(state: LightsOutState): Hint<LightsOutMove> | null {
+      if (state.status === 'won') return null;
+
+      const solution = this.solve?.(state);
+      if (!solution || solution.moves.length === 0) return null;
+
+      const remaining = solution.cost - 1;
+      return {
+        move: solution.moves[0],
+        explanation: remaining === 0
+          ? 'This toggle turns the last lights off.'
+          : `Part of the shortest solution: ${solution.cost} toggles from here (order does not matter).`,
+        remaining,
+      };
+    },
+
     isGameOver(state: LightsOutState): boolean {
       return state.status === 'won';
     },
@@ -325,7 +430,7 @@ function createLightsOutEngine(): GameEngine<LightsOutState, LightsOutMove, Ligh
       if (state.status === 'won') {
         const efficiency = Math.round((state.minSolution / state.toggleCount) * 100);
         text += `\n\n🎉 Puzzle solved in ${state.toggleCount} moves!`;
-        text += `\nEfficiency: ${efficiency}% (optimal: ~${state.minSolution} moves)`;
+        text += `\nEfficiency: ${efficiency}% (optimal: ${state.minSolution} moves)`;
       } else {
         text += `\n\nGoal: Turn all lights OFF`;
         text += `\nHint: Each toggle affects the cell + its 4 neighbors (cross pattern)`;
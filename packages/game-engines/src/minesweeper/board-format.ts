@@ -0,0 +1,128 @@
+/**
+ * Minesweeper Text Board Format
+ *
+ * A plain-text board, one character per cell, for sharing puzzles with
+ * external tools:
+ *
+ *   ; Beginner puzzle
+ *   ..*......
+ *   .1F......
+ *   ..0......
+ *
+ * - `.` covered cell, `*` covered mine
+ * - `0`-`8` revealed cell (the digit must match the neighbouring mines)
+ * - `F` flagged mine, `f` flag on a safe cell
+ * - `X` revealed (exploded) mine
+ * - Lines starting with `;` are comments; the first one is the title
+ */
+
+import type { CellValue, MinesweeperState } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MinesweeperBoard {
+  title?: string;
+  board: CellValue[][];
+  revealed: boolean[][];
+  flagged: boolean[][];
+  rows: number;
+  cols: number;
+  mineCount: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_SIZE = 100;
+
+const NEIGHBORS = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1],          [0, 1],
+  [1, -1], [1, 0], [1, 1],
+] as const;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parse a text board; throws on malformed boards
+ */
+export function parseMinesweeperBoard(text: string): MinesweeperBoard {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trim());
+  const title = lines.find(line => line.startsWith(';'))?.slice(1).trim() || undefined;
+  const grid = lines.filter(line => line && !line.startsWith(';'));
+
+  if (grid.length === 0) throw new Error('Board is empty');
+  const cols = grid[0].length;
+  if (grid.some(line => line.length !== cols)) throw new Error('Every row must have the same length');
+  if (grid.length > MAX_SIZE || cols > MAX_SIZE) throw new Error(`Board must be at most ${MAX_SIZE}x${MAX_SIZE}`);
+
+  const rows = grid.length;
+  const mines = grid.map((line, row) =>
+    [...line].map((char, col) => {
+      if (!/^[.*0-8FfX]$/.test(char)) {
+        throw new Error(`Unknown symbol "${char}" at row ${row}, column ${col}`);
+      }
+      return char === '*' || char === 'F' || char === 'X';
+    })
+  );
+
+  const board = mines.map((line, row) =>
+    line.map((mine, col): CellValue => (mine ? -1 : countMines(mines, row, col)))
+  );
+  const revealed = grid.map(line => [...line].map(char => /[0-8X]/.test(char)));
+  const flagged = grid.map(line => [...line].map(char => char === 'F' || char === 'f'));
+
+  grid.forEach((line, row) =>
+    [...line].forEach((char, col) => {
+      if (/[0-8]/.test(char) && Number(char) !== board[row][col]) {
+        throw new Error(`Cell at row ${row}, column ${col} shows ${char} but has ${board[row][col]} neighbouring mines`);
+      }
+    })
+  );
+
+  const mineCount = mines.flat().filter(Boolean).length;
+  if (mineCount === 0) throw new Error('Board has no mines');
+  if (mineCount === rows * cols) throw new Error('Board has no safe cells');
+
+  return { title, board, revealed, flagged, rows, cols, mineCount };
+}
+
+/**
+ * Write a game as a text board; mines must already be placed
+ */
+export function formatMinesweeperBoard(state: MinesweeperState, title?: string): string {
+  if (state.firstMove) {
+    throw new Error('Mines are placed on the first reveal; there is no board to export yet');
+  }
+
+  const lines = state.board.map((line, row) =>
+    line
+      .map((value, col) => {
+        const mine = value === -1;
+        if (state.flagged[row][col]) return mine ? 'F' : 'f';
+        if (!state.revealed[row][col]) return mine ? '*' : '.';
+        return mine ? 'X' : String(value);
+      })
+      .join('')
+  );
+
+  if (title) lines.unshift(`; ${title}`);
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function countMines(mines: boolean[][], row: number, col: number): CellValue {
+  let count = 0;
+  for (const [dr, dc] of NEIGHBORS) {
+    if (mines[row + dr]?.[col + dc]) count++;
+  }
+  return count as CellValue;
+}
@@ -14,6 +14,9 @@ import {
   type GameStateJSON,
   type Difficulty,
 } from '../types';
+import { rngFromSeed, stateRng, type Rng } from '../random';
+import { parseMinesweeperBoard } from './board-format';
+import { isNoGuessBoard } from './solver';
 
 // =============================================================================
 // Types
@@ -41,6 +44,8 @@ export interface MinesweeperState extends GameState {
   elapsedSeconds: number;
   /** First move protection - mines are placed after first click */
   firstMove: boolean;
+  /** Mines are laid out so the board can be cleared without guessing */
+  noGuess?: boolean;
 }
 
 export interface MinesweeperMove {
@@ -51,6 +56,10 @@ export interface MinesweeperMove {
 
 export interface MinesweeperOptions {
   difficulty?: Difficulty;
+  /** Play a fixed board in the text board format instead of a random one */
+  board?: string;
+  /** Only deal boards that can be solved by logic alone from the first click */
+  noGuess?: boolean;
 }
 
 // =============================================================================
@@ -63,6 +72,9 @@ const DIFFICULTY_CONFIG: Record<Difficulty, { rows: number; cols: number; mines:
   hard: { rows: 16, cols: 30, mines: 99 },
 };
 
+/** Layouts tried per first click before giving up on a no-guess board */
+const MAX_NO_GUESS_ATTEMPTS = 500;
+
 const NEIGHBORS = [
   [-1, -1], [-1, 0], [-1, 1],
   [0, -1],          [0, 1],
@@ -84,7 +96,8 @@ function placeMines(
   cols: number,
   mineCount: number,
   excludeRow: number,
-  excludeCol: number
+  excludeCol: number,
+  rng: Rng
 ): CellValue[][] {
   const board = createEmptyBoard<CellValue>(rows, cols, 0);
   let placed = 0;
@@ -102,10 +115,7 @@ function placeMines(
   }
 
   // Shuffle and pick mine positions
-  for (let i = validPositions.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [validPositions[i], validPositions[j]] = [validPositions[j], validPositions[i]];
-  }
+  rng.shuffle(validPositions);
 
   const minePositions = validPositions.slice(0, Math.min(mineCount, validPositions.length));
 
@@ -135,6 +145,25 @@ function placeMines(
   return board;
 }
 
+/**
+ * Place mines until the layout can be cleared by logic alone from the first
+ * click; null if no such layout turns up within the attempt budget
+ */
+function placeSolvableMines(
+  rows: number,
+  cols: number,
+  mineCount: number,
+  firstRow: number,
+  firstCol: number,
+  rng: Rng
+): CellValue[][] | null {
+  for (let attempt = 0; attempt < MAX_NO_GUESS_ATTEMPTS; attempt++) {
+    const board = placeMines(rows, cols, mineCount, firstRow, firstCol, rng);
+    if (isNoGuessBoard(board, firstRow, firstCol)) return board;
+  }
+  return null;
+}
+
 function floodReveal(
   board: CellValue[][],
   revealed: boolean[][],
@@ -229,6 +258,35 @@ function getVisibleBoard(state: MinesweeperState): string[][] {
   return visible;
 }
 
+/**
+ * Start a game on a fixed board; mines are already placed
+ */
+function loadBoard(text: string, seed?: string): MinesweeperState {
+  const { board, revealed, flagged, rows, cols, mineCount } = parseMinesweeperBoard(text);
+  const rng = rngFromSeed(seed);
+  const exploded = board.some((line, r) => line.some((value, c) => value === -1 && revealed[r][c]));
+
+  const state: MinesweeperState = {
+    gameId: generateGameId(rng),
+    status: 'playing',
+    turn: 'player',
+    moveCount: 0,
+    board,
+    revealed,
+    flagged,
+    rows,
+    cols,
+    mineCount,
+    flagsRemaining: mineCount - countFlagged(flagged),
+    startTime: null,
+    elapsedSeconds: 0,
+    firstMove: false,
+    rngState: rng.state,
+  };
+
+  return { ...state, status: exploded ? 'lost' : checkWin(state) ? 'won' : 'playing' };
+}
+
 // =============================================================================
 // Minesweeper Engine Implementation
 // =============================================================================
@@ -252,9 +310,14 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): MinesweeperState {
+    newGame(options = {}, seed?: string): MinesweeperState {
+      if (options.board !== undefined) {
+        return loadBoard(options.board, seed);
+      }
+
       const difficulty = options.difficulty ?? 'easy';
       const config = DIFFICULTY_CONFIG[difficulty];
+      const rng = rngFromSeed(seed);
 
       // Create empty board - mines will be placed on first click
       const board = createEmptyBoard<CellValue>(config.rows, config.cols, 0);
@@ -262,7 +325,7 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
       const flagged = createEmptyBoard(config.rows, config.cols, false);
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rng),
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -276,6 +339,8 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
         startTime: null,
         elapsedSeconds: 0,
         firstMove: true,
+        ...(options.noGuess ? { noGuess: true } : {}),
+        rngState: rng.state,
       };
     },
 
@@ -370,6 +435,7 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
       let newStatus = state.status;
       let newStartTime = state.startTime;
       let isFirstMove = state.firstMove;
+      let newRngState = state.rngState;
 
       if (action === 'flag') {
         // Toggle flag
@@ -390,7 +456,19 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
 
       // First move - place mines avoiding clicked area
       if (isFirstMove) {
-        newBoard = placeMines(rows, cols, state.mineCount, row, col);
+        const rng = stateRng(state);
+        const placed = state.noGuess
+          ? placeSolvableMines(rows, cols, state.mineCount, row, col, rng)
+          : placeMines(rows, cols, state.mineCount, row, col, rng);
+        if (!placed) {
+          return {
+            state,
+            valid: false,
+            error: `Could not deal a no-guess board around (${row}, ${col}); try another first cell`,
+          };
+        }
+        newBoard = placed;
+        newRngState = rng.state;
         newStartTime = Date.now();
         isFirstMove = false;
       }
@@ -409,6 +487,7 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
           lastMoveAt: Date.now(),
           startTime: newStartTime,
           firstMove: isFirstMove,
+          rngState: newRngState,
         };
 
         return {
@@ -441,6 +520,7 @@ function createMinesweeperEngine(): GameEngine<MinesweeperState, MinesweeperMove
         lastMoveAt: Date.now(),
         startTime: newStartTime,
         firstMove: isFirstMove,
+        rngState: newRngState,
       };
 
       if (hasWon) {
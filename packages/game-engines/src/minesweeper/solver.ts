@@ -0,0 +1,393 @@
+/**
+ * Minesweeper Constraint Solver
+ *
+ * Exact mine probabilities for the covered cells of a board, from the revealed
+ * numbers and the total mine count:
+ *
+ * - Covered cells next to a revealed number are split into independent groups
+ *   that share no number; each group's mine layouts are enumerated
+ * - Groups are combined with the remaining (unconstrained) cells, weighting
+ *   every layout by the ways to place the leftover mines among those cells
+ *
+ * Flags are ignored (they may be wrong). The same solver decides whether a
+ * board can be cleared without guessing, for no-guess board generation.
+ */
+
+import type { CellValue, MinesweeperState } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MineView {
+  board: CellValue[][];
+  revealed: boolean[][];
+  rows: number;
+  cols: number;
+  mineCount: number;
+  /** Cells already known to be mines (not searched) */
+  knownMines?: boolean[][];
+}
+
+export interface MineProbabilities {
+  /** Chance that each covered cell is a mine; null for revealed cells */
+  probabilities: (number | null)[][];
+  /** Covered cells that are certainly safe */
+  safe: [number, number][];
+  /** Covered cells that are certainly mines */
+  mines: [number, number][];
+  /** False when a group was too large to enumerate; its cells get the average density */
+  exact: boolean;
+}
+
+interface Group {
+  cells: [number, number][];
+  /** Layouts by mine count */
+  layouts: number[];
+  /** Per cell, layouts with a mine there by mine count */
+  cellMines: number[][];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const NEIGHBORS = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1],          [0, 1],
+  [1, -1], [1, 0], [1, 1],
+] as const;
+
+/** Search budget per group before falling back to the average density */
+const MAX_SEARCH_NODES = 200_000;
+
+/** Tolerance when deciding that a probability is exactly 0 or 1 */
+const EPSILON = 1e-9;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Mine probabilities for a game in progress; before the first reveal every
+ * cell is safe (mines are placed around the first click)
+ */
+export function getMineProbabilities(state: MinesweeperState): MineProbabilities {
+  if (state.firstMove) {
+    const probabilities = state.revealed.map(line => line.map(open => (open ? null : 0)));
+    return { probabilities, safe: coveredCells(state.revealed), mines: [], exact: true };
+  }
+  return analyzeMines(state);
+}
+
+/**
+ * Solve a board view exactly
+ */
+export function analyzeMines(view: MineView): MineProbabilities {
+  const { rows, cols, revealed } = view;
+  const knownMines = view.knownMines ?? revealed.map(line => line.map(() => false));
+  const probabilities: (number | null)[][] = revealed.map((line, r) =>
+    line.map((open, c) => (open ? null : knownMines[r][c] ? 1 : 0))
+  );
+
+  // Unknown covered cells, and the numbers that constrain them
+  const index = revealed.map(line => line.map(() => -1));
+  const unknown: [number, number][] = [];
+  const constraints: { cells: number[]; mines: number }[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!revealed[r][c] || view.board[r][c] < 0) continue;
+
+      const cells: number[] = [];
+      let mines = view.board[r][c];
+      for (const [nr, nc] of neighbors(r, c, rows, cols)) {
+        if (revealed[nr][nc]) continue;
+        if (knownMines[nr][nc]) {
+          mines--;
+          continue;
+        }
+        if (index[nr][nc] === -1) {
+          index[nr][nc] = unknown.length;
+          unknown.push([nr, nc]);
+        }
+        cells.push(index[nr][nc]);
+      }
+      if (cells.length > 0) constraints.push({ cells, mines });
+    }
+  }
+
+  const knownCount = knownMines.flat().filter(Boolean).length;
+  const minesLeft = view.mineCount - knownCount;
+  const interior = coveredCells(revealed).filter(([r, c]) => !knownMines[r][c] && index[r][c] === -1);
+
+  // Enumerate each group; oversized groups are treated like interior cells
+  let exact = true;
+  const groups: Group[] = [];
+  const approximate: [number, number][] = [];
+  for (const cells of splitGroups(unknown.length, constraints)) {
+    const group = enumerateGroup(cells, constraints);
+    if (group) {
+      groups.push({ ...group, cells: cells.map(i => unknown[i]) });
+    } else {
+      exact = false;
+      approximate.push(...cells.map(i => unknown[i]));
+    }
+  }
+  const free = [...interior, ...approximate];
+
+  // Layouts of all groups together, by total mine count
+  const combined = groups.reduce<number[]>((dist, group) => convolve(dist, group.layouts), [1]);
+  // Ways to place the leftover mines among the free cells, in log space (scaled) to avoid overflow
+  const logWays = (groupMines: number) =>
+    groupMines > minesLeft || minesLeft - groupMines > free.length
+      ? -Infinity
+      : logBinomial(free.length, minesLeft - groupMines);
+  const logScale = Math.max(...combined.map((_, m) => logWays(m)));
+  const freeWays = (groupMines: number) => Math.exp(logWays(groupMines) - logScale);
+
+  const total = combined.reduce((sum, ways, m) => sum + ways * freeWays(m), 0);
+  if (total === 0) {
+    throw new Error('The revealed numbers contradict each other');
+  }
+
+  // Each group's cells: its own layouts times every layout of the others
+  groups.forEach((group, g) => {
+    const others = groups.reduce<number[]>((dist, other, o) => (o === g ? dist : convolve(dist, other.layouts)), [1]);
+    const groupWeight = group.layouts.map((_, k) =>
+      others.reduce((sum, ways, m) => sum + ways * freeWays(k + m), 0)
+    );
+    group.cells.forEach(([r, c], i) => {
+      const mineWays = group.cellMines[i].reduce((sum, ways, k) => sum + ways * groupWeight[k], 0);
+      probabilities[r][c] = mineWays / total;
+    });
+  });
+
+  // Free cells share the leftover mines evenly
+  if (free.length > 0) {
+    const expected = combined.reduce((sum, ways, m) => sum + ways * freeWays(m) * (minesLeft - m), 0) / total;
+    for (const [r, c] of free) probabilities[r][c] = expected / free.length;
+  }
+
+  const safe: [number, number][] = [];
+  const mines: [number, number][] = [];
+  const certain = (exact ? [...groups.flatMap(group => group.cells), ...interior] : groups.flatMap(group => group.cells))
+    .sort(([r1, c1], [r2, c2]) => r1 - r2 || c1 - c2);
+  for (const [r, c] of certain) {
+    const p = probabilities[r][c]!;
+    if (p < EPSILON) safe.push([r, c]);
+    else if (p > 1 - EPSILON) mines.push([r, c]);
+  }
+
+  return { probabilities, safe, mines, exact };
+}
+
+/**
+ * Can the board be cleared from the first click by logic alone?
+ */
+export function isNoGuessBoard(board: CellValue[][], row: number, col: number): boolean {
+  const rows = board.length;
+  const cols = board[0].length;
+  const mineCount = board.flat().filter(value => value === -1).length;
+  const revealed = board.map(line => line.map(() => false));
+  const knownMines = board.map(line => line.map(() => false));
+  const view: MineView = { board, revealed, rows, cols, mineCount, knownMines };
+
+  reveal(board, revealed, row, col);
+  for (;;) {
+    if (coveredCells(revealed).length === mineCount) return true;
+    if (applySimpleRules(view)) continue;
+
+    const { safe, mines, exact } = analyzeMines(view);
+    if (!exact || safe.length === 0) return false;
+    for (const [r, c] of mines) knownMines[r][c] = true;
+    for (const [r, c] of safe) reveal(board, revealed, r, c);
+  }
+}
+
+/**
+ * Mine probabilities as a grid of percentages, with the certain cells listed
+ */
+export function formatMineProbabilities({ probabilities, safe, mines, exact }: MineProbabilities): string {
+  const cols = probabilities[0]?.length ?? 0;
+  const lines = ['    ' + Array.from({ length: cols }, (_, c) => String(c).padStart(4)).join('')];
+  probabilities.forEach((line, r) => {
+    const cells = line.map(p => (p === null ? '   .' : `${Math.round(p * 100)}`.padStart(4)));
+    lines.push(String(r).padStart(4) + cells.join(''));
+  });
+
+  const list = (cells: [number, number][]) =>
+    cells.length > 0 ? cells.map(([r, c]) => `${r},${c}`).join(' ') : 'none';
+  lines.push('', `Safe: ${list(safe)}`, `Mines: ${list(mines)}`);
+
+  const covered = probabilities.flatMap((line, r) =>
+    line.flatMap((p, c): [number, number, number][] => (p === null ? [] : [[r, c, p]]))
+  );
+  const guess = covered.filter(([, , p]) => p > EPSILON && p < 1 - EPSILON).sort((a, b) => a[2] - b[2])[0];
+  if (safe.length === 0 && guess) {
+    lines.push(`No safe cell; lowest risk: ${guess[0]},${guess[1]} (${Math.round(guess[2] * 100)}%)`);
+  }
+  if (!exact) {
+    lines.push('Some cells are estimates (too many layouts to count exactly)');
+  }
+  return lines.join('\n');
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function neighbors(row: number, col: number, rows: number, cols: number): [number, number][] {
+  return NEIGHBORS.map(([dr, dc]): [number, number] => [row + dr, col + dc]).filter(
+    ([r, c]) => r >= 0 && r < rows && c >= 0 && c < cols
+  );
+}
+
+function coveredCells(revealed: boolean[][]): [number, number][] {
+  return revealed.flatMap((line, r) => line.flatMap((open, c): [number, number][] => (open ? [] : [[r, c]])));
+}
+
+/** Reveal a cell, opening the area around zeros */
+function reveal(board: CellValue[][], revealed: boolean[][], row: number, col: number): void {
+  const stack: [number, number][] = [[row, col]];
+  while (stack.length > 0) {
+    const [r, c] = stack.pop()!;
+    if (revealed[r][c]) continue;
+    revealed[r][c] = true;
+    if (board[r][c] === 0) stack.push(...neighbors(r, c, board.length, board[0].length));
+  }
+}
+
+/**
+ * Single-number deductions (all neighbours safe, or all mines); cheap enough
+ * to run before the full search. Returns whether anything changed.
+ */
+function applySimpleRules(view: MineView): boolean {
+  const { board, revealed, rows, cols } = view;
+  const knownMines = view.knownMines!;
+  let changed = false;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!revealed[r][c] || board[r][c] <= 0) continue;
+
+      const around = neighbors(r, c, rows, cols).filter(([nr, nc]) => !revealed[nr][nc]);
+      const unknown = around.filter(([nr, nc]) => !knownMines[nr][nc]);
+      if (unknown.length === 0) continue;
+
+      const missing = board[r][c] - (around.length - unknown.length);
+      if (missing === 0) {
+        for (const [nr, nc] of unknown) reveal(board, revealed, nr, nc);
+        changed = true;
+      } else if (missing === unknown.length) {
+        for (const [nr, nc] of unknown) knownMines[nr][nc] = true;
+        changed = true;
+      }
+    }
+  }
+  return changed;
+}
+
+/** Connected groups of cells (by shared numbers) */
+function splitGroups(cellCount: number, constraints: { cells: number[] }[]): number[][] {
+  const parent = Array.from({ length: cellCount }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (const { cells } of constraints) {
+    for (const cell of cells.slice(1)) parent[find(cell)] = find(cells[0]);
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < cellCount; i++) {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Count a group's mine layouts by backtracking, numbers checked as cells are
+ * assigned; null when the search budget runs out
+ */
+function enumerateGroup(
+  cells: number[],
+  allConstraints: { cells: number[]; mines: number }[]
+): Omit<Group, 'cells'> | null {
+  const position = new Map(cells.map((cell, i) => [cell, i]));
+  const constraints = allConstraints
+    .filter(constraint => position.has(constraint.cells[0]))
+    .map(constraint => ({ cells: constraint.cells.map(cell => position.get(cell)!), mines: constraint.mines }));
+  const touching = cells.map(() => [] as number[]);
+  constraints.forEach((constraint, i) => constraint.cells.forEach(cell => touching[cell].push(i)));
+
+  // Assign cells in constraint order so numbers are completed early
+  const order: number[] = [];
+  const seen = new Set<number>();
+  for (const constraint of constraints) {
+    for (const cell of constraint.cells) {
+      if (!seen.has(cell)) {
+        seen.add(cell);
+        order.push(cell);
+      }
+    }
+  }
+
+  const placed = constraints.map(() => 0);
+  const open = constraints.map(constraint => constraint.cells.length);
+  const assignment = cells.map(() => 0);
+  const layouts: number[] = [];
+  const cellMines = cells.map(() => [] as number[]);
+  let nodes = 0;
+
+  const search = (depth: number, mines: number): boolean => {
+    if (++nodes > MAX_SEARCH_NODES) return false;
+    if (depth === order.length) {
+      layouts[mines] = (layouts[mines] ?? 0) + 1;
+      assignment.forEach((value, i) => {
+        if (value) cellMines[i][mines] = (cellMines[i][mines] ?? 0) + 1;
+      });
+      return true;
+    }
+
+    const cell = order[depth];
+    for (const value of [0, 1]) {
+      assignment[cell] = value;
+      let consistent = true;
+      for (const i of touching[cell]) {
+        placed[i] += value;
+        open[i]--;
+        if (placed[i] > constraints[i].mines || placed[i] + open[i] < constraints[i].mines) consistent = false;
+      }
+      const finished = !consistent || search(depth + 1, mines + value);
+      for (const i of touching[cell]) {
+        placed[i] -= value;
+        open[i]++;
+      }
+      if (!finished) return false;
+    }
+    assignment[cell] = 0;
+    return true;
+  };
+
+  if (!search(0, 0)) return null;
+
+  const size = layouts.length;
+  return {
+    layouts: Array.from({ length: size }, (_, k) => layouts[k] ?? 0),
+    cellMines: cellMines.map(counts => Array.from({ length: size }, (_, k) => counts[k] ?? 0)),
+  };
+}
+
+function convolve(a: number[], b: number[]): number[] {
+  const result = Array.from({ length: a.length + b.length - 1 }, () => 0);
+  a.forEach((x, i) => b.forEach((y, j) => (result[i + j] += x * y)));
+  return result;
+}
+
+const logFactorials: number[] = [0];
+
+function logBinomial(n: number, k: number): number {
+  for (let i = logFactorials.length; i <= n; i++) {
+    logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  }
+  return logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+}
@@ -13,7 +13,10 @@ import {
   type MoveResult,
   type GameStateJSON,
   type Difficulty,
+  type Hint,
+  type Solution,
 } from '../types';
+import { rngFromSeed, stateRng, type Rng } from '../random';
 
 // =============================================================================
 // Types
@@ -72,6 +75,17 @@ export interface PathfindingOptions {
   difficulty?: Difficulty;
   level?: number;  // Start at specific level
   mode?: 'sandbox' | 'challenge';
+  customLevel?: PathfindingCustomLevel;  // Play a custom level (challenge mode, levelIndex 0)
+}
+
+/** A level authored outside the built-in set */
+export interface PathfindingCustomLevel {
+  name: string;
+  description?: string;
+  map: string[];  // Same symbols as PATHFINDING_LEVELS maps
+  difficulty?: Difficulty;
+  parNodes?: number;
+  hint?: string;
 }
 
 // =============================================================================
@@ -108,7 +122,7 @@ export interface PathfindingLevel {
   width: number;
   height: number;
   map: string;  // Use symbols: . = empty, # = wall, ~ = mud, ≈ = water, S = start, G = goal
-  parCost: number;  // Optimal path cost for scoring
+  parCost: number;  // Fallback par cost (the solved optimum is used when the goal is reachable)
   parNodes: number; // Optimal nodes expanded (A*)
   difficulty: Difficulty;
   hint?: string;
@@ -387,10 +401,37 @@ function parseLevel(level: PathfindingLevel): { grid: Cell[][]; start: Position
   return { grid, start, goal };
 }
 
+function toPathfindingLevel(level: PathfindingCustomLevel): PathfindingLevel {
+  return {
+    id: 0,
+    name: level.name,
+    description: level.description ?? '',
+    width: Math.max(0, ...level.map.map(row => [...row].length)),
+    height: level.map.length,
+    map: level.map.join('\n'),
+    parCost: 0,
+    parNodes: level.parNodes ?? 0,
+    difficulty: level.difficulty ?? 'medium',
+    hint: level.hint,
+  };
+}
+
+/**
+ * Par cost for a level: the cheapest path cost, or the listed par if the
+ * goal cannot be reached
+ */
+function levelParCost(level: PathfindingLevel, grid: Cell[][], start: Position | null, goal: Position | null): number {
+  const { path, totalCost } = runDijkstra({ grid, width: level.width, height: grid.length, start, goal });
+  return path.length > 0 ? totalCost : level.parCost;
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
+/** The parts of the state the search algorithms read */
+type SearchGrid = Pick<PathfindingState, 'grid' | 'width' | 'height' | 'start' | 'goal'>;
+
 function createEmptyGrid(width: number, height: number): Cell[][] {
   return Array.from({ length: height }, () =>
     Array.from({ length: width }, () => ({
@@ -430,8 +471,8 @@ class PriorityQueue<T> {
 }
 
 // BFS Algorithm
-function runBFS(state: PathfindingState): { path: Position[]; nodesExpanded: number } {
-  if (!state.start || !state.goal) return { path: [], nodesExpanded: 0 };
+function runBFS(state: SearchGrid): { path: Position[]; nodesExpanded: number; totalCost: number } {
+  if (!state.start || !state.goal) return { path: [], nodesExpanded: 0, totalCost: 0 };
 
   const grid = cloneGrid(state.grid);
   const queue: Position[] = [state.start];
@@ -455,7 +496,9 @@ function runBFS(state: PathfindingState): { path: Position[]; nodesExpanded: num
         path.unshift(node);
         node = parent.get(key(node)) ?? null;
       }
-      return { path, nodesExpanded };
+      // BFS ignores terrain, but the path is still charged for it
+      const totalCost = path.slice(1).reduce((sum, p) => sum + CELL_COSTS[grid[p.row][p.col].type], 0);
+      return { path, nodesExpanded, totalCost };
     }
 
     for (const [dr, dc] of DIRECTIONS_4) {
@@ -474,11 +517,11 @@ function runBFS(state: PathfindingState): { path: Position[]; nodesExpanded: num
     }
   }
 
-  return { path: [], nodesExpanded };
+  return { path: [], nodesExpanded, totalCost: 0 };
 }
 
 // Dijkstra Algorithm
-function runDijkstra(state: PathfindingState): { path: Position[]; nodesExpanded: number; totalCost: number } {
+function runDijkstra(state: SearchGrid): { path: Position[]; nodesExpanded: number; totalCost: number } {
   if (!state.start || !state.goal) return { path: [], nodesExpanded: 0, totalCost: 0 };
 
   const pq = new PriorityQueue<Position>();
@@ -533,7 +576,7 @@ function runDijkstra(state: PathfindingState): { path: Position[]; nodesExpanded
 }
 
 // A* Algorithm
-function runAStar(state: PathfindingState): { path: Position[]; nodesExpanded: number; totalCost: number } {
+function runAStar(state: SearchGrid): { path: Position[]; nodesExpanded: number; totalCost: number } {
   if (!state.start || !state.goal) return { path: [], nodesExpanded: 0, totalCost: 0 };
 
   const pq = new PriorityQueue<Position>();
@@ -589,7 +632,7 @@ function runAStar(state: PathfindingState): { path: Position[]; nodesExpanded: n
 }
 
 // Generate random maze using recursive backtracking
-function generateMaze(width: number, height: number): { grid: Cell[][]; start: Position; goal: Position } {
+function generateMaze(width: number, height: number, rng: Rng): { grid: Cell[][]; start: Position; goal: Position } {
   const grid = createEmptyGrid(width, height);
 
   // Fill with walls
@@ -618,7 +661,7 @@ function generateMaze(width: number, height: number): { grid: Cell[][]; start: P
     }
 
     if (neighbors.length > 0) {
-      const next = neighbors[Math.floor(Math.random() * neighbors.length)];
+      const next = rng.pick(neighbors);
       // Remove wall between current and next
       const midR = (current.row + next.row) / 2;
       const midC = (current.col + next.col) / 2;
@@ -633,8 +676,8 @@ function generateMaze(width: number, height: number): { grid: Cell[][]; start: P
   // Add some mud and water randomly
   for (let r = 0; r < height; r++) {
     for (let c = 0; c < width; c++) {
-      if (grid[r][c].type === 'empty' && Math.random() < 0.1) {
-        grid[r][c].type = Math.random() < 0.5 ? 'mud' : 'water';
+      if (grid[r][c].type === 'empty' && rng.chance(0.1)) {
+        grid[r][c].type = rng.chance(0.5) ? 'mud' : 'water';
       }
     }
   }
@@ -693,17 +736,19 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
       maxPlayers: 1,
     },
 
-    newGame(options = {}): PathfindingState {
+    newGame(options = {}, seed?: string): PathfindingState {
+      const rng = rngFromSeed(seed);
       const mode = options.mode ?? 'challenge';
-      const levelIndex = options.level ?? 1;
+      const levelIndex = options.customLevel ? 0 : options.level ?? 1;
 
       // Challenge mode: load level
-      if (mode === 'challenge' && levelIndex >= 1 && levelIndex <= TOTAL_LEVELS) {
-        const level = PATHFINDING_LEVELS[levelIndex - 1];
+      if (options.customLevel || (mode === 'challenge' && levelIndex >= 1 && levelIndex <= TOTAL_LEVELS)) {
+        const level = options.customLevel ? toPathfindingLevel(options.customLevel) : PATHFINDING_LEVELS[levelIndex - 1];
         const { grid, start, goal } = parseLevel(level);
 
         return {
-          gameId: generateGameId(),
+          gameId: generateGameId(rng),
+          rngState: rng.state,
           status: 'playing',
           turn: 'player',
           moveCount: 0,
@@ -721,7 +766,7 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
           difficulty: level.difficulty,
           levelIndex,
           totalLevels: TOTAL_LEVELS,
-          parCost: level.parCost,
+          parCost: levelParCost(level, grid, start, goal),
           parNodes: level.parNodes,
           levelName: level.name,
           mode: 'challenge',
@@ -737,7 +782,8 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
       const grid = createEmptyGrid(width, height);
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rng),
+        rngState: rng.state,
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -898,7 +944,7 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
             }
           }
 
-          let result: { path: Position[]; nodesExpanded: number; totalCost?: number };
+          let result: { path: Position[]; nodesExpanded: number; totalCost: number };
 
           switch (algorithm) {
             case 'bfs':
@@ -916,7 +962,7 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
 
           newState.pathFound = result.path.length > 0;
           newState.pathLength = result.path.length;
-          newState.pathCost = result.totalCost ?? result.path.length;
+          newState.pathCost = result.totalCost;
           newState.nodesExpanded = result.nodesExpanded;
           newState.path = result.path;
 
@@ -956,10 +1002,12 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
         }
 
         case 'generate_maze': {
-          const { grid, start, goal } = generateMaze(state.width, state.height);
+          const rng = stateRng(state);
+          const { grid, start, goal } = generateMaze(state.width, state.height, rng);
           return {
             state: {
               ...newState,
+              rngState: rng.state,
               grid,
               start,
               goal,
@@ -1001,7 +1049,7 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
               difficulty: level.difficulty,
               levelIndex: levelNum,
               levelName: level.name,
-              parCost: level.parCost,
+              parCost: levelParCost(level, grid, start, goal),
               parNodes: level.parNodes,
               mode: 'challenge',
               status: 'playing',
@@ -1036,7 +1084,7 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
               difficulty: level.difficulty,
               levelIndex: nextLevel,
               levelName: level.name,
-              parCost: level.parCost,
+              parCost: levelParCost(level, grid, start, goal),
               parNodes: level.parNodes,
               mode: 'challenge',
               status: 'playing',
@@ -1050,6 +1098,33 @@ function createPathfindingEngine(): GameEngine<PathfindingState, PathfindingMove
       }
     },
 
+    solve(state: PathfindingState): Solution<PathfindingMove> | null {
+      // Dijkstra proves the cheapest cost; A* reaches the same cost expanding fewer nodes
+      const { path, totalCost } = runDijkstra(state);
+      if (path.length === 0) return null;
+
+      return {
+        moves: [{ action: 'find_path', algorithm: 'astar' }],
+        cost: totalCost,
+        outcome: 'won',
+        optimal: true,
+      };
+    },
+
+    hint(state: PathfindingState): Hint<PathfindingMove> | null {
+      const solution = this.solve?.(state);
+      if (!solution) return null;
+
+      const weighted = state.grid.some(row => row.some(cell => cell.type === 'mud' || cell.type === 'water'));
+      return {
+        move: solution.moves[0],
+        explanation: weighted
+          ? `The cheapest path costs ${solution.cost}. BFS ignores mud and water costs; A* finds the cheapest path and expands the fewest nodes.`
+          : `The cheapest path costs ${solution.cost}. A* finds it while expanding the fewest nodes.`,
+        remaining: 0,
+      };
+    },
+
     getAIMove(): PathfindingMove | null {
       return null; // Single-player
     },
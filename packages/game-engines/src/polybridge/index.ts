@@ -4,8 +4,8 @@
  * A bridge-building puzzle game. Build bridges using beams, cables, and road
  * segments, then test if vehicles can cross safely.
  *
- * Note: Physics simulation runs client-side only (matter.js).
- * This engine manages the structure data and validation.
+ * Tests run the engine's own truss simulation (see ./physics), so the verdict,
+ * member stresses and break point come from the engine, not the client.
  */
 
 import {
@@ -16,7 +16,9 @@ import {
   type MoveResult,
   type GameStateJSON,
 } from '../types';
+import { rngFromSeed, stateRng, type Rng } from '../random';
 import { LEVELS, getLevelByIndex, MATERIAL_COSTS, type Level, type Point, type MaterialType } from './levels';
+import { simulateBridge, type BridgeFailure, type BridgeTestReport } from './physics';
 
 // =============================================================================
 // Types
@@ -34,15 +36,17 @@ export interface Structure {
 export interface PolyBridgeState extends GameState {
   /** Current level */
   level: Level;
-  /** Level index (0-4) */
+  /** Level index (0-4, -1 for a custom level) */
   levelIndex: number;
   /** Built structures */
   structures: Structure[];
   /** Total budget used */
   budgetUsed: number;
   /** Test result */
-  testResult: 'untested' | 'testing' | 'passed' | 'failed';
-  /** Vehicle progress during test (0-100) */
+  testResult: 'untested' | 'passed' | 'failed';
+  /** Simulation report of the last test (null until tested) */
+  testReport: BridgeTestReport | null;
+  /** How far the vehicle got in the last test (0-100) */
   vehicleProgress: number;
   /** Whether the level is complete */
   levelComplete: boolean;
@@ -52,8 +56,6 @@ export type PolyBridgeMoveAction =
   | 'add_structure'
   | 'remove_structure'
   | 'start_test'
-  | 'test_passed'
-  | 'test_failed'
   | 'reset'
   | 'next_level';
 
@@ -72,14 +74,16 @@ export interface PolyBridgeMove {
 
 export interface PolyBridgeOptions {
   levelIndex?: number;
+  /** Play a custom level (levelIndex -1) instead of a built-in one */
+  customLevel?: Level;
 }
 
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
-function generateStructureId(): string {
-  return `s-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+function generateStructureId(rng: Rng): string {
+  return `s-${rng.int(0x100000000).toString(36).padStart(7, '0')}`;
 }
 
 function calculateDistance(start: Point, end: Point): number {
@@ -98,6 +102,17 @@ function calculateStructureCost(type: 'beam' | 'cable' | 'road', material: Mater
   return Math.ceil(length * costPerUnit / 10);
 }
 
+const FAILURE_TEXT: Record<BridgeFailure, string> = {
+  no_deck: 'no road under the vehicle',
+  too_steep: 'road too steep to drive',
+  collapsed: 'bridge collapsed',
+};
+
+// Custom levels are played on their own
+function hasNextLevel(state: PolyBridgeState): boolean {
+  return state.levelIndex >= 0 && state.levelIndex < LEVELS.length - 1;
+}
+
 function snapToGrid(point: Point, gridSize = 10): Point {
   return {
     x: Math.round(point.x / gridSize) * gridSize,
@@ -128,12 +143,13 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): PolyBridgeState {
-      const levelIndex = options.levelIndex ?? 0;
-      const level = getLevelByIndex(levelIndex) ?? LEVELS[0];
+    newGame(options = {}, seed?: string): PolyBridgeState {
+      const levelIndex = options.customLevel ? -1 : options.levelIndex ?? 0;
+      const level = options.customLevel ?? getLevelByIndex(levelIndex) ?? LEVELS[0];
+      const rng = rngFromSeed(seed);
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rng),
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -142,8 +158,10 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
         structures: [],
         budgetUsed: 0,
         testResult: 'untested',
+        testReport: null,
         vehicleProgress: 0,
         levelComplete: false,
+        rngState: rng.state,
       };
     },
 
@@ -178,7 +196,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
       }
 
       // Can test if there are structures
-      if (state.structures.length > 0 && state.testResult !== 'testing') {
+      if (state.structures.length > 0) {
         moves.push({ action: 'start_test' });
       }
 
@@ -186,7 +204,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
       moves.push({ action: 'reset' });
 
       // Can go to next level if complete
-      if (state.levelComplete && state.levelIndex < LEVELS.length - 1) {
+      if (state.levelComplete && hasNextLevel(state)) {
         moves.push({ action: 'next_level' });
       }
 
@@ -212,17 +230,13 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
           return state.structures.some(s => s.id === move.params?.id);
 
         case 'start_test':
-          return state.structures.length > 0 && state.testResult !== 'testing';
-
-        case 'test_passed':
-        case 'test_failed':
-          return state.testResult === 'testing';
+          return state.structures.length > 0;
 
         case 'reset':
           return true;
 
         case 'next_level':
-          return state.levelComplete && state.levelIndex < LEVELS.length - 1;
+          return state.levelComplete && hasNextLevel(state);
 
         default:
           return false;
@@ -248,8 +262,9 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
             return { state, valid: false, error: 'Over budget' };
           }
 
+          const rng = stateRng(state);
           const structure: Structure = {
-            id: generateStructureId(),
+            id: generateStructureId(rng),
             type,
             material: material as MaterialType,
             start,
@@ -263,8 +278,10 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
               structures: [...state.structures, structure],
               budgetUsed: state.budgetUsed + cost,
               testResult: 'untested',
+              testReport: null,
               moveCount: state.moveCount + 1,
               lastMoveAt: Date.now(),
+              rngState: rng.state,
             },
             valid: true,
           };
@@ -283,6 +300,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
               structures: state.structures.filter(s => s.id !== structureId),
               budgetUsed: state.budgetUsed - structure.cost,
               testResult: 'untested',
+              testReport: null,
               moveCount: state.moveCount + 1,
               lastMoveAt: Date.now(),
             },
@@ -291,25 +309,19 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
         }
 
         case 'start_test': {
-          return {
-            state: {
-              ...state,
-              testResult: 'testing',
-              vehicleProgress: 0,
-              moveCount: state.moveCount + 1,
-              lastMoveAt: Date.now(),
-            },
-            valid: true,
-          };
-        }
+          if (state.structures.length === 0) {
+            return { state, valid: false, error: 'Nothing to test' };
+          }
 
-        case 'test_passed': {
+          const report = simulateBridge(state.level, state.structures);
+          const won = report.passed && !hasNextLevel(state);
           const newState: PolyBridgeState = {
             ...state,
-            testResult: 'passed',
-            vehicleProgress: 100,
-            levelComplete: true,
-            status: state.levelIndex >= LEVELS.length - 1 ? 'won' : 'playing',
+            testResult: report.passed ? 'passed' : 'failed',
+            testReport: report,
+            vehicleProgress: report.progress,
+            levelComplete: state.levelComplete || report.passed,
+            status: won ? 'won' : state.status,
             moveCount: state.moveCount + 1,
             lastMoveAt: Date.now(),
           };
@@ -317,21 +329,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
           return {
             state: newState,
             valid: true,
-            result: state.levelIndex >= LEVELS.length - 1
-              ? { status: 'won', totalMoves: newState.moveCount }
-              : undefined,
-          };
-        }
-
-        case 'test_failed': {
-          return {
-            state: {
-              ...state,
-              testResult: 'failed',
-              moveCount: state.moveCount + 1,
-              lastMoveAt: Date.now(),
-            },
-            valid: true,
+            result: won ? { status: 'won', totalMoves: newState.moveCount } : undefined,
           };
         }
 
@@ -342,6 +340,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
               structures: [],
               budgetUsed: 0,
               testResult: 'untested',
+              testReport: null,
               vehicleProgress: 0,
               moveCount: state.moveCount + 1,
               lastMoveAt: Date.now(),
@@ -351,7 +350,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
         }
 
         case 'next_level': {
-          if (!state.levelComplete || state.levelIndex >= LEVELS.length - 1) {
+          if (!state.levelComplete || !hasNextLevel(state)) {
             return { state, valid: false, error: 'Cannot advance to next level' };
           }
 
@@ -366,6 +365,7 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
               structures: [],
               budgetUsed: 0,
               testResult: 'untested',
+              testReport: null,
               vehicleProgress: 0,
               levelComplete: false,
               moveCount: state.moveCount + 1,
@@ -425,6 +425,18 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
         `Structures: ${state.structures.length}`,
         `Status: ${state.testResult}`,
       ];
+      const report = state.testReport;
+      if (report) {
+        lines.push(`Vehicle progress: ${report.progress}%`);
+        lines.push(`Max stress: ${Math.round(report.maxStress * 100)}%`);
+        if (report.failure) {
+          lines.push(`Failure: ${FAILURE_TEXT[report.failure]}`);
+        }
+        if (report.breakPoint) {
+          const { structureId, position } = report.breakPoint;
+          lines.push(`First break: ${structureId} at (${position.x}, ${position.y})`);
+        }
+      }
       if (state.levelComplete) {
         lines.push(`Level Complete!`);
       }
@@ -453,6 +465,10 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
           budgetUsed: state.budgetUsed,
           testResult: state.testResult,
           vehicleProgress: state.vehicleProgress,
+          memberStress: state.testReport?.members ?? [],
+          maxStress: state.testReport?.maxStress ?? 0,
+          breakPoint: state.testReport?.breakPoint ?? null,
+          testFailure: state.testReport?.failure ?? null,
           levelComplete: state.levelComplete,
           levelIndex: state.levelIndex,
           totalLevels: LEVELS.length,
@@ -490,4 +506,5 @@ function createPolyBridgeEngine(): GameEngine<PolyBridgeState, PolyBridgeMove, P
 // =============================================================================
 
 export const polybridgeEngine = createPolyBridgeEngine();
-export { LEVELS, MATERIAL_COSTS, type Level, type Point, type MaterialType } from './levels';
+export { LEVELS, MATERIAL_COSTS, MATERIAL_STRENGTHS, type Level, type Point, type MaterialType } from './levels';
+export { simulateBridge, type BridgeTestReport, type BridgeFailure, type MemberStress, type BreakPoint } from './physics';
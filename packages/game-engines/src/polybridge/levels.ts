@@ -38,9 +38,33 @@ export const MATERIAL_COSTS = {
 
 export type MaterialType = keyof typeof MATERIAL_COSTS;
 
+// Axial force at which a member breaks
+export const MATERIAL_STRENGTHS: Record<MaterialType, number> = {
+  wood: 500,
+  steel: 1500,
+  cable: 1000,
+  road: 700,
+};
+
+// Axial stiffness (force per unit strain)
+export const MATERIAL_STIFFNESS: Record<MaterialType, number> = {
+  wood: 400_000,
+  steel: 1_500_000,
+  cable: 600_000,
+  road: 500_000,
+};
+
+// Self-weight per unit length
+export const MATERIAL_WEIGHTS: Record<MaterialType, number> = {
+  wood: 0.02,
+  steel: 0.05,
+  cable: 0.01,
+  road: 0.04,
+};
+
 /**
  * Level 1: Simple Gap
- * A small gap that can be bridged with a single beam
+ * A small gap that can be bridged with a single road
  */
 const level1: Level = {
   id: 'level-1',
@@ -0,0 +1,388 @@
+/**
+ * Poly Bridge Truss Simulation
+ *
+ * Deterministic 2D truss solver that decides whether a bridge holds:
+ * - Structure endpoints become pinned joints; joints on level anchors are fixed
+ * - Members are axial springs (cables carry tension only), integrated with
+ *   Verlet steps and XPBD distance constraints, so the solver stays stable
+ *   for any member length or material
+ * - Beams and roads bend under their own weight; roads are the deck the
+ *   vehicle drives on, and also bend under it
+ * - A member breaks when axial plus bending stress exceeds its strength, and
+ *   any break collapses the bridge (while settling under its own weight, the
+ *   vehicle never leaves the start)
+ * - The vehicle drives from vehicleStart to vehicleEnd; it fails when no
+ *   road is under it, the road is too steep, or the road sags too far
+ */
+
+import {
+  MATERIAL_STIFFNESS,
+  MATERIAL_STRENGTHS,
+  MATERIAL_WEIGHTS,
+  type Level,
+  type Point,
+} from './levels';
+import type { Structure } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MemberStress {
+  /** Structure ID */
+  id: string;
+  /** Axial force at peak stress (positive = tension, negative = compression) */
+  force: number;
+  /** Peak stress as a fraction of strength (>= 1 means it broke) */
+  stress: number;
+  broken: boolean;
+}
+
+export interface BreakPoint {
+  /** First structure to break */
+  structureId: string;
+  /** Member midpoint when it broke */
+  position: Point;
+  /** Vehicle progress when it broke (0-100) */
+  progress: number;
+}
+
+export type BridgeFailure = 'no_deck' | 'too_steep' | 'collapsed';
+
+export interface BridgeTestReport {
+  passed: boolean;
+  /** How far the vehicle got (0-100) */
+  progress: number;
+  /** Why the vehicle did not reach the end */
+  failure: BridgeFailure | null;
+  /** Per-member stress, in structure order */
+  members: MemberStress[];
+  breakPoint: BreakPoint | null;
+  /** Highest stress over all members */
+  maxStress: number;
+}
+
+interface Joint {
+  pos: Point;
+  prev: Point;
+  /** Inverse mass (0 = anchored) */
+  invMass: number;
+  weight: number;
+  load: Point;
+}
+
+interface Member {
+  structure: Structure;
+  a: Joint;
+  b: Joint;
+  rest: number;
+  stiffness: number;
+  strength: number;
+  tensionOnly: boolean;
+  /** Roads carry the vehicle */
+  deck: boolean;
+  /** XPBD Lagrange multiplier, reset every substep */
+  lambda: number;
+  /** Bending moment from the member's own weight */
+  selfMoment: number;
+  broken: boolean;
+  peak: number;
+  peakForce: number;
+}
+
+interface DeckContact {
+  member: Member;
+  /** Position along the member (0 = a, 1 = b) */
+  t: number;
+  y: number;
+  slope: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Vehicle load for a vehicleWeight of 1 */
+const VEHICLE_LOAD = 100;
+
+/** Section depth of decks: bending capacity = strength * depth */
+const DECK_DEPTH = 24;
+
+/** Gravity displacement per step for a joint carrying only its own weight */
+const GRAVITY = 0.1;
+
+const SETTLE_STEPS = 120;
+const VEHICLE_STEP = 4;
+const SUBSTEPS = 4;
+const ITERATIONS = 20;
+const DAMPING = 0.9;
+
+/** Largest height change the vehicle can drive over between steps */
+const MAX_BUMP = 12;
+/** Steepest deck the vehicle can climb (rise over run) */
+const MAX_GRADE = 1;
+/** Sag below the road level at which the bridge counts as collapsed */
+const MAX_SAG = 80;
+
+/** Lightest joint, so joints on very short members stay well-conditioned */
+const MIN_JOINT_WEIGHT = 0.5;
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+/**
+ * Drive the level's vehicle across the structures and report the verdict
+ */
+export function simulateBridge(level: Level, structures: Structure[]): BridgeTestReport {
+  const { joints, members } = buildTruss(level, structures);
+
+  // The road level and the gap come from the anchors on the cliff edges
+  const gapStart = Math.min(...level.anchors.map(a => a.x));
+  const gapEnd = Math.max(...level.anchors.map(a => a.x));
+  const roadY = Math.max(...level.anchors.filter(a => a.x === gapStart).map(a => a.y));
+
+  const startX = level.vehicleStart.x;
+  const endX = level.vehicleEnd.x;
+  const vehicleLoad = VEHICLE_LOAD * level.vehicleWeight;
+  const progressAt = (x: number) =>
+    Math.round(Math.min(100, Math.max(0, ((x - startX) / (endX - startX)) * 100)));
+
+  // One simulation step with the vehicle at x; true if a member broke
+  let breakPoint: BreakPoint | null = null;
+  const step = (contact: DeckContact | null, x: number): boolean => {
+    for (let i = 0; i < SUBSTEPS; i++) {
+      integrate(joints, contact, vehicleLoad);
+      for (const member of members) member.lambda = 0;
+      for (let k = 0; k < ITERATIONS; k++) {
+        for (const member of members) solveMember(member);
+      }
+    }
+    const broken = measure(members, contact, vehicleLoad);
+    if (broken && !breakPoint) {
+      breakPoint = {
+        structureId: broken.structure.id,
+        position: {
+          x: Math.round((broken.a.pos.x + broken.b.pos.x) / 2),
+          y: Math.round((broken.a.pos.y + broken.b.pos.y) / 2),
+        },
+        progress: progressAt(x),
+      };
+    }
+    return broken !== null;
+  };
+
+  let x = startX;
+  let y = roadY;
+  let failure: BridgeFailure | null = null;
+
+  // Let the structure settle under its own weight first
+  for (let i = 0; i < SETTLE_STEPS && !failure; i++) {
+    if (step(null, startX)) failure = 'collapsed';
+  }
+
+  while (!failure && x < endX) {
+    x = Math.min(endX, x + VEHICLE_STEP);
+
+    if (x <= gapStart || x >= gapEnd) {
+      // Solid ground
+      y = roadY;
+      if (step(null, x)) failure = 'collapsed';
+      continue;
+    }
+
+    const contact = findDeck(members, x, y);
+    if (!contact) {
+      failure = 'no_deck';
+    } else if (Math.abs(contact.slope) > MAX_GRADE) {
+      failure = 'too_steep';
+    } else if (contact.y - roadY > MAX_SAG) {
+      failure = 'collapsed';
+    } else {
+      y = contact.y;
+      if (step(contact, x)) failure = 'collapsed';
+    }
+  }
+
+  const report = members.map((m): MemberStress => ({
+    id: m.structure.id,
+    force: Math.round(m.peakForce),
+    stress: round(m.peak),
+    broken: m.broken,
+  }));
+
+  return {
+    passed: failure === null,
+    progress: progressAt(x),
+    failure,
+    members: report,
+    breakPoint,
+    maxStress: round(Math.max(0, ...members.map(m => m.peak))),
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Joints at shared endpoints, one member per structure
+ */
+function buildTruss(level: Level, structures: Structure[]): { joints: Joint[]; members: Member[] } {
+  const anchors = new Set(level.anchors.map(pointKey));
+  const jointMap = new Map<string, Joint>();
+  const jointAt = (p: Point): Joint => {
+    const key = pointKey(p);
+    let joint = jointMap.get(key);
+    if (!joint) {
+      joint = { pos: { ...p }, prev: { ...p }, invMass: 0, weight: MIN_JOINT_WEIGHT, load: { x: 0, y: 0 } };
+      jointMap.set(key, joint);
+    }
+    return joint;
+  };
+
+  const members: Member[] = [];
+  for (const structure of structures) {
+    const rest = Math.hypot(structure.end.x - structure.start.x, structure.end.y - structure.start.y);
+    if (rest === 0) continue;
+
+    const a = jointAt(structure.start);
+    const b = jointAt(structure.end);
+    const weight = MATERIAL_WEIGHTS[structure.material] * rest;
+    a.weight += weight / 2;
+    b.weight += weight / 2;
+
+    const bends = structure.type !== 'cable';
+    members.push({
+      structure,
+      a,
+      b,
+      rest,
+      stiffness: MATERIAL_STIFFNESS[structure.material],
+      strength: MATERIAL_STRENGTHS[structure.material],
+      tensionOnly: structure.type === 'cable',
+      deck: structure.type === 'road',
+      lambda: 0,
+      selfMoment: bends ? (MATERIAL_WEIGHTS[structure.material] * rest * rest) / 8 : 0,
+      broken: false,
+      peak: 0,
+      peakForce: 0,
+    });
+  }
+
+  for (const [key, joint] of jointMap) {
+    joint.invMass = anchors.has(key) ? 0 : GRAVITY / joint.weight;
+  }
+
+  return { joints: [...jointMap.values()], members };
+}
+
+/**
+ * Verlet step under gravity and the vehicle load
+ */
+function integrate(joints: Joint[], contact: DeckContact | null, vehicleLoad: number): void {
+  for (const joint of joints) joint.load = { x: 0, y: joint.weight };
+  if (contact) {
+    contact.member.a.load.y += vehicleLoad * (1 - contact.t);
+    contact.member.b.load.y += vehicleLoad * contact.t;
+  }
+
+  for (const joint of joints) {
+    if (joint.invMass === 0) continue;
+    const vx = (joint.pos.x - joint.prev.x) * DAMPING;
+    const vy = (joint.pos.y - joint.prev.y) * DAMPING;
+    joint.prev = { ...joint.pos };
+    joint.pos = {
+      x: joint.pos.x + vx + joint.load.x * joint.invMass,
+      y: joint.pos.y + vy + joint.load.y * joint.invMass,
+    };
+  }
+}
+
+/**
+ * XPBD distance constraint with compliance rest / stiffness
+ */
+function solveMember(member: Member): void {
+  if (member.broken) return;
+  const { a, b } = member;
+  const dx = b.pos.x - a.pos.x;
+  const dy = b.pos.y - a.pos.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return;
+
+  const stretch = length - member.rest;
+  if (member.tensionOnly && stretch <= 0) return;
+
+  const weights = a.invMass + b.invMass;
+  if (weights === 0) return;
+  const compliance = member.rest / member.stiffness;
+  const correction = (-stretch - compliance * member.lambda) / (weights + compliance);
+  member.lambda += correction;
+  const nx = (dx / length) * correction;
+  const ny = (dy / length) * correction;
+  a.pos = { x: a.pos.x - nx * a.invMass, y: a.pos.y - ny * a.invMass };
+  b.pos = { x: b.pos.x + nx * b.invMass, y: b.pos.y + ny * b.invMass };
+}
+
+/**
+ * Update peak stresses and break overloaded members; returns the first new break
+ */
+function measure(members: Member[], contact: DeckContact | null, vehicleLoad: number): Member | null {
+  let firstBreak: Member | null = null;
+
+  for (const member of members) {
+    if (member.broken) continue;
+
+    const length = Math.hypot(member.b.pos.x - member.a.pos.x, member.b.pos.y - member.a.pos.y);
+    const stretch = length - member.rest;
+    const force = member.tensionOnly && stretch <= 0 ? 0 : (member.stiffness * stretch) / member.rest;
+
+    let moment = member.selfMoment;
+    if (contact?.member === member) {
+      moment += vehicleLoad * contact.t * (1 - contact.t) * length;
+    }
+
+    const stress = Math.abs(force) / member.strength + moment / (member.strength * DECK_DEPTH);
+    if (stress > member.peak) {
+      member.peak = stress;
+      member.peakForce = force;
+    }
+    if (stress > 1) {
+      member.broken = true;
+      firstBreak ??= member;
+    }
+  }
+
+  return firstBreak;
+}
+
+/**
+ * The intact road under the vehicle, closest to the height it is driving at
+ */
+function findDeck(members: Member[], x: number, y: number): DeckContact | null {
+  let best: DeckContact | null = null;
+
+  for (const member of members) {
+    if (!member.deck || member.broken) continue;
+    const { a, b } = member;
+    if (a.pos.x === b.pos.x) continue;
+    const t = (x - a.pos.x) / (b.pos.x - a.pos.x);
+    if (t < 0 || t > 1) continue;
+
+    const deckY = a.pos.y + t * (b.pos.y - a.pos.y);
+    if (Math.abs(deckY - y) > MAX_BUMP) continue;
+    if (best && Math.abs(deckY - y) >= Math.abs(best.y - y)) continue;
+
+    best = { member, t, y: deckY, slope: (b.pos.y - a.pos.y) / (b.pos.x - a.pos.x) };
+  }
+
+  return best;
+}
+
+function pointKey(p: Point): string {
+  return `${p.x},${p.y}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
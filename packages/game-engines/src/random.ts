@@ -0,0 +1,145 @@
+/**
+ * Seeded Random Number Generation
+ *
+ * Engines never call Math.random() directly. Every random draw goes through an
+ * Rng created from a seed, and the generator's internal state is stored on the
+ * game state (`rngState`). A serialized game therefore carries everything needed
+ * to continue it — or replay it — with exactly the same food placement, mine
+ * layout or shuffle on any machine.
+ *
+ * Algorithm: mulberry32 (32-bit state, fast, plenty for game logic)
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Rng {
+  /** Current internal state (persist this as `rngState`) */
+  readonly state: number;
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [0, max) */
+  int(max: number): number;
+  /** Integer in [min, max] (inclusive) */
+  intBetween(min: number, max: number): number;
+  /** Float in [min, max) */
+  float(min: number, max: number): number;
+  /** True with the given probability */
+  chance(probability: number): boolean;
+  /** Pick a random element (array must not be empty) */
+  pick<T>(items: readonly T[]): T;
+  /** Fisher-Yates shuffle in place, returns the same array */
+  shuffle<T>(items: T[]): T[];
+}
+
+/** Minimal state shape needed to resume an engine's generator */
+export interface RandomizedState {
+  readonly gameId: string;
+  readonly rngState?: number;
+}
+
+// =============================================================================
+// Seeding
+// =============================================================================
+
+/**
+ * Hash a seed string to a 32-bit generator state (FNV-1a + final avalanche)
+ */
+export function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Generate a fresh seed string (used when the caller does not provide one)
+ */
+export function generateSeed(): string {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/**
+ * Create a generator from a raw 32-bit state
+ */
+export function createRng(state: number): Rng {
+  let s = state >>> 0;
+
+  const next = (): number => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number): number => Math.floor(next() * max);
+
+  return {
+    get state() {
+      return s;
+    },
+    next,
+    int,
+    intBetween: (min, max) => min + int(max - min + 1),
+    float: (min, max) => min + next() * (max - min),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[int(items.length)],
+    shuffle(items) {
+      for (let i = items.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [items[i], items[j]] = [items[j], items[i]];
+      }
+      return items;
+    },
+  };
+}
+
+/**
+ * Create a generator from a seed string (random seed if omitted)
+ */
+export function rngFromSeed(seed?: string): Rng {
+  return createRng(hashSeed(seed ?? generateSeed()));
+}
+
+/**
+ * Draw a child seed from a generator
+ * Used when a game starts a fresh game itself (e.g. loading another level).
+ */
+export function deriveSeed(rng: Rng): string {
+  return rng.int(0x100000000).toString(16).padStart(8, '0');
+}
+
+/**
+ * Resume the generator stored on a game state
+ *
+ * States persisted before seeding was introduced have no `rngState`;
+ * they fall back to a generator derived from the game ID.
+ */
+export function stateRng(state: RandomizedState): Rng {
+  return createRng(state.rngState ?? hashSeed(state.gameId));
+}
+
+/**
+ * Generator for a pure decision at a given position (e.g. AI move choice)
+ *
+ * Mixes the stored state with a position key, so decisions differ from move
+ * to move without the engine having to advance `rngState`.
+ */
+export function positionRng(state: RandomizedState, key: string | number): Rng {
+  return createRng(hashSeed(`${stateRng(state).state}:${key}`));
+}
@@ -3,6 +3,12 @@
  *
  * Classic snake game with look-ahead vision
  * Grid: 15x15 by default, snake starts in center
+ *
+ * Head-to-head mode ('pvp'): two snakes share the grid and the food and take
+ * turns moving one step each; running into a wall or any snake loses.
+ *
+ * Real-time play: queueDirection steers a snake and tickSnake advances the
+ * game on a timer, moving every snake at once.
  */
 
 import {
@@ -13,7 +19,9 @@ import {
   type MoveResult,
   type GameStateJSON,
   type Difficulty,
+  type Turn,
 } from '../types';
+import { positionRng, rngFromSeed, stateRng, type Rng } from '../random';
 
 // =============================================================================
 // Types
@@ -38,6 +46,21 @@ export interface SnakeState extends GameState {
   gridSize: number;
   /** Is game over */
   gameOver: boolean;
+  /** Second snake in head-to-head games (moves on the opponent's turn) */
+  opponent?: OpponentSnake;
+  /** Head-to-head outcome once the game is over */
+  winner?: Turn | 'draw';
+  /** Head-to-head move limit (both snakes' moves); the longer snake wins */
+  maxMoves?: number;
+  /** Real-time play: directions queued for the next tick */
+  queued?: Partial<Record<Turn, Direction>>;
+}
+
+export interface OpponentSnake {
+  /** Body positions (head is index 0) */
+  snake: Position[];
+  direction: Direction;
+  score: number;
 }
 
 export interface SnakeMove {
@@ -50,6 +73,10 @@ export interface SnakeOptions {
   gridSize?: number;
   /** Initial snake length (default: 3) */
   initialLength?: number;
+  /** 'pvp' for two snakes head-to-head (default: solo) */
+  mode?: 'solo' | 'pvp';
+  /** Head-to-head move limit (default: 400) */
+  maxMoves?: number;
 }
 
 export interface Vision {
@@ -65,6 +92,7 @@ export interface Vision {
 
 const DEFAULT_GRID_SIZE = 15;
 const DEFAULT_INITIAL_LENGTH = 3;
+const DEFAULT_MAX_MOVES = 400;
 
 const OPPOSITES: Record<Direction, Direction> = {
   up: 'down',
@@ -88,14 +116,14 @@ function positionsEqual(a: Position, b: Position): boolean {
   return a.x === b.x && a.y === b.y;
 }
 
-function randomPosition(gridSize: number, exclude: Position[]): Position {
+function randomPosition(gridSize: number, exclude: Position[], rng: Rng): Position {
   const maxAttempts = gridSize * gridSize;
   let attempts = 0;
 
   while (attempts < maxAttempts) {
     const pos: Position = {
-      x: Math.floor(Math.random() * gridSize),
-      y: Math.floor(Math.random() * gridSize),
+      x: rng.int(gridSize),
+      y: rng.int(gridSize),
     };
     if (!exclude.some(p => positionsEqual(p, pos))) {
       return pos;
@@ -129,8 +157,35 @@ function createInitialSnake(gridSize: number, length: number): Position[] {
   return snake;
 }
 
-function lookAt(pos: Position, state: SnakeState): Cell {
-  const { gridSize, snake, food } = state;
+/**
+ * Two snakes facing each other across the grid (point-symmetric)
+ */
+function createVersusSnakes(gridSize: number, length: number): [Position[], Position[]] {
+  const row = Math.floor(gridSize / 4);
+  const player: Position[] = [];
+  const opponent: Position[] = [];
+  for (let i = 0; i < length; i++) {
+    player.push({ x: length - i, y: row });
+    opponent.push({ x: gridSize - 1 - length + i, y: gridSize - 1 - row });
+  }
+  return [player, opponent];
+}
+
+/**
+ * The snake that moves on a turn (solo games only have the player's)
+ */
+function snakeOf(state: SnakeState, side: Turn): OpponentSnake {
+  if (side === 'opponent' && state.opponent) return state.opponent;
+  return { snake: state.snake, direction: state.direction, score: state.score ?? 0 };
+}
+
+function otherSide(side: Turn): Turn {
+  return side === 'player' ? 'opponent' : 'player';
+}
+
+function lookAt(pos: Position, state: SnakeState, side: Turn = 'player'): Cell {
+  const { gridSize, food } = state;
+  const { snake } = snakeOf(state, side);
 
   // Wall check
   if (pos.x < 0 || pos.x >= gridSize || pos.y < 0 || pos.y >= gridSize) {
@@ -142,10 +197,13 @@ function lookAt(pos: Position, state: SnakeState): Cell {
     return 'head';
   }
 
-  // Body check (excluding head)
+  // Body check (excluding head); the other snake is an obstacle too
   if (snake.slice(1).some(p => positionsEqual(p, pos))) {
     return 'body';
   }
+  if (state.opponent && snakeOf(state, otherSide(side)).snake.some(p => positionsEqual(p, pos))) {
+    return 'body';
+  }
 
   // Food check
   if (positionsEqual(pos, food)) {
@@ -155,18 +213,22 @@ function lookAt(pos: Position, state: SnakeState): Cell {
   return 'empty';
 }
 
-function getVision(state: SnakeState): Vision {
-  const head = state.snake[0];
+/**
+ * What the snake to move sees next to its head
+ */
+function getVision(state: SnakeState, side: Turn = state.turn): Vision {
+  const head = snakeOf(state, side).snake[0];
   return {
-    up: lookAt({ x: head.x, y: head.y - 1 }, state),
-    down: lookAt({ x: head.x, y: head.y + 1 }, state),
-    left: lookAt({ x: head.x - 1, y: head.y }, state),
-    right: lookAt({ x: head.x + 1, y: head.y }, state),
+    up: lookAt({ x: head.x, y: head.y - 1 }, state, side),
+    down: lookAt({ x: head.x, y: head.y + 1 }, state, side),
+    left: lookAt({ x: head.x - 1, y: head.y }, state, side),
+    right: lookAt({ x: head.x + 1, y: head.y }, state, side),
   };
 }
 
 function renderBoard(state: SnakeState): string {
   const { gridSize, snake, food } = state;
+  const rival = state.opponent?.snake ?? [];
   const lines: string[] = [];
 
   // Top border
@@ -179,11 +241,16 @@ function renderBoard(state: SnakeState): string {
       const isHead = positionsEqual(snake[0], pos);
       const isBody = snake.slice(1).some(p => positionsEqual(p, pos));
       const isFood = positionsEqual(food, pos);
+      const rivalIndex = rival.findIndex(p => positionsEqual(p, pos));
 
       if (isHead) {
         row += ' O';
       } else if (isBody) {
         row += ' o';
+      } else if (rivalIndex === 0) {
+        row += ' X';
+      } else if (rivalIndex > 0) {
+        row += ' x';
       } else if (isFood) {
         row += ' *';
       } else {
@@ -200,6 +267,91 @@ function renderBoard(state: SnakeState): string {
   return lines.join('\n');
 }
 
+/**
+ * One head-to-head step: the snake on turn moves, then the turn passes
+ */
+function moveVersus(state: SnakeState, side: Turn, direction: Direction, newHead: Position): MoveResult<SnakeState> {
+  const mover = snakeOf(state, side);
+  const other = snakeOf(state, otherSide(side));
+  const moveCount = state.moveCount + 1;
+
+  const outside = newHead.x < 0 || newHead.x >= state.gridSize || newHead.y < 0 || newHead.y >= state.gridSize;
+  const crash = outside
+    ? 'wall_collision'
+    : mover.snake.some(p => positionsEqual(p, newHead))
+      ? 'body_collision'
+      : other.snake.some(p => positionsEqual(p, newHead))
+        ? 'snake_collision'
+        : null;
+  if (crash) {
+    return endVersus(state, otherSide(side), crash, moveCount);
+  }
+
+  const body = [newHead, ...mover.snake];
+  let food = state.food;
+  let score = mover.score;
+  const rng = stateRng(state);
+
+  if (positionsEqual(newHead, state.food)) {
+    score++;
+    food = randomPosition(state.gridSize, [...body, ...other.snake], rng);
+  } else {
+    body.pop();
+  }
+
+  const moved: OpponentSnake = { snake: body, direction, score };
+  const newState: SnakeState = {
+    ...state,
+    ...(side === 'player'
+      ? { snake: moved.snake, direction: moved.direction, score: moved.score }
+      : { opponent: moved }),
+    food,
+    turn: otherSide(side),
+    moveCount,
+    lastMoveAt: Date.now(),
+    rngState: rng.state,
+  };
+
+  return checkMoveLimit(newState);
+}
+
+/**
+ * At the head-to-head move limit the longer snake wins
+ */
+function checkMoveLimit(state: SnakeState): MoveResult<SnakeState> {
+  if (state.moveCount >= (state.maxMoves ?? DEFAULT_MAX_MOVES)) {
+    const playerLength = state.snake.length;
+    const opponentLength = state.opponent!.snake.length;
+    const winner = playerLength === opponentLength ? 'draw' : playerLength > opponentLength ? 'player' : 'opponent';
+    return endVersus(state, winner, 'move_limit', state.moveCount);
+  }
+
+  return { state, valid: true };
+}
+
+function endVersus(state: SnakeState, winner: Turn | 'draw', reason: string, moveCount: number): MoveResult<SnakeState> {
+  const status = winner === 'draw' ? 'draw' : winner === 'player' ? 'won' : 'lost';
+  const finalState: SnakeState = {
+    ...state,
+    gameOver: true,
+    status,
+    winner,
+    moveCount,
+    lastMoveAt: Date.now(),
+  };
+
+  return {
+    state: finalState,
+    valid: true,
+    result: {
+      status,
+      score: state.score,
+      totalMoves: moveCount,
+      metadata: { reason, winner, opponentScore: state.opponent?.score ?? 0 },
+    },
+  };
+}
+
 // =============================================================================
 // Snake Engine Implementation
 // =============================================================================
@@ -217,23 +369,51 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       points: 50,
       transport: 'websocket',
       minPlayers: 1,
-      maxPlayers: 1,
+      maxPlayers: 2,
+      seats: ['snake1', 'snake2'],
     },
 
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): SnakeState {
+    newGame(options = {}, seed?: string): SnakeState {
       const {
         gridSize = DEFAULT_GRID_SIZE,
         initialLength = DEFAULT_INITIAL_LENGTH,
+        mode = 'solo',
+        maxMoves = DEFAULT_MAX_MOVES,
       } = options;
 
+      const rng = rngFromSeed(seed);
+      const gameId = generateGameId(rng);
+
+      if (mode === 'pvp') {
+        if (gridSize < 2 * initialLength + 3) {
+          throw new Error(`Head-to-head needs a grid of at least ${2 * initialLength + 3} for snakes of length ${initialLength}`);
+        }
+        const [snake, opponent] = createVersusSnakes(gridSize, initialLength);
+        return {
+          gameId,
+          status: 'playing',
+          turn: 'player',
+          moveCount: 0,
+          score: 0,
+          snake,
+          food: randomPosition(gridSize, [...snake, ...opponent], rng),
+          direction: 'right',
+          gridSize,
+          gameOver: false,
+          opponent: { snake: opponent, direction: 'left', score: 0 },
+          maxMoves,
+          rngState: rng.state,
+        };
+      }
+
       const snake = createInitialSnake(gridSize, initialLength);
-      const food = randomPosition(gridSize, snake);
+      const food = randomPosition(gridSize, snake, rng);
 
       return {
-        gameId: generateGameId(),
+        gameId,
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -243,6 +423,7 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
         direction: 'right',
         gridSize,
         gameOver: false,
+        rngState: rng.state,
       };
     },
 
@@ -266,7 +447,7 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       if (state.gameOver) return [];
 
       const moves: SnakeMove[] = [];
-      const opposite = OPPOSITES[state.direction];
+      const opposite = OPPOSITES[snakeOf(state, state.turn).direction];
 
       for (const dir of ['up', 'down', 'left', 'right'] as Direction[]) {
         // Can't go in opposite direction (180 degree turn)
@@ -287,7 +468,7 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       }
 
       // Can't go in opposite direction
-      return direction !== OPPOSITES[state.direction];
+      return direction !== OPPOSITES[snakeOf(state, state.turn).direction];
     },
 
     makeMove(state: SnakeState, move: SnakeMove): MoveResult<SnakeState> {
@@ -302,8 +483,16 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
         };
       }
 
+      if (state.opponent && state.gameOver) {
+        return { state, valid: false, error: 'Game is over' };
+      }
+
+      // The snake on turn (always the player's in solo games)
+      const side: Turn = state.opponent ? state.turn : 'player';
+      const mover = snakeOf(state, side);
+
       // Check for 180 degree turn
-      if (direction === OPPOSITES[state.direction]) {
+      if (direction === OPPOSITES[mover.direction]) {
         return {
           state,
           valid: false,
@@ -312,13 +501,17 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       }
 
       // Calculate new head position
-      const head = state.snake[0];
+      const head = mover.snake[0];
       const delta = DIRECTION_VECTORS[direction];
       const newHead: Position = {
         x: head.x + delta.x,
         y: head.y + delta.y,
       };
 
+      if (state.opponent) {
+        return moveVersus(state, side, direction, newHead);
+      }
+
       // Check wall collision
       if (
         newHead.x < 0 ||
@@ -368,12 +561,13 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       const newSnake = [newHead, ...state.snake];
       let newScore = state.score;
       let newFood = state.food;
+      const rng = stateRng(state);
 
       // Check food collision
       if (positionsEqual(newHead, state.food)) {
         // Eat food - don't remove tail, spawn new food
         newScore = (state.score ?? 0) + 1;
-        newFood = randomPosition(state.gridSize, newSnake);
+        newFood = randomPosition(state.gridSize, newSnake, rng);
       } else {
         // No food - remove tail
         newSnake.pop();
@@ -387,6 +581,7 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
         score: newScore,
         moveCount: state.moveCount + 1,
         lastMoveAt: Date.now(),
+        rngState: rng.state,
       };
 
       return {
@@ -404,11 +599,13 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       if (legalMoves.length === 0) return null;
 
       const diff = difficulty ?? 'medium';
+      // Derived from the state without advancing it (AI is pure)
+      const rng = positionRng(state, state.moveCount);
 
       switch (diff) {
         case 'easy':
           // Random legal move
-          return legalMoves[Math.floor(Math.random() * legalMoves.length)];
+          return rng.pick(legalMoves);
 
         case 'medium':
         case 'hard': {
@@ -428,7 +625,7 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
           if (foodMove) return foodMove;
 
           // Otherwise pick random safe move
-          return safeMoves[Math.floor(Math.random() * safeMoves.length)];
+          return rng.pick(safeMoves);
         }
       }
     },
@@ -440,6 +637,15 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
     getResult(state: SnakeState): GameResult | null {
       if (!state.gameOver) return null;
 
+      if (state.opponent) {
+        return {
+          status: state.winner === 'draw' ? 'draw' : state.winner === 'player' ? 'won' : 'lost',
+          score: state.score,
+          totalMoves: state.moveCount,
+          metadata: { winner: state.winner, opponentScore: state.opponent.score },
+        };
+      }
+
       return {
         status: 'lost', // Snake can only lose
         score: state.score,
@@ -469,6 +675,24 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
       const vision = getVision(state);
 
       let text = renderBoard(state);
+
+      if (state.opponent) {
+        const seat = (side: Turn) => (side === 'player' ? 'Snake 1 (O)' : 'Snake 2 (X)');
+        text += `\n\n${seat('player')}: score ${state.score}, heading ${state.direction}, length ${state.snake.length}`;
+        text += `\n${seat('opponent')}: score ${state.opponent.score}, heading ${state.opponent.direction}, length ${state.opponent.snake.length}`;
+        text += `\nMove ${state.moveCount}/${state.maxMoves ?? DEFAULT_MAX_MOVES}`;
+
+        if (state.gameOver) {
+          text += state.winner === 'draw'
+            ? '\n\n🤝 Draw!'
+            : `\n\n🏁 ${seat(state.winner ?? 'opponent')} wins!`;
+        } else {
+          text += `\nTo move: ${seat(state.turn)}`;
+          text += `\nVision: ↑${vision.up} ↓${vision.down} ←${vision.left} →${vision.right}`;
+        }
+        return text;
+      }
+
       text += `\n\nScore: ${state.score}`;
       text += `\nDirection: ${state.direction}`;
       text += `\nVision: ↑${vision.up} ↓${vision.down} ←${vision.left} →${vision.right}`;
@@ -496,12 +720,21 @@ function createSnakeEngine(): GameEngine<SnakeState, SnakeMove, SnakeOptions> {
           snake: state.snake,
           food: state.food,
           ascii: renderBoard(state),
+          ...(state.opponent && { opponent: state.opponent.snake }),
         },
         extra: {
           direction: state.direction,
           vision,
           gameOver: state.gameOver,
           snakeLength: state.snake.length,
+          ...(state.opponent && {
+            mode: 'pvp',
+            opponentDirection: state.opponent.direction,
+            opponentScore: state.opponent.score,
+            opponentLength: state.opponent.snake.length,
+            maxMoves: state.maxMoves ?? DEFAULT_MAX_MOVES,
+            winner: state.winner ?? null,
+          }),
         },
       };
     },
@@ -528,3 +761,105 @@ export const snakeEngine = createSnakeEngine();
 
 // Export helper for external use
 export { getVision };
+
+// =============================================================================
+// Real-Time Ticks
+// =============================================================================
+
+/**
+ * Queue a direction for a snake's next tick (replaces one already queued)
+ */
+export function queueDirection(state: SnakeState, side: Turn, direction: Direction): MoveResult<SnakeState> {
+  if (state.gameOver) {
+    return { state, valid: false, error: 'Game is over' };
+  }
+  if (side === 'opponent' && !state.opponent) {
+    return { state, valid: false, error: 'There is no second snake in this game' };
+  }
+  if (direction === OPPOSITES[snakeOf(state, side).direction]) {
+    return { state, valid: false, error: 'Cannot turn 180 degrees' };
+  }
+
+  return { state: { ...state, queued: { ...state.queued, [side]: direction } }, valid: true };
+}
+
+/**
+ * Advance a real-time game by one tick
+ *
+ * Every snake moves at once, in its queued direction or straight ahead. With
+ * aiDifficulty the AI steers a second snake that has nothing queued.
+ */
+export function tickSnake(state: SnakeState, aiDifficulty?: Difficulty): MoveResult<SnakeState> {
+  if (state.gameOver) {
+    return { state, valid: false, error: 'Game is over' };
+  }
+
+  const queued = state.queued ?? {};
+  const current: SnakeState = { ...state, queued: undefined };
+
+  if (!current.opponent) {
+    return snakeEngine.makeMove(current, { direction: queued.player ?? current.direction });
+  }
+
+  const aiMove = !queued.opponent && aiDifficulty
+    ? snakeEngine.getAIMove({ ...current, turn: 'opponent' }, aiDifficulty)
+    : null;
+  const directions: Record<Turn, Direction> = {
+    player: queued.player ?? current.direction,
+    opponent: queued.opponent ?? aiMove?.direction ?? current.opponent.direction,
+  };
+  return tickVersus(current, directions);
+}
+
+/**
+ * Both snakes step together; a snake dies running into a wall or any snake's
+ * new position, so a head-on collision takes out both
+ */
+function tickVersus(state: SnakeState, directions: Record<Turn, Direction>): MoveResult<SnakeState> {
+  const sides: Turn[] = ['player', 'opponent'];
+  const moved = Object.fromEntries(
+    sides.map(side => {
+      const { snake, score } = snakeOf(state, side);
+      const delta = DIRECTION_VECTORS[directions[side]];
+      const head = { x: snake[0].x + delta.x, y: snake[0].y + delta.y };
+      const ate = positionsEqual(head, state.food);
+      const body = [head, ...(ate ? snake : snake.slice(0, -1))];
+      return [side, { snake: body, direction: directions[side], score: ate ? score + 1 : score, ate }];
+    })
+  ) as Record<Turn, OpponentSnake & { ate: boolean }>;
+
+  const crashed = (side: Turn) => {
+    const head = moved[side].snake[0];
+    return (
+      head.x < 0 || head.x >= state.gridSize || head.y < 0 || head.y >= state.gridSize ||
+      moved[side].snake.slice(1).some(p => positionsEqual(p, head)) ||
+      moved[otherSide(side)].snake.some(p => positionsEqual(p, head))
+    );
+  };
+
+  const moveCount = state.moveCount + 2;
+  const playerCrashed = crashed('player');
+  const opponentCrashed = crashed('opponent');
+  if (playerCrashed || opponentCrashed) {
+    const headOn = positionsEqual(moved.player.snake[0], moved.opponent.snake[0]);
+    const winner = playerCrashed && opponentCrashed ? 'draw' : playerCrashed ? 'opponent' : 'player';
+    return endVersus(state, winner, headOn ? 'head_on_collision' : 'collision', moveCount);
+  }
+
+  const rng = stateRng(state);
+  const food = moved.player.ate || moved.opponent.ate
+    ? randomPosition(state.gridSize, [...moved.player.snake, ...moved.opponent.snake], rng)
+    : state.food;
+
+  return checkMoveLimit({
+    ...state,
+    snake: moved.player.snake,
+    direction: moved.player.direction,
+    score: moved.player.score,
+    opponent: { snake: moved.opponent.snake, direction: moved.opponent.direction, score: moved.opponent.score },
+    food,
+    moveCount,
+    lastMoveAt: Date.now(),
+    rngState: rng.state,
+  });
+}
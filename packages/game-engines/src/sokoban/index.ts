@@ -12,7 +12,12 @@ import {
   type GameResult,
   type MoveResult,
   type GameStateJSON,
+  type Hint,
+  type Solution,
 } from '../types';
+import { rngFromSeed } from '../random';
+import { solveSokoban } from './solver';
+import { OPTIMAL_SOLUTIONS } from './solutions';
 
 // =============================================================================
 // Types
@@ -44,6 +49,10 @@ export interface SokobanState extends GameState {
   totalLevels: number;
   /** Number of pushes (moves that pushed a box) */
   pushCount: number;
+  /** Custom level being played (levelIndex is -1), kept for resets */
+  customLevel?: SokobanCustomLevel;
+  /** Moves so far in LURD notation (uppercase = push) */
+  lurd?: string;
 }
 
 export interface SokobanMove {
@@ -52,6 +61,15 @@ export interface SokobanMove {
 
 export interface SokobanOptions {
   levelIndex?: number;
+  /** Play a custom level instead of a built-in one */
+  customLevel?: SokobanCustomLevel;
+}
+
+/** A level authored outside the built-in set, in XSB notation */
+export interface SokobanCustomLevel {
+  name: string;
+  /** Rows: # wall, @ player, + player on goal, $ box, * box on goal, . goal, space/-/_ floor */
+  map: string[];
 }
 
 // =============================================================================
@@ -59,7 +77,7 @@ export interface SokobanOptions {
 // =============================================================================
 
 // Level format from begoon/sokoban-maps:
-// X = wall, * = box, . = goal, @ = player, & = goal (alternate), space = floor
+// X = wall, * = box, . = goal, @ = player, & = box on goal, space = floor
 
 const LEVEL_DATA = `
 ; Level 1
@@ -1111,15 +1129,17 @@ X  XXXXXXXXXXXXXXXXXX  ..X
 XXXX                XXXXXX
 `.trim();
 
-// Parse level string into structured data
-function parseLevel(levelStr: string): {
+export interface SokobanLevel {
   board: CellType[][];
   player: Position;
   boxes: Position[];
   goals: Position[];
   rows: number;
   cols: number;
-} | null {
+}
+
+// Parse level string into structured data
+function parseLevel(levelStr: string): SokobanLevel | null {
   const lines = levelStr.split('\n').filter(line => !line.startsWith(';') && line.trim());
   if (lines.length === 0) return null;
 
@@ -1143,9 +1163,13 @@ function parseLevel(levelStr: string): {
           row.push('wall');
           break;
         case '.':
+          row.push('goal');
+          goals.push({ row: r, col: c });
+          break;
         case '&':
           row.push('goal');
           goals.push({ row: r, col: c });
+          boxes.push({ row: r, col: c });
           break;
         case '*':
           row.push('floor');
@@ -1174,8 +1198,40 @@ function parseLevel(levelStr: string): {
   return { board, player, boxes, goals, rows, cols };
 }
 
+/**
+ * Parse a level in standard XSB notation (used by custom levels)
+ */
+export function parseXsbMap(map: string[]): SokobanLevel | null {
+  const lines = map.filter(line => line.trim());
+  if (lines.length === 0) return null;
+
+  const rows = lines.length;
+  const cols = Math.max(...lines.map(l => l.length));
+  const board: CellType[][] = [];
+  const boxes: Position[] = [];
+  const goals: Position[] = [];
+  let player: Position | null = null;
+
+  for (let r = 0; r < rows; r++) {
+    const row: CellType[] = [];
+    const line = lines[r].padEnd(cols, ' ');
+
+    for (let c = 0; c < cols; c++) {
+      const char = line[c];
+      const onGoal = char === '.' || char === '+' || char === '*';
+      row.push(char === '#' ? 'wall' : onGoal ? 'goal' : 'floor');
+      if (onGoal) goals.push({ row: r, col: c });
+      if (char === '$' || char === '*') boxes.push({ row: r, col: c });
+      if (char === '@' || char === '+') player = { row: r, col: c };
+    }
+    board.push(row);
+  }
+
+  return player ? { board, player, boxes, goals, rows, cols } : null;
+}
+
 // Parse all levels
-function parseLevels(): Array<ReturnType<typeof parseLevel>> {
+function parseLevels(): SokobanLevel[] {
   const levelStrings = LEVEL_DATA.split(/\n\n+/);
   return levelStrings.map(parseLevel).filter((l): l is NonNullable<typeof l> => l !== null);
 }
@@ -1213,6 +1269,23 @@ function isWall(board: CellType[][], pos: Position): boolean {
   return board[pos.row][pos.col] === 'wall';
 }
 
+const LURD_CHARS: Record<Direction, string> = {
+  up: 'u',
+  down: 'd',
+  left: 'l',
+  right: 'r',
+};
+
+const LURD_DIRECTIONS: Record<string, Direction> = {
+  u: 'up',
+  d: 'down',
+  l: 'left',
+  r: 'right',
+};
+
+/** Search budget for positions without a precomputed line (solve and hint) */
+const SOLVE_MAX_NODES = 2_000;
+
 function checkWin(boxes: Position[], goals: Position[]): boolean {
   if (boxes.length !== goals.length) return false;
   return boxes.every(box => posInList(box, goals));
@@ -1235,16 +1308,17 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
       maxPlayers: 1,
     },
 
-    newGame(options = {}): SokobanState {
-      const levelIndex = Math.min(options.levelIndex ?? 0, LEVELS.length - 1);
-      const level = LEVELS[levelIndex];
+    newGame(options = {}, seed?: string): SokobanState {
+      const { customLevel } = options;
+      const levelIndex = customLevel ? -1 : Math.min(options.levelIndex ?? 0, LEVELS.length - 1);
+      const level = customLevel ? parseXsbMap(customLevel.map) : LEVELS[levelIndex];
 
       if (!level) {
-        throw new Error(`Level ${levelIndex} not found`);
+        throw new Error(customLevel ? `Invalid custom level: ${customLevel.name}` : `Level ${levelIndex} not found`);
       }
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rngFromSeed(seed)),
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -1257,6 +1331,8 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
         levelIndex,
         totalLevels: LEVELS.length,
         pushCount: 0,
+        lurd: '',
+        ...(customLevel && { customLevel }),
       };
     },
 
@@ -1324,6 +1400,7 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
       }
 
       const won = checkWin(newBoxes, state.goals);
+      const step = LURD_CHARS[move.direction];
 
       const newState: SokobanState = {
         ...state,
@@ -1331,6 +1408,7 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
         boxes: newBoxes,
         moveCount: state.moveCount + 1,
         pushCount: state.pushCount + (pushed ? 1 : 0),
+        lurd: (state.lurd ?? '') + (pushed ? step.toUpperCase() : step),
         status: won ? 'won' : 'playing',
         lastMoveAt: Date.now(),
       };
@@ -1350,6 +1428,53 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
       return null; // Single player game
     },
 
+    solve(state: SokobanState): Solution<SokobanMove> | null {
+      // Built-in levels: the rest of the precomputed line while the player follows it
+      const played = state.lurd ?? '';
+      const stored = state.levelIndex >= 0 ? OPTIMAL_SOLUTIONS[state.levelIndex] : undefined;
+      if (stored !== undefined && played.length === state.moveCount && stored.startsWith(played)) {
+        const rest = stored.slice(played.length);
+        return {
+          moves: [...rest].map(step => ({ direction: LURD_DIRECTIONS[step.toLowerCase()] })),
+          cost: rest.replace(/[a-z]/g, '').length,
+          outcome: 'won',
+          optimal: true,
+        };
+      }
+
+      // Searching a built-in level from its start cannot finish within the
+      // budget (that is what the precomputed lines are for)
+      if (state.levelIndex >= 0 && state.moveCount === 0) return null;
+
+      const result = solveSokoban(state, { maxNodes: SOLVE_MAX_NODES });
+      if (result.status !== 'solved') return null;
+
+      return {
+        moves: result.directions.map(direction => ({ direction })),
+        cost: result.pushes,
+        outcome: 'won',
+        optimal: true,
+      };
+    },
+
+    hint(state: SokobanState): Hint<SokobanMove> | null {
+      if (state.status === 'won') return null;
+
+      const solution = this.solve?.(state);
+      if (!solution || solution.moves.length === 0) return null;
+
+      // The first step either walks or pushes a box
+      const [move] = solution.moves;
+      const next = this.makeMove(state, move).state;
+      const pushed = next.boxes.some((box, i) => !posEquals(box, state.boxes[i]));
+
+      return {
+        move,
+        explanation: `On a push-optimal solution: ${solution.cost} push${solution.cost === 1 ? '' : 'es'} (${solution.moves.length} moves) from here.`,
+        remaining: solution.cost - (pushed ? 1 : 0),
+      };
+    },
+
     isGameOver(state: SokobanState): boolean {
       return state.status === 'won';
     },
@@ -1360,10 +1485,12 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
       return {
         status: 'won',
         totalMoves: state.moveCount,
+        cost: state.pushCount,
         metadata: {
           levelIndex: state.levelIndex,
           pushCount: state.pushCount,
           boxCount: state.boxes.length,
+          lurd: state.lurd ?? '',
         },
       };
     },
@@ -1384,7 +1511,9 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
       const { board, player, boxes, goals, rows, cols } = state;
       const lines: string[] = [];
 
-      lines.push(`Level ${state.levelIndex + 1}/${state.totalLevels}`);
+      lines.push(state.customLevel
+        ? `Custom level: ${state.customLevel.name}`
+        : `Level ${state.levelIndex + 1}/${state.totalLevels}`);
       lines.push('');
 
       for (let r = 0; r < rows; r++) {
@@ -1475,7 +1604,9 @@ function createSokobanEngine(): GameEngine<SokobanState, SokobanMove, SokobanOpt
         extra: {
           levelIndex: state.levelIndex,
           totalLevels: state.totalLevels,
+          levelName: state.customLevel?.name ?? null,
           pushCount: state.pushCount,
+          lurd: state.lurd ?? '',
           boxesOnGoals: boxes.filter(b => posInList(b, goals)).length,
           totalBoxes: boxes.length,
           player: state.player,
@@ -0,0 +1,22 @@
+/**
+ * Sokoban Solutions
+ *
+ * Push-optimal solutions of the built-in levels in LURD notation (uppercase =
+ * push), found offline by solveSokoban with a large node budget. The engine
+ * plays these instead of searching, since the classic levels are far beyond
+ * the budget a request can afford. Levels missing here have no proven optimum.
+ */
+
+/** Level index → push-optimal LURD solution */
+export const OPTIMAL_SOLUTIONS: Readonly<Record<number, string>> = {
+  // Level 1: 116 pushes
+  0:
+    'ullluuuLLUluurDldlDlldddrRRllluuurrDulldddrrrRRRRllllllluuurrdDuuuruulDDDDulldddrRddrrrrruuRlddl' +
+    'lllluuRRllddrrrrruurRllddllllluurrRlllddrrrrruurrRRRRRRllllllllddllllluurrrRRllllllluuurrdDuulld' +
+    'ddrRddrrrrruuluuullLuurDllDlldddrrddrrrrruuluuulLrrdddrRlluuullulldDuurrdrrdddrrRllddllllluuRldd' +
+    'rrrrruurrRlllddllllluullulldRRuuurrurrdrrdddrrrrRllllddllllluurRRlllddrrrrruurrrrRRRdrUluRdlllll' +
+    'lllddllllluurrrRuuullulldlldddRRRllluuurrurrdrrdddRddllllluurRRlllddrrrrruuRRRRRRRurDllllllllddl' +
+    'lllluurrrRuuullullddDuuurrdLulDDulldddrRRRlllluuurrrrrrdddRddllllluurrRlllddrrrrruuRRRRRRRdRluur' +
+    'RllddrUluRdllllllllddllllluurrrRuuulllldDuulldddrRRRlluuurrrrdddRddllllluurrRlllddrrrrruuRRRRRRR' +
+    'drRlluurDRlllllllllddllllluurrrRRRRRRRRRRldR',
+};
@@ -0,0 +1,518 @@
+/**
+ * Sokoban Solver
+ *
+ * Push-optimal A* search over box configurations:
+ * - A state is the set of box squares plus the player's reachable region
+ * - Each push costs 1; the heuristic (minimum-cost assignment of boxes to
+ *   goals by push distance) never overestimates, so the first solution found
+ *   is optimal
+ * - Dead squares (where a box can never reach a goal), freeze deadlocks
+ *   (boxes that can never move again off a goal) and configurations where the
+ *   boxes cannot all be assigned a goal are pruned
+ * - A node budget keeps the search bounded: small puzzles and positions close
+ *   to completion solve quickly, the larger classic levels do not (their
+ *   optimal solutions are precomputed, see ./solutions)
+ */
+
+import type { CellType, Direction, Position } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SokobanPuzzle {
+  board: CellType[][];
+  player: Position;
+  boxes: Position[];
+  goals: Position[];
+}
+
+export type SokobanSolveResult =
+  | { status: 'solved'; directions: Direction[]; pushes: number }
+  | { status: 'unsolvable' }
+  | { status: 'budget_exceeded'; expanded: number };
+
+export interface SokobanSolverOptions {
+  /** Maximum number of expanded states (default: 20,000) */
+  maxNodes?: number;
+}
+
+interface SearchNode {
+  /** Box squares; a box keeps its index from parent to child */
+  boxes: number[];
+  player: number;
+  g: number;
+  f: number;
+  /** Box-to-goal assignment behind f, once computed (until then f only uses each box's nearest goal) */
+  matching: Matching | null;
+  parent: SearchNode | null;
+  /** Index of the pushed box, the square it was on, and the push direction */
+  pushed: number;
+  pushFrom: number;
+  pushDir: number;
+}
+
+/** Hungarian algorithm state: duals and the box (1-based) on each goal column */
+interface Matching {
+  u: Float64Array;
+  v: Float64Array;
+  boxOnGoal: Int32Array;
+  cost: number;
+}
+
+/** Neighbor of a square in a direction, or -1 for walls and the board edge */
+type Step = (cell: number, dir: number) => number;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_MAX_NODES = 20_000;
+
+/** Assignment cost of a box that cannot reach a goal */
+const UNREACHABLE = 1_000_000;
+
+const DIRECTIONS: { name: Direction; dr: number; dc: number }[] = [
+  { name: 'up', dr: -1, dc: 0 },
+  { name: 'down', dr: 1, dc: 0 },
+  { name: 'left', dr: 0, dc: -1 },
+  { name: 'right', dr: 0, dc: 1 },
+];
+
+// =============================================================================
+// Solver
+// =============================================================================
+
+/**
+ * Find a push-optimal solution, returned as player directions
+ */
+export function solveSokoban(
+  puzzle: SokobanPuzzle,
+  options: SokobanSolverOptions = {}
+): SokobanSolveResult {
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const rows = puzzle.board.length;
+  const cols = Math.max(0, ...puzzle.board.map(row => row.length));
+  const size = rows * cols;
+  const index = (p: Position) => p.row * cols + p.col;
+
+  // Neighbor table: neighbors[cell * 4 + dir], -1 when blocked
+  const neighbors = new Int32Array(size * 4).fill(-1);
+  const isOpen = (r: number, c: number) =>
+    r >= 0 && r < rows && c >= 0 && c < cols && puzzle.board[r][c] !== undefined && puzzle.board[r][c] !== 'wall';
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!isOpen(r, c)) continue;
+      DIRECTIONS.forEach(({ dr, dc }, dir) => {
+        if (isOpen(r + dr, c + dc)) neighbors[(r * cols + c) * 4 + dir] = (r + dr) * cols + c + dc;
+      });
+    }
+  }
+  const step: Step = (cell, dir) => neighbors[cell * 4 + dir];
+
+  const goals = puzzle.goals.map(index);
+  const isGoal = new Uint8Array(size);
+  for (const goal of goals) isGoal[goal] = 1;
+
+  // Push distances to each goal, and to the nearest one (Infinity = dead square)
+  const goalDistances = goals.map(goal => pushDistances([goal], size, step));
+  const distance = pushDistances(goals, size, step);
+
+  const startBoxes = puzzle.boxes.map(index).sort((a, b) => a - b);
+  if (startBoxes.length !== goals.length) return { status: 'unsolvable' };
+  if (startBoxes.some(box => distance[box] === Infinity)) return { status: 'unsolvable' };
+
+  // Children are queued with the cheap nearest-goal bound; the assignment
+  // bound is computed when a node reaches the top of the queue
+  const nearestBound = (boxes: number[]) => boxes.reduce((sum, box) => sum + distance[box], 0);
+  const matcher = createMatcher(goals.length, (square, goal) => {
+    const d = goalDistances[goal][square];
+    return d === Infinity ? UNREACHABLE : d;
+  });
+  const isSolved = (boxes: number[]) => boxes.every(box => isGoal[box]);
+
+  // Boxes of the state being expanded (scratch occupancy grid)
+  const occupied = new Uint8Array(size);
+
+  // Player reachability (BFS into a reused buffer); returns the smallest
+  // reachable square so equivalent player positions share one state
+  const seen = new Int32Array(size);
+  const queue = new Int32Array(size);
+  let generation = 0;
+  const reach = (player: number): number => {
+    generation++;
+    seen[player] = generation;
+    queue[0] = player;
+    let smallest = player;
+    for (let head = 0, tail = 1; head < tail; head++) {
+      const cell = queue[head];
+      for (let dir = 0; dir < 4; dir++) {
+        const next = step(cell, dir);
+        if (next < 0 || occupied[next] || seen[next] === generation) continue;
+        seen[next] = generation;
+        queue[tail++] = next;
+        if (next < smallest) smallest = next;
+      }
+    }
+    return smallest;
+  };
+
+  // Freeze deadlock: a box blocked on both axes (by walls, dead squares or
+  // other frozen boxes) never moves again, which is fatal off a goal
+  const frozenChain: number[] = [];
+  const checking = new Uint8Array(size);
+  const blockedOn = (box: number, axis: number): boolean => {
+    const a = step(box, axis * 2);
+    const b = step(box, axis * 2 + 1);
+    if (a < 0 || b < 0 || checking[a] || checking[b]) return true;
+    if (distance[a] === Infinity && distance[b] === Infinity) return true;
+    return (occupied[a] === 1 && frozen(a)) || (occupied[b] === 1 && frozen(b));
+  };
+  const frozen = (box: number): boolean => {
+    // The box counts as a wall while its neighbors are checked
+    checking[box] = 1;
+    const mark = frozenChain.length;
+    const result = blockedOn(box, 0) && blockedOn(box, 1);
+    checking[box] = 0;
+    if (result) frozenChain.push(box);
+    else frozenChain.length = mark;
+    return result;
+  };
+  const freezeDeadlock = (box: number): boolean => {
+    frozenChain.length = 0;
+    return frozen(box) && frozenChain.some(cell => !isGoal[cell]);
+  };
+
+  const startMatching = matcher.assign(startBoxes);
+  if (startMatching.cost >= UNREACHABLE) return { status: 'unsolvable' };
+
+  const startPlayer = index(puzzle.player);
+  for (const box of startBoxes) occupied[box] = 1;
+  const start: SearchNode = {
+    boxes: startBoxes,
+    player: reach(startPlayer),
+    g: 0,
+    f: startMatching.cost,
+    matching: startMatching,
+    parent: null,
+    pushed: -1,
+    pushFrom: -1,
+    pushDir: -1,
+  };
+  for (const box of startBoxes) occupied[box] = 0;
+
+  const heap = new MinHeap<SearchNode>((a, b) => a.f - b.f || b.g - a.g);
+  const best = new Map<string, number>();
+  const key = (boxes: number[], player: number) =>
+    String.fromCharCode(...[...boxes].sort((a, b) => a - b), player);
+  heap.push(start);
+  best.set(key(start.boxes, start.player), 0);
+
+  let expanded = 0;
+  while (heap.size > 0) {
+    const node = heap.pop()!;
+    if (best.get(key(node.boxes, node.player))! < node.g) continue;
+
+    if (!node.matching) {
+      node.matching = matcher.reassign(node.parent!.matching!, node.boxes, node.pushed);
+      const h = node.matching.cost;
+      if (h >= UNREACHABLE) continue;
+      if (node.g + h > node.f) {
+        node.f = node.g + h;
+        heap.push(node);
+        continue;
+      }
+    }
+
+    if (isSolved(node.boxes)) {
+      return {
+        status: 'solved',
+        directions: expandPushes(node, startPlayer, puzzle, cols, step),
+        pushes: node.g,
+      };
+    }
+
+    if (++expanded > maxNodes) return { status: 'budget_exceeded', expanded };
+
+    for (const box of node.boxes) occupied[box] = 1;
+    reach(node.player);
+    const reachable = generation;
+    const behindReachable = (cell: number) => cell >= 0 && seen[cell] === reachable;
+    // Children reuse the BFS buffer, so collect the pushes first
+    const pushes: Array<[number, number]> = [];
+    for (let i = 0; i < node.boxes.length; i++) {
+      for (let dir = 0; dir < 4; dir++) {
+        if (behindReachable(step(node.boxes[i], dir ^ 1))) pushes.push([i, dir]);
+      }
+    }
+
+    for (const [i, dir] of pushes) {
+      // The player stands behind the box and pushes it one square
+      const box = node.boxes[i];
+      const target = step(box, dir);
+      if (target < 0 || occupied[target] || distance[target] === Infinity) continue;
+
+      occupied[box] = 0;
+      occupied[target] = 1;
+      const child = expandChild(node, i, dir, target);
+      occupied[target] = 0;
+      occupied[box] = 1;
+      if (child) heap.push(child);
+    }
+    for (const box of node.boxes) occupied[box] = 0;
+  }
+
+  return { status: 'unsolvable' };
+
+  // The state after pushing box i one square (occupied already updated), or
+  // null when it is a deadlock or no better than a known path
+  function expandChild(node: SearchNode, i: number, dir: number, target: number): SearchNode | null {
+    if (freezeDeadlock(target)) return null;
+
+    const boxes = [...node.boxes];
+    boxes[i] = target;
+
+    const player = reach(node.boxes[i]);
+    const g = node.g + 1;
+    const k = key(boxes, player);
+    if ((best.get(k) ?? Infinity) <= g) return null;
+    best.set(k, g);
+
+    return {
+      boxes,
+      player,
+      g,
+      f: g + nearestBound(boxes),
+      matching: null,
+      parent: node,
+      pushed: i,
+      pushFrom: node.boxes[i],
+      pushDir: dir,
+    };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Minimum pushes from each square to the nearest of the goals, ignoring other
+ * boxes (reverse search: pull a box away from every goal). Infinity = dead square.
+ */
+function pushDistances(goals: number[], size: number, step: Step): number[] {
+  const distance = new Array<number>(size).fill(Infinity);
+  const queue: number[] = [];
+  for (const goal of goals) {
+    distance[goal] = 0;
+    queue.push(goal);
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const box = queue[i];
+    for (let dir = 0; dir < 4; dir++) {
+      // Pulling the box one square in dir needs room for the player beyond it
+      const to = step(box, dir);
+      const player = to >= 0 ? step(to, dir) : -1;
+      if (player < 0 || distance[to] !== Infinity) continue;
+      distance[to] = distance[box] + 1;
+      queue.push(to);
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Minimum-cost assignment of n boxes to n goals (Hungarian algorithm). A
+ * child state moved one box, so its assignment is repaired from the parent's
+ * by re-assigning that box alone: O(n²) instead of O(n³).
+ */
+function createMatcher(n: number, cost: (square: number, goal: number) => number) {
+  const minCost = new Float64Array(n + 1);
+  const way = new Int32Array(n + 1);
+  const used = new Uint8Array(n + 1);
+
+  // Find the cheapest augmenting path from an unassigned box (1-based) to
+  // the free goal, keeping the duals feasible
+  const augment = ({ u, v, boxOnGoal }: Matching, boxes: number[], box: number) => {
+    boxOnGoal[0] = box;
+    let j0 = 0;
+    minCost.fill(Infinity);
+    used.fill(0);
+    do {
+      used[j0] = 1;
+      const i0 = boxOnGoal[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = cost(boxes[i0 - 1], j - 1) - u[i0] - v[j];
+        if (reduced < minCost[j]) {
+          minCost[j] = reduced;
+          way[j] = j0;
+        }
+        if (minCost[j] < delta) {
+          delta = minCost[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[boxOnGoal[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minCost[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (boxOnGoal[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      boxOnGoal[j0] = boxOnGoal[j1];
+      j0 = j1;
+    } while (j0);
+  };
+
+  const total = (matching: Matching, boxes: number[]) => {
+    let sum = 0;
+    for (let j = 1; j <= n; j++) sum += cost(boxes[matching.boxOnGoal[j] - 1], j - 1);
+    matching.cost = sum;
+    return matching;
+  };
+
+  return {
+    assign(boxes: number[]): Matching {
+      const matching: Matching = {
+        u: new Float64Array(n + 1),
+        v: new Float64Array(n + 1),
+        boxOnGoal: new Int32Array(n + 1),
+        cost: 0,
+      };
+      for (let box = 1; box <= n; box++) augment(matching, boxes, box);
+      return total(matching, boxes);
+    },
+
+    reassign(parent: Matching, boxes: number[], moved: number): Matching {
+      const matching: Matching = {
+        u: parent.u.slice(),
+        v: parent.v.slice(),
+        boxOnGoal: parent.boxOnGoal.slice(),
+        cost: 0,
+      };
+      const box = moved + 1;
+      let lowest = Infinity;
+      for (let j = 1; j <= n; j++) {
+        if (matching.boxOnGoal[j] === box) matching.boxOnGoal[j] = 0;
+        lowest = Math.min(lowest, cost(boxes[moved], j - 1) - matching.v[j]);
+      }
+      // The moved box's costs changed; lowering its dual keeps them feasible
+      matching.u[box] = lowest;
+      augment(matching, boxes, box);
+      return total(matching, boxes);
+    },
+  };
+}
+
+/**
+ * Turn the chain of pushes into player directions (walking between pushes)
+ */
+function expandPushes(
+  goal: SearchNode,
+  startPlayer: number,
+  puzzle: SokobanPuzzle,
+  cols: number,
+  step: Step
+): Direction[] {
+  const pushes: SearchNode[] = [];
+  for (let node: SearchNode | null = goal; node?.parent; node = node.parent) {
+    pushes.unshift(node);
+  }
+
+  const boxes = new Set(puzzle.boxes.map(p => p.row * cols + p.col));
+  const directions: Direction[] = [];
+  let player = startPlayer;
+
+  for (const push of pushes) {
+    const behind = step(push.pushFrom, push.pushDir ^ 1);
+    directions.push(...walk(player, behind, boxes, step));
+    directions.push(DIRECTIONS[push.pushDir].name);
+
+    boxes.delete(push.pushFrom);
+    boxes.add(step(push.pushFrom, push.pushDir));
+    player = push.pushFrom;
+  }
+
+  return directions;
+}
+
+/**
+ * Shortest walk (BFS) between two squares without moving boxes
+ */
+function walk(from: number, to: number, boxes: Set<number>, step: Step): Direction[] {
+  const previous = new Map<number, { cell: number; dir: number }>();
+  const queue = [from];
+  const seen = new Set([from]);
+
+  for (let i = 0; i < queue.length && !seen.has(to); i++) {
+    for (let dir = 0; dir < 4; dir++) {
+      const next = step(queue[i], dir);
+      if (next < 0 || boxes.has(next) || seen.has(next)) continue;
+      seen.add(next);
+      previous.set(next, { cell: queue[i], dir });
+      queue.push(next);
+    }
+  }
+
+  const path: Direction[] = [];
+  for (let cell = to; cell !== from; ) {
+    const prev = previous.get(cell);
+    if (!prev) return path;
+    path.unshift(DIRECTIONS[prev.dir].name);
+    cell = prev.cell;
+  }
+  return path;
+}
+
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
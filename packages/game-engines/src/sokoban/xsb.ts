@@ -0,0 +1,259 @@
+/**
+ * Sokoban XSB / SOK Format
+ *
+ * Reads and writes the community level formats so public collections can be
+ * loaded and levels shared with external tools:
+ * - XSB maps: # wall, @ player, + player on goal, $ box, * box on goal,
+ *   . goal, space/-/_ floor; run-length digits ("4#") and "|" row separators
+ *   are expanded
+ * - SOK collections: levels separated by blank lines, each map optionally
+ *   followed by Title:, Author: and Solution: fields; "; comment" lines
+ *   before a map name it when there is no Title:
+ * - LURD solutions: l/u/r/d for moves, uppercase for pushes
+ */
+
+import { sokobanEngine, type Direction, type SokobanMove, type SokobanState } from './index';
+import type { MoveResult } from '../types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One level of a SOK collection */
+export interface XsbLevel {
+  title: string;
+  author?: string;
+  /** Map rows in XSB notation */
+  map: string[];
+  /** Solution in LURD notation */
+  solution?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAP_LINE = /^[#@+$*.\-_ \d|]*#[#@+$*.\-_ \d|]*$/;
+const LURD_LINE = /^(\s*\d*[lurdLURD])+\s*$/;
+const FIELD_LINE = /^([A-Za-z][\w-]*)\s*(?:\([^)]*\))?\s*:\s*(.*)$/;
+
+const LURD_DIRECTIONS: Record<string, Direction> = {
+  u: 'up',
+  d: 'down',
+  l: 'left',
+  r: 'right',
+};
+
+const DIRECTION_LURD: Record<Direction, string> = {
+  up: 'u',
+  down: 'd',
+  left: 'l',
+  right: 'r',
+};
+
+// =============================================================================
+// SOK Collections
+// =============================================================================
+
+/**
+ * Parse an XSB file or SOK collection into its levels
+ */
+export function parseSok(text: string): XsbLevel[] {
+  const levels: XsbLevel[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  let current: XsbLevel | null = null;
+  let comment: string | null = null;
+  let inComment = false;
+  let inSolution = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\s+$/, '');
+
+    // Comment: ... Comment-End: blocks are free text
+    if (inComment) {
+      if (/^comment[-_ ]?end\s*:/i.test(line)) inComment = false;
+      continue;
+    }
+
+    if (line && MAP_LINE.test(line)) {
+      const map = expandMapLine(line);
+      if (current && lines[i - 1]?.trim() && MAP_LINE.test(lines[i - 1].replace(/\s+$/, ''))) {
+        current.map.push(...map);
+      } else {
+        current = { title: comment ?? `Level ${levels.length + 1}`, map };
+        levels.push(current);
+        comment = null;
+      }
+      continue;
+    }
+
+    if (inSolution && line && LURD_LINE.test(line)) {
+      current!.solution += line.replace(/\s/g, '');
+      continue;
+    }
+    inSolution = false;
+    if (!line) continue;
+
+    if (line.startsWith(';')) {
+      comment = line.slice(1).trim() || comment;
+      continue;
+    }
+
+    const field = line.match(FIELD_LINE);
+    const key = field?.[1].toLowerCase();
+    if (key === 'comment') {
+      inComment = !field![2];
+      continue;
+    }
+    if (!current) continue;
+
+    if (key === 'title') {
+      current.title = field![2].trim();
+    } else if (key === 'author') {
+      current.author = field![2].trim();
+    } else if (key === 'solution') {
+      current.solution = field![2].replace(/\s/g, '');
+      inSolution = true;
+    } else if (!field && LURD_LINE.test(line)) {
+      // Bare LURD line straight after the map
+      current.solution = (current.solution ?? '') + line.replace(/\s/g, '');
+      inSolution = true;
+    }
+  }
+
+  for (const level of levels) {
+    if (level.solution !== undefined) {
+      level.solution = expandRunLength(level.solution);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Write levels as a SOK collection
+ */
+export function formatSok(levels: XsbLevel[], collectionTitle?: string): string {
+  const blocks = levels.map(level => {
+    const lines = [...level.map, `Title: ${level.title}`];
+    if (level.author) lines.push(`Author: ${level.author}`);
+    if (level.solution) lines.push(`Solution: ${level.solution}`);
+    return lines.join('\n');
+  });
+
+  if (collectionTitle) blocks.unshift(`; ${collectionTitle}`);
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * The current position of a game as XSB map rows
+ */
+export function toXsb(state: SokobanState): string[] {
+  const key = (row: number, col: number) => `${row},${col}`;
+  const boxes = new Set(state.boxes.map(b => key(b.row, b.col)));
+  const goals = new Set(state.goals.map(g => key(g.row, g.col)));
+
+  return state.board.map((cells, row) =>
+    cells
+      .map((cell, col) => {
+        const isGoal = goals.has(key(row, col));
+        if (state.player.row === row && state.player.col === col) return isGoal ? '+' : '@';
+        if (boxes.has(key(row, col))) return isGoal ? '*' : '$';
+        if (isGoal) return '.';
+        return cell === 'wall' ? '#' : ' ';
+      })
+      .join('')
+      .replace(/\s+$/, '')
+  );
+}
+
+/**
+ * A game's level (its starting position) with its moves so far as the solution
+ */
+export function toXsbLevel(state: SokobanState): XsbLevel {
+  const initial = sokobanEngine.newGame(
+    state.customLevel ? { customLevel: state.customLevel } : { levelIndex: state.levelIndex }
+  );
+
+  return {
+    title: state.customLevel?.name ?? `Level ${state.levelIndex + 1}`,
+    map: toXsb(initial),
+    ...(state.lurd && { solution: state.lurd }),
+  };
+}
+
+// =============================================================================
+// LURD
+// =============================================================================
+
+/**
+ * Read a LURD string as moves; pushes are decided by the position
+ */
+export function parseLurd(lurd: string): SokobanMove[] | null {
+  const compact = expandRunLength(lurd.replace(/\s/g, ''));
+  if (!/^[lurdLURD]*$/.test(compact)) return null;
+  return [...compact].map(c => ({ direction: LURD_DIRECTIONS[c.toLowerCase()] }));
+}
+
+/**
+ * Write moves from a position as LURD, with pushes in uppercase
+ */
+export function toLurd(state: SokobanState, moves: SokobanMove[]): string | null {
+  let current = state;
+  let lurd = '';
+
+  for (const move of moves) {
+    const result = sokobanEngine.makeMove(current, move);
+    if (!result.valid) return null;
+    const step = DIRECTION_LURD[move.direction];
+    lurd += result.state.pushCount > current.pushCount ? step.toUpperCase() : step;
+    current = result.state;
+  }
+
+  return lurd;
+}
+
+/**
+ * Play a LURD solution from a position; uppercase steps must push a box
+ */
+export function replayLurd(state: SokobanState, lurd: string): MoveResult<SokobanState> {
+  const compact = expandRunLength(lurd.replace(/\s/g, ''));
+  if (!/^[lurdLURD]*$/.test(compact)) {
+    return { state, valid: false, error: 'Solution may only contain l, u, r, d (uppercase for pushes)' };
+  }
+
+  let current = state;
+  for (let i = 0; i < compact.length; i++) {
+    const step = compact[i];
+    const result = sokobanEngine.makeMove(current, { direction: LURD_DIRECTIONS[step.toLowerCase()] });
+    if (!result.valid) {
+      return { state: current, valid: false, error: `Step ${i + 1} (${step}): ${result.error}` };
+    }
+
+    const pushed = result.state.pushCount > current.pushCount;
+    if (pushed !== (step === step.toUpperCase())) {
+      return {
+        state: current,
+        valid: false,
+        error: `Step ${i + 1} (${step}) ${pushed ? 'pushes a box but is lowercase' : 'is uppercase but pushes nothing'}`,
+      };
+    }
+    current = result.state;
+  }
+
+  return { state: current, valid: true, result: sokobanEngine.getResult(current) ?? undefined };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function expandRunLength(text: string): string {
+  return text.replace(/(\d+)(\D)/g, (_, count: string, char: string) => char.repeat(Number(count)));
+}
+
+function expandMapLine(line: string): string[] {
+  return expandRunLength(line)
+    .split('|')
+    .map(row => row.replace(/[-_]/g, ' '));
+}
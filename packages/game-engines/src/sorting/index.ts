@@ -17,6 +17,7 @@ import {
   type GameStateJSON,
   type Difficulty,
 } from '../types';
+import { deriveSeed, rngFromSeed, stateRng, type Rng } from '../random';
 
 // =============================================================================
 // Types
@@ -179,18 +180,13 @@ export const TOTAL_LEVELS = SORTING_LEVELS.length;
 // Helper Functions
 // =============================================================================
 
-function generateRandomArray(size: number): number[] {
+function generateRandomArray(size: number, rng: Rng): number[] {
   // Generate unique random numbers for cleaner sorting
   const arr: number[] = [];
   for (let i = 1; i <= size; i++) {
     arr.push(i);
   }
-  // Fisher-Yates shuffle
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
+  return rng.shuffle(arr);
 }
 
 function isSorted(arr: number[]): boolean {
@@ -260,15 +256,17 @@ function createSortingEngine(): GameEngine<SortingState, SortingMove, SortingOpt
       maxPlayers: 1,
     },
 
-    newGame(options = {}): SortingState {
+    newGame(options = {}, seed?: string): SortingState {
       const levelIndex = options.level ?? 1;
       const level = SORTING_LEVELS[Math.min(levelIndex, TOTAL_LEVELS) - 1];
       const arraySize = options.arraySize ?? level.arraySize;
-      const array = generateRandomArray(arraySize);
+      const rng = rngFromSeed(seed);
+      const gameId = generateGameId(rng);
+      const array = generateRandomArray(arraySize, rng);
       const par = calculatePar(arraySize);
 
       return {
-        gameId: generateGameId(),
+        gameId,
         status: 'playing',
         turn: 'player',
         moveCount: 0,
@@ -285,6 +283,7 @@ function createSortingEngine(): GameEngine<SortingState, SortingMove, SortingOpt
         history: [],
         lastCompared: null,
         lastSwapped: null,
+        rngState: rng.state,
       };
     },
 
@@ -437,7 +436,7 @@ function createSortingEngine(): GameEngine<SortingState, SortingMove, SortingOpt
           if (levelNum < 1 || levelNum > TOTAL_LEVELS) {
             return { state, valid: false, error: `Level must be 1-${TOTAL_LEVELS}` };
           }
-          const newGameState = this.newGame({ level: levelNum });
+          const newGameState = this.newGame({ level: levelNum }, deriveSeed(stateRng(state)));
           return { state: newGameState, valid: true };
         }
 
@@ -19,7 +19,10 @@ import {
   type MoveResult,
   type GameStateJSON,
   type Difficulty,
+  type Hint,
+  type Solution,
 } from '../types';
+import { positionRng, rngFromSeed, type Rng } from '../random';
 
 // =============================================================================
 // Types
@@ -138,9 +141,28 @@ function getBestMove(board: Board, aiSymbol: Symbol, playerSymbol: Symbol): numb
   return bestMove;
 }
 
-function getRandomMove(board: Board): number {
-  const positions = getEmptyPositions(board);
-  return positions[Math.floor(Math.random() * positions.length)];
+/**
+ * Perfect-play line from a position: the winner wins as fast as possible,
+ * the loser holds out as long as possible
+ */
+function solveBoard(board: Board, toMove: Symbol): { positions: number[]; winner: Symbol | null } {
+  const line = [...board] as Board;
+  const positions: number[] = [];
+  let side = toMove;
+
+  while (!checkWinner(line) && !isBoardFull(line)) {
+    const other: Symbol = side === 'X' ? 'O' : 'X';
+    const position = getBestMove(line, side, other);
+    line[position] = side;
+    positions.push(position);
+    side = other;
+  }
+
+  return { positions, winner: checkWinner(line) };
+}
+
+function getRandomMove(board: Board, rng: Rng): number {
+  return rng.pick(getEmptyPositions(board));
 }
 
 function formatBoard(board: Board): string {
@@ -171,22 +193,25 @@ function createTicTacToeEngine(): GameEngine<TicTacToeState, TicTacToeMove, TicT
       points: 25,
       transport: 'sse',
       minPlayers: 1,
-      maxPlayers: 1,
+      maxPlayers: 2,
+      seats: ['X', 'O'],
     },
 
     // -------------------------------------------------------------------------
     // Lifecycle
     // -------------------------------------------------------------------------
-    newGame(options = {}): TicTacToeState {
+    newGame(options = {}, seed?: string): TicTacToeState {
+      const rng = rngFromSeed(seed);
       const { symbol = 'X' } = options;
 
       const playerSymbol: Symbol =
         symbol === 'random'
-          ? Math.random() < 0.5 ? 'X' : 'O'
+          ? rng.chance(0.5) ? 'X' : 'O'
           : symbol;
 
       return {
-        gameId: generateGameId(),
+        gameId: generateGameId(rng),
+        rngState: rng.state,
         status: 'playing',
         turn: playerSymbol === 'X' ? 'player' : 'opponent',
         moveCount: 0,
@@ -296,16 +321,18 @@ function createTicTacToeEngine(): GameEngine<TicTacToeState, TicTacToeMove, TicT
 
       const aiSymbol: Symbol = state.playerSymbol === 'X' ? 'O' : 'X';
       const diff = difficulty ?? 'hard'; // TicTacToe default is perfect play
+      // Derived from the state without advancing it (AI is pure)
+      const rng = positionRng(state, state.moveCount);
 
       switch (diff) {
         case 'easy':
           // Random moves
-          return { position: getRandomMove(state.board) };
+          return { position: getRandomMove(state.board, rng) };
 
         case 'medium':
           // 50% optimal, 50% random
-          if (Math.random() < 0.5) {
-            return { position: getRandomMove(state.board) };
+          if (rng.chance(0.5)) {
+            return { position: getRandomMove(state.board, rng) };
           }
           return { position: getBestMove(state.board, aiSymbol, state.playerSymbol) };
 
@@ -315,6 +342,36 @@ function createTicTacToeEngine(): GameEngine<TicTacToeState, TicTacToeMove, TicT
       }
     },
 
+    solve(state: TicTacToeState): Solution<TicTacToeMove> {
+      const { positions, winner } = solveBoard(state.board, state.currentTurn);
+
+      return {
+        moves: positions.map(position => ({ position })),
+        cost: positions.length,
+        outcome: !winner ? 'draw' : winner === state.playerSymbol ? 'won' : 'lost',
+        optimal: true,
+      };
+    },
+
+    hint(state: TicTacToeState): Hint<TicTacToeMove> | null {
+      if (this.isGameOver(state) || state.currentTurn !== state.playerSymbol) return null;
+
+      const solution = this.solve?.(state);
+      if (!solution || solution.moves.length === 0) return null;
+      const [move] = solution.moves;
+
+      // Every other move of the line is the player's
+      const playerMoves = Math.ceil(solution.moves.length / 2);
+      const explanation =
+        solution.outcome === 'won'
+          ? `Forces a win: you complete a line within ${playerMoves} move${playerMoves === 1 ? '' : 's'}.`
+          : solution.outcome === 'draw'
+            ? 'Holds the draw with best play from both sides.'
+            : 'Every move loses against perfect play; this one holds out longest.';
+
+      return { move, explanation, remaining: solution.moves.length - 1 };
+    },
+
     isGameOver(state: TicTacToeState): boolean {
       return checkWinner(state.board) !== null || isBoardFull(state.board);
     },
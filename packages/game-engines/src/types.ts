@@ -7,6 +7,8 @@
  * - Text and JSON rendering for MCP responses
  */
 
+import type { Rng } from './random';
+
 // =============================================================================
 // Game State
 // =============================================================================
@@ -28,6 +30,8 @@ export interface GameState {
   readonly moveCount: number;
   /** Timestamp of last move */
   readonly lastMoveAt?: number;
+  /** Seeded PRNG state (engines that use randomness, see random.ts) */
+  readonly rngState?: number;
 }
 
 // =============================================================================
@@ -41,6 +45,8 @@ export interface GameResult {
   score?: number;
   /** Total moves made */
   totalMoves: number;
+  /** Cost in the solver's measure, when it is not the move count (e.g. pushes) */
+  cost?: number;
   /** Game duration in ms (if tracked) */
   duration?: number;
   /** Additional metadata */
@@ -64,6 +70,30 @@ export interface MoveResult<TState extends GameState> {
   message?: string;
 }
 
+// =============================================================================
+// Solver Results
+// =============================================================================
+
+export interface Solution<TMove> {
+  /** Optimal line from the position (both sides' moves in two-player games) */
+  moves: TMove[];
+  /** Cost of the line in the game's own measure (moves, toggles, pushes, path cost) */
+  cost: number;
+  /** Outcome for the player under best play from both sides */
+  outcome: 'won' | 'lost' | 'draw';
+  /** False if the solver gave up on proving optimality (line is still valid) */
+  optimal: boolean;
+}
+
+export interface Hint<TMove> {
+  /** Suggested next move */
+  move: TMove;
+  /** Why this move is suggested */
+  explanation: string;
+  /** Optimal cost remaining after the move (if known) */
+  remaining?: number;
+}
+
 // =============================================================================
 // Game Engine Interface
 // =============================================================================
@@ -85,6 +115,8 @@ export interface GameEngineMetadata {
   minPlayers: 1 | 2;
   /** Maximum players */
   maxPlayers: 1 | 2;
+  /** Seat names in two-player games, in order: the first seat moves on the 'player' turn */
+  seats?: [string, string];
 }
 
 export interface GameEngine<
@@ -105,8 +137,9 @@ export interface GameEngine<
 
   /**
    * Create a new game with optional configuration
+   * Must be deterministic when seed is provided
    */
-  newGame(options?: TOptions): TState;
+  newGame(options?: TOptions, seed?: string): TState;
 
   /**
    * Validate that a state object is well-formed
@@ -133,8 +166,21 @@ export interface GameEngine<
    */
   makeMove(state: TState, move: TMove): MoveResult<TState>;
 
+  /**
+   * Solve the position: the optimal line to the end of the game
+   * Optional - implemented by puzzles and games small enough to search.
+   * Returns null if the position is unsolvable (or beyond the solver's budget).
+   */
+  solve?(state: TState): Solution<TMove> | null;
+
+  /**
+   * Suggest the next move for the player (usually the first move of solve)
+   */
+  hint?(state: TState): Hint<TMove> | null;
+
   /**
    * Get the AI's move for the current position
+   * Deterministic for a given state (randomness comes from state.rngState)
    * @param difficulty - Override default difficulty
    */
   getAIMove(state: TState, difficulty?: Difficulty): TMove | null;
@@ -235,9 +281,17 @@ export type OptionsOf<E> = E extends GameEngine<GameState, unknown, infer O> ? O
 
 /**
  * Generate a unique game ID
+ * When a seeded generator is given, the ID is derived from it so that
+ * the same seed always produces the same initial state.
  */
-export function generateGameId(): string {
-  return crypto.randomUUID();
+export function generateGameId(rng?: Rng): string {
+  if (!rng) {
+    return crypto.randomUUID();
+  }
+  const hex = Array.from({ length: 4 }, () =>
+    rng.int(0x100000000).toString(16).padStart(8, '0')
+  ).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
 }
 
 /**
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { isMoveEvent } from '@mcpchallenge/challenge-registry';
+import { validateReplay } from '../../../../src/lib/replay-verification';
+import { createLocalServer, type LocalServer } from '../local-server';
+import type { ReplayUploadBody } from '../replay-export';
+
+let replayDir: string;
+
+beforeEach(async () => {
+  replayDir = await mkdtemp(join(tmpdir(), 'mcpchallenge-local-'));
+});
+
+afterEach(async () => {
+  await rm(replayDir, { recursive: true, force: true });
+});
+
+let nextId = 1;
+async function call(server: LocalServer, name: string, args: Record<string, unknown> = {}) {
+  const response = await server.handleMessage(JSON.stringify({
+    jsonrpc: '2.0',
+    id: nextId++,
+    method: 'tools/call',
+    params: { name, arguments: args },
+  }));
+  const { result } = JSON.parse(response) as { result: { content: { text: string }[]; isError?: boolean } };
+  return { text: result.content.map((c) => c.text).join('\n'), isError: result.isError ?? false };
+}
+
+// Read the replay file a tool response says it saved
+async function savedReplay(text: string): Promise<ReplayUploadBody> {
+  const file = text.match(/Replay saved to (.+)/)?.[1];
+  expect(file).toBeDefined();
+  return JSON.parse(await readFile(file!, 'utf8')) as ReplayUploadBody;
+}
+
+describe('createLocalServer', () => {
+  it('saves a finished tic-tac-toe game as a replay the site accepts', async () => {
+    const server = createLocalServer({ game: 'tictactoe', replayDir });
+    expect((await call(server, 'new_game')).isError).toBe(false);
+
+    // Take the first free square each turn; the AI answers every move
+    let saved: string | null = null;
+    for (let square = 0; square < 9 && !saved; square++) {
+      const { text } = await call(server, 'make_move', { move: String(square) });
+      if (text.includes('Replay saved to')) saved = text;
+    }
+    expect(saved).not.toBeNull();
+
+    const body = await savedReplay(saved!);
+    expect(body.challengeId).toBe('tictactoe');
+    expect(body.replay.result).toBeDefined();
+    expect(body.moves).toHaveLength(body.replay.events.filter(isMoveEvent).length);
+    expect(body.result.moves).toBe(body.replay.meta.playerMoves);
+    expect(validateReplay('tic-tac-toe', null, body.replay)).toMatchObject({ valid: true });
+  });
+
+  it('exports a game in progress on request', async () => {
+    const server = createLocalServer({ game: 'tictactoe', replayDir, autoSave: false });
+    expect(await call(server, 'export_replay')).toEqual({
+      text: 'No game in progress. Use new_game to start.',
+      isError: true,
+    });
+
+    await call(server, 'new_game');
+    await call(server, 'make_move', { move: '4' });
+    const exported = await call(server, 'export_replay');
+
+    expect(exported.text).toContain('(game in progress)');
+    const body = await savedReplay(exported.text);
+    expect(body.replay.result).toBeUndefined();
+    expect(validateReplay('tic-tac-toe', null, body.replay)).toMatchObject({ valid: true });
+  });
+
+  it('refuses unknown games', () => {
+    expect(() => createLocalServer({ game: 'tetris', replayDir })).toThrow(/Unknown game: tetris/);
+  });
+});
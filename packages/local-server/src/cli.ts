@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * mcpchallenge-local CLI
+ *
+ * Serves one game over stdio, fully offline. The package is not published;
+ * build it in a checkout (npm run build) and run the bundle with node:
+ *
+ *   node packages/local-server/dist/cli.js --game chess --replays ./replays
+ */
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { parseArgs } from 'node:util';
+import { listEngines } from '@mcpchallenge/game-engines';
+import { createLocalServer } from './local-server';
+
+const USAGE = `Usage: node dist/cli.js --game <id> [options]
+
+Runs a game's MCP server locally over stdio, with the same tools as the
+hosted servers plus export_replay. Finished games are saved as replay files
+that can be uploaded to https://mcpchallenge.org/api/replays.
+
+Options:
+  --game <id>        Game to serve (see --list)
+  --replays <dir>    Where replay files are written (default: ~/.mcpchallenge/replays)
+  --no-auto-save     Only save replays when the agent calls export_replay
+  --list             List the available games
+  -h, --help         Show this help
+
+Build the bundle first with npm run build in packages/local-server.
+
+Claude Desktop / Cursor configuration (use the absolute path of the bundle):
+
+  {
+    "mcpServers": {
+      "mcpchallenge-chess": {
+        "command": "node",
+        "args": ["/path/to/mcpchallenge/packages/local-server/dist/cli.js", "--game", "chess"]
+      }
+    }
+  }`;
+
+function fail(message: string): never {
+  console.error(`mcpchallenge-local: ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function main(): void {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        game: { type: 'string' },
+        replays: { type: 'string', default: join(homedir(), '.mcpchallenge', 'replays') },
+        'no-auto-save': { type: 'boolean', default: false },
+        list: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.list) {
+    console.log(listEngines().join('\n'));
+    return;
+  }
+  if (!values.game) fail('--game is required');
+
+  let server;
+  try {
+    server = createLocalServer({
+      game: values.game,
+      replayDir: values.replays,
+      autoSave: !values['no-auto-save'],
+    });
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+
+  // stdout carries JSON-RPC only; everything else goes to stderr
+  console.error(`mcpchallenge-local: serving ${values.game} over stdio, replays in ${values.replays}`);
+
+  // One message at a time, so responses keep the order of the requests
+  let queue = Promise.resolve();
+  const input = createInterface({ input: process.stdin });
+  input.on('line', (line) => {
+    if (!line.trim()) return;
+    queue = queue
+      .then(() => server.handleMessage(line))
+      .then((response) => {
+        if (response) process.stdout.write(`${response}\n`);
+      })
+      .catch((err) => {
+        console.error(`mcpchallenge-local: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  });
+}
+
+main();
@@ -0,0 +1,175 @@
+/**
+ * Game Recording
+ *
+ * Wraps a game engine so every game played through the MCP adapter is
+ * recorded as a GameReplay. The adapter only sees the wrapped engine; new
+ * games get an explicit seed so the replay can be re-run by ReplayEngine.
+ */
+
+import {
+  ReplayRecorder,
+  type GameReplay,
+  type Seed,
+  type SerializedState,
+} from '@mcpchallenge/challenge-registry';
+import {
+  generateSeed,
+  type GameEngine,
+  type GameResult,
+  type GameState,
+  type MoveResult,
+} from '@mcpchallenge/game-engines';
+
+export class GameRecording {
+  /** Engine to hand to the MCP adapter */
+  readonly engine: GameEngine<GameState, unknown>;
+
+  /**
+   * Only record while a tool call is being handled; prompts and resources
+   * also create throwaway games (e.g. prompt examples)
+   */
+  capturing = false;
+
+  private readonly inner: GameEngine<GameState, unknown>;
+  private recorder: ReplayRecorder<unknown> | null = null;
+  private seed: string | null = null;
+  private options: Record<string, unknown> = {};
+  private lastState: string | null = null;
+  private replayable = true;
+  private result: GameResult | null = null;
+  private gameNumber = 0;
+
+  constructor(engine: GameEngine<GameState, unknown>) {
+    this.inner = engine;
+
+    const newGame = (options?: Record<string, unknown>, seed?: string): GameState =>
+      this.newGame(options, seed);
+    const makeMove = (state: GameState, move: unknown): MoveResult<GameState> =>
+      this.makeMove(state, move);
+
+    // Other methods stay bound to the real engine, so its own internal calls
+    // (AI search, simulations) are never recorded
+    this.engine = new Proxy(engine, {
+      get(target, prop) {
+        if (prop === 'newGame') return newGame;
+        if (prop === 'makeMove') return makeMove;
+        const value = Reflect.get(target, prop, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  get engineId(): string {
+    return this.inner.metadata.id;
+  }
+
+  /** A game has been started (and recorded) */
+  get hasGame(): boolean {
+    return this.recorder !== null;
+  }
+
+  /** The recorded game reached its end */
+  get isEnded(): boolean {
+    return this.result !== null;
+  }
+
+  /** Number of games started so far (1-based ID of the current one) */
+  get currentGame(): number {
+    return this.gameNumber;
+  }
+
+  /**
+   * False once the position was changed outside the engine (e.g. a Sokoban
+   * solution replayed on load), since ReplayEngine could not reproduce it
+   */
+  get isReplayable(): boolean {
+    return this.replayable;
+  }
+
+  /**
+   * Build the replay of the current game. A game the adapter ended without a
+   * move (resignation) is closed with a resign event first.
+   */
+  buildReplay(currentState: GameState | null): GameReplay<unknown> | null {
+    if (!this.recorder || !this.seed) return null;
+
+    if (!this.result && this.lastState && currentState?.status === 'lost') {
+      this.recorder.recordResign({
+        resignedBy: 'player',
+        stateAtResign: this.lastState as SerializedState,
+      });
+      this.result = { status: 'lost', totalMoves: currentState.moveCount };
+    }
+
+    return this.recorder.build({
+      challengeId: this.engineId,
+      gameId: `${this.engineId}-${this.gameNumber}`,
+      seed: this.seed as Seed,
+      options: this.options,
+      result: this.result ?? undefined,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private newGame(options?: Record<string, unknown>, seed?: string): GameState {
+    if (!this.capturing) return this.inner.newGame(options, seed);
+
+    const gameSeed = seed ?? generateSeed();
+    const state = this.inner.newGame(options, gameSeed);
+    const serialized = this.inner.serialize(state);
+
+    this.recorder = new ReplayRecorder<unknown>();
+    this.recorder.recordStart({
+      options: options ?? {},
+      seed: gameSeed as Seed,
+      initialState: serialized as SerializedState,
+    });
+    this.seed = gameSeed;
+    this.options = options ?? {};
+    this.lastState = serialized;
+    this.replayable = true;
+    this.result = null;
+    this.gameNumber++;
+    return state;
+  }
+
+  private makeMove(state: GameState, move: unknown): MoveResult<GameState> {
+    const result = this.inner.makeMove(state, move);
+    if (!this.capturing || !this.recorder || !result.valid) return result;
+
+    const stateBefore = this.inner.serialize(state);
+    const stateAfter = this.inner.serialize(result.state);
+    if (stateBefore !== this.lastState) {
+      this.replayable = false;
+    }
+
+    const input = {
+      move,
+      moveString: this.inner.formatMove(move),
+      stateBefore: stateBefore as SerializedState,
+      stateAfter: stateAfter as SerializedState,
+    };
+    if (state.turn === 'player') {
+      this.recorder.recordPlayerMove(input);
+    } else {
+      this.recorder.recordAIMove(input);
+    }
+    this.lastState = stateAfter;
+
+    if (!this.result && this.inner.isGameOver(result.state)) {
+      const gameResult = result.result ?? this.inner.getResult(result.state);
+      if (gameResult) {
+        this.recorder.recordEnd({
+          result: gameResult,
+          finalState: stateAfter as SerializedState,
+          reason: 'completed',
+        });
+        this.result = gameResult;
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Local Server
+ *
+ * Offline stdio MCP server for the game engines: the same adapters as the
+ * hosted servers, run in-process, with every game recorded as a GameReplay
+ * ready for upload to /api/replays.
+ */
+
+export { createLocalServer, type LocalServer, type LocalServerConfig } from './local-server';
+export { GameRecording } from './game-recording';
+export { saveReplay, toUploadBody, type ReplayUploadBody } from './replay-export';
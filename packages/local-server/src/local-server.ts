@@ -0,0 +1,114 @@
+/**
+ * Local MCP Server
+ *
+ * One game's MCP server from createAllGameAdapters, running in-process with
+ * replay recording. Adds an export_replay tool; finished games are saved to
+ * the replay directory automatically.
+ */
+
+import { getEngine, listEngines } from '@mcpchallenge/game-engines';
+import { createAllGameAdapters, type AdaptedMCPServer } from '@mcpchallenge/mcp-servers/adapters';
+import { errorContent, textContent } from '@mcpchallenge/mcp-servers/server';
+import type { MCPTool, ToolCallResult } from '@mcpchallenge/mcp-servers/types';
+import { GameRecording } from './game-recording';
+import { saveReplay } from './replay-export';
+
+export interface LocalServerConfig {
+  /** Engine ID of the game to serve */
+  game: string;
+  /** Directory replays are written to */
+  replayDir: string;
+  /** Save every finished game without waiting for export_replay (default true) */
+  autoSave?: boolean;
+}
+
+export interface LocalServer {
+  /** Handle one JSON-RPC message; returns '' when there is nothing to send back */
+  handleMessage(message: string): Promise<string>;
+}
+
+const exportReplayTool: MCPTool = {
+  name: 'export_replay',
+  description: 'Save the current game as a replay file for upload to mcpchallenge.org (POST /api/replays)',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export function createLocalServer(config: LocalServerConfig): LocalServer {
+  const engine = getEngine(config.game);
+  if (!engine) {
+    throw new Error(`Unknown game: ${config.game}. Available: ${listEngines().join(', ')}`);
+  }
+
+  const recording = new GameRecording(engine);
+  const adapter: AdaptedMCPServer = createAllGameAdapters(
+    { [config.game]: recording.engine },
+    { additionalTools: [exportReplayTool] }
+  )[config.game];
+  const autoSave = config.autoSave ?? true;
+
+  // Game number whose replay was saved, so each game is written once automatically
+  let savedGame = 0;
+
+  const exportReplay = async (): Promise<ToolCallResult> => {
+    const replay = recording.buildReplay(adapter.getState());
+    if (!replay) {
+      return errorContent('No game in progress. Use new_game to start.');
+    }
+    if (!recording.isReplayable) {
+      return errorContent('This game was changed outside the engine (e.g. a replayed solution) and cannot be exported as a replay.');
+    }
+
+    const file = await saveReplay(config.replayDir, replay);
+    return textContent(
+      `Replay saved to ${file}\n` +
+      `${replay.meta.playerMoves} moves${replay.result ? `, result: ${replay.result.status}` : ' (game in progress)'}\n` +
+      'Upload it while signed in: POST the file contents to https://mcpchallenge.org/api/replays'
+    );
+  };
+
+  return {
+    async handleMessage(message: string): Promise<string> {
+      let parsed: { id?: string | number; method?: string; params?: { name?: string } };
+      try {
+        parsed = JSON.parse(message);
+      } catch {
+        return adapter.server.handleMessage(message);
+      }
+
+      if (parsed.method !== 'tools/call') {
+        return adapter.server.handleMessage(message);
+      }
+
+      // export_replay is handled here, before the game's MCP server
+      if (parsed.params?.name === exportReplayTool.name) {
+        return JSON.stringify({ jsonrpc: '2.0', id: parsed.id, result: await exportReplay() });
+      }
+
+      recording.capturing = true;
+      let response: string;
+      try {
+        response = await adapter.server.handleMessage(message);
+      } finally {
+        recording.capturing = false;
+      }
+
+      const ended = recording.isEnded ||
+        (parsed.params?.name === 'resign' && adapter.getState()?.status === 'lost');
+      if (!autoSave || !response || !ended || savedGame === recording.currentGame) {
+        return response;
+      }
+
+      // Game just ended: save it and tell the agent where
+      savedGame = recording.currentGame;
+      const saved = await exportReplay();
+      const body = JSON.parse(response) as { result?: ToolCallResult };
+      if (body.result && !saved.isError) {
+        body.result.content.push(...saved.content);
+      }
+      return JSON.stringify(body);
+    },
+  };
+}
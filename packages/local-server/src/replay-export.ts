@@ -0,0 +1,49 @@
+/**
+ * Replay Export
+ *
+ * Writes recorded games as JSON files shaped like a POST /api/replays body,
+ * with the full GameReplay alongside the flat move list.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { isMoveEvent, type GameReplay } from '@mcpchallenge/challenge-registry';
+
+export interface ReplayUploadBody {
+  challengeId: string;
+  seed: string;
+  moves: string[];
+  result: {
+    won: boolean;
+    moves: number;
+    timeMs: number;
+    score?: number;
+  };
+  replay: GameReplay<unknown>;
+}
+
+export function toUploadBody(replay: GameReplay<unknown>): ReplayUploadBody {
+  return {
+    challengeId: replay.challengeId,
+    seed: replay.seed,
+    moves: replay.events.filter(isMoveEvent).map((event) => event.payload.moveString),
+    result: {
+      won: replay.result?.status === 'won',
+      moves: replay.meta.playerMoves,
+      timeMs: replay.meta.duration,
+      ...(replay.result?.score !== undefined && { score: replay.result.score }),
+    },
+    replay,
+  };
+}
+
+/**
+ * Save a replay to the directory, returning the file path
+ */
+export async function saveReplay(dir: string, replay: GameReplay<unknown>): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const stamp = new Date(replay.meta.createdAt).toISOString().replace(/[:.]/g, '-');
+  const file = join(dir, `${replay.challengeId}-${stamp}.json`);
+  await writeFile(file, JSON.stringify(toUploadBody(replay), null, 2));
+  return file;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  advanceTickLoop,
+  createTickLoop,
+  isTickDue,
+  parseTickSpeed,
+  recordInput,
+  startTickLoop,
+  stopTickLoop,
+  tickSnapshot,
+} from "../realtime";
+
+describe("parseTickSpeed", () => {
+  it("accepts presets and tick lengths in range", () => {
+    expect(parseTickSpeed("normal")).toBe(500);
+    expect(parseTickSpeed(" Insane ")).toBe(100);
+    expect(parseTickSpeed("300")).toBe(300);
+    expect(parseTickSpeed("250ms")).toBe(250);
+    expect(parseTickSpeed(10000)).toBe(10000);
+  });
+
+  it("rejects anything else", () => {
+    for (const spec of ["99", "10001", "ludicrous", "1.5", "-200", ""]) {
+      expect(parseTickSpeed(spec)).toBeNull();
+    }
+  });
+});
+
+describe("tick loop", () => {
+  it("schedules the first tick one interval after the start", () => {
+    const stopped = createTickLoop(500, ["snake1", "snake2"]);
+    expect(isTickDue(stopped, 1_000_000)).toBe(false);
+
+    const loop = startTickLoop(stopped, 1000);
+    expect(loop).toMatchObject({ tick: 0, lastTickAt: 1000, nextTickAt: 1500 });
+    expect(isTickDue(loop, 1499)).toBe(false);
+    expect(isTickDue(loop, 1500)).toBe(true);
+    expect(isTickDue(stopTickLoop(loop), 1500)).toBe(false);
+  });
+
+  it("measures each seat's latency from the last tick and counts the ticks it missed", () => {
+    let loop = startTickLoop(createTickLoop(500, ["snake1", "snake2"]), 0);
+
+    const first = recordInput(loop, "snake1", 120);
+    expect(first.latencyMs).toBe(120);
+    loop = recordInput(first.loop, "snake1", 180).loop;
+    loop = advanceTickLoop(loop, 500, true);
+
+    loop = recordInput(loop, "snake1", 560).loop;
+    loop = recordInput(loop, "snake2", 900).loop;
+    loop = advanceTickLoop(loop, 1000, true);
+    loop = advanceTickLoop(loop, 1500, true);
+
+    expect(tickSnapshot(loop, 1600)).toEqual({
+      tickMs: 500,
+      tick: 3,
+      running: true,
+      nextTickInMs: 400,
+      latency: {
+        snake1: { moves: 3, avgMs: 120, minMs: 60, maxMs: 180, lastMs: 60, missedTicks: 1 },
+        snake2: { moves: 1, avgMs: 400, minMs: 400, maxMs: 400, lastMs: 400, missedTicks: 2 },
+      },
+      serverTime: 1600,
+    });
+  });
+
+  it("schedules from the actual tick time after a late alarm", () => {
+    const loop = advanceTickLoop(startTickLoop(createTickLoop(250, ["snake1"]), 0), 1000, true);
+
+    expect(loop).toMatchObject({ tick: 1, lastTickAt: 1000, nextTickAt: 1250 });
+    expect(advanceTickLoop(loop, 1250, false).nextTickAt).toBeNull();
+  });
+
+  it("clears the stats when a new game starts", () => {
+    const played = advanceTickLoop(recordInput(startTickLoop(createTickLoop(500, ["snake1"]), 0), "snake1", 50).loop, 500, false);
+    const restarted = startTickLoop(played, 2000);
+
+    expect(restarted.tick).toBe(0);
+    expect(tickSnapshot(restarted, 2000).latency).toEqual({
+      snake1: { moves: 0, avgMs: null, minMs: null, maxMs: null, lastMs: null, missedTicks: 0 },
+    });
+  });
+});
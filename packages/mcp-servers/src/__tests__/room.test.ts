@@ -0,0 +1,344 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MCP_SESSION_HEADER } from "../mcp/streamable-http";
+import { GameRoom } from "../room";
+
+// Map-backed stand-in for the Durable Object state the room uses; WebSockets
+// are plain objects tagged through connect()
+function createState() {
+  const data = new Map<string, unknown>();
+  const sockets = new Map<WebSocket, string[]>();
+  const clone = <T>(value: T): T => structuredClone(value);
+
+  const storage = {
+    async get(key: string) {
+      return data.has(key) ? clone(data.get(key)) : undefined;
+    },
+    async put(keyOrEntries: string | Record<string, unknown>, value?: unknown) {
+      const entries = typeof keyOrEntries === "string" ? { [keyOrEntries]: value } : keyOrEntries;
+      for (const [key, entry] of Object.entries(entries)) {
+        data.set(key, clone(entry));
+      }
+    },
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        data.delete(key);
+      }
+    },
+    async deleteAll() {
+      data.clear();
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      return new Map(
+        [...data].filter(([key]) => key.startsWith(prefix)).map(([key, value]) => [key, clone(value)])
+      );
+    },
+    async setAlarm() {},
+  };
+
+  const state = {
+    storage,
+    getWebSockets: (tag?: string) =>
+      [...sockets].filter(([, tags]) => tag === undefined || tags.includes(tag)).map(([ws]) => ws),
+    getTags: (ws: WebSocket) => sockets.get(ws) ?? [],
+    acceptWebSocket: (ws: WebSocket, tags: string[] = []) => {
+      sockets.set(ws, tags);
+    },
+  };
+
+  // A connected WebSocket with the tags the room gives it on upgrade
+  const connect = (tags: string[]): WebSocket => {
+    const ws = { send: () => {}, close: () => {} } as unknown as WebSocket;
+    sockets.set(ws, tags);
+    return ws;
+  };
+  const disconnect = (ws: WebSocket) => {
+    sockets.delete(ws);
+  };
+
+  return { data, state: state as unknown as DurableObjectState, connect, disconnect };
+}
+
+async function createRoom(body: Record<string, unknown> = { gameType: "tictactoe" }) {
+  const { state, ...rest } = createState();
+  const room = new GameRoom(state);
+  const init = await room.fetch(
+    new Request("https://room/init", {
+      method: "POST",
+      body: JSON.stringify({ roomId: "room-1", ...body }),
+    })
+  );
+  expect(init.status).toBe(200);
+  return { room, ...rest };
+}
+
+async function call<T = Record<string, unknown>>(room: GameRoom, path: string, init?: RequestInit) {
+  const response = await room.fetch(new Request(`https://room${path}`, init));
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+async function spectate(room: GameRoom): Promise<string> {
+  const { status, body } = await call<{ spectatorToken: string }>(room, "/spectate", { method: "POST" });
+  expect(status).toBe(200);
+  return body.spectatorToken;
+}
+
+async function spectatorCount(room: GameRoom): Promise<number> {
+  return (await call<{ spectatorCount: number }>(room, "/state")).body.spectatorCount;
+}
+
+interface ToolResult {
+  content: { text: string }[];
+  isError?: boolean;
+}
+
+let nextId = 1;
+function toolCall(name: string, args: Record<string, unknown> = {}): string {
+  return JSON.stringify({ jsonrpc: "2.0", id: nextId++, method: "tools/call", params: { name, arguments: args } });
+}
+
+// Call a tool over POST /mcp, as the player holding the nonce (if any)
+async function tool(room: GameRoom, nonce: string | null, name: string, args: Record<string, unknown> = {}) {
+  const response = await room.fetch(
+    new Request(`https://room/mcp${nonce ? `?player=${nonce}` : ""}`, { method: "POST", body: toolCall(name, args) })
+  );
+  const { result } = (await response.json()) as { result: ToolResult };
+  return { text: result.content.map((c) => c.text).join("\n"), isError: result.isError ?? false };
+}
+
+// A PvP room with both seats joined and identified, so the game has started
+async function createPvPRoom(gameType: string, options: Record<string, unknown> = {}) {
+  const created = await createRoom({ gameType, mode: "pvp", ...options });
+  const nonces: Record<string, string> = {};
+  for (let i = 0; i < 2; i++) {
+    const { body } = await call<{ playerNonce: string; seat: string }>(created.room, "/join", { method: "POST" });
+    nonces[body.seat] = body.playerNonce;
+  }
+  for (const [seat, nonce] of Object.entries(nonces)) {
+    const identified = await tool(created.room, nonce, "agent.identify", { name: `agent-${seat}`, model: "m", client: "c" });
+    expect(identified.isError).toBe(false);
+  }
+  return { ...created, nonces };
+}
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface PublicState {
+  winnerSeat: string | null;
+  turnSeat: string | null;
+  realtime: { tick: number; running: boolean; latency: Record<string, Record<string, number | null>> } | null;
+  gameState: { status: string; snake?: Position[]; opponent?: { snake: Position[] } };
+}
+
+async function publicState(room: GameRoom) {
+  return (await call<PublicState>(room, "/state")).body;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("GameRoom spectators", () => {
+  it("hands out at most 20 slots at a time", async () => {
+    const { room } = await createRoom();
+    for (let i = 0; i < 20; i++) {
+      await spectate(room);
+    }
+
+    expect((await call(room, "/spectate", { method: "POST" })).status).toBe(400);
+    expect(await spectatorCount(room)).toBe(20);
+  });
+
+  it("frees the slots of idle tokens and refuses them afterwards", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { room } = await createRoom();
+    const idle = await spectate(room);
+    const active = await spectate(room);
+
+    vi.setSystemTime(4 * 60 * 1000);
+    expect((await call(room, `/state?spectator=${active}`)).status).toBe(200);
+
+    vi.setSystemTime(6 * 60 * 1000);
+    expect(await spectatorCount(room)).toBe(1);
+    expect((await call(room, `/state?spectator=${idle}`)).status).toBe(403);
+    expect((await call(room, `/state?spectator=${active}`)).status).toBe(200);
+  });
+
+  it("keeps the slot of a spectator with an open WebSocket", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { room, connect } = await createRoom();
+    const token = await spectate(room);
+    connect(["spectator", `spectator:${token}`]);
+
+    vi.setSystemTime(60 * 60 * 1000);
+    expect(await spectatorCount(room)).toBe(1);
+  });
+
+  it("frees the slot when the WebSocket closes", async () => {
+    const { room, connect, disconnect } = await createRoom();
+    const token = await spectate(room);
+    const ws = connect(["spectator", `spectator:${token}`]);
+
+    await room.webSocketClose(ws, 1000, "", true);
+    disconnect(ws);
+
+    expect(await spectatorCount(room)).toBe(0);
+    expect((await call(room, `/state?spectator=${token}`)).status).toBe(403);
+  });
+
+  it("frees the slot when the spectator ends its MCP session", async () => {
+    const { room } = await createRoom();
+    const token = await spectate(room);
+
+    const init = await room.fetch(
+      new Request(`https://room/streamable?spectator=${token}`, {
+        method: "POST",
+        headers: { Accept: "application/json, text/event-stream" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+      })
+    );
+    const sessionId = init.headers.get(MCP_SESSION_HEADER)!;
+    const deleted = await room.fetch(
+      new Request(`https://room/streamable?spectator=${token}`, {
+        method: "DELETE",
+        headers: { [MCP_SESSION_HEADER]: sessionId },
+      })
+    );
+
+    expect(deleted.status).toBe(204);
+    expect(await spectatorCount(room)).toBe(0);
+  });
+});
+
+describe("GameRoom PvP", () => {
+  it.each(["chess", "tictactoe", "gorillas", "snake"])(
+    "needs a seat for every tool that changes a %s game",
+    async (gameType) => {
+      const { room } = await createPvPRoom(gameType);
+
+      for (const name of ["new_game", "make_move", "resign"]) {
+        expect(await tool(room, null, name)).toEqual({ text: "Missing player nonce for PvP mode", isError: true });
+        expect(await tool(room, "not-a-seat", name)).toEqual({ text: "Invalid player nonce", isError: true });
+      }
+      expect((await tool(room, null, "get_state")).isError).toBe(false);
+      expect((await publicState(room)).gameState.status).toBe("playing");
+    }
+  );
+
+  it("only replaces a game before its first move or once it is over", async () => {
+    const { room, nonces } = await createPvPRoom("chess");
+
+    expect((await tool(room, nonces.black, "new_game")).isError).toBe(false);
+    expect((await tool(room, nonces.white, "make_move", { move: "e4" })).isError).toBe(false);
+    expect(await tool(room, nonces.black, "new_game")).toEqual({
+      text: "A game is in progress. Resign it before starting a new one.",
+      isError: true,
+    });
+
+    expect((await tool(room, nonces.white, "resign")).isError).toBe(false);
+    expect((await tool(room, nonces.black, "new_game")).isError).toBe(false);
+    expect((await publicState(room)).gameState.status).toBe("playing");
+  });
+
+  it("ends the game as a loss for the seat that resigns", async () => {
+    const tictactoe = await createPvPRoom("tictactoe");
+    expect(await tool(tictactoe.room, tictactoe.nonces.O, "resign")).toEqual({ text: "O resigned. Game over.", isError: false });
+    expect(await publicState(tictactoe.room)).toMatchObject({ winnerSeat: "X", turnSeat: null });
+    expect((await tool(tictactoe.room, tictactoe.nonces.X, "resign")).isError).toBe(true);
+
+    const chess = await createPvPRoom("chess");
+    await tool(chess.room, chess.nonces.white, "resign");
+    expect((await publicState(chess.room)).winnerSeat).toBe("black");
+
+    const snake = await createPvPRoom("snake");
+    await tool(snake.room, snake.nonces.snake2, "resign");
+    expect(await publicState(snake.room)).toMatchObject({ winnerSeat: "snake1", gameState: { status: "finished" } });
+
+    const gorillas = await createPvPRoom("gorillas");
+    await tool(gorillas.room, gorillas.nonces.player1, "resign");
+    expect((await publicState(gorillas.room)).winnerSeat).toBe("player2");
+  });
+
+  it("applies the same rules to moves sent over a WebSocket", async () => {
+    const { room, nonces, connect } = await createPvPRoom("chess");
+    const sent: string[] = [];
+    const ws = connect([`player:${nonces.black}`]);
+    (ws as unknown as { send: (message: string) => void }).send = (message) => sent.push(message);
+
+    await room.webSocketMessage(ws, toolCall("make_move", { move: "e5" }));
+    await tool(room, nonces.white, "make_move", { move: "e4" });
+    await room.webSocketMessage(ws, toolCall("new_game"));
+    await room.webSocketMessage(ws, toolCall("resign"));
+
+    expect(sent.map((message) => (JSON.parse(message) as { result: ToolResult }).result.content[0].text)).toEqual([
+      "It's white's turn, not yours!",
+      "A game is in progress. Resign it before starting a new one.",
+      "black resigned. Game over.",
+    ]);
+    expect((await publicState(room)).winnerSeat).toBe("white");
+  });
+});
+
+describe("GameRoom real-time snake", () => {
+  it("queues each seat's direction and moves both snakes on the tick", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { room, nonces } = await createPvPRoom("snake", { speed: "normal" });
+    expect((await publicState(room)).realtime).toMatchObject({ tick: 0, running: true });
+
+    vi.setSystemTime(120);
+    expect(await tool(room, nonces.snake1, "make_move", { move: "up" })).toEqual({
+      text: "Queued up for tick 1 (120ms after the last tick)",
+      isError: false,
+    });
+    expect(await tool(room, nonces.snake2, "make_move", { move: "right" })).toEqual({
+      text: "Cannot turn 180 degrees",
+      isError: true,
+    });
+    expect((await tool(room, null, "make_move", { move: "up" })).text).toBe("Missing player nonce for PvP mode");
+
+    // The alarm only ticks once the tick is due
+    vi.setSystemTime(499);
+    await room.alarm();
+    expect((await publicState(room)).realtime!.tick).toBe(0);
+
+    vi.setSystemTime(500);
+    await room.alarm();
+    const state = await publicState(room);
+    expect(state.gameState.snake![0]).toEqual({ x: 3, y: 2 });
+    expect(state.gameState.opponent!.snake[0]).toEqual({ x: 10, y: 11 });
+    expect(state.realtime).toMatchObject({
+      tick: 1,
+      running: true,
+      latency: {
+        snake1: { moves: 1, avgMs: 120, missedTicks: 0 },
+        snake2: { moves: 0, avgMs: null, missedTicks: 1 },
+      },
+    });
+  });
+
+  it("stops ticking when the game ends", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { room, nonces } = await createPvPRoom("snake", { speed: "normal" });
+
+    // Both snakes run straight into the side walls on the same tick
+    for (let tick = 1; tick <= 12; tick++) {
+      vi.setSystemTime(tick * 500);
+      await room.alarm();
+    }
+
+    expect(await publicState(room)).toMatchObject({
+      winnerSeat: "draw",
+      realtime: { tick: 12, running: false },
+      gameState: { status: "finished" },
+    });
+
+    vi.setSystemTime(6500);
+    await room.alarm();
+    expect((await publicState(room)).realtime!.tick).toBe(12);
+    expect((await tool(room, nonces.snake1, "make_move", { move: "up" })).text).toBe(
+      "No game in progress. Use new_game to start."
+    );
+  });
+});
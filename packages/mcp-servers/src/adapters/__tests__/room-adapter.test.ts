@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../../mcp/types";
+import { getTurnSeat, getWinnerSeat } from "../room-adapter";
+
+function chess(fields: Record<string, unknown>): GameState {
+  return {
+    gameType: "chess",
+    status: "playing",
+    createdAt: 1,
+    lastActivity: 1,
+    fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    pgn: "",
+    turn: "white",
+    ...fields,
+  } as unknown as GameState;
+}
+
+function tictactoe(fields: Record<string, unknown>): GameState {
+  return {
+    gameType: "tictactoe",
+    status: "playing",
+    createdAt: 1,
+    lastActivity: 1,
+    board: ["X", "X", "X", "O", "O", null, null, null, null],
+    currentTurn: "O",
+    playerSymbol: "X",
+    winner: null,
+    ...fields,
+  } as unknown as GameState;
+}
+
+describe("room seats", () => {
+  it("has no winner while the game is being played", () => {
+    expect(getWinnerSeat("chess", null)).toBeNull();
+    expect(getWinnerSeat("chess", chess({}))).toBeNull();
+    expect(getTurnSeat("chess", chess({}))).toBe("white");
+  });
+
+  it("names the winning seat of a finished PvP game", () => {
+    expect(getWinnerSeat("chess", chess({ status: "finished", result: "black" }))).toBe("black");
+    expect(getWinnerSeat("chess", chess({ status: "finished", result: "white" }))).toBe("white");
+    expect(getWinnerSeat("tictactoe", tictactoe({ status: "finished", winner: "X" }))).toBe("X");
+    expect(getWinnerSeat("tictactoe", tictactoe({ status: "finished", winner: "O" }))).toBe("O");
+  });
+
+  it("reports draws as 'draw'", () => {
+    expect(getWinnerSeat("chess", chess({ status: "finished", result: "draw" }))).toBe("draw");
+    expect(getWinnerSeat("tictactoe", tictactoe({ status: "finished", winner: "draw" }))).toBe("draw");
+  });
+
+  it("has no turn seat once the game is over", () => {
+    expect(getTurnSeat("tictactoe", tictactoe({ status: "finished", winner: "X" }))).toBeNull();
+  });
+});
@@ -5,13 +5,34 @@
  * Handles state management, tool calls, and response formatting.
  */
 
-import type {
-  GameEngine,
-  GameState,
-  MoveResult,
-  Difficulty,
+import {
+  CUSTOM_LEVEL_GAMES,
+  LEVEL_FORMAT,
+  LEVEL_FORMAT_VERSION,
+  customLevelOptions,
+  validateLevelFile,
+  parseSok,
+  formatSok,
+  toXsbLevel,
+  replayLurd,
+  formatMinesweeperBoard,
+  getMineProbabilities,
+  formatMineProbabilities,
+  exportPgn,
+  type ChessState,
+  type MinesweeperState,
+  type FractalState,
+  type SokobanState,
+  type CustomLevelFile,
+  type CustomLevelGame,
+  type GameEngine,
+  type GameState,
+  type MoveResult,
+  type Difficulty,
 } from '@mcpchallenge/game-engines';
 import { MCPServer, textContent, errorContent } from '../mcp/server';
+import { createGamePromptProvider } from './game-prompts';
+import { createGameResourceProvider, type GameResourceConfig } from './game-resources';
 import type {
   MCPTool,
   ToolCallResult,
@@ -46,6 +67,9 @@ export interface GameAdapterConfig<TState extends GameState, TMove> {
 
   /** Skip turn validation (for PvP where room-level validation is used) */
   skipTurnValidation?: boolean;
+
+  /** Expose the game as MCP resources (game://{roomId}/...) */
+  resources?: GameResourceConfig;
 }
 
 export interface AdaptedMCPServer {
@@ -76,6 +100,10 @@ function generateTools<TState extends GameState, TMove>(
             enum: ['easy', 'medium', 'hard'],
             description: 'AI difficulty level (default: medium)',
           },
+          seed: {
+            type: 'string',
+            description: 'Random seed for a reproducible game (default: random)',
+          },
         },
       },
     },
@@ -86,6 +114,7 @@ function generateTools<TState extends GameState, TMove>(
         type: 'object',
         properties: {},
       },
+      annotations: { readOnlyHint: true },
     },
     {
       name: 'get_legal_moves',
@@ -94,6 +123,7 @@ function generateTools<TState extends GameState, TMove>(
         type: 'object',
         properties: {},
       },
+      annotations: { readOnlyHint: true },
     },
     {
       name: 'make_move',
@@ -133,8 +163,204 @@ function generateTools<TState extends GameState, TMove>(
     },
   ];
 
+  // Hints for engines with a solver
+  if (engine.hint) {
+    tools.push({
+      name: 'get_hint',
+      description: 'Get a hint: the next move on an optimal solution, with an explanation',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    });
+  }
+
+  // Custom level files (Sokoban, Pathfinding, Poly Bridge)
+  if (CUSTOM_LEVEL_GAMES.includes(metadata.id as CustomLevelGame)) {
+    tools.push({
+      name: 'load_custom_level',
+      description: 'Start a custom level from a level file (JSON with format "mcpchallenge-level")',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          level: {
+            type: 'string',
+            description: 'Contents of the level file',
+          },
+        },
+        required: ['level'],
+      },
+    });
+  }
+
+  // Add Chess-specific options
+  if (metadata.id === 'chess') {
+    tools[0].inputSchema.properties = {
+      ...tools[0].inputSchema.properties,
+      elo: {
+        type: 'number',
+        description: 'AI strength as an ELO-like rating (400-2400); overrides difficulty',
+        minimum: 400,
+        maximum: 2400,
+      },
+      opening: {
+        type: 'string',
+        description: 'Start from a named opening: ECO code (e.g. "C60") or name (e.g. "Sicilian Defense: Najdorf")',
+      },
+      pgn: {
+        type: 'string',
+        description: 'Continue a game from PGN text',
+      },
+    };
+    tools.push({
+      name: 'get_pgn',
+      description: 'Export the game so far as PGN, with the opening and result annotated',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      annotations: { readOnlyHint: true },
+    });
+  }
+
+  // Add Snake-specific options
+  if (metadata.id === 'snake') {
+    tools[0].inputSchema.properties = {
+      ...tools[0].inputSchema.properties,
+      mode: {
+        type: 'string',
+        enum: ['solo', 'pvp'],
+        description: 'pvp: two snakes head-to-head, taking turns (the AI moves the second one outside PvP rooms)',
+      },
+      maxMoves: {
+        type: 'number',
+        description: 'Head-to-head move limit; the longer snake wins when it runs out (default: 400)',
+        minimum: 10,
+      },
+    };
+  }
+
+  // Add Minesweeper-specific options and tools
+  if (metadata.id === 'minesweeper') {
+    tools[0].inputSchema.properties = {
+      ...tools[0].inputSchema.properties,
+      board: {
+        type: 'string',
+        description: 'Play a fixed board in text format: . covered, * mine, 0-8 revealed, F flagged mine, f wrong flag, X exploded',
+      },
+      noGuess: {
+        type: 'boolean',
+        description: 'Deal a board that can be cleared by logic alone from the first click (no 50/50 guesses)',
+      },
+    };
+    tools.push({
+      name: 'export_board',
+      description: 'Export the current board (with mines) in the plain-text board format',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      annotations: { readOnlyHint: true },
+    });
+    tools.push({
+      name: 'get_probabilities',
+      description: 'Mine probability (%) of every covered cell from the revealed numbers, with the certainly safe and mined cells',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      annotations: { readOnlyHint: true },
+    });
+  }
+
+  // Add Fractals-specific tools
+  if (metadata.id === 'fractals') {
+    tools.push({
+      name: 'add_rule',
+      description: 'Add an L-system rule: plain (F -> FF), parametric with a condition (F(l) : l>2 -> F(l*0.5)[+F(l*0.7)]) or context-sensitive (A<B>C -> D). Turtle: F/G draw, f move, + - turn, & ^ pitch, \\ / roll, | turn around, [ ] branch. Syntax errors give the column.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          rule: {
+            type: 'string',
+            description: 'Whole rule, e.g. "F(l) : l>2 -> F(l*0.5)[+F(l*0.7)]" (instead of symbol/replacement/condition)',
+          },
+          symbol: {
+            type: 'string',
+            description: 'Predecessor with optional parameters and context, e.g. F, F(l) or A<B>C',
+          },
+          replacement: {
+            type: 'string',
+            description: 'Successor modules; parameters are expressions, e.g. F(l*0.5)[+F(l*0.7)]',
+          },
+          condition: {
+            type: 'string',
+            description: 'Condition on the parameters, e.g. l>2',
+          },
+          probability: {
+            type: 'number',
+            description: 'Weight among rules for the same symbol (default 1)',
+            minimum: 0,
+          },
+        },
+      },
+    });
+    tools.push({
+      name: 'render_svg',
+      description: 'Render the fractal as resolution-independent SVG (one path per colour) for print-quality export',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          colorScheme: {
+            type: 'string',
+            description: 'Colour scheme (default: current)',
+            enum: ['monochrome', 'depth', 'rainbow', 'forest', 'fire', 'ocean'],
+          },
+          precision: {
+            type: 'number',
+            description: 'Decimal places for coordinates (default 2)',
+            minimum: 0,
+            maximum: 6,
+          },
+        },
+      },
+    });
+  }
+
   // Add Sokoban-specific tools
   if (metadata.id === 'sokoban') {
+    tools.push({
+      name: 'load_xsb',
+      description: 'Start a level from XSB / SOK text (one level or a whole collection); a LURD solution in the file can be replayed',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          xsb: {
+            type: 'string',
+            description: 'XSB map or SOK collection text',
+          },
+          index: {
+            type: 'number',
+            description: 'Which level of a collection to play (0-based, default 0)',
+            minimum: 0,
+          },
+          replay: {
+            type: 'boolean',
+            description: 'Play the level\'s Solution: moves after loading',
+          },
+        },
+        required: ['xsb'],
+      },
+    });
+    tools.push({
+      name: 'export_xsb',
+      description: 'Export the current level in SOK format, with the moves so far as a LURD solution',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      annotations: { readOnlyHint: true },
+    });
     tools.push({
       name: 'change_level',
       description: 'Change to a different level (0-59)',
@@ -231,6 +457,7 @@ export function createGameAdapter<TState extends GameState, TMove>(
     autoPlayAI = true,
     additionalTools = [],
     skipTurnValidation = false,
+    resources,
   } = config;
 
   const { metadata } = engine;
@@ -254,8 +481,8 @@ export function createGameAdapter<TState extends GameState, TMove>(
       // new_game
       // ---------------------------------------------------------------------
       case 'new_game': {
-        const options = { ...args } as Record<string, unknown>;
-        const newState = engine.newGame(options);
+        const { seed, ...options } = args as Record<string, unknown>;
+        const newState = engine.newGame(options, typeof seed === 'string' ? seed : undefined);
         updateState(newState);
 
         let prefix = `New ${metadata.name} game started!`;
@@ -402,6 +629,25 @@ export function createGameAdapter<TState extends GameState, TMove>(
         return textContent(`AI suggests: ${engine.formatMove(aiMove)}`);
       }
 
+      // ---------------------------------------------------------------------
+      // get_hint
+      // ---------------------------------------------------------------------
+      case 'get_hint': {
+        if (!engine.hint) {
+          return errorContent(`Hints are not available for ${metadata.name}.`);
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+
+        const hint = engine.hint(gameState);
+        if (!hint) {
+          return textContent('No hint available (the game may be over, or the position is beyond the solver).');
+        }
+
+        return textContent(`Hint: ${engine.formatMove(hint.move)}\n${hint.explanation}`);
+      }
+
       // ---------------------------------------------------------------------
       // resign
       // ---------------------------------------------------------------------
@@ -424,6 +670,195 @@ export function createGameAdapter<TState extends GameState, TMove>(
         return textContent('You resigned. Game over.');
       }
 
+      // ---------------------------------------------------------------------
+      // load_custom_level
+      // ---------------------------------------------------------------------
+      case 'load_custom_level': {
+        if (!CUSTOM_LEVEL_GAMES.includes(metadata.id as CustomLevelGame)) {
+          return errorContent(`Custom levels are not available for ${metadata.name}.`);
+        }
+
+        let data: unknown;
+        try {
+          data = JSON.parse(String(args.level ?? ''));
+        } catch {
+          return errorContent('Level file is not valid JSON.');
+        }
+
+        const { valid, errors, warnings } = validateLevelFile(data);
+        if (!valid) {
+          return errorContent(`Invalid level file:\n- ${errors.join('\n- ')}`);
+        }
+
+        const file = data as CustomLevelFile;
+        if (file.game !== metadata.id) {
+          return errorContent(`This is a ${file.game} level, not ${metadata.name}.`);
+        }
+
+        const newState = engine.newGame(customLevelOptions(file) as Record<string, unknown>);
+        updateState(newState);
+
+        const notes = warnings.map(warning => `\nWarning: ${warning}`).join('');
+        return formatResponse(engine, newState, responseFormat, `Loaded custom level "${file.name}"${notes}`);
+      }
+
+      // ---------------------------------------------------------------------
+      // load_xsb (Sokoban-specific)
+      // ---------------------------------------------------------------------
+      case 'load_xsb': {
+        if (metadata.id !== 'sokoban') {
+          return errorContent('load_xsb is only available for Sokoban.');
+        }
+
+        const levels = parseSok(String(args.xsb ?? ''));
+        if (levels.length === 0) {
+          return errorContent('No XSB map found in the text.');
+        }
+
+        const index = typeof args.index === 'number' ? args.index : 0;
+        const level = levels[index];
+        if (!level) {
+          return errorContent(`Level ${index} not found; the text has ${levels.length} level(s).`);
+        }
+
+        const validation = validateLevelFile({
+          format: LEVEL_FORMAT,
+          version: LEVEL_FORMAT_VERSION,
+          game: 'sokoban',
+          name: level.title.slice(0, 60),
+          level: { map: level.map },
+        });
+        if (!validation.valid) {
+          return errorContent(`Invalid level "${level.title}":\n- ${validation.errors.join('\n- ')}`);
+        }
+
+        let newState = engine.newGame({ customLevel: { name: level.title, map: level.map } } as Record<string, unknown>);
+        let prefix = `Loaded "${level.title}" (${index + 1}/${levels.length})`;
+
+        if (args.replay && level.solution) {
+          const replay = replayLurd(newState as unknown as SokobanState, level.solution);
+          if (!replay.valid) {
+            updateState(newState);
+            return errorContent(`Solution does not replay: ${replay.error}`);
+          }
+          newState = replay.state as unknown as TState;
+          prefix += `\nReplayed solution: ${level.solution.length} moves`;
+        } else if (level.solution) {
+          prefix += '\nThe file includes a solution; load with replay: true to play it';
+        }
+        updateState(newState);
+
+        return formatResponse(engine, newState, responseFormat, prefix);
+      }
+
+      // ---------------------------------------------------------------------
+      // export_xsb (Sokoban-specific)
+      // ---------------------------------------------------------------------
+      case 'export_xsb': {
+        if (metadata.id !== 'sokoban') {
+          return errorContent('export_xsb is only available for Sokoban.');
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+
+        return textContent(formatSok([toXsbLevel(gameState as unknown as SokobanState)]));
+      }
+
+      // ---------------------------------------------------------------------
+      // get_pgn (Chess-specific)
+      // ---------------------------------------------------------------------
+      case 'get_pgn': {
+        if (metadata.id !== 'chess') {
+          return errorContent('get_pgn is only available for Chess.');
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+
+        return textContent(exportPgn(gameState as unknown as ChessState));
+      }
+
+      // ---------------------------------------------------------------------
+      // export_board (Minesweeper-specific)
+      // ---------------------------------------------------------------------
+      case 'export_board': {
+        if (metadata.id !== 'minesweeper') {
+          return errorContent('export_board is only available for Minesweeper.');
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+
+        const state = gameState as unknown as MinesweeperState;
+        if (state.firstMove) {
+          return errorContent('Mines are placed on the first reveal; reveal a cell before exporting.');
+        }
+        return textContent(formatMinesweeperBoard(state));
+      }
+
+      // ---------------------------------------------------------------------
+      // get_probabilities (Minesweeper-specific)
+      // ---------------------------------------------------------------------
+      case 'get_probabilities': {
+        if (metadata.id !== 'minesweeper') {
+          return errorContent('get_probabilities is only available for Minesweeper.');
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+        if (gameState.status !== 'playing') {
+          return errorContent('The game is over.');
+        }
+
+        try {
+          return textContent(formatMineProbabilities(getMineProbabilities(gameState as unknown as MinesweeperState)));
+        } catch (err) {
+          return errorContent(err instanceof Error ? err.message : 'Could not solve the board.');
+        }
+      }
+
+      // ---------------------------------------------------------------------
+      // add_rule (Fractals-specific)
+      // ---------------------------------------------------------------------
+      case 'add_rule': {
+        if (metadata.id !== 'fractals') {
+          return errorContent('add_rule is only available for Fractals.');
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+
+        const result = engine.makeMove(gameState, { action: 'add_rule', params: args } as unknown as TMove);
+        if (!result.valid) {
+          return errorContent(result.error ?? 'Invalid rule.');
+        }
+        updateState(result.state);
+
+        return formatResponse(engine, result.state, responseFormat, 'Rule added');
+      }
+
+      // ---------------------------------------------------------------------
+      // render_svg (Fractals-specific)
+      // ---------------------------------------------------------------------
+      case 'render_svg': {
+        if (metadata.id !== 'fractals') {
+          return errorContent('render_svg is only available for Fractals.');
+        }
+        if (!gameState) {
+          return errorContent('No game in progress. Use new_game to start.');
+        }
+
+        const result = engine.makeMove(gameState, { action: 'render_svg', params: args } as unknown as TMove);
+        if (!result.valid) {
+          return errorContent(result.error ?? 'Render failed.');
+        }
+        updateState(result.state);
+
+        const { svg } = result.state as unknown as FractalState;
+        return textContent(svg ?? '');
+      }
+
       // ---------------------------------------------------------------------
       // change_level (Sokoban-specific)
       // ---------------------------------------------------------------------
@@ -455,9 +890,10 @@ export function createGameAdapter<TState extends GameState, TMove>(
           return errorContent('No game in progress. Use new_game to start.');
         }
 
-        // Get current level index and restart
+        // Get current level index (or custom level) and restart
         const currentLevel = (gameState as any).levelIndex ?? 0;
-        const newState = engine.newGame({ levelIndex: currentLevel } as any);
+        const { customLevel } = gameState as { customLevel?: unknown };
+        const newState = engine.newGame({ levelIndex: currentLevel, customLevel } as any);
         updateState(newState);
 
         return formatResponse(engine, newState, responseFormat, 'Level reset');
@@ -472,12 +908,15 @@ export function createGameAdapter<TState extends GameState, TMove>(
   };
 
   // Create the MCP server
+  const tools = [...generateTools(engine), ...additionalTools];
   const server = new MCPServer({
     name: `${metadata.id}-mcp-server`,
     version: '0.2.0',
-    tools: [...generateTools(engine), ...additionalTools],
+    tools,
     onToolCall: handleToolCall,
     onCommand,
+    resources: resources && createGameResourceProvider(engine, () => gameState, resources),
+    prompts: createGamePromptProvider(engine, () => gameState, tools),
   });
 
   return {
@@ -0,0 +1,267 @@
+/**
+ * Game Prompts
+ *
+ * Per-game MCP prompts so an agent can bootstrap itself from the server:
+ *   how_to_play  Rules, move notation and available tools
+ *   strategy     Strategy guide for the game
+ *   next_move    Current board and legal moves, asking for the next move
+ */
+
+import type { GameEngine, GameState } from '@mcpchallenge/game-engines';
+import type { MCPPromptProvider } from '../mcp/server';
+import type { MCPPrompt, MCPTool, PromptGetResult } from '../mcp/types';
+
+// =============================================================================
+// Guides
+// =============================================================================
+
+interface GameGuide {
+  rules: string;
+  notation: string;
+  strategy: string[];
+}
+
+const GAME_GUIDES: Record<string, GameGuide> = {
+  chess: {
+    rules: 'Standard chess against the engine. Checkmate the opponent king to win; stalemate, threefold repetition, the fifty-move rule and insufficient material are draws.',
+    notation: 'Standard algebraic notation (SAN): e4, Nf3, exd5, O-O, e8=Q.',
+    strategy: [
+      'Fight for the centre (e4/d4/e5/d5) and develop knights and bishops before the queen.',
+      'Castle early to get the king safe and connect the rooks.',
+      'Before every move, list the opponent\'s checks, captures and threats.',
+      'Trade pieces when ahead in material; avoid trades when behind.',
+      'In the endgame, activate the king and push passed pawns.',
+    ],
+  },
+  tictactoe: {
+    rules: 'Players alternate placing their symbol on a 3x3 grid. Three in a row (row, column or diagonal) wins; a full board without a line is a draw.',
+    notation: 'Cell index 0-8, row by row: 0 is top-left, 4 the centre, 8 bottom-right.',
+    strategy: [
+      'Take the centre (4) or a corner on your first move.',
+      'Always win immediately if you can, otherwise block the opponent\'s open line.',
+      'Create a fork: a move that makes two winning threats at once.',
+      'With perfect play from both sides the game is a draw.',
+    ],
+  },
+  snake: {
+    rules: 'Steer the snake around the grid. Eating food grows the snake and scores a point; running into a wall or your own body ends the game.',
+    notation: 'A direction: up, down, left or right (the snake cannot reverse onto itself).',
+    strategy: [
+      'Head for the food along a path that leaves you an exit afterwards.',
+      'Keep the free space connected: never enter a pocket smaller than your length.',
+      'When long, sweep along the walls in a regular pattern instead of chasing food directly.',
+    ],
+  },
+  canvas: {
+    rules: 'A free-form pixel canvas with no win condition: draw whatever you like.',
+    notation: 'A command with JSON parameters: action({"param": value}).',
+    strategy: [
+      'Set the colour before drawing, and batch pixels of the same colour together.',
+      'Sketch the outline first, then fill areas.',
+      'Use clear to start over rather than painting over mistakes pixel by pixel.',
+    ],
+  },
+  minesweeper: {
+    rules: 'Reveal every cell that does not hide a mine. A number tells how many of the eight neighbours are mines; revealing a mine loses the game.',
+    notation: '"reveal row,col" or "flag row,col" (0-based).',
+    strategy: [
+      'If a number equals its count of hidden neighbours, all of them are mines: flag them.',
+      'If a number already has that many flags around it, its other hidden neighbours are safe.',
+      'Compare neighbouring numbers (1-2-1 and 1-1 patterns) to resolve shared cells.',
+      'Only guess when no deduction is left, and prefer cells with the lowest mine probability.',
+    ],
+  },
+  polybridge: {
+    rules: 'Build a bridge across the gap from beams, cables and road segments within the budget, then test whether vehicles can cross.',
+    notation: 'A command with JSON parameters: action({"param": value}).',
+    strategy: [
+      'Triangles are rigid; rectangles fold. Brace every panel diagonally.',
+      'Use steel where stress is highest and cheaper wood elsewhere.',
+      'Cables only carry tension: hang the deck from above on long spans.',
+      'Keep the road continuous from anchor to anchor before testing.',
+      'After start_test, reinforce the members with the highest stress in the report.',
+    ],
+  },
+  sokoban: {
+    rules: 'Push every box onto a goal square. You can push one box at a time and never pull.',
+    notation: 'A direction: up, down, left or right.',
+    strategy: [
+      'Never push a box into a corner that is not a goal; it can never move again.',
+      'A box against a wall can only slide along that wall: make sure a goal lies on it.',
+      'Decide the order in which goals are filled; usually the deepest goal first.',
+      'Use reset_level as soon as a box is stuck.',
+    ],
+  },
+  gorillas: {
+    rules: 'Take turns throwing an exploding banana at the other gorilla by choosing an angle and a velocity. Wind and gravity bend the flight path; first to the target score wins.',
+    notation: '"angle=45°, velocity=100".',
+    strategy: [
+      'Open around 45° and adjust velocity based on where the first shot lands.',
+      'Change one variable at a time so you can tell what each adjustment did.',
+      'Account for the wind: throw harder into a headwind, softer with a tailwind.',
+      'Steeper angles clear tall buildings between you and the target.',
+    ],
+  },
+  fractals: {
+    rules: 'Design L-system fractals: an axiom and rewrite rules are expanded for a number of iterations and drawn with turtle graphics. This is a creative sandbox.',
+    notation: 'A command with JSON parameters: action({"param": value}).',
+    strategy: [
+      'Start from a preset and change one rule at a time.',
+      'F draws forward, + and - turn by the angle, [ and ] save and restore the position.',
+      'The string grows exponentially: preview with few iterations first.',
+      'Parametric rules with a condition stop growth on their own: F(l) : l>2 -> F(l*0.5)[+F(l*0.7)].',
+      '& and ^ pitch, \\ and / roll the turtle in 3D; the drawing is the front view.',
+    ],
+  },
+  lightsout: {
+    rules: 'Toggling a cell flips it and its orthogonal neighbours. Turn every light off, ideally in the minimum number of toggles.',
+    notation: '"toggle row,col" (0-based).',
+    strategy: [
+      'Order does not matter and toggling a cell twice cancels out.',
+      'Chase the lights: for each lit cell, toggle the cell directly below it, row by row.',
+      'The pattern left in the last row determines which top-row cells to toggle before chasing again.',
+    ],
+  },
+  pathfinding: {
+    rules: 'Find a path from start to goal on a grid maze using BFS, Dijkstra or A*. Levels are scored on path cost and nodes expanded against par.',
+    notation: 'A command and its arguments: "find_path astar", "set_cell row,col wall", "load_level 2".',
+    strategy: [
+      'BFS is optimal only when every step costs the same; mud and water change costs.',
+      'Dijkstra finds the cheapest path but expands many nodes.',
+      'A* with an admissible heuristic finds the cheapest path while expanding fewer nodes.',
+    ],
+  },
+  sorting: {
+    rules: 'The array is hidden. Sort it in ascending order using only compare(i, j) and swap(i, j), staying under the par number of comparisons and swaps.',
+    notation: '"compare(i, j)" or "swap(i, j)" with 0-based indices.',
+    strategy: [
+      'Binary insertion sort keeps comparisons low.',
+      'Selection sort needs at most n-1 swaps.',
+      'Remember every comparison result; never compare the same pair twice.',
+    ],
+  },
+};
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+const PROMPTS: MCPPrompt[] = [
+  {
+    name: 'how_to_play',
+    description: 'Rules, move notation and available tools',
+  },
+  {
+    name: 'strategy',
+    description: 'Strategy guide for this game',
+  },
+  {
+    name: 'next_move',
+    description: 'The current board and legal moves, asking for the next move',
+  },
+];
+
+/** Seed for the game used to produce notation examples */
+const EXAMPLE_SEED = 'prompt-examples';
+
+/**
+ * Create the prompt provider for a game adapter
+ */
+export function createGamePromptProvider<TState extends GameState, TMove>(
+  engine: GameEngine<TState, TMove>,
+  getState: () => TState | null,
+  tools: MCPTool[]
+): MCPPromptProvider {
+  const { metadata } = engine;
+  const guide = GAME_GUIDES[metadata.id];
+
+  const userMessage = (description: string, text: string): PromptGetResult => ({
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  });
+
+  const get = (name: string): PromptGetResult | null => {
+    switch (name) {
+      case 'how_to_play': {
+        const examples = notationExamples(engine);
+        const lines = [
+          `# ${metadata.name}`,
+          '',
+          guide?.rules ?? metadata.description,
+          '',
+          '## Moves',
+          `Pass moves to make_move as strings. ${guide?.notation ?? ''}`.trim(),
+          ...(examples.length > 0 ? [`Examples: ${examples.map((e) => `\`${e}\``).join(', ')}`] : []),
+          'Call get_legal_moves to see every move available in the current position.',
+          '',
+          '## Tools',
+          ...tools.map((t) => `- ${t.name}: ${t.description}`),
+        ];
+        return userMessage(`How to play ${metadata.name}`, lines.join('\n'));
+      }
+
+      case 'strategy': {
+        const tips = guide?.strategy ?? [];
+        const lines = [
+          `# ${metadata.name} strategy`,
+          '',
+          ...(tips.length > 0 ? tips.map((tip) => `- ${tip}`) : [metadata.description]),
+          '',
+          'Use get_state to inspect the position before each move.',
+        ];
+        return userMessage(`${metadata.name} strategy guide`, lines.join('\n'));
+      }
+
+      case 'next_move': {
+        const state = getState();
+        if (!state) {
+          return userMessage(
+            'No game in progress',
+            `There is no ${metadata.name} game in progress. Call new_game to start one, then ask for this prompt again.`
+          );
+        }
+
+        const moves = engine.getLegalMoves(state).map((m) => engine.formatMove(m));
+        const lines = [
+          `Current ${metadata.name} position:`,
+          '',
+          engine.renderText(state),
+          '',
+          moves.length > 0
+            ? `Legal moves (${moves.length}): ${moves.join(', ')}`
+            : 'No legal moves are available.',
+          '',
+          'Choose the best move, explain your reasoning briefly, then play it with make_move.',
+        ];
+        return userMessage(`Next ${metadata.name} move`, lines.join('\n'));
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return {
+    list: () => PROMPTS,
+    get,
+  };
+}
+
+/**
+ * A few distinct, parseable moves from a fresh game (derived from formatMove/parseMove)
+ */
+function notationExamples<TState extends GameState, TMove>(
+  engine: GameEngine<TState, TMove>
+): string[] {
+  const examples: string[] = [];
+  const state = engine.newGame({}, EXAMPLE_SEED);
+
+  for (const move of engine.getLegalMoves(state)) {
+    const formatted = engine.formatMove(move);
+    if (examples.includes(formatted) || engine.parseMove(formatted) === null) continue;
+    examples.push(formatted);
+    if (examples.length === 4) break;
+  }
+
+  return examples;
+}
@@ -0,0 +1,128 @@
+/**
+ * Game Resources
+ *
+ * Exposes a room's game as MCP resources:
+ *   game://{roomId}/state        Current state (renderJSON + renderText)
+ *   game://{roomId}/legal-moves  Legal moves in the current position
+ *   game://{roomId}/log          The room's command log
+ */
+
+import type { GameEngine, GameState } from '@mcpchallenge/game-engines';
+import type { MCPResourceProvider } from '../mcp/server';
+import type {
+  CommandLogEntry,
+  MCPResource,
+  MCPResourceContents,
+  MessageContext,
+} from '../mcp/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type GameResourceKind = 'state' | 'legal-moves' | 'log';
+
+export interface GameResourceConfig {
+  /** Room the resources belong to (used in the resource URIs) */
+  roomId: string;
+
+  /** The room's command log */
+  getLog: () => CommandLogEntry[];
+
+  /** Subscription tracking (per client session, owned by the room) */
+  subscribe?: (uri: string, context: MessageContext) => void | Promise<void>;
+  unsubscribe?: (uri: string, context: MessageContext) => void | Promise<void>;
+}
+
+// =============================================================================
+// URIs
+// =============================================================================
+
+export function gameResourceUri(roomId: string, kind: GameResourceKind): string {
+  return `game://${roomId}/${kind}`;
+}
+
+/**
+ * URIs that change when a move lands
+ */
+export function gameResourceUris(roomId: string): string[] {
+  return (['state', 'legal-moves', 'log'] as const).map((kind) => gameResourceUri(roomId, kind));
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+const NO_GAME = 'No game in progress. Use new_game to start.';
+
+/**
+ * Create the resource provider for a game adapter
+ */
+export function createGameResourceProvider<TState extends GameState, TMove>(
+  engine: GameEngine<TState, TMove>,
+  getState: () => TState | null,
+  config: GameResourceConfig
+): MCPResourceProvider {
+  const { roomId, getLog } = config;
+  const { name } = engine.metadata;
+
+  const resources: MCPResource[] = [
+    {
+      uri: gameResourceUri(roomId, 'state'),
+      name: `${name} state`,
+      description: 'Current game state as JSON, with a text rendering of the board',
+      mimeType: 'application/json',
+    },
+    {
+      uri: gameResourceUri(roomId, 'legal-moves'),
+      name: `${name} legal moves`,
+      description: 'Legal moves in the current position, in make_move format',
+      mimeType: 'application/json',
+    },
+    {
+      uri: gameResourceUri(roomId, 'log'),
+      name: `${name} command log`,
+      description: 'Recent MCP requests and responses in this room',
+      mimeType: 'application/json',
+    },
+  ];
+
+  const json = (uri: string, value: unknown): MCPResourceContents => ({
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(value, null, 2),
+  });
+
+  const read = (uri: string): MCPResourceContents[] | null => {
+    const state = getState();
+
+    switch (uri) {
+      case gameResourceUri(roomId, 'state'):
+        if (!state) {
+          return [{ uri, mimeType: 'text/plain', text: NO_GAME }];
+        }
+        return [
+          json(uri, engine.renderJSON(state)),
+          { uri, mimeType: 'text/plain', text: engine.renderText(state) },
+        ];
+
+      case gameResourceUri(roomId, 'legal-moves'):
+        return [
+          json(uri, state ? engine.getLegalMoves(state).map((m) => engine.formatMove(m)) : []),
+        ];
+
+      case gameResourceUri(roomId, 'log'):
+        return [json(uri, getLog())];
+
+      default:
+        return null;
+    }
+  };
+
+  return {
+    list: () => resources,
+    read,
+    subscribe: config.subscribe,
+    unsubscribe: config.unsubscribe,
+  };
+}
@@ -11,8 +11,21 @@ export {
   type AdaptedMCPServer,
 } from './game-adapter';
 
+export { createGamePromptProvider } from './game-prompts';
+
+export {
+  createGameResourceProvider,
+  gameResourceUri,
+  gameResourceUris,
+  type GameResourceConfig,
+  type GameResourceKind,
+} from './game-resources';
+
 export {
   createRoomMCPServer,
-  hasAdapterSupport,
+  getTurnSeat,
+  getWinnerSeat,
+  resignSeat,
+  updateRoomGameState,
   type RoomMCPServerConfig,
 } from './room-adapter';
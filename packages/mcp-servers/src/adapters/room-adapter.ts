@@ -5,14 +5,13 @@
  * This replaces the manual server creation in room.ts.
  */
 
-import {
-  engines,
-  type GameState as EngineGameState,
-} from '@mcpchallenge/game-engines';
+import { getSeats, type GameState as EngineGameState, type MoveResult } from '@mcpchallenge/game-engines';
 import { createGameAdapter, type AdaptedMCPServer } from './game-adapter';
+import type { GameResourceConfig } from './game-resources';
 import type { MCPServer } from '../mcp/server';
-import type { GameState, GameType, CommandLogEntry } from '../mcp/types';
+import type { ChessGameState, GameState, GameType, CommandLogEntry, SnakeGameState } from '../mcp/types';
 import { systemTools } from '../mcp/system-tools';
+import { getGameEngine } from '../registry';
 
 // =============================================================================
 // Types
@@ -25,6 +24,8 @@ export interface RoomMCPServerConfig {
   onCommand: (entry: CommandLogEntry) => void;
   /** Game mode: "ai" for single player vs AI, "pvp" for 2-player MCP vs MCP */
   gameMode?: "ai" | "pvp";
+  /** Expose the room's game as MCP resources */
+  resources?: GameResourceConfig;
 }
 
 // =============================================================================
@@ -43,20 +44,26 @@ function convertToEngineState(
   // The new engine states are compatible with the old ones
   // Just need to map some field names
   switch (gameType) {
-    case 'chess':
+    case 'chess': {
+      // PvP rooms store no playerColor; the first seat (white) is the engine's player
+      const playerColor = (oldState as ChessGameState).playerColor ?? 'white';
+      const result = (oldState as ChessGameState).result;
       return {
         gameId: `${oldState.createdAt}`,
         status: oldState.status === 'finished'
-          ? ((oldState as any).result === (oldState as any).playerColor ? 'won' : 'lost')
+          ? (result === 'draw' ? 'draw' : result === playerColor ? 'won' : 'lost')
           : 'playing',
-        turn: (oldState as any).turn === (oldState as any).playerColor ? 'player' : 'opponent',
+        turn: (oldState as any).turn === playerColor ? 'player' : 'opponent',
         moveCount: 0, // Not tracked in old state
         fen: (oldState as any).fen,
         pgn: (oldState as any).pgn || '',
-        playerColor: (oldState as any).playerColor,
+        playerColor,
         difficulty: (oldState as any).difficulty || 'medium',
+        elo: (oldState as ChessGameState).elo,
+        opening: (oldState as ChessGameState).opening,
         inCheck: false,
       } as any;
+    }
 
     case 'tictactoe':
       return {
@@ -73,19 +80,28 @@ function convertToEngineState(
         winner: (oldState as any).winner,
       } as any;
 
-    case 'snake':
+    case 'snake': {
+      const snakeOldState = oldState as SnakeGameState;
+      const winner = snakeOldState.winner;
       return {
         gameId: `${oldState.createdAt}`,
-        status: (oldState as any).gameOver ? 'lost' : 'playing',
-        turn: 'player',
-        moveCount: 0,
-        score: (oldState as any).score,
-        snake: (oldState as any).snake,
-        food: (oldState as any).food,
-        direction: (oldState as any).direction,
-        gridSize: (oldState as any).gridSize,
-        gameOver: (oldState as any).gameOver,
+        status: !snakeOldState.gameOver
+          ? 'playing'
+          : winner === 'draw' ? 'draw' : winner === 'player' ? 'won' : 'lost',
+        turn: snakeOldState.turn ?? 'player',
+        moveCount: snakeOldState.moveCount ?? 0,
+        score: snakeOldState.score,
+        snake: snakeOldState.snake,
+        food: snakeOldState.food,
+        direction: snakeOldState.direction,
+        gridSize: snakeOldState.gridSize,
+        gameOver: snakeOldState.gameOver,
+        opponent: snakeOldState.opponent,
+        winner,
+        maxMoves: snakeOldState.maxMoves,
+        queued: snakeOldState.queued,
       } as any;
+    }
 
     case 'minesweeper':
       const msOldState = oldState as any;
@@ -103,7 +119,9 @@ function convertToEngineState(
         flagsRemaining: msOldState.flagsRemaining,
         startTime: null,
         elapsedSeconds: msOldState.elapsedSeconds || 0,
-        firstMove: true,
+        // Older rooms did not store firstMove: mines are placed once anything is revealed
+        firstMove: msOldState.firstMove ?? !msOldState.revealed.some((row: boolean[]) => row.some(Boolean)),
+        noGuess: msOldState.noGuess,
       } as any;
 
     case 'canvas':
@@ -158,8 +176,10 @@ function convertToEngineState(
         isVsAI: gorillasOldState.isVsAI ?? true,
         aiDifficulty: gorillasOldState.aiDifficulty || 'medium',
         lastTrajectory: gorillasOldState.lastTrajectory,
-        canvasWidth: gorillasOldState.canvasWidth || 800,
-        canvasHeight: gorillasOldState.canvasHeight || 400,
+        lastThrower: gorillasOldState.lastThrower,
+        width: gorillasOldState.canvasWidth || 800,
+        height: gorillasOldState.canvasHeight || 400,
+        sunPosition: gorillasOldState.sunPosition,
       } as any;
 
     case 'fractals':
@@ -250,7 +270,8 @@ function convertToEngineState(
       } as any;
 
     default:
-      return null;
+      // Games without a room-specific format store the engine state as-is
+      return oldState as unknown as EngineGameState;
   }
 }
 
@@ -293,6 +314,8 @@ function convertToOldState(
             ? (chessState.playerColor === 'white' ? 'black' : 'white')
             : chessState.status === 'draw' ? 'draw' : undefined,
         difficulty: chessState.difficulty,
+        elo: chessState.elo,
+        opening: chessState.opening,
         gameMode: isPvP ? 'pvp' : 'ai',
       } as GameState;
 
@@ -322,6 +345,15 @@ function convertToOldState(
         score: snakeState.score ?? 0,
         gridSize: snakeState.gridSize,
         gameOver: snakeState.gameOver,
+        ...(snakeState.queued && { queued: snakeState.queued }),
+        // Head-to-head snakes keep whose turn it is
+        ...(snakeState.opponent && {
+          opponent: snakeState.opponent,
+          turn: snakeState.turn,
+          winner: snakeState.winner,
+          moveCount: snakeState.moveCount,
+          maxMoves: snakeState.maxMoves,
+        }),
       } as GameState;
 
     case 'minesweeper':
@@ -341,6 +373,8 @@ function convertToOldState(
         elapsedSeconds: msState.startTime
           ? Math.floor((Date.now() - msState.startTime) / 1000)
           : 0,
+        firstMove: msState.firstMove,
+        ...(msState.noGuess && { noGuess: true }),
       } as GameState;
 
     case 'canvas':
@@ -387,7 +421,7 @@ function convertToOldState(
         buildings: gorillasState.buildings,
         player1: gorillasState.player1,
         player2: gorillasState.player2,
-        currentPlayer: gorillasState.currentPlayer,
+        currentPlayer: gorillasState.turn === 'player' ? 1 : 2,
         wind: gorillasState.wind,
         gravity: gorillasState.gravity,
         levelIndex: gorillasState.levelIndex,
@@ -396,8 +430,10 @@ function convertToOldState(
         isVsAI: gorillasState.isVsAI,
         aiDifficulty: gorillasState.aiDifficulty,
         lastTrajectory: gorillasState.lastTrajectory,
-        canvasWidth: gorillasState.canvasWidth || 800,
-        canvasHeight: gorillasState.canvasHeight || 400,
+        lastThrower: gorillasState.lastThrower,
+        sunPosition: gorillasState.sunPosition,
+        canvasWidth: gorillasState.width || 800,
+        canvasHeight: gorillasState.height || 400,
       } as GameState;
 
     case 'fractals':
@@ -482,10 +518,92 @@ function convertToOldState(
       } as GameState;
 
     default:
-      throw new Error(`Unknown game type: ${gameType}`);
+      return {
+        ...engineState,
+        gameType,
+        createdAt: now,
+        lastActivity: now,
+      } as unknown as GameState;
   }
 }
 
+// =============================================================================
+// Seats
+// =============================================================================
+
+/**
+ * Seat whose turn it is in a two-player room, from the engine's turn field
+ */
+export function getTurnSeat(gameType: GameType, state: GameState | null): string | null {
+  const engineState = convertToEngineState(gameType, state);
+  if (!engineState || engineState.status !== 'playing') return null;
+
+  const [first, second] = getSeats(getGameEngine(gameType));
+  return engineState.turn === 'player' ? first : second;
+}
+
+/**
+ * Seat that won a finished two-player game ('draw' for a draw), or null while
+ * it is still being played. The engine's player is the first seat.
+ */
+export function getWinnerSeat(gameType: GameType, state: GameState | null): string | null {
+  const engineState = convertToEngineState(gameType, state);
+  if (!engineState || engineState.status === 'playing') return null;
+
+  const [first, second] = getSeats(getGameEngine(gameType));
+  return engineState.status === 'won' ? first : engineState.status === 'lost' ? second : 'draw';
+}
+
+/**
+ * End a two-player game with a resignation: the resigning seat loses. The
+ * room format keeps the result in per-game fields (tictactoe's winner,
+ * snake's gameOver), so those are set along with the engine status.
+ */
+export function resignSeat(gameType: GameType, state: GameState, seat: string): GameState {
+  const [first, second] = getSeats(getGameEngine(gameType));
+  const status = seat === first ? 'lost' : 'won';
+
+  return updateRoomGameState(gameType, state, true, (engineState) => ({
+    valid: true,
+    state: {
+      ...engineState,
+      status,
+      ...(gameType === 'tictactoe' && { winner: seat === first ? second : first }),
+      ...(gameType === 'snake' && { gameOver: true, winner: status === 'won' ? 'player' : 'opponent' }),
+    } as EngineGameState,
+  })).state;
+}
+
+// =============================================================================
+// Room-Driven Updates
+// =============================================================================
+
+/**
+ * Apply an engine function to a room's stored game state, for updates the
+ * room makes itself (real-time ticks, queued moves); the room rebuilds its
+ * MCP server from the result
+ */
+export function updateRoomGameState(
+  gameType: GameType,
+  state: GameState,
+  isPvP: boolean,
+  update: (engineState: EngineGameState) => MoveResult<EngineGameState>
+): { state: GameState; valid: boolean; error?: string } {
+  const engineState = convertToEngineState(gameType, state)!;
+  const result = update(
+    state.rngState !== undefined ? { ...engineState, rngState: state.rngState } : engineState
+  );
+  if (!result.valid) {
+    return { state, valid: false, error: result.error };
+  }
+
+  const newState = convertToOldState(gameType, result.state, isPvP);
+  return {
+    state: result.state.rngState !== undefined ? { ...newState, rngState: result.state.rngState } : newState,
+    valid: true,
+  };
+}
+
 // =============================================================================
 // Main Function
 // =============================================================================
@@ -494,26 +612,29 @@ function convertToOldState(
  * Create an MCP server for a game room using the new adapter system
  */
 export function createRoomMCPServer(config: RoomMCPServerConfig): MCPServer {
-  const { gameType, initialState, onStateChange, onCommand, gameMode = "ai" } = config;
+  const { gameType, initialState, onStateChange, onCommand, gameMode = "ai", resources } = config;
   const isPvP = gameMode === "pvp";
 
-  // Get the engine
-  const engine = engines[gameType as keyof typeof engines];
-  if (!engine) {
-    throw new Error(`Unknown game type: ${gameType}`);
-  }
+  const engine = getGameEngine(gameType);
 
-  // Convert initial state
-  const engineInitialState = convertToEngineState(gameType, initialState);
+  // Convert initial state (the engine's PRNG state is carried over as-is)
+  const convertedState = convertToEngineState(gameType, initialState);
+  const engineInitialState = convertedState && initialState?.rngState !== undefined
+    ? { ...convertedState, rngState: initialState.rngState }
+    : convertedState;
 
   // Create the adapter with system tools (like agent.identify)
   const adapter = createGameAdapter({
-    engine: engine as any,
+    engine,
     initialState: engineInitialState as any,
     onStateChange: (newEngineState) => {
       // Convert back to old format and notify
       const oldState = convertToOldState(gameType, newEngineState, isPvP);
-      onStateChange(oldState);
+      onStateChange(
+        newEngineState.rngState !== undefined
+          ? { ...oldState, rngState: newEngineState.rngState }
+          : oldState
+      );
     },
     onCommand,
     responseFormat: 'text',
@@ -522,14 +643,8 @@ export function createRoomMCPServer(config: RoomMCPServerConfig): MCPServer {
     // In PvP mode, skip turn validation in adapter - room.ts handles it via validatePvPTurn
     skipTurnValidation: isPvP,
     additionalTools: systemTools,
+    resources,
   });
 
   return adapter.server;
 }
-
-/**
- * Check if adapter-based server is available for a game type
- */
-export function hasAdapterSupport(gameType: GameType): boolean {
-  return gameType in engines;
-}
@@ -0,0 +1,153 @@
+// Chess Clocks
+// Time controls for PvP rooms. The room keeps a GameClock in its state and
+// presses it after every move; a Durable Object alarm set for the running
+// side's deadline ends the game on flag-fall even if nobody sends a request.
+
+import type { GameClock, PlayerColor, TimeControl } from "./mcp/types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Named presets; anything else is parsed as "<minutes>+<seconds>" or "<n>d"
+export const TIME_CONTROL_PRESETS: Record<string, TimeControl> = {
+  bullet: { initialMs: 1 * MINUTE, incrementMs: 0 },
+  blitz: { initialMs: 5 * MINUTE, incrementMs: 3000 },
+  rapid: { initialMs: 15 * MINUTE, incrementMs: 10000 },
+  classical: { initialMs: 30 * MINUTE, incrementMs: 20000 },
+  correspondence: { initialMs: 1 * DAY, incrementMs: 0, perMove: true },
+};
+
+const MAX_INITIAL_MS = 7 * DAY;
+const MAX_INCREMENT_MS = 10 * MINUTE;
+
+// Parse "5+3" (minutes + increment seconds), "2d" (days per move) or a preset
+// name. Returns null for anything malformed or out of range.
+export function parseTimeControl(spec: string): TimeControl | null {
+  const value = spec.trim().toLowerCase();
+  if (TIME_CONTROL_PRESETS[value]) {
+    return TIME_CONTROL_PRESETS[value];
+  }
+
+  const days = value.match(/^(\d+)\s*d$/);
+  if (days) {
+    const initialMs = Number(days[1]) * DAY;
+    return initialMs > 0 && initialMs <= MAX_INITIAL_MS
+      ? { initialMs, incrementMs: 0, perMove: true }
+      : null;
+  }
+
+  const fischer = value.match(/^(\d+(?:\.\d+)?)\s*\+\s*(\d+)$/);
+  if (!fischer) return null;
+
+  const initialMs = Math.round(Number(fischer[1]) * MINUTE);
+  const incrementMs = Number(fischer[2]) * 1000;
+  if (initialMs <= 0 || initialMs > MAX_INITIAL_MS || incrementMs > MAX_INCREMENT_MS) {
+    return null;
+  }
+  return { initialMs, incrementMs };
+}
+
+export function formatTimeControl(timeControl: TimeControl): string {
+  if (timeControl.perMove) {
+    return `${Math.round(timeControl.initialMs / DAY)}d per move`;
+  }
+  return `${timeControl.initialMs / MINUTE}+${timeControl.incrementMs / 1000}`;
+}
+
+// A stopped clock with both sides at the base time
+export function createClock(timeControl: TimeControl): GameClock {
+  return {
+    timeControl,
+    remainingMs: { white: timeControl.initialMs, black: timeControl.initialMs },
+    running: null,
+    runningSince: null,
+    flagged: null,
+  };
+}
+
+export function startClock(clock: GameClock, side: PlayerColor, now: number): GameClock {
+  return { ...clock, running: side, runningSince: now };
+}
+
+// Time left for a side, counting the running period
+export function remainingTime(clock: GameClock, side: PlayerColor, now: number): number {
+  const elapsed = clock.running === side && clock.runningSince !== null
+    ? now - clock.runningSince
+    : 0;
+  return Math.max(0, clock.remainingMs[side] - elapsed);
+}
+
+// When the running side flags, or null while the clock is stopped
+export function clockDeadline(clock: GameClock): number | null {
+  if (!clock.running || clock.runningSince === null || clock.flagged) return null;
+  return clock.runningSince + clock.remainingMs[clock.running];
+}
+
+// The running side whose time is up, if any
+export function checkFlag(clock: GameClock, now: number): PlayerColor | null {
+  if (clock.flagged) return clock.flagged;
+  if (!clock.running) return null;
+  return remainingTime(clock, clock.running, now) <= 0 ? clock.running : null;
+}
+
+// The mover finished their move: bank their time (plus increment) and start
+// the opponent's clock
+export function pressClock(clock: GameClock, mover: PlayerColor, now: number): GameClock {
+  const next: PlayerColor = mover === "white" ? "black" : "white";
+  const { initialMs, incrementMs, perMove } = clock.timeControl;
+  const left = remainingTime(clock, mover, now);
+
+  return {
+    ...clock,
+    remainingMs: {
+      ...clock.remainingMs,
+      [mover]: perMove ? initialMs : left + incrementMs,
+    },
+    running: next,
+    runningSince: now,
+  };
+}
+
+// Stop the clock with a side out of time
+export function flagClock(clock: GameClock, side: PlayerColor): GameClock {
+  return {
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [side]: 0 },
+    running: null,
+    runningSince: null,
+    flagged: side,
+  };
+}
+
+// Stop the clock when the game ends on the board
+export function stopClock(clock: GameClock, now: number): GameClock {
+  if (!clock.running) return clock;
+  return {
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [clock.running]: remainingTime(clock, clock.running, now) },
+    running: null,
+    runningSince: null,
+  };
+}
+
+// Public view for get_state and the SSE / WebSocket stream
+export function clockSnapshot(clock: GameClock, now: number): Record<string, unknown> {
+  return {
+    timeControl: formatTimeControl(clock.timeControl),
+    whiteMs: remainingTime(clock, "white", now),
+    blackMs: remainingTime(clock, "black", now),
+    running: clock.running,
+    flagged: clock.flagged,
+    serverTime: now,
+  };
+}
+
+export function formatClockTime(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
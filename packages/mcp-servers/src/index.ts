@@ -2,6 +2,8 @@
 // Handles routing to different game MCP servers
 
 import { GameRoom } from "./room";
+import { getGameDescription, isGameType, listGameTypes } from "./registry";
+import type { GameType } from "./mcp/types";
 
 export { GameRoom };
 
@@ -13,8 +15,9 @@ export interface Env {
 // CORS headers for cross-origin requests
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Accept, Mcp-Session-Id, Last-Event-ID",
+  "Access-Control-Expose-Headers": "Mcp-Session-Id",
 };
 
 export default {
@@ -34,16 +37,16 @@ export default {
           status: "ok",
           service: "mcp-servers",
           version: "0.1.0",
-          games: ["chess", "tictactoe", "snake", "canvas", "minesweeper", "sokoban", "gorillas", "fractals", "lightsout", "pathfinding", "sorting"],
+          games: listGameTypes(),
         },
         { headers: corsHeaders }
       );
     }
 
-    // Route to game endpoints
-    const gameMatch = path.match(/^\/(chess|tictactoe|snake|canvas|minesweeper|sokoban|gorillas|fractals|lightsout|pathfinding|sorting)(\/.*)?$/);
-    if (gameMatch) {
-      const gameType = gameMatch[1] as "chess" | "tictactoe" | "snake" | "canvas" | "minesweeper" | "sokoban" | "gorillas" | "fractals" | "lightsout" | "pathfinding" | "sorting";
+    // Route to game endpoints (/<gameType>/...)
+    const gameMatch = path.match(/^\/([a-z]+)(\/.*)?$/);
+    if (gameMatch && isGameType(gameMatch[1])) {
+      const gameType = gameMatch[1];
       const subPath = gameMatch[2] || "";
 
       return handleGameRequest(request, env, gameType, subPath);
@@ -59,7 +62,7 @@ export default {
 async function handleGameRequest(
   request: Request,
   env: Env,
-  gameType: string,
+  gameType: GameType,
   subPath: string
 ): Promise<Response> {
   const url = new URL(request.url);
@@ -70,28 +73,64 @@ async function handleGameRequest(
     const id = env.GAME_ROOM.idFromName(`${gameType}:${roomId}`);
     const room = env.GAME_ROOM.get(id);
 
+    // Optional body: { mode: "pvp", timeControl: "5+3", speed: "fast" }
+    const options = await request.json().catch(() => ({})) as {
+      mode?: "ai" | "pvp";
+      timeControl?: string;
+      speed?: string | number;
+    };
+
     // Initialize the room
     const initResponse = await room.fetch(
       new Request(`https://internal/init`, {
         method: "POST",
-        body: JSON.stringify({ gameType, roomId }),
+        body: JSON.stringify({
+          gameType,
+          roomId,
+          mode: options.mode,
+          timeControl: options.timeControl,
+          speed: options.speed,
+        }),
       })
     );
 
+    if (initResponse.status === 400) {
+      // Invalid options (e.g. a malformed time control)
+      return Response.json(await initResponse.json(), { status: 400, headers: corsHeaders });
+    }
     if (!initResponse.ok) {
       return Response.json(
         { error: "Failed to create room" },
         { status: 500, headers: corsHeaders }
       );
     }
+    const { gameMode, timeControl, tickMs } = await initResponse.json() as {
+      gameMode: "ai" | "pvp";
+      timeControl?: string;
+      tickMs?: number;
+    };
 
     return Response.json(
       {
         roomId,
         gameType,
+        gameMode,
+        ...(timeControl && { timeControl }),
+        ...(tickMs && { tickMs }),
+        ...(gameMode === "pvp" && {
+          joinUrl: `https://mcp.mcpchallenge.org/${gameType}/join?room=${roomId}`,
+        }),
         mcpUrl: `https://mcp.mcpchallenge.org/${gameType}?room=${roomId}`,
+        streamableUrl: `https://mcp.mcpchallenge.org/${gameType}/mcp?room=${roomId}`,
         wsUrl: `wss://mcp.mcpchallenge.org/${gameType}/ws?room=${roomId}`,
         sseUrl: `https://mcp.mcpchallenge.org/${gameType}/sse?room=${roomId}`,
+        spectateUrl: `https://mcp.mcpchallenge.org/${gameType}/spectate?room=${roomId}`,
+        ...(gameType === "chess" && {
+          pgnUrl: `https://mcp.mcpchallenge.org/${gameType}/pgn?room=${roomId}`,
+        }),
+        ...(timeControl && {
+          replayUrl: `https://mcp.mcpchallenge.org/${gameType}/replay?room=${roomId}`,
+        }),
       },
       { headers: corsHeaders }
     );
@@ -117,10 +156,27 @@ async function handleGameRequest(
   const id = env.GAME_ROOM.idFromName(`${gameType}:${roomId}`);
   const room = env.GAME_ROOM.get(id);
 
+  // Streamable HTTP endpoint for standard MCP clients
+  // (POST messages, GET server stream, DELETE session)
+  if (subPath === "/mcp") {
+    return room.fetch(new Request(`https://internal/streamable${url.search}`, request));
+  }
+
+  // Player slot in PvP rooms (POST); pass it as &player=<nonce> on /mcp, /ws or POST
+  if (subPath === "/join" && request.method === "POST") {
+    return room.fetch(new Request(`https://internal/join`, { method: "POST" }));
+  }
+
+  // Spectator token (POST); pass it as &spectator=<token> on /mcp, /ws or POST.
+  // Tokens lapse after 5 idle minutes unless a WebSocket holds them open
+  if (subPath === "/spectate" && request.method === "POST") {
+    return room.fetch(new Request(`https://internal/spectate`, { method: "POST" }));
+  }
+
   // WebSocket endpoint for MCP clients
   if (subPath === "/ws") {
     return room.fetch(
-      new Request(`https://internal/ws`, {
+      new Request(`https://internal/ws${url.search}`, {
         headers: request.headers,
       })
     );
@@ -140,11 +196,26 @@ async function handleGameRequest(
     return room.fetch(new Request(`https://internal/state`));
   }
 
+  // PGN export (GET) and import (POST, chess rooms)
+  if (subPath === "/pgn") {
+    return room.fetch(
+      new Request(`https://internal/pgn${url.search}`, {
+        method: request.method,
+        body: request.method === "POST" ? await request.text() : undefined,
+      })
+    );
+  }
+
+  // Replay of the timed game (rooms with a chess clock)
+  if (subPath === "/replay") {
+    return room.fetch(new Request(`https://internal/replay`));
+  }
+
   // MCP protocol endpoint (POST for messages)
   if (request.method === "POST") {
     const body = await request.text();
     return room.fetch(
-      new Request(`https://internal/mcp`, {
+      new Request(`https://internal/mcp${url.search}`, {
         method: "POST",
         body,
         headers: {
@@ -163,40 +234,17 @@ async function handleGameRequest(
       roomId,
       endpoints: {
         mcp: `POST /${gameType}?room=${roomId}`,
+        streamable: `https://mcp.mcpchallenge.org/${gameType}/mcp?room=${roomId}`,
         ws: `wss://mcp.mcpchallenge.org/${gameType}/ws?room=${roomId}`,
         sse: `GET /${gameType}/sse?room=${roomId}`,
         state: `GET /${gameType}/state?room=${roomId}`,
+        spectate: `POST /${gameType}/spectate?room=${roomId}`,
+        ...(gameType === "chess" && {
+          pgn: `GET|POST /${gameType}/pgn?room=${roomId}`,
+          replay: `GET /${gameType}/replay?room=${roomId}`,
+        }),
       },
     },
     { headers: corsHeaders }
   );
 }
-
-function getGameDescription(gameType: string): string {
-  switch (gameType) {
-    case "chess":
-      return "Chess MCP Server - Play chess against Stockfish engine";
-    case "tictactoe":
-      return "Tic-Tac-Toe MCP Server - Classic game with minimax AI";
-    case "snake":
-      return "Snake MCP Server - Control snake via MCP tools";
-    case "canvas":
-      return "Canvas MCP Server - Draw on canvas via MCP commands";
-    case "minesweeper":
-      return "Minesweeper MCP Server - Classic minesweeper game via MCP tools";
-    case "sokoban":
-      return "Sokoban MCP Server - Classic box-pushing puzzle with 60 DOS levels";
-    case "gorillas":
-      return "Gorillas MCP Server - Classic DOS artillery game with banana-throwing gorillas";
-    case "fractals":
-      return "Fractals MCP Server - L-System fractals with turtle graphics";
-    case "lightsout":
-      return "Lights Out MCP Server - Classic 90s puzzle game with XOR logic";
-    case "pathfinding":
-      return "Pathfinding MCP Server - A* and Dijkstra pathfinding algorithms on grid mazes";
-    case "sorting":
-      return "Sorting MCP Server - Sort arrays using only compare and swap operations";
-    default:
-      return "MCP Game Server";
-  }
-}
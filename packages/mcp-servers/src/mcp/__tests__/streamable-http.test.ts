@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  MCP_SESSION_HEADER,
+  SESSION_IDLE_TTL,
+  StreamableHTTPTransport,
+} from "../streamable-http";
+
+// Map-backed stand-in for the Durable Object storage calls the transport uses
+function createStorage() {
+  const data = new Map<string, unknown>();
+  const writes: string[] = [];
+  const clone = <T>(value: T): T => structuredClone(value);
+
+  const storage = {
+    async get(key: string) {
+      return data.has(key) ? clone(data.get(key)) : undefined;
+    },
+    async put(keyOrEntries: string | Record<string, unknown>, value?: unknown) {
+      const entries = typeof keyOrEntries === "string" ? { [keyOrEntries]: value } : keyOrEntries;
+      for (const [key, entry] of Object.entries(entries)) {
+        writes.push(key);
+        data.set(key, clone(entry));
+      }
+    },
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        data.delete(key);
+      }
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      return new Map(
+        [...data].filter(([key]) => key.startsWith(prefix)).map(([key, value]) => [key, clone(value)])
+      );
+    },
+  };
+
+  return { data, writes, storage: storage as unknown as DurableObjectStorage };
+}
+
+function createTransport() {
+  const store = createStorage();
+  const transport = new StreamableHTTPTransport({
+    storage: store.storage,
+    handleMessage: async (message) => {
+      const { id } = JSON.parse(message) as { id?: number };
+      return id === undefined ? "" : JSON.stringify({ jsonrpc: "2.0", id, result: {} });
+    },
+  });
+  return { ...store, transport };
+}
+
+function post(body: unknown, sessionId?: string): Request {
+  return new Request("https://room/streamable", {
+    method: "POST",
+    headers: {
+      Accept: "application/json, text/event-stream",
+      ...(sessionId && { [MCP_SESSION_HEADER]: sessionId }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize(transport: StreamableHTTPTransport): Promise<string> {
+  const response = await transport.handleRequest(
+    post({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} })
+  );
+  expect(response.status).toBe(200);
+  return response.headers.get(MCP_SESSION_HEADER)!;
+}
+
+const ping = { jsonrpc: "2.0", id: 2, method: "ping" };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("StreamableHTTPTransport sessions", () => {
+  it("ends a session on DELETE", async () => {
+    const { transport, data } = createTransport();
+    const sessionId = await initialize(transport);
+
+    const deleted = await transport.handleRequest(
+      new Request("https://room/streamable", {
+        method: "DELETE",
+        headers: { [MCP_SESSION_HEADER]: sessionId },
+      })
+    );
+    expect(deleted.status).toBe(204);
+    expect(data.size).toBe(0);
+
+    const after = await transport.handleRequest(post(ping, sessionId));
+    expect(after.status).toBe(404);
+  });
+
+  it("rejects and deletes a session idle past the TTL", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { transport, data } = createTransport();
+    const sessionId = await initialize(transport);
+
+    vi.setSystemTime(SESSION_IDLE_TTL - 1);
+    expect((await transport.handleRequest(post(ping, sessionId))).status).toBe(200);
+
+    vi.setSystemTime(2 * SESSION_IDLE_TTL);
+    expect((await transport.handleRequest(post(ping, sessionId))).status).toBe(404);
+    expect(data.size).toBe(0);
+  });
+
+  it("keeps sessions alive while they are used", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { transport } = createTransport();
+    const sessionId = await initialize(transport);
+
+    for (let t = 10 * 60 * 1000; t <= 2 * SESSION_IDLE_TTL; t += 10 * 60 * 1000) {
+      vi.setSystemTime(t);
+      expect((await transport.handleRequest(post(ping, sessionId))).status).toBe(200);
+    }
+  });
+
+  it("does not write storage for every request", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { transport, writes } = createTransport();
+    const sessionId = await initialize(transport);
+    writes.length = 0;
+
+    for (let i = 0; i < 5; i++) {
+      vi.setSystemTime(i * 1000);
+      await transport.handleRequest(post(ping, sessionId));
+    }
+    expect(writes).toHaveLength(0);
+  });
+
+  it("expires idle sessions in a sweep", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { transport, data } = createTransport();
+    await initialize(transport);
+
+    vi.setSystemTime(SESSION_IDLE_TTL / 2);
+    const active = await initialize(transport);
+
+    expect(await transport.expireIdleSessions(SESSION_IDLE_TTL)).toBe(1);
+    expect([...data.keys()]).toEqual([`mcpSession:${active}`]);
+  });
+
+  it("writes a notification only to the sessions that buffer it", async () => {
+    const { transport, writes, data } = createTransport();
+    const subscribed = await initialize(transport);
+    const other = await initialize(transport);
+    await transport.subscribe(subscribed, "game://state");
+    writes.length = 0;
+
+    await transport.notifyResourceUpdated("game://state");
+
+    expect(writes).toEqual([`mcpSession:${subscribed}`]);
+    const stored = data.get(`mcpSession:${subscribed}`) as { events: unknown[] };
+    expect(stored.events).toHaveLength(1);
+    expect((data.get(`mcpSession:${other}`) as { events: unknown[] }).events).toHaveLength(0);
+  });
+
+  it("buffers concurrent notifications one after another", async () => {
+    const { transport, data } = createTransport();
+    const sessionId = await initialize(transport);
+    const uris = ["game://state", "game://legal-moves", "game://log"];
+    for (const uri of uris) {
+      await transport.subscribe(sessionId, uri);
+    }
+
+    // The room fires these without waiting for each other
+    await Promise.all([
+      transport.notify("notifications/message", { level: "info" }),
+      ...uris.map((uri) => transport.notifyResourceUpdated(uri)),
+      transport.unsubscribe(sessionId, "game://log"),
+    ]);
+
+    const stored = data.get(`mcpSession:${sessionId}`) as {
+      lastEventId: number;
+      events: { id: number }[];
+      subscriptions: string[];
+    };
+    expect(stored.events.map((event) => event.id)).toEqual([1, 2, 3, 4]);
+    expect(stored.lastEventId).toBe(4);
+    expect(stored.subscriptions).toEqual(["game://state", "game://legal-moves"]);
+  });
+});
@@ -12,8 +12,38 @@ import type {
   ToolCallParams,
   ToolCallResult,
   CommandLogEntry,
+  MCPResource,
+  MCPResourceContents,
+  MessageContext,
+  ResourcesListResult,
+  ResourceReadParams,
+  ResourceReadResult,
+  MCPPrompt,
+  PromptsListResult,
+  PromptGetParams,
+  PromptGetResult,
 } from "./types";
 
+// Newest first; the first entry is offered when the client asks for an unknown version
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-03-26", "2024-11-05"];
+
+// Resources exposed by a server (resources/list, resources/read, resources/subscribe)
+export interface MCPResourceProvider {
+  list: () => MCPResource[];
+  // Returns null for unknown URIs
+  read: (uri: string) => MCPResourceContents[] | null;
+  // Subscriptions are per client session, so they are tracked by the transport owner
+  subscribe?: (uri: string, context: MessageContext) => void | Promise<void>;
+  unsubscribe?: (uri: string, context: MessageContext) => void | Promise<void>;
+}
+
+// Prompt templates exposed by a server (prompts/list, prompts/get)
+export interface MCPPromptProvider {
+  list: () => MCPPrompt[];
+  // Returns null for unknown prompt names
+  get: (name: string, args: Record<string, string>) => PromptGetResult | null;
+}
+
 export interface MCPServerConfig {
   name: string;
   version: string;
@@ -23,6 +53,8 @@ export interface MCPServerConfig {
     args: Record<string, unknown>
   ) => Promise<ToolCallResult>;
   onCommand?: (entry: CommandLogEntry) => void;
+  resources?: MCPResourceProvider;
+  prompts?: MCPPromptProvider;
 }
 
 export class MCPServer {
@@ -33,7 +65,12 @@ export class MCPServer {
     this.config = config;
   }
 
-  async handleMessage(message: string): Promise<string> {
+  // Tools that only read the game (readOnlyHint); everything else changes it
+  isReadOnlyTool(name: string): boolean {
+    return this.config.tools.some((t) => t.name === name && t.annotations?.readOnlyHint);
+  }
+
+  async handleMessage(message: string, context: MessageContext = {}): Promise<string> {
     let request: MCPRequest | MCPNotification;
 
     try {
@@ -43,7 +80,7 @@ export class MCPServer {
     }
 
     // Log the request
-    this.logCommand({
+    this.logCommand(context, {
       timestamp: Date.now(),
       type: "request",
       id: "id" in request ? request.id : undefined,
@@ -58,10 +95,10 @@ export class MCPServer {
     }
 
     // Handle request
-    const response = await this.handleRequest(request as MCPRequest);
+    const response = await this.handleRequest(request as MCPRequest, context);
 
     // Log the response
-    this.logCommand({
+    this.logCommand(context, {
       timestamp: Date.now(),
       type: "response",
       id: response.id,
@@ -72,7 +109,10 @@ export class MCPServer {
     return JSON.stringify(response);
   }
 
-  private async handleRequest(request: MCPRequest): Promise<MCPResponse> {
+  private async handleRequest(
+    request: MCPRequest,
+    context: MessageContext
+  ): Promise<MCPResponse> {
     const { id, method, params } = request;
 
     try {
@@ -85,14 +125,39 @@ export class MCPServer {
           return this.successResponse(id, {});
 
         case "tools/list":
-          return this.handleToolsList(id);
+          return this.handleToolsList(id, context);
 
         case "tools/call":
-          return await this.handleToolCall(id, params as unknown as ToolCallParams);
+          return await this.handleToolCall(id, params as unknown as ToolCallParams, context);
+
+        case "resources/list":
+          return this.handleResourcesList(id);
+
+        case "resources/read":
+          return this.handleResourceRead(id, params as unknown as ResourceReadParams);
+
+        case "resources/subscribe":
+        case "resources/unsubscribe":
+          return await this.handleResourceSubscription(
+            id,
+            method,
+            params as unknown as ResourceReadParams,
+            context
+          );
+
+        case "prompts/list":
+          return this.handlePromptsList(id);
+
+        case "prompts/get":
+          return this.handlePromptGet(id, params as unknown as PromptGetParams);
 
         case "ping":
           return this.successResponse(id, {});
 
+        case "logging/setLevel":
+          // Rooms only emit "info" notifications; any level is accepted
+          return this.successResponse(id, {});
+
         default:
           return this.errorResponse(id, -32601, `Method not found: ${method}`);
       }
@@ -122,9 +187,16 @@ export class MCPServer {
     this.initialized = true;
 
     const result: InitializeResult = {
-      protocolVersion: "2024-11-05",
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params?.protocolVersion)
+        ? params.protocolVersion
+        : SUPPORTED_PROTOCOL_VERSIONS[0],
       capabilities: {
         tools: {},
+        logging: {},
+        ...(this.config.resources && {
+          resources: { subscribe: this.config.resources.subscribe !== undefined },
+        }),
+        ...(this.config.prompts && { prompts: {} }),
       },
       serverInfo: {
         name: this.config.name,
@@ -135,17 +207,101 @@ export class MCPServer {
     return this.successResponse(id, result);
   }
 
-  private handleToolsList(id: string | number): MCPResponse {
+  private handleToolsList(id: string | number, context: MessageContext): MCPResponse {
     const result: ToolsListResult = {
-      tools: this.config.tools,
+      tools: context.readOnly
+        ? this.config.tools.filter((t) => t.annotations?.readOnlyHint)
+        : this.config.tools,
+    };
+
+    return this.successResponse(id, result);
+  }
+
+  private handleResourcesList(id: string | number): MCPResponse {
+    if (!this.config.resources) {
+      return this.errorResponse(id, -32601, "Method not found: resources/list");
+    }
+
+    const result: ResourcesListResult = {
+      resources: this.config.resources.list(),
+    };
+
+    return this.successResponse(id, result);
+  }
+
+  private handleResourceRead(
+    id: string | number,
+    params: ResourceReadParams
+  ): MCPResponse {
+    if (!this.config.resources) {
+      return this.errorResponse(id, -32601, "Method not found: resources/read");
+    }
+
+    const contents = params?.uri ? this.config.resources.read(params.uri) : null;
+    if (!contents) {
+      return this.errorResponse(id, -32002, `Resource not found: ${params?.uri}`);
+    }
+
+    const result: ResourceReadResult = { contents };
+    return this.successResponse(id, result);
+  }
+
+  private async handleResourceSubscription(
+    id: string | number,
+    method: "resources/subscribe" | "resources/unsubscribe",
+    params: ResourceReadParams,
+    context: MessageContext
+  ): Promise<MCPResponse> {
+    const resources = this.config.resources;
+    const handler = method === "resources/subscribe"
+      ? resources?.subscribe
+      : resources?.unsubscribe;
+    if (!resources || !handler) {
+      return this.errorResponse(id, -32601, `Method not found: ${method}`);
+    }
+
+    if (!params?.uri || !resources.list().some((r) => r.uri === params.uri)) {
+      return this.errorResponse(id, -32002, `Resource not found: ${params?.uri}`);
+    }
+
+    await handler(params.uri, context);
+    return this.successResponse(id, {});
+  }
+
+  private handlePromptsList(id: string | number): MCPResponse {
+    if (!this.config.prompts) {
+      return this.errorResponse(id, -32601, "Method not found: prompts/list");
+    }
+
+    const result: PromptsListResult = {
+      prompts: this.config.prompts.list(),
     };
 
     return this.successResponse(id, result);
   }
 
+  private handlePromptGet(
+    id: string | number,
+    params: PromptGetParams
+  ): MCPResponse {
+    if (!this.config.prompts) {
+      return this.errorResponse(id, -32601, "Method not found: prompts/get");
+    }
+
+    const result = params?.name
+      ? this.config.prompts.get(params.name, params.arguments ?? {})
+      : null;
+    if (!result) {
+      return this.errorResponse(id, -32602, `Unknown prompt: ${params?.name}`);
+    }
+
+    return this.successResponse(id, result);
+  }
+
   private async handleToolCall(
     id: string | number,
-    params: ToolCallParams
+    params: ToolCallParams,
+    context: MessageContext
   ): Promise<MCPResponse> {
     const { name, arguments: args = {} } = params;
 
@@ -155,8 +311,12 @@ export class MCPServer {
       return this.errorResponse(id, -32602, `Unknown tool: ${name}`);
     }
 
+    if (context.readOnly && !tool.annotations?.readOnlyHint) {
+      return this.successResponse(id, errorContent(`Tool not available on a read-only connection: ${name}`));
+    }
+
     // Log tool call
-    this.logCommand({
+    this.logCommand(context, {
       timestamp: Date.now(),
       type: "request",
       id,
@@ -168,7 +328,7 @@ export class MCPServer {
       const result = await this.config.onToolCall(name, args);
 
       // Log tool result
-      this.logCommand({
+      this.logCommand(context, {
         timestamp: Date.now(),
         type: "response",
         id,
@@ -182,7 +342,7 @@ export class MCPServer {
       const message = error instanceof Error ? error.message : "Tool execution failed";
 
       // Log error
-      this.logCommand({
+      this.logCommand(context, {
         timestamp: Date.now(),
         type: "response",
         id,
@@ -217,7 +377,8 @@ export class MCPServer {
     };
   }
 
-  private logCommand(entry: CommandLogEntry): void {
+  private logCommand(context: MessageContext, entry: CommandLogEntry): void {
+    if (context.readOnly) return;
     this.config.onCommand?.(entry);
   }
 }
@@ -0,0 +1,452 @@
+// MCP Streamable HTTP Transport
+// Single-endpoint transport from the MCP spec (2025-03-26):
+// POST carries client messages, GET opens a server→client SSE stream,
+// DELETE ends the session. Sessions and the stream's event buffer live in
+// Durable Object storage, so clients can resume with Last-Event-ID. Sessions
+// idle for SESSION_IDLE_TTL are dropped (see expireIdleSessions).
+
+import type { MCPNotification, MessageContext } from "./types";
+
+export const MCP_SESSION_HEADER = "Mcp-Session-Id";
+
+const SESSION_KEY_PREFIX = "mcpSession:";
+const MAX_BUFFERED_EVENTS = 100;
+export const SESSION_IDLE_TTL = 30 * 60 * 1000; // 30 minutes
+// lastActivity only needs minute precision; don't write storage on every request
+const ACTIVITY_WRITE_INTERVAL = 60 * 1000;
+// Durable Object storage takes at most 128 keys per batch put/delete
+const STORAGE_BATCH_SIZE = 128;
+
+interface BufferedEvent {
+  id: number;
+  data: string;
+}
+
+interface TransportSession {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  // Server→client events are only buffered once the client opened a stream
+  streaming: boolean;
+  lastEventId: number;
+  events: BufferedEvent[];
+  // Resource URIs the client subscribed to (resources/subscribe)
+  subscriptions: string[];
+}
+
+interface JSONRPCMessage {
+  jsonrpc: "2.0";
+  id?: string | number;
+  method?: string;
+}
+
+export interface StreamableHTTPConfig {
+  storage: DurableObjectStorage;
+  // Handle one JSON-RPC message; returns "" for notifications
+  handleMessage: (
+    message: string,
+    request: Request,
+    context: Required<Pick<MessageContext, "sessionId">>
+  ) => Promise<string>;
+}
+
+export class StreamableHTTPTransport {
+  private config: StreamableHTTPConfig;
+  private streams: Map<string, WritableStreamDefaultWriter> = new Map();
+  private encoder = new TextEncoder();
+  // Session writes are read-modify-write on storage: they run one at a time
+  // so concurrent notifications neither reuse event ids nor drop events
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(config: StreamableHTTPConfig) {
+    this.config = config;
+  }
+
+  async handleRequest(request: Request): Promise<Response> {
+    switch (request.method) {
+      case "POST":
+        return this.handlePost(request);
+      case "GET":
+        return this.handleGet(request);
+      case "DELETE":
+        return this.handleDelete(request);
+      default:
+        return this.httpError(405, "Method not allowed", { Allow: "GET, POST, DELETE" });
+    }
+  }
+
+  // Send a notification on every open (or resumable) session stream
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    await this.send({ jsonrpc: "2.0", method, params }, () => true);
+  }
+
+  // Tell subscribed sessions that a resource changed
+  async notifyResourceUpdated(uri: string): Promise<void> {
+    await this.send(
+      { jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri } },
+      (session) => session.subscriptions.includes(uri)
+    );
+  }
+
+  async subscribe(sessionId: string, uri: string): Promise<void> {
+    const found = await this.updateSession(sessionId, (session) => {
+      if (!session.subscriptions.includes(uri)) {
+        session.subscriptions.push(uri);
+      }
+      // Buffer updates from now on, even before the client opens its stream
+      session.streaming = true;
+    });
+    if (!found) {
+      throw new Error("Session not found");
+    }
+  }
+
+  async unsubscribe(sessionId: string, uri: string): Promise<void> {
+    const found = await this.updateSession(sessionId, (session) => {
+      session.subscriptions = session.subscriptions.filter((s) => s !== uri);
+    });
+    if (!found) {
+      throw new Error("Session not found");
+    }
+  }
+
+  // Delete sessions idle for SESSION_IDLE_TTL and close their streams;
+  // returns how many were removed
+  async expireIdleSessions(now: number = Date.now()): Promise<number> {
+    return this.exclusive(async () => {
+      const sessions = await this.config.storage.list<TransportSession>({
+        prefix: SESSION_KEY_PREFIX,
+      });
+
+      const expired = [...sessions.values()].filter((session) => isIdle(session, now));
+      for (const session of expired) {
+        this.closeStream(session.id);
+      }
+      const keys = expired.map((session) => SESSION_KEY_PREFIX + session.id);
+      for (let i = 0; i < keys.length; i += STORAGE_BATCH_SIZE) {
+        await this.config.storage.delete(keys.slice(i, i + STORAGE_BATCH_SIZE));
+      }
+      return expired.length;
+    });
+  }
+
+  // Close all open streams (room expired)
+  close(): void {
+    for (const writer of this.streams.values()) {
+      writer.close().catch(() => {});
+    }
+    this.streams.clear();
+  }
+
+  private send(
+    notification: MCPNotification,
+    filter: (session: TransportSession) => boolean
+  ): Promise<void> {
+    return this.exclusive(() => this.bufferEvent(JSON.stringify(notification), filter));
+  }
+
+  private async bufferEvent(
+    data: string,
+    filter: (session: TransportSession) => boolean
+  ): Promise<void> {
+
+    const sessions = await this.config.storage.list<TransportSession>({
+      prefix: SESSION_KEY_PREFIX,
+    });
+
+    // Only sessions that buffered the event are written back, in batches
+    const changed: Array<[string, TransportSession]> = [];
+    const written: Array<[string, BufferedEvent]> = [];
+    for (const [key, session] of sessions) {
+      if (!session.streaming || !filter(session)) continue;
+
+      const event: BufferedEvent = { id: session.lastEventId + 1, data };
+      session.lastEventId = event.id;
+      session.events.push(event);
+      if (session.events.length > MAX_BUFFERED_EVENTS) {
+        session.events = session.events.slice(-MAX_BUFFERED_EVENTS);
+      }
+      changed.push([key, session]);
+      written.push([session.id, event]);
+    }
+    for (let i = 0; i < changed.length; i += STORAGE_BATCH_SIZE) {
+      await this.config.storage.put(Object.fromEntries(changed.slice(i, i + STORAGE_BATCH_SIZE)));
+    }
+    for (const [sessionId, event] of written) {
+      this.writeEvent(sessionId, event);
+    }
+  }
+
+  // ===========================================================================
+  // HTTP Methods
+  // ===========================================================================
+
+  private async handlePost(request: Request): Promise<Response> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await request.text());
+    } catch {
+      return this.jsonRpcError(-32700, "Parse error");
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    if (messages.length === 0 || !messages.every(isJSONRPCMessage)) {
+      return this.jsonRpcError(-32600, "Invalid Request");
+    }
+
+    // initialize starts a new session; everything else must belong to one
+    let session: TransportSession;
+    if (messages.some((m) => m.method === "initialize")) {
+      if (messages.length > 1) {
+        return this.jsonRpcError(-32600, "initialize must not be part of a batch");
+      }
+      session = await this.createSession();
+    } else {
+      const found = await this.requireSession(request);
+      if (found instanceof Response) return found;
+      session = found;
+    }
+
+    const responses: string[] = [];
+    for (const message of messages) {
+      // Responses to server requests carry no method; nothing to process
+      if (message.method === undefined) continue;
+
+      const response = await this.config.handleMessage(JSON.stringify(message), request, {
+        sessionId: session.id,
+      });
+      if (response) {
+        responses.push(response);
+      }
+    }
+
+    // Only notifications (or responses) were sent
+    if (responses.length === 0) {
+      return new Response(null, { status: 202, headers: this.headers(session.id) });
+    }
+
+    // Clients that only accept SSE get the responses as a short event stream
+    if (!accepts(request, "application/json") && accepts(request, "text/event-stream")) {
+      const body = responses.map((response) => formatSSE(response)).join("");
+      return new Response(body, {
+        headers: {
+          ...this.headers(session.id),
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    const body = Array.isArray(parsed) ? `[${responses.join(",")}]` : responses[0];
+    return new Response(body, {
+      headers: {
+        ...this.headers(session.id),
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  private async handleGet(request: Request): Promise<Response> {
+    if (!accepts(request, "text/event-stream")) {
+      return this.httpError(406, "Client must accept text/event-stream");
+    }
+
+    const session = await this.requireSession(request);
+    if (session instanceof Response) return session;
+
+    const { readable, writable } = new TransformStream();
+    const writer = writable.getWriter();
+
+    // Each message goes to exactly one stream: a new GET replaces the old one
+    this.streams.get(session.id)?.close().catch(() => {});
+    this.streams.set(session.id, writer);
+
+    if (!session.streaming) {
+      session.streaming = true;
+      await this.updateSession(session.id, (stored) => {
+        stored.streaming = true;
+      });
+    }
+
+    // Resume: replay everything the client missed
+    const lastEventId = request.headers.get("Last-Event-ID");
+    if (lastEventId !== null) {
+      const afterId = parseInt(lastEventId, 10) || 0;
+      for (const event of session.events) {
+        if (event.id > afterId) {
+          this.writeEvent(session.id, event);
+        }
+      }
+    }
+
+    request.signal.addEventListener("abort", () => {
+      if (this.streams.get(session.id) === writer) {
+        this.streams.delete(session.id);
+      }
+      writer.close().catch(() => {});
+    });
+
+    return new Response(readable, {
+      headers: {
+        ...this.headers(session.id),
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      },
+    });
+  }
+
+  private async handleDelete(request: Request): Promise<Response> {
+    const session = await this.requireSession(request);
+    if (session instanceof Response) return session;
+
+    await this.deleteSession(session.id);
+
+    return new Response(null, { status: 204, headers: this.headers() });
+  }
+
+  // ===========================================================================
+  // Sessions
+  // ===========================================================================
+
+  private async createSession(): Promise<TransportSession> {
+    const session: TransportSession = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+      streaming: false,
+      lastEventId: 0,
+      events: [],
+      subscriptions: [],
+    };
+    await this.saveSession(session);
+    return session;
+  }
+
+  // Look up the session named in the request header (400 if missing, 404 if
+  // unknown or idle too long) and record the activity
+  private async requireSession(request: Request): Promise<TransportSession | Response> {
+    const sessionId = request.headers.get(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      return this.httpError(400, `Missing ${MCP_SESSION_HEADER} header`);
+    }
+
+    const session = await this.loadSession(sessionId);
+    if (!session) {
+      return this.httpError(404, "Session not found");
+    }
+
+    const now = Date.now();
+    if (isIdle(session, now)) {
+      await this.deleteSession(session.id);
+      return this.httpError(404, "Session expired");
+    }
+
+    if (now - session.lastActivity >= ACTIVITY_WRITE_INTERVAL) {
+      session.lastActivity = now;
+      await this.updateSession(session.id, (stored) => {
+        stored.lastActivity = now;
+      });
+    }
+    return session;
+  }
+
+  private async loadSession(sessionId: string): Promise<TransportSession | null> {
+    return (await this.config.storage.get<TransportSession>(SESSION_KEY_PREFIX + sessionId)) ?? null;
+  }
+
+  private async saveSession(session: TransportSession): Promise<void> {
+    await this.config.storage.put(SESSION_KEY_PREFIX + session.id, session);
+  }
+
+  // Change a stored session in the write queue; false if it no longer exists
+  private updateSession(sessionId: string, update: (session: TransportSession) => void): Promise<boolean> {
+    return this.exclusive(async () => {
+      const session = await this.loadSession(sessionId);
+      if (!session) return false;
+      update(session);
+      await this.saveSession(session);
+      return true;
+    });
+  }
+
+  private deleteSession(sessionId: string): Promise<void> {
+    return this.exclusive(async () => {
+      this.closeStream(sessionId);
+      await this.config.storage.delete(SESSION_KEY_PREFIX + sessionId);
+    });
+  }
+
+  // Run a session write after the ones already queued
+  private exclusive<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private closeStream(sessionId: string): void {
+    this.streams.get(sessionId)?.close().catch(() => {});
+    this.streams.delete(sessionId);
+  }
+
+  private writeEvent(sessionId: string, event: BufferedEvent): void {
+    const writer = this.streams.get(sessionId);
+    if (!writer) return;
+
+    writer.write(this.encoder.encode(formatSSE(event.data, event.id))).catch(() => {
+      // Client disconnected; it can resume with Last-Event-ID
+      this.streams.delete(sessionId);
+    });
+  }
+
+  private headers(sessionId?: string): Record<string, string> {
+    return {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Expose-Headers": MCP_SESSION_HEADER,
+      ...(sessionId ? { [MCP_SESSION_HEADER]: sessionId } : {}),
+    };
+  }
+
+  private httpError(
+    status: number,
+    message: string,
+    extraHeaders: Record<string, string> = {}
+  ): Response {
+    return Response.json(
+      { error: message },
+      { status, headers: { ...this.headers(), ...extraHeaders } }
+    );
+  }
+
+  private jsonRpcError(code: number, message: string): Response {
+    return Response.json(
+      { jsonrpc: "2.0", id: null, error: { code, message } },
+      { status: 400, headers: this.headers() }
+    );
+  }
+}
+
+function isIdle(session: TransportSession, now: number): boolean {
+  return now - session.lastActivity >= SESSION_IDLE_TTL;
+}
+
+function isJSONRPCMessage(value: unknown): value is JSONRPCMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as JSONRPCMessage).jsonrpc === "2.0"
+  );
+}
+
+function accepts(request: Request, mimeType: string): boolean {
+  const accept = request.headers.get("Accept") ?? "";
+  return accept.includes(mimeType) || accept.includes("*/*");
+}
+
+function formatSSE(data: string, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ""}event: message\ndata: ${data}\n\n`;
+}
@@ -1,5 +1,7 @@
 // MCP Protocol Types (JSON-RPC 2.0 based)
 
+import type { EngineId } from "@mcpchallenge/game-engines";
+
 export interface MCPRequest {
   jsonrpc: "2.0";
   id: string | number;
@@ -35,6 +37,16 @@ export interface MCPTool {
     properties: Record<string, MCPSchema>;
     required?: string[];
   };
+  annotations?: MCPToolAnnotations;
+}
+
+// Behaviour hints for clients (MCP 2025-03-26)
+export interface MCPToolAnnotations {
+  title?: string;
+  // The tool does not modify its environment (safe for spectators)
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
 }
 
 export interface MCPSchema {
@@ -53,6 +65,7 @@ export interface MCPServerInfo {
 
 export interface MCPCapabilities {
   tools?: Record<string, unknown>;
+  logging?: Record<string, unknown>;
   resources?: Record<string, unknown>;
   prompts?: Record<string, unknown>;
 }
@@ -94,6 +107,75 @@ export interface ToolCallResult {
   isError?: boolean;
 }
 
+// Resources
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface ResourcesListResult {
+  resources: MCPResource[];
+}
+
+export interface ResourceReadParams {
+  uri: string;
+}
+
+export interface ResourceReadResult {
+  contents: MCPResourceContents[];
+}
+
+// Prompts
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: "user" | "assistant";
+  content: {
+    type: "text";
+    text: string;
+  };
+}
+
+export interface PromptsListResult {
+  prompts: MCPPrompt[];
+}
+
+export interface PromptGetParams {
+  name: string;
+  arguments?: Record<string, string>;
+}
+
+export interface PromptGetResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// Per-message transport context (e.g. which Streamable HTTP session sent it)
+export interface MessageContext {
+  sessionId?: string;
+  // Read-only connection (room spectators): only readOnlyHint tools are listed
+  // and callable, and nothing is written to the command log
+  readOnly?: boolean;
+}
+
 // Command log entry (for UI)
 export interface CommandLogEntry {
   timestamp: number;
@@ -117,14 +199,61 @@ export interface PlayerSlot {
   lastActivity: number;
 }
 
+// Time control: base time plus a Fischer increment per move. With perMove
+// (correspondence) the clock is reset to the base time after every move.
+export interface TimeControl {
+  initialMs: number;
+  incrementMs: number;
+  perMove?: boolean;
+}
+
+// PvP chess clock; only the side to move is running
+export interface GameClock {
+  timeControl: TimeControl;
+  remainingMs: Record<PlayerColor, number>;
+  running: PlayerColor | null;
+  runningSince: number | null;
+  flagged: PlayerColor | null;
+}
+
+// Real-time tick loop (snake): the room advances the game every tickMs,
+// applying the last direction each seat queued
+export interface TickLoop {
+  tickMs: number;
+  tick: number;                 // Ticks played in the current game
+  lastTickAt: number | null;    // Last tick, or the game start
+  nextTickAt: number | null;    // null while no game is running
+  stats: Record<string, LatencyStats>; // By seat
+}
+
+// How quickly a seat answers after each tick
+export interface LatencyStats {
+  moves: number;                // Directions queued
+  totalMs: number;
+  minMs: number | null;
+  maxMs: number | null;
+  lastMs: number | null;
+  missedTicks: number;          // Ticks with no input from this seat
+  movedThisTick: boolean;
+}
+
+// Read-only observer of a room (any number per room, up to a cap)
+export interface SpectatorSlot {
+  token: string;
+  connectedAt: number;
+  // Last request with the token (slots from older rooms only have connectedAt)
+  lastActivity?: number;
+}
+
 // Game state types
-export type GameType = "chess" | "tictactoe" | "snake" | "canvas" | "minesweeper" | "polybridge" | "sokoban" | "gorillas" | "fractals" | "lightsout" | "pathfinding" | "sorting";
+export type GameType = EngineId; // One per engine in @mcpchallenge/game-engines
 
 export interface BaseGameState {
   gameType: GameType;
   status: "waiting" | "playing" | "finished" | "won" | "lost";
   createdAt: number;
   lastActivity: number;
+  rngState?: number;  // Engine PRNG state, keeps random events reproducible
 }
 
 export interface ChessGameState extends BaseGameState {
@@ -135,6 +264,8 @@ export interface ChessGameState extends BaseGameState {
   playerColor?: "white" | "black";  // Optional for PvP mode
   result?: "white" | "black" | "draw";
   difficulty: "easy" | "medium" | "hard";
+  elo?: number;
+  opening?: { eco: string; name: string };
   // PvP mode fields
   gameMode?: GameMode;
   players?: {
@@ -159,6 +290,18 @@ export interface SnakeGameState extends BaseGameState {
   score: number;
   gridSize: number;
   gameOver: boolean;
+  // Head-to-head fields (second snake moves on the opponent's turn)
+  opponent?: {
+    snake: Array<{ x: number; y: number }>;
+    direction: "up" | "down" | "left" | "right";
+    score: number;
+  };
+  turn?: "player" | "opponent";
+  winner?: "player" | "opponent" | "draw";
+  moveCount?: number;
+  maxMoves?: number;
+  // Real-time rooms: directions queued for the next tick
+  queued?: Partial<Record<"player" | "opponent", "up" | "down" | "left" | "right">>;
 }
 
 export interface CanvasGameState extends BaseGameState {
@@ -182,6 +325,8 @@ export interface MinesweeperGameState extends BaseGameState {
   mineCount: number;
   flagsRemaining: number;
   elapsedSeconds: number;
+  firstMove?: boolean;      // Mines not placed yet
+  noGuess?: boolean;        // Board is dealt solvable without guessing
 }
 
 export interface PolyBridgeGameState extends BaseGameState {
@@ -197,7 +342,7 @@ export interface PolyBridgeGameState extends BaseGameState {
   }>;
   budgetUsed: number;
   budgetTotal: number;
-  testResult: "untested" | "testing" | "passed" | "failed";
+  testResult: "untested" | "passed" | "failed";
   vehicleProgress: number;
   levelComplete: boolean;
 }
@@ -254,6 +399,8 @@ export interface GorillasGameState extends BaseGameState {
   };
   canvasWidth: number;
   canvasHeight: number;
+  sunPosition?: { x: number; y: number };
+  lastThrower?: "player1" | "player2";
 }
 
 export interface FractalsGameState extends BaseGameState {
@@ -263,6 +410,7 @@ export interface FractalsGameState extends BaseGameState {
     symbol: string;
     replacement: string;
     probability: number;
+    condition?: string;
   }>;
   iterations: number;
   angle: number;
@@ -0,0 +1,139 @@
+// Real-Time Tick Loops
+// Optional real-time mode for snake rooms. Agents queue directions with
+// make_move; a Durable Object alarm ticks the game at a fixed speed and
+// applies the last direction each seat queued. The time from a tick to the
+// next queued direction is the seat's latency, a measure of its MCP
+// round trip.
+
+import type { LatencyStats, TickLoop } from "./mcp/types";
+
+// Named speeds; anything else is parsed as milliseconds per tick
+export const TICK_SPEED_PRESETS: Record<string, number> = {
+  slow: 1000,
+  normal: 500,
+  fast: 250,
+  insane: 100,
+};
+
+const MIN_TICK_MS = 100;
+const MAX_TICK_MS = 10000;
+
+// Parse a preset name or a tick length in ms ("300", 300). Returns null for
+// anything malformed or out of range.
+export function parseTickSpeed(spec: string | number): number | null {
+  const value = String(spec).trim().toLowerCase();
+  if (TICK_SPEED_PRESETS[value]) {
+    return TICK_SPEED_PRESETS[value];
+  }
+
+  const ms = value.match(/^(\d+)\s*(?:ms)?$/);
+  if (!ms) return null;
+  const tickMs = Number(ms[1]);
+  return tickMs >= MIN_TICK_MS && tickMs <= MAX_TICK_MS ? tickMs : null;
+}
+
+// A stopped loop with empty stats for the given seats
+export function createTickLoop(tickMs: number, seats: string[]): TickLoop {
+  return {
+    tickMs,
+    tick: 0,
+    lastTickAt: null,
+    nextTickAt: null,
+    stats: Object.fromEntries(seats.map((seat) => [seat, createLatencyStats()])),
+  };
+}
+
+// Start ticking a new game; the first tick comes one interval after the start
+export function startTickLoop(loop: TickLoop, now: number): TickLoop {
+  return {
+    ...createTickLoop(loop.tickMs, Object.keys(loop.stats)),
+    lastTickAt: now,
+    nextTickAt: now + loop.tickMs,
+  };
+}
+
+export function stopTickLoop(loop: TickLoop): TickLoop {
+  return { ...loop, nextTickAt: null };
+}
+
+export function isTickDue(loop: TickLoop, now: number): boolean {
+  return loop.nextTickAt !== null && now >= loop.nextTickAt;
+}
+
+// A direction arrived from a seat; its latency is the time since the last tick
+export function recordInput(loop: TickLoop, seat: string, now: number): { loop: TickLoop; latencyMs: number } {
+  const latencyMs = Math.max(0, now - (loop.lastTickAt ?? now));
+  const stats = loop.stats[seat] ?? createLatencyStats();
+  return {
+    latencyMs,
+    loop: {
+      ...loop,
+      stats: {
+        ...loop.stats,
+        [seat]: {
+          moves: stats.moves + 1,
+          totalMs: stats.totalMs + latencyMs,
+          minMs: stats.minMs === null ? latencyMs : Math.min(stats.minMs, latencyMs),
+          maxMs: stats.maxMs === null ? latencyMs : Math.max(stats.maxMs, latencyMs),
+          lastMs: latencyMs,
+          missedTicks: stats.missedTicks,
+          movedThisTick: true,
+        },
+      },
+    },
+  };
+}
+
+// A tick was played: count seats that sent nothing and schedule the next one.
+// A late alarm does not cause a burst of catch-up ticks.
+export function advanceTickLoop(loop: TickLoop, now: number, running: boolean): TickLoop {
+  const stats = Object.fromEntries(
+    Object.entries(loop.stats).map(([seat, s]) => [
+      seat,
+      { ...s, missedTicks: s.missedTicks + (s.movedThisTick ? 0 : 1), movedThisTick: false },
+    ])
+  );
+  return {
+    ...loop,
+    tick: loop.tick + 1,
+    lastTickAt: now,
+    nextTickAt: running ? now + loop.tickMs : null,
+    stats,
+  };
+}
+
+export function tickSnapshot(loop: TickLoop, now: number): Record<string, unknown> {
+  return {
+    tickMs: loop.tickMs,
+    tick: loop.tick,
+    running: loop.nextTickAt !== null,
+    nextTickInMs: loop.nextTickAt === null ? null : Math.max(0, loop.nextTickAt - now),
+    latency: Object.fromEntries(
+      Object.entries(loop.stats).map(([seat, s]) => [seat, latencySummary(s)])
+    ),
+    serverTime: now,
+  };
+}
+
+export function latencySummary(stats: LatencyStats): Record<string, number | null> {
+  return {
+    moves: stats.moves,
+    avgMs: stats.moves > 0 ? Math.round(stats.totalMs / stats.moves) : null,
+    minMs: stats.minMs,
+    maxMs: stats.maxMs,
+    lastMs: stats.lastMs,
+    missedTicks: stats.missedTicks,
+  };
+}
+
+function createLatencyStats(): LatencyStats {
+  return {
+    moves: 0,
+    totalMs: 0,
+    minMs: null,
+    maxMs: null,
+    lastMs: null,
+    missedTicks: 0,
+    movedThisTick: false,
+  };
+}
@@ -0,0 +1,74 @@
+// Game Registry
+// One entry per engine in @mcpchallenge/game-engines. Routing, the health
+// response and room MCP servers are all derived from it, so adding an engine
+// to the engines map exposes it over MCP without touching the worker.
+
+import {
+  ChallengeRegistry,
+  bridgeEngine,
+  type ChallengeDefinition,
+  type ChallengeDifficulty,
+  type ChallengeId,
+  type GameEngine as RegistryEngine,
+  type GameState as RegistryState,
+} from "@mcpchallenge/challenge-registry";
+import {
+  getEngine,
+  listEngines,
+  type Difficulty,
+  type GameEngine,
+  type GameState,
+} from "@mcpchallenge/game-engines";
+import type { GameType } from "./mcp/types";
+
+const CHALLENGE_DIFFICULTY: Record<Difficulty, ChallengeDifficulty> = {
+  easy: 1,
+  medium: 3,
+  hard: 5,
+};
+
+function toDefinition(
+  engine: GameEngine<GameState, unknown>
+): ChallengeDefinition<RegistryEngine<RegistryState, unknown>> {
+  const { metadata } = engine;
+  return {
+    id: metadata.id as ChallengeId,
+    meta: {
+      name: metadata.name,
+      description: metadata.description,
+      difficulty: CHALLENGE_DIFFICULTY[metadata.difficulty],
+      concepts: ["tool_basics"],
+      tags: [metadata.transport],
+    },
+    engine: bridgeEngine(engine),
+    difficulties: ["easy", "medium", "hard"],
+    achievements: [],
+    scoring: { basePoints: metadata.points },
+  };
+}
+
+export const gameRegistry = new ChallengeRegistry().registerAll(
+  listEngines().map((id) => toDefinition(getEngine(id)!))
+);
+
+export function isGameType(id: string): id is GameType {
+  return gameRegistry.has(id as ChallengeId);
+}
+
+export function listGameTypes(): GameType[] {
+  return gameRegistry.getIds().map((id) => id as string as GameType);
+}
+
+// Engine that runs a game room
+export function getGameEngine(gameType: GameType): GameEngine<GameState, unknown> {
+  const engine = getEngine(gameType);
+  if (!engine) {
+    throw new Error(`Unknown game type: ${gameType}`);
+  }
+  return engine;
+}
+
+export function getGameDescription(gameType: GameType): string {
+  const meta = gameRegistry.getChallenge(gameType as ChallengeId)?.meta;
+  return meta ? `${meta.name} MCP Server - ${meta.description}` : "MCP Game Server";
+}
@@ -1,17 +1,60 @@
 // GameRoom Durable Object
 // Manages game state and broadcasts updates to web viewers
 
-import type { GameState, GameType, CommandLogEntry, GameMode, PlayerColor, PlayerSlot } from "./mcp/types";
+import type { ChessGameState, GameState, GameType, CommandLogEntry, GameMode, GameClock, PlayerColor, PlayerSlot, SpectatorSlot, TickLoop } from "./mcp/types";
 import type { AgentSnapshot, AgentIdentifyParams } from "./mcp/agent-types";
 import { sanitizeAgentIdentity, createAgentSnapshot } from "./mcp/agent-types";
 import { MCPServer } from "./mcp/server";
-import { createRoomMCPServer, hasAdapterSupport } from "./adapters";
-// Legacy imports (fallback for unsupported game types)
-import { createChessServer } from "./games/chess";
-import { createTicTacToeServer } from "./games/tictactoe";
-import { createSnakeServer } from "./games/snake";
+import { StreamableHTTPTransport } from "./mcp/streamable-http";
+import { createRoomMCPServer, gameResourceUris, getTurnSeat, getWinnerSeat, resignSeat, updateRoomGameState } from "./adapters";
+import { getGameEngine } from "./registry";
+import {
+  CHESS_DIFFICULTY_ELO,
+  exportPgn,
+  getSeats,
+  pgnDateTime,
+  queueDirection,
+  tickSnake,
+  type PgnHeaders,
+  type SnakeMove,
+  type SnakeState,
+} from "@mcpchallenge/game-engines";
+import {
+  ReplayRecorder,
+  type GameResult,
+  type GameStartEvent,
+  type ReplayEvent,
+  type Seed,
+  type SerializedState,
+} from "@mcpchallenge/challenge-registry";
+import {
+  checkFlag,
+  clockDeadline,
+  clockSnapshot,
+  createClock,
+  flagClock,
+  formatClockTime,
+  formatTimeControl,
+  parseTimeControl,
+  pressClock,
+  startClock,
+  stopClock,
+} from "./clock";
+import {
+  advanceTickLoop,
+  createTickLoop,
+  isTickDue,
+  parseTickSpeed,
+  recordInput,
+  startTickLoop,
+  stopTickLoop,
+  tickSnapshot,
+} from "./realtime";
 
 const ROOM_TTL = 60 * 60 * 1000; // 1 hour
+const MAX_SPECTATORS = 20;
+// Spectator tokens unused this long, with no WebSocket open, give up their slot
+const SPECTATOR_IDLE_TTL = 5 * 60 * 1000;
 
 interface RoomState {
   gameType: GameType;
@@ -24,10 +67,21 @@ interface RoomState {
   lastActivity: number;
   // PvP mode fields
   gameMode: GameMode;
-  players: {
-    white: PlayerSlot | null;
-    black: PlayerSlot | null;
-  };
+  // Keyed by the engine's seat names (white/black in chess, X/O in tictactoe)
+  players: Record<string, PlayerSlot | null>;
+  // Read-only connections (get_state, get_legal_moves, resources, events)
+  spectators: SpectatorSlot[];
+  // PvP time control; null for untimed rooms
+  clock?: GameClock | null;
+  // Real-time snake: the tick loop and per-seat latency; null for turn-based rooms
+  realtime?: TickLoop | null;
+  // Replay events of the timed game: game_start, each move, then game_end or
+  // timeout on flag-fall. White is recorded as the player and black as the
+  // opponent. Served by GET /replay.
+  replay?: { startTime: number; events: ReplayEvent[] } | null;
+  // Moves played in the current game; a PvP new_game is only taken before the
+  // first one (real-time rooms count ticks instead)
+  movesPlayed?: number;
 }
 
 export class GameRoom implements DurableObject {
@@ -36,9 +90,20 @@ export class GameRoom implements DurableObject {
   private sseClients: Set<WritableStreamDefaultWriter> = new Set();
   private wsClients: Set<WebSocket> = new Set();
   private mcpServer: MCPServer | null = null;
+  private transport: StreamableHTTPTransport;
 
   constructor(state: DurableObjectState) {
     this.state = state;
+    this.transport = new StreamableHTTPTransport({
+      storage: state.storage,
+      handleMessage: (message, request, context) =>
+        this.processMessage(
+          message,
+          new URL(request.url).searchParams.get("player") ?? undefined,
+          context.sessionId,
+          new URL(request.url).searchParams.has("spectator")
+        ),
+    });
     // Restore WebSocket connections after hibernation
     this.state.getWebSockets().forEach((ws) => {
       this.wsClients.add(ws);
@@ -68,37 +133,104 @@ export class GameRoom implements DurableObject {
     }
 
     // Update last activity
-    this.roomState.lastActivity = Date.now();
+    const now = Date.now();
+    this.roomState.lastActivity = now;
+    this.expireSpectators(now);
+
+    // Spectator connections must present a live token issued by /spectate
+    const spectatorToken = url.searchParams.get("spectator");
+    const spectatorSlot = spectatorToken !== null ? this.findSpectator(spectatorToken) : null;
+    if (spectatorSlot) {
+      spectatorSlot.lastActivity = now;
+    }
     await this.state.storage.put("roomState", this.roomState);
 
-    // Schedule cleanup alarm
-    await this.state.storage.setAlarm(Date.now() + ROOM_TTL);
+    // Schedule cleanup (or flag-fall) alarm
+    await this.scheduleAlarm();
+
+    if (spectatorToken !== null && !spectatorSlot) {
+      return Response.json({ error: "Invalid spectator token" }, { status: 403 });
+    }
 
     switch (path) {
       case "/mcp":
         return this.handleMCP(request);
+      case "/streamable": {
+        const response = await this.transport.handleRequest(request);
+        // A spectator ending its session gives up its slot
+        if (spectatorToken !== null && request.method === "DELETE" && response.ok) {
+          await this.releaseSpectator(spectatorToken);
+        }
+        return response;
+      }
       case "/join":
         return this.handleJoin(request);
+      case "/spectate":
+        return this.handleSpectate();
       case "/ws":
         return this.handleWebSocket(request);
       case "/sse":
         return this.handleSSE(request);
       case "/state":
         return this.handleState();
+      case "/pgn":
+        return request.method === "POST"
+          ? this.handlePgnImport(request, spectatorToken !== null)
+          : this.handlePgnExport();
+      case "/replay":
+        return this.handleReplayExport();
       default:
         return Response.json({ error: "Not found" }, { status: 404 });
     }
   }
 
   private async handleInit(request: Request): Promise<Response> {
-    const { gameType, roomId, mode } = await request.json() as {
+    const { gameType, roomId, mode, timeControl, speed } = await request.json() as {
       gameType: GameType;
       roomId: string;
       mode?: "ai" | "pvp";
+      timeControl?: string;
+      speed?: string | number;
     };
 
     // Determine game mode
     const gameMode: GameMode = mode === "pvp" ? "pvp" : "ai";
+    if (gameMode === "pvp" && getGameEngine(gameType).metadata.maxPlayers !== 2) {
+      return Response.json({ error: `${gameType} has no two-player mode` }, { status: 400 });
+    }
+
+    // Clocks run in PvP chess only (the turn is a color there)
+    let clock: GameClock | null = null;
+    if (timeControl) {
+      if (gameMode !== "pvp" || gameType !== "chess") {
+        return Response.json({ error: "Time controls are only available in PvP chess rooms" }, { status: 400 });
+      }
+      const parsed = parseTimeControl(timeControl);
+      if (!parsed) {
+        return Response.json(
+          { error: `Invalid time control "${timeControl}" (use e.g. 5+3, 15+10, 3d or blitz)` },
+          { status: 400 }
+        );
+      }
+      clock = createClock(parsed);
+    }
+
+    // Real-time ticks run in snake rooms only (one snake per seat)
+    let realtime: TickLoop | null = null;
+    if (speed !== undefined) {
+      if (gameType !== "snake") {
+        return Response.json({ error: "Real-time mode is only available in snake rooms" }, { status: 400 });
+      }
+      const tickMs = parseTickSpeed(speed);
+      if (!tickMs) {
+        return Response.json(
+          { error: `Invalid speed "${speed}" (use slow, normal, fast, insane or 100-10000 ms per tick)` },
+          { status: 400 }
+        );
+      }
+      const seats = getSeats(getGameEngine(gameType));
+      realtime = createTickLoop(tickMs, gameMode === "pvp" ? seats : seats.slice(0, 1));
+    }
 
     // Generate session nonce for agent.identify verification
     const sessionNonce = crypto.randomUUID().replace(/-/g, "").slice(0, 32);
@@ -114,7 +246,11 @@ export class GameRoom implements DurableObject {
       createdAt: Date.now(),
       lastActivity: Date.now(),
       gameMode,
-      players: { white: null, black: null },
+      players: Object.fromEntries(getSeats(getGameEngine(gameType)).map((seat) => [seat, null])),
+      spectators: [],
+      clock,
+      realtime,
+      replay: null,
     };
 
     // Create MCP server for this game type
@@ -124,12 +260,19 @@ export class GameRoom implements DurableObject {
     await this.state.storage.put("roomState", this.roomState);
 
     // Schedule cleanup alarm
-    await this.state.storage.setAlarm(Date.now() + ROOM_TTL);
+    await this.scheduleAlarm();
 
-    return Response.json({ success: true, roomId, sessionNonce, gameMode });
+    return Response.json({
+      success: true,
+      roomId,
+      sessionNonce,
+      gameMode,
+      ...(clock && { timeControl: formatTimeControl(clock.timeControl) }),
+      ...(realtime && { tickMs: realtime.tickMs }),
+    });
   }
 
-  // Join endpoint for PvP mode - assigns player to a color
+  // Join endpoint for PvP mode - assigns player to a seat
   private async handleJoin(request: Request): Promise<Response> {
     if (!this.roomState) {
       return Response.json({ error: "Room not initialized" }, { status: 400 });
@@ -138,21 +281,17 @@ export class GameRoom implements DurableObject {
     // Generate unique player nonce
     const playerNonce = crypto.randomUUID().replace(/-/g, "").slice(0, 32);
 
-    // Assign color (first = white, second = black)
-    let assignedColor: PlayerColor | null = null;
-
-    if (!this.roomState.players.white) {
-      assignedColor = "white";
-    } else if (!this.roomState.players.black && this.roomState.gameMode === "pvp") {
-      assignedColor = "black";
-    }
+    // Assign the first free seat (the second one only in PvP)
+    const seats = this.seats();
+    const assignedSeat = (this.roomState.gameMode === "pvp" ? seats : seats.slice(0, 1))
+      .find((seat) => !this.roomState!.players[seat]);
 
-    if (!assignedColor) {
+    if (!assignedSeat) {
       return Response.json({ error: "Room is full" }, { status: 400 });
     }
 
     // Create player slot
-    this.roomState.players[assignedColor] = {
+    this.roomState.players[assignedSeat] = {
       nonce: playerNonce,
       agentSnapshot: null,
       connectedAt: Date.now(),
@@ -162,164 +301,613 @@ export class GameRoom implements DurableObject {
     await this.state.storage.put("roomState", this.roomState);
 
     // Broadcast player joined
-    this.broadcast("players", {
-      white: this.roomState.players.white?.agentSnapshot?.identity ?? null,
-      black: this.roomState.players.black?.agentSnapshot?.identity ?? null,
-    });
+    this.broadcast("players", this.publicPlayers());
 
     return Response.json({
       success: true,
       playerNonce,
-      color: assignedColor,
+      seat: assignedSeat,
+      seats,
       roomId: this.roomState.roomId,
       gameMode: this.roomState.gameMode,
     });
   }
 
-  // Helper to get player color from nonce
-  private getPlayerColor(nonce: string): PlayerColor | null {
-    if (this.roomState?.players.white?.nonce === nonce) return "white";
-    if (this.roomState?.players.black?.nonce === nonce) return "black";
-    return null;
+  // Spectate endpoint - issues a read-only token (any game mode)
+  private async handleSpectate(): Promise<Response> {
+    if (!this.roomState) {
+      return Response.json({ error: "Room not initialized" }, { status: 400 });
+    }
+
+    if (this.roomState.spectators.length >= MAX_SPECTATORS) {
+      return Response.json({ error: "Too many spectators" }, { status: 400 });
+    }
+
+    const spectatorToken = crypto.randomUUID().replace(/-/g, "").slice(0, 32);
+    const now = Date.now();
+    this.roomState.spectators.push({ token: spectatorToken, connectedAt: now, lastActivity: now });
+
+    await this.state.storage.put("roomState", this.roomState);
+
+    this.broadcast("spectators", { count: this.roomState.spectators.length });
+
+    return Response.json({
+      success: true,
+      spectatorToken,
+      roomId: this.roomState.roomId,
+      gameMode: this.roomState.gameMode,
+    });
   }
 
-  private createMCPServer(): void {
-    if (!this.roomState) return;
+  private findSpectator(token: string): SpectatorSlot | null {
+    return this.roomState?.spectators.find((s) => s.token === token) ?? null;
+  }
 
-    const onCommand = (entry: CommandLogEntry) => {
-      this.roomState!.commandLog.push(entry);
-      // Keep only last 100 commands
-      if (this.roomState!.commandLog.length > 100) {
-        this.roomState!.commandLog = this.roomState!.commandLog.slice(-100);
-      }
-      this.broadcast("command", entry);
-    };
+  // Free the slots of spectators that went away: tokens idle past
+  // SPECTATOR_IDLE_TTL with no WebSocket open. Returns whether any expired.
+  private expireSpectators(now: number): boolean {
+    const room = this.roomState!;
+    // Rooms created before spectators existed have no list yet
+    room.spectators ??= [];
 
-    const onStateChange = (gameState: GameState) => {
-      this.roomState!.gameState = gameState;
-      this.state.storage.put("roomState", this.roomState);
-      this.broadcast("state", this.getPublicState());
-    };
+    const live = room.spectators.filter((slot) =>
+      now - (slot.lastActivity ?? slot.connectedAt) < SPECTATOR_IDLE_TTL ||
+      this.state.getWebSockets(`spectator:${slot.token}`).length > 0
+    );
+    if (live.length === room.spectators.length) return false;
 
-    // Use new adapter system if available
-    if (hasAdapterSupport(this.roomState.gameType)) {
-      this.mcpServer = createRoomMCPServer({
-        gameType: this.roomState.gameType,
-        initialState: this.roomState.gameState,
-        onStateChange,
-        onCommand,
-        gameMode: this.roomState.gameMode,
-      });
-      return;
-    }
+    room.spectators = live;
+    this.broadcast("spectators", { count: live.length });
+    return true;
+  }
 
-    // Fallback to legacy implementation for unsupported types (e.g., canvas)
-    switch (this.roomState.gameType) {
-      case "chess":
-        this.mcpServer = createChessServer(
-          this.roomState.gameState,
-          onStateChange,
-          onCommand
-        );
-        break;
-      case "tictactoe":
-        this.mcpServer = createTicTacToeServer(
-          this.roomState.gameState,
-          onStateChange,
-          onCommand
-        );
-        break;
-      case "snake":
-        this.mcpServer = createSnakeServer(
-          this.roomState.gameState,
-          onStateChange,
-          onCommand
-        );
-        break;
-      // TODO: Add canvas
-      default:
-        throw new Error(`Unknown game type: ${this.roomState.gameType}`);
+  private async releaseSpectator(token: string): Promise<void> {
+    const room = this.roomState;
+    if (!room?.spectators.some((slot) => slot.token === token)) return;
+
+    room.spectators = room.spectators.filter((slot) => slot.token !== token);
+    await this.state.storage.put("roomState", room);
+    this.broadcast("spectators", { count: room.spectators.length });
+  }
+
+  // Seat names of the room's engine, in turn order
+  private seats(): [string, string] {
+    return getSeats(getGameEngine(this.roomState!.gameType));
+  }
+
+  // Helper to get player seat from nonce
+  private getPlayerSeat(nonce: string): string | null {
+    return this.seats().find((seat) => this.roomState?.players[seat]?.nonce === nonce) ?? null;
+  }
+
+  // Identities by seat, for the UI
+  private publicPlayers(): Record<string, { name: string; model: string } | null> {
+    return Object.fromEntries(
+      this.seats().map((seat) => [seat, this.roomState?.players[seat]?.agentSnapshot?.identity ?? null])
+    );
+  }
+
+  private logCommand(entry: CommandLogEntry): void {
+    this.roomState!.commandLog.push(entry);
+    // Keep only last 100 commands
+    if (this.roomState!.commandLog.length > 100) {
+      this.roomState!.commandLog = this.roomState!.commandLog.slice(-100);
     }
+    this.broadcast("command", entry);
   }
 
-  private async handleMCP(request: Request): Promise<Response> {
-    if (!this.mcpServer) {
-      this.createMCPServer();
+  private publishState(gameState: GameState): void {
+    this.roomState!.gameState = gameState;
+    this.state.storage.put("roomState", this.roomState);
+    this.broadcast("state", this.getPublicState());
+    // Streamable HTTP clients get state changes as log notifications
+    this.transport.notify("notifications/message", {
+      level: "info",
+      logger: this.roomState!.gameType,
+      data: { event: "state", status: gameState.status },
+    }).catch(() => {});
+    // A move landed: state, legal moves and log resources all changed
+    for (const uri of gameResourceUris(this.roomState!.roomId)) {
+      this.transport.notifyResourceUpdated(uri).catch(() => {});
     }
+  }
+
+  private createMCPServer(): void {
+    if (!this.roomState) return;
 
+    // Every game type is served by its engine through the adapter
+    this.mcpServer = createRoomMCPServer({
+      gameType: this.roomState.gameType,
+      initialState: this.roomState.gameState,
+      onStateChange: (gameState) => this.publishState(gameState),
+      onCommand: (entry) => this.logCommand(entry),
+      gameMode: this.roomState.gameMode,
+      resources: {
+        roomId: this.roomState.roomId,
+        getLog: () => this.roomState?.commandLog ?? [],
+        subscribe: (uri, context) => {
+          if (!context.sessionId) {
+            throw new Error("Resource subscriptions require the Streamable HTTP endpoint (/mcp)");
+          }
+          return this.transport.subscribe(context.sessionId, uri);
+        },
+        unsubscribe: (uri, context) => {
+          if (!context.sessionId) {
+            throw new Error("Resource subscriptions require the Streamable HTTP endpoint (/mcp)");
+          }
+          return this.transport.unsubscribe(context.sessionId, uri);
+        },
+      },
+    });
+  }
+
+  private async handleMCP(request: Request): Promise<Response> {
     // Extract player nonce from URL for PvP mode
     const url = new URL(request.url);
     const playerNonce = url.searchParams.get("player") ?? undefined;
+    const spectator = url.searchParams.has("spectator");
+
+    const response = await this.processMessage(await request.text(), playerNonce, undefined, spectator);
+
+    if (!response) {
+      // Notification - no response
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response(response, {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  }
 
-    const message = await request.text();
+  // Handle one MCP message (shared by the POST, Streamable HTTP and WebSocket endpoints)
+  // Returns "" for notifications
+  private async processMessage(
+    message: string,
+    playerNonce?: string,
+    sessionId?: string,
+    spectator = false
+  ): Promise<string> {
+    if (!this.mcpServer) {
+      this.createMCPServer();
+    }
+
+    // Spectators only see read-only tools and never touch room state
+    if (spectator) {
+      return this.mcpServer!.handleMessage(message, { sessionId, readOnly: true });
+    }
 
     // Intercept agent.identify tool calls at room level
     const intercepted = await this.interceptAgentIdentify(message, playerNonce);
     if (intercepted) {
-      return new Response(intercepted, {
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
-      });
+      return intercepted;
+    }
+
+    // Real-time rooms queue moves for the next tick
+    if (this.roomState?.realtime) {
+      const queued = await this.queueRealtimeMove(message, playerNonce);
+      if (queued) {
+        return queued;
+      }
     }
 
-    // For PvP mode, validate player turn before make_move
-    if (this.roomState?.gameMode === "pvp" && playerNonce) {
+    // For PvP mode, only seated players change the game, moving in turn
+    if (this.roomState?.gameMode === "pvp") {
       const turnError = this.validatePvPTurn(message, playerNonce);
       if (turnError) {
-        return new Response(turnError, {
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*",
-          },
-        });
+        return turnError;
       }
     }
 
-    const response = await this.mcpServer!.handleMessage(message);
+    const call = parseToolCall(message);
+    const gameBefore = this.roomState?.gameState ?? null;
+    const response = await this.handleTimedMessage(message, () =>
+      this.roomState?.gameMode === "pvp" && call?.name === "resign"
+        ? this.resignPvP(call.id, this.getPlayerSeat(playerNonce!)!)
+        : this.mcpServer!.handleMessage(message, { sessionId })
+    );
+
+    // Count the moves of the current game (see validatePvPTurn)
+    if (call && this.roomState && this.roomState.gameState !== gameBefore) {
+      if (call.name === "new_game") {
+        this.roomState.movesPlayed = 0;
+      } else if (call.name === "make_move") {
+        this.roomState.movesPlayed = (this.roomState.movesPlayed ?? 0) + 1;
+      }
+    }
 
     // Save state after each MCP message
     await this.state.storage.put("roomState", this.roomState);
 
-    if (!response) {
-      // Notification - no response
-      return new Response(null, { status: 204 });
+    return response;
+  }
+
+  // Run a tool call past the PvP clock or the real-time tick loop: moves by a
+  // side whose time is up end the game instead, a move that hands over the
+  // turn presses the clock, new_game starts ticking, and get_state shows the
+  // remaining time or the tick stats
+  private async handleTimedMessage(message: string, handle: () => Promise<string>): Promise<string> {
+    const call = parseToolCall(message);
+    if (this.roomState?.realtime && call) {
+      return this.handleRealtimeMessage(call, handle);
     }
 
-    return new Response(response, {
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*",
+    const clock = this.roomState?.clock;
+    if (!clock || !call) {
+      return handle();
+    }
+
+    if (call.name === "make_move") {
+      const flagged = checkFlag(clock, Date.now());
+      if (flagged) {
+        if (!clock.flagged) {
+          await this.handleFlagFall(flagged);
+        }
+        return this.mcpErrorResponse(call.id, `Game over: ${flagged} ran out of time.`);
+      }
+    }
+
+    const moverBefore = this.turnColor();
+    const stateBefore = JSON.stringify(this.roomState!.gameState) as SerializedState;
+    const response = await handle();
+    const room = this.roomState!;
+    const now = Date.now();
+
+    if (call.name === "make_move" && moverBefore) {
+      this.recordReplayMove(moverBefore, call.arguments, stateBefore);
+    }
+
+    if (call.name === "new_game" && room.gameState?.status === "playing") {
+      this.startGameClock(now);
+    } else if (room.clock?.running) {
+      if (room.gameState?.status !== "playing") {
+        room.clock = stopClock(room.clock, now);
+      } else if (moverBefore && this.turnColor() !== moverBefore) {
+        room.clock = pressClock(room.clock, moverBefore, now);
+      }
+    }
+
+    if (room.clock !== clock) {
+      await this.state.storage.put("roomState", room);
+      await this.scheduleAlarm();
+      this.broadcast("clock", clockSnapshot(room.clock!, now));
+    }
+
+    return call.name === "get_state" ? this.appendClock(response, now) : response;
+  }
+
+  private async handleRealtimeMessage(
+    call: { id: string | number; name: string },
+    handle: () => Promise<string>
+  ): Promise<string> {
+    const response = await handle();
+    const room = this.roomState!;
+    const now = Date.now();
+
+    if (call.name === "new_game" && room.gameState?.status === "playing") {
+      room.realtime = startTickLoop(room.realtime!, now);
+      await this.state.storage.put("roomState", room);
+      await this.scheduleAlarm();
+      this.broadcast("tick", tickSnapshot(room.realtime, now));
+    }
+
+    return call.name === "get_state" ? this.appendTickInfo(response, now) : response;
+  }
+
+  // make_move in a real-time room: the direction is queued for the next tick
+  // (the seat comes from the player nonce in PvP) and its latency recorded
+  private async queueRealtimeMove(message: string, playerNonce?: string): Promise<string | null> {
+    const call = parseToolCall(message);
+    if (!call || call.name !== "make_move") {
+      return null;
+    }
+
+    const room = this.roomState!;
+    if (room.gameState?.status !== "playing" || room.realtime?.nextTickAt === null) {
+      return this.mcpErrorResponse(call.id, "No game in progress. Use new_game to start.");
+    }
+
+    const seats = this.seats();
+    let seat: string | null = seats[0];
+    if (room.gameMode === "pvp") {
+      if (!playerNonce) {
+        return this.mcpErrorResponse(call.id, "Missing player nonce for PvP mode");
+      }
+      seat = this.getPlayerSeat(playerNonce);
+      if (!seat) {
+        return this.mcpErrorResponse(call.id, "Invalid player nonce");
+      }
+    }
+
+    const move = getGameEngine(room.gameType).parseMove(String(call.arguments.move ?? "")) as SnakeMove | null;
+    if (!move) {
+      return this.mcpErrorResponse(call.id, `Invalid move: ${String(call.arguments.move ?? "")}. Use up, down, left or right.`);
+    }
+
+    const side = seat === seats[0] ? "player" : "opponent";
+    const update = updateRoomGameState(room.gameType, room.gameState, room.gameMode === "pvp", (state) =>
+      queueDirection(state as SnakeState, side, move.direction)
+    );
+    if (!update.valid) {
+      return this.mcpErrorResponse(call.id, update.error ?? "Move rejected");
+    }
+
+    const now = Date.now();
+    const { loop, latencyMs } = recordInput(room.realtime!, seat, now);
+    room.gameState = update.state;
+    room.realtime = loop;
+    // The MCP server keeps its own copy of the game; rebuild it with the queued direction
+    this.mcpServer = null;
+    await this.state.storage.put("roomState", room);
+
+    this.logCommand({
+      timestamp: now,
+      type: "response",
+      id: call.id,
+      toolName: "make_move",
+      params: { move: move.direction, seat },
+      result: { queued: move.direction, tick: loop.tick + 1, latencyMs },
+    });
+
+    return JSON.stringify({
+      jsonrpc: "2.0",
+      id: call.id,
+      result: {
+        content: [{
+          type: "text",
+          text: `Queued ${move.direction} for tick ${loop.tick + 1} (${latencyMs}ms after the last tick)`,
+        }],
       },
     });
   }
 
-  // Validate that the player can make a move in PvP mode
-  private validatePvPTurn(message: string, playerNonce: string): string | null {
+  // One real-time tick: every snake moves at once (the AI steers the second
+  // snake in AI rooms), then the next tick is scheduled while the game runs
+  private async runTick(now: number): Promise<void> {
+    const room = this.roomState!;
+    if (room.gameState?.status === "playing") {
+      const update = updateRoomGameState(room.gameType, room.gameState, room.gameMode === "pvp", (state) =>
+        tickSnake(state as SnakeState, room.gameMode === "ai" ? "medium" : undefined)
+      );
+      room.realtime = advanceTickLoop(room.realtime!, now, update.state.status === "playing");
+      // The MCP server keeps its own copy of the game; rebuild it from the ticked state
+      this.mcpServer = null;
+      this.publishState(update.state);
+    } else {
+      room.realtime = stopTickLoop(room.realtime!);
+    }
+
+    await this.state.storage.put("roomState", room);
+    this.broadcast("tick", tickSnapshot(room.realtime, now));
+  }
+
+  private appendTickInfo(response: string, now: number): string {
+    const loop = this.roomState?.realtime;
+    if (!loop || !response) return response;
+
     try {
-      const parsed = JSON.parse(message);
-      if (parsed.method !== "tools/call" || parsed.params?.name !== "make_move") {
-        return null;
+      const parsed = JSON.parse(response);
+      if (!Array.isArray(parsed.result?.content)) return response;
+
+      const nextTick = loop.nextTickAt === null
+        ? "stopped"
+        : `next in ${Math.max(0, loop.nextTickAt - now)}ms`;
+      const latency = Object.entries(loop.stats)
+        .map(([seat, stats]) => `${seat} ${stats.moves > 0 ? Math.round(stats.totalMs / stats.moves) : "-"}ms avg, ${stats.missedTicks} missed`)
+        .join(" | ");
+      parsed.result.content.push({
+        type: "text",
+        text: `Real-time: tick ${loop.tick} every ${loop.tickMs}ms (${nextTick}). Latency: ${latency}`,
+      });
+      return JSON.stringify(parsed);
+    } catch {
+      return response;
+    }
+  }
+
+  // A fresh clock for a new game, running for the side to move
+  private startGameClock(now: number): void {
+    const room = this.roomState!;
+    const turn = this.turnColor();
+    room.clock = createClock(room.clock!.timeControl);
+    if (turn) {
+      room.clock = startClock(room.clock, turn, now);
+    }
+
+    room.replay = null;
+    this.recordReplay((recorder) => {
+      recorder.recordStart({
+        options: { mode: room.gameMode, timeControl: formatTimeControl(room.clock!.timeControl) },
+        seed: "" as Seed, // PvP games are not seeded
+        initialState: JSON.stringify(room.gameState) as SerializedState,
+      });
+    });
+  }
+
+  // Append to the timed game's replay, which lives in the room state
+  private recordReplay(record: (recorder: ReplayRecorder) => void): void {
+    const room = this.roomState!;
+    const recorder = new ReplayRecorder(room.replay ?? undefined);
+    record(recorder);
+    room.replay = { startTime: recorder.recordingStartTime, events: [...recorder.getEvents()] };
+  }
+
+  // A make_move call in the timed game; rejected moves leave the state as it was.
+  // The move that ends the game also records the result.
+  private recordReplayMove(mover: PlayerColor, args: Record<string, unknown>, stateBefore: SerializedState): void {
+    const room = this.roomState!;
+    const stateAfter = JSON.stringify(room.gameState) as SerializedState;
+    if (!room.replay || stateAfter === stateBefore) return;
+
+    const moveString = String(args.move);
+    this.recordReplay((recorder) => {
+      const move = { move: moveString, moveString, stateBefore, stateAfter };
+      if (mover === "white") {
+        recorder.recordPlayerMove(move);
+      } else {
+        recorder.recordAIMove(move);
       }
 
-      const playerColor = this.getPlayerColor(playerNonce);
-      if (!playerColor) {
-        return this.mcpErrorResponse(parsed.id, "Invalid player nonce");
+      const result = this.replayResult();
+      if (result) {
+        recorder.recordEnd({ result, finalState: stateAfter, reason: "completed" });
       }
+    });
+  }
 
-      // Get current turn from game state
-      const gameState = this.roomState?.gameState as { turn?: string } | null;
-      const currentTurn = gameState?.turn;
+  // Result of the timed game from white's side, once it is over
+  private replayResult(): GameResult | undefined {
+    const room = this.roomState!;
+    const gameState = room.gameState as ChessGameState | null;
+    if (!gameState || gameState.status === "playing" || !room.replay) return undefined;
 
-      if (currentTurn && currentTurn !== playerColor) {
-        return this.mcpErrorResponse(parsed.id, `It's ${currentTurn}'s turn, not yours!`);
-      }
+    return {
+      status: gameState.result === "white" ? "won" : gameState.result === "black" ? "lost" : "draw",
+      totalMoves: room.replay.events.filter((e) => e.type === "player_move" || e.type === "ai_move").length,
+    };
+  }
 
-      return null;
+  // Flag-fall: the side out of time loses and the game is over
+  private async handleFlagFall(side: PlayerColor): Promise<void> {
+    const room = this.roomState!;
+    const winner: PlayerColor = side === "white" ? "black" : "white";
+
+    room.clock = flagClock(room.clock!, side);
+    room.lastActivity = Date.now(); // Keep the finished game around for the full TTL
+    if (room.gameState) {
+      room.gameState = { ...room.gameState, status: "finished", result: winner } as GameState;
+    }
+
+    this.recordReplay((recorder) => {
+      recorder.recordTimeout({
+        timedOutPlayer: side === "white" ? "player" : "opponent",
+        stateAtTimeout: JSON.stringify(room.gameState) as SerializedState,
+      });
+    });
+
+    // The MCP server keeps its own copy of the game; rebuild it from the finished state
+    this.mcpServer = null;
+
+    await this.state.storage.put("roomState", room);
+    this.broadcast("timeout", { flagged: side, winner });
+    this.broadcast("state", this.getPublicState());
+  }
+
+  // Side to move in PvP chess (the room format stores it as a color)
+  private turnColor(): PlayerColor | null {
+    const turn = (this.roomState?.gameState as { turn?: string } | null)?.turn;
+    return turn === "white" || turn === "black" ? turn : null;
+  }
+
+  private appendClock(response: string, now: number): string {
+    const clock = this.roomState?.clock;
+    if (!clock || !response) return response;
+
+    try {
+      const parsed = JSON.parse(response);
+      if (!Array.isArray(parsed.result?.content)) return response;
+
+      const status = clock.flagged
+        ? `${clock.flagged} flagged`
+        : clock.running ? `${clock.running} to move` : "stopped";
+      const snapshot = clockSnapshot(clock, now) as { whiteMs: number; blackMs: number };
+      parsed.result.content.push({
+        type: "text",
+        text: `Clock (${formatTimeControl(clock.timeControl)}): White ${formatClockTime(snapshot.whiteMs)} | Black ${formatClockTime(snapshot.blackMs)} (${status})`,
+      });
+      return JSON.stringify(parsed);
     } catch {
+      return response;
+    }
+  }
+
+  // One alarm serves the room TTL, the running clock's deadline and the next
+  // real-time tick; a running clock or tick loop keeps the room alive
+  private async scheduleAlarm(): Promise<void> {
+    if (!this.roomState) return;
+    const deadlines = [
+      this.roomState.clock ? clockDeadline(this.roomState.clock) : null,
+      this.roomState.realtime?.nextTickAt ?? null,
+    ].filter((deadline): deadline is number => deadline !== null);
+    await this.state.storage.setAlarm(
+      deadlines.length > 0 ? Math.min(...deadlines) : this.roomState.lastActivity + ROOM_TTL
+    );
+  }
+
+  // Validate a PvP tool call: every tool that changes the game needs a seat,
+  // make_move needs the seat whose turn it is (the engine's turn field decides),
+  // and new_game only replaces a game before its first move or once it is over
+  private validatePvPTurn(message: string, playerNonce?: string): string | null {
+    const call = parseToolCall(message);
+    if (!call || this.mcpServer!.isReadOnlyTool(call.name)) {
       return null;
     }
+
+    if (!playerNonce) {
+      return this.mcpErrorResponse(call.id, "Missing player nonce for PvP mode");
+    }
+    const playerSeat = this.getPlayerSeat(playerNonce);
+    if (!playerSeat) {
+      return this.mcpErrorResponse(call.id, "Invalid player nonce");
+    }
+
+    const room = this.roomState!;
+    if (call.name === "new_game" && room.gameState?.status === "playing") {
+      const started = room.realtime ? room.realtime.tick > 0 : (room.movesPlayed ?? 0) > 0;
+      if (started) {
+        return this.mcpErrorResponse(call.id, "A game is in progress. Resign it before starting a new one.");
+      }
+    }
+
+    if (call.name === "make_move") {
+      const turnSeat = getTurnSeat(room.gameType, room.gameState);
+      if (turnSeat && turnSeat !== playerSeat) {
+        return this.mcpErrorResponse(call.id, `It's ${turnSeat}'s turn, not yours!`);
+      }
+    }
+
+    return null;
+  }
+
+  // Resignation in a PvP room: the seat that resigns loses. The adapter's
+  // resign would always end the game as a loss for the first seat.
+  private async resignPvP(id: string | number, seat: string): Promise<string> {
+    const room = this.roomState!;
+    if (room.gameState?.status !== "playing") {
+      return this.mcpErrorResponse(id, "No game in progress.");
+    }
+
+    const gameState = resignSeat(room.gameType, room.gameState, seat);
+    if (room.replay) {
+      this.recordReplay((recorder) => {
+        recorder.recordResign({
+          resignedBy: seat === this.seats()[0] ? "player" : "opponent",
+          stateAtResign: JSON.stringify(gameState) as SerializedState,
+        });
+      });
+    }
+    // The MCP server keeps its own copy of the game; rebuild it from the finished state
+    this.mcpServer = null;
+    this.publishState(gameState);
+
+    this.logCommand({
+      timestamp: Date.now(),
+      type: "response",
+      id,
+      toolName: "resign",
+      params: { seat },
+      result: { resigned: seat },
+    });
+
+    return JSON.stringify({
+      jsonrpc: "2.0",
+      id,
+      result: {
+        content: [{ type: "text", text: `${seat} resigned. Game over.` }],
+      },
+    });
   }
 
   // Handle agent.identify tool at room level (before game-specific MCP server)
@@ -343,13 +931,13 @@ export class GameRoom implements DurableObject {
           return this.mcpErrorResponse(parsed.id, "Missing player nonce for PvP mode");
         }
 
-        const playerColor = this.getPlayerColor(playerNonce);
-        if (!playerColor) {
+        const playerSeat = this.getPlayerSeat(playerNonce);
+        if (!playerSeat) {
           return this.mcpErrorResponse(parsed.id, "Invalid player nonce - join the room first");
         }
 
         // Already identified?
-        if (this.roomState.players[playerColor]?.agentSnapshot) {
+        if (this.roomState.players[playerSeat]?.agentSnapshot) {
           return this.mcpErrorResponse(parsed.id, "Player already identified");
         }
 
@@ -360,18 +948,14 @@ export class GameRoom implements DurableObject {
         }
 
         // Lock identity for this player
-        this.roomState.players[playerColor]!.agentSnapshot = createAgentSnapshot(identity);
+        this.roomState.players[playerSeat]!.agentSnapshot = createAgentSnapshot(identity);
         await this.state.storage.put("roomState", this.roomState);
 
         // Broadcast both players
-        this.broadcast("players", {
-          white: this.roomState.players.white?.agentSnapshot?.identity ?? null,
-          black: this.roomState.players.black?.agentSnapshot?.identity ?? null,
-        });
+        this.broadcast("players", this.publicPlayers());
 
         // Auto-start game when both identified
-        if (this.roomState.players.white?.agentSnapshot &&
-            this.roomState.players.black?.agentSnapshot &&
+        if (this.seats().every((seat) => this.roomState!.players[seat]?.agentSnapshot) &&
             !this.roomState.gameState) {
           await this.startPvPGame();
         }
@@ -382,7 +966,7 @@ export class GameRoom implements DurableObject {
           type: "response",
           id: parsed.id,
           toolName: "agent.identify",
-          result: { identified: true, name: identity.name, model: identity.model, color: playerColor },
+          result: { identified: true, name: identity.name, model: identity.model, seat: playerSeat },
         };
         this.roomState.commandLog.push(entry);
         this.broadcast("command", entry);
@@ -393,7 +977,7 @@ export class GameRoom implements DurableObject {
           result: {
             content: [{
               type: "text",
-              text: `Identified as ${identity.name} (${identity.model}) playing ${playerColor}`,
+              text: `Identified as ${identity.name} (${identity.model}) playing ${playerSeat}`,
             }],
           },
         });
@@ -454,8 +1038,8 @@ export class GameRoom implements DurableObject {
   private async startPvPGame(): Promise<void> {
     if (!this.roomState || !this.mcpServer) return;
 
-    // Trigger new_game with PvP mode
-    const response = await this.mcpServer.handleMessage(JSON.stringify({
+    // Trigger new_game with PvP mode (starts the clock in timed rooms)
+    const message = JSON.stringify({
       jsonrpc: "2.0",
       id: "pvp-auto-start",
       method: "tools/call",
@@ -463,7 +1047,8 @@ export class GameRoom implements DurableObject {
         name: "new_game",
         arguments: { mode: "pvp" },
       },
-    }));
+    });
+    await this.handleTimedMessage(message, () => this.mcpServer!.handleMessage(message));
 
     // Broadcast the new state
     if (this.roomState.gameState) {
@@ -527,6 +1112,139 @@ export class GameRoom implements DurableObject {
     });
   }
 
+  // PGN export - chess rooms only, headers from the players and room timestamps
+  private handlePgnExport(): Response {
+    if (this.roomState!.gameType !== "chess") {
+      return Response.json({ error: "PGN is only available for chess rooms" }, { status: 400 });
+    }
+    const gameState = this.roomState!.gameState as ChessGameState | null;
+    if (!gameState) {
+      return Response.json({ error: "No game in progress" }, { status: 404 });
+    }
+
+    // The room format keeps the winning color rather than won/lost
+    const pgn = exportPgn(
+      { fen: gameState.fen, pgn: gameState.pgn, status: "playing", playerColor: gameState.playerColor ?? "white" },
+      this.pgnHeaders(gameState)
+    );
+    return new Response(pgn, {
+      headers: {
+        "Content-Type": "application/x-chess-pgn; charset=utf-8",
+        "Content-Disposition": `inline; filename="${this.roomState!.roomId}.pgn"`,
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  }
+
+  // Replay export - the timed game's events (rooms with a chess clock)
+  private handleReplayExport(): Response {
+    const room = this.roomState!;
+    if (!room.replay) {
+      return Response.json({ error: "No timed game recorded in this room" }, { status: 404 });
+    }
+
+    const start = room.replay.events[0] as GameStartEvent;
+    const replay = new ReplayRecorder(room.replay).build({
+      challengeId: room.gameType,
+      gameId: room.roomId,
+      seed: start.payload.seed,
+      options: start.payload.options,
+      result: this.replayResult(),
+    });
+    return Response.json(replay, {
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  }
+
+  private pgnHeaders(gameState: ChessGameState): PgnHeaders {
+    const room = this.roomState!;
+    const label = (snapshot: AgentSnapshot | null | undefined) =>
+      snapshot ? `${snapshot.identity.name} (${snapshot.identity.model})` : "?";
+
+    let white: string;
+    let black: string;
+    if (room.gameMode === "pvp") {
+      white = label(room.players.white?.agentSnapshot);
+      black = label(room.players.black?.agentSnapshot);
+    } else {
+      const ai = `MCP Challenge AI (ELO ${gameState.elo ?? CHESS_DIFFICULTY_ELO[gameState.difficulty]})`;
+      const agent = label(room.agentSnapshot);
+      white = gameState.playerColor === "white" ? agent : ai;
+      black = gameState.playerColor === "white" ? ai : agent;
+    }
+
+    // lastActivity is bumped by every request, so the end time comes from the log
+    const start = pgnDateTime(room.createdAt);
+    const lastCommand = room.commandLog[room.commandLog.length - 1];
+    const end = gameState.status !== "playing" && lastCommand ? pgnDateTime(lastCommand.timestamp) : null;
+
+    const result = gameState.result === "white" ? "1-0"
+      : gameState.result === "black" ? "0-1"
+      : gameState.result === "draw" ? "1/2-1/2"
+      : "*";
+
+    return {
+      Date: start.date,
+      White: white,
+      Black: black,
+      UTCDate: start.date,
+      UTCTime: start.time,
+      Result: result,
+      ...(end && { EndDate: end.date, EndTime: end.time }),
+    };
+  }
+
+  // PGN import - starts a new game from the posted PGN (not while one is running)
+  private async handlePgnImport(request: Request, spectator: boolean): Promise<Response> {
+    if (spectator) {
+      return Response.json({ error: "Spectators cannot start games" }, { status: 403 });
+    }
+    if (this.roomState!.gameType !== "chess") {
+      return Response.json({ error: "PGN is only available for chess rooms" }, { status: 400 });
+    }
+    if (this.roomState!.gameMode === "pvp") {
+      return Response.json({ error: "PGN import is only available in AI rooms" }, { status: 400 });
+    }
+    if (this.roomState!.gameState?.status === "playing") {
+      return Response.json({ error: "A game is in progress" }, { status: 409 });
+    }
+
+    const pgn = await request.text();
+    if (!this.mcpServer) {
+      this.createMCPServer();
+    }
+
+    const response = await this.mcpServer!.handleMessage(JSON.stringify({
+      jsonrpc: "2.0",
+      id: "pgn-import",
+      method: "tools/call",
+      params: {
+        name: "new_game",
+        arguments: { pgn },
+      },
+    }));
+
+    const { result, error } = JSON.parse(response) as {
+      result?: { isError?: boolean; content?: Array<{ text?: string }> };
+      error?: { message: string };
+    };
+    if (error || result?.isError) {
+      return Response.json(
+        { error: error?.message ?? result?.content?.[0]?.text ?? "Import failed" },
+        { status: 400, headers: { "Access-Control-Allow-Origin": "*" } }
+      );
+    }
+
+    await this.state.storage.put("roomState", this.roomState);
+    return Response.json(this.getPublicState(), {
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  }
+
   // WebSocket upgrade handler
   private handleWebSocket(request: Request): Response {
     const upgradeHeader = request.headers.get("Upgrade");
@@ -538,8 +1256,18 @@ export class GameRoom implements DurableObject {
     const pair = new WebSocketPair();
     const [client, server] = Object.values(pair);
 
-    // Accept the WebSocket connection (enables hibernation)
-    this.state.acceptWebSocket(server);
+    // Accept the WebSocket connection (enables hibernation); the tags
+    // survive hibernation, so spectators stay read-only (and keep their slot
+    // while connected) and PvP players keep their seat
+    const params = new URL(request.url).searchParams;
+    const playerNonce = params.get("player");
+    const spectatorToken = params.get("spectator");
+    this.state.acceptWebSocket(
+      server,
+      spectatorToken !== null
+        ? ["spectator", `spectator:${spectatorToken}`]
+        : playerNonce ? [`player:${playerNonce}`] : []
+    );
     this.wsClients.add(server);
 
     // Send initial state
@@ -577,11 +1305,6 @@ export class GameRoom implements DurableObject {
       return;
     }
 
-    // Ensure MCP server is created
-    if (!this.mcpServer) {
-      this.createMCPServer();
-    }
-
     // Update activity
     this.roomState.lastActivity = Date.now();
     await this.state.storage.put("roomState", this.roomState);
@@ -589,19 +1312,10 @@ export class GameRoom implements DurableObject {
     // Handle MCP message
     const messageStr = typeof message === "string" ? message : new TextDecoder().decode(message);
 
-    // Intercept agent.identify at room level
-    const intercepted = await this.interceptAgentIdentify(messageStr);
-    if (intercepted) {
-      ws.send(intercepted);
-      return;
-    }
-
-    const response = await this.mcpServer!.handleMessage(messageStr);
-
-    // Save state
-    await this.state.storage.put("roomState", this.roomState);
-
-    // Send response back via WebSocket
+    // Same path as POST /mcp: spectators read only, players are known by their tag
+    const tags = this.state.getTags(ws);
+    const playerNonce = tags.find((tag) => tag.startsWith("player:"))?.slice("player:".length);
+    const response = await this.processMessage(messageStr, playerNonce, undefined, tags.includes("spectator"));
     if (response) {
       ws.send(response);
     }
@@ -610,6 +1324,15 @@ export class GameRoom implements DurableObject {
   // WebSocket close handler
   async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
     this.wsClients.delete(ws);
+
+    // A spectator hanging up gives up its slot
+    const spectatorTag = this.state.getTags(ws).find((tag) => tag.startsWith("spectator:"));
+    if (spectatorTag) {
+      if (!this.roomState) {
+        this.roomState = await this.state.storage.get("roomState") ?? null;
+      }
+      await this.releaseSpectator(spectatorTag.slice("spectator:".length));
+    }
   }
 
   // WebSocket error handler
@@ -628,11 +1351,20 @@ export class GameRoom implements DurableObject {
       sessionNonce: this.roomState.sessionNonce,
       gameMode: this.roomState.gameMode,
       agentIdentity: this.roomState.agentSnapshot?.identity ?? null,
-      // PvP mode: both players
-      players: {
-        white: this.roomState.players.white?.agentSnapshot?.identity ?? null,
-        black: this.roomState.players.black?.agentSnapshot?.identity ?? null,
-      },
+      // PvP mode: both players by seat, and whose seat is up
+      players: this.publicPlayers(),
+      seats: this.seats(),
+      turnSeat: this.roomState.gameMode === "pvp" && !this.roomState.realtime
+        ? getTurnSeat(this.roomState.gameType, this.roomState.gameState)
+        : null,
+      // PvP mode: the seat that won once the game is over ("draw" for a draw)
+      winnerSeat: this.roomState.gameMode === "pvp"
+        ? getWinnerSeat(this.roomState.gameType, this.roomState.gameState)
+        : null,
+      // Spectators still connected (see expireSpectators)
+      spectatorCount: this.roomState.spectators?.length ?? 0,
+      clock: this.roomState.clock ? clockSnapshot(this.roomState.clock, Date.now()) : null,
+      realtime: this.roomState.realtime ? tickSnapshot(this.roomState.realtime, Date.now()) : null,
       gameState: this.roomState.gameState,
       commandCount: this.roomState.commandLog.length,
       createdAt: this.roomState.createdAt,
@@ -671,7 +1403,20 @@ export class GameRoom implements DurableObject {
     const now = Date.now();
     const timeSinceActivity = now - this.roomState.lastActivity;
 
-    if (timeSinceActivity >= ROOM_TTL) {
+    // Flag-fall ends the game even when nobody is polling the room
+    const clock = this.roomState.clock;
+    const flagged = clock && !clock.flagged ? checkFlag(clock, now) : null;
+    if (flagged) {
+      await this.handleFlagFall(flagged);
+    }
+
+    // Real-time rooms tick on the alarm
+    const loop = this.roomState.realtime;
+    if (loop && isTickDue(loop, now)) {
+      await this.runTick(now);
+    }
+
+    if (timeSinceActivity >= ROOM_TTL && !this.roomState.clock?.running && !this.roomState.realtime?.nextTickAt) {
       // Room expired, clean up
       await this.state.storage.deleteAll();
       this.roomState = null;
@@ -691,11 +1436,30 @@ export class GameRoom implements DurableObject {
         }
       }
       this.wsClients.clear();
+
+      // Close all Streamable HTTP streams
+      this.transport.close();
     } else {
+      // Drop Streamable HTTP sessions and spectators whose clients went away
+      await this.transport.expireIdleSessions(now);
+      if (this.expireSpectators(now)) {
+        await this.state.storage.put("roomState", this.roomState);
+      }
+
       // Schedule next check
-      await this.state.storage.setAlarm(
-        now + (ROOM_TTL - timeSinceActivity)
-      );
+      await this.scheduleAlarm();
     }
   }
 }
+
+// The id, tool name and arguments of a tools/call message
+function parseToolCall(message: string): { id: string | number; name: string; arguments: Record<string, unknown> } | null {
+  try {
+    const parsed = JSON.parse(message);
+    return parsed.method === "tools/call" && typeof parsed.params?.name === "string"
+      ? { id: parsed.id, name: parsed.params.name, arguments: parsed.params.arguments ?? {} }
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -297,6 +297,9 @@ export function FractalsClientPage() {
                       <div><span className="text-green-400">→</span> add_rule(symbol: &quot;F&quot;, replacement: &quot;FF&quot;, probability: 0.3)</div>
                       <div><span className="text-green-400">→</span> set_parameters(angle: 25, iterations: 5)</div>
                       <div><span className="text-green-400">→</span> render(colorScheme: &quot;forest&quot;)</div>
+                      <div className="text-zinc-500 mt-3"># Parametric growth that stops by itself</div>
+                      <div><span className="text-green-400">→</span> set_axiom(axiom: &quot;F(80)&quot;)</div>
+                      <div><span className="text-green-400">→</span> add_rule(rule: &quot;F(l) : l&gt;4 -&gt; F(l*0.5)[+F(l*0.7)][-F(l*0.6)]&quot;)</div>
                       <div className="text-zinc-500 mt-3"># Explore dragon curve</div>
                       <div><span className="text-green-400">→</span> new_fractal(preset: &quot;dragon&quot;)</div>
                       <div><span className="text-green-400">→</span> set_parameters(iterations: 14)</div>
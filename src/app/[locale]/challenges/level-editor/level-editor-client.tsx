@@ -0,0 +1,522 @@
+"use client";
+
+import { useState, useMemo, useRef, type ChangeEvent, type MouseEvent } from "react";
+import { Download, Upload, CheckCircle2, XCircle, AlertTriangle, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  LEVEL_FORMAT,
+  LEVEL_FORMAT_VERSION,
+  POLYBRIDGE_LEVELS,
+  serializeLevelFile,
+  validateLevelFile,
+  type CustomLevelFile,
+  type CustomLevelGame,
+  type LevelValidation,
+  type PolyBridgeLevelFile,
+} from "@mcpchallenge/game-engines";
+
+type BridgeLevel = PolyBridgeLevelFile["level"];
+
+interface PaletteEntry {
+  symbol: string;
+  label: string;
+  className: string;
+  /** Only one cell may hold this symbol */
+  unique?: boolean;
+}
+
+const GAMES: { id: CustomLevelGame; label: string }[] = [
+  { id: "sokoban", label: "Sokoban" },
+  { id: "pathfinding", label: "Pathfinding" },
+  { id: "polybridge", label: "Poly Bridge" },
+];
+
+const SOKOBAN_PALETTE: PaletteEntry[] = [
+  { symbol: "#", label: "Wall", className: "bg-zinc-700" },
+  { symbol: " ", label: "Floor", className: "bg-amber-50 dark:bg-zinc-800" },
+  { symbol: ".", label: "Goal", className: "bg-emerald-200 dark:bg-emerald-900" },
+  { symbol: "$", label: "Box", className: "bg-amber-500" },
+  { symbol: "*", label: "Box on goal", className: "bg-emerald-500" },
+  { symbol: "@", label: "Player", className: "bg-blue-500", unique: true },
+  { symbol: "+", label: "Player on goal", className: "bg-blue-300", unique: true },
+];
+
+const PATHFINDING_PALETTE: PaletteEntry[] = [
+  { symbol: ".", label: "Empty", className: "bg-white dark:bg-zinc-800" },
+  { symbol: "#", label: "Wall", className: "bg-zinc-700" },
+  { symbol: "~", label: "Water", className: "bg-sky-300" },
+  { symbol: "≈", label: "Deep water", className: "bg-sky-600" },
+  { symbol: "S", label: "Start", className: "bg-emerald-500", unique: true },
+  { symbol: "G", label: "Goal", className: "bg-red-500", unique: true },
+];
+
+const SOKOBAN_TEMPLATE = [
+  "#######",
+  "#     #",
+  "# $ . #",
+  "#  @  #",
+  "#######",
+];
+
+const PATHFINDING_TEMPLATE = [
+  "..........",
+  ".S........",
+  "....#.....",
+  "....#.....",
+  "....#...G.",
+  "..........",
+];
+
+// Start from the first built-in level
+const BRIDGE_TEMPLATE: BridgeLevel = {
+  terrain: POLYBRIDGE_LEVELS[0].terrain,
+  anchors: POLYBRIDGE_LEVELS[0].anchors,
+  vehicleStart: POLYBRIDGE_LEVELS[0].vehicleStart,
+  vehicleEnd: POLYBRIDGE_LEVELS[0].vehicleEnd,
+  budget: POLYBRIDGE_LEVELS[0].budget,
+  vehicleWeight: POLYBRIDGE_LEVELS[0].vehicleWeight,
+  width: POLYBRIDGE_LEVELS[0].width,
+  height: POLYBRIDGE_LEVELS[0].height,
+};
+
+/** Poly Bridge anchors snap to the build grid */
+const BRIDGE_GRID = 10;
+const MAX_GRID_SIZE = 50;
+
+// Which symbols a unique symbol is replaced with when placed elsewhere
+const SOKOBAN_CLEAR: Record<string, string> = { "@": " ", "+": "." };
+const PATHFINDING_CLEAR: Record<string, string> = { S: ".", G: "." };
+
+function resizeMap(map: string[], rows: number, cols: number, fill: string): string[] {
+  return Array.from({ length: rows }, (_, r) => {
+    const row = [...(map[r] ?? "")].slice(0, cols);
+    return row.join("") + fill.repeat(cols - row.length);
+  });
+}
+
+function paintCell(map: string[], row: number, col: number, entry: PaletteEntry, palette: PaletteEntry[]): string[] {
+  const clear = palette === SOKOBAN_PALETTE ? SOKOBAN_CLEAR : PATHFINDING_CLEAR;
+  const uniques = palette.filter((p) => p.unique).map((p) => p.symbol);
+  const sameKind = palette === SOKOBAN_PALETTE ? uniques : [entry.symbol];
+
+  return map.map((line, r) =>
+    [...line]
+      .map((cell, c) => {
+        if (r === row && c === col) return entry.symbol;
+        if (entry.unique && sameKind.includes(cell)) return clear[cell];
+        return cell;
+      })
+      .join("")
+  );
+}
+
+function download(filename: string, contents: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function LevelEditorClientPage() {
+  const [game, setGame] = useState<CustomLevelGame>("sokoban");
+  const [name, setName] = useState("My Level");
+  const [description, setDescription] = useState("");
+  const [author, setAuthor] = useState("");
+
+  const [sokobanMap, setSokobanMap] = useState<string[]>(SOKOBAN_TEMPLATE);
+  const [pathMap, setPathMap] = useState<string[]>(PATHFINDING_TEMPLATE);
+  const [pathDifficulty, setPathDifficulty] = useState<"easy" | "medium" | "hard">("easy");
+  const [bridge, setBridge] = useState<BridgeLevel>(BRIDGE_TEMPLATE);
+  const [terrainText, setTerrainText] = useState(JSON.stringify(BRIDGE_TEMPLATE.terrain));
+
+  const [selected, setSelected] = useState(0);
+  const [validation, setValidation] = useState<LevelValidation | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const palette = game === "sokoban" ? SOKOBAN_PALETTE : PATHFINDING_PALETTE;
+  const map = game === "sokoban" ? sokobanMap : pathMap;
+  const setMap = game === "sokoban" ? setSokobanMap : setPathMap;
+  // New and padded cells start out as floor / empty
+  const fill = game === "sokoban" ? " " : ".";
+  const cols = Math.max(0, ...map.map((row) => [...row].length));
+
+  const levelFile = useMemo((): CustomLevelFile => {
+    const header = {
+      format: LEVEL_FORMAT,
+      version: LEVEL_FORMAT_VERSION,
+      name,
+      ...(description && { description }),
+      ...(author && { author }),
+    } as const;
+
+    switch (game) {
+      case "sokoban":
+        return { ...header, game, level: { map: sokobanMap } };
+      case "pathfinding":
+        return { ...header, game, level: { map: pathMap, difficulty: pathDifficulty } };
+      case "polybridge":
+        return { ...header, game, level: bridge };
+    }
+  }, [game, name, description, author, sokobanMap, pathMap, pathDifficulty, bridge]);
+
+  const edit = <T,>(apply: (value: T) => void) => (value: T) => {
+    apply(value);
+    setValidation(null);
+  };
+
+  const switchGame = (next: CustomLevelGame) => {
+    setGame(next);
+    setSelected(0);
+    setValidation(null);
+  };
+
+  const handleResize = edit((size: { rows: number; cols: number }) => {
+    const rows = Math.min(MAX_GRID_SIZE, Math.max(1, size.rows));
+    const width = Math.min(MAX_GRID_SIZE, Math.max(1, size.cols));
+    setMap(resizeMap(map, rows, width, fill));
+  });
+
+  const handlePaint = edit((cell: { row: number; col: number }) => {
+    setMap(paintCell(resizeMap(map, map.length, cols, fill), cell.row, cell.col, palette[selected], palette));
+  });
+
+  const handleBridgeField = edit((patch: Partial<BridgeLevel>) => setBridge((current) => ({ ...current, ...patch })));
+
+  const handleTerrain = (text: string) => {
+    setTerrainText(text);
+    try {
+      const terrain = JSON.parse(text);
+      if (Array.isArray(terrain)) handleBridgeField({ terrain });
+    } catch {
+      // Keep the last parseable terrain until the JSON is fixed
+    }
+  };
+
+  const handleAnchorClick = (event: MouseEvent<SVGSVGElement>) => {
+    const svg = event.currentTarget;
+    const box = svg.getBoundingClientRect();
+    const x = Math.round(((event.clientX - box.left) / box.width) * bridge.width / BRIDGE_GRID) * BRIDGE_GRID;
+    const y = Math.round(((event.clientY - box.top) / box.height) * bridge.height / BRIDGE_GRID) * BRIDGE_GRID;
+    const exists = bridge.anchors.some((a) => a.x === x && a.y === y);
+    handleBridgeField({
+      anchors: exists
+        ? bridge.anchors.filter((a) => a.x !== x || a.y !== y)
+        : [...bridge.anchors, { x, y }],
+    });
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let data: CustomLevelFile;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setImportError("File is not valid JSON");
+      return;
+    }
+
+    const result = validateLevelFile(data);
+    if (!GAMES.some((g) => g.id === data?.game) || !data.level) {
+      setImportError(result.errors.join("; ") || "Not a level file");
+      return;
+    }
+
+    setImportError(null);
+    setGame(data.game);
+    setSelected(0);
+    setName(data.name ?? "");
+    setDescription(data.description ?? "");
+    setAuthor(data.author ?? "");
+    switch (data.game) {
+      case "sokoban":
+        setSokobanMap(data.level.map);
+        break;
+      case "pathfinding":
+        setPathMap(data.level.map);
+        setPathDifficulty(data.level.difficulty ?? "easy");
+        break;
+      case "polybridge":
+        setBridge(data.level);
+        setTerrainText(JSON.stringify(data.level.terrain));
+        break;
+    }
+    setValidation(result);
+  };
+
+  const handleReset = () => {
+    setSokobanMap(SOKOBAN_TEMPLATE);
+    setPathMap(PATHFINDING_TEMPLATE);
+    setBridge(BRIDGE_TEMPLATE);
+    setTerrainText(JSON.stringify(BRIDGE_TEMPLATE.terrain));
+    setValidation(null);
+  };
+
+  const handleExport = () => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "level";
+    download(`${game}-${slug}.json`, serializeLevelFile(levelFile));
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">Level Editor</h1>
+          <p className="text-zinc-600 dark:text-zinc-400 mt-1">
+            Author custom levels, check that they can be solved, and export them as level files.
+            Load a file into a game over MCP with the <code className="font-mono">load_custom_level</code> tool.
+          </p>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Level details */}
+          <Card className="lg:w-80 p-4 gap-4 bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800">
+            <div className="space-y-2">
+              <Label>Game</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {GAMES.map(({ id, label }) => (
+                  <Button
+                    key={id}
+                    size="sm"
+                    variant={game === id ? "default" : "outline"}
+                    onClick={() => switchGame(id)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="level-name">Name</Label>
+              <Input id="level-name" value={name} maxLength={60} onChange={(e) => edit(setName)(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="level-description">Description</Label>
+              <Textarea
+                id="level-description"
+                rows={2}
+                value={description}
+                onChange={(e) => edit(setDescription)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="level-author">Author</Label>
+              <Input id="level-author" value={author} onChange={(e) => edit(setAuthor)(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                <Upload /> Import
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExport}>
+                <Download /> Export
+              </Button>
+              <Button size="sm" onClick={() => setValidation(validateLevelFile(levelFile))}>
+                <CheckCircle2 /> Validate
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleReset}>
+                <RotateCcw /> Reset
+              </Button>
+            </div>
+            <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+
+            {importError && <p className="text-sm text-red-600 dark:text-red-400">{importError}</p>}
+
+            {validation && (
+              <div className="space-y-2 text-sm">
+                <Badge variant={validation.valid ? "default" : "destructive"}>
+                  {validation.valid ? "Valid level" : "Invalid level"}
+                </Badge>
+                {validation.errors.map((error) => (
+                  <p key={error} className="flex gap-2 text-red-600 dark:text-red-400">
+                    <XCircle className="h-4 w-4 shrink-0 mt-0.5" /> {error}
+                  </p>
+                ))}
+                {validation.warnings.map((warning) => (
+                  <p key={warning} className="flex gap-2 text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" /> {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Level canvas */}
+          <Card className="flex-1 p-4 gap-4 bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800">
+            {game === "polybridge" ? (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {(["width", "height", "budget", "vehicleWeight"] as const).map((field) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`bridge-${field}`}>{field === "vehicleWeight" ? "Vehicle weight" : field[0].toUpperCase() + field.slice(1)}</Label>
+                      <Input
+                        id={`bridge-${field}`}
+                        type="number"
+                        step={field === "vehicleWeight" ? 0.1 : 10}
+                        value={bridge[field]}
+                        onChange={(e) => handleBridgeField({ [field]: Number(e.target.value) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Click to add or remove an anchor (snapped to the {BRIDGE_GRID}px grid). The vehicle drives from the green to the red marker.
+                </p>
+                <svg
+                  viewBox={`0 0 ${bridge.width} ${bridge.height}`}
+                  className="w-full rounded-md border border-zinc-200 dark:border-zinc-800 bg-sky-50 dark:bg-zinc-950 cursor-crosshair"
+                  onClick={handleAnchorClick}
+                >
+                  <polygon
+                    points={bridge.terrain.map((p) => `${p.x},${p.y}`).join(" ")}
+                    className="fill-amber-700/70"
+                  />
+                  {bridge.anchors.map((a) => (
+                    <circle key={`${a.x},${a.y}`} cx={a.x} cy={a.y} r={6} className="fill-red-500 stroke-white" strokeWidth={2} />
+                  ))}
+                  <circle cx={bridge.vehicleStart.x} cy={bridge.vehicleStart.y} r={8} className="fill-emerald-500" />
+                  <circle cx={bridge.vehicleEnd.x} cy={bridge.vehicleEnd.y} r={8} className="fill-red-600" />
+                </svg>
+
+                <div className="grid grid-cols-2 gap-3">
+                  {(["vehicleStart", "vehicleEnd"] as const).map((field) => (
+                    <div key={field} className="space-y-2">
+                      <Label>{field === "vehicleStart" ? "Vehicle start (x, y)" : "Vehicle end (x, y)"}</Label>
+                      <div className="flex gap-2">
+                        {(["x", "y"] as const).map((axis) => (
+                          <Input
+                            key={axis}
+                            type="number"
+                            value={bridge[field][axis]}
+                            onChange={(e) =>
+                              handleBridgeField({ [field]: { ...bridge[field], [axis]: Number(e.target.value) } })
+                            }
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bridge-terrain">Terrain polygon (JSON list of points)</Label>
+                  <Textarea
+                    id="bridge-terrain"
+                    rows={4}
+                    className="font-mono text-xs"
+                    value={terrainText}
+                    onChange={(e) => handleTerrain(e.target.value)}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="grid-rows">Rows</Label>
+                    <Input
+                      id="grid-rows"
+                      type="number"
+                      className="w-20"
+                      min={1}
+                      max={MAX_GRID_SIZE}
+                      value={map.length}
+                      onChange={(e) => handleResize({ rows: Number(e.target.value), cols })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="grid-cols">Columns</Label>
+                    <Input
+                      id="grid-cols"
+                      type="number"
+                      className="w-20"
+                      min={1}
+                      max={MAX_GRID_SIZE}
+                      value={cols}
+                      onChange={(e) => handleResize({ rows: map.length, cols: Number(e.target.value) })}
+                    />
+                  </div>
+                  {game === "pathfinding" && (
+                    <div className="flex gap-1">
+                      {(["easy", "medium", "hard"] as const).map((d) => (
+                        <Button
+                          key={d}
+                          size="sm"
+                          variant={pathDifficulty === d ? "default" : "outline"}
+                          onClick={() => edit(setPathDifficulty)(d)}
+                        >
+                          {d}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {palette.map((entry, i) => (
+                    <button
+                      key={entry.symbol}
+                      onClick={() => setSelected(i)}
+                      className={cn(
+                        "flex items-center gap-2 rounded-md border px-2 py-1 text-xs",
+                        selected === i
+                          ? "border-blue-500 ring-2 ring-blue-500/30"
+                          : "border-zinc-200 dark:border-zinc-700"
+                      )}
+                    >
+                      <span className={cn("h-4 w-4 rounded-sm border border-zinc-300", entry.className)} />
+                      {entry.label}
+                      <code className="text-zinc-400">{JSON.stringify(entry.symbol)}</code>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="overflow-auto">
+                  <div
+                    className="inline-grid gap-px bg-zinc-300 dark:bg-zinc-700 p-px"
+                    style={{ gridTemplateColumns: `repeat(${cols}, 1.75rem)` }}
+                  >
+                    {map.flatMap((line, row) =>
+                      Array.from({ length: cols }, (_, col) => {
+                        const symbol = [...line][col] ?? fill;
+                        const entry = palette.find((p) => p.symbol === symbol);
+                        return (
+                          <button
+                            key={`${row}-${col}`}
+                            aria-label={`Row ${row + 1}, column ${col + 1}: ${entry?.label ?? symbol}`}
+                            onClick={() => handlePaint({ row, col })}
+                            className={cn("h-7 w-7", entry?.className ?? "bg-white")}
+                          />
+                        );
+                      })
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Level file</Label>
+              <pre className="max-h-64 overflow-auto rounded-md bg-zinc-100 dark:bg-zinc-950 p-3 text-xs font-mono">
+                {serializeLevelFile(levelFile)}
+              </pre>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
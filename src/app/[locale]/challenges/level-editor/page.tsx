@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+import { LevelEditorClientPage } from "./level-editor-client";
+
+export const runtime = "edge";
+
+const BASE_URL = "https://mcpchallenge.org";
+
+export const metadata: Metadata = {
+  title: "Level Editor",
+  description: "Author custom Sokoban, Pathfinding and Poly Bridge levels, validate them and export them as level files.",
+  openGraph: {
+    title: "🛠️ Level Editor - MCP Challenge",
+    description: "Author custom Sokoban, Pathfinding and Poly Bridge levels, validate them and export them as level files.",
+    url: `${BASE_URL}/challenges/level-editor`,
+    siteName: "MCP Challenge",
+    type: "website",
+  },
+};
+
+export default function LevelEditorPage() {
+  return <LevelEditorClientPage />;
+}
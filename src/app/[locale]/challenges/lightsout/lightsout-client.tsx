@@ -9,6 +9,7 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Lightbulb, Terminal, Info, Zap } from "lucide-react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
 import { useGameCompletion } from "@/hooks/use-game-completion";
 import { AchievementToast } from "@/components/achievements/achievement-toast";
 import { LightsOutGame } from "@/components/games/lights-out";
@@ -41,8 +42,9 @@ export function LightsOutClientPage() {
   const { submitCompletion } = useGameCompletion("lightsout");
 
   const handleGameComplete = useCallback(
-    async (state: { toggleCount: number; efficiency: number }) => {
+    async (state: { toggleCount: number; efficiency: number; replay?: GameReplay }) => {
       const response = await submitCompletion({
+        replay: state.replay,
         winner: "player",
         moves: state.toggleCount,
       });
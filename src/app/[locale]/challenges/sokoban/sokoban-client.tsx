@@ -9,6 +9,7 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Terminal, Info, BookOpen, Cpu } from "lucide-react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
 import { SokobanGame } from "@/components/games/sokoban";
 import { LiveGameBoard } from "@/components/mcp/live-game-board";
 import { useGameCompletion } from "@/hooks/use-game-completion";
@@ -34,9 +35,10 @@ export function SokobanClientPage() {
   const { submitCompletion } = useGameCompletion("sokoban");
 
   const handleGameComplete = useCallback(
-    async (result: { won: boolean; level: number; moves: number; pushes: number }) => {
+    async (result: { won: boolean; level: number; moves: number; pushes: number; replay?: GameReplay }) => {
       if (result.won) {
         const response = await submitCompletion({
+          replay: result.replay,
           winner: "player",
           moves: result.moves,
         });
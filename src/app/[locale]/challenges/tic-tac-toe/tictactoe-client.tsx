@@ -10,6 +10,7 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Bug, Terminal, Info, BookOpen, Cpu } from "lucide-react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
 import { TicTacToe } from "@/components/games/tic-tac-toe";
 import { ChallengeHeader, ChallengeSnippets } from "@/components/challenges";
 import { LiveGameBoard } from "@/components/mcp/live-game-board";
@@ -67,8 +68,9 @@ export function TicTacToeClientPage() {
   }, []);
 
   const handleGameComplete = useCallback(
-    async (result: { winner: "player" | "ai" | "draw"; moves: number }) => {
+    async (result: { winner: "player" | "ai" | "draw"; moves: number; replay?: GameReplay }) => {
       const response = await submitCompletion({
+        replay: result.replay,
         winner: result.winner,
         moves: result.moves,
       });
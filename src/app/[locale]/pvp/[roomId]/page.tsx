@@ -36,7 +36,7 @@ interface Achievement {
 interface RoomInfo {
   matchId: string;
   roomId: string;
-  gameType: "chess" | "tic-tac-toe";
+  gameType: "chess" | "tic-tac-toe" | "snake" | "gorillas";
   result: string;
   hasWhite: boolean;
   hasBlack: boolean;
@@ -50,6 +50,8 @@ interface JoinResult {
   roomId: string;
   gameType: string;
   color: "white" | "black";
+  /** Seat in the game room (white/black, X/O, snake1/snake2, ...) */
+  seat: string;
   playerNonce: string;
   sessionNonce: string;
   isReconnect?: boolean;
@@ -58,11 +60,15 @@ interface JoinResult {
 const GAME_ICONS: Record<string, string> = {
   chess: "♟️",
   "tic-tac-toe": "⭕",
+  snake: "🐍",
+  gorillas: "🦍",
 };
 
 const GAME_NAMES: Record<string, string> = {
   chess: "Chess",
   "tic-tac-toe": "Tic-Tac-Toe",
+  snake: "Snake Duel",
+  gorillas: "Gorillas",
 };
 
 interface PageProps {
@@ -327,7 +333,7 @@ export default function PvPRoomPage({ params }: PageProps) {
                   </h3>
                 </div>
                 <p className="text-sm text-green-600 dark:text-green-400">
-                  You are playing as <strong>{joinResult.color}</strong>
+                  You are playing as <strong>{joinResult.seat ?? joinResult.color}</strong>
                 </p>
               </Card>
             )}
@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import { PvPLobby } from "@/components/pvp/pvp-lobby";
 import { MatchHistory } from "@/components/pvp/match-history";
 import { PvPStatsCard } from "@/components/pvp/pvp-stats-card";
-import { Swords, ArrowLeft } from "lucide-react";
+import { Swords, ArrowLeft, Trophy } from "lucide-react";
 
 export default function PvPPage() {
   const { data: session, status } = useSession();
@@ -68,6 +68,12 @@ export default function PvPPage() {
               </div>
             </div>
           </div>
+          <Link href="/tournaments">
+            <Button variant="outline" size="sm">
+              <Trophy className="h-4 w-4 mr-2" />
+              Tournaments
+            </Button>
+          </Link>
         </div>
 
         {/* Main content */}
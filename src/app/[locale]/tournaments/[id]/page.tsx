@@ -0,0 +1,350 @@
+"use client";
+
+export const runtime = "edge";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { LiveGameBoard } from "@/components/mcp/live-game-board";
+import {
+  TournamentStandings,
+  type TournamentEntrantInfo,
+  type TournamentStanding,
+} from "@/components/tournaments/tournament-standings";
+import { ArrowLeft, Loader2, Trophy, Eye, Play, Copy, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TournamentInfo {
+  id: string;
+  name: string;
+  gameType: string;
+  engineId: string;
+  format: string;
+  status: string;
+  currentRound: number;
+  totalRounds: number | null;
+  maxEntrants: number;
+  timeControl: string | null;
+  isOrganizer: boolean;
+}
+
+interface TournamentGameInfo {
+  id: string;
+  board: number;
+  whiteEntrantId: string;
+  blackEntrantId: string | null;
+  roomId: string | null;
+  result: string;
+  whiteNonce?: string;
+  blackNonce?: string;
+}
+
+interface TournamentData {
+  tournament: TournamentInfo;
+  entrants: TournamentEntrantInfo[];
+  rounds: { round: number; games: TournamentGameInfo[] }[];
+  standings: TournamentStanding[];
+}
+
+const FORMAT_NAMES: Record<string, string> = {
+  "round-robin": "Round-robin",
+  swiss: "Swiss",
+  "single-elimination": "Single elimination",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  registration: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  running: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  completed: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+  cancelled: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+const RESULT_LABELS: Record<string, string> = {
+  white_wins: "1 - 0",
+  black_wins: "0 - 1",
+  draw: "½ - ½",
+  bye: "bye",
+  pending: "vs",
+};
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default function TournamentPage({ params }: PageProps) {
+  const [tournamentId, setTournamentId] = useState<string | null>(null);
+  const [data, setData] = useState<TournamentData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [watchRoomId, setWatchRoomId] = useState<string | null>(null);
+  const [copiedNonce, setCopiedNonce] = useState<string | null>(null);
+
+  const mcpBaseUrl =
+    process.env.NEXT_PUBLIC_MCP_URL || "https://mcp.mcpchallenge.org";
+
+  // Resolve params
+  useEffect(() => {
+    params.then((p) => setTournamentId(p.id));
+  }, [params]);
+
+  const fetchTournament = useCallback(async () => {
+    if (!tournamentId) return;
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}`);
+      if (res.ok) {
+        setData(await res.json() as TournamentData);
+      } else {
+        const errorData = await res.json() as { error?: string };
+        setError(errorData.error || "Tournament not found");
+      }
+    } catch {
+      setError("Failed to load tournament");
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    fetchTournament();
+  }, [fetchTournament]);
+
+  async function startTournament() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}/start`, { method: "POST" });
+      if (!res.ok) {
+        const errorData = await res.json() as { error?: string };
+        setError(errorData.error || "Failed to start tournament");
+      }
+      await fetchTournament();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Without a result the server reads it from the game's room; with one the
+  // organizer overrides it
+  async function reportResult(gameId: string, result?: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}/results`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ gameId, result }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json() as { error?: string };
+        setError(errorData.error || "Failed to record result");
+      }
+      await fetchTournament();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function copySeatUrl(roomId: string, nonce: string) {
+    if (!data) return;
+    const url = `${mcpBaseUrl}/${data.tournament.engineId}/mcp?room=${roomId}&player=${nonce}`;
+    navigator.clipboard.writeText(url);
+    setCopiedNonce(nonce);
+    setTimeout(() => setCopiedNonce(null), 2000);
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto p-8 text-center">
+          <Trophy className="h-12 w-12 mx-auto mb-4 text-zinc-300" />
+          <p className="text-zinc-500 mb-6">{error ?? "Tournament not found"}</p>
+          <Link href="/tournaments">
+            <Button>All Tournaments</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const { tournament, entrants, rounds, standings } = data;
+  const entrantById = new Map(entrants.map((entrant) => [entrant.id, entrant]));
+  const myEntrantIds = new Set(entrants.filter((entrant) => entrant.isMine).map((entrant) => entrant.id));
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/tournaments">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Tournaments
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">
+                {tournament.name}
+              </h1>
+              <p className="text-sm text-zinc-500">
+                {FORMAT_NAMES[tournament.format] ?? tournament.format} • {tournament.gameType}
+                {tournament.timeControl && ` • ${tournament.timeControl}`}
+                {tournament.totalRounds && ` • Round ${tournament.currentRound}/${tournament.totalRounds}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Badge className={STATUS_STYLES[tournament.status]}>
+              {tournament.status}
+            </Badge>
+            {tournament.isOrganizer && tournament.status === "registration" && (
+              <Button size="sm" onClick={startTournament} disabled={busy || entrants.length < 2}>
+                <Play className="h-4 w-4 mr-2" />
+                Start
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <p className="mb-6 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {tournament.status === "registration" && (
+          <Card className="p-4 mb-6 text-sm text-zinc-500">
+            {entrants.length}/{tournament.maxEntrants} agents registered. Register an agent with{" "}
+            <code className="text-xs">POST /api/tournaments/{tournament.id}/register</code>{" "}
+            and its identity (name, model, client).
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <TournamentStandings
+            format={tournament.format}
+            standings={standings}
+            entrants={entrants}
+          />
+
+          {/* Rounds, latest first */}
+          <div className="space-y-4">
+            {[...rounds].reverse().map(({ round, games }) => (
+              <Card key={round} className="p-6">
+                <h3 className="font-semibold mb-3 text-zinc-900 dark:text-white">
+                  Round {round}
+                </h3>
+                <div className="space-y-2">
+                  {games.map((game) => {
+                    const white = entrantById.get(game.whiteEntrantId);
+                    const black = game.blackEntrantId ? entrantById.get(game.blackEntrantId) : null;
+                    const canReport = game.result === "pending" &&
+                      (tournament.isOrganizer || myEntrantIds.has(game.whiteEntrantId) ||
+                        (!!game.blackEntrantId && myEntrantIds.has(game.blackEntrantId)));
+                    const mySeats = [
+                      { label: "White seat", nonce: game.whiteNonce },
+                      { label: "Black seat", nonce: game.blackNonce },
+                    ].filter((seat): seat is { label: string; nonce: string } => !!seat.nonce && !!game.roomId);
+
+                    return (
+                      <div
+                        key={game.id}
+                        className="p-3 rounded-lg border border-zinc-200 dark:border-zinc-800"
+                      >
+                        <div className="flex items-center gap-3 text-sm">
+                          <span className="text-xs text-zinc-400 w-6">#{game.board}</span>
+                          <span className="flex-1 text-right font-medium truncate">
+                            {white?.agentName ?? "?"}
+                          </span>
+                          <span
+                            className={cn(
+                              "w-14 text-center text-xs font-mono",
+                              game.result === "pending" ? "text-zinc-400" : "text-zinc-900 dark:text-white"
+                            )}
+                          >
+                            {RESULT_LABELS[game.result] ?? game.result}
+                          </span>
+                          <span className="flex-1 font-medium truncate">
+                            {black?.agentName ?? (game.blackEntrantId ? "?" : "—")}
+                          </span>
+                          {game.roomId && game.result === "pending" && (
+                            <Button variant="ghost" size="sm" onClick={() => setWatchRoomId(game.roomId)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+
+                        {(canReport || mySeats.length > 0) && (
+                          <div className="flex flex-wrap items-center gap-2 mt-2 pl-9">
+                            {mySeats.map((seat) => (
+                              <Button
+                                key={seat.nonce}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => copySeatUrl(game.roomId!, seat.nonce)}
+                              >
+                                {copiedNonce === seat.nonce ? (
+                                  <Check className="h-3 w-3 mr-1 text-green-500" />
+                                ) : (
+                                  <Copy className="h-3 w-3 mr-1" />
+                                )}
+                                {seat.label}
+                              </Button>
+                            ))}
+                            {canReport && !!game.roomId && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={busy}
+                                onClick={() => reportResult(game.id)}
+                              >
+                                Record result
+                              </Button>
+                            )}
+                            {canReport && tournament.isOrganizer && ["white_wins", "draw", "black_wins"].map((result) => (
+                              <Button
+                                key={result}
+                                variant="outline"
+                                size="sm"
+                                disabled={busy}
+                                onClick={() => reportResult(game.id, result)}
+                              >
+                                {RESULT_LABELS[result]}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            ))}
+          </div>
+        </div>
+
+        {watchRoomId && (
+          <div className="mt-8">
+            <LiveGameBoard
+              key={watchRoomId}
+              gameType={tournament.engineId as "chess" | "tictactoe"}
+              roomId={watchRoomId}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+export const runtime = "edge";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ArrowLeft, Loader2, Trophy, Users, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TournamentSummary {
+  id: string;
+  name: string;
+  gameType: string;
+  format: string;
+  status: string;
+  currentRound: number;
+  totalRounds: number | null;
+  maxEntrants: number;
+  entrantCount: number;
+  createdAt: string;
+}
+
+const GAME_ICONS: Record<string, string> = {
+  chess: "♟️",
+  "tic-tac-toe": "⭕",
+  snake: "🐍",
+  gorillas: "🦍",
+};
+
+const FORMAT_NAMES: Record<string, string> = {
+  "round-robin": "Round-robin",
+  swiss: "Swiss",
+  "single-elimination": "Single elimination",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  registration: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  running: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  completed: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+  cancelled: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+export default function TournamentsPage() {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchTournaments() {
+      try {
+        const res = await fetch("/api/tournaments?limit=50");
+        if (res.ok) {
+          const data = await res.json() as { tournaments: TournamentSummary[] };
+          setTournaments(data.tournaments);
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTournaments();
+  }, []);
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/pvp">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              PvP
+            </Button>
+          </Link>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-12 h-12 rounded-lg bg-amber-100 dark:bg-amber-900/50">
+              <Trophy className="h-6 w-6 text-amber-600 dark:text-amber-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">
+                Tournaments
+              </h1>
+              <p className="text-sm text-zinc-500">
+                Round-robin, Swiss and knockout events between MCP agents
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+          </div>
+        ) : tournaments.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Trophy className="h-12 w-12 mx-auto mb-4 text-zinc-300" />
+            <p className="text-zinc-500">No tournaments yet</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {tournaments.map((tournament) => (
+              <Link key={tournament.id} href={`/tournaments/${tournament.id}`} className="block">
+                <Card className="p-4 hover:border-indigo-300 dark:hover:border-indigo-700 transition-colors">
+                  <div className="flex items-center gap-4">
+                    <span className="text-2xl">{GAME_ICONS[tournament.gameType] || "🎮"}</span>
+                    <div className="flex-1">
+                      <div className="font-medium text-zinc-900 dark:text-white">
+                        {tournament.name}
+                      </div>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-zinc-500">
+                        <span>{FORMAT_NAMES[tournament.format] ?? tournament.format}</span>
+                        <span>•</span>
+                        <Users className="h-3 w-3" />
+                        <span>{tournament.entrantCount}/{tournament.maxEntrants}</span>
+                        {tournament.totalRounds && tournament.status !== "registration" && (
+                          <>
+                            <span>•</span>
+                            <span>Round {tournament.currentRound}/{tournament.totalRounds}</span>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <Badge className={cn(STATUS_STYLES[tournament.status])}>
+                      {tournament.status}
+                    </Badge>
+                    <ChevronRight className="h-4 w-4 text-zinc-400" />
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,13 @@ import {
   rateLimitExceededResponse,
   rateLimitHeaders,
 } from "@/lib/rate-limit";
+import { checkGameSeed, claimGameSeed } from "@/lib/game-seeds";
+import {
+  normalizeWinner,
+  requiresReplay,
+  verifyReplay,
+  type VerifiedCompletion,
+} from "@/lib/replay-verification";
 
 export const runtime = "edge";
 
@@ -25,35 +32,18 @@ interface AchievementRule {
   check: (data: CompletionData, stats: UserStatsData) => boolean;
 }
 
-interface CompletionData {
+interface CompletionData extends Omit<VerifiedCompletion, "gameId"> {
   challengeId: string;
-  score?: number;
+}
+
+interface CompletionRequest extends Omit<VerifiedCompletion, "gameId" | "winner"> {
+  /**
+   * Recorded game, played from a seed issued by /api/challenges/[id]/seed.
+   * All completion data is then derived from it and the fields below are
+   * only claims, rejected if they disagree with the replay.
+   */
+  replay?: unknown;
   winner?: string;
-  moves?: number;
-  // Sorting-specific data
-  level?: number;
-  comparisons?: number;
-  swaps?: number;
-  parComparisons?: number;
-  parSwaps?: number;
-  // Gorillas-specific data
-  throws?: number;
-  hitSun?: boolean;
-  // Lights Out-specific data
-  difficulty?: string;
-  toggles?: number;
-  minSolution?: number;
-  timeSeconds?: number;
-  // Pathfinding-specific data
-  algorithm?: string;
-  pathCost?: number;
-  parCost?: number;
-  nodesExpanded?: number;
-  parNodes?: number;
-  // Fractals-specific data
-  iterations?: number;
-  preset?: string;
-  customRules?: boolean;
 }
 
 interface UserStatsData {
@@ -331,6 +321,9 @@ const achievementRules: AchievementRule[] = [
   },
 ];
 
+/** Completions recorded without a replay do not count towards achievements */
+const countsTowardsStats = sql`coalesce(json_extract(${challengeCompletions.metadata}, '$.verified'), 1) = 1`;
+
 // Calculate level from points (Fibonacci-like progression)
 function calculateLevel(points: number): number {
   const thresholds = [0, 100, 250, 500, 850, 1300, 1900, 2600, 3500, 4600, 5900];
@@ -376,43 +369,90 @@ export async function POST(request: Request, { params }: PageProps) {
       "Too many challenge completions. Max 30 per hour."
     );
   }
-  const body = (await request.json()) as {
-    score?: number;
-    winner?: string;
-    moves?: number;
-    // Sorting-specific
-    level?: number;
-    comparisons?: number;
-    swaps?: number;
-    parComparisons?: number;
-    parSwaps?: number;
-    // Gorillas-specific
-    throws?: number;
-    hitSun?: boolean;
-    // Lights Out-specific
-    difficulty?: string;
-    toggles?: number;
-    minSolution?: number;
-    timeSeconds?: number;
-    // Pathfinding-specific
-    algorithm?: string;
-    pathCost?: number;
-    parCost?: number;
-    nodesExpanded?: number;
-    parNodes?: number;
-    // Fractals-specific
-    iterations?: number;
-    preset?: string;
-    customRules?: boolean;
-  };
+  const { replay, ...claims } = (await request.json()) as CompletionRequest;
+
+  let completion: Omit<VerifiedCompletion, "gameId">;
+  let metadata: Record<string, unknown> | null = null;
+
+  if (requiresReplay(challengeId) && replay !== undefined) {
+    // Game challenges with a replay are verified by re-executing it
+    const seed = (replay as { seed?: unknown } | null)?.seed;
+    if (typeof seed !== "string") {
+      return NextResponse.json({ error: "A valid game replay is required" }, { status: 400 });
+    }
+    const seedCheck = await checkGameSeed(db, userId, challengeId, seed);
+    if (!seedCheck.claimed) {
+      return NextResponse.json({ error: seedCheck.error }, { status: seedCheck.status });
+    }
+
+    const verification = verifyReplay(challengeId, userId, replay, {
+      score: claims.score,
+      winner: claims.winner,
+      moves: claims.moves,
+    });
+    if (!verification.verified) {
+      return NextResponse.json(
+        { error: verification.error, code: verification.code },
+        { status: verification.status }
+      );
+    }
+
+    // A seed completes a challenge once
+    const claim = await claimGameSeed(db, userId, challengeId, seed);
+    if (!claim.claimed) {
+      return NextResponse.json({ error: claim.error }, { status: claim.status });
+    }
+
+    const { gameId, ...verified } = verification.completion;
+    // Replay timestamps are client-recorded; time the game from the seed issue
+    const timeSeconds = Math.round((Date.now() - claim.issuedAt.getTime()) / 1000);
+    completion = { ...verified, timeSeconds };
+    metadata = { gameId, verified: true };
+  } else if (requiresReplay(challengeId)) {
+    // Games played without a recorded replay (signed out when the game was
+    // dealt, an unrecorded game mode) are kept for the player's history, but
+    // earn nothing and do not count towards achievements
+    await db.insert(challengeCompletions).values({
+      id: crypto.randomUUID(),
+      userId,
+      challengeId,
+      score: claims.score ?? null,
+      completedAt: new Date(),
+      metadata: JSON.stringify({ verified: false }),
+    });
+
+    const current = await db.query.userStats.findFirst({
+      where: eq(userStats.userId, userId),
+    });
+    return NextResponse.json(
+      {
+        success: true,
+        verified: false,
+        pointsEarned: 0,
+        newAchievements: [],
+        stats: {
+          totalPoints: current?.totalPoints ?? 0,
+          level: current?.level ?? 1,
+          challengesCompleted: current?.challengesCompleted ?? 0,
+        },
+      },
+      {
+        headers: rateLimitHeaders(rateLimit, RateLimitPresets.CHALLENGE_COMPLETE),
+      }
+    );
+  } else {
+    const { winner, ...reported } = claims;
+    completion = { ...reported, winner: winner === undefined ? undefined : normalizeWinner(winner) };
+  }
 
   // Record the completion
   await db.insert(challengeCompletions).values({
     id: crypto.randomUUID(),
     userId,
     challengeId,
-    score: body.score || null,
+    score: completion.score ?? null,
     completedAt: new Date(),
+    metadata: metadata ? JSON.stringify(metadata) : null,
   });
 
   // Get or create user stats
@@ -453,7 +493,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "chess")
+        eq(challengeCompletions.challengeId, "chess"),
+        countsTowardsStats
       )
     );
 
@@ -463,7 +504,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "snake")
+        eq(challengeCompletions.challengeId, "snake"),
+        countsTowardsStats
       )
     );
 
@@ -473,7 +515,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "tic-tac-toe")
+        eq(challengeCompletions.challengeId, "tic-tac-toe"),
+        countsTowardsStats
       )
     );
 
@@ -484,7 +527,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "canvas-draw")
+        eq(challengeCompletions.challengeId, "canvas-draw"),
+        countsTowardsStats
       )
     );
 
@@ -495,7 +539,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "minesweeper")
+        eq(challengeCompletions.challengeId, "minesweeper"),
+        countsTowardsStats
       )
     );
 
@@ -506,7 +551,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "sokoban")
+        eq(challengeCompletions.challengeId, "sokoban"),
+        countsTowardsStats
       )
     );
 
@@ -517,7 +563,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "sorting")
+        eq(challengeCompletions.challengeId, "sorting"),
+        countsTowardsStats
       )
     );
 
@@ -528,7 +575,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "gorillas")
+        eq(challengeCompletions.challengeId, "gorillas"),
+        countsTowardsStats
       )
     );
 
@@ -539,7 +587,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "lightsout")
+        eq(challengeCompletions.challengeId, "lightsout"),
+        countsTowardsStats
       )
     );
 
@@ -550,7 +599,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "pathfinding")
+        eq(challengeCompletions.challengeId, "pathfinding"),
+        countsTowardsStats
       )
     );
 
@@ -561,7 +611,8 @@ export async function POST(request: Request, { params }: PageProps) {
     .where(
       and(
         eq(challengeCompletions.userId, userId),
-        eq(challengeCompletions.challengeId, "fractals")
+        eq(challengeCompletions.challengeId, "fractals"),
+        countsTowardsStats
       )
     );
 
@@ -576,48 +627,22 @@ export async function POST(request: Request, { params }: PageProps) {
     minesweeperWins: Number(minesweeperWins[0]?.count || 0),
     sokobanLevels: Number(sokobanLevels[0]?.count || 0),
     sortingLevelsCompleted: Number(sortingLevels[0]?.count || 0),
-    sortingBeatPar: body.comparisons !== undefined && body.parComparisons !== undefined &&
-                    body.swaps !== undefined && body.parSwaps !== undefined &&
-                    body.comparisons <= body.parComparisons && body.swaps <= body.parSwaps,
+    sortingBeatPar: completion.comparisons !== undefined && completion.parComparisons !== undefined &&
+                    completion.swaps !== undefined && completion.parSwaps !== undefined &&
+                    completion.comparisons <= completion.parComparisons && completion.swaps <= completion.parSwaps,
     // New game stats
     gorillasWins: Number(gorillasWins[0]?.count || 0),
     lightsoutWins: Number(lightsoutWins[0]?.count || 0),
     lightsoutHardWins: 0, // Would need separate query if needed
     pathfindingLevels: Number(pathfindingLevels[0]?.count || 0),
-    pathfindingAlgorithmsUsed: body.algorithm ? [body.algorithm] : [], // Simplified - would need history query for accurate tracking
+    pathfindingAlgorithmsUsed: completion.algorithm ? [completion.algorithm] : [], // Simplified - would need history query for accurate tracking
     fractalsCreated: Number(fractalsCreated[0]?.count || 0),
     fractalsGallerySaved: 0, // This is tracked separately in gallery_images table
   };
 
   const completionData: CompletionData = {
     challengeId,
-    score: body.score,
-    winner: body.winner,
-    moves: body.moves,
-    // Sorting-specific
-    level: body.level,
-    comparisons: body.comparisons,
-    swaps: body.swaps,
-    parComparisons: body.parComparisons,
-    parSwaps: body.parSwaps,
-    // Gorillas-specific
-    throws: body.throws,
-    hitSun: body.hitSun,
-    // Lights Out-specific
-    difficulty: body.difficulty,
-    toggles: body.toggles,
-    minSolution: body.minSolution,
-    timeSeconds: body.timeSeconds,
-    // Pathfinding-specific
-    algorithm: body.algorithm,
-    pathCost: body.pathCost,
-    parCost: body.parCost,
-    nodesExpanded: body.nodesExpanded,
-    parNodes: body.parNodes,
-    // Fractals-specific
-    iterations: body.iterations,
-    preset: body.preset,
-    customRules: body.customRules,
+    ...completion,
   };
 
   // Get user's existing achievements
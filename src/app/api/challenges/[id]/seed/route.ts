@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { issueGameSeed } from "@/lib/game-seeds";
+import { requiresReplay } from "@/lib/replay-verification";
+
+export const runtime = "edge";
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/challenges/[id]/seed
+ * Issue the seed for a game whose replay will be submitted for completion
+ */
+export async function POST(request: Request, { params }: PageProps) {
+  const { id: challengeId } = await params;
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!requiresReplay(challengeId)) {
+    return NextResponse.json(
+      { error: `Challenge ${challengeId} has no game engine` },
+      { status: 400 }
+    );
+  }
+
+  const seed = await issueGameSeed(db, session.user.id, challengeId);
+  return NextResponse.json({ seed });
+}
@@ -69,6 +69,11 @@ export async function GET(request: Request, { params }: RouteParams) {
   headers.set("Content-Type", image.mimeType);
   headers.set("Cache-Control", "public, max-age=31536000, immutable");
   headers.set("Content-Length", String(object.size));
+  if (image.mimeType === "image/svg+xml") {
+    // Opened directly, an SVG is a document: never let it run anything
+    headers.set("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+    headers.set("X-Content-Type-Options", "nosniff");
+  }
 
   return new Response(object.body, { headers });
 }
@@ -31,6 +31,33 @@ async function sha256(data: ArrayBuffer): Promise<string> {
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
+// Accepted image formats (SVG is vector output from the fractals engine)
+const IMAGE_FORMATS = {
+  png: { mimeType: "image/png", maxSize: 500 * 1024 },
+  svg: { mimeType: "image/svg+xml", maxSize: 2 * 1024 * 1024 },
+} as const;
+
+// Anything in an SVG that could run script or load other content
+const UNSAFE_SVG = /<script|<foreignObject|<iframe|<embed|<object|\son[a-z]+\s*=|javascript:|(?:xlink:)?href\s*=\s*(?!["']?#)|@import|url\(\s*(?!["']?#)/i;
+
+/**
+ * Check an uploaded SVG and read its size; null if it is not a plain,
+ * self-contained SVG document
+ */
+function parseSvg(data: ArrayBuffer): { width: number; height: number } | null {
+  const text = new TextDecoder().decode(data);
+  const root = text.match(/^\s*(?:<\?xml[^>]*\?>\s*)?<svg\b([^>]*)>/i);
+  if (!root || UNSAFE_SVG.test(text) || /<!DOCTYPE|<!ENTITY/i.test(text)) {
+    return null;
+  }
+
+  const attribute = (name: string) => {
+    const match = root[1].match(new RegExp(`\\s${name}\\s*=\\s*["']?(\\d+(?:\\.\\d+)?)`));
+    return match ? Math.round(Number(match[1])) : 512;
+  };
+  return { width: attribute("width"), height: attribute("height") };
+}
+
 /**
  * POST /api/gallery/upload
  * Upload an image to the gallery
@@ -85,15 +112,17 @@ export async function POST(request: Request) {
   }
 
   // Validate base64 format
-  const base64Match = imageData.match(/^data:image\/png;base64,(.+)$/);
+  const base64Match = imageData.match(/^data:image\/(png|svg\+xml);base64,(.+)$/);
   if (!base64Match) {
     return NextResponse.json(
-      { error: "Invalid image format. Must be base64 PNG" },
+      { error: "Invalid image format. Must be base64 PNG or SVG" },
       { status: 400 }
     );
   }
 
-  const base64Data = base64Match[1];
+  const extension = base64Match[1] === "png" ? "png" : "svg";
+  const format = IMAGE_FORMATS[extension];
+  const base64Data = base64Match[2];
 
   // Decode base64 to ArrayBuffer
   let imageBuffer: ArrayBuffer;
@@ -111,18 +140,30 @@ export async function POST(request: Request) {
     );
   }
 
-  // Check file size (max 500KB)
-  const maxSize = 500 * 1024;
-  if (imageBuffer.byteLength > maxSize) {
+  // Check file size (max 500KB for PNG, 2MB for SVG)
+  if (imageBuffer.byteLength > format.maxSize) {
     return NextResponse.json(
-      { error: `Image too large. Maximum size is 500KB` },
+      { error: `Image too large. Maximum size is ${format.maxSize / 1024}KB` },
       { status: 400 }
     );
   }
 
+  // SVGs must be self-contained drawings (no scripts or external content)
+  let size = { width: 512, height: 512 }; // Default canvas size
+  if (extension === "svg") {
+    const svgSize = parseSvg(imageBuffer);
+    if (!svgSize) {
+      return NextResponse.json(
+        { error: "Invalid SVG. Scripts, event handlers and external references are not allowed" },
+        { status: 400 }
+      );
+    }
+    size = svgSize;
+  }
+
   // Compute SHA256 hash for content-addressed storage
   const hash = await sha256(imageBuffer);
-  const r2Key = `images/${hash}.png`;
+  const r2Key = `images/${hash}.${extension}`;
 
   // Check if image already exists (deduplication)
   const [existing] = await db
@@ -144,7 +185,7 @@ export async function POST(request: Request) {
   try {
     await env.R2_GALLERY.put(r2Key, imageBuffer, {
       httpMetadata: {
-        contentType: "image/png",
+        contentType: format.mimeType,
         cacheControl: "public, max-age=31536000, immutable",
       },
     });
@@ -165,10 +206,10 @@ export async function POST(request: Request) {
     challengeId,
     r2Key,
     title: title?.trim() || null,
-    width: 512, // Default canvas size
-    height: 512,
+    width: size.width,
+    height: size.height,
     fileSize: imageBuffer.byteLength,
-    mimeType: "image/png",
+    mimeType: format.mimeType,
     isPublic,
   });
 
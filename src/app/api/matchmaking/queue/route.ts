@@ -1,10 +1,12 @@
 import { getRequestContext } from "@cloudflare/next-on-pages";
 import { createDb } from "@/db";
-import { matchmakingQueue, userStats, pvpMatches } from "@/db/schema";
+import { matchmakingQueue, pvpMatches } from "@/db/schema";
 import { eq, and, ne, lt, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import NextAuth from "next-auth";
 import { createAuthConfig } from "@/lib/auth";
+import { getPvPEngineId } from "@/lib/engine-bridge";
+import { getPvpRating, matchmakingWindow } from "@/lib/pvp-ratings";
 
 export const runtime = "edge";
 
@@ -29,11 +31,11 @@ export async function POST(request: NextRequest) {
 
     const { gameType } = await request.json() as { gameType?: string };
 
-    // Validate game type
-    const validGameTypes = ["chess", "tic-tac-toe"];
-    if (!gameType || !validGameTypes.includes(gameType)) {
+    // Validate game type (any engine with a two-player mode)
+    const roomGameType = gameType ? getPvPEngineId(gameType) : undefined;
+    if (!gameType || !roomGameType) {
       return NextResponse.json(
-        { error: "Invalid game type. Supported: chess, tic-tac-toe" },
+        { error: "Invalid game type. Supported: chess, tic-tac-toe, snake, gorillas" },
         { status: 400 }
       );
     }
@@ -55,14 +57,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get user's rating
-    const [stats] = await db
-      .select({ pvpRating: userStats.pvpRating })
-      .from(userStats)
-      .where(eq(userStats.userId, userId))
-      .limit(1);
-
-    const rating = stats?.pvpRating ?? 1000;
+    // Get user's rating for this game
+    const playerRating = await getPvpRating(db, userId, gameType);
+    const rating = Math.round(playerRating.rating);
+    const deviation = playerRating.deviation;
 
     // Clean up old waiting entries (older than 5 minutes)
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
@@ -74,19 +72,26 @@ export async function POST(request: NextRequest) {
         lt(matchmakingQueue.joinedAt, fiveMinutesAgo)
       ));
 
-    // Try to find a match (within 200 rating points)
-    const ratingRange = 200;
-    const [potentialMatch] = await db
+    // Try to find a match. Each side accepts opponents within its own window,
+    // which widens with rating deviation and time spent waiting.
+    const now = Date.now();
+    const ratingRange = matchmakingWindow(deviation, 0);
+    const candidates = await db
       .select()
       .from(matchmakingQueue)
       .where(and(
         eq(matchmakingQueue.gameType, gameType),
         eq(matchmakingQueue.status, "waiting"),
-        ne(matchmakingQueue.userId, userId),
-        sql`ABS(${matchmakingQueue.rating} - ${rating}) <= ${ratingRange}`
+        ne(matchmakingQueue.userId, userId)
       ))
       .orderBy(matchmakingQueue.joinedAt)
-      .limit(1);
+      .limit(50);
+
+    const potentialMatch = candidates.find((candidate) => {
+      const waitTimeMs = candidate.joinedAt ? now - new Date(candidate.joinedAt).getTime() : 0;
+      const window = Math.max(ratingRange, matchmakingWindow(candidate.deviation, waitTimeMs));
+      return Math.abs(candidate.rating - rating) <= window;
+    });
 
     if (potentialMatch) {
       // Found a match! Create the game room
@@ -122,6 +127,7 @@ export async function POST(request: NextRequest) {
         userId,
         gameType,
         rating,
+        deviation,
         status: "matched",
         matchedWithUserId: potentialMatch.userId,
         matchedRoomId: roomId,
@@ -135,7 +141,7 @@ export async function POST(request: NextRequest) {
       await gameRoom.fetch("https://game-room/init", {
         method: "POST",
         body: JSON.stringify({
-          gameType,
+          gameType: roomGameType,
           roomId,
           mode: "pvp",
         }),
@@ -158,6 +164,7 @@ export async function POST(request: NextRequest) {
         userId,
         gameType,
         rating,
+        deviation,
         status: "waiting",
       })
       .returning();
@@ -168,6 +175,8 @@ export async function POST(request: NextRequest) {
       queueId: queueEntry.id,
       gameType,
       rating,
+      deviation: Math.round(deviation),
+      ratingRange,
       position: 1, // Simplified - would need actual queue position calculation
     });
   } catch (error) {
@@ -258,6 +267,7 @@ export async function GET(request: NextRequest) {
       queueId: entry.id,
       gameType: entry.gameType,
       rating: entry.rating,
+      ratingRange: matchmakingWindow(entry.deviation, waitTimeMs),
       waitTimeMs,
       status: entry.status,
     });
@@ -7,8 +7,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getRequestContext } from '@cloudflare/next-on-pages';
-import type { DomainEvent, DomainSessionId } from '@mcpchallenge/challenge-registry';
+import {
+  createMCPOrchestrator,
+  type DomainEvent,
+  type DomainSessionId,
+} from '@mcpchallenge/challenge-registry';
+import NextAuth from 'next-auth';
+import { createDb } from '@/db';
+import { createAuthConfig } from '@/lib/auth';
+import { getChallengeRegistry } from '@/lib/challenge-catalog';
 import { pushEventsToSession } from '@/lib/mcp-events';
+import { createD1SessionStore } from '@/lib/mcp-session-store';
 import {
   checkRateLimit,
   getClientIP,
@@ -39,20 +48,23 @@ interface ToolCallResponse {
 // Orchestrator Instance
 // =============================================================================
 
-// Note: In production, this would be imported from a shared module
-// For now, we'll create a minimal stub that returns mock data
-// The actual orchestrator would be connected here
+// Sessions live in D1, so a fresh orchestrator per request is enough:
+// it reloads the session from the store before every session-bound tool.
+// Sessions started while signed in can only be continued by the same user.
 
 async function handleToolCall(
-  _tool: string,
-  _args: Record<string, unknown>
+  d1: D1Database,
+  tool: string,
+  args: Record<string, unknown>
 ): Promise<ToolCallResponse> {
-  // TODO: Connect to actual MCPOrchestrator
-  // For now, return a stub response
-  return {
-    success: false,
-    error: 'Orchestrator not connected. This endpoint requires challenge-registry integration.',
-  };
+  const db = createDb(d1);
+  const { auth } = NextAuth(createAuthConfig(db));
+  const session = await auth();
+
+  const orchestrator = createMCPOrchestrator(getChallengeRegistry(), {
+    store: createD1SessionStore(db, { ownerId: session?.user?.id ?? null }),
+  });
+  return orchestrator.handleToolCall(tool, args);
 }
 
 // =============================================================================
@@ -89,7 +101,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ToolCallR
     const args = body.args ?? {};
 
     // Call orchestrator
-    const result = await handleToolCall(body.tool, args);
+    const result = await handleToolCall(env.DB, body.tool, args);
 
     // Push events to SSE clients if we have events and a sessionId
     if (result.events && result.events.length > 0) {
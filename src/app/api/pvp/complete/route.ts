@@ -5,6 +5,8 @@ import { eq, and, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import NextAuth from "next-auth";
 import { createAuthConfig } from "@/lib/auth";
+import { rateMatch } from "@/lib/glicko2";
+import { getPvpRating, recordRatedMatch, type RatedResult } from "@/lib/pvp-ratings";
 
 export const runtime = "edge";
 
@@ -15,28 +17,6 @@ async function getSession() {
   return auth();
 }
 
-// Calculate ELO rating change
-function calculateEloChange(
-  winnerRating: number,
-  loserRating: number,
-  isDraw: boolean = false
-): { winnerChange: number; loserChange: number } {
-  const K = 32; // K-factor
-  const expectedWinner = 1 / (1 + Math.pow(10, (loserRating - winnerRating) / 400));
-  const expectedLoser = 1 - expectedWinner;
-
-  if (isDraw) {
-    const winnerChange = Math.round(K * (0.5 - expectedWinner));
-    const loserChange = Math.round(K * (0.5 - expectedLoser));
-    return { winnerChange, loserChange };
-  }
-
-  const winnerChange = Math.round(K * (1 - expectedWinner));
-  const loserChange = Math.round(K * (0 - expectedLoser));
-
-  return { winnerChange, loserChange };
-}
-
 // POST /api/pvp/complete - Complete a PvP match
 export async function POST(request: NextRequest) {
   try {
@@ -87,30 +67,53 @@ export async function POST(request: NextRequest) {
       ? Date.now() - new Date(match.startedAt).getTime()
       : null;
 
-    // Calculate rating changes
+    // Calculate Glicko-2 rating changes for this game type (abandoned matches are unrated)
     let whiteRatingChange = 0;
     let blackRatingChange = 0;
     let actualWinnerId: string | null = null;
+    let whiteBestRating: number | null = null;
+    let blackBestRating: number | null = null;
 
-    if (match.whiteUserId && match.blackUserId) {
-      const whiteRating = match.whiteRatingBefore ?? 1000;
-      const blackRating = match.blackRatingBefore ?? 1000;
-
-      if (result === "white_wins") {
-        actualWinnerId = match.whiteUserId;
-        const { winnerChange, loserChange } = calculateEloChange(whiteRating, blackRating);
-        whiteRatingChange = winnerChange;
-        blackRatingChange = loserChange;
-      } else if (result === "black_wins") {
-        actualWinnerId = match.blackUserId;
-        const { winnerChange, loserChange } = calculateEloChange(blackRating, whiteRating);
-        blackRatingChange = winnerChange;
-        whiteRatingChange = loserChange;
-      } else if (result === "draw") {
-        const { winnerChange, loserChange } = calculateEloChange(whiteRating, blackRating, true);
-        whiteRatingChange = winnerChange;
-        blackRatingChange = loserChange;
-      }
+    if (result === "white_wins") {
+      actualWinnerId = match.whiteUserId;
+    } else if (result === "black_wins") {
+      actualWinnerId = match.blackUserId;
+    }
+
+    if (match.whiteUserId && match.blackUserId && result !== "abandoned") {
+      const now = new Date();
+      const white = await getPvpRating(db, match.whiteUserId, match.gameType, now);
+      const black = await getPvpRating(db, match.blackUserId, match.gameType, now);
+
+      const whiteScore = result === "white_wins" ? 1 : result === "black_wins" ? 0 : 0.5;
+      const rated = rateMatch(white, black, whiteScore);
+
+      whiteRatingChange = Math.round(rated.a.rating) - Math.round(white.rating);
+      blackRatingChange = Math.round(rated.b.rating) - Math.round(black.rating);
+
+      const whiteResult: RatedResult = whiteScore === 1 ? "win" : whiteScore === 0 ? "loss" : "draw";
+      const blackResult: RatedResult = whiteScore === 1 ? "loss" : whiteScore === 0 ? "win" : "draw";
+
+      whiteBestRating = await recordRatedMatch(db, {
+        userId: match.whiteUserId,
+        opponentId: match.blackUserId,
+        gameType: match.gameType,
+        matchId: match.id,
+        result: whiteResult,
+        before: white,
+        after: rated.a,
+        now,
+      });
+      blackBestRating = await recordRatedMatch(db, {
+        userId: match.blackUserId,
+        opponentId: match.whiteUserId,
+        gameType: match.gameType,
+        matchId: match.id,
+        result: blackResult,
+        before: black,
+        after: rated.b,
+        now,
+      });
     }
 
     // Update match
@@ -143,7 +146,7 @@ export async function POST(request: NextRequest) {
       const currentStreak = whiteStats?.pvpWinStreak ?? 0;
       const newStreak = isWinner ? currentStreak + 1 : 0;
       const bestStreak = Math.max(whiteStats?.pvpBestWinStreak ?? 0, newStreak);
-      const newRating = Math.max(0, (whiteStats?.pvpRating ?? 1000) + whiteRatingChange);
+      const newRating = whiteBestRating ?? whiteStats?.pvpRating ?? 1000;
 
       if (whiteStats) {
         await db
@@ -184,7 +187,7 @@ export async function POST(request: NextRequest) {
       const currentStreak = blackStats?.pvpWinStreak ?? 0;
       const newStreak = isWinner ? currentStreak + 1 : 0;
       const bestStreak = Math.max(blackStats?.pvpBestWinStreak ?? 0, newStreak);
-      const newRating = Math.max(0, (blackStats?.pvpRating ?? 1000) + blackRatingChange);
+      const newRating = blackBestRating ?? blackStats?.pvpRating ?? 1000;
 
       if (blackStats) {
         await db
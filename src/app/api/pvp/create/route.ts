@@ -1,10 +1,12 @@
 import { getRequestContext } from "@cloudflare/next-on-pages";
 import { createDb } from "@/db";
-import { pvpMatches, userStats } from "@/db/schema";
+import { pvpMatches } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import NextAuth from "next-auth";
 import { createAuthConfig } from "@/lib/auth";
+import { getPvpRating } from "@/lib/pvp-ratings";
+import { getPvPEngineId } from "@/lib/engine-bridge";
 
 export const runtime = "edge";
 
@@ -27,25 +29,23 @@ export async function POST(request: NextRequest) {
     const db = createDb(env.DB);
     const userId = session.user.id;
 
-    const { gameType } = await request.json() as { gameType?: string };
+    const { gameType, timeControl, speed } = await request.json() as {
+      gameType?: string;
+      timeControl?: string; // e.g. "5+3", "15+10", "3d" (chess only)
+      speed?: string | number; // real-time ticks, e.g. "fast" or 300 (snake only)
+    };
 
-    // Validate game type
-    const validGameTypes = ["chess", "tic-tac-toe"];
-    if (!gameType || !validGameTypes.includes(gameType)) {
+    // Validate game type (any engine with a two-player mode)
+    const roomGameType = gameType ? getPvPEngineId(gameType) : undefined;
+    if (!gameType || !roomGameType) {
       return NextResponse.json(
-        { error: "Invalid game type. Supported: chess, tic-tac-toe" },
+        { error: "Invalid game type. Supported: chess, tic-tac-toe, snake, gorillas" },
         { status: 400 }
       );
     }
 
-    // Get user's rating
-    const [stats] = await db
-      .select({ pvpRating: userStats.pvpRating })
-      .from(userStats)
-      .where(eq(userStats.userId, userId))
-      .limit(1);
-
-    const rating = stats?.pvpRating ?? 1000;
+    // Get user's rating for this game
+    const rating = Math.round((await getPvpRating(db, userId, gameType)).rating);
 
     // Generate room ID
     const roomId = crypto.randomUUID();
@@ -69,15 +69,21 @@ export async function POST(request: NextRequest) {
     const initResponse = await gameRoom.fetch("https://game-room/init", {
       method: "POST",
       body: JSON.stringify({
-        gameType,
+        gameType: roomGameType,
         roomId,
         mode: "pvp",
+        timeControl,
+        speed,
       }),
     });
 
     if (!initResponse.ok) {
       // Cleanup the match record
       await db.delete(pvpMatches).where(eq(pvpMatches.id, match.id));
+      if (initResponse.status === 400) {
+        const { error } = await initResponse.json() as { error: string };
+        return NextResponse.json({ error }, { status: 400 });
+      }
       return NextResponse.json(
         { error: "Failed to create game room" },
         { status: 500 }
@@ -87,16 +93,18 @@ export async function POST(request: NextRequest) {
     const roomData = await initResponse.json() as {
       sessionNonce: string;
       gameMode: string;
+      timeControl?: string;
+      tickMs?: number;
     };
 
-    // Join as white player
+    // Join as the first player (white in the match record)
     const joinResponse = await gameRoom.fetch("https://game-room/join", {
       method: "POST",
     });
 
     const joinData = await joinResponse.json() as {
       playerNonce: string;
-      color: string;
+      seat: string;
     };
 
     return NextResponse.json({
@@ -104,7 +112,10 @@ export async function POST(request: NextRequest) {
       matchId: match.id,
       roomId,
       gameType,
-      color: joinData.color,
+      timeControl: roomData.timeControl ?? null,
+      tickMs: roomData.tickMs ?? null,
+      color: "white",
+      seat: joinData.seat,
       playerNonce: joinData.playerNonce,
       sessionNonce: roomData.sessionNonce,
       inviteUrl: `${request.nextUrl.origin}/pvp/${roomId}`,
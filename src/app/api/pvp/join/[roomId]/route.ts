@@ -1,10 +1,11 @@
 import { getRequestContext } from "@cloudflare/next-on-pages";
 import { createDb } from "@/db";
-import { pvpMatches, userStats } from "@/db/schema";
+import { pvpMatches } from "@/db/schema";
 import { eq, and, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import NextAuth from "next-auth";
 import { createAuthConfig } from "@/lib/auth";
+import { getPvpRating } from "@/lib/pvp-ratings";
 
 export const runtime = "edge";
 
@@ -70,7 +71,7 @@ export async function POST(request: NextRequest, { params }: PageProps) {
       });
       const joinData = await joinResponse.json() as {
         playerNonce: string;
-        color: string;
+        seat: string;
       };
 
       return NextResponse.json({
@@ -79,6 +80,7 @@ export async function POST(request: NextRequest, { params }: PageProps) {
         roomId,
         gameType: match.gameType,
         color: "white",
+        seat: joinData.seat,
         playerNonce: joinData.playerNonce,
         sessionNonce: state.sessionNonce,
         isReconnect: true,
@@ -101,7 +103,7 @@ export async function POST(request: NextRequest, { params }: PageProps) {
       });
       const joinData = await joinResponse.json() as {
         playerNonce: string;
-        color: string;
+        seat: string;
       };
 
       return NextResponse.json({
@@ -110,6 +112,7 @@ export async function POST(request: NextRequest, { params }: PageProps) {
         roomId,
         gameType: match.gameType,
         color: "black",
+        seat: joinData.seat,
         playerNonce: joinData.playerNonce,
         sessionNonce: state.sessionNonce,
         isReconnect: true,
@@ -124,14 +127,8 @@ export async function POST(request: NextRequest, { params }: PageProps) {
       );
     }
 
-    // Get user's rating
-    const [stats] = await db
-      .select({ pvpRating: userStats.pvpRating })
-      .from(userStats)
-      .where(eq(userStats.userId, userId))
-      .limit(1);
-
-    const rating = stats?.pvpRating ?? 1000;
+    // Get user's rating for this game
+    const rating = Math.round((await getPvpRating(db, userId, match.gameType)).rating);
 
     // Update match with black player
     await db
@@ -165,7 +162,7 @@ export async function POST(request: NextRequest, { params }: PageProps) {
 
     const joinData = await joinResponse.json() as {
       playerNonce: string;
-      color: string;
+      seat: string;
     };
 
     return NextResponse.json({
@@ -173,7 +170,8 @@ export async function POST(request: NextRequest, { params }: PageProps) {
       matchId: match.id,
       roomId,
       gameType: match.gameType,
-      color: joinData.color,
+      color: "black",
+      seat: joinData.seat,
       playerNonce: joinData.playerNonce,
       sessionNonce: state.sessionNonce,
     });
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { replays, users } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { movesToPgn, pgnDateTime, type PgnHeaders } from "@mcpchallenge/game-engines";
+
+export const runtime = "edge";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+interface StoredPgnResult {
+  headers?: Record<string, string>;
+  startFen?: string;
+}
+
+/**
+ * GET /api/replays/[id]/pgn
+ * Export a chess replay as annotated PGN
+ */
+export async function GET(request: Request, { params }: PageProps) {
+  const { id } = await params;
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+
+  const replay = await db.query.replays.findFirst({
+    where: eq(replays.id, id),
+  });
+
+  if (!replay) {
+    return NextResponse.json(
+      { error: "Replay not found" },
+      { status: 404 }
+    );
+  }
+
+  if (replay.challengeId !== "chess") {
+    return NextResponse.json(
+      { error: "PGN is only available for chess replays" },
+      { status: 400 }
+    );
+  }
+
+  // Moves are stored as SAN strings or { san } objects
+  const moves = (JSON.parse(replay.movesJson) as Array<string | { san: string }>)
+    .map((move) => (typeof move === "string" ? move : move.san));
+  const stored = (replay.resultJson ? JSON.parse(replay.resultJson) : {}) as StoredPgnResult;
+
+  // The replay's player: the signed-in user, or the agent that played
+  let player: string | undefined;
+  if (replay.userId) {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, replay.userId),
+      columns: { username: true, name: true },
+    });
+    player = user?.username ?? user?.name ?? undefined;
+  }
+  if (!player && replay.agentSnapshotJson) {
+    const snapshot = JSON.parse(replay.agentSnapshotJson) as { identity?: { name: string; model: string } };
+    if (snapshot.identity) {
+      player = `${snapshot.identity.name} (${snapshot.identity.model})`;
+    }
+  }
+
+  const headers: PgnHeaders = { ...stored.headers };
+  if (replay.createdAt && !stored.headers?.Date) {
+    headers.Date = pgnDateTime(replay.createdAt.getTime()).date;
+  }
+  if (player && !stored.headers?.White) {
+    headers.White = player;
+  }
+
+  let pgn: string;
+  try {
+    pgn = movesToPgn(moves, headers, stored.startFen);
+  } catch {
+    return NextResponse.json(
+      { error: "Replay moves are not a legal chess game" },
+      { status: 422 }
+    );
+  }
+
+  return new Response(pgn, {
+    headers: {
+      "Content-Type": "application/x-chess-pgn; charset=utf-8",
+      "Content-Disposition": `attachment; filename="replay-${replay.id}.pgn"`,
+    },
+  });
+}
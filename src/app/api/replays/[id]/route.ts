@@ -3,6 +3,8 @@ import { getRequestContext } from "@cloudflare/next-on-pages";
 import { createDb } from "@/db";
 import { replays, users } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { computeGameStats } from "@mcpchallenge/challenge-registry";
+import { loadReplay, REPLAY_FORMAT_VERSION } from "@/lib/replay-storage";
 
 export const runtime = "edge";
 
@@ -45,6 +47,9 @@ export async function GET(request: Request, { params }: PageProps) {
     user = userData || null;
   }
 
+  // Full event stream, or null for rows that only store moves
+  const gameReplay = await loadReplay(replay);
+
   return NextResponse.json({
     id: replay.id,
     challengeId: replay.challengeId,
@@ -52,6 +57,9 @@ export async function GET(request: Request, { params }: PageProps) {
     seed: replay.seed,
     moves: JSON.parse(replay.movesJson),
     result: replay.resultJson ? JSON.parse(replay.resultJson) : null,
+    replay: gameReplay,
+    legacy: replay.formatVersion < REPLAY_FORMAT_VERSION,
+    stats: gameReplay ? computeGameStats(gameReplay) : null,
     createdAt: replay.createdAt,
     user,
   });
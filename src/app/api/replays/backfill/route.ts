@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { backfillLegacyReplays } from "@/lib/replay-storage";
+
+export const runtime = "edge";
+
+const DEFAULT_BATCH = 50;
+const MAX_BATCH = 200;
+
+/**
+ * POST /api/replays/backfill?limit=50
+ * Admin job: upgrade a batch of moves-only replays to the full event stream.
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`; call again while
+ * `remaining` is above zero.
+ */
+export async function POST(request: Request) {
+  const { env } = getRequestContext();
+  if (!env.ADMIN_TOKEN || request.headers.get("Authorization") !== `Bearer ${env.ADMIN_TOKEN}`) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const requested = Number(new URL(request.url).searchParams.get("limit") ?? DEFAULT_BATCH);
+  const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_BATCH) : DEFAULT_BATCH;
+
+  const db = createDb(env.DB);
+  const { upgraded, legacy, remaining } = await backfillLegacyReplays(db, limit);
+
+  return NextResponse.json({ success: true, upgraded, legacy, remaining });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { replays } from "@/db/schema";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { importPgn } from "@mcpchallenge/game-engines";
+
+export const runtime = "edge";
+
+const MAX_PGN_LENGTH = 100_000;
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+/**
+ * POST /api/replays/pgn
+ * Create a chess replay from PGN text (the request body)
+ */
+export async function POST(request: Request) {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const session = await getSession();
+
+  const text = await request.text();
+  if (!text.trim() || text.length > MAX_PGN_LENGTH) {
+    return NextResponse.json(
+      { error: `PGN text is required (at most ${MAX_PGN_LENGTH} characters)` },
+      { status: 400 }
+    );
+  }
+
+  let game;
+  try {
+    game = importPgn(text);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid PGN" },
+      { status: 400 }
+    );
+  }
+
+  const replayId = crypto.randomUUID();
+
+  await db.insert(replays).values({
+    id: replayId,
+    userId: session?.user?.id || null,
+    challengeId: "chess",
+    movesJson: JSON.stringify(game.moves.map((san) => ({ san }))),
+    resultJson: JSON.stringify({
+      moves: game.moves.length,
+      result: game.result,
+      headers: game.headers,
+      ...(game.startFen && { startFen: game.startFen }),
+    }),
+  });
+
+  return NextResponse.json({
+    id: replayId,
+    moves: game.moves.length,
+    result: game.result,
+    success: true,
+  });
+}
@@ -4,6 +4,8 @@ import { createDb } from "@/db";
 import { replays } from "@/db/schema";
 import NextAuth from "next-auth";
 import { createAuthConfig } from "@/lib/auth";
+import { toReplayColumns } from "@/lib/replay-storage";
+import { validateReplay } from "@/lib/replay-verification";
 
 export const runtime = "edge";
 
@@ -18,7 +20,7 @@ interface CreateReplayBody {
   challengeId: string;
   levelId?: string;
   seed?: string;
-  moves: unknown[];
+  moves?: unknown[];
   result?: {
     won?: boolean;
     moves?: number;
@@ -27,6 +29,7 @@ interface CreateReplayBody {
     score?: number;
   };
   agentSnapshotJson?: string; // Agent identity snapshot (if MCP agent)
+  replay?: unknown; // Full GameReplay; moves, seed and result are then derived from it
 }
 
 /**
@@ -37,28 +40,47 @@ export async function POST(request: Request) {
   const { env } = getRequestContext();
   const db = createDb(env.DB);
   const session = await getSession();
+  const userId = session?.user?.id || null;
 
   const body = (await request.json()) as CreateReplayBody;
 
-  if (!body.challengeId || !body.moves) {
+  if (!body.challengeId || (!body.moves && body.replay === undefined)) {
     return NextResponse.json(
-      { error: "challengeId and moves are required" },
+      { error: "challengeId and moves or replay are required" },
       { status: 400 }
     );
   }
 
   const replayId = crypto.randomUUID();
-
-  await db.insert(replays).values({
+  const row = {
     id: replayId,
-    userId: session?.user?.id || null,
+    userId,
     challengeId: body.challengeId,
     levelId: body.levelId || null,
-    seed: body.seed || null,
-    movesJson: JSON.stringify(body.moves),
-    resultJson: body.result ? JSON.stringify(body.result) : null,
     agentSnapshotJson: body.agentSnapshotJson || null,
-  });
+  };
+
+  if (body.replay !== undefined) {
+    const validation = validateReplay(body.challengeId, userId, body.replay);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error, code: validation.code },
+        { status: validation.status }
+      );
+    }
+
+    await db.insert(replays).values({
+      ...row,
+      ...(await toReplayColumns(validation.replay)),
+    });
+  } else {
+    await db.insert(replays).values({
+      ...row,
+      seed: body.seed || null,
+      movesJson: JSON.stringify(body.moves),
+      resultJson: body.result ? JSON.stringify(body.result) : null,
+    });
+  }
 
   return NextResponse.json({
     id: replayId,
@@ -0,0 +1,176 @@
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { tournamentEntrants } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { loadTournament } from "@/lib/tournaments";
+
+export const runtime = "edge";
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Same fields agents send to agent.identify in a game room
+interface AgentIdentityInput {
+  name?: unknown;
+  model?: unknown;
+  client?: unknown;
+  strategy?: unknown;
+  repo?: unknown;
+}
+
+function requiredField(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim().slice(0, 100) : null;
+}
+
+// POST /api/tournaments/[id]/register - Register an agent by its AgentSnapshot identity
+export async function POST(request: NextRequest, { params }: PageProps) {
+  try {
+    const { id } = await params;
+
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const bundle = await loadTournament(db, id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Tournament not found" }, { status: 404 });
+    }
+
+    const { tournament, entrants } = bundle;
+    if (tournament.status !== "registration") {
+      return NextResponse.json(
+        { error: "Registration is closed" },
+        { status: 400 }
+      );
+    }
+    if (entrants.length >= tournament.maxEntrants) {
+      return NextResponse.json(
+        { error: "Tournament is full" },
+        { status: 400 }
+      );
+    }
+
+    const input = await request.json() as AgentIdentityInput;
+    const name = requiredField(input.name);
+    const model = requiredField(input.model);
+    const client = requiredField(input.client);
+    if (!name || !model || !client) {
+      return NextResponse.json(
+        { error: "Agent name, model and client are required" },
+        { status: 400 }
+      );
+    }
+
+    if (entrants.some((entrant) => entrant.agentName === name && entrant.agentModel === model)) {
+      return NextResponse.json(
+        { error: "An agent with this name and model is already registered" },
+        { status: 409 }
+      );
+    }
+
+    // Tournament entrants are listed publicly in the standings
+    const identity = {
+      name,
+      model,
+      client,
+      ...(typeof input.strategy === "string" && input.strategy.length > 0 && {
+        strategy: input.strategy.trim().slice(0, 500),
+      }),
+      ...(typeof input.repo === "string" && input.repo.startsWith("https://") && input.repo.length <= 200 && {
+        repo: input.repo,
+      }),
+      share: "public" as const,
+    };
+
+    const [entrant] = await db
+      .insert(tournamentEntrants)
+      .values({
+        tournamentId: id,
+        userId: session.user.id,
+        agentName: name,
+        agentModel: model,
+        agentSnapshotJson: JSON.stringify({ schemaVersion: 1, identity, identifiedAt: Date.now() }),
+        seed: (entrants[entrants.length - 1]?.seed ?? 0) + 1,
+      })
+      .returning();
+
+    return NextResponse.json({
+      success: true,
+      entrantId: entrant.id,
+      seed: entrant.seed,
+    });
+  } catch (error) {
+    console.error("Error registering for tournament:", error);
+    return NextResponse.json(
+      { error: "Failed to register for tournament" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tournaments/[id]/register - Withdraw an agent before the start
+export async function DELETE(request: NextRequest, { params }: PageProps) {
+  try {
+    const { id } = await params;
+
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const bundle = await loadTournament(db, id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Tournament not found" }, { status: 404 });
+    }
+
+    const { entrantId } = await request.json() as { entrantId?: string };
+    const entrant = bundle.entrants.find((e) => e.id === entrantId);
+    if (!entrant) {
+      return NextResponse.json({ error: "Entrant not found" }, { status: 404 });
+    }
+
+    // The entrant's owner or the organizer may withdraw it
+    const userId = session.user.id;
+    if (entrant.userId !== userId && bundle.tournament.createdBy !== userId) {
+      return NextResponse.json(
+        { error: "You cannot withdraw this entrant" },
+        { status: 403 }
+      );
+    }
+
+    if (bundle.tournament.status !== "registration") {
+      return NextResponse.json(
+        { error: "Entrants can only withdraw before the tournament starts" },
+        { status: 400 }
+      );
+    }
+
+    await db.delete(tournamentEntrants).where(eq(tournamentEntrants.id, entrant.id));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error withdrawing from tournament:", error);
+    return NextResponse.json(
+      { error: "Failed to withdraw from tournament" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { tournamentGames } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { advanceTournament, fetchRoomResult, loadTournament } from "@/lib/tournaments";
+
+export const runtime = "edge";
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+const REPORTABLE_RESULTS = ["white_wins", "black_wins", "draw"];
+
+// POST /api/tournaments/[id]/results - Record a finished game's result from its
+// room and advance the round. The organizer may instead set `result` by hand
+// (e.g. for a game whose agents never connected).
+export async function POST(request: NextRequest, { params }: PageProps) {
+  try {
+    const { id } = await params;
+
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const { gameId, result } = await request.json() as {
+      gameId?: string;
+      result?: string;
+    };
+
+    if (result !== undefined && !REPORTABLE_RESULTS.includes(result)) {
+      return NextResponse.json(
+        { error: `Invalid result. Supported: ${REPORTABLE_RESULTS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await loadTournament(db, id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Tournament not found" }, { status: 404 });
+    }
+
+    const { tournament, entrants, games } = bundle;
+    const game = games.find((g) => g.id === gameId);
+    if (!game) {
+      return NextResponse.json({ error: "Game not found" }, { status: 404 });
+    }
+    if (tournament.status !== "running") {
+      return NextResponse.json(
+        { error: "Tournament is not running" },
+        { status: 400 }
+      );
+    }
+    if (game.result !== "pending") {
+      return NextResponse.json(
+        { error: "Game already has a result" },
+        { status: 400 }
+      );
+    }
+
+    // The organizer or the owner of either agent may collect the result
+    const userId = session.user.id;
+    const isOrganizer = tournament.createdBy === userId;
+    const players = entrants.filter((e) => e.id === game.whiteEntrantId || e.id === game.blackEntrantId);
+    if (!isOrganizer && !players.some((e) => e.userId === userId)) {
+      return NextResponse.json(
+        { error: "You are not part of this game" },
+        { status: 403 }
+      );
+    }
+
+    // Results come from the room; only the organizer may override it
+    let decided: string;
+    if (result !== undefined) {
+      if (!isOrganizer) {
+        return NextResponse.json(
+          { error: "Only the organizer can report a result by hand" },
+          { status: 403 }
+        );
+      }
+      decided = result;
+    } else {
+      const roomResult = game.roomId ? await fetchRoomResult(env.GAME_ROOM, game.roomId) : null;
+      if (!roomResult) {
+        return NextResponse.json(
+          { error: "Game is still being played" },
+          { status: 409 }
+        );
+      }
+      decided = roomResult;
+    }
+
+    // Guard against a concurrent report of the same game
+    const updated = await db
+      .update(tournamentGames)
+      .set({
+        result: decided,
+        reportedBy: userId,
+        completedAt: new Date(),
+      })
+      .where(and(
+        eq(tournamentGames.id, game.id),
+        eq(tournamentGames.result, "pending")
+      ))
+      .returning({ id: tournamentGames.id });
+
+    if (updated.length === 0) {
+      return NextResponse.json(
+        { error: "Game already has a result" },
+        { status: 400 }
+      );
+    }
+
+    const { status, currentRound } = await advanceTournament(db, env.GAME_ROOM, id);
+
+    return NextResponse.json({
+      success: true,
+      gameId: game.id,
+      result: decided,
+      status,
+      currentRound,
+    });
+  } catch (error) {
+    console.error("Error recording tournament result:", error);
+    return NextResponse.json(
+      { error: "Failed to record result" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { tournaments, users } from "@/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { getPvPEngineId } from "@/lib/engine-bridge";
+import { computeStandings, type TournamentFormat } from "@/lib/tournament-pairing";
+import { loadTournament, toGameRecords } from "@/lib/tournaments";
+
+export const runtime = "edge";
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/tournaments/[id] - Tournament with entrants, rounds and standings
+export async function GET(request: NextRequest, { params }: PageProps) {
+  try {
+    const { id } = await params;
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const bundle = await loadTournament(db, id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Tournament not found" }, { status: 404 });
+    }
+
+    const { tournament, entrants, games } = bundle;
+    const session = await getSession();
+    const userId = session?.user?.id ?? null;
+
+    // Owner display names
+    const ownerIds = [...new Set(entrants.map((entrant) => entrant.userId).filter((owner): owner is string => !!owner))];
+    const owners = ownerIds.length > 0
+      ? await db
+        .select({ id: users.id, name: users.name, username: users.username })
+        .from(users)
+        .where(inArray(users.id, ownerIds))
+      : [];
+    const ownerName = new Map(owners.map((owner) => [owner.id, owner.username ?? owner.name]));
+
+    const standings = computeStandings(
+      tournament.format as TournamentFormat,
+      entrants.map((entrant) => entrant.id),
+      toGameRecords(games)
+    );
+
+    // Seat nonces go only to the owner of the entrant in that seat
+    const ownerOf = new Map(entrants.map((entrant) => [entrant.id, entrant.userId]));
+    const rounds = Array.from({ length: tournament.currentRound }, (_, index) => ({
+      round: index + 1,
+      games: games
+        .filter((game) => game.round === index + 1)
+        .map((game) => ({
+          id: game.id,
+          board: game.board,
+          whiteEntrantId: game.whiteEntrantId,
+          blackEntrantId: game.blackEntrantId,
+          roomId: game.roomId,
+          result: game.result,
+          completedAt: game.completedAt,
+          ...(userId && ownerOf.get(game.whiteEntrantId) === userId && game.result === "pending" && {
+            whiteNonce: game.whiteNonce,
+          }),
+          ...(userId && game.blackEntrantId && ownerOf.get(game.blackEntrantId) === userId && game.result === "pending" && {
+            blackNonce: game.blackNonce,
+          }),
+        })),
+    }));
+
+    return NextResponse.json({
+      tournament: {
+        ...tournament,
+        engineId: getPvPEngineId(tournament.gameType) ?? tournament.gameType,
+        isOrganizer: !!userId && tournament.createdBy === userId,
+      },
+      entrants: entrants.map((entrant) => ({
+        id: entrant.id,
+        seed: entrant.seed,
+        agentName: entrant.agentName,
+        agentModel: entrant.agentModel,
+        owner: entrant.userId ? ownerName.get(entrant.userId) ?? null : null,
+        isMine: !!userId && entrant.userId === userId,
+      })),
+      rounds,
+      standings,
+    });
+  } catch (error) {
+    console.error("Error fetching tournament:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tournament" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tournaments/[id] - Cancel a tournament (organizer only)
+export async function DELETE(request: NextRequest, { params }: PageProps) {
+  try {
+    const { id } = await params;
+
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const bundle = await loadTournament(db, id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Tournament not found" }, { status: 404 });
+    }
+
+    if (bundle.tournament.createdBy !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the organizer can cancel the tournament" },
+        { status: 403 }
+      );
+    }
+    if (bundle.tournament.status === "completed" || bundle.tournament.status === "cancelled") {
+      return NextResponse.json(
+        { error: "Tournament has already ended" },
+        { status: 400 }
+      );
+    }
+
+    await db
+      .update(tournaments)
+      .set({ status: "cancelled", endedAt: new Date() })
+      .where(eq(tournaments.id, id));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling tournament:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel tournament" },
+      { status: 500 }
+    );
+  }
+}
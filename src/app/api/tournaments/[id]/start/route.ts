@@ -0,0 +1,90 @@
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { tournaments } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { plannedRounds, type TournamentFormat } from "@/lib/tournament-pairing";
+import { loadTournament, startNextRound } from "@/lib/tournaments";
+
+export const runtime = "edge";
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/tournaments/[id]/start - Close registration and pair round 1
+export async function POST(request: NextRequest, { params }: PageProps) {
+  try {
+    const { id } = await params;
+
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const bundle = await loadTournament(db, id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Tournament not found" }, { status: 404 });
+    }
+
+    const { tournament, entrants } = bundle;
+    if (tournament.createdBy !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the organizer can start the tournament" },
+        { status: 403 }
+      );
+    }
+    if (tournament.status !== "registration") {
+      return NextResponse.json(
+        { error: "Tournament has already started" },
+        { status: 400 }
+      );
+    }
+    if (entrants.length < 2) {
+      return NextResponse.json(
+        { error: "At least 2 entrants are needed to start" },
+        { status: 400 }
+      );
+    }
+
+    // Swiss keeps an organizer-chosen round count; other formats follow the field size
+    const format = tournament.format as TournamentFormat;
+    const totalRounds = format === "swiss" && tournament.totalRounds
+      ? tournament.totalRounds
+      : plannedRounds(format, entrants.length);
+
+    await db
+      .update(tournaments)
+      .set({ totalRounds })
+      .where(eq(tournaments.id, id));
+
+    const round = await startNextRound(db, env.GAME_ROOM, {
+      ...bundle,
+      tournament: { ...tournament, totalRounds },
+    });
+
+    return NextResponse.json({
+      success: true,
+      round,
+      totalRounds,
+    });
+  } catch (error) {
+    console.error("Error starting tournament:", error);
+    return NextResponse.json(
+      { error: "Failed to start tournament" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { getRequestContext } from "@cloudflare/next-on-pages";
+import { createDb } from "@/db";
+import { tournaments, tournamentEntrants } from "@/db/schema";
+import { eq, desc, sql } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import NextAuth from "next-auth";
+import { createAuthConfig } from "@/lib/auth";
+import { getPvPEngineId } from "@/lib/engine-bridge";
+import { TOURNAMENT_FORMATS, type TournamentFormat } from "@/lib/tournament-pairing";
+
+export const runtime = "edge";
+
+async function getSession() {
+  const { env } = getRequestContext();
+  const db = createDb(env.DB);
+  const { auth } = NextAuth(createAuthConfig(db));
+  return auth();
+}
+
+const MAX_ENTRANTS = 64;
+
+// GET /api/tournaments - List tournaments (optionally by status)
+export async function GET(request: NextRequest) {
+  try {
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get("status");
+    const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "20"), 100);
+
+    const rows = await db
+      .select({
+        id: tournaments.id,
+        name: tournaments.name,
+        gameType: tournaments.gameType,
+        format: tournaments.format,
+        status: tournaments.status,
+        currentRound: tournaments.currentRound,
+        totalRounds: tournaments.totalRounds,
+        maxEntrants: tournaments.maxEntrants,
+        timeControl: tournaments.timeControl,
+        createdAt: tournaments.createdAt,
+        startedAt: tournaments.startedAt,
+        endedAt: tournaments.endedAt,
+        entrantCount: sql<number>`(SELECT COUNT(*) FROM ${tournamentEntrants} WHERE ${tournamentEntrants.tournamentId} = ${tournaments.id})`,
+      })
+      .from(tournaments)
+      .where(status ? eq(tournaments.status, status) : undefined)
+      .orderBy(desc(tournaments.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ tournaments: rows });
+  } catch (error) {
+    console.error("Error listing tournaments:", error);
+    return NextResponse.json(
+      { error: "Failed to list tournaments" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tournaments - Create a tournament (the creator organizes it)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { env } = getRequestContext();
+    const db = createDb(env.DB);
+
+    const { name, gameType, format, maxEntrants, rounds, timeControl } = await request.json() as {
+      name?: string;
+      gameType?: string;
+      format?: string;
+      maxEntrants?: number;
+      rounds?: number; // Swiss only; defaults to log2 of the field
+      timeControl?: string;
+    };
+
+    if (!name || typeof name !== "string" || name.trim().length === 0 || name.length > 100) {
+      return NextResponse.json(
+        { error: "Name is required (max 100 characters)" },
+        { status: 400 }
+      );
+    }
+
+    // Validate game type (any engine with a two-player mode)
+    if (!gameType || !getPvPEngineId(gameType)) {
+      return NextResponse.json(
+        { error: "Invalid game type. Supported: chess, tic-tac-toe, snake, gorillas" },
+        { status: 400 }
+      );
+    }
+
+    if (!format || !TOURNAMENT_FORMATS.includes(format as TournamentFormat)) {
+      return NextResponse.json(
+        { error: `Invalid format. Supported: ${TOURNAMENT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const entrantLimit = maxEntrants ?? 16;
+    if (!Number.isInteger(entrantLimit) || entrantLimit < 2 || entrantLimit > MAX_ENTRANTS) {
+      return NextResponse.json(
+        { error: `maxEntrants must be between 2 and ${MAX_ENTRANTS}` },
+        { status: 400 }
+      );
+    }
+
+    if (rounds !== undefined && (format !== "swiss" || !Number.isInteger(rounds) || rounds < 1 || rounds > 20)) {
+      return NextResponse.json(
+        { error: "rounds can only be set for Swiss tournaments (1-20)" },
+        { status: 400 }
+      );
+    }
+
+    if (timeControl && gameType !== "chess") {
+      return NextResponse.json(
+        { error: "Time controls are only available in chess tournaments" },
+        { status: 400 }
+      );
+    }
+
+    const [tournament] = await db
+      .insert(tournaments)
+      .values({
+        name: name.trim(),
+        gameType,
+        format,
+        maxEntrants: entrantLimit,
+        totalRounds: rounds ?? null,
+        timeControl: timeControl ?? null,
+        createdBy: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json({
+      success: true,
+      tournament,
+      url: `${request.nextUrl.origin}/tournaments/${tournament.id}`,
+    });
+  } catch (error) {
+    console.error("Error creating tournament:", error);
+    return NextResponse.json(
+      { error: "Failed to create tournament" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,13 @@
  * MoveTimeline - Vertical timeline for move history
  *
  * Shows moves in a vertical timeline with player/AI icons.
- * Highlights last move with animation.
+ * Highlights last move with animation and labels the opening (ECO).
  */
 
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, useMemo } from "react";
+import { classifyOpening } from "@mcpchallenge/game-engines";
 import { cn } from "@/lib/utils";
-import { User, Cpu, Crown } from "lucide-react";
+import { User, Cpu, Crown, BookOpen } from "lucide-react";
 
 interface MoveTimelineProps {
   moves: string[];
@@ -26,6 +27,9 @@ export function MoveTimeline({
 }: MoveTimelineProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  // Named opening reached so far (stays once the game leaves the book)
+  const opening = useMemo(() => classifyOpening(moves), [moves]);
+
   // Auto-scroll to bottom
   useEffect(() => {
     if (scrollRef.current) {
@@ -71,6 +75,17 @@ export function MoveTimeline({
         className
       )}
     >
+      {opening && (
+        <div
+          className="sticky top-0 z-10 flex items-center gap-2 rounded-lg px-2.5 py-1.5 mb-1 bg-white/90 dark:bg-zinc-900/90 backdrop-blur-sm"
+          title={`Book move ${opening.ply}`}
+        >
+          <BookOpen className="h-3.5 w-3.5 flex-shrink-0 text-amber-600 dark:text-amber-400" />
+          <span className="text-xs font-mono font-semibold text-amber-700 dark:text-amber-400">{opening.eco}</span>
+          <span className="text-xs text-zinc-600 dark:text-zinc-400 truncate">{opening.name}</span>
+        </div>
+      )}
+
       {movePairs.map((pair, idx) => {
         const isLastPair = idx === movePairs.length - 1;
         const isLastMoveWhite = isLastPair && !pair.black;
@@ -29,8 +29,12 @@ const PRESET_ICONS: Record<string, React.ReactNode> = {
   sierpinski: <Sparkles className="h-4 w-4" />,
   snowflake: <Snowflake className="h-4 w-4" />,
   hilbert: <Sparkles className="h-4 w-4" />,
+  parametric: <TreePine className="h-4 w-4" />,
+  tree3d: <TreePine className="h-4 w-4" />,
 };
 
+type ImageFormat = "png" | "svg";
+
 const COLOR_SCHEMES: { value: ColorScheme; label: string }[] = [
   { value: "depth", label: "Depth Gradient" },
   { value: "rainbow", label: "Rainbow" },
@@ -52,6 +56,7 @@ export function FractalsGame({ onComplete }: FractalsGameProps) {
   const [angle, setAngle] = useState(22.5);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedUrl, setUploadedUrl] = useState<string | null>(null);
+  const [imageFormat, setImageFormat] = useState<ImageFormat>("png");
 
   // Render pixels to canvas
   const renderToCanvas = useCallback((state: FractalState) => {
@@ -137,16 +142,35 @@ export function FractalsGame({ onComplete }: FractalsGameProps) {
     loadPreset("tree");
   }, [loadPreset]);
 
-  // Download as PNG
+  // Vector version of the current fractal (same expansion as the canvas)
+  const renderSvg = useCallback((): string | null => {
+    const result = fractalsEngine.makeMove(gameState, {
+      action: "render_svg",
+      params: { colorScheme },
+    });
+    return result.valid ? result.state.svg ?? null : null;
+  }, [gameState, colorScheme]);
+
+  // Download as PNG or SVG
   const downloadImage = useCallback(() => {
+    const link = document.createElement("a");
+    link.download = `fractal-${selectedPreset}-${Date.now()}.${imageFormat}`;
+
+    if (imageFormat === "svg") {
+      const svg = renderSvg();
+      if (!svg) return;
+      const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
     const canvas = canvasRef.current;
     if (!canvas) return;
-
-    const link = document.createElement("a");
-    link.download = `fractal-${selectedPreset}-${Date.now()}.png`;
     link.href = canvas.toDataURL("image/png");
     link.click();
-  }, [selectedPreset]);
+  }, [selectedPreset, imageFormat, renderSvg]);
 
   // Upload to gallery
   const uploadToGallery = useCallback(async () => {
@@ -157,7 +181,10 @@ export function FractalsGame({ onComplete }: FractalsGameProps) {
     setUploadedUrl(null);
 
     try {
-      const dataUrl = canvas.toDataURL("image/png");
+      const svg = imageFormat === "svg" ? renderSvg() : null;
+      const dataUrl = svg
+        ? `data:image/svg+xml;base64,${btoa(svg)}`
+        : canvas.toDataURL("image/png");
 
       const response = await fetch("/api/gallery/upload", {
         method: "POST",
@@ -181,7 +208,7 @@ export function FractalsGame({ onComplete }: FractalsGameProps) {
     } finally {
       setIsUploading(false);
     }
-  }, [selectedPreset]);
+  }, [selectedPreset, imageFormat, renderSvg]);
 
   // Initial render
   useEffect(() => {
@@ -328,6 +355,15 @@ export function FractalsGame({ onComplete }: FractalsGameProps) {
           <RotateCcw className="h-4 w-4 mr-2" />
           Reset
         </Button>
+        <Select value={imageFormat} onValueChange={(v) => setImageFormat(v as ImageFormat)}>
+          <SelectTrigger className="w-24 h-10" title="Image format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="png">PNG</SelectItem>
+            <SelectItem value="svg">SVG</SelectItem>
+          </SelectContent>
+        </Select>
         <Button variant="outline" onClick={downloadImage} size="lg">
           <Download className="h-4 w-4 mr-2" />
           Download
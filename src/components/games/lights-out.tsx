@@ -5,8 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { RotateCcw, Lightbulb, LightbulbOff } from "lucide-react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
+import type { LightsOutState } from "@mcpchallenge/game-engines";
 import { cn } from "@/lib/utils";
-import { useGameCompletion } from "@/hooks/use-game-completion";
+import { useGameRecording } from "@/hooks/use-game-recording";
 import { useReplayShare } from "@/hooks/use-replay-share";
 import { ShareButton } from "@/components/games/share-button";
 
@@ -28,7 +30,8 @@ interface GameState {
 }
 
 interface LightsOutProps {
-  onComplete?: (state: { toggleCount: number; efficiency: number }) => void;
+  /** `replay` is set when the game was recorded for a verified completion */
+  onComplete?: (state: { toggleCount: number; efficiency: number; replay?: GameReplay }) => void;
 }
 
 interface LightsOutMove {
@@ -130,7 +133,7 @@ export function LightsOut({ onComplete }: LightsOutProps) {
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const completionCalledRef = useRef(false);
 
-  const { submitCompletion, isLoggedIn } = useGameCompletion("lightsout");
+  const recording = useGameRecording("lightsout");
 
   const replay = useReplayShare<LightsOutMove>({
     challengeId: "lightsout",
@@ -162,24 +165,21 @@ export function LightsOut({ onComplete }: LightsOutProps) {
       completionCalledRef.current = true;
 
       const efficiency = Math.round((gameState.minSolution / gameState.toggleCount) * 100);
-      onComplete?.({ toggleCount: gameState.toggleCount, efficiency });
-
-      if (isLoggedIn) {
-        submitCompletion({
-          winner: "player",
-          moves: gameState.toggleCount,
-        });
-      }
+      onComplete?.({ toggleCount: gameState.toggleCount, efficiency, replay: recording.buildReplay() });
     }
 
     if (!gameState || gameState.status === "waiting") {
       completionCalledRef.current = false;
     }
-  }, [gameState, onComplete, isLoggedIn, submitCompletion]);
+  }, [gameState, onComplete, recording]);
 
-  const startGame = useCallback((diff: Difficulty) => {
+  const startGame = useCallback(async (diff: Difficulty) => {
     const config = DIFFICULTY_CONFIG[diff];
-    const { grid, minSolution } = generatePuzzle(config.size, config.toggles);
+    // Signed-in players get the engine's board for their seed; others a local one
+    const recorded = await recording.start({ difficulty: diff });
+    const { grid, minSolution } = recorded
+      ? (recorded.current as unknown as LightsOutState)
+      : generatePuzzle(config.size, config.toggles);
 
     setDifficulty(diff);
     setElapsedTime(0);
@@ -193,7 +193,7 @@ export function LightsOut({ onComplete }: LightsOutProps) {
       difficulty: diff,
       startTime: Date.now(),
     });
-  }, [replay]);
+  }, [recording, replay]);
 
   const handleCellClick = useCallback((row: number, col: number) => {
     if (!gameState || gameState.status !== "playing") return;
@@ -201,6 +201,7 @@ export function LightsOut({ onComplete }: LightsOutProps) {
     const newGrid = cloneGrid(gameState.grid);
     toggleCell(newGrid, row, col, gameState.size);
 
+    recording.play(`toggle ${row},${col}`);
     replay.recordMove({ row, col });
 
     const hasWon = isSolved(newGrid);
@@ -215,13 +216,14 @@ export function LightsOut({ onComplete }: LightsOutProps) {
       toggleCount: gameState.toggleCount + 1,
       status: hasWon ? "won" : "playing",
     });
-  }, [gameState, replay, elapsedTime]);
+  }, [gameState, recording, replay, elapsedTime]);
 
   const resetGame = useCallback(() => {
     setGameState(null);
     setElapsedTime(0);
+    recording.stop();
     replay.reset();
-  }, [replay]);
+  }, [recording, replay]);
 
   const lightsOn = gameState ? countLightsOn(gameState.grid) : 0;
   const totalCells = gameState ? gameState.size * gameState.size : 0;
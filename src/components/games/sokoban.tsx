@@ -6,10 +6,11 @@ import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { RotateCcw, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Trophy, Undo2, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useGameCompletion } from "@/lib/game-completion";
+import { useGameRecording } from "@/hooks/use-game-recording";
 import { useReplayShare } from "@/hooks/use-replay-share";
 import { ShareButton } from "@/components/games/share-button";
 import { SOKOBAN_LEVELS } from "@mcpchallenge/game-engines";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
 
 // =============================================================================
 // Types
@@ -49,7 +50,8 @@ interface MoveRecord {
 }
 
 interface SokobanProps {
-  onGameComplete?: (result: { won: boolean; level: number; moves: number; pushes: number }) => void;
+  /** `replay` is set when the level was recorded for a verified completion */
+  onGameComplete?: (result: { won: boolean; level: number; moves: number; pushes: number; replay?: GameReplay }) => void;
 }
 
 // =============================================================================
@@ -296,7 +298,7 @@ export function SokobanGame({ onGameComplete }: SokobanProps) {
   const [gameState, setGameState] = useState<GameState | null>(() => parseLevel(0));
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [startTime, setStartTime] = useState<number>(() => Date.now());
-  const { submitCompletion } = useGameCompletion("sokoban");
+  const recording = useGameRecording("sokoban");
 
   // Replay sharing hook
   const replay = useReplayShare<MoveRecord>({
@@ -322,16 +324,24 @@ export function SokobanGame({ onGameComplete }: SokobanProps) {
     setGameState(parseLevel(clampedIndex));
     setHistory([]);
     setStartTime(Date.now());
+    recording.start({ levelIndex: clampedIndex });
     replay.reset();
-  }, [totalLevels, replay]);
+  }, [totalLevels, recording, replay]);
 
   // Reset current level
   const resetLevel = useCallback(() => {
     setGameState(parseLevel(levelIndex));
     setHistory([]);
     setStartTime(Date.now());
+    recording.start({ levelIndex });
     replay.reset();
-  }, [levelIndex, replay]);
+  }, [levelIndex, recording, replay]);
+
+  // Record the level shown on first render
+  useEffect(() => {
+    recording.start({ levelIndex: 0 });
+    return () => recording.stop();
+  }, [recording]);
 
   // Handle move
   const move = useCallback(
@@ -371,6 +381,7 @@ export function SokobanGame({ onGameComplete }: SokobanProps) {
       ]);
 
       // Track move for replay
+      recording.play(direction);
       replay.recordMove({ direction, pushed });
 
       const won = checkWin(newBoxes, gameState.goals);
@@ -389,11 +400,6 @@ export function SokobanGame({ onGameComplete }: SokobanProps) {
         const finalMoves = gameState.moveCount + 1;
         const finalPushes = gameState.pushCount + (pushed ? 1 : 0);
 
-        submitCompletion({
-          winner: "player",
-          moves: finalMoves,
-        });
-
         // Save replay using hook
         replay.saveReplay({
           won: true,
@@ -407,10 +413,11 @@ export function SokobanGame({ onGameComplete }: SokobanProps) {
           level: levelIndex + 1,
           moves: finalMoves,
           pushes: finalPushes,
+          replay: recording.buildReplay(),
         });
       }
     },
-    [gameState, levelIndex, submitCompletion, onGameComplete, startTime, replay]
+    [gameState, levelIndex, onGameComplete, startTime, recording, replay]
   );
 
   // Undo
@@ -427,8 +434,9 @@ export function SokobanGame({ onGameComplete }: SokobanProps) {
       status: "playing",
     });
     setHistory((h) => h.slice(0, -1));
+    recording.undo();
     // Note: We don't remove from replay.moves - the final result stats are from gameState
-  }, [history, gameState]);
+  }, [history, gameState, recording]);
 
   // Keyboard controls
   useEffect(() => {
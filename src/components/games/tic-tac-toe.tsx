@@ -13,7 +13,8 @@ import {
   Circle,
   X,
 } from "lucide-react";
-import { useGameCompletion } from "@/lib/game-completion";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
+import { useGameRecording } from "@/hooks/use-game-recording";
 import { useReplayShare } from "@/hooks/use-replay-share";
 import { ShareButton } from "@/components/games/share-button";
 
@@ -30,7 +31,8 @@ interface TicTacToeMove {
 
 interface TicTacToeProps {
   onMoveForMCP?: (position: number, player: string, board: string) => void;
-  onGameComplete?: (result: { winner: "player" | "ai" | "draw"; moves: number }) => void;
+  /** `replay` is set when the game was recorded for a verified completion */
+  onGameComplete?: (result: { winner: "player" | "ai" | "draw"; moves: number; replay?: GameReplay }) => void;
 }
 
 // Generate winning combinations for any board size
@@ -227,8 +229,8 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
   const [scores, setScores] = useState({ player: 0, computer: 0, draws: 0 });
   const completionCalledRef = useRef(false);
 
-  // Game completion hook
-  const { submitCompletion, isAuthenticated } = useGameCompletion("tic-tac-toe");
+  // 3x3 games against the computer are played through the engine and recorded
+  const recording = useGameRecording("tic-tac-toe");
 
   // Replay sharing hook
   const replay = useReplayShare<TicTacToeMove>({
@@ -251,20 +253,12 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
 
       const moves = board.filter((cell) => cell !== null).length;
 
-      // Call the onGameComplete callback if provided
-      if (onGameComplete) {
-        onGameComplete({ winner: result, moves });
-      }
-
-      // Submit to database if authenticated
-      if (isAuthenticated) {
-        submitCompletion({ winner: result, moves });
-      }
+      onGameComplete?.({ winner: result, moves, replay: recording.buildReplay() });
     }
     if (gameStatus === "waiting") {
       completionCalledRef.current = false;
     }
-  }, [gameStatus, gameMode, winner, playerSymbol, board, onGameComplete, isAuthenticated, submitCompletion]);
+  }, [gameStatus, gameMode, winner, playerSymbol, board, onGameComplete, recording]);
 
   // Win length: min(boardSize, 5) - ensures you can actually win
   const winLength = Math.min(boardSize, 5);
@@ -275,13 +269,16 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
     [boardSize, winLength]
   );
 
-  const makeComputerMove = useCallback((currentBoard: Board, computerSymbol: Player) => {
+  // engineMove: the recorded engine's reply, which the board must follow
+  const makeComputerMove = useCallback((currentBoard: Board, computerSymbol: Player, engineMove?: string) => {
     setIsThinking(true);
 
     setTimeout(() => {
-      const move = boardSize === 3
-        ? getBestMove3x3([...currentBoard], computerSymbol, winCombos)
-        : getBestMoveLarge([...currentBoard], computerSymbol, boardSize, winLength, winCombos);
+      const move = engineMove !== undefined
+        ? Number(engineMove)
+        : boardSize === 3
+          ? getBestMove3x3([...currentBoard], computerSymbol, winCombos)
+          : getBestMoveLarge([...currentBoard], computerSymbol, boardSize, winLength, winCombos);
 
       if (move !== -1) {
         const newBoard = [...currentBoard];
@@ -329,6 +326,8 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
     newBoard[index] = currentPlayer;
     setBoard(newBoard);
 
+    const turn = gameMode === "vs-ai" ? recording.play(String(index)) : null;
+
     // Record move for replay
     replay.recordMove({
       position: index,
@@ -362,10 +361,30 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
 
       // Computer's turn
       if (gameMode === "vs-ai") {
-        makeComputerMove(newBoard, nextPlayer);
+        makeComputerMove(newBoard, nextPlayer, turn?.aiMoves[0]);
       }
     }
-  }, [board, currentPlayer, gameMode, gameStatus, isThinking, playerSymbol, makeComputerMove, onMoveForMCP, winCombos, replay]);
+  }, [board, currentPlayer, gameMode, gameStatus, isThinking, playerSymbol, makeComputerMove, onMoveForMCP, winCombos, recording, replay]);
+
+  /**
+   * Deal a recorded engine game for 3x3 games against the computer; the
+   * computer opens when the player is O
+   */
+  const beginGame = async (newBoard: Board, mode: GameMode, symbol: Player) => {
+    recording.stop();
+    if (mode !== "vs-ai") return;
+
+    let opening: string | undefined;
+    if (boardSize === 3) {
+      setIsThinking(true);
+      const recorded = await recording.start({ symbol });
+      opening = recorded?.opening.aiMoves[0];
+      setIsThinking(false);
+    }
+    if (symbol === "O") {
+      makeComputerMove(newBoard, "X", opening);
+    }
+  };
 
   const startGame = (mode: GameMode, symbol: Player = "X") => {
     const newBoard = Array(boardSize * boardSize).fill(null);
@@ -377,11 +396,7 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
     setWinningLine(null);
     setPlayerSymbol(symbol);
     replay.reset();
-
-    // If playing as O against computer, let computer move first
-    if (mode === "vs-ai" && symbol === "O") {
-      makeComputerMove(newBoard, "X");
-    }
+    beginGame(newBoard, mode, symbol);
   };
 
   const resetGame = () => {
@@ -391,6 +406,7 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
     setGameStatus("waiting");
     setWinner(null);
     setWinningLine(null);
+    recording.stop();
     replay.reset();
   };
 
@@ -402,16 +418,14 @@ export function TicTacToe({ onMoveForMCP, onGameComplete }: TicTacToeProps) {
     setWinner(null);
     setWinningLine(null);
     replay.reset();
-
-    if (gameMode === "vs-ai" && playerSymbol === "O") {
-      makeComputerMove(newBoard, "X");
-    }
+    beginGame(newBoard, gameMode, playerSymbol);
   };
 
   const handleBoardSizeChange = (value: number[]) => {
     const newSize = value[0];
     setBoardSize(newSize);
     setBoard(Array(newSize * newSize).fill(null));
+    recording.stop();
     setCurrentPlayer("X");
     setWinner(null);
     setWinningLine(null);
@@ -36,6 +36,7 @@ import {
   ChevronDown,
   ChevronUp,
   ExternalLink,
+  Zap,
 } from "lucide-react";
 import {
   Collapsible,
@@ -53,7 +54,7 @@ import { RoomConfig } from "./room-config";
 import { ConnectionStatus, deriveConnectionState } from "./connection-status";
 import { ClientSelector } from "./client-selector";
 import type { AgentIdentity } from "./agent-chip";
-import { PvPAgents, type PvPPlayersState } from "./pvp-agents";
+import { DEFAULT_PVP_SEATS, PvPAgents, type PvPPlayersState } from "./pvp-agents";
 import { cn } from "@/lib/utils";
 import { formatRoomId } from "@/lib/room-name";
 import { SuccessCelebration } from "@/components/onboarding";
@@ -75,6 +76,13 @@ import type {
   RoomState,
 } from "./types";
 
+// Tick loop snapshot of a real-time room
+interface TickInfo {
+  tickMs: number;
+  tick: number;
+  latency: Record<string, { avgMs: number | null; missedTicks: number }>;
+}
+
 interface LiveGameBoardProps {
   gameType: GameType;
   roomId?: string;
@@ -96,7 +104,11 @@ export function LiveGameBoard({
   const [isCreatingRoom, setIsCreatingRoom] = useState(false);
   // PvP mode state
   const [gameMode, setGameMode] = useState<"ai" | "pvp">("ai");
-  const [pvpPlayers, setPvpPlayers] = useState<PvPPlayersState>({ white: null, black: null });
+  const [pvpPlayers, setPvpPlayers] = useState<PvPPlayersState>({});
+  const [pvpSeats, setPvpSeats] = useState<[string, string]>(DEFAULT_PVP_SEATS);
+  const [turnSeat, setTurnSeat] = useState<string | null>(null);
+  // Real-time snake: tick speed and per-seat latency
+  const [tickInfo, setTickInfo] = useState<TickInfo | null>(null);
   // Selected mode for room creation
   const [selectedMode, setSelectedMode] = useState<"ai" | "pvp">("ai");
   // Advanced drawer state
@@ -179,6 +191,9 @@ export function LiveGameBoard({
           agentIdentity?: AgentIdentity;
           gameMode?: "ai" | "pvp";
           players?: PvPPlayersState;
+          seats?: [string, string];
+          turnSeat?: string | null;
+          realtime?: TickInfo | null;
         };
         setGameState(data.gameState);
         // Update game mode if present
@@ -189,6 +204,11 @@ export function LiveGameBoard({
         if (data.players) {
           setPvpPlayers(data.players);
         }
+        if (data.seats) {
+          setPvpSeats(data.seats);
+        }
+        setTurnSeat(data.turnSeat ?? null);
+        setTickInfo(data.realtime ?? null);
         // Also update agent identity if present in state (AI mode)
         if (data.agentIdentity) {
           setAgentIdentity(data.agentIdentity);
@@ -227,13 +247,22 @@ export function LiveGameBoard({
       }
     });
 
+    // Real-time tick update
+    eventSource.addEventListener("tick", (event) => {
+      try {
+        setTickInfo(JSON.parse(event.data) as TickInfo);
+      } catch (error) {
+        console.error("Failed to parse tick:", error);
+      }
+    });
+
     // PvP players update
     eventSource.addEventListener("players", (event) => {
       try {
         const data = JSON.parse(event.data) as PvPPlayersState;
         setPvpPlayers(data);
         // If we have players, we're in PvP mode
-        if (data.white || data.black) {
+        if (Object.values(data).some(Boolean)) {
           setGameMode("pvp");
         }
       } catch (error) {
@@ -254,7 +283,10 @@ export function LiveGameBoard({
       setIsConnected(false);
       setAgentIdentity(null);
       setGameMode("ai");
-      setPvpPlayers({ white: null, black: null });
+      setPvpPlayers({});
+      setPvpSeats(DEFAULT_PVP_SEATS);
+      setTurnSeat(null);
+      setTickInfo(null);
     };
   }, [roomId, gameType, mcpBaseUrl]);
 
@@ -407,6 +439,7 @@ export function LiveGameBoard({
 
   const renderSnakeBoard = (state: SnakeGameState) => {
     const gridSize = state.gridSize || 15;
+    const rival = state.opponent?.snake ?? [];
 
     return (
       <div className="relative aspect-square bg-zinc-900 dark:bg-zinc-950 rounded-xl p-2 border border-zinc-700 dark:border-zinc-800">
@@ -421,6 +454,11 @@ export function LiveGameBoard({
           <Badge className="bg-emerald-600/80 backdrop-blur-md border-0">
             Score: {state.score}
           </Badge>
+          {state.opponent && (
+            <Badge className="ml-1 bg-sky-600/80 backdrop-blur-md border-0">
+              Score: {state.opponent.score}
+            </Badge>
+          )}
         </div>
 
         <div
@@ -438,24 +476,49 @@ export function LiveGameBoard({
             const isHead = state.snake[0]?.x === x && state.snake[0]?.y === y;
             const isBody = state.snake.slice(1).some((p) => p.x === x && p.y === y);
             const isFood = state.food?.x === x && state.food?.y === y;
+            const rivalIndex = rival.findIndex((p) => p.x === x && p.y === y);
 
             return (
               <div
                 key={i}
                 className={cn(
                   "rounded-sm",
-                  isHead ? "bg-emerald-400" : isBody ? "bg-emerald-600" : isFood ? "bg-red-500" : "bg-zinc-800 dark:bg-zinc-900"
+                  isHead ? "bg-emerald-400"
+                    : isBody ? "bg-emerald-600"
+                    : rivalIndex === 0 ? "bg-sky-400"
+                    : rivalIndex > 0 ? "bg-sky-600"
+                    : isFood ? "bg-red-500" : "bg-zinc-800 dark:bg-zinc-900"
                 )}
               />
             );
           })}
         </div>
 
+        {tickInfo && (
+          <div className="absolute bottom-2 left-2 z-10 flex flex-wrap gap-1">
+            <Badge variant="outline" className="bg-black/50 backdrop-blur-md border-yellow-500/30 text-yellow-300 text-xs gap-1">
+              <Zap className="h-3 w-3" />
+              {tickInfo.tickMs}ms ticks
+            </Badge>
+            {Object.entries(tickInfo.latency).map(([seat, latency]) => (
+              <Badge key={seat} variant="outline" className="bg-black/50 backdrop-blur-md border-white/10 text-white text-xs">
+                {seat}: {latency.avgMs ?? "-"}ms avg, {latency.missedTicks} missed
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {state.gameOver && (
           <div className="absolute inset-0 bg-black/70 rounded-xl flex items-center justify-center">
             <div className="bg-zinc-800/95 dark:bg-zinc-900/90 rounded-xl p-6 text-center border border-zinc-600 dark:border-white/10">
-              <h3 className="text-xl font-bold text-red-400">Game Over!</h3>
-              <p className="text-zinc-300 dark:text-zinc-400 mt-1">Final Score: {state.score}</p>
+              <h3 className="text-xl font-bold text-red-400">
+                {!state.opponent ? "Game Over!"
+                  : state.winner === "draw" ? "Draw!"
+                  : `${state.winner === "player" ? pvpSeats[0] : pvpSeats[1]} wins!`}
+              </h3>
+              <p className="text-zinc-300 dark:text-zinc-400 mt-1">
+                {state.opponent ? `Final Score: ${state.score} - ${state.opponent.score}` : `Final Score: ${state.score}`}
+              </p>
             </div>
           </div>
         )}
@@ -1370,11 +1433,12 @@ export function LiveGameBoard({
   // RENDER: Active room - Simplified 2-step onboarding
   // ==========================================================================
 
-  // MCP URL for this room
-  const mcpUrl = roomInfo?.mcpUrl || `${mcpBaseUrl}/${gameType}?room=${roomId}`;
+  // MCP URL for this room (Streamable HTTP endpoint for client configs)
+  const mcpUrl = `${mcpBaseUrl}/${gameType}/mcp?room=${roomId}`;
 
   // Derive connection state for the new animated status component
-  const hasAgent = !!(agentIdentity || pvpPlayers.white || pvpPlayers.black);
+  const pvpAgents = pvpSeats.map((seat) => pvpPlayers[seat]).filter(Boolean);
+  const hasAgent = !!(agentIdentity || pvpAgents.length > 0);
   const hasCommands = commands.length > 0;
   const connectionState = deriveConnectionState({
     isConnecting,
@@ -1385,7 +1449,7 @@ export function LiveGameBoard({
 
   // Get agent name for display
   const currentAgentName = gameMode === "pvp"
-    ? (pvpPlayers.white?.name || pvpPlayers.black?.name)
+    ? pvpAgents[0]?.name
     : agentIdentity?.name;
 
   // Human-readable room name
@@ -1439,10 +1503,11 @@ export function LiveGameBoard({
             <ConnectionStatus state={connectionState} agentName={currentAgentName} />
 
             {/* Agent display - PvP mode */}
-            {gameMode === "pvp" && (pvpPlayers.white || pvpPlayers.black) && (
+            {gameMode === "pvp" && pvpAgents.length > 0 && (
               <PvPAgents
                 players={pvpPlayers}
-                currentTurn={(gameState as ChessGameState)?.turn || "white"}
+                seats={pvpSeats}
+                currentSeat={turnSeat}
               />
             )}
 
@@ -5,32 +5,38 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import type { AgentIdentity } from "./agent-chip";
 
-export interface PvPPlayersState {
-  white: AgentIdentity | null;
-  black: AgentIdentity | null;
-}
+/** Agents by seat name (white/black in chess, X/O in tic-tac-toe, ...) */
+export type PvPPlayersState = Record<string, AgentIdentity | null>;
+
+export const DEFAULT_PVP_SEATS: [string, string] = ["white", "black"];
 
 interface PvPAgentsProps {
   players: PvPPlayersState;
-  currentTurn: "white" | "black";
+  /** Seat names in turn order, from the room */
+  seats: [string, string];
+  /** Seat whose turn it is, if the game is running */
+  currentSeat: string | null;
   className?: string;
 }
 
 /**
- * Component showing both PvP players (white vs black)
+ * Component showing both PvP players (first seat vs second seat)
  * Highlights whose turn it is
  */
-export function PvPAgents({ players, currentTurn, className }: PvPAgentsProps) {
+export function PvPAgents({ players, seats, currentSeat, className }: PvPAgentsProps) {
+  const [first, second] = seats;
+
   return (
     <div className={cn(
       "flex items-center justify-center gap-3 p-3 bg-zinc-800/50 rounded-lg border border-zinc-700/50",
       className
     )}>
-      {/* White player */}
+      {/* First player */}
       <PlayerSlot
-        color="white"
-        agent={players.white}
-        isActive={currentTurn === "white"}
+        seat={first}
+        isFirst
+        agent={players[first] ?? null}
+        isActive={currentSeat === first}
       />
 
       {/* VS divider */}
@@ -39,41 +45,45 @@ export function PvPAgents({ players, currentTurn, className }: PvPAgentsProps) {
         <span className="text-[10px] text-zinc-500 font-medium">VS</span>
       </div>
 
-      {/* Black player */}
+      {/* Second player */}
       <PlayerSlot
-        color="black"
-        agent={players.black}
-        isActive={currentTurn === "black"}
+        seat={second}
+        isFirst={false}
+        agent={players[second] ?? null}
+        isActive={currentSeat === second}
       />
     </div>
   );
 }
 
 interface PlayerSlotProps {
-  color: "white" | "black";
+  seat: string;
+  /** The first seat gets the light marker, the second the dark one */
+  isFirst: boolean;
   agent: AgentIdentity | null;
   isActive: boolean;
 }
 
-function PlayerSlot({ color, agent, isActive }: PlayerSlotProps) {
-  const isWhite = color === "white";
-
+function PlayerSlot({ seat, isFirst, agent, isActive }: PlayerSlotProps) {
   return (
     <div className={cn(
       "flex items-center gap-2 px-3 py-2 rounded-lg transition-all min-w-[140px]",
       isActive
-        ? isWhite
+        ? isFirst
           ? "bg-white/10 ring-2 ring-white/50"
           : "bg-zinc-700 ring-2 ring-zinc-500"
         : "opacity-60"
     )}>
-      {/* Color indicator */}
-      <div className={cn(
-        "w-4 h-4 rounded-full border flex-shrink-0",
-        isWhite
-          ? "bg-white border-zinc-400"
-          : "bg-zinc-900 border-zinc-600"
-      )} />
+      {/* Seat indicator */}
+      <div
+        title={seat}
+        className={cn(
+          "w-4 h-4 rounded-full border flex-shrink-0",
+          isFirst
+            ? "bg-white border-zinc-400"
+            : "bg-zinc-900 border-zinc-600"
+        )}
+      />
 
       {/* Agent info */}
       <div className="flex-1 min-w-0">
@@ -85,7 +95,7 @@ function PlayerSlot({ color, agent, isActive }: PlayerSlotProps) {
             </span>
           </div>
         ) : (
-          <span className="text-sm text-zinc-500">Waiting...</span>
+          <span className="text-sm text-zinc-500">Waiting for {seat}...</span>
         )}
 
         {agent && (
@@ -73,7 +73,8 @@ export function RoomConfig({ roomInfo }: RoomConfigProps) {
 
   const mcpBaseUrl =
     process.env.NEXT_PUBLIC_MCP_URL || "https://mcp.mcpchallenge.org";
-  const mcpUrl = `${mcpBaseUrl}/${roomInfo.gameType}?room=${roomInfo.roomId}`;
+  // Streamable HTTP endpoint (standard MCP transport)
+  const mcpUrl = `${mcpBaseUrl}/${roomInfo.gameType}/mcp?room=${roomInfo.roomId}`;
 
   // Client configurations
   const clients: ClientInfo[] = [
@@ -409,10 +410,10 @@ await mcp.call("agent.identify", {
                 </h4>
                 <div className="relative">
                   <pre className="bg-zinc-100 dark:bg-zinc-800 rounded-lg p-3 text-xs font-mono overflow-x-auto">
-                    {`# Each player calls /join to get their nonce and color
+                    {`# Each player calls /join to get their nonce and seat
 curl -X POST ${mcpBaseUrl}/${roomInfo.gameType}/join?room=ROOM_ID
 
-# Response: { "playerNonce": "abc123", "color": "white" }`}
+# Response: { "playerNonce": "abc123", "seat": "white", "seats": ["white", "black"] }`}
                   </pre>
                 </div>
               </div>
@@ -430,7 +431,7 @@ curl -X POST ${mcpBaseUrl}/${roomInfo.gameType}/join?room=ROOM_ID
       "args": [
         "-y",
         "@anthropic/mcp-proxy",
-        "${mcpBaseUrl}/${roomInfo.gameType}?room=ROOM_ID&player=PLAYER_NONCE"
+        "${mcpBaseUrl}/${roomInfo.gameType}/mcp?room=ROOM_ID&player=PLAYER_NONCE"
       ]
     }
   }
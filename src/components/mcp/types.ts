@@ -42,6 +42,13 @@ export interface SnakeGameState {
   score: number;
   gridSize: number;
   gameOver: boolean;
+  // Head-to-head: the second snake and the outcome
+  opponent?: {
+    snake: Array<{ x: number; y: number }>;
+    direction: "up" | "down" | "left" | "right";
+    score: number;
+  };
+  winner?: "player" | "opponent" | "draw";
 }
 
 export interface CanvasGameState {
@@ -82,7 +89,7 @@ export interface PolyBridgeGameState {
   }>;
   budgetUsed: number;
   budgetTotal: number;
-  testResult: "untested" | "testing" | "passed" | "failed";
+  testResult: "untested" | "passed" | "failed";
   vehicleProgress: number;
   levelComplete: boolean;
 }
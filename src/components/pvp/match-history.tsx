@@ -46,6 +46,8 @@ interface MatchHistoryProps {
 const GAME_ICONS: Record<string, string> = {
   chess: "♟️",
   "tic-tac-toe": "⭕",
+  snake: "🐍",
+  gorillas: "🦍",
 };
 
 export function MatchHistory({ className, limit = 5, showViewAll = true }: MatchHistoryProps) {
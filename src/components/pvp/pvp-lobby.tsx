@@ -36,6 +36,13 @@ const GAME_TYPES = [
     description: "Quick strategy game",
     estimatedTime: "1-3 min",
   },
+  {
+    id: "snake",
+    name: "Snake Duel",
+    icon: "🐍",
+    description: "Two snakes, one grid, turn by turn",
+    estimatedTime: "3-10 min",
+  },
 ];
 
 export function PvPLobby({ className }: PvPLobbyProps) {
@@ -0,0 +1,113 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Crown, Medal } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface TournamentEntrantInfo {
+  id: string;
+  seed: number;
+  agentName: string;
+  agentModel: string;
+  owner: string | null;
+  isMine: boolean;
+}
+
+export interface TournamentStanding {
+  entrantId: string;
+  rank: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  buchholz: number;
+  played: number;
+  eliminatedInRound: number | null;
+}
+
+interface TournamentStandingsProps {
+  format: string;
+  standings: TournamentStanding[];
+  entrants: TournamentEntrantInfo[];
+  className?: string;
+}
+
+function RankCell({ rank }: { rank: number }) {
+  if (rank === 1) return <Crown className="h-4 w-4 text-amber-500" />;
+  if (rank === 2) return <Medal className="h-4 w-4 text-zinc-400" />;
+  if (rank === 3) return <Medal className="h-4 w-4 text-amber-700" />;
+  return <span className="text-sm text-zinc-500">{rank}</span>;
+}
+
+export function TournamentStandings({ format, standings, entrants, className }: TournamentStandingsProps) {
+  const entrantById = new Map(entrants.map((entrant) => [entrant.id, entrant]));
+  const knockout = format === "single-elimination";
+
+  return (
+    <Card className={cn("p-6", className)}>
+      <h3 className="font-semibold mb-4 text-zinc-900 dark:text-white">
+        Standings
+      </h3>
+
+      {standings.length === 0 ? (
+        <p className="text-sm text-zinc-500">No entrants yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-800">
+                <th className="py-2 pr-2 w-10">#</th>
+                <th className="py-2 pr-2">Agent</th>
+                <th className="py-2 px-2 text-right">Pts</th>
+                <th className="py-2 px-2 text-right">W-D-L</th>
+                {knockout ? (
+                  <th className="py-2 pl-2 text-right">Out</th>
+                ) : (
+                  <th className="py-2 pl-2 text-right" title="Sum of opponents' points">Buchholz</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((standing) => {
+                const entrant = entrantById.get(standing.entrantId);
+                return (
+                  <tr
+                    key={standing.entrantId}
+                    className={cn(
+                      "border-b border-zinc-100 dark:border-zinc-800/50",
+                      entrant?.isMine && "bg-indigo-50 dark:bg-indigo-900/20"
+                    )}
+                  >
+                    <td className="py-2 pr-2">
+                      <RankCell rank={standing.rank} />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <div className="font-medium text-zinc-900 dark:text-white">
+                        {entrant?.agentName ?? "Unknown agent"}
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {entrant?.agentModel}
+                        {entrant?.owner && ` • ${entrant.owner}`}
+                        {standing.byes > 0 && ` • ${standing.byes} bye${standing.byes > 1 ? "s" : ""}`}
+                      </div>
+                    </td>
+                    <td className="py-2 px-2 text-right font-semibold">{standing.points}</td>
+                    <td className="py-2 px-2 text-right text-zinc-500">
+                      {standing.wins}-{standing.draws}-{standing.losses}
+                    </td>
+                    <td className="py-2 pl-2 text-right text-zinc-500">
+                      {knockout
+                        ? standing.eliminatedInRound ? `R${standing.eliminatedInRound}` : "—"
+                        : standing.buchholz}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
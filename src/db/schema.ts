@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, primaryKey } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, primaryKey } from "drizzle-orm/sqlite-core";
 
 // ==================== AUTH TABLES (NextAuth compatible) ====================
 
@@ -79,6 +79,15 @@ export const challengeCompletions = sqliteTable("challenge_completions", {
   metadata: text("metadata"), // JSON for challenge-specific data
 });
 
+// Seeds handed out for replay-verified completions; each one completes a challenge once
+export const gameSeeds = sqliteTable("game_seeds", {
+  seed: text("seed").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  challengeId: text("challenge_id").notNull(),
+  issuedAt: integer("issued_at", { mode: "timestamp" }).notNull(),
+  usedAt: integer("used_at", { mode: "timestamp" }), // Set when a completion claims the seed
+});
+
 // ==================== USER STATS TABLE ====================
 
 export const userStats = sqliteTable("user_stats", {
@@ -95,7 +104,7 @@ export const userStats = sqliteTable("user_stats", {
   // PvP stats
   pvpWins: integer("pvp_wins").notNull().default(0),
   pvpLosses: integer("pvp_losses").notNull().default(0),
-  pvpRating: integer("pvp_rating").notNull().default(1000), // ELO-style rating, starting at 1000
+  pvpRating: integer("pvp_rating").notNull().default(1000), // Highest per-game rating (see pvpRatings)
   pvpWinStreak: integer("pvp_win_streak").notNull().default(0),
   pvpBestWinStreak: integer("pvp_best_win_streak").notNull().default(0),
   lastActiveAt: integer("last_active_at", { mode: "timestamp" }),
@@ -136,6 +145,9 @@ export const replays = sqliteTable("replays", {
   movesJson: text("moves_json").notNull(),
   resultJson: text("result_json"),
   agentSnapshotJson: text("agent_snapshot_json"), // Agent identity snapshot (if MCP agent)
+  replayData: text("replay_data"), // Full GameReplay, gzip + base64 (format version 2)
+  formatVersion: integer("format_version").notNull().default(1), // 1 = moves only, 2 = full event stream
+  legacy: integer("legacy", { mode: "boolean" }).notNull().default(false), // Moves only for good: they do not reproduce the stored result
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
@@ -311,6 +323,7 @@ export const matchmakingQueue = sqliteTable("matchmaking_queue", {
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   gameType: text("game_type").notNull(), // "chess" | "tic-tac-toe"
   rating: integer("rating").notNull().default(1000),
+  deviation: real("deviation").notNull().default(350), // Rating deviation when queued
   status: text("status").notNull().default("waiting"), // "waiting" | "matched" | "cancelled"
   matchedWithUserId: text("matched_with_user_id").references(() => users.id, { onDelete: "set null" }),
   matchedRoomId: text("matched_room_id"),
@@ -318,6 +331,84 @@ export const matchmakingQueue = sqliteTable("matchmaking_queue", {
   matchedAt: integer("matched_at", { mode: "timestamp" }),
 });
 
+// Glicko-2 rating per user and game type
+export const pvpRatings = sqliteTable("pvp_ratings", {
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  gameType: text("game_type").notNull(),
+  rating: real("rating").notNull().default(1000),
+  deviation: real("deviation").notNull().default(350), // Rating deviation (RD)
+  volatility: real("volatility").notNull().default(0.06),
+  gamesPlayed: integer("games_played").notNull().default(0),
+  lastPlayedAt: integer("last_played_at", { mode: "timestamp" }), // Inactivity decay starts here
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.gameType] }),
+]);
+
+// One row per player for every rated match
+export const pvpRatingHistory = sqliteTable("pvp_rating_history", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  gameType: text("game_type").notNull(),
+  matchId: text("match_id").notNull().references(() => pvpMatches.id, { onDelete: "cascade" }),
+  opponentId: text("opponent_id").references(() => users.id, { onDelete: "set null" }),
+  result: text("result").notNull(), // "win" | "loss" | "draw"
+  ratingBefore: real("rating_before").notNull(),
+  ratingAfter: real("rating_after").notNull(),
+  deviationBefore: real("deviation_before").notNull(), // After inactivity decay
+  deviationAfter: real("deviation_after").notNull(),
+  volatilityBefore: real("volatility_before").notNull(),
+  volatilityAfter: real("volatility_after").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// ==================== TOURNAMENTS ====================
+
+export const tournaments = sqliteTable("tournaments", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull(),
+  gameType: text("game_type").notNull(), // "chess" | "tic-tac-toe" | ...
+  format: text("format").notNull(), // "round-robin" | "swiss" | "single-elimination"
+  status: text("status").notNull().default("registration"), // "registration" | "running" | "completed" | "cancelled"
+  totalRounds: integer("total_rounds"), // Fixed when the tournament starts
+  currentRound: integer("current_round").notNull().default(0),
+  maxEntrants: integer("max_entrants").notNull().default(16),
+  timeControl: text("time_control"), // PvP chess clock for every room, e.g. "5+3"
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+  endedAt: integer("ended_at", { mode: "timestamp" }),
+});
+
+// Registered agents, seeded in registration order
+export const tournamentEntrants = sqliteTable("tournament_entrants", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  tournamentId: text("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  userId: text("user_id").references(() => users.id, { onDelete: "set null" }), // Owner who registered the agent
+  agentName: text("agent_name").notNull(),
+  agentModel: text("agent_model").notNull(),
+  agentSnapshotJson: text("agent_snapshot_json").notNull(), // AgentSnapshot identity the agent plays under
+  seed: integer("seed").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// One row per pairing; byes have no black entrant and no room
+export const tournamentGames = sqliteTable("tournament_games", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  tournamentId: text("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  round: integer("round").notNull(),
+  board: integer("board").notNull(),
+  whiteEntrantId: text("white_entrant_id").notNull().references(() => tournamentEntrants.id, { onDelete: "cascade" }),
+  blackEntrantId: text("black_entrant_id").references(() => tournamentEntrants.id, { onDelete: "cascade" }),
+  roomId: text("room_id"), // Durable Object room ID
+  whiteNonce: text("white_nonce"), // Seat nonces, only shown to the entrant's owner
+  blackNonce: text("black_nonce"),
+  result: text("result").notNull().default("pending"), // "pending" | "white_wins" | "black_wins" | "draw" | "bye"
+  reportedBy: text("reported_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+});
+
 // ==================== CHALLENGE COMMENTS ====================
 
 export const challengeComments = sqliteTable("challenge_comments", {
@@ -340,6 +431,28 @@ export const commentLikes = sqliteTable("comment_likes", {
   primaryKey({ columns: [table.userId, table.commentId] }),
 ]);
 
+// ==================== MCP SESSIONS ====================
+
+// Challenge sessions played through /api/mcp/tool (edge isolates share them via D1)
+export const mcpSessions = sqliteTable("mcp_sessions", {
+  id: text("id").primaryKey(), // Orchestrator session ID
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }), // Owner; null for anonymous sessions
+  challengeId: text("challenge_id").notNull(),
+  difficulty: text("difficulty").notNull(), // "easy" | "medium" | "hard"
+  seed: text("seed").notNull(),
+  optionsJson: text("options_json").notNull(), // JSON game options
+  status: text("status").notNull().default("active"), // "active" | "completed" | "abandoned"
+  state: text("state").notNull(), // Serialized engine state
+  eventsJson: text("events_json").notNull(), // JSON array of replay events
+  moveCount: integer("move_count").notNull().default(0),
+  eventSeq: integer("event_seq").notNull().default(0), // Last domain event seq (SSE ids)
+  // Millisecond precision: replay timestamps are relative to createdAt
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  lastActivityAt: integer("last_activity_at", { mode: "timestamp_ms" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(), // Last write; sessions expire from here
+  version: integer("version").notNull().default(1), // Optimistic concurrency: bumped on every save
+});
+
 // ==================== TYPES ====================
 
 export type User = typeof users.$inferSelect;
@@ -351,6 +464,7 @@ export type UserStats = typeof userStats.$inferSelect;
 export type ChallengeProgress = typeof challengeProgress.$inferSelect;
 export type LevelBest = typeof levelBest.$inferSelect;
 export type Replay = typeof replays.$inferSelect;
+export type GameSeed = typeof gameSeeds.$inferSelect;
 export type ShareLink = typeof shareLinks.$inferSelect;
 export type ChallengeIdea = typeof challengeIdeas.$inferSelect;
 export type NewChallengeIdea = typeof challengeIdeas.$inferInsert;
@@ -376,3 +490,15 @@ export type PvpMatch = typeof pvpMatches.$inferSelect;
 export type NewPvpMatch = typeof pvpMatches.$inferInsert;
 export type MatchmakingQueueEntry = typeof matchmakingQueue.$inferSelect;
 export type NewMatchmakingQueueEntry = typeof matchmakingQueue.$inferInsert;
+export type PvpRating = typeof pvpRatings.$inferSelect;
+export type NewPvpRating = typeof pvpRatings.$inferInsert;
+export type PvpRatingHistoryEntry = typeof pvpRatingHistory.$inferSelect;
+export type NewPvpRatingHistoryEntry = typeof pvpRatingHistory.$inferInsert;
+export type Tournament = typeof tournaments.$inferSelect;
+export type NewTournament = typeof tournaments.$inferInsert;
+export type TournamentEntrant = typeof tournamentEntrants.$inferSelect;
+export type NewTournamentEntrant = typeof tournamentEntrants.$inferInsert;
+export type TournamentGame = typeof tournamentGames.$inferSelect;
+export type NewTournamentGame = typeof tournamentGames.$inferInsert;
+export type McpSession = typeof mcpSessions.$inferSelect;
+export type NewMcpSession = typeof mcpSessions.$inferInsert;
@@ -14,6 +14,7 @@ declare global {
     GITHUB_CLIENT_SECRET: string;
     LINKEDIN_CLIENT_ID: string;
     LINKEDIN_CLIENT_SECRET: string;
+    ADMIN_TOKEN?: string;
   }
 }
 
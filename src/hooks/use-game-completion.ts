@@ -2,8 +2,15 @@
 
 import { useState, useCallback } from "react";
 import { useSession } from "next-auth/react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
 
 interface CompletionResult {
+  /**
+   * Recorded game, played from a seed issued by requestGameSeed and verified
+   * on the server. Without it the completion is recorded unverified and earns
+   * no points or achievements.
+   */
+  replay?: GameReplay;
   score?: number;
   winner?: string;
   moves?: number;
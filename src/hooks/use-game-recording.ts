@@ -0,0 +1,100 @@
+"use client";
+
+import { useCallback, useMemo, useRef } from "react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
+import { requestGameSeed } from "@/lib/game-completion";
+import { GameRecording, type RecordedTurn } from "@/lib/game-recording";
+
+/**
+ * Record website games as verifiable replays.
+ *
+ * Usage:
+ * ```tsx
+ * const recording = useGameRecording("lightsout");
+ *
+ * // On new game (null when signed out: play unrecorded)
+ * const game = await recording.start({ difficulty: "easy" });
+ *
+ * // On each move, render the engine's answer
+ * const turn = recording.play("toggle 2,3");
+ *
+ * // On game end
+ * submitCompletion({ replay: recording.buildReplay() });
+ * ```
+ */
+export function useGameRecording(challengeId: string) {
+  const recordingRef = useRef<GameRecording | null>(null);
+  const generationRef = useRef(0);
+  // Moves played while the seed is on its way, replayed once it arrives.
+  // Games against the AI wait for start() instead, to show the AI's replies.
+  const pendingRef = useRef<string[] | null>(null);
+
+  /**
+   * Deal a game from a server-issued seed
+   */
+  const start = useCallback(
+    async (options: Record<string, unknown> = {}): Promise<GameRecording | null> => {
+      const generation = ++generationRef.current;
+      recordingRef.current = null;
+      pendingRef.current = [];
+
+      const seed = await requestGameSeed(challengeId);
+      // Another game started while the seed was on its way
+      if (generation !== generationRef.current) return null;
+
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      if (!seed) return null;
+
+      const recording = new GameRecording(challengeId, seed, options);
+      if (!pending.every((move) => recording.play(move))) return null;
+      recordingRef.current = recording;
+      return recording;
+    },
+    [challengeId]
+  );
+
+  /**
+   * Stop recording the current game; it completes unverified
+   */
+  const stop = useCallback(() => {
+    generationRef.current++;
+    recordingRef.current = null;
+    pendingRef.current = null;
+  }, []);
+
+  /**
+   * Play a move in the recorded game (null when not recording or rejected)
+   */
+  const play = useCallback(
+    (move: string): RecordedTurn | null => {
+      if (pendingRef.current) {
+        pendingRef.current.push(move);
+        return null;
+      }
+
+      const turn = recordingRef.current?.play(move) ?? null;
+      // A move the engine did not follow leaves the recording out of step
+      if (!turn) stop();
+      return turn;
+    },
+    [stop]
+  );
+
+  const undo = useCallback((): RecordedTurn | null => {
+    if (pendingRef.current) {
+      pendingRef.current.pop();
+      return null;
+    }
+    return recordingRef.current?.undo() ?? null;
+  }, []);
+
+  const buildReplay = useCallback((): GameReplay | undefined => {
+    return recordingRef.current?.build();
+  }, []);
+
+  return useMemo(
+    () => ({ start, stop, play, undo, buildReplay }),
+    [start, stop, play, undo, buildReplay]
+  );
+}
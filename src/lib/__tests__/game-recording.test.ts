@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { lightsOutEngine, type LightsOutState } from "@mcpchallenge/game-engines";
+import { GameRecording } from "../game-recording";
+import { verifyReplay } from "../replay-verification";
+
+/**
+ * Play the moves chosen by `next` until the game is over
+ */
+function playOut(recording: GameRecording, next: (recording: GameRecording) => string) {
+  while (!recording.isOver) {
+    expect(recording.play(next(recording))).not.toBeNull();
+  }
+}
+
+describe("GameRecording", () => {
+  it("records a game against the AI that the server verifies", () => {
+    const recording = new GameRecording("tic-tac-toe", "recorded", { symbol: "O" });
+    expect(recording.opening.aiMoves).toHaveLength(1);
+
+    playOut(recording, (r) => String((r.current as unknown as { board: unknown[] }).board.indexOf(null)));
+
+    const verification = verifyReplay("tic-tac-toe", "user-1", recording.build());
+    expect(verification.verified).toBe(true);
+  });
+
+  it("rejects moves the engine does not accept", () => {
+    const recording = new GameRecording("tic-tac-toe", "rejected");
+    expect(recording.play("9")).toBeNull();
+    expect(recording.play("4")?.aiMoves).toHaveLength(1);
+  });
+
+  it("leaves no trace of an undone move in the replay", () => {
+    const recording = new GameRecording("lightsout", "undo", { difficulty: "easy" });
+    const start = recording.current as unknown as LightsOutState;
+
+    recording.play("toggle 0,0");
+    const undone = recording.undo().state as unknown as LightsOutState;
+    expect(undone.grid).toEqual(start.grid);
+    expect(undone.toggleCount).toBe(0);
+
+    const solution = lightsOutEngine.solve!(start)!;
+    for (const move of solution.moves) {
+      recording.play(lightsOutEngine.formatMove(move));
+    }
+
+    const verification = verifyReplay("lightsout", "user-1", recording.build(), {
+      winner: "player",
+      moves: solution.moves.length,
+    });
+    expect(verification.verified).toBe(true);
+    if (verification.verified) {
+      expect(verification.completion.timeSeconds).toBeUndefined();
+    }
+  });
+
+  it("needs an engine-backed challenge", () => {
+    expect(() => new GameRecording("mcp-basics", "seed")).toThrow(/no game engine/);
+  });
+});
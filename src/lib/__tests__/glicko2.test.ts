@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyInactivity,
+  DEFAULT_DEVIATION,
+  defaultRating,
+  rateMatch,
+  ratePlayer,
+  type GlickoRating,
+} from "../glicko2";
+import { matchmakingWindow } from "../pvp-ratings";
+
+const DAY = 24 * 60 * 60 * 1000;
+const rating = (value: number, deviation: number, volatility = 0.06): GlickoRating => ({
+  rating: value,
+  deviation,
+  volatility,
+});
+
+describe("ratePlayer", () => {
+  // Glickman's worked example (1500 / 200 / 0.06), one game per rating period;
+  // the scale is centred on 1000 here, which only shifts every rating by 500
+  it.each([
+    { opponent: rating(900, 30), score: 1, expected: rating(1063.56, 175.4, 0.06) },
+    { opponent: rating(1050, 100), score: 0, expected: rating(926.69, 175.9, 0.06) },
+    { opponent: rating(1200, 300), score: 0.5, expected: rating(1028.74, 186.98, 0.06) },
+  ])("matches the reference result for score $score", ({ opponent, score, expected }) => {
+    const result = ratePlayer(rating(1000, 200), opponent, score);
+
+    expect(result.rating).toBeCloseTo(expected.rating, 1);
+    expect(result.deviation).toBeCloseTo(expected.deviation, 1);
+    expect(result.volatility).toBeCloseTo(expected.volatility, 4);
+  });
+
+  it("moves an uncertain player further than an established one", () => {
+    const opponent = defaultRating();
+    const newcomer = ratePlayer(defaultRating(), opponent, 1);
+    const veteran = ratePlayer(rating(1000, 50), opponent, 1);
+
+    expect(newcomer.rating - 1000).toBeGreaterThan(veteran.rating - 1000);
+    expect(newcomer.deviation).toBeLessThan(DEFAULT_DEVIATION);
+  });
+
+  it("keeps the deviation above its floor", () => {
+    let player = defaultRating();
+    for (let i = 0; i < 200; i++) {
+      player = ratePlayer(player, defaultRating(), 0.5);
+    }
+    expect(player.deviation).toBeGreaterThanOrEqual(30);
+  });
+});
+
+describe("rateMatch", () => {
+  it("rates both sides of the same game", () => {
+    const { a, b } = rateMatch(defaultRating(), defaultRating(), 1);
+    expect(a.rating).toBeGreaterThan(1000);
+    expect(b.rating).toBeLessThan(1000);
+    expect(a.rating - 1000).toBeCloseTo(1000 - b.rating, 6);
+  });
+
+  it("leaves equal players level after a draw", () => {
+    const { a, b } = rateMatch(defaultRating(), defaultRating(), 0.5);
+    expect(a.rating).toBeCloseTo(1000, 6);
+    expect(b.rating).toBeCloseTo(1000, 6);
+  });
+});
+
+describe("applyInactivity", () => {
+  it("widens the deviation with idle days, up to the unrated deviation", () => {
+    const player = rating(1200, 60);
+    const now = new Date(100 * DAY);
+
+    expect(applyInactivity(player, null, now)).toBe(player);
+    expect(applyInactivity(player, now, now)).toBe(player);
+
+    const week = applyInactivity(player, new Date(now.getTime() - 7 * DAY), now);
+    const year = applyInactivity(player, new Date(now.getTime() - 365 * DAY), now);
+    expect(week.deviation).toBeGreaterThan(60);
+    expect(year.deviation).toBeGreaterThan(week.deviation);
+    expect(applyInactivity(player, new Date(0), new Date(100_000 * DAY)).deviation).toBe(DEFAULT_DEVIATION);
+    expect(week.rating).toBe(1200);
+  });
+});
+
+describe("matchmakingWindow", () => {
+  it("starts wider for uncertain players and widens while they wait", () => {
+    expect(matchmakingWindow(50, 0)).toBe(200);
+    expect(matchmakingWindow(DEFAULT_DEVIATION, 0)).toBe(700);
+    expect(matchmakingWindow(50, 60_000)).toBe(300);
+    expect(matchmakingWindow(50, 60 * 60_000)).toBe(800);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInMemorySessionStore,
+  createMCPOrchestrator,
+  type SessionStore,
+} from "@mcpchallenge/challenge-registry";
+import { getChallengeRegistry } from "../challenge-catalog";
+
+function orchestrator(store: SessionStore) {
+  return createMCPOrchestrator(getChallengeRegistry(), { store });
+}
+
+async function startTicTacToe(store: SessionStore): Promise<string> {
+  const result = await orchestrator(store).handleToolCall("start_challenge", {
+    challengeId: "tic-tac-toe",
+    difficulty: "easy",
+    seed: "session-test",
+  });
+  expect(result.success).toBe(true);
+  return (result.data as { sessionId: string }).sessionId;
+}
+
+describe("orchestrator session persistence", () => {
+  it("continues a session on another orchestrator sharing the store", async () => {
+    const store = createInMemorySessionStore();
+    const sessionId = await startTicTacToe(store);
+
+    const move = await orchestrator(store).handleToolCall("challenge_move", { sessionId, move: "4" });
+    expect(move.success).toBe(true);
+
+    const snapshot = await store.load(sessionId as never);
+    expect(snapshot?.version).toBe(2);
+    expect(snapshot?.moveCount).toBeGreaterThan(0);
+  });
+
+  it("rejects a write based on a stale version", async () => {
+    const store = createInMemorySessionStore();
+    const sessionId = await startTicTacToe(store);
+    const snapshot = (await store.load(sessionId as never))!;
+
+    await store.save({ ...snapshot, version: snapshot.version + 1 });
+    await expect(store.save({ ...snapshot, version: snapshot.version + 1 })).rejects.toThrow(
+      /changed by another request/
+    );
+  });
+
+  it("lets only one of two concurrent moves win", async () => {
+    const store = createInMemorySessionStore();
+    const sessionId = await startTicTacToe(store);
+
+    const [a, b] = await Promise.all([
+      orchestrator(store).handleToolCall("challenge_move", { sessionId, move: "0" }),
+      orchestrator(store).handleToolCall("challenge_move", { sessionId, move: "8" }),
+    ]);
+
+    expect([a.success, b.success].sort()).toEqual([false, true]);
+    expect([a, b].find((r) => !r.success)?.error).toMatch(/changed by another request/);
+  });
+});
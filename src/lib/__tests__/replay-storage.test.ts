@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  bridgeEngine,
+  createEngineExecutor,
+  ReplayRecorder,
+  type GameState,
+  type Seed,
+} from "@mcpchallenge/challenge-registry";
+import { getEngine, lightsOutEngine } from "@mcpchallenge/game-engines";
+import type { Replay } from "@/db/schema";
+import {
+  compressReplay,
+  decompressReplay,
+  loadReplay,
+  toReplayColumns,
+  upgradeLegacyReplay,
+  type StoredReplayResult,
+} from "../replay-storage";
+
+function legacyRow(challengeId: string, seed: string, moves: unknown[], result: StoredReplayResult | null): Replay {
+  return {
+    id: "replay-1",
+    userId: null,
+    challengeId,
+    levelId: null,
+    seed,
+    movesJson: JSON.stringify(moves),
+    resultJson: result && JSON.stringify(result),
+    agentSnapshotJson: null,
+    replayData: null,
+    formatVersion: 1,
+    legacy: false,
+    createdAt: new Date(0),
+  };
+}
+
+/**
+ * Moves that win the seeded Lights Out board, as a legacy client stored them
+ */
+function lightsOutWin(seed: string): string[] {
+  const solution = lightsOutEngine.solve!(lightsOutEngine.newGame({}, seed))!;
+  return solution.moves.map((move) => lightsOutEngine.formatMove(move));
+}
+
+/**
+ * A finished tic-tac-toe game against the AI
+ */
+function playTicTacToe(seed: string) {
+  const executor = createEngineExecutor(bridgeEngine(getEngine("tictactoe")!));
+  const recorder = new ReplayRecorder<unknown>();
+  const init = executor.initGame({}, seed as Seed);
+  recorder.recordStart({ options: {}, seed: seed as Seed, initialState: init.serialized });
+
+  let state: GameState = init.state;
+  while (!executor.isGameOver(state)) {
+    if (state.turn === "opponent") {
+      const ai = executor.executeAI(state, undefined, seed as Seed);
+      if (!ai.hasMove) throw new Error("AI has no move");
+      recorder.recordAIMove(ai);
+      state = ai.state;
+    } else {
+      const move = executor.executeMove(state, executor.getLegalMoves(state)[0]);
+      if (!move.ok) throw new Error(move.error.message);
+      recorder.recordPlayerMove(move);
+      state = move.state;
+    }
+  }
+
+  const result = executor.getResult(state)!;
+  recorder.recordEnd({ result, finalState: executor.serialize(state), reason: "completed" });
+  return recorder.build({ challengeId: "tic-tac-toe", gameId: "game-1", seed: seed as Seed, options: {}, result });
+}
+
+describe("replay compression", () => {
+  it("round-trips a replay", async () => {
+    const replay = playTicTacToe("compress");
+    expect(await decompressReplay(await compressReplay(replay))).toEqual(replay);
+  });
+
+  it("loads version 2 rows and nothing for moves-only rows", async () => {
+    const replay = playTicTacToe("load");
+    const row = legacyRow("tic-tac-toe", "load", [], null);
+
+    expect(await loadReplay(row)).toBeNull();
+    expect(await loadReplay({ ...row, ...(await toReplayColumns(replay)) })).toEqual(replay);
+  });
+});
+
+describe("upgradeLegacyReplay", () => {
+  it("rebuilds a game whose moves reproduce the stored result", () => {
+    const moves = lightsOutWin("board-a");
+    const row = legacyRow("lightsout", "board-a", moves, { won: true, moves: moves.length, timeMs: 1000 });
+
+    const replay = upgradeLegacyReplay(row);
+    expect(replay?.result?.status).toBe("won");
+    expect(replay?.meta.playerMoves).toBe(moves.length);
+    expect(replay?.meta.custom).toEqual({ source: "legacy-upgrade" });
+  });
+
+  it("rebuilds both sides of a game against the AI", () => {
+    const game = playTicTacToe("both-sides");
+    const moves = game.events.flatMap((e) =>
+      e.type === "player_move" || e.type === "ai_move" ? [e.payload.moveString] : []
+    );
+    const winner = { won: "player", lost: "ai", draw: "draw" } as const;
+    const row = legacyRow("tic-tac-toe", "both-sides", moves, {
+      won: game.result!.status === "won",
+      moves: game.meta.playerMoves,
+      timeMs: 0,
+      winner: winner[game.result!.status],
+    });
+
+    expect(upgradeLegacyReplay(row)?.result).toEqual(game.result);
+  });
+
+  it("leaves games dealt from another board alone", () => {
+    // The moves were played on a Math.random board the stored seed does not deal
+    const moves = lightsOutWin("board-a");
+    const row = legacyRow("lightsout", "board-b", moves, { won: true, moves: moves.length, timeMs: 1000 });
+    expect(upgradeLegacyReplay(row)).toBeNull();
+  });
+
+  it("leaves rows whose stored result disagrees or is missing alone", () => {
+    const moves = lightsOutWin("board-a");
+    expect(upgradeLegacyReplay(
+      legacyRow("lightsout", "board-a", moves, { won: false, moves: moves.length, timeMs: 1000 })
+    )).toBeNull();
+    expect(upgradeLegacyReplay(legacyRow("lightsout", "board-a", moves, null))).toBeNull();
+  });
+
+  it("leaves unfinished games alone", () => {
+    const moves = lightsOutWin("board-a").slice(0, -1);
+    const row = legacyRow("lightsout", "board-a", moves, { won: false, moves: moves.length, timeMs: 1000 });
+    expect(upgradeLegacyReplay(row)).toBeNull();
+  });
+});
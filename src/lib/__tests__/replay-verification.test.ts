@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  bridgeEngine,
+  createEngineExecutor,
+  ReplayRecorder,
+  type GameReplay,
+  type GameState,
+  type Seed,
+} from "@mcpchallenge/challenge-registry";
+import { getEngine } from "@mcpchallenge/game-engines";
+import {
+  normalizeWinner,
+  requiresReplay,
+  validateReplay,
+  verifyReplay,
+} from "../replay-verification";
+
+/**
+ * Play tic-tac-toe against the AI, taking the first legal move each turn
+ */
+function playTicTacToe(seed: string, maxPlayerMoves = 9): GameReplay {
+  const executor = createEngineExecutor(bridgeEngine(getEngine("tictactoe")!));
+  const recorder = new ReplayRecorder<unknown>();
+  const init = executor.initGame({}, seed as Seed);
+  recorder.recordStart({ options: {}, seed: seed as Seed, initialState: init.serialized });
+
+  let state: GameState = init.state;
+  let playerMoves = 0;
+  while (!executor.isGameOver(state) && playerMoves < maxPlayerMoves) {
+    if (state.turn === "opponent") {
+      const ai = executor.executeAI(state, undefined, seed as Seed);
+      if (!ai.hasMove) break;
+      recorder.recordAIMove(ai);
+      state = ai.state;
+    } else {
+      const move = executor.executeMove(state, executor.getLegalMoves(state)[0]);
+      if (!move.ok) throw new Error(move.error.message);
+      recorder.recordPlayerMove(move);
+      state = move.state;
+      playerMoves++;
+    }
+  }
+
+  const result = executor.isGameOver(state) ? executor.getResult(state) : null;
+  if (result) {
+    recorder.recordEnd({ result, finalState: executor.serialize(state), reason: "completed" });
+  }
+  return recorder.build({
+    challengeId: "tic-tac-toe",
+    gameId: "game-1",
+    seed: seed as Seed,
+    options: {},
+    result: result ?? undefined,
+  });
+}
+
+function tamperFirstPlayerMove(replay: GameReplay): GameReplay {
+  const copy = JSON.parse(JSON.stringify(replay)) as GameReplay;
+  const event = copy.events.find((e) => e.type === "player_move") as {
+    payload: { stateAfter: string; stateBefore: string };
+  };
+  event.payload.stateAfter = event.payload.stateBefore;
+  return copy;
+}
+
+describe("verifyReplay", () => {
+  it("derives the completion from a finished game", () => {
+    const replay = playTicTacToe("seed-1");
+    const verification = verifyReplay("tic-tac-toe", "user-1", replay);
+
+    expect(verification.verified).toBe(true);
+    if (!verification.verified) return;
+    expect(verification.result).toEqual(replay.result);
+    expect(verification.completion.moves).toBe(replay.result?.totalMoves);
+    expect(verification.completion.winner).toBe(
+      { won: "player", lost: "ai", draw: "draw" }[replay.result!.status]
+    );
+  });
+
+  it("rejects a replay whose states were edited", () => {
+    const verification = verifyReplay("tic-tac-toe", "user-1", tamperFirstPlayerMove(playTicTacToe("seed-1")));
+    expect(verification).toMatchObject({ verified: false, status: 422, code: "STATE_MISMATCH" });
+  });
+
+  it("rejects unfinished games", () => {
+    const verification = verifyReplay("tic-tac-toe", "user-1", playTicTacToe("seed-1", 1));
+    expect(verification).toMatchObject({ verified: false, status: 422, error: "Replayed game is not finished" });
+  });
+
+  it("rejects claims that disagree with the replay", () => {
+    const replay = playTicTacToe("seed-1");
+    const verification = verifyReplay("tic-tac-toe", "user-1", replay, {
+      moves: (replay.result?.totalMoves ?? 0) + 1,
+    });
+    expect(verification).toMatchObject({ verified: false, error: "Reported moves does not match the replay" });
+  });
+
+  it("rejects replays for another challenge or user", () => {
+    const replay = playTicTacToe("seed-1");
+    expect(verifyReplay("chess", "user-1", replay)).toMatchObject({ verified: false, status: 400 });
+    expect(verifyReplay("tic-tac-toe", "user-2", { ...replay, userId: "user-1" })).toMatchObject({
+      verified: false,
+      status: 403,
+    });
+  });
+
+  it("rejects malformed replays", () => {
+    expect(verifyReplay("tic-tac-toe", "user-1", { events: [] })).toMatchObject({
+      verified: false,
+      status: 400,
+      error: "A valid game replay is required",
+    });
+  });
+});
+
+describe("validateReplay", () => {
+  it("accepts games in progress", () => {
+    expect(validateReplay("tic-tac-toe", null, playTicTacToe("seed-2", 1)).valid).toBe(true);
+  });
+
+  it("accepts the engine ID in place of the challenge slug", () => {
+    const replay = { ...playTicTacToe("seed-2"), challengeId: "tictactoe" };
+    expect(validateReplay("tic-tac-toe", null, replay).valid).toBe(true);
+  });
+
+  it("rejects edited replays", () => {
+    expect(validateReplay("tic-tac-toe", null, tamperFirstPlayerMove(playTicTacToe("seed-2")))).toMatchObject({
+      valid: false,
+      code: "STATE_MISMATCH",
+    });
+  });
+});
+
+describe("requiresReplay", () => {
+  it("is true for engine-backed challenges only", () => {
+    expect(requiresReplay("tic-tac-toe")).toBe(true);
+    expect(requiresReplay("chess")).toBe(true);
+    expect(requiresReplay("first-steps")).toBe(false);
+  });
+});
+
+describe("normalizeWinner", () => {
+  it("maps the names clients use for the computer to ai", () => {
+    expect(normalizeWinner("engine")).toBe("ai");
+    expect(normalizeWinner("computer")).toBe("ai");
+    expect(normalizeWinner("player")).toBe("player");
+    expect(normalizeWinner("draw")).toBe("draw");
+    expect(normalizeWinner("nobody")).toBeUndefined();
+  });
+});
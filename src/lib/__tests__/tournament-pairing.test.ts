@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeStandings,
+  pairRound,
+  plannedRounds,
+  type TournamentFormat,
+  type TournamentGameRecord,
+  type TournamentResult,
+} from "../tournament-pairing";
+
+const entrants = (n: number) => Array.from({ length: n }, (_, i) => `e${i + 1}`);
+
+// The lower seed (earlier in the list) wins every game
+const higherSeedWins = (ids: string[]) => (white: string, black: string): TournamentResult =>
+  ids.indexOf(white) < ids.indexOf(black) ? "white_wins" : "black_wins";
+
+function playTournament(
+  format: TournamentFormat,
+  ids: string[],
+  decide: (white: string, black: string) => TournamentResult = higherSeedWins(ids)
+): TournamentGameRecord[] {
+  const games: TournamentGameRecord[] = [];
+  for (let round = 1; round <= plannedRounds(format, ids.length); round++) {
+    pairRound(format, ids, games, round).forEach((pairing, index) => {
+      games.push({
+        ...pairing,
+        round,
+        board: index + 1,
+        result: pairing.blackId === null ? "bye" : decide(pairing.whiteId, pairing.blackId),
+      });
+    });
+  }
+  return games;
+}
+
+const matchups = (games: TournamentGameRecord[]) =>
+  games
+    .filter((game) => game.blackId !== null)
+    .map((game) => [game.whiteId, game.blackId!].sort().join("-"));
+
+describe("round-robin pairing", () => {
+  it("pairs everyone with everyone exactly once", () => {
+    for (const n of [4, 5, 6]) {
+      const games = playTournament("round-robin", entrants(n));
+      const played = matchups(games);
+
+      expect(played).toHaveLength((n * (n - 1)) / 2);
+      expect(new Set(played).size).toBe(played.length);
+    }
+  });
+
+  it("gives each entrant of an odd field one bye", () => {
+    const ids = entrants(5);
+    const byes = playTournament("round-robin", ids)
+      .filter((game) => game.result === "bye")
+      .map((game) => game.whiteId);
+    expect(byes.sort()).toEqual(ids);
+  });
+});
+
+describe("Swiss pairing", () => {
+  it("avoids rematches and repeat byes", () => {
+    const ids = entrants(7);
+    const games = playTournament("swiss", ids);
+    const played = matchups(games);
+    const byes = games.filter((game) => game.result === "bye").map((game) => game.whiteId);
+
+    expect(new Set(played).size).toBe(played.length);
+    expect(new Set(byes).size).toBe(byes.length);
+  });
+
+  it("pairs leaders against each other", () => {
+    const ids = entrants(8);
+    const games = playTournament("swiss", ids).filter((game) => game.round === 1);
+    const round2 = pairRound("swiss", ids, games, 2);
+
+    // The four round-1 winners meet each other
+    const winners = new Set(["e1", "e2", "e3", "e4"]);
+    for (const pairing of round2) {
+      expect(winners.has(pairing.whiteId)).toBe(winners.has(pairing.blackId!));
+    }
+  });
+
+  it("refuses to pair while a game is pending", () => {
+    const games: TournamentGameRecord[] = [
+      { round: 1, board: 1, whiteId: "e1", blackId: "e2", result: "pending" },
+    ];
+    expect(() => pairRound("swiss", entrants(2), games, 2)).toThrow(/decided/);
+  });
+});
+
+describe("single-elimination pairing", () => {
+  it("seeds the bracket so the top two seeds meet in the final", () => {
+    const ids = entrants(8);
+    const games = playTournament("single-elimination", ids);
+
+    const round1 = games.filter((game) => game.round === 1).map((game) => [game.whiteId, game.blackId]);
+    expect(round1).toEqual([["e1", "e8"], ["e4", "e5"], ["e2", "e7"], ["e3", "e6"]]);
+
+    const final = games.filter((game) => game.round === 3);
+    expect(final).toMatchObject([{ whiteId: "e1", blackId: "e2" }]);
+  });
+
+  it("gives the top seeds byes in a short field", () => {
+    const round1 = pairRound("single-elimination", entrants(6), [], 1);
+    const byes = round1.filter((pairing) => pairing.blackId === null).map((pairing) => pairing.whiteId);
+    expect(byes).toEqual(["e1", "e2"]);
+  });
+
+  it("advances the higher seed from a drawn game", () => {
+    const ids = entrants(4);
+    const games = playTournament("single-elimination", ids, () => "draw");
+    expect(computeStandings("single-elimination", ids, games)[0].entrantId).toBe("e1");
+  });
+});
+
+describe("standings", () => {
+  it("breaks ties on Buchholz", () => {
+    // e1 and e3 both score 1.5, but e3 beat the stronger opponent
+    const games: TournamentGameRecord[] = [
+      { round: 1, board: 1, whiteId: "e1", blackId: "e2", result: "white_wins" },
+      { round: 1, board: 2, whiteId: "e3", blackId: "e4", result: "white_wins" },
+      { round: 2, board: 1, whiteId: "e1", blackId: "e3", result: "draw" },
+      { round: 2, board: 2, whiteId: "e2", blackId: "e4", result: "black_wins" },
+    ];
+    const standings = computeStandings("swiss", entrants(4), games);
+
+    expect(standings.map((s) => [s.entrantId, s.points])).toEqual([
+      ["e3", 1.5],
+      ["e1", 1.5],
+      ["e4", 1],
+      ["e2", 0],
+    ]);
+    expect(standings[0].buchholz).toBeGreaterThan(standings[1].buchholz);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Challenge Catalog
+ *
+ * Registers every engine-backed challenge in the challenge-registry so the
+ * MCP orchestrator can list, start and play them.
+ */
+
+import {
+  achievement,
+  bridgeEngine,
+  getGlobalRegistry,
+  moves,
+  type AchievementDefinition,
+  type ChallengeDefinition,
+  type ChallengeId,
+  type ChallengeRegistry,
+  type GameEngine,
+  type GameState,
+  type LearningConcept,
+} from "@mcpchallenge/challenge-registry";
+import { challenges, type ChallengeCategory } from "./challenge-config";
+import { getChallengeEngine } from "./engine-bridge";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Learning concepts taught by each challenge category */
+const CATEGORY_CONCEPTS: Record<ChallengeCategory, LearningConcept[]> = {
+  strategy: ["tool_basics", "strategy", "state_management"],
+  arcade: ["real_time", "multi_step", "error_handling"],
+  puzzle: ["multi_step", "optimization", "state_management"],
+  educational: ["tool_basics", "optimization", "resource_management"],
+};
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+/**
+ * Build registry definitions for all challenges backed by a game engine
+ */
+export function buildChallengeDefinitions(): ChallengeDefinition<GameEngine<GameState, unknown>>[] {
+  return Object.values(challenges).flatMap((config) => {
+    const engine = getChallengeEngine(config.id);
+    if (!engine) return [];
+
+    return [
+      {
+        id: config.id as ChallengeId,
+        meta: {
+          name: config.name,
+          description: config.description,
+          difficulty: config.difficulty,
+          concepts: CATEGORY_CONCEPTS[config.category],
+          tags: [config.category],
+        },
+        engine: bridgeEngine(engine),
+        difficulties: ["easy", "medium", "hard"],
+        achievements: config.category === "puzzle" && engine.solve
+          ? [optimalAchievement(config.id)]
+          : [],
+        scoring: { basePoints: engine.metadata.points },
+      },
+    ];
+  });
+}
+
+/**
+ * Solvable puzzles: win in as few moves as the engine's solver
+ */
+function optimalAchievement(challengeId: string): AchievementDefinition {
+  return achievement()
+    .id(`${challengeId}-optimal`)
+    .name("Optimal")
+    .description("Win in the fewest moves possible, as proven by the solver")
+    .rarity("rare")
+    .points(50)
+    .when(moves.optimal())
+    .build();
+}
+
+/**
+ * Get the global registry with all challenges registered
+ * Registration happens once per isolate.
+ */
+export function getChallengeRegistry(): ChallengeRegistry {
+  const registry = getGlobalRegistry();
+  if (registry.size === 0) {
+    registry.registerAll(buildChallengeDefinitions());
+  }
+  return registry;
+}
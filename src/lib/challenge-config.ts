@@ -142,8 +142,9 @@ export const challenges: Record<string, ChallengeConfig> = {
       { name: "get_board", description: "Current board state (FEN, turn)" },
       { name: "get_legal_moves", description: "All legal moves" },
       { name: "make_move", params: "move", description: "Make a move (e4, Nf3, O-O)" },
-      { name: "new_game", params: "color?", description: "Start new game" },
+      { name: "new_game", params: "color?, opening?, pgn?", description: "Start new game (from a named opening or PGN)" },
       { name: "resign", description: "Resign game" },
+      { name: "get_pgn", description: "Export the game as annotated PGN" },
     ],
   },
   snake: {
@@ -161,7 +162,7 @@ export const challenges: Record<string, ChallengeConfig> = {
       { name: "get_state", description: "Get full game state (snake position, food, score, vision)" },
       { name: "look", description: "See what's in each direction (wall, food, body, empty)" },
       { name: "move", params: "direction", description: "Move snake (up/down/left/right)" },
-      { name: "new_game", description: "Start a new game" },
+      { name: "new_game", params: "mode?, maxMoves?", description: "Start a new game (mode \"pvp\" for two snakes head-to-head)" },
     ],
   },
   gorillas: {
@@ -199,6 +200,9 @@ export const challenges: Record<string, ChallengeConfig> = {
       { name: "undo", description: "Undo last move" },
       { name: "reset", description: "Reset current level" },
       { name: "load_level", params: "level", description: "Load specific level (1-50)" },
+      { name: "load_custom_level", params: "level", description: "Play a custom level file (JSON)" },
+      { name: "load_xsb", params: "xsb, index?, replay?", description: "Play a level from XSB/SOK text" },
+      { name: "export_xsb", description: "Export level and LURD moves as SOK" },
     ],
   },
   minesweeper: {
@@ -216,7 +220,9 @@ export const challenges: Record<string, ChallengeConfig> = {
       { name: "get_board", description: "Get current board state (revealed cells, flags)" },
       { name: "reveal", params: "x, y", description: "Reveal cell at position" },
       { name: "flag", params: "x, y", description: "Toggle flag on cell" },
-      { name: "new_game", params: "difficulty?", description: "Start new game (easy/medium/hard)" },
+      { name: "new_game", params: "difficulty?, board?, noGuess?", description: "Start new game (easy/medium/hard or a text board); noGuess deals a board solvable without guessing" },
+      { name: "export_board", description: "Export the board as plain text" },
+      { name: "get_probabilities", description: "Mine probability of every covered cell, with certain safe cells and mines" },
     ],
   },
   lightsout: {
@@ -251,7 +257,9 @@ export const challenges: Record<string, ChallengeConfig> = {
     mcpTools: [
       { name: "set_type", params: "type", description: "Set fractal type (mandelbrot, julia, sierpinski, tree)" },
       { name: "set_params", params: "params", description: "Set generation parameters" },
+      { name: "add_rule", params: "rule | symbol, replacement, condition?, probability?", description: "Add a plain, parametric (F(l) : l>2 -> ...) or context-sensitive (A<B>C -> ...) rule" },
       { name: "render", description: "Render current fractal" },
+      { name: "render_svg", params: "colorScheme?, precision?", description: "Render as print-quality SVG" },
       { name: "zoom", params: "x, y, factor", description: "Zoom into specific region" },
     ],
   },
@@ -290,6 +298,7 @@ export const challenges: Record<string, ChallengeConfig> = {
       { name: "get_neighbors", params: "x, y", description: "Get walkable neighbors of cell" },
       { name: "move", params: "direction", description: "Move agent (up/down/left/right)" },
       { name: "load_level", params: "level", description: "Load specific level (1-10)" },
+      { name: "load_custom_level", params: "level", description: "Play a custom level file (JSON)" },
       { name: "check_goal", description: "Check if agent reached goal" },
     ],
   },
@@ -328,6 +337,7 @@ export const challenges: Record<string, ChallengeConfig> = {
       { name: "remove_beam", params: "id", description: "Remove beam by ID" },
       { name: "simulate", description: "Run physics simulation" },
       { name: "reset", description: "Clear all beams" },
+      { name: "load_custom_level", params: "level", description: "Play a custom level file (JSON)" },
     ],
   },
 };
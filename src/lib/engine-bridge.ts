@@ -0,0 +1,43 @@
+/**
+ * Engine Bridge
+ *
+ * Maps challenges to the engines from @mcpchallenge/game-engines that back
+ * them. The engines are adapted for the registry with bridgeEngine from
+ * @mcpchallenge/challenge-registry.
+ */
+
+import {
+  getEngine,
+  type GameEngine as CoreGameEngine,
+  type GameState as CoreGameState,
+} from "@mcpchallenge/game-engines";
+
+// =============================================================================
+// Challenge → Engine Mapping
+// =============================================================================
+
+/**
+ * Challenge IDs (URL slugs) that differ from their engine ID
+ */
+const CHALLENGE_ENGINE_IDS: Record<string, string> = {
+  "tic-tac-toe": "tictactoe",
+  "canvas-draw": "canvas",
+  "poly-bridge": "polybridge",
+};
+
+/**
+ * Resolve the game engine backing a challenge (undefined for tutorials)
+ */
+export function getChallengeEngine(
+  challengeId: string
+): CoreGameEngine<CoreGameState, unknown> | undefined {
+  return getEngine(CHALLENGE_ENGINE_IDS[challengeId] ?? challengeId);
+}
+
+/**
+ * Engine ID for a PvP room, if the challenge's engine has a two-player mode
+ */
+export function getPvPEngineId(challengeId: string): string | undefined {
+  const engine = getChallengeEngine(challengeId);
+  return engine?.metadata.maxPlayers === 2 ? engine.metadata.id : undefined;
+}
@@ -2,8 +2,15 @@
 
 import { useSession } from "next-auth/react";
 import { useCallback, useState } from "react";
+import type { GameReplay } from "@mcpchallenge/challenge-registry";
 
 export interface GameResult {
+  /**
+   * Recorded game, played from a seed issued by requestGameSeed and verified
+   * on the server. Without it the completion is recorded unverified and earns
+   * no points or achievements.
+   */
+  replay?: GameReplay;
   score?: number;
   winner?: "player" | "ai" | "engine" | "computer" | "draw";
   moves?: number;
@@ -109,3 +116,19 @@ export async function submitGameCompletion(
     return null;
   }
 }
+
+/**
+ * Ask the server for the seed of a game whose replay will be submitted
+ * with the completion (null when signed out or the request fails)
+ */
+export async function requestGameSeed(challengeId: string): Promise<string | null> {
+  try {
+    const response = await fetch(`/api/challenges/${challengeId}/seed`, { method: "POST" });
+    if (!response.ok) return null;
+    const data = (await response.json()) as { seed?: string };
+    return data.seed ?? null;
+  } catch (error) {
+    console.error("Error requesting game seed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Game Recording
+ *
+ * Plays a website game through the engine that backs its challenge, dealt
+ * from a server-issued seed, and records it as a GameReplay. The completion
+ * endpoint re-executes that replay, so the game clients only render what the
+ * engine decided.
+ */
+
+import {
+  bridgeEngine,
+  createEngineExecutor,
+  ReplayRecorder,
+  type Difficulty,
+  type EngineExecutor,
+  type GameReplay,
+  type GameState,
+  type Seed,
+} from "@mcpchallenge/challenge-registry";
+import { getChallengeEngine } from "./engine-bridge";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RecordedTurn {
+  /** Engine state after the move and the opponent's replies */
+  readonly state: GameState;
+  /** Opponent replies in engine notation, in the order they were played */
+  readonly aiMoves: readonly string[];
+}
+
+// =============================================================================
+// Game Recording
+// =============================================================================
+
+export class GameRecording {
+  readonly challengeId: string;
+  readonly seed: string;
+
+  /** Opponent moves played before the player's first move */
+  readonly opening: RecordedTurn;
+
+  private readonly executor: EngineExecutor<GameState, unknown>;
+  private readonly options: Record<string, unknown>;
+  private readonly moves: string[] = [];
+  private recorder = new ReplayRecorder<unknown>();
+  private state: GameState;
+
+  constructor(challengeId: string, seed: string, options: Record<string, unknown> = {}) {
+    const engine = getChallengeEngine(challengeId);
+    if (!engine) {
+      throw new Error(`Challenge ${challengeId} has no game engine`);
+    }
+
+    this.challengeId = challengeId;
+    this.seed = seed;
+    this.options = options;
+    // Verification replays AI moves with the difficulty from the replay options
+    this.executor = createEngineExecutor(
+      bridgeEngine(engine, { defaultDifficulty: options.difficulty as Difficulty | undefined })
+    );
+
+    const init = this.executor.initGame(options, seed as Seed);
+    this.state = init.state;
+    this.recorder.recordStart({ options, seed: seed as Seed, initialState: init.serialized });
+    this.opening = { state: this.state, aiMoves: this.playAI() };
+  }
+
+  get current(): GameState {
+    return this.state;
+  }
+
+  get isOver(): boolean {
+    return this.executor.isGameOver(this.state);
+  }
+
+  /**
+   * Play the player's move and the opponent's replies; null if the engine
+   * rejects the move
+   */
+  play(move: string): RecordedTurn | null {
+    if (this.isOver) return null;
+
+    const result = this.executor.executeMove(this.state, move);
+    if (!result.ok) return null;
+
+    this.state = result.state;
+    this.moves.push(move);
+    this.recorder.recordPlayerMove({
+      move: result.move,
+      moveString: result.moveString,
+      stateBefore: result.stateBefore,
+      stateAfter: result.stateAfter,
+    });
+    return { state: this.state, aiMoves: this.playAI() };
+  }
+
+  /**
+   * Take back the player's last move (and the replies to it). The recording
+   * starts over from the seed, so the replay holds no trace of the undo.
+   */
+  undo(): RecordedTurn {
+    const moves = this.moves.splice(0, this.moves.length).slice(0, -1);
+
+    const init = this.executor.initGame(this.options, this.seed as Seed);
+    this.state = init.state;
+    this.recorder = new ReplayRecorder<unknown>();
+    this.recorder.recordStart({ options: this.options, seed: this.seed as Seed, initialState: init.serialized });
+
+    let turn: RecordedTurn = { state: this.state, aiMoves: this.playAI() };
+    for (const move of moves) {
+      turn = this.play(move) ?? turn;
+    }
+    return turn;
+  }
+
+  build(): GameReplay {
+    return this.recorder.build({
+      challengeId: this.challengeId,
+      gameId: this.state.gameId,
+      seed: this.seed as Seed,
+      options: this.options,
+      result: this.executor.getResult(this.state) ?? undefined,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  /**
+   * AI moves while it is the opponent's turn; records the end of the game
+   */
+  private playAI(): string[] {
+    const played: string[] = [];
+
+    while (!this.isOver && this.state.turn === "opponent") {
+      const startedAt = Date.now();
+      const ai = this.executor.executeAI(this.state, undefined, this.seed as Seed);
+      if (!ai.hasMove) break;
+
+      this.state = ai.state;
+      this.recorder.recordAIMove({
+        move: ai.move,
+        moveString: ai.moveString,
+        stateBefore: ai.stateBefore,
+        stateAfter: ai.stateAfter,
+        thinkTimeMs: Date.now() - startedAt,
+      });
+      played.push(ai.moveString);
+    }
+
+    if (this.isOver) {
+      this.recorder.recordEnd({
+        result: this.executor.getResult(this.state) ?? { status: "draw", totalMoves: this.moves.length },
+        finalState: this.executor.serialize(this.state),
+        reason: "completed",
+      });
+    }
+    return played;
+  }
+}
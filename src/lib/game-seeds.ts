@@ -0,0 +1,86 @@
+/**
+ * Game Seeds (D1)
+ *
+ * Replays submitted for a challenge completion must be played from a seed the
+ * server issued, so clients cannot pick easy boards, and each seed completes
+ * a challenge once.
+ */
+
+import { and, eq, isNull } from "drizzle-orm";
+import { generateSeed } from "@mcpchallenge/game-engines";
+import type { Database } from "@/db";
+import { gameSeeds } from "@/db/schema";
+
+/** How long an issued seed can be played before it expires */
+export const SEED_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type SeedClaimResult =
+  | { claimed: true; issuedAt: Date }
+  | { claimed: false; status: 403 | 409 | 422; error: string };
+
+/**
+ * Issue a fresh seed for a user to play a challenge with
+ */
+export async function issueGameSeed(
+  db: Database,
+  userId: string,
+  challengeId: string,
+  now: Date = new Date()
+): Promise<string> {
+  const seed = generateSeed();
+  await db.insert(gameSeeds).values({ seed, userId, challengeId, issuedAt: now });
+  return seed;
+}
+
+/**
+ * Check that a seed was issued to the user for the challenge and is unused
+ */
+export async function checkGameSeed(
+  db: Database,
+  userId: string,
+  challengeId: string,
+  seed: string,
+  now: Date = new Date()
+): Promise<SeedClaimResult> {
+  const row = await db
+    .select()
+    .from(gameSeeds)
+    .where(eq(gameSeeds.seed, seed))
+    .get();
+
+  if (!row || row.userId !== userId || row.challengeId !== challengeId) {
+    return { claimed: false, status: 403, error: "Replay seed was not issued for this challenge" };
+  }
+  if (row.usedAt) {
+    return { claimed: false, status: 409, error: "This game has already been submitted" };
+  }
+  if (now.getTime() - row.issuedAt.getTime() > SEED_TTL_MS) {
+    return { claimed: false, status: 422, error: "Replay seed has expired" };
+  }
+  return { claimed: true, issuedAt: row.issuedAt };
+}
+
+/**
+ * Mark a checked seed as used. Only one of two concurrent claims succeeds.
+ */
+export async function claimGameSeed(
+  db: Database,
+  userId: string,
+  challengeId: string,
+  seed: string,
+  now: Date = new Date()
+): Promise<SeedClaimResult> {
+  const check = await checkGameSeed(db, userId, challengeId, seed, now);
+  if (!check.claimed) return check;
+
+  const claimed = await db
+    .update(gameSeeds)
+    .set({ usedAt: now })
+    .where(and(eq(gameSeeds.seed, seed), isNull(gameSeeds.usedAt)))
+    .returning({ seed: gameSeeds.seed });
+
+  if (claimed.length === 0) {
+    return { claimed: false, status: 409, error: "This game has already been submitted" };
+  }
+  return check;
+}
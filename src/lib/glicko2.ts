@@ -0,0 +1,149 @@
+/**
+ * Glicko-2 Ratings
+ *
+ * Pure implementation of Glicko-2 (Glickman, 2012) for PvP matches. Every
+ * completed match is rated as its own rating period, and idle time between
+ * matches widens a player's rating deviation one period per day.
+ */
+
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+// Ratings start where the old ELO system did, so existing numbers stay comparable
+export const DEFAULT_RATING = 1000;
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+// System constant: how much volatility may change per period
+const TAU = 0.5;
+// Conversion between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+// Convergence tolerance of the volatility iteration
+const EPSILON = 0.000001;
+// Length of one inactivity rating period
+const PERIOD_MS = 24 * 60 * 60 * 1000;
+// Deviation never drops below this, so established players can still move
+const MIN_DEVIATION = 30;
+
+/**
+ * Rating for a player who has never played
+ */
+export function defaultRating(rating: number = DEFAULT_RATING): GlickoRating {
+  return {
+    rating,
+    deviation: DEFAULT_DEVIATION,
+    volatility: DEFAULT_VOLATILITY,
+  };
+}
+
+/**
+ * Grow the rating deviation for the time since the player's last match.
+ * Each idle day adds one period of volatility, capped at the unrated deviation.
+ */
+export function applyInactivity(
+  player: GlickoRating,
+  lastPlayedAt: Date | null,
+  now: Date = new Date()
+): GlickoRating {
+  if (!lastPlayedAt) return player;
+
+  const periods = Math.max(0, (now.getTime() - lastPlayedAt.getTime()) / PERIOD_MS);
+  if (periods === 0) return player;
+
+  const phi = player.deviation / SCALE;
+  const decayed = Math.sqrt(phi * phi + player.volatility * player.volatility * periods) * SCALE;
+
+  return { ...player, deviation: Math.min(DEFAULT_DEVIATION, decayed) };
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muOpponent: number, phiOpponent: number): number {
+  return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+/**
+ * Rate one player after a single game.
+ * `score` is 1 for a win, 0.5 for a draw and 0 for a loss.
+ */
+export function ratePlayer(
+  player: GlickoRating,
+  opponent: GlickoRating,
+  score: number
+): GlickoRating {
+  const mu = (player.rating - DEFAULT_RATING) / SCALE;
+  const phi = player.deviation / SCALE;
+  const muOpponent = (opponent.rating - DEFAULT_RATING) / SCALE;
+  const phiOpponent = opponent.deviation / SCALE;
+
+  const gOpponent = g(phiOpponent);
+  const expected = expectedScore(mu, muOpponent, phiOpponent);
+  const variance = 1 / (gOpponent * gOpponent * expected * (1 - expected));
+  const delta = variance * gOpponent * (score - expected);
+
+  // New volatility (Illinois variant of regula falsi)
+  const a = Math.log(player.volatility * player.volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + variance + ex;
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > EPSILON) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+
+  const volatility = Math.exp(lower / 2);
+
+  // New deviation and rating
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * gOpponent * (score - expected);
+
+  return {
+    rating: Math.max(0, newMu * SCALE + DEFAULT_RATING),
+    deviation: Math.max(MIN_DEVIATION, Math.min(DEFAULT_DEVIATION, newPhi * SCALE)),
+    volatility,
+  };
+}
+
+/**
+ * Rate both sides of a finished game.
+ * `scoreA` is player A's score; player B receives `1 - scoreA`.
+ */
+export function rateMatch(
+  a: GlickoRating,
+  b: GlickoRating,
+  scoreA: number
+): { a: GlickoRating; b: GlickoRating } {
+  return {
+    a: ratePlayer(a, b, scoreA),
+    b: ratePlayer(b, a, 1 - scoreA),
+  };
+}
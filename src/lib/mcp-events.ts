@@ -5,7 +5,12 @@
  * Used by both /api/mcp/stream and /api/mcp/tool routes.
  */
 
-import type { DomainEvent, DomainSessionId } from '@mcpchallenge/challenge-registry';
+import {
+  getEventBuffer,
+  type DomainEvent,
+  type DomainEventSeq,
+  type DomainSessionId,
+} from '@mcpchallenge/challenge-registry';
 
 // =============================================================================
 // Types
@@ -16,11 +21,6 @@ interface SessionConnection {
   lastActivity: number;
 }
 
-interface SessionBuffer {
-  events: DomainEvent[];
-  lastActivity: number;
-}
-
 // =============================================================================
 // In-Memory State (per Edge instance)
 // =============================================================================
@@ -28,56 +28,39 @@ interface SessionBuffer {
 // Active SSE connections per session
 const connections = new Map<string, Set<SessionConnection>>();
 
-// Event buffer per session (for reconnection)
-const eventBuffers = new Map<string, SessionBuffer>();
-
-// Configuration
-const MAX_EVENTS_PER_SESSION = 100;
-const SESSION_TIMEOUT_MS = 3600000; // 1 hour
-
 // =============================================================================
 // Event Buffer Management
 // =============================================================================
 
+// Events are kept in the challenge-registry EventBuffer (for reconnection)
+
 /**
  * Add events to session buffer
  */
 export function bufferEvents(sessionId: string, events: readonly DomainEvent[]): void {
-  let buffer = eventBuffers.get(sessionId);
-
-  if (!buffer) {
-    buffer = { events: [], lastActivity: Date.now() };
-    eventBuffers.set(sessionId, buffer);
-  }
-
-  buffer.events.push(...events);
-  buffer.lastActivity = Date.now();
-
-  // Trim if over limit
-  if (buffer.events.length > MAX_EVENTS_PER_SESSION) {
-    buffer.events = buffer.events.slice(-MAX_EVENTS_PER_SESSION);
-  }
+  getEventBuffer().pushMany(sessionId as DomainSessionId, events);
 }
 
 /**
  * Get events since a specific sequence number
  */
 export function getEventsSince(sessionId: string, afterSeq: number): readonly DomainEvent[] {
-  const buffer = eventBuffers.get(sessionId);
-  if (!buffer) return [];
-
-  return buffer.events.filter((e) => e.seq > afterSeq);
+  return getEventBuffer().getEventsSince(
+    sessionId as DomainSessionId,
+    afterSeq as DomainEventSeq
+  );
 }
 
 /**
  * Cleanup stale sessions
  */
 export function cleanupStaleSessions(): void {
-  const now = Date.now();
+  const buffer = getEventBuffer();
+  buffer.cleanup();
 
-  for (const [sessionId, buffer] of eventBuffers) {
-    if (now - buffer.lastActivity > SESSION_TIMEOUT_MS) {
-      eventBuffers.delete(sessionId);
+  // Drop connection sets whose session buffer has expired
+  for (const sessionId of connections.keys()) {
+    if (!buffer.hasSession(sessionId as DomainSessionId)) {
       connections.delete(sessionId);
     }
   }
@@ -203,13 +186,10 @@ export function pushEventsToSession(
  * Get event buffer stats (for debugging)
  */
 export function getBufferStats(): { sessions: number; totalEvents: number } {
-  let totalEvents = 0;
-  for (const buffer of eventBuffers.values()) {
-    totalEvents += buffer.events.length;
-  }
+  const buffer = getEventBuffer();
   return {
-    sessions: eventBuffers.size,
-    totalEvents,
+    sessions: buffer.size,
+    totalEvents: buffer.totalEvents,
   };
 }
 
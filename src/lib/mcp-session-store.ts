@@ -0,0 +1,129 @@
+/**
+ * MCP Session Store (D1)
+ *
+ * Persists orchestrator sessions in the mcp_sessions table, so a game started
+ * on one edge isolate can be continued on any other. Sessions started by a
+ * signed-in user can only be loaded by that user, expire after an hour
+ * without writes, and are saved with optimistic versioning so concurrent
+ * tool calls cannot overwrite each other.
+ */
+
+import { and, eq, lt } from "drizzle-orm";
+import {
+  sessionConflictError,
+  type ChallengeId,
+  type Difficulty,
+  type ReplayEvent,
+  type Seed,
+  type SerializedState,
+  type SessionId,
+  type SessionSnapshot,
+  type SessionStatus,
+  type SessionStore,
+} from "@mcpchallenge/challenge-registry";
+import type { Database } from "@/db";
+import { mcpSessions } from "@/db/schema";
+
+/** Sessions without a write for this long are gone */
+export const SESSION_TTL_MS = 60 * 60 * 1000;
+
+export interface D1SessionStoreOptions {
+  /** Signed-in caller; new sessions belong to them (null for anonymous callers) */
+  ownerId?: string | null;
+  now?: () => number;
+}
+
+/**
+ * Create a session store backed by D1
+ */
+export function createD1SessionStore(
+  db: Database,
+  options: D1SessionStoreOptions = {}
+): SessionStore {
+  const ownerId = options.ownerId ?? null;
+  const now = options.now ?? Date.now;
+
+  return {
+    async load(id) {
+      const row = await db
+        .select()
+        .from(mcpSessions)
+        .where(eq(mcpSessions.id, id))
+        .get();
+      if (!row) return null;
+
+      // Another user's session, or expired: behave as if it did not exist
+      if (row.userId !== null && row.userId !== ownerId) return null;
+      if (row.updatedAt.getTime() < now() - SESSION_TTL_MS) return null;
+
+      return {
+        id: row.id as SessionId,
+        challengeId: row.challengeId as ChallengeId,
+        difficulty: row.difficulty as Difficulty,
+        seed: row.seed as Seed,
+        options: JSON.parse(row.optionsJson) as Record<string, unknown>,
+        status: row.status as SessionStatus,
+        state: row.state as SerializedState,
+        events: JSON.parse(row.eventsJson) as ReplayEvent[],
+        moveCount: row.moveCount,
+        eventSeq: row.eventSeq,
+        createdAt: row.createdAt.getTime(),
+        lastActivityAt: row.lastActivityAt.getTime(),
+        version: row.version,
+      };
+    },
+
+    async save(snapshot: SessionSnapshot) {
+      const values = {
+        status: snapshot.status,
+        state: snapshot.state,
+        eventsJson: JSON.stringify(snapshot.events),
+        moveCount: snapshot.moveCount,
+        eventSeq: snapshot.eventSeq,
+        lastActivityAt: new Date(snapshot.lastActivityAt),
+        updatedAt: new Date(now()),
+        version: snapshot.version,
+      };
+
+      if (snapshot.version === 1) {
+        // New session: a good moment to drop the expired ones
+        await deleteExpiredSessions(db, now());
+
+        const inserted = await db
+          .insert(mcpSessions)
+          .values({
+            id: snapshot.id,
+            userId: ownerId,
+            challengeId: snapshot.challengeId,
+            difficulty: snapshot.difficulty,
+            seed: snapshot.seed,
+            optionsJson: JSON.stringify(snapshot.options),
+            createdAt: new Date(snapshot.createdAt),
+            ...values,
+          })
+          .onConflictDoNothing()
+          .returning({ id: mcpSessions.id });
+        if (inserted.length === 0) throw sessionConflictError(snapshot.id);
+        return;
+      }
+
+      const updated = await db
+        .update(mcpSessions)
+        .set(values)
+        .where(and(eq(mcpSessions.id, snapshot.id), eq(mcpSessions.version, snapshot.version - 1)))
+        .returning({ id: mcpSessions.id });
+      if (updated.length === 0) throw sessionConflictError(snapshot.id);
+    },
+  };
+}
+
+/**
+ * Delete sessions that expired, returning how many were removed
+ */
+export async function deleteExpiredSessions(db: Database, now: number = Date.now()): Promise<number> {
+  const deleted = await db
+    .delete(mcpSessions)
+    .where(lt(mcpSessions.updatedAt, new Date(now - SESSION_TTL_MS)))
+    .returning({ id: mcpSessions.id });
+  return deleted.length;
+}
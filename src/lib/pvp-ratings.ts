@@ -0,0 +1,137 @@
+/**
+ * PvP Ratings (D1)
+ *
+ * Per-game Glicko-2 ratings in the pvp_ratings table, the rating history
+ * written for every rated match, and the matchmaking window derived from them.
+ */
+
+import { and, eq, sql } from "drizzle-orm";
+import type { Database } from "@/db";
+import { pvpRatings, pvpRatingHistory, userStats } from "@/db/schema";
+import { applyInactivity, defaultRating, type GlickoRating } from "@/lib/glicko2";
+
+export interface PlayerRating extends GlickoRating {
+  gamesPlayed: number;
+}
+
+export type RatedResult = "win" | "loss" | "draw";
+
+// Matchmaking window: base range, widened by uncertainty and time in queue
+const BASE_WINDOW = 200;
+const MAX_WINDOW = 800;
+const WAIT_STEP_MS = 30 * 1000;
+const WAIT_STEP_WIDENING = 50;
+
+/**
+ * Load a player's rating for one game type, with inactivity decay applied.
+ * Players new to a game start from their legacy overall rating at full deviation.
+ */
+export async function getPvpRating(
+  db: Database,
+  userId: string,
+  gameType: string,
+  now: Date = new Date()
+): Promise<PlayerRating> {
+  const row = await db
+    .select()
+    .from(pvpRatings)
+    .where(and(eq(pvpRatings.userId, userId), eq(pvpRatings.gameType, gameType)))
+    .get();
+
+  if (row) {
+    const decayed = applyInactivity(
+      { rating: row.rating, deviation: row.deviation, volatility: row.volatility },
+      row.lastPlayedAt,
+      now
+    );
+    return { ...decayed, gamesPlayed: row.gamesPlayed };
+  }
+
+  const stats = await db
+    .select({ pvpRating: userStats.pvpRating })
+    .from(userStats)
+    .where(eq(userStats.userId, userId))
+    .get();
+
+  return { ...defaultRating(stats?.pvpRating), gamesPlayed: 0 };
+}
+
+/**
+ * Store a player's new rating after a match and append it to the history.
+ * Returns the player's highest rating across game types, which is mirrored
+ * into userStats.pvpRating for profiles and achievements.
+ */
+export async function recordRatedMatch(
+  db: Database,
+  entry: {
+    userId: string;
+    opponentId: string | null;
+    gameType: string;
+    matchId: string;
+    result: RatedResult;
+    before: PlayerRating;
+    after: GlickoRating;
+    now?: Date;
+  }
+): Promise<number> {
+  const now = entry.now ?? new Date();
+  const { after } = entry;
+
+  await db
+    .insert(pvpRatings)
+    .values({
+      userId: entry.userId,
+      gameType: entry.gameType,
+      rating: after.rating,
+      deviation: after.deviation,
+      volatility: after.volatility,
+      gamesPlayed: 1,
+      lastPlayedAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [pvpRatings.userId, pvpRatings.gameType],
+      set: {
+        rating: after.rating,
+        deviation: after.deviation,
+        volatility: after.volatility,
+        gamesPlayed: sql`${pvpRatings.gamesPlayed} + 1`,
+        lastPlayedAt: now,
+        updatedAt: now,
+      },
+    });
+
+  await db.insert(pvpRatingHistory).values({
+    userId: entry.userId,
+    gameType: entry.gameType,
+    matchId: entry.matchId,
+    opponentId: entry.opponentId,
+    result: entry.result,
+    ratingBefore: entry.before.rating,
+    ratingAfter: after.rating,
+    deviationBefore: entry.before.deviation,
+    deviationAfter: after.deviation,
+    volatilityBefore: entry.before.volatility,
+    volatilityAfter: after.volatility,
+    createdAt: now,
+  });
+
+  const best = await db
+    .select({ rating: sql<number>`MAX(${pvpRatings.rating})` })
+    .from(pvpRatings)
+    .where(eq(pvpRatings.userId, entry.userId))
+    .get();
+
+  return Math.round(best?.rating ?? after.rating);
+}
+
+/**
+ * Largest rating difference a queued player accepts. Uncertain ratings start
+ * with a wider window (two deviations), and every 30 seconds of waiting
+ * widens it further, up to a fixed cap.
+ */
+export function matchmakingWindow(deviation: number, waitTimeMs: number): number {
+  const base = Math.max(BASE_WINDOW, 2 * deviation);
+  const widening = Math.floor(Math.max(0, waitTimeMs) / WAIT_STEP_MS) * WAIT_STEP_WIDENING;
+  return Math.min(MAX_WINDOW, Math.round(base + widening));
+}
@@ -0,0 +1,233 @@
+/**
+ * Replay Storage (D1)
+ *
+ * Replays are stored as the full GameReplay event stream (format version 2),
+ * gzip-compressed and base64-encoded in replays.replay_data. moves_json and
+ * result_json are still written for readers that only need the move list.
+ * Rows from before version 2 are upgraded by an admin backfill that re-plays
+ * their moves through the challenge's engine. Games dealt from Math.random
+ * (boards, mines, food) were not seeded, so re-playing them under the stored
+ * seed deals a different game; only rows whose re-play reproduces the stored
+ * result are upgraded, and the rest are marked legacy (moves only).
+ */
+
+import { and, eq, lt, sql } from "drizzle-orm";
+import {
+  bridgeEngine,
+  isMoveEvent,
+  ReplayRecorder,
+  type GameReplay,
+  type GameResult,
+  type Seed,
+} from "@mcpchallenge/challenge-registry";
+import type { Database } from "@/db";
+import { replays, type Replay } from "@/db/schema";
+import { getChallengeEngine } from "@/lib/engine-bridge";
+
+/** Format version of rows that store the full GameReplay */
+export const REPLAY_FORMAT_VERSION = 2;
+
+/**
+ * Legacy result_json shape, kept for the share page and PGN export
+ */
+export interface StoredReplayResult {
+  won: boolean;
+  moves: number;
+  timeMs: number;
+  score?: number;
+  winner?: "player" | "ai" | "draw";
+}
+
+const WINNERS: Record<GameResult["status"], StoredReplayResult["winner"]> = {
+  won: "player",
+  lost: "ai",
+  draw: "draw",
+};
+
+// =============================================================================
+// Compression
+// =============================================================================
+
+export async function compressReplay(replay: GameReplay): Promise<string> {
+  const stream = new Blob([JSON.stringify(replay)])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  // btoa takes a binary string; build it in chunks to stay under argument limits
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export async function decompressReplay(data: string): Promise<GameReplay> {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return JSON.parse(await new Response(stream).text()) as GameReplay;
+}
+
+// =============================================================================
+// Rows
+// =============================================================================
+
+/**
+ * Column values for a replay row storing the full GameReplay
+ */
+export async function toReplayColumns(replay: GameReplay) {
+  const result: StoredReplayResult = {
+    won: replay.result?.status === "won",
+    moves: replay.meta.playerMoves,
+    timeMs: replay.meta.duration,
+    ...(replay.result?.score !== undefined && { score: replay.result.score }),
+    ...(replay.result && { winner: WINNERS[replay.result.status] }),
+  };
+
+  return {
+    seed: replay.seed as string,
+    movesJson: JSON.stringify(replay.events.filter(isMoveEvent).map((e) => e.payload.moveString)),
+    resultJson: JSON.stringify(result),
+    replayData: await compressReplay(replay),
+    formatVersion: REPLAY_FORMAT_VERSION,
+  };
+}
+
+/**
+ * The GameReplay of a row, or null for rows that only store moves
+ */
+export async function loadReplay(row: Replay): Promise<GameReplay | null> {
+  if (row.formatVersion < REPLAY_FORMAT_VERSION || !row.replayData) {
+    return null;
+  }
+  return decompressReplay(row.replayData);
+}
+
+/**
+ * Upgrade a batch of version 1 rows: rows whose moves reproduce their stored
+ * result get the rebuilt event stream, the others are marked legacy so later
+ * batches skip them. Returns the counts and how many rows are left to check.
+ */
+export async function backfillLegacyReplays(
+  db: Database,
+  limit: number
+): Promise<{ upgraded: number; legacy: number; remaining: number }> {
+  const pending = and(lt(replays.formatVersion, REPLAY_FORMAT_VERSION), eq(replays.legacy, false));
+  const rows = await db.select().from(replays).where(pending).limit(limit);
+
+  let upgraded = 0;
+  for (const row of rows) {
+    const replay = upgradeLegacyReplay(row);
+    await db
+      .update(replays)
+      .set(replay
+        ? { replayData: await compressReplay(replay), formatVersion: REPLAY_FORMAT_VERSION }
+        : { legacy: true })
+      .where(eq(replays.id, row.id));
+    if (replay) upgraded++;
+  }
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(replays)
+    .where(pending);
+  return { upgraded, legacy: rows.length - upgraded, remaining: count };
+}
+
+/**
+ * Rebuild the event stream of a version 1 row from its seed and move list.
+ * Each move is applied for whichever side is to move, so lists that hold
+ * both sides' moves (chess) and single-player games upgrade cleanly. Returns
+ * null unless the moves are accepted and end the game with the stored result.
+ * Timings were never stored, so the rebuilt events carry none.
+ */
+export function upgradeLegacyReplay(row: Replay): GameReplay | null {
+  const engine = getChallengeEngine(row.challengeId);
+  if (!engine || !row.seed) return null;
+
+  const bridged = bridgeEngine(engine);
+  const seed = row.seed as Seed;
+  const recorder = new ReplayRecorder<unknown>();
+
+  try {
+    let state = bridged.newGame({}, seed);
+    recorder.recordStart({ options: {}, seed, initialState: bridged.serialize(state) });
+
+    for (const entry of JSON.parse(row.movesJson) as unknown[]) {
+      const input = legacyMoveString(entry);
+      if (input === null || bridged.isGameOver(state)) return null;
+
+      const move = bridged.parseMove(input, state);
+      if (move === null || !bridged.isLegalMove(state, move)) return null;
+      const moveResult = bridged.makeMove(state, move);
+      if (!moveResult.valid) return null;
+
+      const event = {
+        move,
+        moveString: bridged.formatMove(move),
+        stateBefore: bridged.serialize(state),
+        stateAfter: bridged.serialize(moveResult.state),
+      };
+      if (state.turn === "opponent") {
+        recorder.recordAIMove(event);
+      } else {
+        recorder.recordPlayerMove(event);
+      }
+      state = moveResult.state;
+    }
+
+    const result = bridged.isGameOver(state) ? bridged.getResult(state) : null;
+    if (!result || !reproducesStoredResult(row, result)) return null;
+    recorder.recordEnd({ result, finalState: bridged.serialize(state), reason: "completed" });
+
+    const replay = recorder.build({
+      challengeId: row.challengeId,
+      gameId: row.id,
+      seed,
+      options: {},
+      result,
+      userId: row.userId ?? undefined,
+    });
+    return {
+      ...replay,
+      meta: {
+        ...replay.meta,
+        createdAt: row.createdAt?.getTime() ?? replay.meta.createdAt,
+        custom: { source: "legacy-upgrade" },
+      },
+    };
+  } catch {
+    // Engines may throw on malformed moves
+    return null;
+  }
+}
+
+/**
+ * Whether a re-played game ends the way the row says it did. result_json was
+ * written by the client, so only the fields it holds are compared.
+ */
+function reproducesStoredResult(row: Replay, result: GameResult): boolean {
+  if (!row.resultJson) return false;
+  const stored = JSON.parse(row.resultJson) as Partial<StoredReplayResult>;
+  if (typeof stored.won !== "boolean") return false;
+
+  return stored.won === (result.status === "won") &&
+    (stored.winner === undefined || stored.winner === WINNERS[result.status]) &&
+    (stored.score === undefined || stored.score === result.score);
+}
+
+/**
+ * Move strings from the shapes game clients recorded: plain strings and
+ * chess `{ san }` objects; anything else is tried as JSON
+ */
+function legacyMoveString(entry: unknown): string | null {
+  if (typeof entry === "string") return entry;
+  if (typeof entry === "number") return String(entry);
+  if (entry && typeof entry === "object") {
+    const { san } = entry as { san?: unknown };
+    return typeof san === "string" ? san : JSON.stringify(entry);
+  }
+  return null;
+}
@@ -0,0 +1,367 @@
+/**
+ * Replay Verification
+ *
+ * Re-executes a submitted GameReplay on the server and derives completion
+ * data (winner, score, moves, challenge-specific metrics) from the replayed
+ * state, so challenge completions never rely on client-reported numbers.
+ */
+
+import {
+  bridgeEngine,
+  createReplayEngine,
+  createStateComparator,
+  isPlayerMoveEvent,
+  VOLATILE_STATE_FIELDS,
+  type GameReplay,
+  type GameResult,
+  type GameState,
+  type ReplayErrorCode,
+  type ReplayValidationResult,
+} from "@mcpchallenge/challenge-registry";
+import type {
+  Difficulty,
+  GameEngine as CoreGameEngine,
+  GameState as CoreGameState,
+} from "@mcpchallenge/game-engines";
+import { getChallengeEngine } from "./engine-bridge";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Completion data derived from a verified replay
+ */
+export interface VerifiedCompletion {
+  /** Game ID of the replayed game (derived from the replay seed) */
+  gameId: string;
+  score?: number;
+  winner?: "player" | "ai" | "draw";
+  moves?: number;
+  // Sorting-specific
+  level?: number;
+  comparisons?: number;
+  swaps?: number;
+  parComparisons?: number;
+  parSwaps?: number;
+  // Gorillas-specific
+  throws?: number;
+  hitSun?: boolean;
+  // Lights Out-specific
+  difficulty?: string;
+  toggles?: number;
+  minSolution?: number;
+  /**
+   * Never derived from the replay: its timestamps are client-recorded.
+   * The completion endpoint sets it from when the seed was issued.
+   */
+  timeSeconds?: number;
+  // Pathfinding-specific
+  algorithm?: string;
+  pathCost?: number;
+  parCost?: number;
+  nodesExpanded?: number;
+  parNodes?: number;
+  // Fractals-specific
+  iterations?: number;
+  preset?: string;
+  customRules?: boolean;
+}
+
+/**
+ * Fields a client may claim; each must match the replayed value
+ */
+export interface ClaimedCompletion {
+  score?: number;
+  winner?: string;
+  moves?: number;
+}
+
+export type ReplayValidationCheck =
+  | { valid: true; replay: GameReplay }
+  | { valid: false; status: 400 | 403 | 422; error: string; code?: ReplayErrorCode };
+
+export type ReplayVerificationResult =
+  | { verified: true; completion: VerifiedCompletion; result: GameResult | null }
+  | { verified: false; status: 400 | 403 | 422; error: string; code?: ReplayErrorCode };
+
+type Deriver = (
+  state: Record<string, unknown>,
+  context: { playerStates: Record<string, unknown>[] }
+) => Partial<VerifiedCompletion>;
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Creative sandboxes have no terminal state; any valid replay completes them */
+const SANDBOX_CHALLENGES = new Set(["canvas-draw", "fractals"]);
+
+/**
+ * Challenge-specific completion fields
+ * Challenges that count distinct levels store the level index in `score`.
+ */
+const DERIVERS: Record<string, Deriver> = {
+  sokoban: (state) => ({
+    score: state.levelIndex as number,
+    level: (state.levelIndex as number) + 1,
+  }),
+  sorting: (state) => ({
+    score: state.levelIndex as number,
+    level: state.levelIndex as number,
+    comparisons: state.comparisons as number,
+    swaps: state.swaps as number,
+    parComparisons: state.parComparisons as number,
+    parSwaps: state.parSwaps as number,
+  }),
+  gorillas: (state, { playerStates }) => ({
+    score: (state.player1 as { score: number }).score,
+    throws: playerStates.length,
+    hitSun: playerStates.some(
+      (s) => (s.lastTrajectory as { hit?: string } | undefined)?.hit === "sun"
+    ),
+  }),
+  lightsout: (state) => ({
+    difficulty: state.difficulty as string,
+    toggles: state.toggleCount as number,
+    minSolution: state.minSolution as number,
+  }),
+  pathfinding: (state) => ({
+    score: state.levelIndex as number,
+    level: state.levelIndex as number,
+    algorithm: state.algorithm as string,
+    pathCost: state.pathCost as number,
+    parCost: state.parCost as number,
+    nodesExpanded: state.nodesExpanded as number,
+    parNodes: state.parNodes as number,
+  }),
+  fractals: (state) => ({
+    iterations: state.iterations as number,
+    preset: (state.preset as string | null) ?? undefined,
+    customRules: state.preset === null,
+  }),
+};
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Check whether a challenge is backed by a game engine (and needs a replay)
+ */
+export function requiresReplay(challengeId: string): boolean {
+  return getChallengeEngine(challengeId) !== undefined;
+}
+
+/**
+ * Re-execute a replay and derive the completion data from the final state
+ */
+export function verifyReplay(
+  challengeId: string,
+  userId: string,
+  replay: unknown,
+  claimed: ClaimedCompletion = {}
+): ReplayVerificationResult {
+  const engine = getChallengeEngine(challengeId);
+  if (!engine) {
+    return { verified: false, status: 400, error: `Challenge ${challengeId} has no game engine` };
+  }
+
+  if (!isGameReplay(replay)) {
+    return { verified: false, status: 400, error: "A valid game replay is required" };
+  }
+  if (replay.challengeId !== challengeId) {
+    return { verified: false, status: 400, error: "Replay belongs to a different challenge" };
+  }
+  if (replay.userId !== undefined && replay.userId !== userId) {
+    return { verified: false, status: 403, error: "Replay belongs to a different user" };
+  }
+
+  const replayEngine = createVerifyingEngine(engine, replay);
+
+  let execution: ReturnType<typeof replayEngine.execute>;
+  try {
+    execution = replayEngine.execute(replay);
+  } catch (err) {
+    // Engines may throw on malformed moves
+    return {
+      verified: false,
+      status: 422,
+      error: `Replay verification failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  if (!execution.success) {
+    return {
+      verified: false,
+      status: 422,
+      error: `Replay verification failed: ${execution.error.message}`,
+      code: execution.error.code,
+    };
+  }
+
+  // AI moves are deterministic per state, so a differing AI move means the
+  // opponent's play was edited
+  const aiMismatch = execution.warnings.find((w) => w.code === "AI_MOVE_MISMATCH");
+  if (aiMismatch) {
+    return {
+      verified: false,
+      status: 422,
+      error: `Replay verification failed: ${aiMismatch.message}`,
+      code: "STATE_MISMATCH",
+    };
+  }
+
+  const { finalState, result } = execution;
+  if (!result && !SANDBOX_CHALLENGES.has(challengeId)) {
+    return { verified: false, status: 422, error: "Replayed game is not finished" };
+  }
+
+  const completion = deriveCompletion(challengeId, replay, finalState, result);
+
+  const mismatch = findClaimMismatch(claimed, completion);
+  if (mismatch) {
+    return {
+      verified: false,
+      status: 422,
+      error: `Reported ${mismatch} does not match the replay`,
+      code: "CUSTOM_VALIDATION_FAILED",
+    };
+  }
+
+  return { verified: true, completion, result };
+}
+
+/**
+ * Validate a replay for storage with ReplayEngine.validate(). Unlike
+ * verifyReplay, games that are still in progress are accepted.
+ */
+export function validateReplay(
+  challengeId: string,
+  userId: string | null,
+  replay: unknown
+): ReplayValidationCheck {
+  const engine = getChallengeEngine(challengeId);
+  if (!engine) {
+    return { valid: false, status: 400, error: `Challenge ${challengeId} has no game engine` };
+  }
+
+  if (!isGameReplay(replay)) {
+    return { valid: false, status: 400, error: "A valid game replay is required" };
+  }
+  // Replays may name the challenge by its slug or its engine ID
+  if (getChallengeEngine(replay.challengeId) !== engine) {
+    return { valid: false, status: 400, error: "Replay belongs to a different challenge" };
+  }
+  if (replay.userId !== undefined && replay.userId !== userId) {
+    return { valid: false, status: 403, error: "Replay belongs to a different user" };
+  }
+
+  let validation: ReplayValidationResult;
+  try {
+    validation = createVerifyingEngine(engine, replay).validate(replay);
+  } catch (err) {
+    return {
+      valid: false,
+      status: 422,
+      error: `Replay validation failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  if (!validation.valid) {
+    return {
+      valid: false,
+      status: 422,
+      error: `Replay validation failed: ${validation.error.message}`,
+      code: validation.error.code,
+    };
+  }
+
+  return { valid: true, replay };
+}
+
+/**
+ * Map a client-reported winner onto the verified names
+ * Clients use several names for the computer opponent.
+ */
+export function normalizeWinner(winner: string): VerifiedCompletion["winner"] {
+  if (["ai", "engine", "computer"].includes(winner)) return "ai";
+  return winner === "player" || winner === "draw" ? winner : undefined;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Replay engine for a challenge, with the replay's AI difficulty baked in
+ */
+function createVerifyingEngine(
+  engine: CoreGameEngine<CoreGameState, unknown>,
+  replay: GameReplay
+) {
+  return createReplayEngine(
+    bridgeEngine(engine, { defaultDifficulty: replay.options.difficulty as Difficulty | undefined }),
+    { compareStates: createStateComparator(VOLATILE_STATE_FIELDS) }
+  );
+}
+
+function deriveCompletion(
+  challengeId: string,
+  replay: GameReplay,
+  finalState: GameState,
+  result: GameResult | null
+): VerifiedCompletion {
+  const state = finalState as Record<string, unknown>;
+
+  // States after each player move (already verified against re-execution)
+  const playerStates = replay.events
+    .filter(isPlayerMoveEvent)
+    .map((e) => JSON.parse(e.payload.stateAfter) as Record<string, unknown>);
+
+  return {
+    gameId: finalState.gameId,
+    score: result?.score ?? finalState.score,
+    winner: result ? WINNERS[result.status] : undefined,
+    moves: result?.totalMoves ?? finalState.moveCount,
+    ...DERIVERS[challengeId]?.(state, { playerStates }),
+  };
+}
+
+const WINNERS: Record<GameResult["status"], VerifiedCompletion["winner"]> = {
+  won: "player",
+  lost: "ai",
+  draw: "draw",
+};
+
+function findClaimMismatch(
+  claimed: ClaimedCompletion,
+  completion: VerifiedCompletion
+): string | null {
+  if (claimed.score !== undefined && claimed.score !== completion.score) return "score";
+  if (claimed.moves !== undefined && claimed.moves !== completion.moves) return "moves";
+  if (claimed.winner !== undefined && normalizeWinner(claimed.winner) !== completion.winner) {
+    return "winner";
+  }
+  return null;
+}
+
+function isGameReplay(value: unknown): value is GameReplay {
+  if (!value || typeof value !== "object") return false;
+  const r = value as Record<string, unknown>;
+  return (
+    r.version === "1.0" &&
+    typeof r.challengeId === "string" &&
+    typeof r.seed === "string" &&
+    typeof r.options === "object" &&
+    r.options !== null &&
+    Array.isArray(r.events) &&
+    r.events.length > 0 &&
+    r.events.every(
+      (e) =>
+        e !== null &&
+        typeof e === "object" &&
+        typeof (e as Record<string, unknown>).type === "string" &&
+        typeof (e as Record<string, unknown>).timestamp === "number" &&
+        typeof (e as Record<string, unknown>).payload === "object"
+    )
+  );
+}
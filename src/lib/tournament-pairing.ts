@@ -0,0 +1,350 @@
+/**
+ * Tournament Pairing
+ *
+ * Pure pairing and standings logic for agent tournaments: round-robin (circle
+ * method), Swiss (score groups with Buchholz tiebreaks, no rematches) and
+ * single elimination (seeded bracket). Entrants are identified by ID and
+ * seeded by their order in the entrant list.
+ */
+
+export type TournamentFormat = "round-robin" | "swiss" | "single-elimination";
+
+export type TournamentResult = "pending" | "white_wins" | "black_wins" | "draw" | "bye";
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ["round-robin", "swiss", "single-elimination"];
+
+export interface Pairing {
+  whiteId: string;
+  blackId: string | null; // null = bye
+}
+
+export interface TournamentGameRecord extends Pairing {
+  round: number;
+  board: number;
+  result: TournamentResult;
+}
+
+export interface Standing {
+  entrantId: string;
+  rank: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  buchholz: number;
+  played: number;
+  // Single elimination: round the entrant was knocked out in (null while alive)
+  eliminatedInRound: number | null;
+}
+
+// Swiss pairing search budget before rematches are allowed
+const MAX_SWISS_NODES = 20000;
+
+/**
+ * Number of rounds a tournament plays for the given entrant count
+ */
+export function plannedRounds(format: TournamentFormat, entrants: number): number {
+  if (entrants < 2) return 0;
+  switch (format) {
+    case "round-robin":
+      return entrants % 2 === 0 ? entrants - 1 : entrants;
+    case "swiss":
+    case "single-elimination":
+      return Math.ceil(Math.log2(entrants));
+  }
+}
+
+/**
+ * Pairings for the next round, or an error if the previous round is unfinished
+ */
+export function pairRound(
+  format: TournamentFormat,
+  entrantIds: string[],
+  games: TournamentGameRecord[],
+  round: number
+): Pairing[] {
+  if (games.some((game) => game.result === "pending")) {
+    throw new Error("All games of the current round must be decided before pairing the next");
+  }
+  switch (format) {
+    case "round-robin":
+      return roundRobinPairings(entrantIds, round);
+    case "swiss":
+      return swissPairings(entrantIds, games);
+    case "single-elimination":
+      return eliminationPairings(entrantIds, games, round);
+  }
+}
+
+/**
+ * Winner of a decided game (the white side of a bye), or null for draws and pending games
+ */
+export function gameWinner(game: TournamentGameRecord): string | null {
+  switch (game.result) {
+    case "white_wins":
+    case "bye":
+      return game.whiteId;
+    case "black_wins":
+      return game.blackId;
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// Round-robin
+// =============================================================================
+
+/**
+ * Circle-method pairings: the first seed stays put while the others rotate.
+ * An odd field gets a phantom entrant, whose opponent has the bye.
+ */
+export function roundRobinPairings(entrantIds: string[], round: number): Pairing[] {
+  const ids: (string | null)[] = entrantIds.length % 2 === 0 ? [...entrantIds] : [...entrantIds, null];
+  const n = ids.length;
+  if (n < 2) return [];
+
+  const rest = ids.slice(1);
+  const shift = (round - 1) % rest.length;
+  const order = [ids[0], ...rest.slice(rest.length - shift), ...rest.slice(0, rest.length - shift)];
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < n / 2; i++) {
+    const a = order[i];
+    const b = order[n - 1 - i];
+    if (a === null || b === null) {
+      pairings.push({ whiteId: (a ?? b)!, blackId: null });
+    } else {
+      // The fixed seed alternates colors; everyone else is white in the top row,
+      // which they cross half the time as the circle turns
+      const aWhite = i === 0 ? round % 2 === 1 : true;
+      pairings.push(aWhite ? { whiteId: a, blackId: b } : { whiteId: b, blackId: a });
+    }
+  }
+
+  // Byes last, so boards are numbered by real games first
+  return pairings.sort((x, y) => Number(x.blackId === null) - Number(y.blackId === null));
+}
+
+// =============================================================================
+// Swiss
+// =============================================================================
+
+/**
+ * Swiss pairings: entrants ordered by standings are paired top-down with the
+ * nearest opponent they have not met yet (backtracking when a score group
+ * cannot be completed). With an odd field the lowest-ranked entrant without a
+ * bye sits out. Colors go to whoever has had fewer whites.
+ */
+export function swissPairings(entrantIds: string[], games: TournamentGameRecord[]): Pairing[] {
+  const ranked = computeStandings("swiss", entrantIds, games).map((standing) => standing.entrantId);
+
+  let bye: string | null = null;
+  if (ranked.length % 2 === 1) {
+    const hadBye = new Set(games.filter((game) => game.blackId === null).map((game) => game.whiteId));
+    bye = [...ranked].reverse().find((id) => !hadBye.has(id)) ?? ranked[ranked.length - 1];
+  }
+  const pool = ranked.filter((id) => id !== bye);
+
+  const met = new Set<string>();
+  for (const game of games) {
+    if (game.blackId === null) continue;
+    met.add(`${game.whiteId}|${game.blackId}`);
+    met.add(`${game.blackId}|${game.whiteId}`);
+  }
+
+  let nodes = 0;
+  const search = (remaining: string[]): [string, string][] | null => {
+    if (remaining.length === 0) return [];
+    if (++nodes > MAX_SWISS_NODES) return null;
+    const [first, ...others] = remaining;
+    for (let i = 0; i < others.length; i++) {
+      if (met.has(`${first}|${others[i]}`)) continue;
+      const rest = search([...others.slice(0, i), ...others.slice(i + 1)]);
+      if (rest) return [[first, others[i]], ...rest];
+    }
+    return null;
+  };
+
+  // Small fields eventually run out of new opponents; fall back to adjacent pairs
+  const pairs = search(pool) ??
+    Array.from({ length: pool.length / 2 }, (_, i): [string, string] => [pool[2 * i], pool[2 * i + 1]]);
+
+  const pairings = pairs.map(([higher, lower]) => assignColors(higher, lower, games));
+  if (bye) pairings.push({ whiteId: bye, blackId: null });
+  return pairings;
+}
+
+function colorBalance(entrantId: string, games: TournamentGameRecord[]): { balance: number; last: "white" | "black" | null } {
+  let balance = 0;
+  let last: "white" | "black" | null = null;
+  for (const game of [...games].sort((a, b) => a.round - b.round)) {
+    if (game.blackId === null) continue;
+    if (game.whiteId === entrantId) {
+      balance++;
+      last = "white";
+    } else if (game.blackId === entrantId) {
+      balance--;
+      last = "black";
+    }
+  }
+  return { balance, last };
+}
+
+function assignColors(higher: string, lower: string, games: TournamentGameRecord[]): Pairing {
+  const a = colorBalance(higher, games);
+  const b = colorBalance(lower, games);
+  if (a.balance !== b.balance) {
+    return a.balance < b.balance ? { whiteId: higher, blackId: lower } : { whiteId: lower, blackId: higher };
+  }
+  if (a.last !== b.last && a.last !== null) {
+    return a.last === "black" ? { whiteId: higher, blackId: lower } : { whiteId: lower, blackId: higher };
+  }
+  return { whiteId: higher, blackId: lower };
+}
+
+// =============================================================================
+// Single elimination
+// =============================================================================
+
+/**
+ * Seed numbers in bracket order, so seeds 1 and 2 can only meet in the final
+ */
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap((seed) => [seed, next + 1 - seed]);
+  }
+  return order;
+}
+
+/**
+ * Bracket pairings. Round 1 seeds the field into the next power of two with
+ * byes for the top seeds; later rounds pair winners of adjacent boards. A
+ * drawn knockout game advances the higher seed.
+ */
+export function eliminationPairings(
+  entrantIds: string[],
+  games: TournamentGameRecord[],
+  round: number
+): Pairing[] {
+  if (round === 1) {
+    const size = 2 ** Math.ceil(Math.log2(Math.max(2, entrantIds.length)));
+    const order = bracketOrder(size);
+    const pairings: Pairing[] = [];
+    for (let i = 0; i < size; i += 2) {
+      const a = entrantIds[order[i] - 1] ?? null;
+      const b = entrantIds[order[i + 1] - 1] ?? null;
+      if (a === null && b === null) continue;
+      pairings.push(a === null || b === null ? { whiteId: (a ?? b)!, blackId: null } : { whiteId: a, blackId: b });
+    }
+    return pairings;
+  }
+
+  const seed = new Map(entrantIds.map((id, index) => [id, index]));
+  const winners = games
+    .filter((game) => game.round === round - 1)
+    .sort((a, b) => a.board - b.board)
+    .map((game) => advancedFrom(game, seed));
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i + 1 < winners.length; i += 2) {
+    pairings.push({ whiteId: winners[i], blackId: winners[i + 1] });
+  }
+  return pairings;
+}
+
+/**
+ * Entrant who advanced from a decided knockout game
+ */
+function advancedFrom(game: TournamentGameRecord, seed: Map<string, number>): string {
+  const winner = gameWinner(game);
+  if (winner) return winner;
+  return (seed.get(game.whiteId) ?? 0) <= (seed.get(game.blackId ?? "") ?? Infinity) ? game.whiteId : game.blackId!;
+}
+
+// =============================================================================
+// Standings
+// =============================================================================
+
+/**
+ * Standings from decided games: a win or bye is worth 1 point and a draw 0.5.
+ * Ties break on Buchholz (sum of the opponents' points), then wins, then
+ * seed. Single elimination ranks by the round an entrant went out in first.
+ */
+export function computeStandings(
+  format: TournamentFormat,
+  entrantIds: string[],
+  games: TournamentGameRecord[]
+): Standing[] {
+  const seed = new Map(entrantIds.map((id, index) => [id, index]));
+  const table = new Map<string, Standing>(entrantIds.map((id) => [id, {
+    entrantId: id,
+    rank: 0,
+    points: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    byes: 0,
+    buchholz: 0,
+    played: 0,
+    eliminatedInRound: null,
+  }]));
+
+  const decided = games.filter((game) => game.result !== "pending");
+  for (const game of decided) {
+    const white = table.get(game.whiteId);
+    const black = game.blackId ? table.get(game.blackId) : undefined;
+    if (game.result === "bye") {
+      if (white) {
+        white.points += 1;
+        white.byes++;
+      }
+      continue;
+    }
+    if (white) white.played++;
+    if (black) black.played++;
+    if (game.result === "draw") {
+      if (white) { white.points += 0.5; white.draws++; }
+      if (black) { black.points += 0.5; black.draws++; }
+    } else {
+      const [winner, loser] = game.result === "white_wins" ? [white, black] : [black, white];
+      if (winner) { winner.points += 1; winner.wins++; }
+      if (loser) loser.losses++;
+    }
+
+    if (format === "single-elimination" && game.blackId) {
+      const advanced = advancedFrom(game, seed);
+      const out = table.get(advanced === game.whiteId ? game.blackId : game.whiteId);
+      if (out) out.eliminatedInRound = game.round;
+    }
+  }
+
+  for (const game of decided) {
+    if (game.blackId === null) continue;
+    const white = table.get(game.whiteId);
+    const black = table.get(game.blackId);
+    if (white && black) {
+      white.buchholz += black.points;
+      black.buchholz += white.points;
+    }
+  }
+
+  const standings = [...table.values()].sort((a, b) => {
+    if (format === "single-elimination") {
+      const outA = a.eliminatedInRound ?? Infinity;
+      const outB = b.eliminatedInRound ?? Infinity;
+      if (outA !== outB) return outB - outA;
+    }
+    return b.points - a.points ||
+      b.buchholz - a.buchholz ||
+      b.wins - a.wins ||
+      (seed.get(a.entrantId) ?? 0) - (seed.get(b.entrantId) ?? 0);
+  });
+  standings.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+  return standings;
+}
@@ -0,0 +1,237 @@
+/**
+ * Tournaments (D1)
+ *
+ * Loads tournaments with their entrants and games, pairs rounds with the
+ * pure logic in tournament-pairing.ts and spins up a PvP GameRoom per pairing.
+ */
+
+import { and, asc, eq } from "drizzle-orm";
+import type { Database } from "@/db";
+import {
+  tournaments,
+  tournamentEntrants,
+  tournamentGames,
+  type Tournament,
+  type NewTournamentGame,
+  type TournamentEntrant,
+  type TournamentGame,
+} from "@/db/schema";
+import { getPvPEngineId } from "@/lib/engine-bridge";
+import {
+  pairRound,
+  type TournamentFormat,
+  type TournamentGameRecord,
+  type TournamentResult,
+} from "@/lib/tournament-pairing";
+
+export interface TournamentBundle {
+  tournament: Tournament;
+  entrants: TournamentEntrant[];
+  games: TournamentGame[];
+}
+
+/**
+ * Load a tournament with its entrants (in seed order) and games (by round and board)
+ */
+export async function loadTournament(db: Database, id: string): Promise<TournamentBundle | null> {
+  const tournament = await db
+    .select()
+    .from(tournaments)
+    .where(eq(tournaments.id, id))
+    .get();
+  if (!tournament) return null;
+
+  const entrants = await db
+    .select()
+    .from(tournamentEntrants)
+    .where(eq(tournamentEntrants.tournamentId, id))
+    .orderBy(asc(tournamentEntrants.seed));
+
+  const games = await db
+    .select()
+    .from(tournamentGames)
+    .where(eq(tournamentGames.tournamentId, id))
+    .orderBy(asc(tournamentGames.round), asc(tournamentGames.board));
+
+  return { tournament, entrants, games };
+}
+
+/**
+ * Game rows in the shape the pairing logic works with
+ */
+export function toGameRecords(games: TournamentGame[]): TournamentGameRecord[] {
+  return games.map((game) => ({
+    round: game.round,
+    board: game.board,
+    whiteId: game.whiteEntrantId,
+    blackId: game.blackEntrantId,
+    result: game.result as TournamentResult,
+  }));
+}
+
+/**
+ * Create a PvP room for one pairing and take both seats, so each entrant's
+ * owner can hand their agent the nonce of the right seat
+ */
+async function createTournamentRoom(
+  rooms: DurableObjectNamespace,
+  tournament: Tournament
+): Promise<{ roomId: string; whiteNonce: string; blackNonce: string }> {
+  const engineId = getPvPEngineId(tournament.gameType);
+  if (!engineId) {
+    throw new Error(`${tournament.gameType} has no two-player mode`);
+  }
+
+  const roomId = crypto.randomUUID();
+  const room = rooms.get(rooms.idFromName(roomId));
+
+  const initResponse = await room.fetch("https://game-room/init", {
+    method: "POST",
+    body: JSON.stringify({
+      gameType: engineId,
+      roomId,
+      mode: "pvp",
+      timeControl: tournament.timeControl ?? undefined,
+    }),
+  });
+  if (!initResponse.ok) {
+    const { error } = await initResponse.json() as { error?: string };
+    throw new Error(error ?? "Failed to create game room");
+  }
+
+  // The room hands out seats in order: the first join is white
+  const nonces: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    const joinResponse = await room.fetch("https://game-room/join", { method: "POST" });
+    if (!joinResponse.ok) {
+      throw new Error("Failed to join game room");
+    }
+    const { playerNonce } = await joinResponse.json() as { playerNonce: string };
+    nonces.push(playerNonce);
+  }
+
+  return { roomId, whiteNonce: nonces[0], blackNonce: nonces[1] };
+}
+
+/**
+ * Result of a tournament game as its room reports it; null while the game is
+ * still being played (or has not started). The first seat plays white.
+ */
+export async function fetchRoomResult(
+  rooms: DurableObjectNamespace,
+  roomId: string
+): Promise<TournamentResult | null> {
+  const room = rooms.get(rooms.idFromName(roomId));
+  const response = await room.fetch("https://game-room/state");
+  if (!response.ok) {
+    throw new Error("Failed to read game room");
+  }
+
+  const { seats, winnerSeat } = await response.json() as {
+    seats: [string, string];
+    winnerSeat: string | null;
+  };
+  if (winnerSeat === null) return null;
+  if (winnerSeat === "draw") return "draw";
+  return winnerSeat === seats[0] ? "white_wins" : "black_wins";
+}
+
+/**
+ * Pair the next round, open a room per game and record byes as decided.
+ * Returns the new round number.
+ */
+export async function startNextRound(
+  db: Database,
+  rooms: DurableObjectNamespace,
+  { tournament, entrants, games }: TournamentBundle
+): Promise<number> {
+  const round = tournament.currentRound + 1;
+  const pairings = pairRound(
+    tournament.format as TournamentFormat,
+    entrants.map((entrant) => entrant.id),
+    toGameRecords(games),
+    round
+  );
+  if (pairings.length === 0) {
+    throw new Error("No pairings left to play");
+  }
+
+  // Open every room before touching the database, so a room that fails to
+  // open leaves the round unpaired instead of half-recorded
+  const now = new Date();
+  const rows: NewTournamentGame[] = [];
+  for (const [index, pairing] of pairings.entries()) {
+    const game = {
+      tournamentId: tournament.id,
+      round,
+      board: index + 1,
+      whiteEntrantId: pairing.whiteId,
+    };
+    if (pairing.blackId === null) {
+      rows.push({ ...game, result: "bye", completedAt: now });
+    } else {
+      const room = await createTournamentRoom(rooms, tournament);
+      rows.push({ ...game, blackEntrantId: pairing.blackId, ...room });
+    }
+  }
+
+  // Advance the round and record its games in one batch (a D1 transaction).
+  // A concurrent start of the same round collides on the unique
+  // (tournament, round, board) index and rolls back; its rooms stay unused.
+  try {
+    await db.batch([
+      db
+        .update(tournaments)
+        .set({
+          currentRound: round,
+          status: "running",
+          ...(round === 1 && { startedAt: now }),
+        })
+        .where(and(eq(tournaments.id, tournament.id), eq(tournaments.currentRound, round - 1))),
+      ...rows.map((row) => db.insert(tournamentGames).values(row)),
+    ]);
+  } catch (error) {
+    const latest = await db
+      .select({ currentRound: tournaments.currentRound })
+      .from(tournaments)
+      .where(eq(tournaments.id, tournament.id))
+      .get();
+    if (!latest || latest.currentRound < round) {
+      throw error;
+    }
+  }
+
+  return round;
+}
+
+/**
+ * After a result: once every game of the current round is decided, pair the
+ * next round or close the tournament after its last round
+ */
+export async function advanceTournament(
+  db: Database,
+  rooms: DurableObjectNamespace,
+  id: string
+): Promise<{ status: string; currentRound: number }> {
+  const bundle = await loadTournament(db, id);
+  if (!bundle) {
+    throw new Error("Tournament not found");
+  }
+
+  const { tournament, games } = bundle;
+  const current = games.filter((game) => game.round === tournament.currentRound);
+  if (current.some((game) => game.result === "pending")) {
+    return { status: tournament.status, currentRound: tournament.currentRound };
+  }
+
+  if (tournament.currentRound >= (tournament.totalRounds ?? 0)) {
+    await db
+      .update(tournaments)
+      .set({ status: "completed", endedAt: new Date() })
+      .where(eq(tournaments.id, id));
+    return { status: "completed", currentRound: tournament.currentRound };
+  }
+
+  const round = await startNextRound(db, rooms, bundle);
+  return { status: "running", currentRound: round };
+}
@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const resolve = (path: string) => fileURLToPath(new URL(path, import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    // Test the package sources, not their (possibly stale) dist builds
+    alias: [
+      { find: /^@mcpchallenge\/game-engines$/, replacement: resolve("./packages/game-engines/src/index.ts") },
+      { find: /^@mcpchallenge\/game-engines\/(.*)$/, replacement: resolve("./packages/game-engines/src/$1/index.ts") },
+      { find: /^@mcpchallenge\/challenge-registry$/, replacement: resolve("./packages/challenge-registry/src/index.ts") },
+      { find: /^@\//, replacement: resolve("./src/") },
+    ],
+  },
+  test: {
+    include: ["src/**/__tests__/**/*.test.ts", "packages/*/src/**/__tests__/**/*.test.ts"],
+    environment: "node",
+  },
+});